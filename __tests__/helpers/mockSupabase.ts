@@ -42,6 +42,7 @@ export function createMockSupabaseClient() {
 
   return {
     from: mockFrom,
+    rpc: jest.fn(),
     mockQuery,
   };
 }
@@ -30,6 +30,7 @@ describe('OrderRepository', () => {
 
   const mockDbOrder = {
     id: 'order-1',
+    order_number: 'FE-2025-000001',
     customer_id: 'customer-1',
     items: mockOrderItems,
     total: 649.98,
@@ -47,6 +48,7 @@ describe('OrderRepository', () => {
 
   const mockOrder: Order = {
     id: 'order-1',
+    orderNumber: 'FE-2025-000001',
     customerId: 'customer-1',
     items: mockOrderItems,
     total: 649.98,
@@ -121,6 +123,26 @@ describe('OrderRepository', () => {
       expect(mockSupabase.mockQuery.eq).toHaveBeenCalledWith('id', 'order-1');
     });
 
+    it('should attach the lots each item was picked from', async () => {
+      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(
+        mockSupabaseSuccess({
+          ...mockDbOrder,
+          order_item_lots: [
+            { product_id: 'prod-1', quantity: 1, inventory_lots: { lot_code: 'LAV-2401', best_before: '2026-03-01' } },
+            { product_id: 'prod-1', quantity: 1, inventory_lots: { lot_code: 'LAV-2402', best_before: null } },
+          ],
+        })
+      );
+
+      const result = await repository.findById('order-1');
+
+      expect(result.data?.items[0].lots).toEqual([
+        { lotCode: 'LAV-2401', bestBefore: new Date('2026-03-01'), quantity: 1 },
+        { lotCode: 'LAV-2402', bestBefore: undefined, quantity: 1 },
+      ]);
+      expect(mockSupabase.mockQuery.select).toHaveBeenCalledWith(expect.stringContaining('order_item_lots'));
+    });
+
     it('should return error when order not found', async () => {
       mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(
         mockSupabaseNotFound()
@@ -144,6 +166,32 @@ describe('OrderRepository', () => {
     });
   });
 
+  describe('findByOrderNumber', () => {
+    it('should return order by order number', async () => {
+      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(
+        mockSupabaseSuccess(mockDbOrder)
+      );
+
+      const result = await repository.findByOrderNumber('FE-2025-000001');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.id).toBe('order-1');
+      expect(result.data?.orderNumber).toBe('FE-2025-000001');
+      expect(mockSupabase.mockQuery.eq).toHaveBeenCalledWith('order_number', 'FE-2025-000001');
+    });
+
+    it('should return error when order not found', async () => {
+      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(
+        mockSupabaseNotFound()
+      );
+
+      const result = await repository.findByOrderNumber('FE-2025-999999');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order not found');
+    });
+  });
+
   describe('findByCustomerId', () => {
     it('should return customer orders', async () => {
       mockSupabase.mockQuery.order = jest.fn().mockResolvedValue(
@@ -254,7 +302,10 @@ describe('OrderRepository', () => {
 
       expect(result.success).toBe(true);
       expect(result.data?.id).toBe('order-1');
-      expect(mockSupabase.mockQuery.insert).toHaveBeenCalled();
+      expect(result.data?.orderNumber).toBe('FE-2025-000001');
+      expect(mockSupabase.mockQuery.insert).toHaveBeenCalledWith(
+        expect.not.objectContaining({ order_number: expect.anything() })
+      );
     });
 
     it('should handle database errors during creation', async () => {
@@ -285,13 +336,13 @@ describe('OrderRepository', () => {
   describe('update', () => {
     it('should update order successfully', async () => {
       const updates = {
-        status: 'confirmed' as const,
+        status: 'paid' as const,
         trackingNumber: 'TRACK123',
       };
 
       const updatedDbOrder = {
         ...mockDbOrder,
-        status: 'confirmed',
+        status: 'paid',
         tracking_number: 'TRACK123',
       };
 
@@ -302,7 +353,7 @@ describe('OrderRepository', () => {
       const result = await repository.update('order-1', updates);
 
       expect(result.success).toBe(true);
-      expect(result.data?.status).toBe('confirmed');
+      expect(result.data?.status).toBe('paid');
       expect(result.data?.trackingNumber).toBe('TRACK123');
       expect(mockSupabase.mockQuery.eq).toHaveBeenCalledWith('id', 'order-1');
     });
@@ -312,7 +363,7 @@ describe('OrderRepository', () => {
         mockSupabaseSuccess(null)
       );
 
-      const result = await repository.update('nonexistent', { status: 'confirmed' });
+      const result = await repository.update('nonexistent', { status: 'paid' });
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('Order not found');
@@ -323,56 +374,158 @@ describe('OrderRepository', () => {
         mockSupabaseError('Update failed')
       );
 
-      const result = await repository.update('order-1', { status: 'confirmed' });
+      const result = await repository.update('order-1', { status: 'paid' });
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('Update failed');
     });
   });
 
-  describe('updateStatus', () => {
-    it('should update order status', async () => {
-      const updatedDbOrder = { ...mockDbOrder, status: 'shipped' };
-      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(
-        mockSupabaseSuccess(updatedDbOrder)
-      );
+  describe('transitionStatus', () => {
+    it('should move the order and record the change', async () => {
+      const updatedDbOrder = { ...mockDbOrder, status: 'paid' };
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseSuccess(updatedDbOrder));
 
-      const result = await repository.updateStatus('order-1', 'shipped');
+      const result = await repository.transitionStatus('order-1', {
+        from: 'pending',
+        to: 'paid',
+        actor: 'stripe',
+        reason: 'Payment pi_123 succeeded',
+      });
 
       expect(result.success).toBe(true);
-      expect(result.data?.status).toBe('shipped');
-      expect(mockSupabase.mockQuery.update).toHaveBeenCalledWith({ status: 'shipped' });
+      expect(result.data?.status).toBe('paid');
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_order_status', {
+        p_order_id: 'order-1',
+        p_from_status: 'pending',
+        p_to_status: 'paid',
+        p_actor: 'stripe',
+        p_reason: 'Payment pi_123 succeeded',
+        p_tracking_number: null,
+      });
     });
 
-    it('should update status with tracking number', async () => {
+    it('should set the tracking number when shipping', async () => {
       const updatedDbOrder = { ...mockDbOrder, status: 'shipped', tracking_number: 'TRACK123' };
-      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(
-        mockSupabaseSuccess(updatedDbOrder)
-      );
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseSuccess(updatedDbOrder));
 
-      const result = await repository.updateStatus('order-1', 'shipped', 'TRACK123');
+      const result = await repository.transitionStatus('order-1', {
+        from: 'paid',
+        to: 'shipped',
+        actor: 'system',
+        trackingNumber: 'TRACK123',
+      });
 
       expect(result.success).toBe(true);
       expect(result.data?.trackingNumber).toBe('TRACK123');
     });
 
+    it('should fail when the order has moved on', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseError('ORDER_STATUS_CHANGED'));
+
+      const result = await repository.transitionStatus('order-1', {
+        from: 'pending',
+        to: 'paid',
+        actor: 'stripe',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order status has changed, please reload the order');
+    });
+
     it('should return error when order not found', async () => {
-      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(
-        mockSupabaseSuccess(null)
-      );
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseError('ORDER_NOT_FOUND'));
 
-      const result = await repository.updateStatus('nonexistent', 'shipped');
+      const result = await repository.transitionStatus('nonexistent', {
+        from: 'pending',
+        to: 'paid',
+        actor: 'stripe',
+      });
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('Order not found');
     });
   });
 
+  describe('transitionStatuses', () => {
+    it('should move the batch in one call', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseSuccess([{ ...mockDbOrder, status: 'packed' }]));
+
+      const result = await repository.transitionStatuses([
+        { orderId: 'order-1', from: 'paid', to: 'picking' },
+        { orderId: 'order-1', from: 'picking', to: 'packed' },
+      ], 'admin:admin-1');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(order => order.status)).toEqual(['packed']);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_order_statuses', {
+        p_steps: [
+          { order_id: 'order-1', from_status: 'paid', to_status: 'picking' },
+          { order_id: 'order-1', from_status: 'picking', to_status: 'packed' },
+        ],
+        p_actor: 'admin:admin-1',
+        p_reason: null,
+      });
+    });
+
+    it('should fail when one of the orders has moved on', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseError('ORDER_STATUS_CHANGED'));
+
+      const result = await repository.transitionStatuses([
+        { orderId: 'order-1', from: 'paid', to: 'picking' },
+      ], 'admin:admin-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order status has changed, please reload the order');
+    });
+  });
+
+  describe('findStatusHistory', () => {
+    it('should return the changes oldest first', async () => {
+      mockSupabase.mockQuery.order = jest.fn().mockResolvedValue(
+        mockSupabaseSuccess([
+          {
+            id: 'change-1',
+            order_id: 'order-1',
+            from_status: null,
+            to_status: 'pending',
+            actor: 'customer:customer-1',
+            reason: 'Order placed',
+            created_at: '2025-01-01T10:00:00Z',
+          },
+          {
+            id: 'change-2',
+            order_id: 'order-1',
+            from_status: 'pending',
+            to_status: 'paid',
+            actor: 'stripe',
+            reason: null,
+            created_at: '2025-01-01T10:01:00Z',
+          },
+        ])
+      );
+
+      const result = await repository.findStatusHistory('order-1');
+
+      expect(result.success).toBe(true);
+      expect(mockSupabase.from).toHaveBeenCalledWith('order_status_history');
+      expect(mockSupabase.mockQuery.order).toHaveBeenCalledWith('created_at', { ascending: true });
+      expect(result.data).toHaveLength(2);
+      expect(result.data![0].fromStatus).toBeUndefined();
+      expect(result.data![1]).toEqual(expect.objectContaining({
+        fromStatus: 'pending',
+        toStatus: 'paid',
+        actor: 'stripe',
+        reason: undefined,
+      }));
+    });
+  });
+
   describe('getOrderStatistics', () => {
     it('should return order statistics for all orders', async () => {
       const mockOrders = [
         { status: 'pending' },
-        { status: 'confirmed' },
+        { status: 'paid' },
         { status: 'pending' },
         { status: 'shipped' },
       ];
@@ -386,14 +539,14 @@ describe('OrderRepository', () => {
       expect(result.success).toBe(true);
       expect(result.data?.total).toBe(4);
       expect(result.data?.pending).toBe(2);
-      expect(result.data?.confirmed).toBe(1);
+      expect(result.data?.paid).toBe(1);
       expect(result.data?.shipped).toBe(1);
     });
 
     it('should return order statistics for specific customer', async () => {
       const mockOrders = [
         { status: 'pending' },
-        { status: 'confirmed' },
+        { status: 'paid' },
       ];
 
       mockSupabase.mockQuery.select = jest.fn().mockResolvedValue(
@@ -190,6 +190,28 @@ describe('ProductRepository', () => {
     });
   });
 
+  describe('findByIds', () => {
+    it('should return each product once, inactive ones included', async () => {
+      mockSupabase.mockQuery.in = jest.fn().mockResolvedValue(
+        mockSupabaseSuccess([mockDbProduct, { ...mockDbProduct, id: 'prod-2', is_active: false }])
+      );
+
+      const result = await repository.findByIds(['prod-1', 'prod-2', 'prod-1']);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(product => product.id)).toEqual(['prod-1', 'prod-2']);
+      expect(mockSupabase.mockQuery.in).toHaveBeenCalledWith('id', ['prod-1', 'prod-2']);
+      expect(mockSupabase.mockQuery.eq).not.toHaveBeenCalledWith('is_active', true);
+    });
+
+    it('should not query for an empty list', async () => {
+      const result = await repository.findByIds([]);
+
+      expect(result).toEqual({ success: true, data: [] });
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
   describe('findByCategory', () => {
     it('should return products by category', async () => {
       mockSupabase.mockQuery.order = jest.fn().mockResolvedValue(
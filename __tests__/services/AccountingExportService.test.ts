@@ -0,0 +1,268 @@
+import 'reflect-metadata';
+import { AccountingExportService } from '@/services/accounting/AccountingExportService';
+import { TaxCalculator } from '@/services/tax/TaxCalculator';
+import type { IInvoiceRepository, IOrderRepository } from '@/interfaces';
+import type { Invoice, Order } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+jest.mock('@/config/payment.config', () => ({
+  ...jest.requireActual('@/config/payment.config'),
+  CATEGORY_TAX_RATES: { SE: { 'gift-sets': 0.12 } },
+}));
+
+describe('AccountingExportService', () => {
+  let service: AccountingExportService;
+  let mockOrderRepository: jest.Mocked<IOrderRepository>;
+  let mockInvoiceRepository: jest.Mocked<IInvoiceRepository>;
+  const taxCalculator = new TaxCalculator();
+
+  const period = { from: '2025-03-01', to: '2025-03-31' };
+
+  const makeOrder = (overrides: Partial<Order> & { country?: string } = {}): Order => {
+    const { country = 'SE', ...rest } = overrides;
+    const vat = taxCalculator.calculate({ country, lines: [{ amount: 250 }], shipping: 49 });
+    return {
+      id: 'order-1',
+      orderNumber: 'FE-2025-000001',
+      customerId: 'customer-1',
+      items: [],
+      shipping: 49,
+      tax: vat.vat,
+      total: vat.total,
+      status: 'paid',
+      paymentMethod: 'stripe',
+      paymentId: 'pi_123',
+      shippingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '111 22', country },
+      billingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '111 22', country },
+      vatScheme: vat.scheme,
+      vatBreakdown: vat.breakdown,
+      createdAt: new Date('2025-03-10T12:00:00Z'),
+      updatedAt: new Date('2025-03-10T12:00:00Z'),
+      ...rest,
+    };
+  };
+
+  const creditNote = {
+    id: 'invoice-2',
+    invoiceNumber: 1002,
+    type: 'credit_note',
+    orderId: 'order-1',
+    creditedInvoiceNumber: 1001,
+    reference: 'return-1',
+    lines: [],
+    vatScheme: 'domestic',
+    vatBreakdown: [{ rate: 0.25, net: -72, vat: -18, gross: -90 }],
+    total: -90,
+    currency: 'SEK',
+    paymentMethod: 'stripe',
+    issuedAt: new Date('2025-03-20T09:00:00Z'),
+  } as unknown as Invoice;
+
+  const givenOrders = (...orders: Order[]) => {
+    mockOrderRepository.findByCreatedBetween.mockResolvedValue({ success: true, data: orders });
+    mockOrderRepository.findById.mockImplementation(async (id) => ({
+      success: true,
+      data: orders.find(order => order.id === id)!,
+    }));
+  };
+
+  const givenCreditNotes = (...creditNotes: Invoice[]) => {
+    mockInvoiceRepository.findIssuedBetween.mockResolvedValue({ success: true, data: creditNotes });
+  };
+
+  const exportLines = async () => {
+    const result = await service.exportSie(period);
+    expect(result.success).toBe(true);
+    return Buffer.from(result.data!.content).toString('latin1').split('\r\n');
+  };
+
+  const transactions = (lines: string[]) =>
+    lines.filter(line => line.trim().startsWith('#TRANS')).map(line => line.trim());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockOrderRepository = {
+      findById: jest.fn(),
+      findByCreatedBetween: jest.fn().mockResolvedValue({ success: true, data: [] }),
+    } as any;
+
+    mockInvoiceRepository = {
+      findByOrderId: jest.fn(),
+      findByReference: jest.fn(),
+      findIssuedBetween: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      create: jest.fn(),
+    };
+
+    service = new AccountingExportService(mockOrderRepository, mockInvoiceRepository, taxCalculator);
+  });
+
+  describe('exportSie', () => {
+    it('should fetch the period from midnight Swedish time', async () => {
+      await service.exportSie(period);
+
+      expect(mockOrderRepository.findByCreatedBetween).toHaveBeenCalledWith(
+        new Date('2025-02-28T23:00:00Z'),
+        new Date('2025-03-31T22:00:00Z')
+      );
+      expect(mockInvoiceRepository.findIssuedBetween).toHaveBeenCalledWith(
+        new Date('2025-02-28T23:00:00Z'),
+        new Date('2025-03-31T22:00:00Z'),
+        'credit_note'
+      );
+    });
+
+    it('should write the SIE4 header with the fiscal year and accounts used', async () => {
+      givenOrders(makeOrder());
+
+      const lines = await exportLines();
+
+      expect(lines).toEqual(expect.arrayContaining([
+        '#FORMAT PC8',
+        '#SIETYP 4',
+        '#FNAMN "Fortune Essence AB"',
+        '#RAR 0 20250101 20251231',
+        '#KPTYP BAS2014',
+        '#KONTO 1580 "Fordringar f\x94r kontokort och kuponger"',
+        '#KONTO 3520 "Fakturerade frakter"',
+        '#VER W "" 20250310 "Order FE-2025-000001"',
+      ]));
+    });
+
+    it('should book a sale on the clearing, sales, shipping and VAT accounts', async () => {
+      givenOrders(makeOrder());
+
+      const lines = await exportLines();
+
+      expect(transactions(lines)).toEqual([
+        '#TRANS 1580 {} 299.00',
+        '#TRANS 3520 {} -39.20',
+        '#TRANS 3001 {} -200.00',
+        '#TRANS 2611 {} -59.80',
+      ]);
+    });
+
+    it('should split sales and shipping over the VAT rates of the order', async () => {
+      const vat = taxCalculator.calculate({
+        country: 'SE',
+        lines: [{ amount: 200 }, { amount: 300, category: 'gift-sets' }],
+        shipping: 49,
+        discount: 50,
+      });
+      givenOrders(makeOrder({ total: vat.total, tax: vat.vat, vatBreakdown: vat.breakdown }));
+
+      const lines = await exportLines();
+
+      expect(transactions(lines)).toEqual([
+        '#TRANS 1580 {} 499.00',
+        '#TRANS 3520 {} -41.93',
+        '#TRANS 3001 {} -144.00',
+        '#TRANS 2611 {} -39.92',
+        '#TRANS 3002 {} -241.07',
+        '#TRANS 2621 {} -32.08',
+      ]);
+    });
+
+    it('should keep OSS sales and VAT apart from Swedish sales', async () => {
+      givenOrders(makeOrder({ country: 'FI', paymentMethod: 'klarna' }));
+
+      const lines = await exportLines();
+
+      expect(transactions(lines)).toEqual([
+        '#TRANS 1581 {} 299.00',
+        '#TRANS 3520 {} -39.04',
+        '#TRANS 3106 {} -199.21',
+        '#TRANS 2619 {} -60.75',
+      ]);
+    });
+
+    it('should book exports without VAT', async () => {
+      givenOrders(makeOrder({ country: 'NO', paymentMethod: 'swish' }));
+
+      const lines = await exportLines();
+
+      expect(transactions(lines)).toEqual([
+        '#TRANS 1930 {} 299.00',
+        '#TRANS 3520 {} -49.00',
+        '#TRANS 3105 {} -250.00',
+      ]);
+    });
+
+    it('should reverse sales and VAT for credit notes', async () => {
+      givenCreditNotes(creditNote);
+
+      const lines = await exportLines();
+
+      expect(lines).toContain('#VER W "" 20250320 "Kreditfaktura 1002"');
+      expect(transactions(lines)).toEqual([
+        '#TRANS 1580 {} -90.00',
+        '#TRANS 3001 {} 72.00',
+        '#TRANS 2611 {} 18.00',
+      ]);
+    });
+
+    it('should leave out orders that were never paid', async () => {
+      givenOrders(makeOrder({ status: 'pending' }), makeOrder({ status: 'cancelled' }));
+
+      const lines = await exportLines();
+
+      expect(transactions(lines)).toEqual([]);
+    });
+
+    it('should reject periods that end before they start', async () => {
+      const result = await service.exportSie({ from: '2025-03-31', to: '2025-03-01' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/^Invalid period/);
+      expect(mockOrderRepository.findByCreatedBetween).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVatReturn', () => {
+    it('should fill in the momsdeklaration boxes net of refunds', async () => {
+      const vat = taxCalculator.calculate({
+        country: 'SE',
+        lines: [{ amount: 200 }, { amount: 300, category: 'gift-sets' }],
+        shipping: 49,
+        discount: 50,
+      });
+      givenOrders(
+        makeOrder(),
+        makeOrder({ id: 'order-2', total: vat.total, tax: vat.vat, vatBreakdown: vat.breakdown }),
+        makeOrder({ id: 'order-3', country: 'NO' })
+      );
+      givenCreditNotes(creditNote);
+
+      const result = await service.getVatReturn(period);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.boxes).toEqual({
+        '05': 594.2,
+        '10': 81.72,
+        '11': 32.08,
+        '12': 0,
+        '36': 299,
+      });
+      expect(result.data!.oss).toEqual([]);
+    });
+
+    it('should summarise OSS sales per country and rate', async () => {
+      givenOrders(
+        makeOrder({ country: 'FI' }),
+        makeOrder({ id: 'order-2', country: 'DE' }),
+        makeOrder({ id: 'order-3', country: 'FI' })
+      );
+
+      const result = await service.getVatReturn(period);
+
+      expect(result.data!.boxes['05']).toBe(0);
+      expect(result.data!.oss).toEqual([
+        { country: 'DE', rate: 0.19, net: 251.26, vat: 47.74 },
+        { country: 'FI', rate: 0.255, net: 476.5, vat: 121.5 },
+      ]);
+    });
+  });
+});
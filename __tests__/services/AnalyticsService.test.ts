@@ -0,0 +1,212 @@
+import 'reflect-metadata';
+import { AnalyticsService } from '@/services/analytics/AnalyticsService';
+import type { IOrderRepository, IProductRepository } from '@/interfaces';
+import type { Order, OrderItem, Product } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('AnalyticsService', () => {
+  let service: AnalyticsService;
+  let mockOrderRepository: jest.Mocked<IOrderRepository>;
+  let mockProductRepository: jest.Mocked<IProductRepository>;
+
+  const lavender: OrderItem = {
+    productId: 'lavender',
+    productName: 'Lavendelolja 10ml',
+    quantity: 2,
+    price: 149,
+    total: 298,
+    category: 'essential-oils',
+  };
+
+  const diffuser: OrderItem = {
+    productId: 'diffuser',
+    productName: 'Ultraljudsdiffuser',
+    quantity: 1,
+    price: 499,
+    total: 499,
+    category: 'diffusers',
+  };
+
+  const makeOrder = (overrides: Partial<Order> = {}): Order => ({
+    id: 'order-1',
+    orderNumber: 'FE-2025-000001',
+    customerId: 'customer-1',
+    items: [lavender],
+    shipping: 49,
+    tax: 69.4,
+    total: 347,
+    status: 'paid',
+    paymentMethod: 'stripe',
+    paymentId: 'pi_123',
+    shippingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '111 22', country: 'SE' },
+    billingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '111 22', country: 'SE' },
+    createdAt: new Date('2025-06-14T10:00:00Z'),
+    updatedAt: new Date('2025-06-14T10:00:00Z'),
+    ...overrides,
+  });
+
+  const givenOrders = (...orders: Order[]) => {
+    mockOrderRepository.findByCreatedBetween.mockResolvedValue({ success: true, data: orders });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2025-06-15T12:00:00Z'));
+
+    mockOrderRepository = {
+      findByCreatedBetween: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      findCustomersWithOrdersBefore: jest.fn().mockResolvedValue({ success: true, data: [] }),
+    } as any;
+
+    mockProductRepository = {
+      findAll: jest.fn().mockResolvedValue({ success: true, data: [] }),
+    } as any;
+
+    service = new AnalyticsService(mockOrderRepository, mockProductRepository);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should fetch this week and the week before from midnight Swedish time', async () => {
+    const result = await service.getSalesAnalytics('week');
+
+    expect(result.data).toMatchObject({ range: 'week', from: '2025-06-09', to: '2025-06-15' });
+    expect(mockOrderRepository.findByCreatedBetween).toHaveBeenCalledWith(
+      new Date('2025-06-01T22:00:00Z'),
+      new Date('2025-06-15T22:00:00Z')
+    );
+  });
+
+  it('should compare revenue, orders and average order value with the previous period', async () => {
+    givenOrders(
+      makeOrder({ id: 'order-1', total: 347 }),
+      makeOrder({ id: 'order-2', total: 548, items: [diffuser] }),
+      makeOrder({ id: 'order-3', total: 300, createdAt: new Date('2025-06-05T10:00:00Z') })
+    );
+
+    const result = await service.getSalesAnalytics('week');
+
+    expect(result.success).toBe(true);
+    expect(result.data!.revenue).toEqual({ current: 895, previous: 300, change: 198.3 });
+    expect(result.data!.orders).toEqual({ current: 2, previous: 1, change: 100 });
+    expect(result.data!.averageOrderValue).toEqual({ current: 447.5, previous: 300, change: 49.2 });
+  });
+
+  it('should leave out unpaid and cancelled orders', async () => {
+    givenOrders(
+      makeOrder(),
+      makeOrder({ id: 'order-2', status: 'pending' }),
+      makeOrder({ id: 'order-3', status: 'cancelled' })
+    );
+
+    const result = await service.getSalesAnalytics('week');
+
+    expect(result.data!.orders.current).toBe(1);
+    expect(result.data!.revenue.current).toBe(347);
+  });
+
+  it('should report no change when the previous period had no sales', async () => {
+    givenOrders(makeOrder());
+
+    const result = await service.getSalesAnalytics('week');
+
+    expect(result.data!.revenue).toEqual({ current: 347, previous: 0, change: null });
+  });
+
+  it('should count customers with earlier orders as returning', async () => {
+    givenOrders(
+      makeOrder({ id: 'order-1', customerId: 'customer-1' }),
+      makeOrder({ id: 'order-2', customerId: 'customer-1' }),
+      makeOrder({ id: 'order-3', customerId: 'customer-2' })
+    );
+    mockOrderRepository.findCustomersWithOrdersBefore.mockResolvedValue({ success: true, data: ['customer-2'] });
+
+    const result = await service.getSalesAnalytics('week');
+
+    expect(mockOrderRepository.findCustomersWithOrdersBefore).toHaveBeenCalledWith(
+      ['customer-1', 'customer-2'],
+      new Date('2025-06-08T22:00:00Z')
+    );
+    expect(result.data!.customers.new.current).toBe(1);
+    expect(result.data!.customers.returning.current).toBe(1);
+  });
+
+  it('should rank top products and split revenue by category', async () => {
+    givenOrders(
+      makeOrder({ id: 'order-1', items: [lavender, diffuser] }),
+      makeOrder({ id: 'order-2', items: [lavender] })
+    );
+
+    const result = await service.getSalesAnalytics('week');
+
+    expect(result.data!.topProducts).toEqual([
+      { productId: 'lavender', name: 'Lavendelolja 10ml', quantity: 4, revenue: 596 },
+      { productId: 'diffuser', name: 'Ultraljudsdiffuser', quantity: 1, revenue: 499 },
+    ]);
+    expect(result.data!.revenueByCategory).toEqual([
+      { category: 'essential-oils', revenue: 596, percentage: 54.4 },
+      { category: 'diffusers', revenue: 499, percentage: 45.6 },
+    ]);
+    expect(mockProductRepository.findAll).not.toHaveBeenCalled();
+  });
+
+  it('should report the margin of products sold with a cost price', async () => {
+    givenOrders(
+      makeOrder({ id: 'order-1', items: [{ ...lavender, vatRate: 0.25, costPrice: 40 }, diffuser] }),
+      makeOrder({ id: 'order-2', items: [{ ...lavender, vatRate: 0.25, costPrice: 50 }] })
+    );
+
+    const result = await service.getSalesAnalytics('week');
+
+    // 596 kr incl. 25% VAT is 476.80 net, less 2 x 40 and 2 x 50 kr cost
+    expect(result.data!.topProducts[0]).toEqual(
+      { productId: 'lavender', name: 'Lavendelolja 10ml', quantity: 4, revenue: 596, margin: 296.8 }
+    );
+    expect(result.data!.topProducts[1]).not.toHaveProperty('margin');
+  });
+
+  it('should look up the category of items ordered before it was stored', async () => {
+    givenOrders(makeOrder({ items: [{ ...diffuser, category: undefined }] }));
+    mockProductRepository.findAll.mockResolvedValue({
+      success: true,
+      data: [{ id: 'diffuser', category: 'diffusers' } as Product],
+    });
+
+    const result = await service.getSalesAnalytics('week');
+
+    expect(result.data!.revenueByCategory).toEqual([
+      { category: 'diffusers', revenue: 499, percentage: 100 },
+    ]);
+  });
+
+  it('should list every day of the range with its sales', async () => {
+    givenOrders(
+      makeOrder({ id: 'order-1', createdAt: new Date('2025-06-14T10:00:00Z') }),
+      // 00:30 on June 15th in Stockholm
+      makeOrder({ id: 'order-2', createdAt: new Date('2025-06-14T22:30:00Z') })
+    );
+
+    const result = await service.getSalesAnalytics('week');
+
+    expect(result.data!.dailySales).toHaveLength(7);
+    expect(result.data!.dailySales[0]).toEqual({ date: '2025-06-09', revenue: 0, orders: 0 });
+    expect(result.data!.dailySales.slice(-2)).toEqual([
+      { date: '2025-06-14', revenue: 347, orders: 1 },
+      { date: '2025-06-15', revenue: 347, orders: 1 },
+    ]);
+  });
+
+  it('should return an error when orders cannot be fetched', async () => {
+    mockOrderRepository.findByCreatedBetween.mockResolvedValue({ success: false, error: 'Database error' });
+
+    const result = await service.getSalesAnalytics('month');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Database error');
+  });
+});
@@ -0,0 +1,103 @@
+import 'reflect-metadata';
+import { BusinessDayCalculator } from '@/services/shipping/BusinessDayCalculator';
+import { SwedishHolidayCalendar } from '@/services/shipping/SwedishHolidayCalendar';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('BusinessDayCalculator', () => {
+  let calculator: BusinessDayCalculator;
+
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+
+  beforeEach(() => {
+    calculator = new BusinessDayCalculator(new SwedishHolidayCalendar());
+  });
+
+  describe('isBusinessDay', () => {
+    it('should exclude weekends and holidays', () => {
+      expect(calculator.isBusinessDay(new Date('2026-10-20T10:00:00Z'))).toBe(true);
+      expect(calculator.isBusinessDay(new Date('2026-10-24T10:00:00Z'))).toBe(false);
+      expect(calculator.isBusinessDay(new Date('2026-04-03T10:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('estimateDelivery', () => {
+    it('should dispatch the same day when ordered before the cut-off', () => {
+      // Tuesday 10:00 in Stockholm
+      const estimate = calculator.estimateDelivery({
+        transitDays: 2,
+        cutoffTime: '15:00',
+        orderedAt: new Date('2026-10-20T08:00:00Z'),
+      });
+
+      expect(day(estimate)).toBe('2026-10-22');
+    });
+
+    it('should dispatch the next business day when ordered after the cut-off', () => {
+      // Tuesday 16:00 in Stockholm
+      const estimate = calculator.estimateDelivery({
+        transitDays: 2,
+        cutoffTime: '15:00',
+        orderedAt: new Date('2026-10-20T14:00:00Z'),
+      });
+
+      expect(day(estimate)).toBe('2026-10-23');
+    });
+
+    it('should skip the weekend for orders after the cut-off on a Friday', () => {
+      const estimate = calculator.estimateDelivery({
+        transitDays: 1,
+        cutoffTime: '15:00',
+        orderedAt: new Date('2026-10-23T13:30:00Z'),
+      });
+
+      expect(day(estimate)).toBe('2026-10-27');
+    });
+
+    it('should treat an order after midnight in Stockholm as placed the next day', () => {
+      // Friday 23:30 UTC is Saturday 01:30 in Stockholm
+      const estimate = calculator.estimateDelivery({
+        transitDays: 1,
+        cutoffTime: '15:00',
+        orderedAt: new Date('2026-10-23T23:30:00Z'),
+      });
+
+      expect(day(estimate)).toBe('2026-10-27');
+    });
+
+    it('should skip Easter when dispatching and delivering', () => {
+      // Maundy Thursday after the cut-off: Good Friday to Easter Monday are all closed
+      const estimate = calculator.estimateDelivery({
+        transitDays: 1,
+        cutoffTime: '15:00',
+        orderedAt: new Date('2026-04-02T14:00:00Z'),
+      });
+
+      expect(day(estimate)).toBe('2026-04-08');
+    });
+
+    it('should not deliver on Midsommarafton', () => {
+      const estimate = calculator.estimateDelivery({
+        transitDays: 1,
+        cutoffTime: '15:00',
+        orderedAt: new Date('2026-06-18T08:00:00Z'),
+      });
+
+      expect(day(estimate)).toBe('2026-06-22');
+    });
+
+    it('should add the extra days for remote postal zones as business days', () => {
+      // Norrland adds two days to a one-day service
+      const estimate = calculator.estimateDelivery({
+        transitDays: 1,
+        cutoffTime: '15:00',
+        additionalDays: 2,
+        orderedAt: new Date('2026-10-22T08:00:00Z'),
+      });
+
+      expect(day(estimate)).toBe('2026-10-27');
+    });
+  });
+});
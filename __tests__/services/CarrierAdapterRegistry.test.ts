@@ -0,0 +1,160 @@
+import 'reflect-metadata';
+import { CarrierAdapterRegistry } from '@/services/shipping/CarrierAdapterRegistry';
+import { PostNordCarrierAdapter } from '@/services/shipping/carriers/PostNordCarrierAdapter';
+import { DhlCarrierAdapter } from '@/services/shipping/carriers/DhlCarrierAdapter';
+import { BringCarrierAdapter } from '@/services/shipping/carriers/BringCarrierAdapter';
+import { DbSchenkerCarrierAdapter } from '@/services/shipping/carriers/DbSchenkerCarrierAdapter';
+import { InstabeeCarrierAdapter } from '@/services/shipping/carriers/InstabeeCarrierAdapter';
+import { BudbeeCarrierAdapter } from '@/services/shipping/carriers/BudbeeCarrierAdapter';
+import { InstaboxCarrierAdapter } from '@/services/shipping/carriers/InstaboxCarrierAdapter';
+import { EarlyBirdCarrierAdapter } from '@/services/shipping/carriers/EarlyBirdCarrierAdapter';
+import { getAllCarriers } from '@/config/carriers';
+import type { Address } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('CarrierAdapterRegistry', () => {
+  let registry: CarrierAdapterRegistry;
+
+  const recipient: Address = {
+    firstName: 'Anna',
+    lastName: 'Svensson',
+    street: 'Storgatan 1',
+    city: 'Stockholm',
+    postalCode: '11122',
+    country: 'Sweden',
+  };
+
+  beforeEach(() => {
+    registry = new CarrierAdapterRegistry([
+      new PostNordCarrierAdapter(),
+      new DhlCarrierAdapter(),
+      new BringCarrierAdapter(),
+      new DbSchenkerCarrierAdapter(),
+      new InstabeeCarrierAdapter(),
+      new BudbeeCarrierAdapter(),
+      new InstaboxCarrierAdapter(),
+      new EarlyBirdCarrierAdapter(),
+    ]);
+  });
+
+  it('should have an adapter that quotes every service of every carrier', async () => {
+    for (const carrier of getAllCarriers()) {
+      const adapter = registry.getAdapter(carrier.code);
+      expect(adapter).not.toBeNull();
+
+      const quotes = await adapter!.quoteRates({ weight: 0.5, country: 'Sweden' });
+      expect(quotes.data!.map(quote => quote.serviceType).sort())
+        .toEqual(carrier.services.map(service => service.type).sort());
+    }
+  });
+
+  it('should return null for carriers without an adapter', () => {
+    expect(registry.getAdapter('UNKNOWN')).toBeNull();
+  });
+
+  describe('stub quotes', () => {
+    it('should only quote services that take the weight and delivery type', async () => {
+      const quotes = await registry.getAdapter('BUDBEE')!.quoteRates({ weight: 18, country: 'Sweden', deliveryType: 'locker' });
+
+      // The Budbee locker takes at most 15 kg
+      expect(quotes.data!.map(quote => quote.serviceType)).toEqual(['BOX']);
+    });
+
+    it('should charge per kg above the included weight', async () => {
+      const adapter = registry.getAdapter('POSTNORD')!;
+
+      const light = await adapter.quoteRates({ weight: 2, country: 'Sweden' });
+      const heavy = await adapter.quoteRates({ weight: 7.2, country: 'Sweden' });
+
+      expect(light.data!.find(quote => quote.serviceType === 'PAKET')!.price).toBe(69);
+      expect(heavy.data!.find(quote => quote.serviceType === 'PAKET')!.price).toBe(84);
+    });
+  });
+
+  describe('stub bookings', () => {
+    it('should give the same reference the same tracking number', async () => {
+      const adapter = registry.getAdapter('DHL')!;
+
+      const first = await adapter.bookShipment({ reference: 'shipment-1', weight: 2, recipient });
+      const again = await adapter.bookShipment({ reference: 'shipment-1', weight: 2, recipient });
+      const other = await adapter.bookShipment({ reference: 'shipment-2', weight: 2, recipient });
+
+      expect(first.data!.trackingNumber).toMatch(/^DHL[0-9A-F]{10}\d{2}$/);
+      expect(again.data!.trackingNumber).toBe(first.data!.trackingNumber);
+      expect(other.data!.trackingNumber).not.toBe(first.data!.trackingNumber);
+    });
+
+    it('should book a service for the pickup point type', async () => {
+      const result = await registry.getAdapter('INSTABOX')!.bookShipment({
+        reference: 'shipment-1',
+        weight: 1,
+        recipient,
+        pickupPoint: {
+          id: 'IB-1',
+          carrierCode: 'INSTABOX',
+          type: 'service_point',
+          name: 'ICA Kvantum',
+          street: 'Storgatan 5',
+          postalCode: '11122',
+          city: 'Stockholm',
+        },
+      });
+
+      expect(result.data).toEqual(expect.objectContaining({ serviceType: 'SERVICEPOINT', serviceName: 'Instabox Servicepoint' }));
+    });
+
+    it('should refuse parcels too heavy for the service', async () => {
+      const result = await registry.getAdapter('EARLY_BIRD')!.bookShipment({
+        reference: 'shipment-1',
+        serviceType: 'ECO_EXPRESS',
+        weight: 25,
+        recipient,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Early Bird Eco Express takes at most 20 kg');
+    });
+
+    it('should only book services that carry limited quantities for dangerous goods', async () => {
+      const adapter = registry.getAdapter('DHL')!;
+
+      const defaultService = await adapter.bookShipment({ reference: 'shipment-1', weight: 1, recipient, limitedQuantity: true });
+      const express = await adapter.bookShipment({
+        reference: 'shipment-1',
+        serviceType: 'EXPRESS',
+        weight: 1,
+        recipient,
+        limitedQuantity: true,
+      });
+
+      expect(defaultService.data!.serviceType).toBe('STANDARD');
+      expect(express.success).toBe(false);
+      expect(express.error).toBe('DHL Express does not carry dangerous goods');
+    });
+  });
+
+  describe('stub cancellation', () => {
+    it('should cancel the carrier\'s own parcels only', async () => {
+      const adapter = registry.getAdapter('BRING')!;
+      const booking = await adapter.bookShipment({ reference: 'shipment-1', weight: 1, recipient });
+
+      expect((await adapter.cancelShipment(booking.data!.trackingNumber)).success).toBe(true);
+      expect((await adapter.cancelShipment('PN123SE')).error).toBe('PN123SE is not a Bring parcel');
+    });
+  });
+
+  describe('getTrackingAdapter', () => {
+    it('should simulate tracking outside production', async () => {
+      const adapter = registry.getTrackingAdapter('DB_SCHENKER');
+      const shippedAt = new Date(Date.now() - 4 * 60 * 60 * 1000);
+
+      const events = await adapter!.fetchTrackingEvents('DBS123', shippedAt);
+
+      expect(adapter!.hasLiveTracking()).toBe(false);
+      expect(events.data!.map(event => event.status)).toEqual(['info_received', 'in_transit']);
+    });
+  });
+});
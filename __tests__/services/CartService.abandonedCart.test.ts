@@ -1,5 +1,6 @@
 import { CartService } from '@/services/cart/CartService';
-import type { ICartRepository, IProductRepository, IAbandonedCartRepository, IBundleService } from '@/interfaces';
+import { TaxCalculator } from '@/services/tax/TaxCalculator';
+import type { ICartRepository, IProductRepository, IAbandonedCartRepository, IBundleService, IPromotionService } from '@/interfaces';
 import { mockCart, mockAbandonedCart, mockCartItems } from '../helpers/testData';
 import type { AbandonedCart } from '@/types';
 
@@ -9,6 +10,7 @@ describe('CartService - Abandoned Cart Methods', () => {
   let mockProductRepository: jest.Mocked<IProductRepository>;
   let mockAbandonedCartRepository: jest.Mocked<IAbandonedCartRepository>;
   let mockBundleService: jest.Mocked<IBundleService>;
+  let mockPromotionService: jest.Mocked<IPromotionService>;
 
   beforeEach(() => {
     // Create mocks
@@ -53,12 +55,25 @@ describe('CartService - Abandoned Cart Methods', () => {
       calculateBundlePrice: jest.fn(),
     } as any;
 
+    mockPromotionService = {
+      validateCode: jest.fn(),
+      redeemCode: jest.fn(),
+      assignRedemption: jest.fn().mockResolvedValue({ success: true }),
+      releaseRedemption: jest.fn().mockResolvedValue({ success: true }),
+      createCode: jest.fn(),
+      createWelcomeCode: jest.fn(),
+      listCodes: jest.fn(),
+      deactivateCode: jest.fn(),
+    };
+
     // Create service instance
     cartService = new CartService(
       mockCartRepository,
       mockProductRepository,
       mockAbandonedCartRepository,
-      mockBundleService
+      mockBundleService,
+      mockPromotionService,
+      new TaxCalculator()
     );
   });
 
@@ -0,0 +1,113 @@
+import 'reflect-metadata';
+import { CarrierRulesEngine } from '@/services/shipping/CarrierRulesEngine';
+import { carriesLimitedQuantity, checkDangerousGoods } from '@/services/shipping/DangerousGoodsRules';
+import { getAllCarriers } from '@/config/carriers';
+import type { Product, ProductDangerousGoods, ShippingRate } from '@/types';
+
+describe('Dangerous goods rules', () => {
+  const product = (id: string, dangerousGoods?: ProductDangerousGoods): Product => ({
+    id,
+    name: id,
+    description: '',
+    price: 100,
+    category: 'essential-oils',
+    images: [],
+    stock: 10,
+    sku: id.toUpperCase(),
+    weight: 0.1,
+    dimensions: { length: 5, width: 5, height: 10 },
+    isActive: true,
+    translations: {
+      sv: { name: id, description: '' },
+      en: { name: id, description: '' },
+    },
+    dangerousGoods,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const products = new Map([
+    product('lavender', { unNumber: 'UN1993', packingGroup: 'III', volumeMl: 10 }),
+    product('vanilla', { unNumber: 'UN1197', packingGroup: 'II', volumeMl: 50 }),
+    product('refill', { unNumber: 'UN1993', packingGroup: 'II', volumeMl: 2000 }),
+    product('diffuser'),
+  ].map(entry => [entry.id, entry]));
+
+  describe('checkDangerousGoods', () => {
+    it('should need the limited-quantity mark for flammable oils', () => {
+      const check = checkDangerousGoods([
+        { productId: 'vanilla', productName: 'Vaniljextrakt', quantity: 1 },
+        { productId: 'lavender', productName: 'Lavendelolja', quantity: 3 },
+        { productId: 'diffuser', productName: 'Diffusor', quantity: 1 },
+      ], products, 1.2);
+
+      expect(check.limitedQuantity).toBe(true);
+      expect(check.unNumbers).toEqual(['UN1197', 'UN1993']);
+      expect(check.totalVolumeMl).toBe(80);
+      expect(check.warnings).toEqual([]);
+    });
+
+    it('should leave parcels without dangerous goods unmarked, however heavy', () => {
+      const check = checkDangerousGoods([{ productId: 'diffuser', productName: 'Diffusor', quantity: 40 }], products, 40);
+
+      expect(check.limitedQuantity).toBe(false);
+      expect(check.warnings).toEqual([]);
+    });
+
+    it('should warn about bottles and parcels over the per-package limits', () => {
+      const check = checkDangerousGoods([
+        { productId: 'refill', productName: 'Lavendelolja refill', quantity: 1 },
+      ], products, 31.5);
+
+      expect(check.warnings).toEqual([
+        'Lavendelolja refill: 2000 ml bottles are over the 1000 ml limit for packing group II',
+        'Parcel weighs 31.50 kg, over the 30 kg limit for limited quantities; split it into several parcels',
+      ]);
+    });
+  });
+
+  describe('carriesLimitedQuantity', () => {
+    it('should refuse lockers and couriers that do not take dangerous goods', () => {
+      expect(carriesLimitedQuantity('POSTNORD', 'service_point')).toBe(true);
+      expect(carriesLimitedQuantity('INSTABOX', 'locker')).toBe(false);
+      expect(carriesLimitedQuantity('BUDBEE', 'home')).toBe(false);
+    });
+  });
+
+  describe('CarrierRulesEngine', () => {
+    const engine = new CarrierRulesEngine();
+    const criteria = { weight: 1, orderValue: 300, destination: 'Sweden', dangerousGoods: true };
+
+    it('should drop services that do not carry limited quantities', () => {
+      const carriers = engine.applySmartFilters(getAllCarriers(), criteria);
+
+      const services = carriers.flatMap(carrier => carrier.services.map(service => `${carrier.code}:${service.type}`));
+      expect(services).toContain('POSTNORD:SERVICEPOINT');
+      expect(services).not.toContain('POSTNORD:EXPRESS');
+      expect(services).not.toContain('DHL:EXPRESS');
+      expect(carriers.map(carrier => carrier.code)).not.toContain('INSTABOX');
+      // The carrier configuration itself is left alone
+      expect(getAllCarriers().find(carrier => carrier.code === 'DHL')!.services).toHaveLength(2);
+    });
+
+    it('should keep only rates for the remaining services', () => {
+      const rate = (carrierCode?: string, serviceType?: string): ShippingRate => ({
+        id: `${carrierCode}-${serviceType}`,
+        name: `${carrierCode} ${serviceType}`,
+        description: '',
+        price: 49,
+        estimatedDays: 2,
+        country: 'Sweden',
+        maxWeight: 20,
+        carrierCode,
+        serviceType,
+      });
+      const rates = [rate('POSTNORD', 'STANDARD'), rate('DHL', 'EXPRESS'), rate('BUDBEE', 'LOCKER'), rate()];
+
+      const carriers = engine.applySmartFilters(getAllCarriers(), criteria);
+
+      expect(engine.filterRatesByCarriers(rates, carriers, criteria).map(entry => entry.id)).toEqual(['POSTNORD-STANDARD']);
+      expect(engine.filterRatesByCarriers(rates, getAllCarriers(), { ...criteria, dangerousGoods: false })).toHaveLength(4);
+    });
+  });
+});
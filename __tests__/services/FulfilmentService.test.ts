@@ -0,0 +1,294 @@
+import 'reflect-metadata';
+import { FulfilmentService } from '@/services/shipping/FulfilmentService';
+import { PackingSlipPdfService } from '@/services/shipping/PackingSlipPdfService';
+import type { LabelGenerationService } from '@/services/shipping/LabelGenerationService';
+import type { IOrderService, IProductRepository, IShipmentService } from '@/interfaces';
+import type { Order, OrderShipment, OrderStatusStep, Product } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('FulfilmentService', () => {
+  let service: FulfilmentService;
+  let orders: Map<string, Order>;
+  let mockOrderService: jest.Mocked<Pick<IOrderService, 'getOrderById' | 'getOrdersByStatus' | 'transitionOrders'>>;
+  let mockProductRepository: jest.Mocked<Pick<IProductRepository, 'findByIds'>>;
+  let shipments: Map<string, OrderShipment>;
+  let mockShipmentService: jest.Mocked<Pick<IShipmentService, 'getOrderShipments' | 'createShipment' | 'generateLabel'>>;
+  let mockLabelGenerationService: jest.Mocked<Pick<LabelGenerationService, 'mergeLabelPdfs'>>;
+
+  const baseOrder: Order = {
+    id: 'order-1',
+    orderNumber: 'FE-2026-000001',
+    customerId: 'customer-1',
+    items: [
+      { productId: 'lavender', productName: 'Lavendelolja', quantity: 2, price: 100, total: 200 },
+      { productId: 'diffuser', productName: 'Diffusor', quantity: 1, price: 400, total: 400 },
+    ],
+    total: 649,
+    tax: 130,
+    shipping: 49,
+    status: 'paid',
+    shippingAddress: { firstName: 'Åsa', lastName: 'Öberg', street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'Sweden' },
+    billingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'Sweden' },
+    paymentMethod: 'card',
+    paymentId: 'pi_1',
+    carrier: 'POSTNORD',
+    locale: 'sv',
+    createdAt: new Date('2026-10-01T08:00:00Z'),
+    updatedAt: new Date('2026-10-01T08:00:00Z'),
+  };
+
+  const secondOrder: Order = {
+    ...baseOrder,
+    id: 'order-2',
+    orderNumber: 'FE-2026-000002',
+    items: [
+      { productId: 'lavender', productName: 'Lavendelolja', quantity: 1, price: 100, total: 100 },
+      { productId: 'jojoba', productName: 'Jojobaolja', quantity: 3, price: 80, total: 240 },
+      { productId: 'candle', productName: 'Ljus', quantity: 1, price: 50, total: 50 },
+    ],
+    locale: 'en',
+    createdAt: new Date('2026-09-30T08:00:00Z'),
+  };
+
+  const product = (id: string, sku: string, shelfLocation?: string): Product => ({
+    id,
+    name: `${id} (sv)`,
+    description: '',
+    price: 100,
+    category: 'essential-oils',
+    images: [],
+    stock: 10,
+    sku,
+    weight: 0.1,
+    dimensions: { length: 5, width: 5, height: 10 },
+    isActive: true,
+    translations: {
+      sv: { name: `${id} (sv)`, description: '' },
+      en: { name: `${id} (en)`, description: '' },
+    },
+    shelfLocation,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const shipment = (id: string, order: Order, overrides: Partial<OrderShipment> = {}): OrderShipment => ({
+    id,
+    orderId: order.id,
+    status: 'pending',
+    items: order.items.map(item => ({ productId: item.productId, productName: item.productName, quantity: item.quantity })),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const adminChange = { actor: 'admin:admin-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    orders = new Map([baseOrder, secondOrder].map(order => [order.id, { ...order }]));
+
+    mockOrderService = {
+      getOrderById: jest.fn().mockImplementation(async (id: string) => (
+        orders.has(id) ? { success: true, data: orders.get(id) } : { success: false, error: 'Order not found' }
+      )),
+      getOrdersByStatus: jest.fn().mockImplementation(async (status: string) => ({
+        success: true,
+        data: [...orders.values()].filter(order => order.status === status),
+      })),
+      transitionOrders: jest.fn().mockImplementation(async (steps: OrderStatusStep[]) => {
+        for (const step of steps) {
+          orders.set(step.orderId, { ...orders.get(step.orderId)!, status: step.to });
+        }
+        const moved = [...new Set(steps.map(step => step.orderId))];
+        return { success: true, data: moved.map(id => orders.get(id)!) };
+      }),
+    };
+
+    mockProductRepository = {
+      findByIds: jest.fn().mockResolvedValue({
+        success: true,
+        data: [
+          product('lavender', 'LAV-001', 'A-10-1'),
+          product('diffuser', 'DIF-001', 'C-01-1'),
+          product('jojoba', 'JOJ-001', 'A-2-3'),
+          product('candle', 'CAN-001'),
+        ],
+      }),
+    };
+
+    shipments = new Map();
+
+    mockShipmentService = {
+      getOrderShipments: jest.fn().mockImplementation(async (orderId: string) => ({
+        success: true,
+        data: [...shipments.values()].filter(entry => entry.orderId === orderId),
+      })),
+      createShipment: jest.fn().mockImplementation(async (orderId: string, data) => {
+        const created = shipment(`shipment-${shipments.size + 1}`, orders.get(orderId)!, { items: data.items });
+        shipments.set(created.id, created);
+        return { success: true, data: created };
+      }),
+      generateLabel: jest.fn().mockImplementation(async (id: string) => {
+        const labelled = { ...shipments.get(id)!, trackingNumber: `PN-${id}`, labelUrl: `/shipping-labels/${id}.pdf` };
+        shipments.set(id, labelled);
+        return { success: true, data: labelled };
+      }),
+    };
+
+    mockLabelGenerationService = {
+      mergeLabelPdfs: jest.fn().mockResolvedValue({ success: true, data: new Uint8Array([1, 2, 3]) }),
+    };
+
+    service = new FulfilmentService(
+      mockOrderService as unknown as IOrderService,
+      mockProductRepository as unknown as IProductRepository,
+      mockShipmentService as unknown as IShipmentService,
+      mockLabelGenerationService as unknown as LabelGenerationService,
+      new PackingSlipPdfService()
+    );
+  });
+
+  describe('getFulfilmentQueue', () => {
+    it('should list paid, picking and packed orders, oldest first', async () => {
+      orders.set('order-3', { ...baseOrder, id: 'order-3', status: 'shipped' });
+      orders.set('order-4', { ...baseOrder, id: 'order-4', status: 'packed', createdAt: new Date('2026-09-01T08:00:00Z') });
+
+      const result = await service.getFulfilmentQueue();
+
+      expect(result.success).toBe(true);
+      expect(result.data!.map(order => order.id)).toEqual(['order-4', 'order-2', 'order-1']);
+    });
+  });
+
+  describe('getPickList', () => {
+    it('should add up each product across the batch in shelf order', async () => {
+      const result = await service.getPickList(['order-1', 'order-2']);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.lines.map(line => [line.shelfLocation, line.sku, line.quantity])).toEqual([
+        ['A-2-3', 'JOJ-001', 3],
+        ['A-10-1', 'LAV-001', 3],
+        ['C-01-1', 'DIF-001', 1],
+        [undefined, 'CAN-001', 1],
+      ]);
+      expect(result.data!.lines[1].orders).toEqual([
+        { orderId: 'order-1', orderNumber: 'FE-2026-000001', quantity: 2 },
+        { orderId: 'order-2', orderNumber: 'FE-2026-000002', quantity: 1 },
+      ]);
+      expect(result.data!.totalQuantity).toBe(8);
+      expect(mockProductRepository.findByIds).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse a batch with an order that has already shipped', async () => {
+      orders.set('order-2', { ...secondOrder, status: 'shipped' });
+
+      const result = await service.getPickList(['order-1', 'order-2']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order FE-2026-000002 is shipped and not waiting for fulfilment');
+    });
+  });
+
+  describe('renderPackingSlips', () => {
+    it('should render one PDF for the batch', async () => {
+      const result = await service.renderPackingSlips(['order-1', 'order-2']);
+
+      expect(result.success).toBe(true);
+      expect(new TextDecoder().decode(result.data!.slice(0, 5))).toBe('%PDF-');
+    });
+  });
+
+  describe('renderBatchLabels', () => {
+    it('should reuse existing labels and book the rest before merging them', async () => {
+      shipments.set('shipment-1', shipment('shipment-1', baseOrder, { labelUrl: '/shipping-labels/shipment-1.pdf' }));
+
+      const result = await service.renderBatchLabels(['order-1', 'order-2'], adminChange);
+
+      expect(result.success).toBe(true);
+      expect(mockShipmentService.createShipment).toHaveBeenCalledTimes(1);
+      expect(mockShipmentService.createShipment).toHaveBeenCalledWith('order-2', {
+        items: [
+          { productId: 'lavender', quantity: 1 },
+          { productId: 'jojoba', quantity: 3 },
+          { productId: 'candle', quantity: 1 },
+        ],
+      }, adminChange);
+      expect(mockShipmentService.generateLabel).toHaveBeenCalledTimes(1);
+      expect(mockLabelGenerationService.mergeLabelPdfs).toHaveBeenCalledWith([
+        '/shipping-labels/shipment-1.pdf',
+        '/shipping-labels/shipment-2.pdf',
+      ]);
+    });
+
+    it('should print every parcel of a split order and ship the items left over', async () => {
+      shipments.set('shipment-1', shipment('shipment-1', baseOrder, {
+        items: [{ productId: 'lavender', productName: 'Lavendelolja', quantity: 2 }],
+        labelUrl: '/shipping-labels/shipment-1.pdf',
+      }));
+      shipments.set('shipment-2', shipment('shipment-2', baseOrder, { status: 'cancelled' }));
+
+      const result = await service.renderBatchLabels(['order-1'], adminChange);
+
+      expect(result.success).toBe(true);
+      expect(mockShipmentService.createShipment).toHaveBeenCalledWith('order-1', {
+        items: [{ productId: 'diffuser', quantity: 1 }],
+      }, adminChange);
+      expect(mockLabelGenerationService.mergeLabelPdfs).toHaveBeenCalledWith([
+        '/shipping-labels/shipment-1.pdf',
+        '/shipping-labels/shipment-3.pdf',
+      ]);
+    });
+
+    it('should name the order whose label failed', async () => {
+      mockShipmentService.generateLabel.mockResolvedValue({ success: false, error: 'Carrier unavailable' });
+
+      const result = await service.renderBatchLabels(['order-1'], adminChange);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Label for order FE-2026-000001 failed: Carrier unavailable');
+      expect(mockLabelGenerationService.mergeLabelPdfs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateBatchStatus', () => {
+    it('should move paid orders through picking to packed and leave packed ones', async () => {
+      orders.set('order-2', { ...secondOrder, status: 'packed' });
+
+      const result = await service.updateBatchStatus(['order-1', 'order-2'], 'packed', adminChange);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.map(order => order.status)).toEqual(['packed', 'packed']);
+      expect(mockOrderService.transitionOrders).toHaveBeenCalledWith([
+        { orderId: 'order-1', from: 'paid', to: 'picking' },
+        { orderId: 'order-1', from: 'picking', to: 'packed' },
+      ], adminChange);
+    });
+
+    it('should report that no order moved when the batch cannot be written', async () => {
+      mockOrderService.transitionOrders.mockResolvedValue({
+        success: false,
+        error: 'Order status has changed, please reload the order',
+      });
+
+      const result = await service.updateBatchStatus(['order-1', 'order-2'], 'picking', adminChange);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No order in the batch was moved to picking: Order status has changed, please reload the order');
+      expect(mockOrderService.transitionOrders).toHaveBeenCalledTimes(1);
+    });
+
+    it('should change no order when one of them cannot move', async () => {
+      orders.set('order-2', { ...secondOrder, status: 'packed' });
+
+      const result = await service.updateBatchStatus(['order-1', 'order-2'], 'picking', adminChange);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Cannot move to picking: FE-2026-000002 is packed');
+      expect(mockOrderService.transitionOrders).not.toHaveBeenCalled();
+    });
+  });
+});
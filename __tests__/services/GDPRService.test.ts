@@ -0,0 +1,191 @@
+import { GDPRService } from '@/services/gdpr/GDPRService';
+
+interface RecordedQuery {
+  table: string;
+  operation: 'select' | 'insert' | 'update' | 'delete';
+  payload?: unknown;
+  filters: Array<[string, string, unknown]>;
+}
+
+// Answers every query on a table/operation with the configured result and
+// records what was asked, so a test can assert on the whole erasure sequence
+const mockQueries: RecordedQuery[] = [];
+const mockResults = new Map<string, { data: unknown; error: unknown }>();
+
+jest.mock('@/lib/supabase/client', () => {
+  const builder = (table: string) => {
+    const query: RecordedQuery = { table, operation: 'select', filters: [] };
+    mockQueries.push(query);
+
+    const resolve = () => Promise.resolve(
+      mockResults.get(`${table}.${query.operation}`) || { data: [], error: null }
+    );
+
+    const chain: Record<string, (...args: never[]) => unknown> = {
+      select: () => chain,
+      insert: (payload: unknown) => Object.assign(query, { operation: 'insert', payload }) && chain,
+      update: (payload: unknown) => Object.assign(query, { operation: 'update', payload }) && chain,
+      delete: () => Object.assign(query, { operation: 'delete' }) && chain,
+      eq: (column: string, value: unknown) => query.filters.push(['eq', column, value]) && chain,
+      in: (column: string, value: unknown) => query.filters.push(['in', column, value]) && chain,
+      lt: (column: string, value: unknown) => query.filters.push(['lt', column, value]) && chain,
+      or: (value: string) => query.filters.push(['or', '', value]) && chain,
+      order: () => chain,
+      limit: () => chain,
+      single: resolve,
+      then: (onFulfilled: (value: unknown) => unknown, onRejected: (reason: unknown) => unknown) =>
+        resolve().then(onFulfilled, onRejected),
+    };
+    return chain;
+  };
+
+  const rpc = (name: string, params: unknown) => {
+    mockQueries.push({ table: name, operation: 'select', payload: params, filters: [] });
+    return Promise.resolve(mockResults.get(`${name}.rpc`) || { data: 0, error: null });
+  };
+
+  return { supabase: { from: jest.fn(builder), rpc: jest.fn(rpc) } };
+});
+
+describe('GDPRService', () => {
+  let service: GDPRService;
+
+  const queriesFor = (table: string, operation: RecordedQuery['operation']) =>
+    mockQueries.filter(query => query.table === table && query.operation === operation);
+
+  beforeEach(() => {
+    mockQueries.length = 0;
+    mockResults.clear();
+    mockResults.set('customers.select', {
+      data: { id: 'customer-1', email: 'anna@example.se' },
+      error: null,
+    });
+    service = new GDPRService();
+  });
+
+  describe('deleteUserData', () => {
+    it('should anonymise orders and the customer instead of deleting them', async () => {
+      mockResults.set('orders.select', {
+        data: [
+          {
+            id: 'order-1',
+            created_at: '2024-03-01T10:00:00Z',
+            shipping_address: { firstName: 'Anna', street: 'Storgatan 1', city: 'Lund', postalCode: '22100', country: 'SE' },
+            billing_address: { firstName: 'Anna', street: 'Storgatan 1', city: 'Lund', postalCode: '22100', country: 'SE' },
+          },
+        ],
+        error: null,
+      });
+
+      const result = await service.deleteUserData('customer-1');
+
+      expect(result.success).toBe(true);
+      expect(queriesFor('orders', 'delete')).toHaveLength(0);
+      expect(queriesFor('customers', 'delete')).toHaveLength(0);
+
+      const [orderUpdate] = queriesFor('orders', 'update');
+      expect(orderUpdate.payload).toEqual(expect.objectContaining({
+        shipping_address: { country: 'SE' },
+        billing_address: { country: 'SE' },
+        shipping_label_url: null,
+      }));
+
+      const [paymentEvents] = queriesFor('payment_events', 'update');
+      expect(paymentEvents.payload).toEqual({ payload: null });
+      expect(paymentEvents.filters).toContainEqual(['in', 'order_id', ['order-1']]);
+
+      const [customerUpdate] = queriesFor('customers', 'update');
+      expect(customerUpdate.payload).toEqual(expect.objectContaining({
+        email: 'anonymised-customer-1@invalid',
+        first_name: '',
+        phone: null,
+      }));
+
+      const newsletterDeletes = queriesFor('newsletter_subscriptions', 'delete');
+      expect(newsletterDeletes.map(query => query.filters[0])).toContainEqual(['eq', 'email', 'anna@example.se']);
+    });
+
+    it('should record what was retained and until when', async () => {
+      mockResults.set('orders.select', {
+        data: [
+          { id: 'order-1', created_at: '2023-01-10T10:00:00Z', shipping_address: null, billing_address: null },
+          { id: 'order-2', created_at: '2024-06-15T10:00:00Z', shipping_address: null, billing_address: null },
+        ],
+        error: null,
+      });
+
+      await service.deleteUserData('customer-1');
+
+      const logEntry = queriesFor('gdpr_activity_log', 'insert')
+        .find(query => (query.payload as { activity?: string }).activity === 'data_anonymisation');
+
+      expect(logEntry).toBeDefined();
+      expect(logEntry!.payload).toEqual(expect.objectContaining({
+        details: expect.objectContaining({
+          retained: expect.arrayContaining([
+            expect.objectContaining({
+              dataType: 'Order and Transaction Data',
+              orderIds: ['order-1', 'order-2'],
+              retainedUntil: '2031-12-31T00:00:00.000Z',
+              reason: expect.stringContaining('Bokföringslagen'),
+            }),
+          ]),
+        }),
+      }));
+    });
+
+    it('should delete the customer outright when there are no orders to keep', async () => {
+      mockResults.set('orders.select', { data: [], error: null });
+
+      const result = await service.deleteUserData('customer-1');
+
+      expect(result.success).toBe(true);
+      expect(queriesFor('orders', 'update')).toHaveLength(0);
+      expect(queriesFor('customers', 'update')).toHaveLength(0);
+      expect(queriesFor('customers', 'delete')).toHaveLength(1);
+    });
+
+    it('should fail when an order cannot be anonymised', async () => {
+      mockResults.set('orders.select', {
+        data: [{ id: 'order-1', created_at: '2024-03-01T10:00:00Z', shipping_address: null, billing_address: null }],
+        error: null,
+      });
+      mockResults.set('orders.update', { data: null, error: { message: 'permission denied', code: '42501' } });
+
+      const result = await service.deleteUserData('customer-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Failed to anonymise order order-1');
+      expect(queriesFor('customers', 'update')).toHaveLength(0);
+    });
+  });
+
+  describe('purgeExpiredData', () => {
+    const now = new Date('2030-05-01T00:00:00Z');
+
+    it('should delete data older than its retention period', async () => {
+      mockResults.set('purge_expired_orders.rpc', { data: 2, error: null });
+      mockResults.set('contact_form_submissions.delete', { data: [{ id: 'message-1' }], error: null });
+      mockResults.set('customers.select', { data: [], error: null });
+
+      const result = await service.purgeExpiredData(now);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ ordersDeleted: 2, customersDeleted: 0, supportMessagesDeleted: 1 });
+      // Records from 2022 had to be kept until the end of 2029
+      expect(queriesFor('purge_expired_orders', 'select')[0].payload).toEqual({ p_cutoff: '2023-01-01T00:00:00.000Z' });
+      expect(queriesFor('contact_form_submissions', 'delete')[0].filters)
+        .toContainEqual(['lt', 'created_at', '2027-05-01T00:00:00.000Z']);
+    });
+
+    it('should only delete customers without remaining orders', async () => {
+      mockResults.set('customers.select', { data: [{ id: 'customer-1' }, { id: 'customer-2' }], error: null });
+      mockResults.set('orders.select', { data: [{ customer_id: 'customer-2' }], error: null });
+
+      const result = await service.purgeExpiredData(now);
+
+      expect(result.data!.customersDeleted).toBe(1);
+      expect(queriesFor('customers', 'delete')[0].filters).toContainEqual(['in', 'id', ['customer-1']]);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { InventoryService } from '@/services/inventory/InventoryService';
+import { createMockSupabaseClient, mockSupabaseSuccess, mockSupabaseError } from '../helpers/mockSupabase';
+import type { IInventoryLotRepository, IStockNotificationService } from '@/interfaces';
+import type { CartItem, InventoryLot } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('InventoryService', () => {
+  let service: InventoryService;
+  let mockSupabase: ReturnType<typeof createMockSupabaseClient>;
+  let mockLotRepository: jest.Mocked<IInventoryLotRepository>;
+  let mockStockNotificationService: jest.Mocked<IStockNotificationService>;
+
+  const items: CartItem[] = [
+    { productId: 'prod-1', quantity: 2, price: 199 },
+    { productId: 'prod-2', quantity: 1, price: 349 },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockSupabase = createMockSupabaseClient();
+    const supabaseModule = require('@/lib/supabase');
+    supabaseModule.supabase = mockSupabase;
+    mockLotRepository = {
+      findByProductId: jest.fn(),
+      findExpiringBefore: jest.fn(),
+      receive: jest.fn(),
+      findRecipients: jest.fn(),
+    };
+    mockStockNotificationService = {
+      notifySubscribers: jest.fn().mockResolvedValue({ success: true, data: { notified: 3 } }),
+    } as any;
+    service = new InventoryService(mockLotRepository, mockStockNotificationService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('reserveStock', () => {
+    it('should check and hold the stock in one database call', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseSuccess('RSV_1'));
+
+      const result = await service.reserveStock(items, 'cust-1', 'session-1');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatch(/^RSV_/);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('reserve_stock', expect.objectContaining({
+        p_reservation_id: result.data,
+        p_items: [
+          { productId: 'prod-1', quantity: 2 },
+          { productId: 'prod-2', quantity: 1 },
+        ],
+        p_customer_id: 'cust-1',
+        p_session_id: 'session-1',
+        p_replaces: null,
+      }));
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should swap out the checkout\'s previous reservation', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseSuccess('RSV_2'));
+
+      await service.reserveStock(items, undefined, 'session-1', 'RSV_1');
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('reserve_stock', expect.objectContaining({
+        p_customer_id: null,
+        p_replaces: 'RSV_1',
+      }));
+    });
+
+    it('should report when there is not enough stock', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseError('INSUFFICIENT_STOCK: prod-1', 'P0001'));
+
+      const result = await service.reserveStock(items);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Not enough stock');
+    });
+  });
+
+  describe('extendReservation', () => {
+    it('should push the expiry out by the given minutes', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseSuccess(null));
+      const before = Date.now();
+
+      const result = await service.extendReservation('RSV_1', 30);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000 - 1000);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('extend_stock_reservation', {
+        p_reservation_id: 'RSV_1',
+        p_expires_at: result.data!.toISOString(),
+      });
+    });
+
+    it('should check the reservation holds the items being paid for', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseError('RESERVATION_MISMATCH', 'P0001'));
+
+      const result = await service.extendReservation('RSV_1', undefined, items);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Reservation does not match the items');
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('extend_stock_reservation', expect.objectContaining({
+        p_items: [{ productId: 'prod-1', quantity: 2 }, { productId: 'prod-2', quantity: 1 }],
+      }));
+    });
+
+    it('should not revive a lapsed reservation', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseError('RESERVATION_NOT_ACTIVE', 'P0001'));
+
+      const result = await service.extendReservation('RSV_1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Reservation has expired');
+    });
+  });
+
+  describe('completeReservation', () => {
+    it('should turn the reservation into a stock decrement for the order', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseSuccess(null));
+
+      const result = await service.completeReservation('RSV_1', 'order-1');
+
+      expect(result.success).toBe(true);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('complete_stock_reservation', {
+        p_reservation_id: 'RSV_1',
+        p_order_id: 'order-1',
+      });
+    });
+
+    it('should pass on unexpected database errors', async () => {
+      mockSupabase.rpc.mockResolvedValue(mockSupabaseError('connection reset'));
+
+      const result = await service.completeReservation('RSV_1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Failed to complete reservation: connection reset');
+    });
+  });
+
+  describe('checkAvailability', () => {
+    it('should not count stock held by other checkouts as available', async () => {
+      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(mockSupabaseSuccess({ stock: 5, is_active: true }));
+      // Active reservations are read without .single()
+      mockSupabase.mockQuery.gt = jest.fn().mockResolvedValue(mockSupabaseSuccess([{ quantity: 3 }, { quantity: 1 }]));
+
+      const result = await service.checkAvailability('prod-1', 2);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe(false);
+      expect(mockSupabase.mockQuery.select).toHaveBeenCalledWith('stock, is_active');
+    });
+  });
+
+  describe('back in stock', () => {
+    it('should notify subscribers when a restock brings the product back', async () => {
+      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(mockSupabaseSuccess({ stock: 0 }));
+
+      const result = await service.updateStock('prod-1', 5);
+
+      expect(result.success).toBe(true);
+      expect(mockStockNotificationService.notifySubscribers).toHaveBeenCalledWith('prod-1');
+    });
+
+    it('should not notify when the product was already in stock', async () => {
+      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(mockSupabaseSuccess({ stock: 2 }));
+
+      await service.adjustStock('prod-1', 10, 'Stocktake');
+
+      expect(mockStockNotificationService.notifySubscribers).not.toHaveBeenCalled();
+    });
+
+    it('should keep the stock change when the notifications fail', async () => {
+      mockSupabase.mockQuery.single = jest.fn().mockResolvedValue(mockSupabaseSuccess({ stock: 0 }));
+      mockStockNotificationService.notifySubscribers.mockResolvedValue({ success: false, error: 'Email down' });
+
+      const result = await service.adjustStock('prod-1', 4, 'Found in back room');
+
+      expect(result.success).toBe(true);
+      expect(mockStockNotificationService.notifySubscribers).toHaveBeenCalledWith('prod-1');
+    });
+  });
+
+  describe('lots', () => {
+    const lot: InventoryLot = {
+      id: 'lot-1',
+      productId: 'prod-1',
+      lotCode: 'LAV-2401',
+      supplier: 'Provence Oils',
+      receivedAt: new Date('2024-03-01'),
+      bestBefore: new Date('2026-03-01'),
+      receivedQuantity: 40,
+      quantity: 40,
+      createdAt: new Date('2024-03-01'),
+    };
+
+    it('should receive a lot with a trimmed lot code', async () => {
+      mockLotRepository.receive.mockResolvedValue({ success: true, data: lot });
+
+      const result = await service.receiveLot({ productId: 'prod-1', lotCode: ' LAV-2401 ', quantity: 40 });
+
+      expect(result.success).toBe(true);
+      expect(mockLotRepository.receive).toHaveBeenCalledWith({ productId: 'prod-1', lotCode: 'LAV-2401', quantity: 40 });
+    });
+
+    it('should not receive an empty delivery', async () => {
+      const result = await service.receiveLot({ productId: 'prod-1', lotCode: 'LAV-2401', quantity: 0 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Quantity must be a positive whole number');
+      expect(mockLotRepository.receive).not.toHaveBeenCalled();
+    });
+
+    it('should flag lots expiring within the given days', async () => {
+      mockLotRepository.findExpiringBefore.mockResolvedValue({ success: true, data: [lot] });
+      const before = Date.now();
+
+      const result = await service.getNearExpiryAlerts(30);
+
+      expect(result.data).toEqual([lot]);
+      const cutoff = mockLotRepository.findExpiringBefore.mock.calls[0][0];
+      expect(cutoff.getTime() - before).toBeGreaterThanOrEqual(29 * 24 * 60 * 60 * 1000);
+      expect(cutoff.getTime() - before).toBeLessThanOrEqual(31 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should require a lot code to look up recipients', async () => {
+      const result = await service.getLotRecipients('  ');
+
+      expect(result.success).toBe(false);
+      expect(mockLotRepository.findRecipients).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import 'reflect-metadata';
+import { InvoiceService } from '@/services/invoices/InvoiceService';
+import { InvoicePdfService } from '@/services/invoices/InvoicePdfService';
+import { TaxCalculator } from '@/services/tax/TaxCalculator';
+import type { IInvoiceRepository, IOrderRepository } from '@/interfaces';
+import type { Invoice, Order } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('InvoiceService', () => {
+  let service: InvoiceService;
+  let mockInvoiceRepository: jest.Mocked<IInvoiceRepository>;
+  let mockOrderRepository: jest.Mocked<IOrderRepository>;
+
+  const address = {
+    firstName: 'Anna',
+    lastName: 'Svensson',
+    street: 'Storgatan 1',
+    city: 'Stockholm',
+    postalCode: '111 22',
+    country: 'SE',
+  };
+
+  const order = {
+    id: 'order-1',
+    customerId: 'customer-1',
+    items: [
+      { productId: 'oil-1', productName: 'Lavendelolja', quantity: 2, price: 100, total: 200, vatRate: 0.25 },
+      { productId: 'gift-1', productName: 'Presentset', quantity: 1, price: 300, total: 300, vatRate: 0.12 },
+    ],
+    shipping: 49,
+    discount: { code: 'SPRING', type: 'fixed', amount: 50, freeShipping: false },
+    tax: 70.88,
+    total: 499,
+    status: 'paid',
+    paymentMethod: 'stripe',
+    paymentId: 'pi_123',
+    shippingAddress: address,
+    billingAddress: address,
+    vatScheme: 'domestic',
+    vatBreakdown: [
+      { rate: 0.25, net: 176.8, vat: 44.2, gross: 221 },
+      { rate: 0.12, net: 248.21, vat: 29.79, gross: 278 },
+    ],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as unknown as Order;
+
+  const invoice: Invoice = {
+    id: 'invoice-1',
+    invoiceNumber: 1001,
+    type: 'invoice',
+    orderId: 'order-1',
+    customerId: 'customer-1',
+    seller: { name: 'Fortune Essence AB', address },
+    buyer: { name: 'Anna Svensson', address },
+    lines: [
+      { description: 'Lavendelolja', productId: 'oil-1', quantity: 2, unitPrice: 100, vatRate: 0.25, total: 200 },
+      { description: 'Presentset', productId: 'gift-1', quantity: 1, unitPrice: 300, vatRate: 0.12, total: 300 },
+      { description: 'Frakt', quantity: 1, unitPrice: 49, total: 49 },
+      { description: 'Rabatt (SPRING)', quantity: 1, unitPrice: -50, total: -50 },
+    ],
+    vatScheme: 'domestic',
+    vatBreakdown: [
+      { rate: 0.25, net: 176.8, vat: 44.2, gross: 221 },
+      { rate: 0.12, net: 248.21, vat: 29.79, gross: 278 },
+    ],
+    total: 499,
+    currency: 'SEK',
+    paymentMethod: 'stripe',
+    issuedAt: new Date('2025-03-14T10:00:00Z'),
+  };
+
+  const givenOrder = (overrides: Partial<Order> = {}) => {
+    mockOrderRepository.findById.mockResolvedValue({
+      success: true,
+      data: { ...order, ...overrides },
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockInvoiceRepository = {
+      findByOrderId: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      findByReference: jest.fn().mockResolvedValue({ success: true, data: null }),
+      findIssuedBetween: jest.fn(),
+      create: jest.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, id: 'invoice-2', invoiceNumber: 1002, issuedAt: new Date() },
+      })),
+    };
+
+    mockOrderRepository = {
+      findById: jest.fn(),
+    } as any;
+
+    givenOrder();
+
+    service = new InvoiceService(
+      mockInvoiceRepository,
+      mockOrderRepository,
+      new TaxCalculator(),
+      new InvoicePdfService()
+    );
+  });
+
+  describe('issueInvoice', () => {
+    it('should return the order invoice when one has been issued', async () => {
+      mockInvoiceRepository.findByOrderId.mockResolvedValue({ success: true, data: [invoice] });
+
+      const result = await service.issueInvoice('order-1');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe(invoice);
+      expect(mockInvoiceRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should invoice the items, shipping and discount with VAT per rate', async () => {
+      const result = await service.issueInvoice('order-1');
+
+      expect(result.success).toBe(true);
+      const created = mockInvoiceRepository.create.mock.calls[0][0];
+      expect(created.lines).toEqual([
+        { description: 'Lavendelolja', productId: 'oil-1', quantity: 2, unitPrice: 100, vatRate: 0.25, total: 200 },
+        { description: 'Presentset', productId: 'gift-1', quantity: 1, unitPrice: 300, vatRate: 0.12, total: 300 },
+        { description: 'Frakt', quantity: 1, unitPrice: 49, vatRate: undefined, total: 49 },
+        { description: 'Rabatt (SPRING)', quantity: 1, unitPrice: -50, vatRate: undefined, total: -50 },
+      ]);
+      expect(created.vatBreakdown).toEqual(order.vatBreakdown);
+      expect(created.total).toBe(499);
+      expect(created.buyer).toEqual({ name: 'Anna Svensson', address });
+      expect(created.seller.name).toBe('Fortune Essence AB');
+      expect(created.seller.fTaxApproved).toBe(true);
+    });
+
+    it('should put shipping at the order rate when there is only one', async () => {
+      givenOrder({
+        items: [order.items[0]],
+        discount: undefined,
+        vatBreakdown: [{ rate: 0.25, net: 199.2, vat: 49.8, gross: 249 }],
+      });
+
+      await service.issueInvoice('order-1');
+
+      const created = mockInvoiceRepository.create.mock.calls[0][0];
+      expect(created.lines[1]).toEqual(expect.objectContaining({ description: 'Frakt', vatRate: 0.25 }));
+    });
+
+    it('should charge Swedish VAT on orders placed before the breakdown was stored', async () => {
+      givenOrder({ vatBreakdown: undefined, tax: 99.8, total: 499 });
+
+      await service.issueInvoice('order-1');
+
+      const created = mockInvoiceRepository.create.mock.calls[0][0];
+      expect(created.vatBreakdown).toEqual([{ rate: 0.25, net: 399.2, vat: 99.8, gross: 499 }]);
+    });
+
+    it('should not invoice orders that are pending or cancelled', async () => {
+      givenOrder({ status: 'cancelled' });
+
+      const result = await service.issueInvoice('order-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order order-1 is cancelled and cannot be invoiced');
+      expect(mockInvoiceRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should return the invoice issued by a concurrent request', async () => {
+      mockInvoiceRepository.findByOrderId
+        .mockResolvedValueOnce({ success: true, data: [] })
+        .mockResolvedValueOnce({ success: true, data: [invoice] });
+      mockInvoiceRepository.create.mockResolvedValue({ success: false, error: 'Invoice already issued' });
+
+      const result = await service.issueInvoice('order-1');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe(invoice);
+    });
+  });
+
+  describe('issueCreditNote', () => {
+    beforeEach(() => {
+      mockInvoiceRepository.findByOrderId.mockResolvedValue({ success: true, data: [invoice] });
+    });
+
+    it('should credit returned items at the price paid after discount', async () => {
+      const result = await service.issueCreditNote('order-1', {
+        reference: 'return-1',
+        amount: 90,
+        items: [{ productId: 'oil-1', quantity: 1 }],
+      });
+
+      expect(result.success).toBe(true);
+      const created = mockInvoiceRepository.create.mock.calls[0][0];
+      expect(created.type).toBe('credit_note');
+      expect(created.creditedInvoiceNumber).toBe(1001);
+      expect(created.reference).toBe('return-1');
+      expect(created.lines).toEqual([
+        { description: 'Lavendelolja', productId: 'oil-1', quantity: 1, unitPrice: -90, vatRate: 0.25, total: -90 },
+      ]);
+      expect(created.vatBreakdown).toEqual([{ rate: 0.25, net: -72, vat: -18, gross: -90 }]);
+      expect(created.total).toBe(-90);
+    });
+
+    it('should spread refunds beyond the items over the invoice rates', async () => {
+      await service.issueCreditNote('order-1', {
+        reference: 'return-1',
+        amount: 139,
+        items: [{ productId: 'oil-1', quantity: 1 }],
+      });
+
+      const created = mockInvoiceRepository.create.mock.calls[0][0];
+      expect(created.lines[1]).toEqual({
+        description: 'Övrig återbetalning',
+        quantity: 1,
+        unitPrice: -49,
+        vatRate: undefined,
+        total: -49,
+      });
+      const gross = created.vatBreakdown.map(line => line.gross);
+      expect(gross).toEqual([-111.7, -27.3]);
+      expect(gross.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(-139, 2);
+    });
+
+    it('should return the credit note already issued for the refund', async () => {
+      const creditNote = { ...invoice, id: 'invoice-3', type: 'credit_note' as const, reference: 'return-1' };
+      mockInvoiceRepository.findByReference.mockResolvedValue({ success: true, data: creditNote });
+
+      const result = await service.issueCreditNote('order-1', {
+        reference: 'return-1',
+        amount: 90,
+        items: [{ productId: 'oil-1', quantity: 1 }],
+      });
+
+      expect(result.data).toBe(creditNote);
+      expect(mockInvoiceRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject items that are not on the invoice', async () => {
+      const result = await service.issueCreditNote('order-1', {
+        reference: 'return-1',
+        amount: 90,
+        items: [{ productId: 'candle-1', quantity: 1 }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Product candle-1 is not on invoice 1001');
+    });
+  });
+
+  describe('renderPdf', () => {
+    it('should render the invoice as a PDF', async () => {
+      const result = await service.renderPdf(invoice);
+
+      expect(result.success).toBe(true);
+      expect(Buffer.from(result.data!.slice(0, 5)).toString()).toBe('%PDF-');
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import 'reflect-metadata';
+import { KlarnaOrderManagementService } from '@/services/payment/KlarnaOrderManagementService';
+import type { KlarnaPaymentProvider } from '@/services/payment/providers/KlarnaPaymentProvider';
+import type { IOrderRepository, IPaymentEventRepository } from '@/interfaces';
+import type { Order } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('KlarnaOrderManagementService', () => {
+  let service: KlarnaOrderManagementService;
+  let mockOrderRepository: jest.Mocked<IOrderRepository>;
+  let mockEventRepository: jest.Mocked<IPaymentEventRepository>;
+  let mockProvider: jest.Mocked<Pick<
+    KlarnaPaymentProvider,
+    'getOrder' | 'captureOrder' | 'cancelPayment' | 'releaseRemainingAuthorization' | 'updateMerchantReferences'
+  >>;
+
+  const klarnaOrder: Order = {
+    id: 'order-1',
+    orderNumber: 'FE-2025-000001',
+    customerId: 'cust-1',
+    items: [],
+    total: 1000,
+    tax: 200,
+    shipping: 49,
+    status: 'shipped',
+    shippingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'SE' },
+    billingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'SE' },
+    paymentMethod: 'klarna',
+    paymentId: 'klarna-order-1',
+    paymentStatus: 'authorized',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockOrderRepository = {
+      update: jest.fn().mockResolvedValue({ success: true }),
+      findByPaymentStatus: jest.fn(),
+    } as any;
+
+    mockEventRepository = {
+      hasEvent: jest.fn(),
+      recordEvent: jest.fn().mockResolvedValue({ success: true }),
+      findByOrderId: jest.fn(),
+    };
+
+    mockProvider = {
+      getOrder: jest.fn().mockResolvedValue({
+        success: true,
+        data: { order_id: 'klarna-order-1', status: 'AUTHORIZED', order_amount: 100000, remaining_authorized_amount: 100000 },
+      }),
+      captureOrder: jest.fn().mockResolvedValue({ success: true }),
+      cancelPayment: jest.fn().mockResolvedValue({ success: true }),
+      releaseRemainingAuthorization: jest.fn().mockResolvedValue({ success: true }),
+      updateMerchantReferences: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    service = new KlarnaOrderManagementService(mockOrderRepository, mockEventRepository, mockProvider as any);
+  });
+
+  describe('captureOrder', () => {
+    it('should capture the full remaining authorization by default', async () => {
+      const result = await service.captureOrder(klarnaOrder, { carrier: 'PostNord', trackingNumber: 'TRACK-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ orderId: 'order-1', capturedAmount: 1000, remainingAmount: 0, paymentStatus: 'paid' });
+      expect(mockProvider.captureOrder).toHaveBeenCalledWith('klarna-order-1', 1000, expect.objectContaining({
+        shippingInfo: { shipping_company: 'PostNord', tracking_number: 'TRACK-1' },
+        idempotencyKey: 'order-1-capture-remaining',
+      }));
+      expect(mockOrderRepository.update).toHaveBeenCalledWith('order-1', { paymentStatus: 'paid' });
+      expect(mockEventRepository.recordEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'klarna', eventType: 'capture', amount: 1000 })
+      );
+    });
+
+    it('should mark a partial capture for one shipment', async () => {
+      const result = await service.captureOrder(klarnaOrder, { amount: 400, reference: 'shipment-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.remainingAmount).toBe(600);
+      expect(result.data?.paymentStatus).toBe('partially_captured');
+      expect(mockProvider.captureOrder).toHaveBeenCalledWith('klarna-order-1', 400, expect.objectContaining({
+        idempotencyKey: 'order-1-capture-shipment-1',
+      }));
+    });
+
+    it('should not capture more than is still authorized', async () => {
+      mockProvider.getOrder.mockResolvedValue({
+        success: true,
+        data: { order_id: 'klarna-order-1', status: 'PART_CAPTURED', order_amount: 100000, remaining_authorized_amount: 30000 },
+      });
+
+      const result = await service.captureOrder(klarnaOrder, { amount: 400 });
+
+      expect(result.success).toBe(false);
+      expect(mockProvider.captureOrder).not.toHaveBeenCalled();
+    });
+
+    it('should treat a fully captured order as paid without capturing again', async () => {
+      mockProvider.getOrder.mockResolvedValue({
+        success: true,
+        data: { order_id: 'klarna-order-1', status: 'CAPTURED', order_amount: 100000, remaining_authorized_amount: 0 },
+      });
+
+      const result = await service.captureOrder(klarnaOrder);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.capturedAmount).toBe(0);
+      expect(mockProvider.captureOrder).not.toHaveBeenCalled();
+      expect(mockOrderRepository.update).toHaveBeenCalledWith('order-1', { paymentStatus: 'paid' });
+    });
+
+    it('should refuse expired authorizations', async () => {
+      mockProvider.getOrder.mockResolvedValue({
+        success: true,
+        data: { order_id: 'klarna-order-1', status: 'EXPIRED', order_amount: 100000 },
+      });
+
+      const result = await service.captureOrder(klarnaOrder);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('EXPIRED');
+    });
+
+    it('should refuse orders not paid with Klarna', async () => {
+      const result = await service.captureOrder({ ...klarnaOrder, paymentMethod: 'stripe' });
+
+      expect(result.success).toBe(false);
+      expect(mockProvider.getOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseAuthorization', () => {
+    it('should cancel an uncaptured authorization', async () => {
+      const result = await service.releaseAuthorization(klarnaOrder);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('cancelled');
+      expect(mockProvider.cancelPayment).toHaveBeenCalledWith('klarna-order-1');
+      expect(mockOrderRepository.update).toHaveBeenCalledWith('order-1', { paymentStatus: 'cancelled' });
+    });
+
+    it('should release only the remainder of a partly captured order', async () => {
+      mockProvider.getOrder.mockResolvedValue({
+        success: true,
+        data: { order_id: 'klarna-order-1', status: 'PART_CAPTURED', order_amount: 100000, remaining_authorized_amount: 60000 },
+      });
+
+      const result = await service.releaseAuthorization({ ...klarnaOrder, paymentStatus: 'partially_captured' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('paid');
+      expect(mockProvider.releaseRemainingAuthorization).toHaveBeenCalledWith('klarna-order-1');
+      expect(mockProvider.cancelPayment).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to release a captured order', async () => {
+      mockProvider.getOrder.mockResolvedValue({
+        success: true,
+        data: { order_id: 'klarna-order-1', status: 'CAPTURED', order_amount: 100000, remaining_authorized_amount: 0 },
+      });
+
+      const result = await service.releaseAuthorization(klarnaOrder);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('refunded');
+    });
+  });
+
+  describe('setMerchantReferences', () => {
+    it('should reference the Klarna order by order number and id', async () => {
+      const result = await service.setMerchantReferences(klarnaOrder);
+
+      expect(result.success).toBe(true);
+      expect(mockProvider.updateMerchantReferences).toHaveBeenCalledWith('klarna-order-1', 'FE-2025-000001', 'order-1');
+    });
+
+    it('should refuse orders not paid with Klarna', async () => {
+      const result = await service.setMerchantReferences({ ...klarnaOrder, paymentMethod: 'stripe' });
+
+      expect(result.success).toBe(false);
+      expect(mockProvider.updateMerchantReferences).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExpiringAuthorizations', () => {
+    it('should report authorizations expiring within the window', async () => {
+      const soon = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000 + 60000);
+      const later = new Date(Date.now() + 20 * 24 * 60 * 60 * 1000);
+
+      mockOrderRepository.findByPaymentStatus.mockResolvedValue({
+        success: true,
+        data: [klarnaOrder, { ...klarnaOrder, id: 'order-2', paymentId: 'klarna-order-2' }],
+      });
+      mockProvider.getOrder.mockImplementation(async (orderId: string) => ({
+        success: true,
+        data: {
+          order_id: orderId,
+          status: 'AUTHORIZED',
+          order_amount: 100000,
+          remaining_authorized_amount: 100000,
+          expires_at: (orderId === 'klarna-order-1' ? soon : later).toISOString(),
+        },
+      }));
+
+      const result = await service.getExpiringAuthorizations(7);
+
+      expect(mockOrderRepository.findByPaymentStatus).toHaveBeenCalledWith(['authorized', 'partially_captured'], 'klarna');
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+      expect(result.data![0]).toEqual(expect.objectContaining({
+        orderId: 'order-1',
+        remainingAmount: 1000,
+        daysLeft: 2,
+        estimated: false,
+      }));
+    });
+
+    it('should estimate expiry from the order date when Klarna is unreachable', async () => {
+      const oldOrder = { ...klarnaOrder, createdAt: new Date(Date.now() - 25 * 24 * 60 * 60 * 1000) };
+      mockOrderRepository.findByPaymentStatus.mockResolvedValue({ success: true, data: [oldOrder] });
+      mockProvider.getOrder.mockResolvedValue({ success: false, error: 'Klarna credentials are not configured' });
+
+      const result = await service.getExpiringAuthorizations(7);
+
+      expect(result.data).toHaveLength(1);
+      expect(result.data![0].estimated).toBe(true);
+      expect(result.data![0].remainingAmount).toBe(1000);
+    });
+  });
+});
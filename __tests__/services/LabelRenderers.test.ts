@@ -0,0 +1,149 @@
+import { buildLabelLayout, LabelData } from '@/services/shipping/labels/LabelLayout';
+import { ZplLabelRenderer } from '@/services/shipping/labels/ZplLabelRenderer';
+import { PdfLabelRenderer } from '@/services/shipping/labels/PdfLabelRenderer';
+
+describe('Label renderers', () => {
+  const labelData: LabelData = {
+    trackingNumber: 'PN1A2B3C4D5E42',
+    carrierCode: 'POSTNORD',
+    carrierName: 'PostNord',
+    colorScheme: '#00A0D6',
+    senderAddress: {
+      firstName: 'Fortune',
+      lastName: 'Essence',
+      street: 'Lagergatan 4',
+      city: 'Göteborg',
+      postalCode: '41101',
+      country: 'Sweden',
+    },
+    recipientAddress: {
+      firstName: 'Åsa',
+      lastName: 'Öberg',
+      street: 'Storgatan 1',
+      city: 'Stockholm',
+      postalCode: '11122',
+      country: 'Sweden',
+    },
+    packageWeight: 1.25,
+    serviceName: 'MyPack Collect',
+    orderNumber: 'FE-2026-000123',
+    trackingUrl: 'https://www.fortuneessence.se/track-order?trackingNumber=PN1A2B3C4D5E42',
+  };
+
+  const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+  describe('buildLabelLayout', () => {
+    it('should place the tracking number as a barcode and the tracking URL as a QR code', () => {
+      const layout = buildLabelLayout(labelData);
+
+      expect(layout.elements).toContainEqual(expect.objectContaining({ kind: 'barcode', data: labelData.trackingNumber }));
+      expect(layout.elements).toContainEqual(expect.objectContaining({ kind: 'qrcode', data: labelData.trackingUrl }));
+    });
+
+    it('should add the pickup point when the parcel goes to one', () => {
+      const layout = buildLabelLayout({
+        ...labelData,
+        pickupPoint: {
+          id: 'PN-1234',
+          carrierCode: 'POSTNORD',
+          name: 'ICA Nära Söder',
+          type: 'service_point',
+          street: 'Götgatan 10',
+          postalCode: '11646',
+          city: 'Stockholm',
+        },
+      });
+
+      const texts = layout.elements.flatMap(element => (element.kind === 'text' ? [element.text] : []));
+      expect(texts).toContain('OMBUD: ICA Nära Söder (PN-1234)');
+      expect(texts).toContain('Götgatan 10, 11646 Stockholm');
+    });
+
+    it('should add the limited-quantity mark only to parcels with dangerous goods', () => {
+      expect(buildLabelLayout(labelData).elements.some(element => element.kind === 'lq_mark')).toBe(false);
+      expect(buildLabelLayout({ ...labelData, limitedQuantity: true }).elements)
+        .toContainEqual(expect.objectContaining({ kind: 'lq_mark' }));
+    });
+  });
+
+  describe('ZplLabelRenderer', () => {
+    const renderer = new ZplLabelRenderer();
+
+    it('should emit one UTF-8 label sized for 4x6 inches at 203 DPI', async () => {
+      const zpl = decode(await renderer.render(buildLabelLayout(labelData)));
+      const lines = zpl.trim().split('\n');
+
+      expect(lines[0]).toBe('^XA');
+      expect(lines[lines.length - 1]).toBe('^XZ');
+      expect(lines).toContain('^CI28');
+      expect(lines).toContain('^PW812');
+      expect(lines).toContain('^LL1218');
+    });
+
+    it('should encode the tracking number as Code 128 and the tracking URL as QR', async () => {
+      const zpl = decode(await renderer.render(buildLabelLayout(labelData)));
+
+      expect(zpl).toMatch(/\^BCN,\d+,N,N,N\^FDPN1A2B3C4D5E42\^FS/);
+      expect(zpl).toContain(`^FDQA,${labelData.trackingUrl}^FS`);
+      expect(zpl).toContain('^FHÅsa Öberg^FS');
+    });
+
+    it('should print the header text reversed on a dark carrier colour', async () => {
+      const zpl = decode(await renderer.render(buildLabelLayout({
+        ...labelData,
+        carrierCode: 'DB_SCHENKER',
+        carrierName: 'DB Schenker',
+        colorScheme: '#EC0016',
+      })));
+
+      // The header prints solid black, so its text comes out white
+      expect(zpl).toContain('^FO0,0^GB812,169,169^FS');
+      expect(zpl).toMatch(/\^FR\^A0N,\d+,\d+\^FHDB Schenker\^FS/);
+      expect(zpl).toMatch(/\^FR\^A0N,\d+,\d+\^FHMyPack Collect\^FS/);
+      expect(zpl).toMatch(/\d\^A0N,\d+,\d+\^FHÅsa Öberg\^FS/);
+    });
+
+    it('should print the header text plain on a light carrier colour', async () => {
+      const zpl = decode(await renderer.render(buildLabelLayout({ ...labelData, colorScheme: '#FFDB00' })));
+
+      expect(zpl).toContain('^FO0,0^GB812,169,3^FS');
+      expect(zpl).not.toContain('^FR');
+    });
+
+    it('should escape characters ZPL reads as commands', async () => {
+      const zpl = decode(await renderer.render({
+        width: 288,
+        height: 432,
+        elements: [{ kind: 'text', x: 0, y: 20, size: 10, text: 'A^B~C_D' }],
+      }));
+
+      expect(zpl).toContain('^FHA_5EB_7EC_5FD^FS');
+    });
+
+    it('should draw the limited-quantity mark as a diamond with filled points', async () => {
+      const zpl = decode(await renderer.render({
+        width: 288,
+        height: 432,
+        elements: [{ kind: 'lq_mark', x: 0, y: 0, size: 72 }],
+      }));
+
+      // 72 points is 203 dots: four diagonal edges of 102 dots, with 2-dot bars at the top point
+      expect(zpl.match(/\^GD102,102,3,B,[LR]/g)).toHaveLength(4);
+      expect(zpl).toContain('^FO101,0^GB2,2,2^FS');
+    });
+  });
+
+  describe('PdfLabelRenderer', () => {
+    it('should render the same layout as a PDF', async () => {
+      const pdf = await new PdfLabelRenderer().render(buildLabelLayout(labelData));
+
+      expect(decode(pdf.slice(0, 5))).toBe('%PDF-');
+    });
+
+    it('should render the limited-quantity mark', async () => {
+      const pdf = await new PdfLabelRenderer().render(buildLabelLayout({ ...labelData, limitedQuantity: true }));
+
+      expect(decode(pdf.slice(0, 5))).toBe('%PDF-');
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { parseOrderNumber } from '@/services/orders/OrderNumber';
+
+describe('parseOrderNumber', () => {
+  it('should accept order numbers as printed', () => {
+    expect(parseOrderNumber('FE-2026-000123')).toBe('FE-2026-000123');
+  });
+
+  it('should forgive case, whitespace and missing leading zeros', () => {
+    expect(parseOrderNumber(' fe-2026-123 ')).toBe('FE-2026-000123');
+  });
+
+  it('should keep sequences longer than six digits', () => {
+    expect(parseOrderNumber('FE-2026-1234567')).toBe('FE-2026-1234567');
+  });
+
+  it('should reject order ids and other references', () => {
+    expect(parseOrderNumber('3f2b8c1e-9d4a-4f6b-8a2e-1c5d7e9f0a1b')).toBeNull();
+    expect(parseOrderNumber('ORD-001')).toBeNull();
+    expect(parseOrderNumber('FE-26-000123')).toBeNull();
+  });
+});
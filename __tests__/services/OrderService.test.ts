@@ -1,5 +1,6 @@
 import 'reflect-metadata';
 import { OrderService } from '@/services/orders/OrderService';
+import { TaxCalculator } from '@/services/tax/TaxCalculator';
 import {
   IOrderRepository,
   ICartService,
@@ -7,10 +8,18 @@ import {
   IShippingService,
   IInventoryService,
   IProductService,
+  IKlarnaOrderManagementService,
+  IPromotionService,
+  IShipmentRepository,
+  IInvoiceService,
   CreateOrderData,
 } from '@/interfaces';
 import { Order, CartItem, OrderItem, ApiResponse, ShippingRate } from '@/types';
 
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
 describe('OrderService', () => {
   let orderService: OrderService;
   let mockOrderRepository: jest.Mocked<IOrderRepository>;
@@ -19,6 +28,10 @@ describe('OrderService', () => {
   let mockShippingService: jest.Mocked<IShippingService>;
   let mockInventoryService: jest.Mocked<IInventoryService>;
   let mockProductService: jest.Mocked<IProductService>;
+  let mockKlarnaOrderManagement: jest.Mocked<IKlarnaOrderManagementService>;
+  let mockPromotionService: jest.Mocked<IPromotionService>;
+  let mockShipmentRepository: jest.Mocked<IShipmentRepository>;
+  let mockInvoiceService: jest.Mocked<Pick<IInvoiceService, 'issueInvoice'>>;
 
   const mockCartItems: CartItem[] = [
     {
@@ -54,6 +67,7 @@ describe('OrderService', () => {
 
   const mockOrder: Order = {
     id: 'order-1',
+    orderNumber: 'FE-2025-000001',
     customerId: 'cust-1',
     items: [
       {
@@ -64,10 +78,10 @@ describe('OrderService', () => {
         total: 599.98,
       },
     ],
-    status: 'confirmed',
-    tax: 187.48,
+    status: 'paid',
+    tax: 159.99,
     shipping: 50,
-    total: 987.46,
+    total: 799.97,
     paymentMethod: 'stripe',
     paymentId: 'pay-1',
     shippingAddress: mockOrderData.shippingAddress,
@@ -83,14 +97,22 @@ describe('OrderService', () => {
       findAll: jest.fn(),
       create: jest.fn(),
       findById: jest.fn(),
+      findByOrderNumber: jest.fn(),
       findByCustomerId: jest.fn(),
       findByStatus: jest.fn(),
       findByTrackingNumber: jest.fn(),
+      findByPaymentId: jest.fn(),
+      findByPaymentStatus: jest.fn(),
       update: jest.fn(),
-      updateStatus: jest.fn(),
+      transitionStatus: jest.fn(),
+      transitionStatuses: jest.fn(),
+      findStatusHistory: jest.fn(),
       delete: jest.fn(),
       getOrderStatistics: jest.fn(),
       getRecentOrders: jest.fn(),
+      findByCreatedBetween: jest.fn(),
+      findCustomersWithOrdersBefore: jest.fn(),
+      hasDeliveredOrderWithProduct: jest.fn(),
     } as jest.Mocked<IOrderRepository>;
 
     mockCartService = {
@@ -111,6 +133,7 @@ describe('OrderService', () => {
       verifyPayment: jest.fn(),
       refundPayment: jest.fn(),
       cancelPayment: jest.fn(),
+      attachOrderReference: jest.fn().mockResolvedValue({ success: true }),
     } as any;
 
     mockShippingService = {
@@ -120,6 +143,8 @@ describe('OrderService', () => {
       trackShipment: jest.fn(),
       validateDeliveryAddress: jest.fn(),
       estimateDeliveryDate: jest.fn(),
+      packItems: jest.fn(),
+      getPickupPointForRate: jest.fn().mockResolvedValue({ success: true }),
       getSupportedCountries: jest.fn(),
       getShippingCosts: jest.fn(),
     } as any;
@@ -127,6 +152,7 @@ describe('OrderService', () => {
     mockInventoryService = {
       checkAvailability: jest.fn(),
       reserveStock: jest.fn(),
+      extendReservation: jest.fn(),
       releaseReservation: jest.fn(),
       updateStock: jest.fn(),
       completeReservation: jest.fn(),
@@ -141,13 +167,49 @@ describe('OrderService', () => {
       getFeaturedProducts: jest.fn(),
     } as any;
 
+    mockKlarnaOrderManagement = {
+      captureOrder: jest.fn(),
+      releaseAuthorization: jest.fn(),
+      setMerchantReferences: jest.fn().mockResolvedValue({ success: true }),
+      getExpiringAuthorizations: jest.fn(),
+    };
+
+    mockPromotionService = {
+      validateCode: jest.fn(),
+      redeemCode: jest.fn(),
+      assignRedemption: jest.fn().mockResolvedValue({ success: true }),
+      releaseRedemption: jest.fn().mockResolvedValue({ success: true }),
+      createCode: jest.fn(),
+      createWelcomeCode: jest.fn(),
+      listCodes: jest.fn(),
+      deactivateCode: jest.fn(),
+    };
+
+    mockShipmentRepository = {
+      findById: jest.fn(),
+      findByOrderId: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      create: jest.fn(),
+      update: jest.fn(),
+      findByTrackingNumber: jest.fn(),
+      findAwaitingTracking: jest.fn(),
+    };
+
+    mockInvoiceService = {
+      issueInvoice: jest.fn().mockResolvedValue({ success: true }),
+    };
+
     orderService = new OrderService(
       mockOrderRepository,
       mockCartService,
       mockPaymentService,
       mockShippingService,
       mockInventoryService,
-      mockProductService
+      mockProductService,
+      mockKlarnaOrderManagement,
+      mockPromotionService,
+      new TaxCalculator(),
+      mockShipmentRepository,
+      mockInvoiceService as unknown as IInvoiceService
     );
   });
 
@@ -188,14 +250,19 @@ describe('OrderService', () => {
         data: 'reservation-1',
       });
 
-      mockProductService.getProduct.mockResolvedValue({
+      mockInventoryService.extendReservation.mockResolvedValue({
+        success: true,
+        data: new Date(),
+      });
+
+      mockProductService.getProduct.mockImplementation(async (id: string) => ({
         success: true,
         data: {
-          id: 'prod-1',
-          name: 'Product 1',
-          price: 299.99,
+          id,
+          name: id === 'prod-1' ? 'Product 1' : 'Product 2',
+          price: id === 'prod-1' ? 299.99 : 149.99,
         } as any,
-      });
+      }));
 
       mockOrderRepository.create.mockResolvedValue({
         success: true,
@@ -206,6 +273,20 @@ describe('OrderService', () => {
         success: true,
       });
 
+      mockShippingService.estimateDeliveryDate.mockResolvedValue({
+        success: true,
+        data: new Date('2026-10-22T12:00:00Z'),
+      });
+
+      mockShippingService.packItems.mockResolvedValue({
+        success: true,
+        data: {
+          weight: 0.65,
+          dimensions: { length: 25, width: 18, height: 10 },
+          box: { code: 'S', name: 'Kartong S', dimensions: { length: 25, width: 18, height: 10 }, tareWeight: 0.15, maxWeight: 5 },
+        },
+      });
+
       mockShippingService.createShipment.mockResolvedValue({
         success: true,
         data: {
@@ -242,27 +323,194 @@ describe('OrderService', () => {
       // Assert
       expect(result.success).toBe(true);
       expect(result.data).toEqual(mockOrder);
-      expect(mockInventoryService.checkAvailability).toHaveBeenCalled();
       expect(mockShippingService.calculateShipping).toHaveBeenCalled();
       expect(mockPaymentService.processPayment).toHaveBeenCalled();
       expect(mockInventoryService.reserveStock).toHaveBeenCalled();
       expect(mockOrderRepository.create).toHaveBeenCalled();
     });
 
-    it('should validate stock before creating order', async () => {
+    it('should link the payment to the new order number', async () => {
+      const result = await orderService.createOrder(mockOrderData);
+
+      expect(result.success).toBe(true);
+      expect(mockPaymentService.attachOrderReference).toHaveBeenCalledWith('pay-1', 'stripe', mockOrder);
+      expect(mockKlarnaOrderManagement.setMerchantReferences).not.toHaveBeenCalled();
+    });
+
+    it('should keep the order when the payment cannot be linked to it', async () => {
+      mockPaymentService.attachOrderReference.mockResolvedValue({ success: false, error: 'Stripe unavailable' });
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await orderService.createOrder(mockOrderData);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(mockOrder);
+      consoleError.mockRestore();
+    });
+
+    it('should keep the stock held since checkout started', async () => {
+      // Act
+      await orderService.createOrder({ ...mockOrderData, reservationId: 'checkout-reservation' });
+
+      // Assert
+      expect(mockInventoryService.extendReservation).toHaveBeenCalledWith('checkout-reservation', undefined, mockCartItems);
+      expect(mockInventoryService.reserveStock).not.toHaveBeenCalled();
+      expect(mockOrderRepository.create.mock.calls[0][0].reservationId).toBe('checkout-reservation');
+    });
+
+    it('should reserve the stock again when the checkout reservation has lapsed', async () => {
       // Arrange
-      mockInventoryService.checkAvailability.mockResolvedValue({
+      mockInventoryService.extendReservation.mockResolvedValueOnce({
         success: false,
-        error: 'Product not available',
+        error: 'Reservation has expired',
+      });
+
+      // Act
+      await orderService.createOrder({ ...mockOrderData, reservationId: 'checkout-reservation', sessionId: 'session-1' });
+
+      // Assert
+      expect(mockInventoryService.reserveStock).toHaveBeenCalledWith(mockCartItems, 'cust-1', 'session-1', 'checkout-reservation');
+      expect(mockOrderRepository.create.mock.calls[0][0].reservationId).toBe('reservation-1');
+    });
+
+    it('should reserve the stock again when the cart changed after the checkout reservation', async () => {
+      // Arrange
+      mockInventoryService.extendReservation.mockResolvedValueOnce({
+        success: false,
+        error: 'Reservation does not match the items',
+      });
+
+      // Act
+      await orderService.createOrder({ ...mockOrderData, reservationId: 'checkout-reservation' });
+
+      // Assert
+      expect(mockInventoryService.reserveStock).toHaveBeenCalledWith(mockCartItems, 'cust-1', undefined, 'checkout-reservation');
+      expect(mockOrderRepository.create.mock.calls[0][0].reservationId).toBe('reservation-1');
+    });
+
+    it('should keep the delivery estimate for the chosen rate and postal code on the order', async () => {
+      // Act
+      await orderService.createOrder(mockOrderData);
+
+      // Assert
+      expect(mockShippingService.estimateDeliveryDate).toHaveBeenCalledWith('rate-1', '11122');
+      expect(mockOrderRepository.create.mock.calls[0][0].estimatedDelivery).toEqual(new Date('2026-10-22T12:00:00Z'));
+    });
+
+    it('should create the order without an estimate when the rate cannot be estimated', async () => {
+      // Arrange
+      mockShippingService.estimateDeliveryDate.mockResolvedValue({ success: false, error: 'Shipping rate not found' });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      // Act
+      const result = await orderService.createOrder(mockOrderData);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockOrderRepository.create.mock.calls[0][0].estimatedDelivery).toBeUndefined();
+    });
+
+    it('should keep the box the items are packed in on the order', async () => {
+      // Act
+      await orderService.createOrder(mockOrderData);
+
+      // Assert
+      expect(mockShippingService.packItems).toHaveBeenCalledWith(mockCartItems);
+      expect(mockOrderRepository.create.mock.calls[0][0].packagingBox).toBe('S');
+    });
+
+    it('should send the order to the chosen pickup point with its carrier', async () => {
+      // Arrange
+      const pickupPoint = {
+        id: 'IBX-STO-0142',
+        carrierCode: 'INSTABOX',
+        type: 'locker' as const,
+        name: 'Instabox Vasastan',
+        street: 'Upplandsgatan 40',
+        postalCode: '113 28',
+        city: 'Stockholm',
+      };
+      mockShippingService.getPickupPointForRate.mockResolvedValue({ success: true, data: pickupPoint });
+
+      // Act
+      await orderService.createOrder({ ...mockOrderData, pickupPointId: 'IBX-STO-0142' });
+
+      // Assert
+      expect(mockShippingService.getPickupPointForRate).toHaveBeenCalledWith('rate-1', 'IBX-STO-0142');
+      expect(mockOrderRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        pickupPoint,
+        carrier: 'INSTABOX',
+      }));
+    });
+
+    it('should not take payment when the pickup point does not fit the rate', async () => {
+      // Arrange
+      mockShippingService.getPickupPointForRate.mockResolvedValue({
+        success: false,
+        error: 'Pickup point does not match the shipping rate',
+      });
+
+      // Act
+      const result = await orderService.createOrder({ ...mockOrderData, pickupPointId: 'BBX-11325' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Pickup point unavailable: Pickup point does not match the shipping rate');
+      expect(mockPaymentService.processPayment).not.toHaveBeenCalled();
+      expect(mockInventoryService.reserveStock).not.toHaveBeenCalled();
+    });
+
+    it('should not take payment for a pickup point rate without a pickup point', async () => {
+      // Arrange
+      mockShippingService.getPickupPointForRate.mockResolvedValue({
+        success: false,
+        error: 'Shipping rate delivers to a pickup point; choose one',
       });
 
       // Act
       const result = await orderService.createOrder(mockOrderData);
 
       // Assert
+      expect(mockShippingService.getPickupPointForRate).toHaveBeenCalledWith('rate-1', undefined);
       expect(result.success).toBe(false);
-      expect(result.error).toContain('Product not available');
-      expect(mockOrderRepository.create).not.toHaveBeenCalled();
+      expect(result.error).toBe('Pickup point unavailable: Shipping rate delivers to a pickup point; choose one');
+      expect(mockPaymentService.processPayment).not.toHaveBeenCalled();
+    });
+
+    it('should take the reserved stock when the payment succeeds', async () => {
+      // Arrange
+      mockOrderRepository.create.mockResolvedValue({
+        success: true,
+        data: { ...mockOrder, reservationId: 'reservation-1' },
+      });
+
+      // Act
+      await orderService.createOrder(mockOrderData);
+
+      // Assert
+      expect(mockInventoryService.completeReservation).toHaveBeenCalledWith('reservation-1', 'order-1');
+    });
+
+    it('should keep the stock held while the payment is pending', async () => {
+      // Arrange
+      mockPaymentService.processPayment.mockResolvedValue({
+        success: true,
+        data: {
+          paymentId: 'pay-1',
+          status: 'pending',
+        },
+      });
+      mockOrderRepository.create.mockResolvedValue({
+        success: true,
+        data: { ...mockOrder, status: 'pending', reservationId: 'reservation-1' },
+      });
+
+      // Act
+      await orderService.createOrder(mockOrderData);
+
+      // Assert
+      expect(mockInventoryService.extendReservation).toHaveBeenCalledWith('reservation-1');
+      expect(mockInventoryService.completeReservation).not.toHaveBeenCalled();
     });
 
     it('should calculate correct totals with tax and shipping', async () => {
@@ -271,11 +519,161 @@ describe('OrderService', () => {
 
       // Assert
       const paymentCall = mockPaymentService.processPayment.mock.calls[0][0];
-      // Subtotal: 299.99 * 2 + 149.99 * 1 = 749.97
-      // Tax: 749.97 * 0.25 = 187.4925
-      // Shipping: 50
-      // Total: 987.4625
-      expect(paymentCall.amount).toBeCloseTo(987.46, 2);
+      // Subtotal: 299.99 * 2 + 149.99 * 1 = 749.97 (VAT included)
+      // Shipping: 50 (VAT included)
+      // Total: 799.97, of which VAT 799.97 * 0.25 / 1.25 = 159.99
+      expect(paymentCall.amount).toBeCloseTo(799.97, 2);
+      expect(mockOrderRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        tax: 159.99,
+        total: 799.97,
+        vatScheme: 'domestic',
+        vatBreakdown: [{ rate: 0.25, net: 639.98, vat: 159.99, gross: 799.97 }],
+      }));
+    });
+
+    it('should charge VAT at the destination rate for EU customers', async () => {
+      // Act
+      await orderService.createOrder({
+        ...mockOrderData,
+        shippingAddress: { ...mockOrderData.shippingAddress, country: 'Germany' },
+      });
+
+      // Assert
+      const paymentCall = mockPaymentService.processPayment.mock.calls[0][0];
+      expect(paymentCall.amount).toBeCloseTo(799.97, 2);
+      // 799.97 * 0.19 / 1.19 = 127.73
+      expect(mockOrderRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        tax: 127.73,
+        vatScheme: 'oss',
+      }));
+    });
+
+    it('should charge exports to Norway without Swedish VAT', async () => {
+      // Act
+      await orderService.createOrder({
+        ...mockOrderData,
+        shippingAddress: { ...mockOrderData.shippingAddress, country: 'NO' },
+      });
+
+      // Assert
+      const paymentCall = mockPaymentService.processPayment.mock.calls[0][0];
+      // 239.99 * 2 + 119.99 + 40 = 639.97
+      expect(paymentCall.amount).toBeCloseTo(639.97, 2);
+      const createCall = mockOrderRepository.create.mock.calls[0][0];
+      expect(createCall.items[0].price).toBe(239.99);
+      expect(createCall.tax).toBe(0);
+      expect(createCall.shipping).toBe(40);
+      expect(createCall.vatScheme).toBe('export');
+    });
+
+    it('should apply a percentage discount before tax and redeem the code', async () => {
+      // Arrange
+      const discount = { code: 'SPRING20', type: 'percentage' as const, amount: 149.99, freeShipping: false };
+      mockPromotionService.validateCode.mockResolvedValue({ success: true, data: discount });
+      mockPromotionService.redeemCode.mockResolvedValue({ success: true, data: { id: 'redemption-1', discountCodeId: 'code-1', amount: 100, createdAt: new Date() } });
+
+      // Act
+      await orderService.createOrder({ ...mockOrderData, discountCode: 'spring20' });
+
+      // Assert
+      expect(mockPromotionService.validateCode).toHaveBeenCalledWith('spring20', {
+        customerId: mockOrderData.customerId,
+        items: mockOrderData.items,
+        shippingCost: 50,
+      });
+      // 749.97 - 149.99 + 50 = 649.98
+      const paymentCall = mockPaymentService.processPayment.mock.calls[0][0];
+      expect(paymentCall.amount).toBeCloseTo(649.98, 2);
+      expect(mockOrderRepository.create).toHaveBeenCalledWith(expect.objectContaining({ discount }));
+      expect(mockPromotionService.redeemCode).toHaveBeenCalledWith(discount, mockOrderData.customerId);
+      expect(mockPromotionService.assignRedemption).toHaveBeenCalledWith('redemption-1', mockOrder.id);
+    });
+
+    it('should reject the order when the discount code is used up before payment', async () => {
+      // Arrange
+      const discount = { code: 'LAST1', type: 'fixed_amount' as const, amount: 100, freeShipping: false };
+      mockPromotionService.validateCode.mockResolvedValue({ success: true, data: discount });
+      mockPromotionService.redeemCode.mockResolvedValue({
+        success: false,
+        error: 'Discount code has reached its usage limit',
+      });
+
+      // Act
+      const result = await orderService.createOrder({ ...mockOrderData, discountCode: 'LAST1' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Discount code has reached its usage limit');
+      expect(mockPaymentService.processPayment).not.toHaveBeenCalled();
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith('reservation-1');
+    });
+
+    it('should give the discount code back when the payment fails', async () => {
+      // Arrange
+      const discount = { code: 'LAST1', type: 'fixed_amount' as const, amount: 100, freeShipping: false };
+      mockPromotionService.validateCode.mockResolvedValue({ success: true, data: discount });
+      mockPromotionService.redeemCode.mockResolvedValue({ success: true, data: { id: 'redemption-1', discountCodeId: 'code-1', amount: 100, createdAt: new Date() } });
+      mockPaymentService.processPayment.mockResolvedValue({ success: false, error: 'Card declined' });
+
+      // Act
+      await orderService.createOrder({ ...mockOrderData, discountCode: 'LAST1' });
+
+      // Assert
+      expect(mockPromotionService.releaseRedemption).toHaveBeenCalledWith('redemption-1');
+      expect(mockPromotionService.assignRedemption).not.toHaveBeenCalled();
+      expect(mockOrderRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should waive shipping for free shipping codes', async () => {
+      // Arrange
+      const discount = { code: 'FREESHIP', type: 'free_shipping' as const, amount: 50, freeShipping: true };
+      mockPromotionService.validateCode.mockResolvedValue({ success: true, data: discount });
+      mockPromotionService.redeemCode.mockResolvedValue({ success: true, data: {} as any });
+
+      // Act
+      await orderService.createOrder({ ...mockOrderData, discountCode: 'FREESHIP' });
+
+      // Assert
+      const paymentCall = mockPaymentService.processPayment.mock.calls[0][0];
+      expect(paymentCall.amount).toBeCloseTo(749.97, 2);
+      expect(mockOrderRepository.create).toHaveBeenCalledWith(expect.objectContaining({ shipping: 0 }));
+    });
+
+    it('should reject the order when the discount code is invalid', async () => {
+      // Arrange
+      mockPromotionService.validateCode.mockResolvedValue({
+        success: false,
+        error: 'Discount code has expired',
+      });
+
+      // Act
+      const result = await orderService.createOrder({ ...mockOrderData, discountCode: 'OLD10' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Discount code has expired');
+      expect(mockPaymentService.processPayment).not.toHaveBeenCalled();
+    });
+
+    it('should send the discount to Klarna as its own order line', async () => {
+      // Arrange
+      const discount = { code: 'SAVE100', type: 'fixed_amount' as const, amount: 100, freeShipping: false };
+      mockPromotionService.validateCode.mockResolvedValue({ success: true, data: discount });
+      mockPromotionService.redeemCode.mockResolvedValue({ success: true, data: {} as any });
+
+      // Act
+      await orderService.createOrder({ ...mockOrderData, paymentMethod: 'klarna', discountCode: 'SAVE100' });
+
+      // Assert
+      const paymentCall = mockPaymentService.processPayment.mock.calls[0][0];
+      const orderLines = JSON.parse(paymentCall.metadata!.orderLines);
+      expect(orderLines).toContainEqual(expect.objectContaining({
+        type: 'discount',
+        reference: 'SAVE100',
+        total_amount: -100,
+        tax_rate: 2500,
+        total_tax_amount: -20,
+      }));
     });
 
     it('should handle shipping calculation failure', async () => {
@@ -322,9 +720,24 @@ describe('OrderService', () => {
       // Assert
       expect(result.success).toBe(false);
       expect(result.error).toContain('Stock reservation failed');
+      expect(mockPaymentService.processPayment).not.toHaveBeenCalled();
       expect(mockOrderRepository.create).not.toHaveBeenCalled();
     });
 
+    it('should release the stock it reserved when the payment fails', async () => {
+      // Arrange
+      mockPaymentService.processPayment.mockResolvedValue({
+        success: false,
+        error: 'Card declined',
+      });
+
+      // Act
+      await orderService.createOrder(mockOrderData);
+
+      // Assert
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith('reservation-1');
+    });
+
     it('should release stock reservation if order creation fails', async () => {
       // Arrange
       mockOrderRepository.create.mockResolvedValue({
@@ -340,12 +753,14 @@ describe('OrderService', () => {
       expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith('reservation-1');
     });
 
-    it('should create shipment for successful payment', async () => {
+    it('should leave a paid order to be sent in shipments', async () => {
       // Act
-      await orderService.createOrder(mockOrderData);
+      const result = await orderService.createOrder(mockOrderData);
 
       // Assert
-      expect(mockShippingService.createShipment).toHaveBeenCalledWith('order-1', 'rate-1');
+      expect(result.success).toBe(true);
+      expect(mockShippingService.createShipment).not.toHaveBeenCalled();
+      expect(mockOrderRepository.transitionStatus).not.toHaveBeenCalled();
     });
 
     it('should clear cart after successful order', async () => {
@@ -367,6 +782,20 @@ describe('OrderService', () => {
       expect(createCall.items[0]).toHaveProperty('total');
     });
 
+    it('should price the items from the catalogue rather than the prices sent', async () => {
+      // Act
+      await orderService.createOrder({
+        ...mockOrderData,
+        items: mockCartItems.map(item => ({ ...item, price: 1 })),
+      });
+
+      // Assert
+      expect(mockShippingService.calculateShipping).toHaveBeenCalledWith(mockCartItems, 'Sweden');
+      expect(mockOrderRepository.create.mock.calls[0][0].items.map((item: OrderItem) => item.price)).toEqual([299.99, 149.99]);
+      const paymentCall = mockPaymentService.processPayment.mock.calls[0][0];
+      expect(paymentCall.amount).toBeCloseTo(799.97, 2);
+    });
+
     it('should handle product not found during cart item transformation', async () => {
       // Arrange
       mockProductService.getProduct.mockResolvedValue({
@@ -382,13 +811,21 @@ describe('OrderService', () => {
       expect(result.error).toContain('Product with ID prod-1 not found');
     });
 
-    it('should set order status to confirmed for successful payment', async () => {
+    it('should set order status to paid for successful payment', async () => {
       // Act
       await orderService.createOrder(mockOrderData);
 
       // Assert
       const createCall = mockOrderRepository.create.mock.calls[0][0];
-      expect(createCall.status).toBe('confirmed');
+      expect(createCall.status).toBe('paid');
+    });
+
+    it('should issue the invoice for an order paid at checkout', async () => {
+      // Act
+      const result = await orderService.createOrder(mockOrderData);
+
+      // Assert
+      expect(mockInvoiceService.issueInvoice).toHaveBeenCalledWith(result.data!.id);
     });
 
     it('should set order status to pending for pending payment', async () => {
@@ -427,6 +864,19 @@ describe('OrderService', () => {
       expect(mockOrderRepository.findById).toHaveBeenCalledWith('order-1');
     });
 
+    it('should look up order numbers by number', async () => {
+      mockOrderRepository.findByOrderNumber.mockResolvedValue({
+        success: true,
+        data: mockOrder,
+      });
+
+      const result = await orderService.getOrder(' fe-2025-1 ');
+
+      expect(result.success).toBe(true);
+      expect(mockOrderRepository.findByOrderNumber).toHaveBeenCalledWith('FE-2025-000001');
+      expect(mockOrderRepository.findById).not.toHaveBeenCalled();
+    });
+
     it('should handle order not found', async () => {
       // Arrange
       mockOrderRepository.findById.mockResolvedValue({
@@ -463,104 +913,368 @@ describe('OrderService', () => {
   });
 
   describe('updateOrderStatus', () => {
+    const adminChange = { actor: 'admin:admin-1', reason: 'Handed to PostNord' };
+
+    const givenOrder = (order: Order) => {
+      mockOrderRepository.findById.mockResolvedValue({
+        success: true,
+        data: order,
+      });
+    };
+
     it('should update order status successfully', async () => {
       // Arrange
-      mockOrderRepository.updateStatus.mockResolvedValue({
+      givenOrder({ ...mockOrder, status: 'packed' });
+      mockOrderRepository.transitionStatus.mockResolvedValue({
         success: true,
         data: { ...mockOrder, status: 'shipped' },
       });
 
       // Act
-      const result = await orderService.updateOrderStatus('order-1', 'shipped');
+      const result = await orderService.updateOrderStatus('order-1', 'shipped', adminChange);
 
       // Assert
       expect(result.success).toBe(true);
       expect(result.data?.status).toBe('shipped');
-      expect(mockOrderRepository.updateStatus).toHaveBeenCalledWith('order-1', 'shipped');
+      expect(mockOrderRepository.transitionStatus).toHaveBeenCalledWith('order-1', {
+        from: 'packed',
+        to: 'shipped',
+        actor: 'admin:admin-1',
+        reason: 'Handed to PostNord',
+        trackingNumber: undefined,
+      });
     });
 
-    it('should handle status update to confirmed', async () => {
+    it('should reject transitions the state machine does not allow', async () => {
       // Arrange
-      const unconfirmedOrder = { ...mockOrder, status: 'pending' as any, trackingNumber: undefined };
-      mockOrderRepository.updateStatus.mockResolvedValue({
-        success: true,
-        data: unconfirmedOrder,
+      givenOrder({ ...mockOrder, status: 'pending' });
+
+      // Act
+      const result = await orderService.updateOrderStatus('order-1', 'shipped', adminChange);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order cannot change from pending to shipped');
+      expect(mockOrderRepository.transitionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject a change to the status the order already has', async () => {
+      // Arrange
+      givenOrder({ ...mockOrder, status: 'paid' });
+
+      // Act
+      const result = await orderService.updateOrderStatus('order-1', 'paid', { actor: 'stripe' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order is already paid');
+      expect(mockShippingService.getShippingRates).not.toHaveBeenCalled();
+    });
+
+    it('should not reopen a cancelled order', async () => {
+      // Arrange
+      givenOrder({ ...mockOrder, status: 'cancelled' });
+
+      // Act
+      const result = await orderService.updateOrderStatus('order-1', 'paid', { actor: 'stripe' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(mockOrderRepository.transitionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should handle order not found', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue({
+        success: false,
+        error: 'Order not found',
       });
-      mockShippingService.getShippingRates.mockResolvedValue({
+
+      // Act
+      const result = await orderService.updateOrderStatus('missing', 'paid', { actor: 'stripe' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order not found');
+    });
+
+    it('should not ship an order when it is paid', async () => {
+      // Arrange
+      const pendingOrder: Order = { ...mockOrder, status: 'pending', trackingNumber: undefined };
+      givenOrder(pendingOrder);
+      mockOrderRepository.transitionStatus.mockResolvedValue({ success: true, data: { ...pendingOrder, status: 'paid' } });
+
+      // Act
+      const result = await orderService.updateOrderStatus('order-1', 'paid', { actor: 'stripe' });
+
+      // Assert
+      expect(result.data?.status).toBe('paid');
+      expect(mockShippingService.createShipment).not.toHaveBeenCalled();
+      expect(mockOrderRepository.transitionStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('should take the reserved stock when the payment settles', async () => {
+      // Arrange
+      const pendingOrder: Order = { ...mockOrder, status: 'pending', reservationId: 'reservation-1' };
+      givenOrder(pendingOrder);
+      mockOrderRepository.transitionStatus.mockResolvedValue({ success: true, data: { ...pendingOrder, status: 'paid' } });
+      mockInventoryService.completeReservation.mockResolvedValue({ success: true });
+
+      // Act
+      await orderService.updateOrderStatus('order-1', 'paid', { actor: 'stripe' });
+
+      // Assert
+      expect(mockInventoryService.completeReservation).toHaveBeenCalledWith('reservation-1', 'order-1');
+    });
+
+    it('should issue the invoice whichever provider settled the payment', async () => {
+      // Arrange
+      const pendingOrder: Order = { ...mockOrder, status: 'pending', paymentMethod: 'swish' };
+      givenOrder(pendingOrder);
+      mockOrderRepository.transitionStatus.mockResolvedValue({ success: true, data: { ...pendingOrder, status: 'paid' } });
+
+      // Act
+      await orderService.updateOrderStatus('order-1', 'paid', { actor: 'swish' });
+
+      // Assert
+      expect(mockInvoiceService.issueInvoice).toHaveBeenCalledWith('order-1');
+    });
+
+    it('should release the held stock when an unpaid order is cancelled', async () => {
+      // Arrange
+      givenOrder({ ...mockOrder, status: 'pending', reservationId: 'reservation-1' });
+      mockOrderRepository.transitionStatus.mockResolvedValue({
         success: true,
-        data: [{ id: 'rate-1', name: 'Standard', description: 'Standard delivery', price: 50, estimatedDays: 3, country: 'SE', carrierCode: 'postnord', maxWeight: 10 }],
+        data: { ...mockOrder, status: 'cancelled' },
       });
-      mockShippingService.createShipment.mockResolvedValue({
+      mockInventoryService.releaseReservation.mockResolvedValue({
         success: true,
-        data: {
-          id: 'shipment-1',
-          orderId: 'order-1',
-          trackingNumber: 'TRACK-123',
-          carrier: 'PostNord',
-          status: 'pending',
-          estimatedDelivery: new Date(),
-        },
       });
 
       // Act
-      await orderService.updateOrderStatus('order-1', 'confirmed');
+      await orderService.updateOrderStatus('order-1', 'cancelled', adminChange);
 
       // Assert
-      // Should create shipment if none exists
-      expect(mockShippingService.getShippingRates).toHaveBeenCalled();
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith('reservation-1');
+      expect(mockInventoryService.updateStock).not.toHaveBeenCalled();
     });
 
-    it('should handle status update to cancelled', async () => {
+    it('should put the stock back when a paid order is cancelled', async () => {
       // Arrange
-      mockOrderRepository.updateStatus.mockResolvedValue({
+      givenOrder({ ...mockOrder, reservationId: 'reservation-1' });
+      mockOrderRepository.transitionStatus.mockResolvedValue({
         success: true,
         data: { ...mockOrder, status: 'cancelled' },
       });
-      mockOrderRepository.findById.mockResolvedValue({
+      mockInventoryService.updateStock.mockResolvedValue({
         success: true,
-        data: mockOrder,
       });
-      mockInventoryService.releaseReservation.mockResolvedValue({
+
+      // Act
+      await orderService.updateOrderStatus('order-1', 'cancelled', adminChange);
+
+      // Assert
+      expect(mockInventoryService.updateStock).toHaveBeenCalledWith('prod-1', 2);
+      expect(mockInventoryService.releaseReservation).not.toHaveBeenCalled();
+    });
+
+    it('should not take stock again when the order is delivered', async () => {
+      // Arrange
+      givenOrder({ ...mockOrder, status: 'in_transit' });
+      mockOrderRepository.transitionStatus.mockResolvedValue({
         success: true,
+        data: { ...mockOrder, status: 'delivered' },
       });
 
       // Act
-      await orderService.updateOrderStatus('order-1', 'cancelled');
+      await orderService.updateOrderStatus('order-1', 'delivered', { actor: 'system' });
 
       // Assert
-      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith('order-1');
+      expect(mockInventoryService.updateStock).not.toHaveBeenCalled();
+      expect(mockInventoryService.completeReservation).not.toHaveBeenCalled();
     });
 
-    it('should handle status update to delivered', async () => {
+    it('should capture the Klarna authorization when the order ships', async () => {
       // Arrange
-      mockOrderRepository.updateStatus.mockResolvedValue({
+      const shippedOrder: Order = {
+        ...mockOrder,
+        status: 'shipped',
+        paymentMethod: 'klarna',
+        paymentStatus: 'authorized',
+        trackingNumber: 'TRACK-123',
+        carrier: 'PostNord',
+      };
+      givenOrder({ ...shippedOrder, status: 'packed' });
+      mockOrderRepository.transitionStatus.mockResolvedValue({
         success: true,
-        data: { ...mockOrder, status: 'delivered' },
+        data: shippedOrder,
       });
-      mockOrderRepository.findById.mockResolvedValue({
+      mockKlarnaOrderManagement.captureOrder.mockResolvedValue({
         success: true,
-        data: mockOrder,
+        data: { orderId: 'order-1', capturedAmount: 1000, remainingAmount: 0, paymentStatus: 'paid' },
+      });
+
+      // Act
+      const result = await orderService.updateOrderStatus('order-1', 'shipped', adminChange);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockKlarnaOrderManagement.captureOrder).toHaveBeenCalledWith(shippedOrder, {
+        carrier: 'PostNord',
+        trackingNumber: 'TRACK-123',
+      });
+    });
+
+    it('should leave the capture to the shipments when the order is sent in several', async () => {
+      // Arrange
+      const klarnaOrder: Order = { ...mockOrder, status: 'packed', paymentMethod: 'klarna', paymentStatus: 'partially_captured' };
+      givenOrder(klarnaOrder);
+      mockOrderRepository.transitionStatus.mockResolvedValue({
+        success: true,
+        data: { ...klarnaOrder, status: 'shipped' },
+      });
+      mockShipmentRepository.findByOrderId.mockResolvedValue({
+        success: true,
+        data: [{
+          id: 'shipment-1',
+          orderId: 'order-1',
+          status: 'shipped',
+          items: [{ productId: 'prod-1', productName: 'Product 1', quantity: 2 }],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }],
+      });
+
+      // Act
+      const result = await orderService.updateOrderStatus('order-1', 'shipped', adminChange);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockKlarnaOrderManagement.captureOrder).not.toHaveBeenCalled();
+    });
+
+    it('should not capture when the order was not paid with Klarna', async () => {
+      // Arrange
+      givenOrder({ ...mockOrder, status: 'packed' });
+      mockOrderRepository.transitionStatus.mockResolvedValue({
+        success: true,
+        data: { ...mockOrder, status: 'shipped' },
+      });
+
+      // Act
+      await orderService.updateOrderStatus('order-1', 'shipped', adminChange);
+
+      // Assert
+      expect(mockKlarnaOrderManagement.captureOrder).not.toHaveBeenCalled();
+    });
+
+    it('should still ship the order when the Klarna capture fails', async () => {
+      // Arrange
+      givenOrder({ ...mockOrder, status: 'packed', paymentMethod: 'klarna', paymentStatus: 'authorized' });
+      mockOrderRepository.transitionStatus.mockResolvedValue({
+        success: true,
+        data: { ...mockOrder, status: 'shipped', paymentMethod: 'klarna', paymentStatus: 'authorized' },
+      });
+      mockKlarnaOrderManagement.captureOrder.mockResolvedValue({
+        success: false,
+        error: 'Klarna API error',
+      });
+
+      // Act
+      const result = await orderService.updateOrderStatus('order-1', 'shipped', adminChange);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it('should release the Klarna authorization when the order is cancelled', async () => {
+      // Arrange
+      const klarnaOrder: Order = { ...mockOrder, paymentMethod: 'klarna', paymentStatus: 'authorized' };
+      givenOrder(klarnaOrder);
+      mockOrderRepository.transitionStatus.mockResolvedValue({
+        success: true,
+        data: { ...klarnaOrder, status: 'cancelled' },
       });
       mockInventoryService.updateStock.mockResolvedValue({
         success: true,
       });
+      mockKlarnaOrderManagement.releaseAuthorization.mockResolvedValue({
+        success: true,
+        data: 'cancelled',
+      });
+
+      // Act
+      await orderService.updateOrderStatus('order-1', 'cancelled', adminChange);
+
+      // Assert
+      expect(mockKlarnaOrderManagement.releaseAuthorization).toHaveBeenCalledWith(klarnaOrder);
+    });
+  });
+
+  describe('transitionOrders', () => {
+    const warehouseChange = { actor: 'admin:admin-1' };
+
+    it('should write the warehouse steps for the batch in one go', async () => {
+      // Arrange
+      const steps = [
+        { orderId: 'order-1', from: 'paid' as const, to: 'picking' as const },
+        { orderId: 'order-2', from: 'picking' as const, to: 'packed' as const },
+      ];
+      mockOrderRepository.transitionStatuses.mockResolvedValue({ success: true, data: [] });
+
+      // Act
+      const result = await orderService.transitionOrders(steps, warehouseChange);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockOrderRepository.transitionStatuses).toHaveBeenCalledWith(steps, 'admin:admin-1', undefined);
+    });
+
+    it('should refuse steps that need more than the status written', async () => {
+      // Act
+      const result = await orderService.transitionOrders(
+        [{ orderId: 'order-1', from: 'packed', to: 'shipped' }],
+        warehouseChange
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order order-1 cannot change from packed to shipped in a batch');
+      expect(mockOrderRepository.transitionStatuses).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getOrderStatusHistory', () => {
+    it('should return the recorded changes', async () => {
+      // Arrange
+      const history = [
+        { id: 'change-1', orderId: 'order-1', toStatus: 'pending' as const, actor: 'customer:cust-1', createdAt: new Date() },
+        { id: 'change-2', orderId: 'order-1', fromStatus: 'pending' as const, toStatus: 'paid' as const, actor: 'stripe', createdAt: new Date() },
+      ];
+      mockOrderRepository.findStatusHistory.mockResolvedValue({
+        success: true,
+        data: history,
+      });
 
       // Act
-      await orderService.updateOrderStatus('order-1', 'delivered');
+      const result = await orderService.getOrderStatusHistory('order-1');
 
       // Assert
-      expect(mockInventoryService.updateStock).toHaveBeenCalled();
+      expect(result.data).toEqual(history);
+      expect(mockOrderRepository.findStatusHistory).toHaveBeenCalledWith('order-1');
     });
   });
 
   describe('cancelOrder', () => {
+    const customerChange = { actor: 'customer:cust-1', reason: 'Cancelled by customer' };
+
     it('should cancel an order successfully', async () => {
       // Arrange
       mockOrderRepository.findById.mockResolvedValue({
         success: true,
         data: { ...mockOrder, status: 'pending' },
       });
-      mockOrderRepository.updateStatus.mockResolvedValue({
+      mockOrderRepository.transitionStatus.mockResolvedValue({
         success: true,
         data: { ...mockOrder, status: 'cancelled' },
       });
@@ -569,11 +1283,17 @@ describe('OrderService', () => {
       });
 
       // Act
-      const result = await orderService.cancelOrder('order-1');
+      const result = await orderService.cancelOrder('order-1', customerChange);
 
       // Assert
       expect(result.success).toBe(true);
-      expect(mockOrderRepository.updateStatus).toHaveBeenCalledWith('order-1', 'cancelled');
+      expect(mockOrderRepository.transitionStatus).toHaveBeenCalledWith('order-1', {
+        from: 'pending',
+        to: 'cancelled',
+        actor: 'customer:cust-1',
+        reason: 'Cancelled by customer',
+        trackingNumber: undefined,
+      });
     });
 
     it('should not cancel delivered order', async () => {
@@ -584,12 +1304,12 @@ describe('OrderService', () => {
       });
 
       // Act
-      const result = await orderService.cancelOrder('order-1');
+      const result = await orderService.cancelOrder('order-1', customerChange);
 
       // Assert
       expect(result.success).toBe(false);
       expect(result.error).toContain('cannot be cancelled after shipping');
-      expect(mockOrderRepository.updateStatus).not.toHaveBeenCalled();
+      expect(mockOrderRepository.transitionStatus).not.toHaveBeenCalled();
     });
 
     it('should not cancel shipped order', async () => {
@@ -600,7 +1320,7 @@ describe('OrderService', () => {
       });
 
       // Act
-      const result = await orderService.cancelOrder('order-1');
+      const result = await orderService.cancelOrder('order-1', customerChange);
 
       // Assert
       expect(result.success).toBe(false);
@@ -615,7 +1335,7 @@ describe('OrderService', () => {
       });
 
       // Act
-      const result = await orderService.cancelOrder('non-existent');
+      const result = await orderService.cancelOrder('non-existent', customerChange);
 
       // Assert
       expect(result.success).toBe(false);
@@ -633,12 +1353,12 @@ describe('OrderService', () => {
       });
 
       // Act
-      const result = await orderService.getOrdersByStatus('confirmed');
+      const result = await orderService.getOrdersByStatus('paid');
 
       // Assert
       expect(result.success).toBe(true);
       expect(result.data).toEqual(orders);
-      expect(mockOrderRepository.findByStatus).toHaveBeenCalledWith('confirmed');
+      expect(mockOrderRepository.findByStatus).toHaveBeenCalledWith('paid');
     });
   });
 
@@ -648,10 +1368,15 @@ describe('OrderService', () => {
       const stats = {
         total: 100,
         pending: 10,
-        confirmed: 50,
-        shipped: 30,
+        paid: 20,
+        picking: 10,
+        packed: 5,
+        shipped: 15,
+        in_transit: 15,
         delivered: 8,
-        cancelled: 2,
+        returned: 1,
+        refunded: 1,
+        cancelled: 15,
       };
       mockOrderRepository.getOrderStatistics.mockResolvedValue({
         success: true,
@@ -671,9 +1396,14 @@ describe('OrderService', () => {
       const stats = {
         total: 10,
         pending: 1,
-        confirmed: 5,
+        paid: 5,
+        picking: 0,
+        packed: 0,
         shipped: 3,
+        in_transit: 0,
         delivered: 1,
+        returned: 0,
+        refunded: 0,
         cancelled: 0,
       };
       mockOrderRepository.getOrderStatistics.mockResolvedValue({
@@ -0,0 +1,88 @@
+import {
+  ORDER_STATUSES,
+  canTransition,
+  findTransitionPath,
+  getAllowedTransitions,
+  isFinalStatus,
+  isOrderStatus,
+} from '@/services/orders/OrderStateMachine';
+
+describe('OrderStateMachine', () => {
+  describe('canTransition', () => {
+    it('should follow the normal fulfilment path', () => {
+      expect(canTransition('pending', 'paid')).toBe(true);
+      expect(canTransition('paid', 'picking')).toBe(true);
+      expect(canTransition('picking', 'packed')).toBe(true);
+      expect(canTransition('packed', 'shipped')).toBe(true);
+      expect(canTransition('shipped', 'in_transit')).toBe(true);
+      expect(canTransition('in_transit', 'delivered')).toBe(true);
+      expect(canTransition('delivered', 'returned')).toBe(true);
+      expect(canTransition('returned', 'refunded')).toBe(true);
+    });
+
+    it('should not skip payment', () => {
+      expect(canTransition('pending', 'shipped')).toBe(false);
+      expect(canTransition('pending', 'delivered')).toBe(false);
+    });
+
+    it('should not move backwards', () => {
+      expect(canTransition('shipped', 'paid')).toBe(false);
+      expect(canTransition('delivered', 'shipped')).toBe(false);
+    });
+
+    it('should only allow cancelling before shipping', () => {
+      expect(canTransition('pending', 'cancelled')).toBe(true);
+      expect(canTransition('packed', 'cancelled')).toBe(true);
+      expect(canTransition('shipped', 'cancelled')).toBe(false);
+      expect(canTransition('delivered', 'cancelled')).toBe(false);
+    });
+
+    it('should not allow a status to transition to itself', () => {
+      ORDER_STATUSES.forEach(status => {
+        expect(canTransition(status, status)).toBe(false);
+      });
+    });
+  });
+
+  describe('getAllowedTransitions', () => {
+    it('should return a copy that callers cannot use to change the table', () => {
+      getAllowedTransitions('pending').push('delivered');
+
+      expect(canTransition('pending', 'delivered')).toBe(false);
+    });
+  });
+
+  describe('findTransitionPath', () => {
+    it('should step through the statuses in between', () => {
+      expect(findTransitionPath('paid', 'packed')).toEqual(['picking', 'packed']);
+      expect(findTransitionPath('picking', 'in_transit')).toEqual(['packed', 'shipped', 'in_transit']);
+    });
+
+    it('should take the shortest path', () => {
+      expect(findTransitionPath('paid', 'delivered')).toEqual(['shipped', 'delivered']);
+    });
+
+    it('should return no steps for the current status', () => {
+      expect(findTransitionPath('shipped', 'shipped')).toEqual([]);
+    });
+
+    it('should return null when the status cannot be reached', () => {
+      expect(findTransitionPath('delivered', 'packed')).toBeNull();
+      expect(findTransitionPath('cancelled', 'paid')).toBeNull();
+    });
+  });
+
+  describe('isFinalStatus', () => {
+    it('should treat refunded and cancelled orders as closed', () => {
+      expect(ORDER_STATUSES.filter(isFinalStatus)).toEqual(['refunded', 'cancelled']);
+    });
+  });
+
+  describe('isOrderStatus', () => {
+    it('should reject the legacy statuses', () => {
+      expect(isOrderStatus('paid')).toBe(true);
+      expect(isOrderStatus('confirmed')).toBe(false);
+      expect(isOrderStatus('processing')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import 'reflect-metadata';
+import { PackingEngine, PackingLine } from '@/services/shipping/PackingEngine';
+
+describe('PackingEngine', () => {
+  const engine = new PackingEngine();
+
+  const bottle = { weight: 0.05, dimensions: { length: 3, width: 3, height: 9 } };
+  const diffuser = { weight: 0.6, dimensions: { length: 14, width: 14, height: 20 } };
+  const pillow = { weight: 0.3, dimensions: { length: 40, width: 30, height: 12 } };
+
+  describe('pack', () => {
+    it('should put a few bottles in the smallest box', () => {
+      const parcel = engine.pack([{ product: bottle, quantity: 3 }]);
+
+      expect(parcel.box?.code).toBe('XS');
+      expect(parcel.weight).toBe(0.2);
+      expect(parcel.dimensions).toEqual({ length: 22, width: 16, height: 5 });
+    });
+
+    it('should choose a box every item fits in, whichever way round', () => {
+      // The diffuser is 14 cm across however it lies, too much for box S at 10 cm high
+      const parcel = engine.pack([{ product: diffuser, quantity: 1 }, { product: bottle, quantity: 2 }]);
+
+      expect(parcel.box?.code).toBe('M');
+    });
+
+    it('should move up a size when the items fill the box', () => {
+      const lines: PackingLine[] = [{ product: bottle, quantity: 45 }];
+
+      // 45 bottles are 3645 cm³, more than three quarters of box S at 4500 cm³
+      expect(engine.pack(lines).box?.code).toBe('M');
+    });
+
+    it('should leave the box out when nothing in the catalogue is big enough', () => {
+      const parcel = engine.pack([{ product: { weight: 2, dimensions: { length: 80, width: 10, height: 10 } }, quantity: 1 }]);
+
+      expect(parcel.box).toBeUndefined();
+      expect(parcel.dimensions).toBeUndefined();
+      expect(parcel.weight).toBe(2);
+    });
+  });
+
+  describe('chargeableWeight', () => {
+    it('should charge light, bulky parcels by their volume', () => {
+      const parcel = engine.pack([{ product: pillow, quantity: 1 }]);
+
+      // Box L is 45 x 35 x 25 cm, 7.875 kg by volume against 0.8 kg on the scales
+      expect(parcel.box?.code).toBe('L');
+      expect(engine.volumetricWeight(parcel.dimensions!)).toBe(7.875);
+      expect(engine.chargeableWeight(parcel)).toBe(7.875);
+    });
+
+    it('should charge dense parcels by their actual weight', () => {
+      expect(engine.chargeableWeight({ weight: 12, dimensions: { length: 25, width: 18, height: 10 } })).toBe(12);
+      expect(engine.chargeableWeight({ weight: 1.5 })).toBe(1.5);
+    });
+  });
+});
@@ -9,6 +9,7 @@ jest.mock('stripe', () => {
       create: jest.fn(),
       retrieve: jest.fn(),
       confirm: jest.fn(),
+      update: jest.fn(),
     },
   }));
 });
@@ -224,6 +225,29 @@ describe('PaymentService', () => {
     });
   });
 
+  describe('attachOrderReference', () => {
+    const order = { id: 'order-123', orderNumber: 'FE-2026-000042' };
+
+    it('should point the Stripe payment intent at the order', async () => {
+      mockStripe.paymentIntents.update.mockResolvedValue({ id: 'pi_123' });
+
+      const result = await paymentService.attachOrderReference('pi_123', 'card', order);
+
+      expect(result.success).toBe(true);
+      expect(mockStripe.paymentIntents.update).toHaveBeenCalledWith('pi_123', {
+        description: 'Order FE-2026-000042',
+        metadata: { orderId: 'order-123', orderNumber: 'FE-2026-000042' },
+      });
+    });
+
+    it('should leave other payment methods alone', async () => {
+      const result = await paymentService.attachOrderReference('swish_123', 'swish', order);
+
+      expect(result.success).toBe(true);
+      expect(mockStripe.paymentIntents.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('verifyPayment', () => {
     it('should verify successful payment', async () => {
       mockStripe.paymentIntents.retrieve.mockResolvedValue({
@@ -0,0 +1,53 @@
+import 'reflect-metadata';
+import { PickupPointService } from '@/services/shipping/PickupPointService';
+
+describe('PickupPointService', () => {
+  let service: PickupPointService;
+
+  beforeEach(() => {
+    service = new PickupPointService();
+  });
+
+  describe('findPickupPoints', () => {
+    it('should return the nearest points in the same postal region first', async () => {
+      const result = await service.findPickupPoints('POSTNORD', '113 30');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.map(point => point.id)).toEqual(['1451201', '1451287', '1451310']);
+    });
+
+    it('should filter by pickup point type', async () => {
+      const result = await service.findPickupPoints('INSTABOX', '16970', 'locker');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.every(point => point.type === 'locker')).toBe(true);
+      expect(result.data!.map(point => point.id)).not.toContain('IBX-STO-0301');
+    });
+
+    it('should reject an invalid postal code', async () => {
+      const result = await service.findPickupPoints('POSTNORD', '1234');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid Swedish postal code');
+    });
+
+    it('should fail for carriers without pickup points', async () => {
+      const result = await service.findPickupPoints('EARLY_BIRD', '11322');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Carrier EARLY_BIRD has no pickup points');
+    });
+  });
+
+  describe('getPickupPoint', () => {
+    it('should only find points belonging to the carrier', async () => {
+      const found = await service.getPickupPoint('BUDBEE', 'BBX-11325');
+      const otherCarrier = await service.getPickupPoint('POSTNORD', 'BBX-11325');
+
+      expect(found.success).toBe(true);
+      expect(found.data?.name).toBe('Budbee Box Sankt Eriksplan');
+      expect(otherCarrier.success).toBe(false);
+      expect(otherCarrier.error).toBe('Pickup point not found');
+    });
+  });
+});
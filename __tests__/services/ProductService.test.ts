@@ -61,6 +61,7 @@ describe('ProductService', () => {
     mockProductRepository = {
       findAll: jest.fn(),
       findById: jest.fn(),
+      findByIds: jest.fn(),
       findByCategory: jest.fn(),
       findFeatured: jest.fn(),
       findBySku: jest.fn(),
@@ -0,0 +1,208 @@
+import 'reflect-metadata';
+import { PromotionService } from '@/services/promotions/PromotionService';
+import type { IDiscountCodeRepository, IProductRepository } from '@/interfaces';
+import type { CartItem, DiscountCode } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('PromotionService', () => {
+  let service: PromotionService;
+  let mockDiscountCodeRepository: jest.Mocked<IDiscountCodeRepository>;
+  let mockProductRepository: jest.Mocked<IProductRepository>;
+
+  const items: CartItem[] = [
+    { productId: 'oil-1', quantity: 2, price: 200 },
+    { productId: 'diffuser-1', quantity: 1, price: 400 },
+  ];
+
+  const baseCode: DiscountCode = {
+    id: 'code-1',
+    code: 'SPRING20',
+    type: 'percentage',
+    value: 20,
+    singleUse: false,
+    usageCount: 0,
+    active: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const givenCode = (overrides: Partial<DiscountCode> = {}) => {
+    mockDiscountCodeRepository.findByCode.mockResolvedValue({
+      success: true,
+      data: { ...baseCode, ...overrides },
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockDiscountCodeRepository = {
+      findAll: jest.fn(),
+      findByCode: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      countRedemptions: jest.fn().mockResolvedValue({ success: true, data: 0 }),
+      redeem: jest.fn(),
+      assignOrder: jest.fn(),
+      release: jest.fn(),
+    };
+
+    mockProductRepository = {
+      findById: jest.fn().mockImplementation(async (id: string) => ({
+        success: true,
+        data: { id, category: id.startsWith('oil') ? 'essential-oils' : 'diffusers' },
+      })),
+    } as any;
+
+    service = new PromotionService(mockDiscountCodeRepository, mockProductRepository);
+  });
+
+  describe('validateCode', () => {
+    it('should normalize the code and apply a percentage discount', async () => {
+      givenCode();
+
+      const result = await service.validateCode('  spring20 ', { items });
+
+      expect(mockDiscountCodeRepository.findByCode).toHaveBeenCalledWith('SPRING20');
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(expect.objectContaining({ code: 'SPRING20', amount: 160, freeShipping: false }));
+    });
+
+    it('should cap a fixed amount discount at the order value', async () => {
+      givenCode({ type: 'fixed_amount', value: 1000 });
+
+      const result = await service.validateCode('SPRING20', { items });
+
+      expect(result.data!.amount).toBe(800);
+    });
+
+    it('should discount the shipping cost for free shipping codes', async () => {
+      givenCode({ type: 'free_shipping', value: 0 });
+
+      const result = await service.validateCode('SPRING20', { items, shippingCost: 49 });
+
+      expect(result.data).toEqual(expect.objectContaining({ amount: 49, freeShipping: true }));
+    });
+
+    it('should only discount items in eligible categories', async () => {
+      givenCode({ eligibleCategories: ['essential-oils'] });
+
+      const result = await service.validateCode('SPRING20', { items });
+
+      expect(result.data!.amount).toBe(80);
+    });
+
+    it('should reject codes that match no items in the cart', async () => {
+      givenCode({ eligibleCategories: ['gift-sets'] });
+
+      const result = await service.validateCode('SPRING20', { items });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Discount code does not apply to any items in your cart');
+    });
+
+    it('should reject unknown codes', async () => {
+      mockDiscountCodeRepository.findByCode.mockResolvedValue({ success: false, error: 'Discount code not found' });
+
+      const result = await service.validateCode('NOPE', { items });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid discount code');
+    });
+
+    it('should reject inactive and expired codes', async () => {
+      givenCode({ active: false });
+      expect((await service.validateCode('SPRING20', { items })).error).toBe('Discount code is no longer active');
+
+      givenCode({ validUntil: new Date(Date.now() - 1000) });
+      expect((await service.validateCode('SPRING20', { items })).error).toBe('Discount code has expired');
+
+      givenCode({ validFrom: new Date(Date.now() + 60000) });
+      expect((await service.validateCode('SPRING20', { items })).error).toBe('Discount code is not valid yet');
+    });
+
+    it('should enforce the minimum order value', async () => {
+      givenCode({ minOrderValue: 1000 });
+
+      const result = await service.validateCode('SPRING20', { items });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Minimum order value');
+    });
+
+    it('should enforce total and single-use limits', async () => {
+      givenCode({ usageLimit: 5, usageCount: 5 });
+      expect((await service.validateCode('SPRING20', { items })).error).toBe('Discount code has reached its usage limit');
+
+      givenCode({ singleUse: true, usageCount: 1 });
+      expect((await service.validateCode('SPRING20', { items })).error).toBe('Discount code has already been used');
+    });
+
+    it('should enforce the per-customer limit', async () => {
+      givenCode({ usageLimitPerCustomer: 1 });
+      mockDiscountCodeRepository.countRedemptions.mockResolvedValue({ success: true, data: 1 });
+
+      const result = await service.validateCode('SPRING20', { items, customerId: 'cust-1' });
+
+      expect(mockDiscountCodeRepository.countRedemptions).toHaveBeenCalledWith('code-1', 'cust-1');
+      expect(result.error).toBe('Discount code has already been used by this customer');
+    });
+  });
+
+  describe('redeemCode', () => {
+    it('should record the redemption against the stored code', async () => {
+      givenCode();
+      mockDiscountCodeRepository.redeem.mockResolvedValue({
+        success: true,
+        data: { id: 'red-1', discountCodeId: 'code-1', amount: 160, createdAt: new Date() },
+      });
+
+      const result = await service.redeemCode(
+        { code: 'SPRING20', type: 'percentage', amount: 160, freeShipping: false },
+        'cust-1'
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockDiscountCodeRepository.redeem).toHaveBeenCalledWith('code-1', 'cust-1', 160);
+    });
+  });
+
+  describe('createWelcomeCode', () => {
+    it('should create a single-use percentage code', async () => {
+      mockDiscountCodeRepository.create.mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, id: 'code-2', usageCount: 0, createdAt: new Date(), updatedAt: new Date() },
+      }));
+
+      const result = await service.createWelcomeCode();
+
+      expect(result.success).toBe(true);
+      expect(result.data!.code).toMatch(/^WELCOME10-[0-9A-F]{8}$/);
+      expect(mockDiscountCodeRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'percentage',
+        value: 10,
+        singleUse: true,
+        active: true,
+        validUntil: expect.any(Date),
+      }));
+    });
+  });
+
+  describe('createCode', () => {
+    it('should reject percentages above 100', async () => {
+      const result = await service.createCode({
+        code: 'HALF',
+        type: 'percentage',
+        value: 150,
+        singleUse: false,
+        active: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockDiscountCodeRepository.create).not.toHaveBeenCalled();
+    });
+  });
+});
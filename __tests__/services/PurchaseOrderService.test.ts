@@ -0,0 +1,206 @@
+import 'reflect-metadata';
+import { PurchaseOrderService } from '@/services/purchasing/PurchaseOrderService';
+import { PurchaseOrderPdfService } from '@/services/purchasing/PurchaseOrderPdfService';
+import type { IEmailService, IPurchaseOrderRepository, ISupplierRepository } from '@/interfaces';
+import type { PurchaseOrder, ReorderCandidate } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('PurchaseOrderService', () => {
+  let service: PurchaseOrderService;
+  let mockPurchaseOrderRepository: jest.Mocked<IPurchaseOrderRepository>;
+  let mockSupplierRepository: jest.Mocked<ISupplierRepository>;
+  let mockEmailService: jest.Mocked<IEmailService>;
+
+  const purchaseOrder: PurchaseOrder = {
+    id: 'po-1',
+    poNumber: 'PO-2025-0001',
+    supplierId: 'supplier-1',
+    supplier: {
+      id: 'supplier-1',
+      name: 'Provence Oils SARL',
+      contactName: 'Marie Dubois',
+      email: 'orders@provence-oils.example',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+    status: 'draft',
+    lines: [
+      { id: 'line-1', productId: 'oil-1', productName: 'Lavendelolja', sku: 'LAV-10', quantityOrdered: 50, quantityReceived: 0, unitCost: 42.5 },
+    ],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const candidate = (overrides: Partial<ReorderCandidate>): ReorderCandidate => ({
+    productId: 'oil-1',
+    productName: 'Lavendelolja',
+    sku: 'LAV-10',
+    supplierId: 'supplier-1',
+    stock: 2,
+    reorderLevel: 10,
+    onOrder: 0,
+    costPrice: 42.5,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockPurchaseOrderRepository = {
+      findAll: jest.fn(),
+      findById: jest.fn().mockResolvedValue({ success: true, data: purchaseOrder }),
+      create: jest.fn().mockResolvedValue({ success: true, data: purchaseOrder }),
+      updateStatus: jest.fn().mockImplementation(async (_id, status) => ({
+        success: true,
+        data: { ...purchaseOrder, status },
+      })),
+      receive: jest.fn().mockResolvedValue({ success: true, data: 'partially_received' }),
+      findReorderCandidates: jest.fn().mockResolvedValue({ success: true, data: [] }),
+    };
+
+    mockSupplierRepository = {
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    };
+
+    mockEmailService = {
+      sendPurchaseOrder: jest.fn().mockResolvedValue({ success: true }),
+    } as any;
+
+    service = new PurchaseOrderService(
+      mockPurchaseOrderRepository,
+      mockSupplierRepository,
+      mockEmailService,
+      new PurchaseOrderPdfService()
+    );
+  });
+
+  describe('generateReorderDrafts', () => {
+    it('should create one draft per supplier', async () => {
+      mockPurchaseOrderRepository.findReorderCandidates.mockResolvedValue({
+        success: true,
+        data: [
+          candidate({ productId: 'oil-1', reorderQuantity: 24 }),
+          candidate({ productId: 'oil-2', costPrice: undefined }),
+          candidate({ productId: 'soap-1', supplierId: 'supplier-2', stock: 0, reorderLevel: 5, onOrder: 3 }),
+        ],
+      });
+
+      const result = await service.generateReorderDrafts();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(2);
+      expect(mockPurchaseOrderRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        supplierId: 'supplier-1',
+        lines: [
+          { productId: 'oil-1', quantityOrdered: 24, unitCost: 42.5 },
+          { productId: 'oil-2', quantityOrdered: 18, unitCost: 0 },
+        ],
+      }));
+      expect(mockPurchaseOrderRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        supplierId: 'supplier-2',
+        lines: [{ productId: 'soap-1', quantityOrdered: 7, unitCost: 42.5 }],
+      }));
+    });
+
+    it('should skip products already covered by open orders', async () => {
+      mockPurchaseOrderRepository.findReorderCandidates.mockResolvedValue({
+        success: true,
+        data: [candidate({ stock: 4, onOrder: 10 })],
+      });
+
+      const result = await service.generateReorderDrafts();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([]);
+      expect(mockPurchaseOrderRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createPurchaseOrder', () => {
+    it('should reject lines without a positive whole quantity', async () => {
+      const result = await service.createPurchaseOrder({
+        supplierId: 'supplier-1',
+        lines: [{ productId: 'oil-1', quantityOrdered: 1.5, unitCost: 10 }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid quantity or cost for product oil-1');
+      expect(mockPurchaseOrderRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendPurchaseOrder', () => {
+    it('should email the PDF to the supplier and mark the draft sent', async () => {
+      const result = await service.sendPurchaseOrder('po-1');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.status).toBe('sent');
+      expect(mockEmailService.sendPurchaseOrder).toHaveBeenCalledWith(
+        'orders@provence-oils.example',
+        expect.objectContaining({
+          poNumber: 'PO-2025-0001',
+          contactName: 'Marie Dubois',
+          attachments: [expect.objectContaining({
+            filename: 'inkopsorder-PO-2025-0001.pdf',
+            contentType: 'application/pdf',
+          })],
+        })
+      );
+      const pdf = mockEmailService.sendPurchaseOrder.mock.calls[0][1].attachments[0].content as Buffer;
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(mockPurchaseOrderRepository.updateStatus).toHaveBeenCalledWith('po-1', 'sent', ['draft']);
+    });
+
+    it('should not send when the supplier has no email address', async () => {
+      mockPurchaseOrderRepository.findById.mockResolvedValue({
+        success: true,
+        data: { ...purchaseOrder, supplier: { ...purchaseOrder.supplier!, email: undefined } },
+      });
+
+      const result = await service.sendPurchaseOrder('po-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Supplier has no email address');
+      expect(mockEmailService.sendPurchaseOrder).not.toHaveBeenCalled();
+    });
+
+    it('should leave the order a draft when the email fails', async () => {
+      mockEmailService.sendPurchaseOrder.mockResolvedValue({ success: false, error: 'Mailbox unavailable' });
+
+      const result = await service.sendPurchaseOrder('po-1');
+
+      expect(result.success).toBe(false);
+      expect(mockPurchaseOrderRepository.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('receiveGoods', () => {
+    it('should receive the delivered lines and return the updated order', async () => {
+      const result = await service.receiveGoods('po-1', [
+        { lineId: 'line-1', quantity: 20, lotCode: 'L2025-03' },
+        { lineId: 'line-2', quantity: 0 },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(mockPurchaseOrderRepository.receive).toHaveBeenCalledWith('po-1', [
+        { lineId: 'line-1', quantity: 20, lotCode: 'L2025-03' },
+      ]);
+      expect(mockPurchaseOrderRepository.findById).toHaveBeenCalledWith('po-1');
+    });
+
+    it('should reject a receipt with nothing in it', async () => {
+      const result = await service.receiveGoods('po-1', [{ lineId: 'line-1', quantity: 0 }]);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Nothing was received');
+      expect(mockPurchaseOrderRepository.receive).not.toHaveBeenCalled();
+    });
+  });
+});
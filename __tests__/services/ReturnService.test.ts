@@ -0,0 +1,363 @@
+import 'reflect-metadata';
+import { ReturnService } from '@/services/returns/ReturnService';
+import type {
+  IReturnRepository,
+  IOrderRepository,
+  IPaymentEventRepository,
+  IInventoryService,
+  IInvoiceService
+} from '@/interfaces';
+import type { PaymentProviderFactory } from '@/services/payment/PaymentProviderFactory';
+import type { Order, ReturnRequest } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('ReturnService', () => {
+  let service: ReturnService;
+  let mockReturnRepository: jest.Mocked<IReturnRepository>;
+  let mockOrderRepository: jest.Mocked<Pick<IOrderRepository, 'findById' | 'update'>>;
+  let mockPaymentEventRepository: jest.Mocked<Pick<IPaymentEventRepository, 'recordEvent'>>;
+  let mockInventoryService: jest.Mocked<Pick<IInventoryService, 'updateStock'>>;
+  let mockInvoiceService: jest.Mocked<Pick<IInvoiceService, 'issueCreditNote'>>;
+  let mockProvider: { refundPayment: jest.Mock };
+  let mockProviderFactory: { getProvider: jest.Mock };
+
+  const order = {
+    id: 'order-1',
+    customerId: 'customer-1',
+    items: [
+      { productId: 'oil-1', quantity: 2, price: 100 },
+      { productId: 'diffuser-1', quantity: 1, price: 400 },
+    ],
+    subtotal: 600,
+    tax: 150,
+    shipping: 49,
+    total: 799,
+    status: 'delivered',
+    paymentMethod: 'stripe',
+    paymentId: 'pi_123',
+  } as unknown as Order;
+
+  const baseReturn: ReturnRequest = {
+    id: 'return-1',
+    orderId: 'order-1',
+    customerId: 'customer-1',
+    status: 'pending',
+    reason: 'Wrong scent',
+    refundAmount: 125,
+    items: [{ productId: 'oil-1', quantity: 1, condition: 'unopened' }],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const givenReturn = (overrides: Partial<ReturnRequest> = {}) => {
+    mockReturnRepository.findById.mockResolvedValue({
+      success: true,
+      data: { ...baseReturn, ...overrides },
+    });
+  };
+
+  const givenOrder = (overrides: Partial<Order> = {}) => {
+    mockOrderRepository.findById.mockResolvedValue({
+      success: true,
+      data: { ...order, ...overrides },
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockReturnRepository = {
+      findById: jest.fn(),
+      findByOrderId: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      findByCustomerId: jest.fn(),
+      findByStatus: jest.fn(),
+      create: jest.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, id: 'return-1', createdAt: new Date(), updatedAt: new Date() },
+      })),
+      update: jest.fn().mockImplementation(async (id, data) => ({
+        success: true,
+        data: { ...baseReturn, ...data, id },
+      })),
+      isOrderEligible: jest.fn().mockResolvedValue({ success: true, data: true }),
+    };
+
+    mockOrderRepository = {
+      findById: jest.fn(),
+      update: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    mockPaymentEventRepository = {
+      recordEvent: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    mockInventoryService = {
+      updateStock: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    mockInvoiceService = {
+      issueCreditNote: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    mockProvider = {
+      refundPayment: jest.fn().mockResolvedValue({ success: true, data: 're_1' }),
+    };
+    mockProviderFactory = {
+      getProvider: jest.fn().mockReturnValue(mockProvider),
+    };
+
+    givenOrder();
+
+    service = new ReturnService(
+      mockReturnRepository,
+      mockOrderRepository as unknown as IOrderRepository,
+      mockPaymentEventRepository as unknown as IPaymentEventRepository,
+      mockInventoryService as unknown as IInventoryService,
+      mockProviderFactory as unknown as PaymentProviderFactory,
+      mockInvoiceService as unknown as IInvoiceService
+    );
+  });
+
+  describe('requestReturn', () => {
+    it('should create a pending return refunding the price charged', async () => {
+      const result = await service.requestReturn('customer-1', {
+        orderId: 'order-1',
+        reason: 'Wrong scent',
+        items: [{ productId: 'oil-1', quantity: 2 }],
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockReturnRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'pending',
+        customerId: 'customer-1',
+        refundAmount: 200,
+      }));
+    });
+
+    it('should spread an order discount over the refund', async () => {
+      givenOrder({
+        discount: { code: 'SPRING20', type: 'percentage', amount: 120, freeShipping: false },
+      });
+
+      const result = await service.requestReturn('customer-1', {
+        orderId: 'order-1',
+        reason: 'Wrong scent',
+        items: [{ productId: 'diffuser-1', quantity: 1 }],
+      });
+
+      expect(result.data!.refundAmount).toBe(320);
+    });
+
+    it('should reject returns for orders belonging to another customer', async () => {
+      const result = await service.requestReturn('customer-2', {
+        orderId: 'order-1',
+        reason: 'Wrong scent',
+        items: [{ productId: 'oil-1', quantity: 1 }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Order not found');
+      expect(mockReturnRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject orders outside the return window', async () => {
+      mockReturnRepository.isOrderEligible.mockResolvedValue({ success: true, data: false });
+
+      const result = await service.requestReturn('customer-1', {
+        orderId: 'order-1',
+        reason: 'Too late',
+        items: [{ productId: 'oil-1', quantity: 1 }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('within');
+    });
+
+    it('should not return more than was ordered across open returns', async () => {
+      mockReturnRepository.findByOrderId.mockResolvedValue({
+        success: true,
+        data: [
+          { ...baseReturn, status: 'approved', items: [{ productId: 'oil-1', quantity: 1 }] },
+          { ...baseReturn, id: 'return-0', status: 'rejected', items: [{ productId: 'oil-1', quantity: 2 }] },
+        ],
+      });
+
+      const result = await service.requestReturn('customer-1', {
+        orderId: 'order-1',
+        reason: 'Wrong scent',
+        items: [{ productId: 'oil-1', quantity: 2 }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Only 1 of product oil-1 can be returned');
+    });
+
+    it('should reject products that are not part of the order', async () => {
+      const result = await service.requestReturn('customer-1', {
+        orderId: 'order-1',
+        reason: 'Wrong scent',
+        items: [{ productId: 'candle-1', quantity: 1 }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not part of this order');
+    });
+  });
+
+  describe('status transitions', () => {
+    it('should let the customer cancel a pending return', async () => {
+      givenReturn();
+
+      const result = await service.cancelReturn('return-1', 'customer-1');
+
+      expect(result.success).toBe(true);
+      expect(mockReturnRepository.update).toHaveBeenCalledWith('return-1', { status: 'cancelled' });
+    });
+
+    it('should not let another customer cancel the return', async () => {
+      givenReturn();
+
+      const result = await service.cancelReturn('return-1', 'customer-2');
+
+      expect(result.success).toBe(false);
+      expect(mockReturnRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to approve a return that is not pending', async () => {
+      givenReturn({ status: 'refunded' });
+
+      const result = await service.approveReturn('return-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Cannot change return from refunded to approved');
+    });
+
+    it('should restock only unopened items when a return is received', async () => {
+      givenReturn({
+        status: 'approved',
+        items: [
+          { productId: 'oil-1', quantity: 2, condition: 'unopened' },
+          { productId: 'diffuser-1', quantity: 1, condition: 'opened' },
+        ],
+      });
+
+      const result = await service.markReceived('return-1', 'RET123');
+
+      expect(result.success).toBe(true);
+      expect(mockInventoryService.updateStock).toHaveBeenCalledTimes(1);
+      expect(mockInventoryService.updateStock).toHaveBeenCalledWith('oil-1', 2);
+    });
+  });
+
+  describe('refundReturn', () => {
+    it('should refund through the payment provider and update the order', async () => {
+      givenReturn({ status: 'received' });
+      mockReturnRepository.findByOrderId.mockResolvedValue({
+        success: true,
+        data: [{ ...baseReturn, status: 'refunded' }],
+      });
+
+      const result = await service.refundReturn('return-1');
+
+      expect(result.success).toBe(true);
+      expect(mockProviderFactory.getProvider).toHaveBeenCalledWith('stripe');
+      expect(mockProvider.refundPayment).toHaveBeenCalledWith('pi_123', 125);
+      expect(mockReturnRepository.update).toHaveBeenCalledWith('return-1', expect.objectContaining({
+        status: 'refunded',
+        refundMethod: 'stripe',
+      }));
+      expect(mockPaymentEventRepository.recordEvent).toHaveBeenCalledWith(expect.objectContaining({
+        externalId: 'return-return-1',
+        amount: 125,
+      }));
+      expect(mockOrderRepository.update).toHaveBeenCalledWith('order-1', { paymentStatus: 'partially_refunded' });
+    });
+
+    it('should issue a credit note for the refunded items under the refund ID', async () => {
+      givenReturn({ status: 'received' });
+
+      await service.refundReturn('return-1');
+
+      // The same reference the charge.refunded webhook uses, so the refund is credited once
+      expect(mockInvoiceService.issueCreditNote).toHaveBeenCalledWith('order-1', {
+        reference: 'stripe-refund-re_1',
+        amount: 125,
+        items: [{ productId: 'oil-1', quantity: 1 }],
+      });
+    });
+
+    it('should credit refunds without a provider refund ID under the return', async () => {
+      givenReturn({ status: 'received' });
+      givenOrder({ paymentMethod: 'bank-transfer' });
+      mockProviderFactory.getProvider.mockReturnValue(null);
+
+      await service.refundReturn('return-1');
+
+      expect(mockInvoiceService.issueCreditNote).toHaveBeenCalledWith('order-1', expect.objectContaining({
+        reference: 'return-return-1',
+      }));
+    });
+
+    it('should not fail the refund when the credit note cannot be issued', async () => {
+      givenReturn({ status: 'received' });
+      mockInvoiceService.issueCreditNote.mockResolvedValue({ success: false, error: 'Database unavailable' });
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await service.refundReturn('return-1');
+
+      expect(result.success).toBe(true);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Failed to issue credit note for return return-1:',
+        'Database unavailable'
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should keep the return open when the provider refund fails', async () => {
+      givenReturn({ status: 'received' });
+      mockProvider.refundPayment.mockResolvedValue({ success: false, error: 'Charge already refunded' });
+
+      const result = await service.refundReturn('return-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Refund failed: Charge already refunded');
+      expect(mockReturnRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave the order payment status to the Swish refund callback', async () => {
+      givenReturn({ status: 'received' });
+      givenOrder({ paymentMethod: 'swish', paymentId: 'swish-1' });
+
+      const result = await service.refundReturn('return-1');
+
+      expect(result.success).toBe(true);
+      expect(mockProvider.refundPayment).toHaveBeenCalledWith('swish-1', 125);
+      expect(mockOrderRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark bank transfer refunds as manual', async () => {
+      givenReturn({ status: 'received' });
+      givenOrder({ paymentMethod: 'bank-transfer' });
+      mockProviderFactory.getProvider.mockReturnValue(null);
+
+      const result = await service.refundReturn('return-1');
+
+      expect(result.success).toBe(true);
+      expect(mockReturnRepository.update).toHaveBeenCalledWith('return-1', expect.objectContaining({
+        refundMethod: 'manual',
+      }));
+    });
+
+    it('should only refund received returns', async () => {
+      givenReturn({ status: 'approved' });
+
+      const result = await service.refundReturn('return-1');
+
+      expect(result.success).toBe(false);
+      expect(mockProvider.refundPayment).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import 'reflect-metadata';
+import { ReviewService } from '@/services/reviews/ReviewService';
+import type {
+  IReviewRepository,
+  IOrderRepository,
+  IProductRepository,
+  ICustomerRepository
+} from '@/interfaces';
+import type { Customer, Product, Review } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('ReviewService', () => {
+  let service: ReviewService;
+  let mockReviewRepository: jest.Mocked<IReviewRepository>;
+  let mockOrderRepository: jest.Mocked<IOrderRepository>;
+  let mockProductRepository: jest.Mocked<IProductRepository>;
+  let mockCustomerRepository: jest.Mocked<ICustomerRepository>;
+
+  const product = {
+    id: 'lavender',
+    name: 'Lavender Oil',
+    category: 'essential-oils',
+    averageRating: 4.5,
+    reviewCount: 2,
+  } as Product;
+
+  const customer = {
+    id: 'customer-1',
+    email: 'anna@example.se',
+    firstName: 'Anna',
+    lastName: 'svensson',
+  } as Customer;
+
+  const baseReview: Review = {
+    id: 'review-1',
+    productId: 'lavender',
+    customerId: 'customer-1',
+    authorName: 'Anna S.',
+    rating: 5,
+    title: 'Fantastisk kvalitet',
+    comment: 'Doften är ren och naturlig, inte kemisk.',
+    verified: true,
+    status: 'pending',
+    helpful: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const reviewData = {
+    productId: 'lavender',
+    rating: 5,
+    title: '  Fantastisk kvalitet ',
+    comment: ' Doften är ren och naturlig, inte kemisk.  ',
+  };
+
+  const givenReview = (overrides: Partial<Review> = {}) => {
+    mockReviewRepository.findById.mockResolvedValue({
+      success: true,
+      data: { ...baseReview, ...overrides },
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockReviewRepository = {
+      findById: jest.fn(),
+      findByProduct: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      findByStatus: jest.fn(),
+      findByProductAndCustomer: jest.fn().mockResolvedValue({ success: true, data: null }),
+      getRatingDistribution: jest.fn().mockResolvedValue({
+        success: true,
+        data: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 1 },
+      }),
+      create: jest.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, id: 'review-1', status: 'pending', helpful: 0, createdAt: new Date(), updatedAt: new Date() },
+      })),
+      updateStatus: jest.fn().mockImplementation(async (id, status, moderationNote) => ({
+        success: true,
+        data: { ...baseReview, id, status, moderationNote },
+      })),
+      addHelpfulVote: jest.fn().mockResolvedValue({ success: true, data: true }),
+    };
+
+    mockOrderRepository = {
+      hasDeliveredOrderWithProduct: jest.fn().mockResolvedValue({ success: true, data: true }),
+    } as any;
+
+    mockProductRepository = {
+      findById: jest.fn().mockResolvedValue({ success: true, data: product }),
+    } as any;
+
+    mockCustomerRepository = {
+      findById: jest.fn().mockResolvedValue({ success: true, data: customer }),
+    } as any;
+
+    service = new ReviewService(
+      mockReviewRepository,
+      mockOrderRepository,
+      mockProductRepository,
+      mockCustomerRepository
+    );
+  });
+
+  describe('getProductReviews', () => {
+    it('should return approved reviews with the cached rating', async () => {
+      mockReviewRepository.findByProduct.mockResolvedValue({
+        success: true,
+        data: [{ ...baseReview, status: 'approved' }],
+      });
+
+      const result = await service.getProductReviews('lavender', 10);
+
+      expect(mockReviewRepository.findByProduct).toHaveBeenCalledWith('lavender', 'approved', 10);
+      expect(result.success).toBe(true);
+      expect(result.data!.reviews).toHaveLength(1);
+      expect(result.data!.summary).toEqual({
+        averageRating: 4.5,
+        reviewCount: 2,
+        distribution: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 1 },
+      });
+    });
+
+    it('should fail for unknown products', async () => {
+      mockProductRepository.findById.mockResolvedValue({ success: false, error: 'Product not found' });
+
+      const result = await service.getProductReviews('missing');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Product not found');
+    });
+  });
+
+  describe('submitReview', () => {
+    it('should hold a verified review for moderation', async () => {
+      const result = await service.submitReview('customer-1', reviewData);
+
+      expect(result.success).toBe(true);
+      expect(mockOrderRepository.hasDeliveredOrderWithProduct).toHaveBeenCalledWith('customer-1', 'lavender');
+      expect(mockReviewRepository.create).toHaveBeenCalledWith({
+        productId: 'lavender',
+        customerId: 'customer-1',
+        authorName: 'Anna S.',
+        rating: 5,
+        title: 'Fantastisk kvalitet',
+        comment: 'Doften är ren och naturlig, inte kemisk.',
+        verified: true,
+      });
+      expect(result.data!.status).toBe('pending');
+    });
+
+    it('should not verify reviews without a delivered order for the product', async () => {
+      mockOrderRepository.hasDeliveredOrderWithProduct.mockResolvedValue({ success: true, data: false });
+
+      await service.submitReview('customer-1', reviewData);
+
+      expect(mockReviewRepository.create).toHaveBeenCalledWith(expect.objectContaining({ verified: false }));
+    });
+
+    it('should leave the review unverified when the purchase check fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockOrderRepository.hasDeliveredOrderWithProduct.mockResolvedValue({ success: false, error: 'Timeout' });
+
+      const result = await service.submitReview('customer-1', reviewData);
+
+      expect(result.success).toBe(true);
+      expect(mockReviewRepository.create).toHaveBeenCalledWith(expect.objectContaining({ verified: false }));
+      consoleSpy.mockRestore();
+    });
+
+    it('should reject a second review of the same product', async () => {
+      mockReviewRepository.findByProductAndCustomer.mockResolvedValue({ success: true, data: baseReview });
+
+      const result = await service.submitReview('customer-1', reviewData);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('You have already reviewed this product');
+      expect(mockReviewRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moderation', () => {
+    it('should publish a pending review', async () => {
+      givenReview();
+
+      const result = await service.approveReview('review-1');
+
+      expect(mockReviewRepository.updateStatus).toHaveBeenCalledWith('review-1', 'approved', undefined);
+      expect(result.data!.status).toBe('approved');
+    });
+
+    it('should reject a review with a note', async () => {
+      givenReview({ status: 'approved' });
+
+      const result = await service.rejectReview('review-1', 'Handlar om leveransen');
+
+      expect(mockReviewRepository.updateStatus).toHaveBeenCalledWith('review-1', 'rejected', 'Handlar om leveransen');
+      expect(result.success).toBe(true);
+    });
+
+    it('should not approve a review twice', async () => {
+      givenReview({ status: 'approved' });
+
+      const result = await service.approveReview('review-1');
+
+      expect(result.success).toBe(false);
+      expect(mockReviewRepository.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markHelpful', () => {
+    it('should count the vote and return the new total', async () => {
+      mockReviewRepository.findById
+        .mockResolvedValueOnce({ success: true, data: { ...baseReview, status: 'approved', helpful: 3 } })
+        .mockResolvedValueOnce({ success: true, data: { ...baseReview, status: 'approved', helpful: 4 } });
+
+      const result = await service.markHelpful('review-1', 'session:abc');
+
+      expect(mockReviewRepository.addHelpfulVote).toHaveBeenCalledWith('review-1', 'session:abc');
+      expect(result.data).toEqual({ helpful: 4 });
+    });
+
+    it('should only count one vote per voter', async () => {
+      givenReview({ status: 'approved' });
+      mockReviewRepository.addHelpfulVote.mockResolvedValue({ success: true, data: false });
+
+      const result = await service.markHelpful('review-1', 'customer:customer-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('You have already marked this review as helpful');
+    });
+
+    it('should not accept votes on unpublished reviews', async () => {
+      givenReview({ status: 'pending' });
+
+      const result = await service.markHelpful('review-1', 'session:abc');
+
+      expect(result.success).toBe(false);
+      expect(mockReviewRepository.addHelpfulVote).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import 'reflect-metadata';
+import { ShipmentService } from '@/services/shipping/ShipmentService';
+import type {
+  IShipmentRepository,
+  IOrderService,
+  IShippingService,
+  IKlarnaOrderManagementService
+} from '@/interfaces';
+import type { Order, OrderShipment } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('ShipmentService', () => {
+  let service: ShipmentService;
+  let mockShipmentRepository: jest.Mocked<IShipmentRepository>;
+  let mockOrderService: jest.Mocked<Pick<IOrderService, 'getOrder' | 'getOrderById' | 'updateOrderStatus'>>;
+  let mockShippingService: jest.Mocked<Pick<IShippingService, 'generateShippingLabel' | 'cancelShippingLabel'>>;
+  let mockKlarnaOrderManagement: jest.Mocked<Pick<IKlarnaOrderManagementService, 'captureOrder'>>;
+
+  const order: Order = {
+    id: 'order-1',
+    orderNumber: 'FE-2025-000001',
+    customerId: 'customer-1',
+    items: [
+      { productId: 'oil-1', productName: 'Lavender Oil', quantity: 2, price: 100, total: 200 },
+      { productId: 'diffuser-1', productName: 'Diffuser', quantity: 1, price: 400, total: 400 },
+    ],
+    total: 649,
+    tax: 130,
+    shipping: 49,
+    status: 'paid',
+    shippingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'SE' },
+    billingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'SE' },
+    paymentMethod: 'stripe',
+    paymentId: 'pi_123',
+    paymentStatus: 'paid',
+    carrier: 'POSTNORD',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const oilShipment: OrderShipment = {
+    id: 'shipment-1',
+    orderId: 'order-1',
+    status: 'pending',
+    items: [{ productId: 'oil-1', productName: 'Lavender Oil', quantity: 2 }],
+    carrier: 'POSTNORD',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const diffuserShipment: OrderShipment = {
+    ...oilShipment,
+    id: 'shipment-2',
+    items: [{ productId: 'diffuser-1', productName: 'Diffuser', quantity: 1 }],
+  };
+
+  const adminChange = { actor: 'admin:admin-1' };
+
+  const givenOrder = (overrides: Partial<Order> = {}) => {
+    const data = { ...order, ...overrides };
+    mockOrderService.getOrder.mockResolvedValue({ success: true, data });
+    mockOrderService.getOrderById.mockResolvedValue({ success: true, data });
+  };
+
+  const givenShipments = (shipments: OrderShipment[]) => {
+    mockShipmentRepository.findByOrderId.mockResolvedValue({ success: true, data: shipments });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockShipmentRepository = {
+      findById: jest.fn().mockResolvedValue({ success: true, data: oilShipment }),
+      findByOrderId: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      create: jest.fn().mockResolvedValue({ success: true, data: oilShipment }),
+      update: jest.fn().mockImplementation(async (id, data) => ({
+        success: true,
+        data: { ...oilShipment, ...data, id },
+      })),
+      findByTrackingNumber: jest.fn(),
+      findAwaitingTracking: jest.fn(),
+    };
+
+    mockOrderService = {
+      getOrder: jest.fn(),
+      getOrderById: jest.fn(),
+      updateOrderStatus: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    mockShippingService = {
+      generateShippingLabel: jest.fn().mockResolvedValue({
+        success: true,
+        data: {
+          id: 'label-1',
+          orderId: 'order-1',
+          shipmentId: 'shipment-1',
+          trackingNumber: 'PN123SE',
+          carrierCode: 'POSTNORD',
+          labelPdfUrl: '/shipping-labels/order-1-shipment-1.pdf',
+          barcodeData: 'barcode',
+          generatedAt: new Date(),
+        },
+      }),
+      cancelShippingLabel: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    mockKlarnaOrderManagement = {
+      captureOrder: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    givenOrder();
+
+    service = new ShipmentService(
+      mockShipmentRepository,
+      mockOrderService as unknown as IOrderService,
+      mockShippingService as unknown as IShippingService,
+      mockKlarnaOrderManagement as unknown as IKlarnaOrderManagementService
+    );
+  });
+
+  describe('createShipment', () => {
+    it('should send part of the order and start picking it', async () => {
+      const result = await service.createShipment('order-1', {
+        items: [{ productId: 'oil-1', quantity: 2 }],
+      }, adminChange);
+
+      expect(result.success).toBe(true);
+      expect(mockShipmentRepository.create).toHaveBeenCalledWith('order-1', [{ productId: 'oil-1', quantity: 2 }], 'POSTNORD');
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-1', 'picking', {
+        actor: 'admin:admin-1',
+        reason: 'Shipment created',
+      });
+    });
+
+    it('should not send more than is left of an item', async () => {
+      givenShipments([{ ...oilShipment, items: [{ productId: 'oil-1', productName: 'Lavender Oil', quantity: 1 }] }]);
+
+      const result = await service.createShipment('order-1', {
+        items: [{ productId: 'oil-1', quantity: 2 }],
+      }, adminChange);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Only 1 of Lavender Oil left to send');
+      expect(mockShipmentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should let items of a cancelled shipment be sent again', async () => {
+      givenShipments([{ ...oilShipment, status: 'cancelled' }]);
+
+      const result = await service.createShipment('order-1', {
+        items: [{ productId: 'oil-1', quantity: 2 }],
+      }, adminChange);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should refuse products that are not in the order', async () => {
+      const result = await service.createShipment('order-1', {
+        items: [{ productId: 'candle-1', quantity: 1 }],
+      }, adminChange);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Product candle-1 is not in the order');
+    });
+
+    it('should refuse orders that are not paid', async () => {
+      givenOrder({ status: 'pending' });
+
+      const result = await service.createShipment('order-1', {
+        items: [{ productId: 'oil-1', quantity: 1 }],
+      }, adminChange);
+
+      expect(result.success).toBe(false);
+      expect(mockShipmentRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateLabel', () => {
+    it('should print a label for the shipment and keep its tracking number', async () => {
+      const result = await service.generateLabel('shipment-1');
+
+      expect(result.success).toBe(true);
+      expect(mockShippingService.generateShippingLabel).toHaveBeenCalledWith(order, oilShipment);
+      expect(mockShipmentRepository.update).toHaveBeenCalledWith('shipment-1', {
+        carrier: 'POSTNORD',
+        trackingNumber: 'PN123SE',
+        labelUrl: '/shipping-labels/order-1-shipment-1.pdf',
+      });
+    });
+
+    it('should not print a second label', async () => {
+      mockShipmentRepository.findById.mockResolvedValue({
+        success: true,
+        data: { ...oilShipment, trackingNumber: 'PN123SE' },
+      });
+
+      const result = await service.generateLabel('shipment-1');
+
+      expect(result.success).toBe(false);
+      expect(mockShippingService.generateShippingLabel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateShipmentStatus', () => {
+    const labelled: OrderShipment = { ...oilShipment, trackingNumber: 'PN123SE' };
+
+    it('should require a label before shipping', async () => {
+      const result = await service.updateShipmentStatus('shipment-1', 'shipped', adminChange);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Print a label before the shipment is shipped');
+    });
+
+    it('should refuse transitions the state machine does not allow', async () => {
+      mockShipmentRepository.findById.mockResolvedValue({ success: true, data: { ...labelled, status: 'shipped' } });
+
+      const result = await service.updateShipmentStatus('shipment-1', 'cancelled', adminChange);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Shipment cannot change from shipped to cancelled');
+      expect(mockShipmentRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the carrier booking when a labelled shipment is cancelled', async () => {
+      mockShipmentRepository.findById.mockResolvedValue({ success: true, data: labelled });
+
+      const result = await service.updateShipmentStatus('shipment-1', 'cancelled', adminChange);
+
+      expect(result.success).toBe(true);
+      expect(mockShippingService.cancelShippingLabel).toHaveBeenCalledWith('POSTNORD', 'PN123SE');
+      expect(mockShipmentRepository.update).toHaveBeenCalledWith('shipment-1', expect.objectContaining({ status: 'cancelled' }));
+    });
+
+    it('should keep the shipment when the carrier refuses to cancel the booking', async () => {
+      mockShipmentRepository.findById.mockResolvedValue({ success: true, data: labelled });
+      mockShippingService.cancelShippingLabel.mockResolvedValue({ success: false, error: 'Parcel already collected' });
+
+      const result = await service.updateShipmentStatus('shipment-1', 'cancelled', adminChange);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Carrier booking could not be cancelled: Parcel already collected');
+      expect(mockShipmentRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark the order shipped when the first package leaves', async () => {
+      mockShipmentRepository.findById.mockResolvedValue({ success: true, data: labelled });
+      givenOrder({ status: 'picking' });
+      givenShipments([{ ...labelled, status: 'shipped' }, diffuserShipment]);
+
+      const result = await service.updateShipmentStatus('shipment-1', 'shipped', adminChange);
+
+      expect(result.success).toBe(true);
+      expect(mockShipmentRepository.update).toHaveBeenCalledWith('shipment-1', expect.objectContaining({
+        status: 'shipped',
+        shippedAt: expect.any(Date),
+      }));
+      // A picking order passes through packed on its way
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-1', 'packed', expect.anything());
+      expect(mockOrderService.updateOrderStatus).toHaveBeenLastCalledWith('order-1', 'shipped', {
+        actor: 'admin:admin-1',
+        reason: 'Shipment shipped',
+      });
+    });
+
+    it('should only deliver the order once every package is delivered', async () => {
+      mockShipmentRepository.findById.mockResolvedValue({ success: true, data: { ...labelled, status: 'in_transit' } });
+      givenOrder({ status: 'shipped' });
+      givenShipments([{ ...labelled, status: 'delivered' }, { ...diffuserShipment, status: 'in_transit' }]);
+
+      await service.updateShipmentStatus('shipment-1', 'delivered', adminChange);
+
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-1', 'in_transit', expect.anything());
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalledWith('order-1', 'delivered', expect.anything());
+    });
+
+    it('should capture the share of a Klarna payment for the package that left', async () => {
+      mockShipmentRepository.findById.mockResolvedValue({ success: true, data: labelled });
+      givenOrder({ status: 'picking', paymentMethod: 'klarna', paymentStatus: 'authorized' });
+      givenShipments([{ ...labelled, status: 'shipped' }, diffuserShipment]);
+      mockShipmentRepository.update.mockResolvedValue({ success: true, data: { ...labelled, status: 'shipped' } });
+
+      await service.updateShipmentStatus('shipment-1', 'shipped', adminChange);
+
+      // Oils are 200 of 600 in goods; the order paid 600 for goods and 49 for shipping
+      expect(mockKlarnaOrderManagement.captureOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-1' }),
+        { amount: 200, reference: 'shipment-1', carrier: 'POSTNORD', trackingNumber: 'PN123SE' }
+      );
+    });
+
+    it('should capture the rest of a Klarna payment with the last package', async () => {
+      mockShipmentRepository.findById.mockResolvedValue({ success: true, data: labelled });
+      givenOrder({ status: 'shipped', paymentMethod: 'klarna', paymentStatus: 'partially_captured' });
+      givenShipments([{ ...labelled, status: 'shipped' }, { ...diffuserShipment, status: 'delivered' }]);
+      mockShipmentRepository.update.mockResolvedValue({ success: true, data: { ...labelled, status: 'shipped' } });
+
+      await service.updateShipmentStatus('shipment-1', 'shipped', adminChange);
+
+      expect(mockKlarnaOrderManagement.captureOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-1' }),
+        expect.objectContaining({ amount: undefined, reference: 'shipment-1' })
+      );
+    });
+  });
+});
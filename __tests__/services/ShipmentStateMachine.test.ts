@@ -0,0 +1,98 @@
+import {
+  SHIPMENT_STATUSES,
+  canTransitionShipment,
+  deriveOrderStatus,
+  findShipmentTransitionPath,
+  getUnallocatedItems,
+} from '@/services/shipping/ShipmentStateMachine';
+import type { OrderItem, OrderShipment, ShipmentItem, ShipmentStatus } from '@/types';
+
+describe('ShipmentStateMachine', () => {
+  const items: OrderItem[] = [
+    { productId: 'oil-1', productName: 'Lavender Oil', quantity: 2, price: 100, total: 200 },
+    { productId: 'diffuser-1', productName: 'Diffuser', quantity: 1, price: 400, total: 400 },
+  ];
+
+  const oils: ShipmentItem[] = [{ productId: 'oil-1', productName: 'Lavender Oil', quantity: 2 }];
+  const diffuser: ShipmentItem[] = [{ productId: 'diffuser-1', productName: 'Diffuser', quantity: 1 }];
+
+  const shipment = (status: ShipmentStatus, shipmentItems: ShipmentItem[] = oils): OrderShipment => ({
+    id: `shipment-${Math.random()}`,
+    orderId: 'order-1',
+    status,
+    items: shipmentItems,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  describe('canTransitionShipment', () => {
+    it('should only cancel shipments still in the warehouse', () => {
+      expect(canTransitionShipment('pending', 'cancelled')).toBe(true);
+      expect(canTransitionShipment('packed', 'cancelled')).toBe(true);
+      expect(canTransitionShipment('shipped', 'cancelled')).toBe(false);
+    });
+
+    it('should not allow a status to transition to itself', () => {
+      SHIPMENT_STATUSES.forEach(status => {
+        expect(canTransitionShipment(status, status)).toBe(false);
+      });
+    });
+  });
+
+  describe('findShipmentTransitionPath', () => {
+    it('should pass through shipped for a parcel reported in transit from the warehouse', () => {
+      expect(findShipmentTransitionPath('packed', 'in_transit')).toEqual(['shipped', 'in_transit']);
+      expect(findShipmentTransitionPath('shipped', 'delivered')).toEqual(['delivered']);
+    });
+
+    it('should not move a shipment backwards', () => {
+      expect(findShipmentTransitionPath('delivered', 'in_transit')).toBeNull();
+      expect(findShipmentTransitionPath('cancelled', 'delivered')).toBeNull();
+    });
+  });
+
+  describe('getUnallocatedItems', () => {
+    it('should list what is not in a shipment yet', () => {
+      expect(getUnallocatedItems(items, [shipment('pending', [{ ...oils[0], quantity: 1 }])])).toEqual([
+        { productId: 'oil-1', productName: 'Lavender Oil', quantity: 1 },
+        { productId: 'diffuser-1', productName: 'Diffuser', quantity: 1 },
+      ]);
+    });
+
+    it('should give the items of cancelled shipments back', () => {
+      expect(getUnallocatedItems(items, [shipment('cancelled'), shipment('pending', diffuser)])).toEqual([
+        { productId: 'oil-1', productName: 'Lavender Oil', quantity: 2 },
+      ]);
+    });
+  });
+
+  describe('deriveOrderStatus', () => {
+    it('should leave orders without shipments alone', () => {
+      expect(deriveOrderStatus(items, [])).toBeNull();
+      expect(deriveOrderStatus(items, [shipment('cancelled')])).toBeNull();
+    });
+
+    it('should be picking while anything is still to be packed', () => {
+      expect(deriveOrderStatus(items, [shipment('pending')])).toBe('picking');
+      expect(deriveOrderStatus(items, [shipment('packed')])).toBe('picking');
+    });
+
+    it('should be packed once every item is packed', () => {
+      expect(deriveOrderStatus(items, [shipment('packed'), shipment('packed', diffuser)])).toBe('packed');
+    });
+
+    it('should be shipped as soon as the first package leaves', () => {
+      expect(deriveOrderStatus(items, [shipment('shipped')])).toBe('shipped');
+      expect(deriveOrderStatus(items, [shipment('delivered'), shipment('pending', diffuser)])).toBe('shipped');
+    });
+
+    it('should only be in transit or delivered once every package is', () => {
+      expect(deriveOrderStatus(items, [shipment('in_transit'), shipment('delivered', diffuser)])).toBe('in_transit');
+      expect(deriveOrderStatus(items, [shipment('delivered'), shipment('delivered', diffuser)])).toBe('delivered');
+    });
+
+    it('should not be delivered while items are left to send', () => {
+      expect(deriveOrderStatus(items, [shipment('delivered')])).toBe('shipped');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import 'reflect-metadata';
+import { ShippingService } from '@/services/shipping/ShippingService';
+import { CarrierRulesEngine } from '@/services/shipping/CarrierRulesEngine';
+import { SwedishHolidayCalendar } from '@/services/shipping/SwedishHolidayCalendar';
+import { BusinessDayCalculator } from '@/services/shipping/BusinessDayCalculator';
+import { PackingEngine } from '@/services/shipping/PackingEngine';
+import type { CarrierAdapterRegistry } from '@/services/shipping/CarrierAdapterRegistry';
+import type { ICarrierAdapter } from '@/services/shipping/ICarrierAdapter';
+import type { LabelGenerationService } from '@/services/shipping/LabelGenerationService';
+import type { IProductRepository, IShippingRepository } from '@/interfaces';
+import type { Order, Product } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('ShippingService - parcels for labels', () => {
+  let service: ShippingService;
+  let mockProductRepository: jest.Mocked<Pick<IProductRepository, 'findByIds'>>;
+  let mockAdapter: jest.Mocked<Pick<ICarrierAdapter, 'bookShipment'>>;
+
+  const product = (id: string, weight: number): Product => ({
+    id,
+    name: id,
+    description: '',
+    price: 100,
+    category: 'essential-oils',
+    images: [],
+    stock: 10,
+    sku: id.toUpperCase(),
+    weight,
+    dimensions: { length: 5, width: 5, height: 10 },
+    isActive: true,
+    translations: {
+      sv: { name: id, description: '' },
+      en: { name: id, description: '' },
+    },
+    dangerousGoods: { unNumber: 'UN1993', packingGroup: 'III', volumeMl: 10 },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const order = (productId: string, quantity: number): Order => ({
+    id: 'order-1',
+    orderNumber: 'FE-2026-000001',
+    customerId: 'cust-1',
+    // Order items carry no weight; the products do
+    items: [{ productId, productName: productId, quantity, price: 100, total: 100 * quantity }],
+    total: 100 * quantity,
+    tax: 20 * quantity,
+    shipping: 49,
+    status: 'paid',
+    shippingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'Sweden' },
+    billingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'Sweden' },
+    paymentMethod: 'card',
+    paymentId: 'pi_1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  beforeEach(() => {
+    mockProductRepository = {
+      findByIds: jest.fn(),
+    };
+    mockAdapter = {
+      bookShipment: jest.fn().mockResolvedValue({ success: false, error: 'Booking stopped by the test' }),
+    };
+    const adapterRegistry = { getAdapter: jest.fn().mockReturnValue(mockAdapter) };
+
+    const holidayCalendar = new SwedishHolidayCalendar();
+    service = new ShippingService(
+      {} as IShippingRepository,
+      mockProductRepository as unknown as IProductRepository,
+      new CarrierRulesEngine(),
+      {} as LabelGenerationService,
+      holidayCalendar,
+      new BusinessDayCalculator(holidayCalendar),
+      {} as never,
+      {} as never,
+      adapterRegistry as unknown as CarrierAdapterRegistry,
+      new PackingEngine()
+    );
+  });
+
+  describe('checkDangerousGoods', () => {
+    it('should weigh the parcel from the products, box included', async () => {
+      mockProductRepository.findByIds.mockResolvedValue({ success: true, data: [product('lavender', 0.1)] });
+
+      const result = await service.checkDangerousGoods(order('lavender', 3));
+
+      // Three 0.1 kg bottles in the 0.05 kg padded envelope
+      expect(result.data?.grossWeight).toBe(0.35);
+    });
+
+    it('should warn about heavy parcels by what the products weigh', async () => {
+      mockProductRepository.findByIds.mockResolvedValue({ success: true, data: [product('refill', 2.9)] });
+
+      const result = await service.checkDangerousGoods(order('refill', 11));
+
+      expect(result.data?.warnings).toEqual([
+        'Parcel weighs 31.90 kg, over the 30 kg limit for limited quantities; split it into several parcels',
+      ]);
+    });
+  });
+
+  describe('generateShippingLabel', () => {
+    it('should book the parcel at its chargeable weight', async () => {
+      // 0.3 kg on the scales, but it needs box L, which weighs 7.875 kg by volume
+      const pillow = { ...product('pillow', 0.3), dimensions: { length: 40, width: 30, height: 12 }, dangerousGoods: undefined };
+      mockProductRepository.findByIds.mockResolvedValue({ success: true, data: [pillow] });
+
+      await service.generateShippingLabel(order('pillow', 1));
+
+      expect(mockAdapter.bookShipment).toHaveBeenCalledWith(expect.objectContaining({
+        reference: 'order-1',
+        weight: 7.875,
+        limitedQuantity: false,
+      }));
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import 'reflect-metadata';
+import { ShippingService } from '@/services/shipping/ShippingService';
+import { CarrierRulesEngine } from '@/services/shipping/CarrierRulesEngine';
+import { SwedishHolidayCalendar } from '@/services/shipping/SwedishHolidayCalendar';
+import { BusinessDayCalculator } from '@/services/shipping/BusinessDayCalculator';
+import { PackingEngine } from '@/services/shipping/PackingEngine';
+import type { IProductRepository, IShippingRepository } from '@/interfaces';
+import type { CartItem, Product, ShippingRate } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('ShippingService - rates by chargeable weight', () => {
+  let service: ShippingService;
+  let mockShippingRepository: jest.Mocked<Pick<IShippingRepository, 'findRatesByCountry' | 'calculateShipping' | 'getFreeShippingThreshold'>>;
+  let mockProductRepository: jest.Mocked<Pick<IProductRepository, 'findByIds'>>;
+
+  // 0.3 kg on the scales, but it needs box L, which weighs 7.875 kg by volume
+  const pillow: Product = {
+    id: 'pillow',
+    name: 'Lavendelkudde',
+    description: '',
+    price: 249,
+    category: 'accessories',
+    images: [],
+    stock: 10,
+    sku: 'PILLOW',
+    weight: 0.3,
+    dimensions: { length: 40, width: 30, height: 12 },
+    isActive: true,
+    translations: {
+      sv: { name: 'Lavendelkudde', description: '' },
+      en: { name: 'Lavender pillow', description: '' },
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const rate = (id: string, minWeight: number, maxWeight: number, price: number): ShippingRate => ({
+    id,
+    name: id,
+    description: '',
+    price,
+    estimatedDays: 2,
+    country: 'Sweden',
+    minWeight,
+    maxWeight,
+  });
+
+  const items: CartItem[] = [{ productId: 'pillow', quantity: 1, price: 249 }];
+
+  beforeEach(() => {
+    mockShippingRepository = {
+      findRatesByCountry: jest.fn().mockResolvedValue({
+        success: true,
+        data: [rate('upto-5kg', 0, 5, 49), rate('upto-10kg', 5, 10, 89)],
+      }),
+      calculateShipping: jest.fn().mockResolvedValue({ success: true, data: rate('upto-10kg', 5, 10, 89) }),
+      getFreeShippingThreshold: jest.fn().mockResolvedValue({ success: true, data: null }),
+    };
+    mockProductRepository = {
+      findByIds: jest.fn().mockResolvedValue({ success: true, data: [pillow] }),
+    };
+
+    const holidayCalendar = new SwedishHolidayCalendar();
+    service = new ShippingService(
+      mockShippingRepository as unknown as IShippingRepository,
+      mockProductRepository as unknown as IProductRepository,
+      new CarrierRulesEngine(),
+      {} as never,
+      holidayCalendar,
+      new BusinessDayCalculator(holidayCalendar),
+      {} as never,
+      {} as never,
+      {} as never,
+      new PackingEngine()
+    );
+  });
+
+  it('should only offer rates for the weight band the bulky parcel is charged in', async () => {
+    const result = await service.getAllShippingOptions(items, 'Sweden');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.options.map(option => option.id)).toEqual(['upto-10kg']);
+  });
+
+  it('should look up the cheapest rate by the chargeable weight', async () => {
+    await service.calculateShipping(items, 'Sweden');
+
+    expect(mockShippingRepository.calculateShipping).toHaveBeenCalledWith(7.875, 'Sweden');
+  });
+});
@@ -0,0 +1,199 @@
+import 'reflect-metadata';
+import { StockNotificationService } from '@/services/inventory/StockNotificationService';
+import type { IEmailService, IProductRepository, IStockNotificationRepository } from '@/interfaces';
+import type { IWishlistRepository } from '@/repositories/wishlist/WishlistRepository';
+import type { Product, StockNotification } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('StockNotificationService', () => {
+  let service: StockNotificationService;
+  let mockNotificationRepository: jest.Mocked<IStockNotificationRepository>;
+  let mockProductRepository: jest.Mocked<IProductRepository>;
+  let mockWishlistRepository: jest.Mocked<IWishlistRepository>;
+  let mockEmailService: jest.Mocked<IEmailService>;
+
+  const product = {
+    id: 'oil-1',
+    name: 'Lavendelolja',
+    stock: 0,
+    isActive: true,
+    translations: {
+      sv: { name: 'Lavendelolja', description: '' },
+      en: { name: 'Lavender oil', description: '' },
+    },
+  } as unknown as Product;
+
+  const subscriber = (id: string, overrides: Partial<StockNotification> = {}): StockNotification => ({
+    id,
+    productId: 'oil-1',
+    email: `${id}@example.com`,
+    locale: 'sv',
+    source: 'product_page',
+    status: 'pending',
+    unsubscribeToken: `token-${id}`,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const givenProduct = (overrides: Partial<Product> = {}) => {
+    mockProductRepository.findById.mockResolvedValue({ success: true, data: { ...product, ...overrides } });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockNotificationRepository = {
+      subscribe: jest.fn().mockImplementation(async (subscription) => ({
+        success: true,
+        data: subscriber('sub-1', subscription),
+      })),
+      findPending: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      markNotified: jest.fn().mockResolvedValue({ success: true }),
+      unsubscribe: jest.fn(),
+      findDemand: jest.fn(),
+    };
+
+    mockProductRepository = {
+      findById: jest.fn(),
+    } as any;
+
+    mockWishlistRepository = {
+      findByCustomerId: jest.fn(),
+    } as any;
+
+    mockEmailService = {
+      sendBackInStock: jest.fn().mockResolvedValue({ success: true, data: { messageId: 'msg-1' } }),
+    } as any;
+
+    givenProduct();
+
+    service = new StockNotificationService(
+      mockNotificationRepository,
+      mockProductRepository,
+      mockWishlistRepository,
+      mockEmailService
+    );
+  });
+
+  describe('subscribe', () => {
+    it('should subscribe a normalised email address to an out-of-stock product', async () => {
+      const result = await service.subscribe({ productId: 'oil-1', email: ' Anna@Example.com ', locale: 'en' });
+
+      expect(result.success).toBe(true);
+      expect(mockNotificationRepository.subscribe).toHaveBeenCalledWith({
+        productId: 'oil-1',
+        email: 'anna@example.com',
+        locale: 'en',
+      });
+    });
+
+    it('should not subscribe to a product that is in stock', async () => {
+      givenProduct({ stock: 4 });
+
+      const result = await service.subscribe({ productId: 'oil-1', email: 'anna@example.com' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Product is in stock');
+      expect(mockNotificationRepository.subscribe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscribeWishlist', () => {
+    it('should subscribe to the out-of-stock products on the wishlist only', async () => {
+      mockWishlistRepository.findByCustomerId.mockResolvedValue({
+        success: true,
+        data: [
+          { id: 'w-1', customerId: 'customer-1', productId: 'oil-1', createdAt: new Date() },
+          { id: 'w-2', customerId: 'customer-1', productId: 'oil-2', createdAt: new Date() },
+        ],
+      });
+      mockProductRepository.findById.mockImplementation(async (id) => ({
+        success: true,
+        data: { ...product, id, stock: id === 'oil-1' ? 0 : 12 },
+      }));
+
+      const result = await service.subscribeWishlist('customer-1', 'anna@example.com', 'sv');
+
+      expect(result.data).toEqual({ subscribed: 1 });
+      expect(mockNotificationRepository.subscribe).toHaveBeenCalledWith({
+        productId: 'oil-1',
+        email: 'anna@example.com',
+        customerId: 'customer-1',
+        locale: 'sv',
+        source: 'wishlist',
+      });
+    });
+  });
+
+  describe('notifySubscribers', () => {
+    it('should email a batch sized to the stock that came back', async () => {
+      givenProduct({ stock: 2 });
+      mockNotificationRepository.findPending.mockResolvedValue({
+        success: true,
+        data: [subscriber('sub-1'), subscriber('sub-2', { locale: 'en' })],
+      });
+
+      const result = await service.notifySubscribers('oil-1');
+
+      expect(result.data).toEqual({ notified: 2 });
+      expect(mockNotificationRepository.findPending).toHaveBeenCalledWith('oil-1', 6);
+      expect(mockEmailService.sendBackInStock).toHaveBeenCalledWith(
+        'sub-2@example.com',
+        expect.objectContaining({
+          name: 'Lavender oil',
+          url: expect.stringMatching(/\/products\/oil-1$/),
+          unsubscribeUrl: expect.stringMatching(/\/notifications\/unsubscribe\?token=token-sub-2&locale=en$/),
+        }),
+        'en'
+      );
+      expect(mockNotificationRepository.markNotified).toHaveBeenCalledWith(['sub-1', 'sub-2']);
+    });
+
+    it('should leave subscribers whose email failed in the queue', async () => {
+      givenProduct({ stock: 5 });
+      mockNotificationRepository.findPending.mockResolvedValue({
+        success: true,
+        data: [subscriber('sub-1'), subscriber('sub-2')],
+      });
+      mockEmailService.sendBackInStock
+        .mockResolvedValueOnce({ success: false, error: 'Mailbox unavailable' })
+        .mockResolvedValueOnce({ success: true, data: { messageId: 'msg-2' } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await service.notifySubscribers('oil-1');
+
+      expect(result.data).toEqual({ notified: 1 });
+      expect(mockNotificationRepository.markNotified).toHaveBeenCalledWith(['sub-2']);
+    });
+
+    it('should not email anyone while the product is out of stock', async () => {
+      const result = await service.notifySubscribers('oil-1');
+
+      expect(result.data).toEqual({ notified: 0 });
+      expect(mockNotificationRepository.findPending).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processPendingNotifications', () => {
+    it('should send the next batch for products back in stock with subscribers waiting', async () => {
+      mockNotificationRepository.findDemand.mockResolvedValue({
+        success: true,
+        data: [
+          { productId: 'oil-1', productName: 'Lavendelolja', sku: 'LAV-10', stock: 30, pending: 80, notified: 50 },
+          { productId: 'oil-2', productName: 'Eukalyptusolja', sku: 'EUK-10', stock: 0, pending: 12, notified: 0 },
+        ],
+      });
+      givenProduct({ stock: 30 });
+      mockNotificationRepository.findPending.mockResolvedValue({ success: true, data: [subscriber('sub-1')] });
+
+      const result = await service.processPendingNotifications();
+
+      expect(result.data).toEqual({ notified: 1 });
+      expect(mockNotificationRepository.findPending).toHaveBeenCalledTimes(1);
+      expect(mockNotificationRepository.findPending).toHaveBeenCalledWith('oil-1', 50);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import 'reflect-metadata';
+import { SwedishHolidayCalendar } from '@/services/shipping/SwedishHolidayCalendar';
+
+describe('SwedishHolidayCalendar', () => {
+  let calendar: SwedishHolidayCalendar;
+
+  const holidayDate = (year: number, name: string) =>
+    calendar.getHolidays(year).find(holiday => holiday.name === name)?.date;
+
+  beforeEach(() => {
+    calendar = new SwedishHolidayCalendar();
+  });
+
+  describe('getHolidays', () => {
+    it.each([
+      [2025, '2025-04-18', '2025-04-21', '2025-05-29'],
+      [2026, '2026-04-03', '2026-04-06', '2026-05-14'],
+      [2027, '2027-03-26', '2027-03-29', '2027-05-06'],
+    ])('should place the Easter holidays of %i', (year, goodFriday, easterMonday, ascension) => {
+      expect(holidayDate(year, 'Långfredagen')).toBe(goodFriday);
+      expect(holidayDate(year, 'Annandag påsk')).toBe(easterMonday);
+      expect(holidayDate(year, 'Kristi himmelsfärdsdag')).toBe(ascension);
+    });
+
+    it.each([
+      [2025, '2025-06-20', '2025-06-21', '2025-11-01'],
+      [2026, '2026-06-19', '2026-06-20', '2026-10-31'],
+      [2027, '2027-06-25', '2027-06-26', '2027-11-06'],
+    ])('should place midsummer and All Saints\' Day of %i on their weekdays', (year, eve, day, allSaints) => {
+      expect(holidayDate(year, 'Midsommarafton')).toBe(eve);
+      expect(holidayDate(year, 'Midsommardagen')).toBe(day);
+      expect(holidayDate(year, 'Alla helgons dag')).toBe(allSaints);
+    });
+
+    it('should list the fixed holidays and eves in date order', () => {
+      const dates = calendar.getHolidays(2026).map(holiday => holiday.date);
+
+      expect(dates).toEqual(expect.arrayContaining([
+        '2026-01-01', '2026-01-06', '2026-05-01', '2026-06-06', '2026-12-24', '2026-12-25', '2026-12-26', '2026-12-31',
+      ]));
+      expect(dates).toEqual([...dates].sort());
+    });
+  });
+
+  describe('getHoliday', () => {
+    it('should look up the Swedish calendar day of an instant', () => {
+      // 23:30 UTC on 5 April is already Annandag påsk in Stockholm
+      expect(calendar.getHoliday(new Date('2026-04-05T23:30:00Z'))?.name).toBe('Annandag påsk');
+    });
+
+    it('should return undefined on an ordinary day', () => {
+      expect(calendar.getHoliday(new Date('2026-10-20T10:00:00Z'))).toBeUndefined();
+      expect(calendar.isHoliday(new Date('2026-10-20T10:00:00Z'))).toBe(false);
+    });
+  });
+});
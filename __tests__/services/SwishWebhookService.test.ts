@@ -0,0 +1,305 @@
+import 'reflect-metadata';
+import { SwishWebhookService } from '@/services/payment/SwishWebhookService';
+import type { SwishPaymentProvider, SwishPaymentStatus } from '@/services/payment/providers/SwishPaymentProvider';
+import type { IInvoiceService, IOrderService, IPaymentEventRepository } from '@/interfaces';
+import type { Order } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('SwishWebhookService', () => {
+  let service: SwishWebhookService;
+  let mockOrderService: jest.Mocked<Pick<IOrderService, 'getOrder' | 'getOrderByPaymentId' | 'updatePaymentStatus' | 'updateOrderStatus' | 'cancelOrder'>>;
+  let mockEventRepository: jest.Mocked<IPaymentEventRepository>;
+  let mockInvoiceService: jest.Mocked<Pick<IInvoiceService, 'issueCreditNote'>>;
+  let mockProvider: jest.Mocked<Pick<SwishPaymentProvider, 'hasApiAccess' | 'getPaymentStatus' | 'getRefundStatus'>> & {
+    merchantAlias: string;
+    isTestMode: boolean;
+  };
+
+  const pendingOrder: Order = {
+    id: 'order-1',
+    orderNumber: 'FE-2025-000001',
+    customerId: 'cust-1',
+    items: [],
+    total: 499,
+    tax: 99.8,
+    shipping: 49,
+    status: 'pending',
+    shippingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'SE' },
+    billingAddress: { street: 'Storgatan 1', city: 'Stockholm', postalCode: '11122', country: 'SE' },
+    paymentMethod: 'swish',
+    paymentId: 'SWISH-PAY-1',
+    paymentStatus: 'pending',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const paidCallback = {
+    id: 'SWISH-PAY-1',
+    payeePaymentReference: 'order-1',
+    payeeAlias: '1231181189',
+    payerAlias: '46701234567',
+    amount: 499,
+    currency: 'SEK',
+    status: 'PAID',
+    datePaid: '2026-01-10T10:00:00Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockOrderService = {
+      getOrder: jest.fn(),
+      getOrderByPaymentId: jest.fn().mockResolvedValue({ success: true, data: pendingOrder }),
+      updatePaymentStatus: jest.fn().mockResolvedValue({ success: true, data: pendingOrder }),
+      updateOrderStatus: jest.fn().mockResolvedValue({ success: true, data: pendingOrder }),
+      cancelOrder: jest.fn().mockResolvedValue({ success: true, data: pendingOrder }),
+    };
+
+    mockEventRepository = {
+      hasEvent: jest.fn().mockResolvedValue({ success: true, data: false }),
+      recordEvent: jest.fn().mockResolvedValue({ success: true }),
+      findByOrderId: jest.fn().mockResolvedValue({ success: true, data: [] }),
+    };
+
+    mockProvider = {
+      hasApiAccess: jest.fn().mockReturnValue(true),
+      getPaymentStatus: jest.fn().mockResolvedValue({
+        success: true,
+        data: { id: 'SWISH-PAY-1', status: 'PAID', amount: '499.00' },
+      }),
+      getRefundStatus: jest.fn(),
+      merchantAlias: '1231181189',
+      isTestMode: false,
+    };
+
+    mockInvoiceService = {
+      issueCreditNote: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    service = new SwishWebhookService(
+      mockOrderService as unknown as IOrderService,
+      mockEventRepository,
+      mockProvider as unknown as SwishPaymentProvider,
+      mockInvoiceService as unknown as IInvoiceService
+    );
+  });
+
+  describe('handlePaymentCallback', () => {
+    it('should confirm a pending order when the payment is PAID', async () => {
+      const result = await service.handlePaymentCallback(paidCallback);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.action).toBe('confirmed');
+      expect(mockOrderService.updatePaymentStatus).toHaveBeenCalledWith('order-1', 'paid');
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-1', 'paid', {
+        actor: 'swish',
+        reason: 'Swish payment SWISH-PAY-1 paid',
+      });
+      expect(mockEventRepository.recordEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'swish', externalId: 'SWISH-PAY-1', status: 'PAID', orderId: 'order-1' })
+      );
+    });
+
+    it('should acknowledge a repeated callback without touching the order', async () => {
+      mockEventRepository.hasEvent.mockResolvedValue({ success: true, data: true });
+
+      const result = await service.handlePaymentCallback(paidCallback);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.action).toBe('duplicate');
+      expect(mockOrderService.updatePaymentStatus).not.toHaveBeenCalled();
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+      expect(mockEventRepository.recordEvent).not.toHaveBeenCalled();
+    });
+
+    it('should ignore PAID for an order that is already paid', async () => {
+      mockOrderService.getOrderByPaymentId.mockResolvedValue({
+        success: true,
+        data: { ...pendingOrder, status: 'paid', paymentStatus: 'paid' },
+      });
+
+      const result = await service.handlePaymentCallback(paidCallback);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.action).toBe('ignored');
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it.each<[SwishPaymentStatus['status'], string]>([
+      ['DECLINED', 'failed'],
+      ['ERROR', 'failed'],
+      ['CANCELLED', 'cancelled'],
+    ])('should cancel the order when the payment is %s', async (status, paymentStatus) => {
+      mockProvider.getPaymentStatus.mockResolvedValue({
+        success: true,
+        data: { id: 'SWISH-PAY-1', status, amount: '499.00' },
+      });
+
+      const result = await service.handlePaymentCallback({ ...paidCallback, status });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.action).toBe('cancelled');
+      expect(mockOrderService.updatePaymentStatus).toHaveBeenCalledWith('order-1', paymentStatus);
+      expect(mockOrderService.cancelOrder).toHaveBeenCalledWith('order-1', {
+        actor: 'swish',
+        reason: `Swish payment SWISH-PAY-1 ${status.toLowerCase()}`,
+      });
+    });
+
+    it('should not cancel a paid order on a late DECLINED callback', async () => {
+      mockOrderService.getOrderByPaymentId.mockResolvedValue({
+        success: true,
+        data: { ...pendingOrder, status: 'paid', paymentStatus: 'paid' },
+      });
+      mockProvider.getPaymentStatus.mockResolvedValue({
+        success: true,
+        data: { id: 'SWISH-PAY-1', status: 'DECLINED', amount: '499.00' },
+      });
+
+      const result = await service.handlePaymentCallback({ ...paidCallback, status: 'DECLINED' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.action).toBe('ignored');
+      expect(mockOrderService.cancelOrder).not.toHaveBeenCalled();
+    });
+
+    it('should reject a callback whose status does not match the Swish API', async () => {
+      mockProvider.getPaymentStatus.mockResolvedValue({
+        success: true,
+        data: { id: 'SWISH-PAY-1', status: 'CREATED', amount: '499.00' },
+      });
+
+      const result = await service.handlePaymentCallback(paidCallback);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('status mismatch');
+      expect(mockOrderService.updatePaymentStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject a callback addressed to another merchant', async () => {
+      const result = await service.handlePaymentCallback({ ...paidCallback, payeeAlias: '9999999999' });
+
+      expect(result.success).toBe(false);
+      expect(mockProvider.getPaymentStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject a PAID amount that differs from the order total', async () => {
+      mockProvider.getPaymentStatus.mockResolvedValue({
+        success: true,
+        data: { id: 'SWISH-PAY-1', status: 'PAID', amount: '1.00' },
+      });
+
+      const result = await service.handlePaymentCallback({ ...paidCallback, amount: 1 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('does not match order total');
+    });
+
+    it('should reject malformed payloads', async () => {
+      const result = await service.handlePaymentCallback({ id: 'x', status: 'UNKNOWN' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid Swish payment callback payload');
+    });
+
+    it('should fall back to the merchant reference when no order has the payment ID', async () => {
+      mockOrderService.getOrderByPaymentId.mockResolvedValue({ success: false, error: 'Order not found' });
+      mockOrderService.getOrder.mockResolvedValue({ success: true, data: pendingOrder });
+
+      const result = await service.handlePaymentCallback(paidCallback);
+
+      expect(result.success).toBe(true);
+      expect(mockOrderService.getOrder).toHaveBeenCalledWith('order-1');
+    });
+
+    it('should refuse unverifiable callbacks outside test mode', async () => {
+      mockProvider.hasApiAccess.mockReturnValue(false);
+
+      const result = await service.handlePaymentCallback(paidCallback);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cannot verify');
+    });
+  });
+
+  describe('handleRefundCallback', () => {
+    const refundCallback = {
+      id: 'SWISH-REFUND-1',
+      originalPaymentReference: 'SWISH-PAY-1',
+      payerAlias: '1231181189',
+      amount: 200,
+      currency: 'SEK',
+      status: 'PAID',
+    };
+
+    beforeEach(() => {
+      mockOrderService.getOrderByPaymentId.mockResolvedValue({
+        success: true,
+        data: { ...pendingOrder, status: 'delivered', paymentStatus: 'paid' },
+      });
+      mockProvider.getRefundStatus.mockResolvedValue({
+        success: true,
+        data: { id: 'SWISH-REFUND-1', status: 'PAID', amount: '200.00' },
+      });
+    });
+
+    it('should mark a partial refund', async () => {
+      const result = await service.handleRefundCallback(refundCallback);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.paymentStatus).toBe('partially_refunded');
+      expect(mockOrderService.updatePaymentStatus).toHaveBeenCalledWith('order-1', 'partially_refunded');
+    });
+
+    it('should credit the refund on the invoice under the refund ID', async () => {
+      await service.handleRefundCallback(refundCallback);
+
+      expect(mockInvoiceService.issueCreditNote).toHaveBeenCalledWith('order-1', {
+        reference: 'swish-refund-SWISH-REFUND-1',
+        amount: 200,
+        items: [],
+      });
+    });
+
+    it('should leave the callback unrecorded when the credit note fails, so a retry issues it', async () => {
+      mockInvoiceService.issueCreditNote.mockResolvedValue({ success: false, error: 'Database unavailable' });
+
+      const result = await service.handleRefundCallback(refundCallback);
+
+      expect(result.success).toBe(false);
+      expect(mockEventRepository.recordEvent).not.toHaveBeenCalled();
+    });
+
+    it('should mark the order refunded once refunds cover the total', async () => {
+      mockEventRepository.findByOrderId.mockResolvedValue({
+        success: true,
+        data: [{
+          id: 'evt-1',
+          provider: 'swish',
+          eventType: 'refund',
+          externalId: 'SWISH-REFUND-0',
+          status: 'PAID',
+          amount: 299,
+          createdAt: new Date(),
+        }],
+      });
+
+      const result = await service.handleRefundCallback(refundCallback);
+
+      expect(result.success).toBe(true);
+      expect(mockOrderService.updatePaymentStatus).toHaveBeenCalledWith('order-1', 'refunded');
+    });
+
+    it('should acknowledge a repeated refund callback without counting it twice', async () => {
+      mockEventRepository.hasEvent.mockResolvedValue({ success: true, data: true });
+
+      const result = await service.handleRefundCallback(refundCallback);
+
+      expect(result.data?.action).toBe('duplicate');
+      expect(mockOrderService.updatePaymentStatus).not.toHaveBeenCalled();
+    });
+  });
+});
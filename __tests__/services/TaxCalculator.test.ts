@@ -0,0 +1,139 @@
+import 'reflect-metadata';
+import { TaxCalculator } from '@/services/tax/TaxCalculator';
+import { config } from '@/config';
+
+jest.mock('@/config/payment.config', () => ({
+  ...jest.requireActual('@/config/payment.config'),
+  CATEGORY_TAX_RATES: { SE: { 'gift-sets': 0.12 } },
+}));
+
+describe('TaxCalculator', () => {
+  let calculator: TaxCalculator;
+
+  beforeEach(() => {
+    calculator = new TaxCalculator();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getScheme', () => {
+    it('should treat Swedish addresses as domestic', () => {
+      expect(calculator.getScheme('SE')).toBe('domestic');
+      expect(calculator.getScheme('Sweden')).toBe('domestic');
+      expect(calculator.getScheme('Sverige')).toBe('domestic');
+    });
+
+    it('should use OSS for other EU countries', () => {
+      expect(calculator.getScheme('Finland')).toBe('oss');
+      expect(calculator.getScheme('de')).toBe('oss');
+    });
+
+    it('should charge Swedish VAT to EU customers below the OSS threshold', () => {
+      jest.replaceProperty(config.tax, 'ossEnabled', false);
+
+      expect(calculator.getScheme('FI')).toBe('domestic');
+      expect(calculator.getTaxRate('FI')).toBe(0.25);
+    });
+
+    it('should treat countries outside the EU as exports', () => {
+      expect(calculator.getScheme('Norway')).toBe('export');
+      expect(calculator.getTaxRate('NO')).toBe(0);
+    });
+  });
+
+  describe('getTaxRate', () => {
+    it('should use the destination rate for OSS sales', () => {
+      expect(calculator.getTaxRate('FI')).toBe(0.255);
+      expect(calculator.getTaxRate('DE')).toBe(0.19);
+    });
+
+    it('should apply category overrides', () => {
+      expect(calculator.getTaxRate('SE', 'gift-sets')).toBe(0.12);
+      expect(calculator.getTaxRate('SE', 'essential-oils')).toBe(0.25);
+    });
+  });
+
+  describe('getChargedPrice', () => {
+    it('should charge the shelf price within the EU', () => {
+      expect(calculator.getChargedPrice(249, 'SE')).toBe(249);
+      expect(calculator.getChargedPrice(249, 'DE')).toBe(249);
+    });
+
+    it('should remove Swedish VAT from exports', () => {
+      expect(calculator.getChargedPrice(249, 'NO')).toBe(199.2);
+      expect(calculator.getChargedPrice(224, 'NO', 'gift-sets')).toBe(200);
+    });
+  });
+
+  describe('calculate', () => {
+    it('should work out the VAT included in the total', () => {
+      const result = calculator.calculate({
+        country: 'SE',
+        lines: [{ amount: 200 }],
+        shipping: 50,
+      });
+
+      expect(result).toEqual({
+        country: 'SE',
+        scheme: 'domestic',
+        breakdown: [{ rate: 0.25, net: 200, vat: 50, gross: 250 }],
+        net: 200,
+        vat: 50,
+        total: 250,
+      });
+    });
+
+    it('should split shipping and discounts over the rates in the order', () => {
+      const result = calculator.calculate({
+        country: 'SE',
+        lines: [
+          { amount: 300, category: 'essential-oils' },
+          { amount: 100, category: 'gift-sets' },
+        ],
+        shipping: 40,
+        discount: 40,
+      });
+
+      expect(result.total).toBe(400);
+      expect(result.breakdown).toEqual([
+        { rate: 0.25, net: 240, vat: 60, gross: 300 },
+        { rate: 0.12, net: 89.29, vat: 10.71, gross: 100 },
+      ]);
+      expect(result.vat).toBe(70.71);
+    });
+
+    it('should keep the breakdown adding up to the total after rounding', () => {
+      const result = calculator.calculate({
+        country: 'SE',
+        lines: [
+          { amount: 33.33, category: 'essential-oils' },
+          { amount: 33.33, category: 'gift-sets' },
+        ],
+        shipping: 10.01,
+      });
+
+      const gross = result.breakdown.reduce((sum, line) => sum + line.gross, 0);
+      expect(gross).toBeCloseTo(result.total, 2);
+    });
+
+    it('should tax shipping at the standard rate when there are no goods', () => {
+      const result = calculator.calculate({ country: 'FI', lines: [], shipping: 50 });
+
+      expect(result.breakdown).toEqual([{ rate: 0.255, net: 39.84, vat: 10.16, gross: 50 }]);
+    });
+
+    it('should zero-rate exports', () => {
+      const result = calculator.calculate({
+        country: 'Norway',
+        lines: [{ amount: 199.2 }],
+        shipping: 40,
+      });
+
+      expect(result.scheme).toBe('export');
+      expect(result.vat).toBe(0);
+      expect(result.breakdown).toEqual([{ rate: 0, net: 239.2, vat: 0, gross: 239.2 }]);
+    });
+  });
+});
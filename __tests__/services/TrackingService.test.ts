@@ -0,0 +1,243 @@
+import 'reflect-metadata';
+import { TrackingService } from '@/services/shipping/TrackingService';
+import { CarrierAdapterRegistry } from '@/services/shipping/CarrierAdapterRegistry';
+import { PostNordCarrierAdapter } from '@/services/shipping/carriers/PostNordCarrierAdapter';
+import type {
+  ITrackingEventRepository,
+  IShipmentRepository,
+  IShipmentService,
+  IOrderService,
+  ICustomerRepository
+} from '@/interfaces';
+import type { IEmailService } from '@/interfaces/email';
+import type { CarrierTrackingEvent, Order, OrderShipment, ShipmentTrackingEvent } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: null,
+}));
+
+describe('TrackingService', () => {
+  let service: TrackingService;
+  let mockTrackingEventRepository: jest.Mocked<ITrackingEventRepository>;
+  let mockShipmentRepository: jest.Mocked<Pick<IShipmentRepository, 'findByTrackingNumber' | 'findAwaitingTracking' | 'update'>>;
+  let mockShipmentService: jest.Mocked<Pick<IShipmentService, 'updateShipmentStatus'>>;
+  let mockOrderService: jest.Mocked<Pick<IOrderService, 'getOrderById'>>;
+  let mockCustomerRepository: jest.Mocked<Pick<ICustomerRepository, 'findById'>>;
+  let mockEmailService: jest.Mocked<Pick<IEmailService, 'sendTrackingUpdate'>>;
+  let mockAdapterRegistry: jest.Mocked<Pick<CarrierAdapterRegistry, 'getTrackingAdapter'>>;
+
+  const shipment: OrderShipment = {
+    id: 'shipment-1',
+    orderId: 'order-1',
+    status: 'shipped',
+    items: [{ productId: 'oil-1', productName: 'Lavender Oil', quantity: 2 }],
+    carrier: 'POSTNORD',
+    trackingNumber: 'PN123SE',
+    shippedAt: new Date('2026-10-19T08:00:00Z'),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const order = {
+    id: 'order-1',
+    orderNumber: 'FE-2026-000042',
+    customerId: 'customer-1',
+  } as Order;
+
+  const push = (status: string, occurredAt: string) => ({
+    trackingNumber: 'PN123SE',
+    status,
+    description: `Event ${status}`,
+    occurredAt,
+  });
+
+  // The repository hands back whatever it is given as newly stored
+  const storesEverything = () => {
+    mockTrackingEventRepository.saveEvents.mockImplementation(async (saved, events) => ({
+      success: true,
+      data: events.map((event: CarrierTrackingEvent, index: number): ShipmentTrackingEvent => ({
+        ...event,
+        id: `event-${index}`,
+        shipmentId: saved.id,
+        orderId: saved.orderId,
+        createdAt: new Date(),
+      })),
+    }));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockTrackingEventRepository = {
+      saveEvents: jest.fn(),
+      findByOrderId: jest.fn(),
+      findByTrackingNumber: jest.fn(),
+    };
+    storesEverything();
+
+    mockShipmentRepository = {
+      findByTrackingNumber: jest.fn().mockResolvedValue({ success: true, data: shipment }),
+      findAwaitingTracking: jest.fn().mockResolvedValue({ success: true, data: [shipment] }),
+      update: jest.fn().mockResolvedValue({ success: true, data: shipment }),
+    };
+
+    mockShipmentService = {
+      updateShipmentStatus: jest.fn().mockResolvedValue({ success: true, data: shipment }),
+    };
+
+    mockOrderService = {
+      getOrderById: jest.fn().mockResolvedValue({ success: true, data: order }),
+    };
+
+    mockCustomerRepository = {
+      findById: jest.fn().mockResolvedValue({ success: true, data: { id: 'customer-1', email: 'anna@example.se' } }),
+    };
+
+    mockEmailService = {
+      sendTrackingUpdate: jest.fn().mockResolvedValue({ success: true, data: { messageId: 'msg-1' } }),
+    };
+
+    mockAdapterRegistry = {
+      getTrackingAdapter: jest.fn().mockReturnValue(new PostNordCarrierAdapter()),
+    };
+
+    service = new TrackingService(
+      mockTrackingEventRepository,
+      mockShipmentRepository as unknown as IShipmentRepository,
+      mockShipmentService as unknown as IShipmentService,
+      mockOrderService as unknown as IOrderService,
+      mockCustomerRepository as unknown as ICustomerRepository,
+      mockEmailService as unknown as IEmailService,
+      mockAdapterRegistry as unknown as CarrierAdapterRegistry
+    );
+  });
+
+  describe('ingestWebhook', () => {
+    it('should store pushed events and move the shipment along without emailing for a scan in transit', async () => {
+      const result = await service.ingestWebhook('POSTNORD', push('in_transit', '2026-10-19T12:00:00Z'));
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ received: 1, recorded: 1, skipped: 0 });
+      expect(mockShipmentService.updateShipmentStatus).toHaveBeenCalledWith(
+        'shipment-1',
+        'in_transit',
+        { actor: 'carrier:POSTNORD', reason: 'Event in_transit' }
+      );
+      expect(mockEmailService.sendTrackingUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should deliver the shipment and email the customer', async () => {
+      const result = await service.ingestWebhook('POSTNORD', {
+        events: [
+          push('in_transit', '2026-10-19T12:00:00Z'),
+          push('delivered', '2026-10-20T10:00:00Z'),
+        ],
+      });
+
+      expect(result.data?.recorded).toBe(2);
+      expect(mockShipmentService.updateShipmentStatus.mock.calls.map(call => call[1])).toEqual(['delivered']);
+      expect(mockEmailService.sendTrackingUpdate).toHaveBeenCalledWith('anna@example.se', expect.objectContaining({
+        orderNumber: 'FE-2026-000042',
+        status: 'delivered',
+        trackingNumber: 'PN123SE',
+        carrierName: 'PostNord',
+      }));
+    });
+
+    it('should email about a parcel out for delivery that is already in transit', async () => {
+      mockShipmentRepository.findByTrackingNumber.mockResolvedValue({
+        success: true,
+        data: { ...shipment, status: 'in_transit' },
+      });
+
+      await service.ingestWebhook('POSTNORD', push('out_for_delivery', '2026-10-20T07:00:00Z'));
+
+      expect(mockShipmentService.updateShipmentStatus).not.toHaveBeenCalled();
+      expect(mockEmailService.sendTrackingUpdate).toHaveBeenCalledWith(
+        'anna@example.se',
+        expect.objectContaining({ status: 'out_for_delivery' })
+      );
+    });
+
+    it('should do nothing more for events already stored', async () => {
+      mockTrackingEventRepository.saveEvents.mockResolvedValue({ success: true, data: [] });
+
+      const result = await service.ingestWebhook('POSTNORD', push('delivered', '2026-10-20T10:00:00Z'));
+
+      expect(result.data).toEqual({ received: 1, recorded: 0, skipped: 0 });
+      expect(mockShipmentService.updateShipmentStatus).not.toHaveBeenCalled();
+      expect(mockEmailService.sendTrackingUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not email about a late exception for a delivered parcel', async () => {
+      mockShipmentRepository.findByTrackingNumber.mockResolvedValue({
+        success: true,
+        data: { ...shipment, status: 'delivered' },
+      });
+
+      await service.ingestWebhook('POSTNORD', push('exception', '2026-10-20T11:00:00Z'));
+
+      expect(mockShipmentService.updateShipmentStatus).not.toHaveBeenCalled();
+      expect(mockEmailService.sendTrackingUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should skip tracking numbers that are not ours or belong to another carrier', async () => {
+      mockShipmentRepository.findByTrackingNumber
+        .mockResolvedValueOnce({ success: false, error: 'Shipment not found' })
+        .mockResolvedValueOnce({ success: true, data: { ...shipment, carrier: 'DHL' } });
+
+      const unknown = await service.ingestWebhook('POSTNORD', push('delivered', '2026-10-20T10:00:00Z'));
+      const otherCarrier = await service.ingestWebhook('POSTNORD', push('delivered', '2026-10-20T10:00:00Z'));
+
+      expect(unknown.data?.skipped).toBe(1);
+      expect(otherCarrier.data?.skipped).toBe(1);
+      expect(mockTrackingEventRepository.saveEvents).not.toHaveBeenCalled();
+    });
+
+    it('should reject payloads the adapter cannot read', async () => {
+      const result = await service.ingestWebhook('POSTNORD', { status: 'delivered' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Each event needs a trackingNumber and a known status');
+    });
+
+    it('should fail for carriers without a tracking adapter', async () => {
+      mockAdapterRegistry.getTrackingAdapter.mockReturnValue(null);
+
+      const result = await service.ingestWebhook('EARLY_BIRD', push('delivered', '2026-10-20T10:00:00Z'));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No tracking adapter for carrier EARLY_BIRD');
+    });
+  });
+
+  describe('pollShipments', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-10-20T14:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should record the events so far, deliver the shipment and mark it as polled', async () => {
+      const result = await service.pollShipments(10);
+
+      expect(mockShipmentRepository.findAwaitingTracking).toHaveBeenCalledWith(10);
+      expect(result.data).toEqual({ polled: 1, recorded: 4, failed: 0 });
+      expect(mockShipmentService.updateShipmentStatus.mock.calls.map(call => call[1])).toEqual(['delivered']);
+      expect(mockEmailService.sendTrackingUpdate).toHaveBeenCalledTimes(1);
+      expect(mockShipmentRepository.update).toHaveBeenCalledWith('shipment-1', { trackedAt: new Date('2026-10-20T14:00:00Z') });
+    });
+
+    it('should move shipments without an adapter to the back of the queue', async () => {
+      mockAdapterRegistry.getTrackingAdapter.mockReturnValue(null);
+
+      const result = await service.pollShipments(10);
+
+      expect(result.data).toEqual({ polled: 0, recorded: 0, failed: 0 });
+      expect(mockShipmentRepository.update).toHaveBeenCalledWith('shipment-1', expect.objectContaining({ trackedAt: expect.any(Date) }));
+    });
+  });
+});
@@ -0,0 +1,43 @@
+-- Migration: Payment status and payment provider events
+-- Tracks the payment state separately from the fulfilment state of an order,
+-- and records every provider callback so repeated webhooks can be ignored
+
+-- Payment status on orders
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS payment_status VARCHAR(30) NOT NULL DEFAULT 'pending'
+  CHECK (payment_status IN ('pending', 'paid', 'failed', 'cancelled', 'refunded', 'partially_refunded'));
+
+CREATE INDEX IF NOT EXISTS idx_orders_payment_id ON orders(payment_id);
+CREATE INDEX IF NOT EXISTS idx_orders_payment_status ON orders(payment_status);
+
+-- Payment events table (one row per processed provider callback)
+CREATE TABLE IF NOT EXISTS payment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider VARCHAR(30) NOT NULL,
+  event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('payment', 'refund')),
+  external_id VARCHAR(100) NOT NULL,
+  status VARCHAR(30) NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 2),
+  currency VARCHAR(3),
+  payload JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(provider, external_id, status)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_order_id ON payment_events(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_events_created_at ON payment_events(created_at);
+
+-- Enable RLS
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage payment events" ON payment_events;
+
+-- Only the backend writes and reads provider callbacks
+CREATE POLICY "Service role can manage payment events"
+  ON payment_events
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE payment_events IS 'Processed payment provider callbacks, used for webhook idempotency and refund records';
+COMMENT ON COLUMN orders.payment_status IS 'pending: awaiting payment, paid: captured/confirmed, failed/cancelled: payment did not complete, refunded/partially_refunded: money returned';
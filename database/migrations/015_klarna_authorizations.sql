@@ -0,0 +1,22 @@
+-- Migration: Klarna authorizations
+-- Klarna orders are authorized at checkout and only charged when they ship,
+-- so orders need statuses for the authorized and partly captured states
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE orders
+  ADD CONSTRAINT orders_payment_status_check
+  CHECK (payment_status IN (
+    'pending', 'authorized', 'partially_captured', 'paid',
+    'failed', 'cancelled', 'refunded', 'partially_refunded'
+  ));
+
+-- Captures and releases are recorded alongside provider callbacks
+ALTER TABLE payment_events DROP CONSTRAINT IF EXISTS payment_events_event_type_check;
+ALTER TABLE payment_events
+  ADD CONSTRAINT payment_events_event_type_check
+  CHECK (event_type IN ('payment', 'refund', 'capture', 'release'));
+
+-- Used by the expiry check to find open authorizations
+CREATE INDEX IF NOT EXISTS idx_orders_payment_method_status ON orders(payment_method, payment_status);
+
+COMMENT ON COLUMN orders.payment_status IS 'pending: awaiting payment, authorized/partially_captured: Klarna authorization not yet fully captured, paid: captured/confirmed, failed/cancelled: payment did not complete, refunded/partially_refunded: money returned';
@@ -0,0 +1,124 @@
+-- Migration: Discount codes
+-- Promotion codes (percentage, fixed amount, free shipping) and their redemptions
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) UNIQUE NOT NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('percentage', 'fixed_amount', 'free_shipping')),
+  value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  description TEXT,
+  min_order_value DECIMAL(10, 2),
+  eligible_categories TEXT[],
+  valid_from TIMESTAMP WITH TIME ZONE,
+  valid_until TIMESTAMP WITH TIME ZONE,
+  usage_limit INTEGER CHECK (usage_limit > 0),
+  usage_limit_per_customer INTEGER CHECK (usage_limit_per_customer > 0),
+  single_use BOOLEAN NOT NULL DEFAULT FALSE,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (type <> 'percentage' OR value <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_codes_active ON discount_codes(active);
+
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  discount_code_id UUID NOT NULL REFERENCES discount_codes(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  customer_id UUID,
+  amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(discount_code_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_code_customer ON discount_redemptions(discount_code_id, customer_id);
+
+-- Applied discount on orders
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_code VARCHAR(50);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_type VARCHAR(20);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_discount_codes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_discount_codes_updated_at ON discount_codes;
+
+CREATE TRIGGER update_discount_codes_updated_at
+BEFORE UPDATE ON discount_codes
+FOR EACH ROW
+EXECUTE FUNCTION update_discount_codes_updated_at();
+
+-- Redeems a code for an order. The code row is locked so concurrent checkouts
+-- cannot both take the last use of a limited or single-use code.
+CREATE OR REPLACE FUNCTION redeem_discount_code(
+  p_code_id UUID,
+  p_order_id UUID,
+  p_customer_id UUID,
+  p_amount DECIMAL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_code discount_codes%ROWTYPE;
+  v_customer_uses INTEGER;
+  v_redemption_id UUID;
+BEGIN
+  SELECT * INTO v_code FROM discount_codes WHERE id = p_code_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_code.active THEN
+    RAISE EXCEPTION 'DISCOUNT_INACTIVE';
+  END IF;
+
+  IF (v_code.single_use AND v_code.usage_count >= 1)
+     OR (v_code.usage_limit IS NOT NULL AND v_code.usage_count >= v_code.usage_limit) THEN
+    RAISE EXCEPTION 'DISCOUNT_USAGE_LIMIT';
+  END IF;
+
+  IF v_code.usage_limit_per_customer IS NOT NULL AND p_customer_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_customer_uses
+    FROM discount_redemptions
+    WHERE discount_code_id = p_code_id AND customer_id = p_customer_id;
+
+    IF v_customer_uses >= v_code.usage_limit_per_customer THEN
+      RAISE EXCEPTION 'DISCOUNT_CUSTOMER_LIMIT';
+    END IF;
+  END IF;
+
+  INSERT INTO discount_redemptions (discount_code_id, order_id, customer_id, amount)
+  VALUES (p_code_id, p_order_id, p_customer_id, p_amount)
+  RETURNING id INTO v_redemption_id;
+
+  UPDATE discount_codes SET usage_count = usage_count + 1 WHERE id = p_code_id;
+
+  RETURN v_redemption_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE discount_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discount_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage discount codes" ON discount_codes;
+DROP POLICY IF EXISTS "Service role can manage discount redemptions" ON discount_redemptions;
+
+-- Codes are validated server-side only, so customers cannot enumerate them
+CREATE POLICY "Service role can manage discount codes"
+  ON discount_codes
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage discount redemptions"
+  ON discount_redemptions
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE discount_codes IS 'Promotion codes: percentage or fixed amount off eligible items, or free shipping';
+COMMENT ON COLUMN discount_codes.value IS 'Percent (0-100) for percentage codes, SEK for fixed_amount codes, unused for free_shipping';
+COMMENT ON TABLE discount_redemptions IS 'One row per order that used a discount code';
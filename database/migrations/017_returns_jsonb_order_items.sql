@@ -0,0 +1,54 @@
+-- Migration: Returns against JSONB order items
+-- Orders keep their line items in orders.items (JSONB), so there is no
+-- order_items row for a return item to point at
+
+ALTER TABLE return_items ALTER COLUMN order_item_id DROP NOT NULL;
+
+-- Recreate the refund calculation on top of orders.items
+CREATE OR REPLACE FUNCTION calculate_return_refund(
+  p_return_id UUID,
+  p_include_shipping BOOLEAN DEFAULT FALSE
+)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_refund_amount DECIMAL(10, 2) := 0;
+  v_order_id UUID;
+  v_shipping_cost DECIMAL(10, 2);
+BEGIN
+  SELECT order_id INTO v_order_id FROM returns WHERE id = p_return_id;
+
+  SELECT COALESCE(SUM((item->>'price')::DECIMAL * ri.quantity), 0)
+  INTO v_refund_amount
+  FROM return_items ri
+  JOIN orders o ON o.id = v_order_id
+  CROSS JOIN LATERAL jsonb_array_elements(o.items) AS item
+  WHERE ri.return_id = p_return_id
+    AND (item->>'productId')::UUID = ri.product_id;
+
+  IF p_include_shipping THEN
+    SELECT shipping INTO v_shipping_cost FROM orders WHERE id = v_order_id;
+    v_refund_amount := v_refund_amount + COALESCE(v_shipping_cost, 0);
+  END IF;
+
+  RETURN v_refund_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE return_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage returns" ON returns;
+DROP POLICY IF EXISTS "Service role can manage return items" ON return_items;
+
+CREATE POLICY "Service role can manage returns"
+  ON returns
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage return items"
+  ON return_items
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON FUNCTION calculate_return_refund IS 'Net (ex. VAT) value of the returned items, optionally including the order shipping';
@@ -0,0 +1,19 @@
+-- Migration: GDPR anonymisation
+-- Erasure requests anonymise customers and their orders instead of deleting
+-- them, because Bokföringslagen requires accounting records to be kept for
+-- seven years. The retention purge deletes them once that period is over.
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS anonymised_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS anonymised_at TIMESTAMP WITH TIME ZONE;
+
+-- What an erasure kept and why
+ALTER TABLE gdpr_activity_log ADD COLUMN IF NOT EXISTS details JSONB;
+
+-- Used by the retention purge
+CREATE INDEX IF NOT EXISTS idx_customers_anonymised_at ON customers(anonymised_at) WHERE anonymised_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
+CREATE INDEX IF NOT EXISTS idx_contact_form_submissions_created_at ON contact_form_submissions(created_at);
+
+COMMENT ON COLUMN customers.anonymised_at IS 'Set when the customer was erased; the row is kept only while their orders must be retained';
+COMMENT ON COLUMN orders.anonymised_at IS 'Set when the personal data on the order was removed; financial fields are kept';
+COMMENT ON COLUMN gdpr_activity_log.details IS 'Structured details of the activity, e.g. the data retained on erasure';
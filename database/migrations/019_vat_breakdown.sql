@@ -0,0 +1,14 @@
+-- Migration: VAT breakdown on orders
+-- Orders can carry several VAT rates (reduced-rate categories, destination
+-- rates for EU One-Stop-Shop sales, zero-rated exports), so the VAT is stored
+-- per rate alongside the total in orders.tax
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS vat_scheme VARCHAR(20)
+  CHECK (vat_scheme IN ('domestic', 'oss', 'export'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS vat_breakdown JSONB;
+
+-- Used for the OSS return, which is filed per destination country
+CREATE INDEX IF NOT EXISTS idx_orders_vat_scheme ON orders(vat_scheme);
+
+COMMENT ON COLUMN orders.vat_scheme IS 'domestic: Swedish VAT, oss: destination-country VAT reported through OSS, export: zero-rated sale outside the EU';
+COMMENT ON COLUMN orders.vat_breakdown IS 'Array of { rate, net, vat, gross } in SEK, one entry per VAT rate on the order';
@@ -0,0 +1,92 @@
+-- Migration: Invoices and credit notes
+-- Invoices and credit notes share one gapless number series, as Swedish
+-- invoicing rules require. Each document stores a copy of the seller, buyer,
+-- lines and VAT so it reads the same however the order changes later.
+
+-- Single row holding the last number issued. Taking the row lock in the insert
+-- trigger serialises numbering, and a rolled back insert gives its number back.
+CREATE TABLE IF NOT EXISTS invoice_number_series (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  last_number BIGINT NOT NULL DEFAULT 0
+);
+
+INSERT INTO invoice_number_series (id, last_number) VALUES (TRUE, 0) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number BIGINT NOT NULL UNIQUE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('invoice', 'credit_note')),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  customer_id UUID,
+  credited_invoice_number BIGINT REFERENCES invoices(invoice_number),
+  reference VARCHAR(100),
+  seller JSONB NOT NULL,
+  buyer JSONB NOT NULL,
+  lines JSONB NOT NULL,
+  vat_scheme VARCHAR(20) NOT NULL CHECK (vat_scheme IN ('domestic', 'oss', 'export')),
+  vat_breakdown JSONB NOT NULL,
+  total DECIMAL(10, 2) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'SEK',
+  payment_method VARCHAR(50) NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT credit_note_refers_to_invoice CHECK (type = 'invoice' OR credited_invoice_number IS NOT NULL)
+);
+
+-- One invoice per order; a credit note is issued once per refund
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_order_invoice ON invoices(order_id) WHERE type = 'invoice';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_reference ON invoices(reference) WHERE reference IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_invoices_order_id ON invoices(order_id);
+
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE invoice_number_series
+  SET last_number = last_number + 1
+  WHERE id
+  RETURNING last_number INTO NEW.invoice_number;
+
+  NEW.issued_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoices_assign_number ON invoices;
+CREATE TRIGGER invoices_assign_number
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_invoice_number();
+
+-- Issued documents are corrected with a credit note, never edited
+CREATE OR REPLACE FUNCTION prevent_invoice_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Invoice % has been issued and cannot be changed', OLD.invoice_number;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoices_immutable ON invoices;
+CREATE TRIGGER invoices_immutable
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_invoice_update();
+
+-- Enable RLS
+ALTER TABLE invoice_number_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage invoice numbers" ON invoice_number_series;
+DROP POLICY IF EXISTS "Service role can manage invoices" ON invoices;
+
+CREATE POLICY "Service role can manage invoice numbers"
+  ON invoice_number_series
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage invoices"
+  ON invoices
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE invoices IS 'Issued invoices and credit notes; removed with the order once the retention period is over';
+COMMENT ON COLUMN invoices.reference IS 'What a credit note was issued for, e.g. return-<id>; makes issuing idempotent';
+COMMENT ON COLUMN invoices.lines IS 'Line items as printed, amounts VAT-inclusive and negative on credit notes';
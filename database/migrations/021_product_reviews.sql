@@ -0,0 +1,128 @@
+-- Migration: Product reviews
+-- Reviews are held for moderation before they are shown. The average rating
+-- and count of approved reviews are cached on the product so listings can show
+-- them without reading the reviews.
+
+CREATE TABLE IF NOT EXISTS reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  author_name VARCHAR(100) NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  title VARCHAR(100) NOT NULL,
+  comment TEXT NOT NULL,
+  verified BOOLEAN NOT NULL DEFAULT FALSE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  moderation_note TEXT,
+  helpful_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  -- One review per customer and product
+  UNIQUE (product_id, customer_id)
+);
+
+-- Who found a review helpful: a customer id, or the guest session id
+CREATE TABLE IF NOT EXISTS review_helpful_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  voter_key VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (review_id, voter_key)
+);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS average_rating DECIMAL(3, 2) NOT NULL DEFAULT 0;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_product_status ON reviews(product_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_status ON reviews(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_reviews_customer_id ON reviews(customer_id);
+
+CREATE OR REPLACE FUNCTION update_reviews_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_reviews_timestamp ON reviews;
+CREATE TRIGGER update_reviews_timestamp
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_reviews_updated_at();
+
+-- Recalculates the cached rating whenever a review is added, moderated or removed
+CREATE OR REPLACE FUNCTION refresh_product_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE products
+  SET
+    average_rating = COALESCE((
+      SELECT ROUND(AVG(rating), 2) FROM reviews
+      WHERE product_id = v_product_id AND status = 'approved'
+    ), 0),
+    review_count = (
+      SELECT COUNT(*) FROM reviews
+      WHERE product_id = v_product_id AND status = 'approved'
+    )
+  WHERE id = v_product_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reviews_refresh_product_rating ON reviews;
+CREATE TRIGGER reviews_refresh_product_rating
+  AFTER INSERT OR DELETE OR UPDATE OF status, rating ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_product_rating();
+
+-- Counting in a trigger keeps helpful_count right when votes arrive together
+CREATE OR REPLACE FUNCTION count_review_helpful_vote()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE reviews SET helpful_count = helpful_count + 1 WHERE id = NEW.review_id;
+  ELSE
+    UPDATE reviews SET helpful_count = GREATEST(helpful_count - 1, 0) WHERE id = OLD.review_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS review_helpful_votes_count ON review_helpful_votes;
+CREATE TRIGGER review_helpful_votes_count
+  AFTER INSERT OR DELETE ON review_helpful_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION count_review_helpful_vote();
+
+-- Enable RLS
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_helpful_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read approved reviews" ON reviews;
+DROP POLICY IF EXISTS "Service role can manage reviews" ON reviews;
+DROP POLICY IF EXISTS "Service role can manage helpful votes" ON review_helpful_votes;
+
+CREATE POLICY "Anyone can read approved reviews"
+  ON reviews
+  FOR SELECT
+  USING (status = 'approved');
+
+CREATE POLICY "Service role can manage reviews"
+  ON reviews
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage helpful votes"
+  ON review_helpful_votes
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON COLUMN reviews.verified IS 'Set when the review is written if the customer has a delivered order containing the product';
+COMMENT ON COLUMN reviews.author_name IS 'Shown with the review: first name and initial of the last name';
+COMMENT ON COLUMN products.average_rating IS 'Average of approved reviews, kept up to date by refresh_product_rating()';
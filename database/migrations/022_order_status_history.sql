@@ -0,0 +1,149 @@
+-- Migration: Order state machine and status history
+-- Orders move through payment, fulfilment and after-sales statuses. The
+-- allowed transitions are checked by the application; this migration adds the
+-- new statuses and a history table with one row per change, written in the
+-- same transaction as the change itself.
+
+-- 'confirmed' meant paid and 'processing' meant being picked, so existing
+-- orders keep their place in the flow
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumtypid = 'order_status'::regtype AND enumlabel = 'confirmed'
+  ) THEN
+    ALTER TYPE order_status RENAME VALUE 'confirmed' TO 'paid';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumtypid = 'order_status'::regtype AND enumlabel = 'processing'
+  ) THEN
+    ALTER TYPE order_status RENAME VALUE 'processing' TO 'picking';
+  END IF;
+END $$;
+
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'packed' AFTER 'picking';
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'in_transit' AFTER 'shipped';
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'returned' AFTER 'delivered';
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'refunded' AFTER 'returned';
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status order_status,
+  to_status order_status NOT NULL,
+  actor VARCHAR(100) NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history(order_id, created_at);
+
+-- Orders placed before the history existed start with their current status
+INSERT INTO order_status_history (order_id, from_status, to_status, actor, reason, created_at)
+SELECT o.id, NULL, o.status, 'system', 'Status before history was recorded', o.updated_at
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
+
+-- Records the status an order was placed with
+CREATE OR REPLACE FUNCTION record_initial_order_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO order_status_history (order_id, from_status, to_status, actor, reason)
+  VALUES (NEW.id, NULL, NEW.status, COALESCE('customer:' || NEW.customer_id, 'system'), 'Order placed');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS orders_record_initial_status ON orders;
+CREATE TRIGGER orders_record_initial_status
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_initial_order_status();
+
+-- Moves an order from the status the caller last read to a new one and records
+-- the change. Fails if the order has moved on in the meantime, so two
+-- concurrent changes cannot both apply.
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id UUID,
+  p_from_status order_status,
+  p_to_status order_status,
+  p_actor VARCHAR,
+  p_reason TEXT DEFAULT NULL,
+  p_tracking_number VARCHAR DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status <> p_from_status THEN
+    RAISE EXCEPTION 'ORDER_STATUS_CHANGED';
+  END IF;
+
+  UPDATE orders
+  SET status = p_to_status,
+      tracking_number = COALESCE(p_tracking_number, tracking_number)
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, actor, reason)
+  VALUES (p_order_id, p_from_status, p_to_status, p_actor, p_reason);
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Orders still with the carrier can be returned as well
+CREATE OR REPLACE FUNCTION is_order_eligible_for_return(
+  p_order_id UUID,
+  p_days_limit INTEGER DEFAULT 14
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_order_date TIMESTAMP;
+  v_order_status VARCHAR(50);
+  v_days_since_order INTEGER;
+BEGIN
+  SELECT created_at, status INTO v_order_date, v_order_status
+  FROM orders
+  WHERE id = p_order_id;
+
+  IF v_order_date IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  v_days_since_order := EXTRACT(DAY FROM NOW() - v_order_date);
+
+  IF v_order_status IN ('delivered', 'shipped', 'in_transit') AND v_days_since_order <= p_days_limit THEN
+    RETURN TRUE;
+  END IF;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own order status history" ON order_status_history;
+DROP POLICY IF EXISTS "Service role can manage order status history" ON order_status_history;
+
+CREATE POLICY "Users can view own order status history"
+  ON order_status_history
+  FOR SELECT
+  USING (order_id IN (SELECT id FROM orders WHERE customer_id = auth.uid()::uuid));
+
+CREATE POLICY "Service role can manage order status history"
+  ON order_status_history
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE order_status_history IS 'Every order status change, oldest first; written by transition_order_status';
+COMMENT ON COLUMN order_status_history.actor IS 'Who made the change: system, a payment provider, customer:<id> or admin:<id>';
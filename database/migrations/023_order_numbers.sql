@@ -0,0 +1,97 @@
+-- Migration: Human-readable order numbers
+-- Orders get a number such as FE-2026-000123 that customers can read out to
+-- support. Numbers run without gaps within each calendar year (Swedish time)
+-- and are assigned by the database when the order is inserted.
+
+-- Last number issued per year. The row lock taken by the upsert in the insert
+-- trigger serialises numbering, and a rolled back insert gives its number back.
+CREATE TABLE IF NOT EXISTS order_number_series (
+  year INTEGER PRIMARY KEY,
+  last_number BIGINT NOT NULL DEFAULT 0
+);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS order_number VARCHAR(20);
+
+CREATE OR REPLACE FUNCTION next_order_number(p_year INTEGER)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_number BIGINT;
+BEGIN
+  INSERT INTO order_number_series (year, last_number)
+  VALUES (p_year, 1)
+  ON CONFLICT (year) DO UPDATE
+  SET last_number = order_number_series.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  RETURN 'FE-' || p_year || '-' || LPAD(v_number::TEXT, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+-- Number existing orders in the order they were placed
+DO $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  FOR v_order IN
+    SELECT id, created_at FROM orders
+    WHERE order_number IS NULL
+    ORDER BY created_at, id
+  LOOP
+    UPDATE orders
+    SET order_number = next_order_number(
+      EXTRACT(YEAR FROM v_order.created_at AT TIME ZONE 'Europe/Stockholm')::INTEGER
+    )
+    WHERE id = v_order.id;
+  END LOOP;
+END $$;
+
+ALTER TABLE orders ALTER COLUMN order_number SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_order_number ON orders(order_number);
+
+CREATE OR REPLACE FUNCTION assign_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.order_number := next_order_number(
+    EXTRACT(YEAR FROM NOW() AT TIME ZONE 'Europe/Stockholm')::INTEGER
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS orders_assign_number ON orders;
+CREATE TRIGGER orders_assign_number
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_order_number();
+
+-- Order numbers are printed on invoices, labels and receipts and never change
+CREATE OR REPLACE FUNCTION prevent_order_number_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.order_number IS DISTINCT FROM OLD.order_number THEN
+    RAISE EXCEPTION 'Order number % cannot be changed', OLD.order_number;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS orders_order_number_immutable ON orders;
+CREATE TRIGGER orders_order_number_immutable
+  BEFORE UPDATE OF order_number ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_order_number_update();
+
+-- Invoices copy the number when issued; older ones only refer to the order id
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS order_number VARCHAR(20);
+
+-- Enable RLS
+ALTER TABLE order_number_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage order numbers" ON order_number_series;
+
+CREATE POLICY "Service role can manage order numbers"
+  ON order_number_series
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON COLUMN orders.order_number IS 'Customer-facing order number, FE-<year>-<sequence>; gapless within a year';
@@ -0,0 +1,184 @@
+-- Migration: Split shipments
+-- An order can go out in several shipments, e.g. the oils ahead of a
+-- backordered diffuser. Each shipment has its own items, label and tracking
+-- number, and the order status follows the shipments.
+
+CREATE TABLE IF NOT EXISTS shipments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'packed', 'shipped', 'in_transit', 'delivered', 'returned', 'cancelled')),
+  carrier VARCHAR(100),
+  tracking_number VARCHAR(100) UNIQUE,
+  label_url TEXT,
+  shipped_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Order items live in orders.items (JSONB), so allocations refer to the product
+CREATE TABLE IF NOT EXISTS shipment_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id UUID NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL,
+  product_name VARCHAR(255) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_order_id ON shipments(order_id);
+CREATE INDEX IF NOT EXISTS idx_shipments_status ON shipments(status);
+CREATE INDEX IF NOT EXISTS idx_shipment_items_shipment_id ON shipment_items(shipment_id);
+
+CREATE OR REPLACE FUNCTION update_shipments_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_shipments_timestamp ON shipments;
+CREATE TRIGGER update_shipments_timestamp
+  BEFORE UPDATE ON shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_shipments_updated_at();
+
+-- Labels belong to a shipment now, so an order can have one per shipment
+ALTER TABLE shipping_labels DROP CONSTRAINT IF EXISTS unique_order_label;
+ALTER TABLE shipping_labels ADD COLUMN IF NOT EXISTS shipment_id UUID REFERENCES shipments(id) ON DELETE SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipping_labels_shipment_id ON shipping_labels(shipment_id) WHERE shipment_id IS NOT NULL;
+
+-- Orders that already left the warehouse went out as one shipment with everything
+WITH created AS (
+  INSERT INTO shipments (order_id, status, carrier, tracking_number, label_url, shipped_at, delivered_at)
+  SELECT
+    o.id,
+    CASE
+      WHEN o.status IN ('returned', 'refunded') THEN 'returned'
+      ELSE o.status::TEXT
+    END,
+    o.carrier,
+    o.tracking_number,
+    o.shipping_label_url,
+    o.updated_at,
+    CASE WHEN o.status = 'delivered' THEN o.updated_at END
+  FROM orders o
+  WHERE o.status IN ('shipped', 'in_transit', 'delivered', 'returned', 'refunded')
+    AND o.tracking_number IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM shipments s WHERE s.order_id = o.id)
+  RETURNING id, order_id
+)
+INSERT INTO shipment_items (shipment_id, product_id, product_name, quantity)
+SELECT c.id, (item->>'productId')::UUID, item->>'productName', (item->>'quantity')::INTEGER
+FROM created c
+JOIN orders o ON o.id = c.order_id
+CROSS JOIN LATERAL jsonb_array_elements(o.items) AS item;
+
+UPDATE shipping_labels l
+SET shipment_id = s.id
+FROM shipments s
+WHERE l.shipment_id IS NULL
+  AND s.tracking_number = l.tracking_number;
+
+-- Creates a shipment for part of an order. The order row is locked while the
+-- allocations are checked, so two shipments cannot both take the last item.
+CREATE OR REPLACE FUNCTION create_shipment(
+  p_order_id UUID,
+  p_items JSONB,
+  p_carrier VARCHAR DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_request RECORD;
+  v_ordered INTEGER;
+  v_allocated INTEGER;
+  v_shipment_id UUID;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND';
+  END IF;
+
+  FOR v_request IN
+    SELECT r."productId" AS product_id, SUM(r.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(p_items) AS r("productId" UUID, quantity INTEGER)
+    GROUP BY r."productId"
+  LOOP
+    SELECT COALESCE(SUM((item->>'quantity')::INTEGER), 0) INTO v_ordered
+    FROM jsonb_array_elements(v_order.items) AS item
+    WHERE (item->>'productId')::UUID = v_request.product_id;
+
+    IF v_ordered = 0 THEN
+      RAISE EXCEPTION 'SHIPMENT_ITEM_NOT_IN_ORDER';
+    END IF;
+
+    SELECT COALESCE(SUM(si.quantity), 0) INTO v_allocated
+    FROM shipment_items si
+    JOIN shipments s ON s.id = si.shipment_id
+    WHERE s.order_id = p_order_id
+      AND s.status <> 'cancelled'
+      AND si.product_id = v_request.product_id;
+
+    IF v_allocated + v_request.quantity > v_ordered THEN
+      RAISE EXCEPTION 'SHIPMENT_QUANTITY_EXCEEDED';
+    END IF;
+  END LOOP;
+
+  INSERT INTO shipments (order_id, carrier)
+  VALUES (p_order_id, p_carrier)
+  RETURNING id INTO v_shipment_id;
+
+  INSERT INTO shipment_items (shipment_id, product_id, product_name, quantity)
+  SELECT
+    v_shipment_id,
+    r."productId",
+    COALESCE(
+      (SELECT item->>'productName'
+       FROM jsonb_array_elements(v_order.items) AS item
+       WHERE (item->>'productId')::UUID = r."productId"
+       LIMIT 1),
+      ''
+    ),
+    r.quantity
+  FROM jsonb_to_recordset(p_items) AS r("productId" UUID, quantity INTEGER);
+
+  RETURN v_shipment_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipment_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own shipments" ON shipments;
+DROP POLICY IF EXISTS "Service role can manage shipments" ON shipments;
+DROP POLICY IF EXISTS "Users can view own shipment items" ON shipment_items;
+DROP POLICY IF EXISTS "Service role can manage shipment items" ON shipment_items;
+
+CREATE POLICY "Users can view own shipments"
+  ON shipments
+  FOR SELECT
+  USING (order_id IN (SELECT id FROM orders WHERE customer_id = auth.uid()::uuid));
+
+CREATE POLICY "Service role can manage shipments"
+  ON shipments
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view own shipment items"
+  ON shipment_items
+  FOR SELECT
+  USING (shipment_id IN (
+    SELECT s.id FROM shipments s
+    JOIN orders o ON o.id = s.order_id
+    WHERE o.customer_id = auth.uid()::uuid
+  ));
+
+CREATE POLICY "Service role can manage shipment items"
+  ON shipment_items
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE shipments IS 'Parcels sent for an order; cancelled shipments give their items back to the order';
@@ -0,0 +1,147 @@
+-- Migration: Atomic stock reservations
+-- Stock is held from the moment checkout starts until the payment settles.
+-- Reserving checks stock minus the active holds of other checkouts with the
+-- product rows locked, so two parallel checkouts cannot both take the last
+-- bottle. A successful payment turns the hold into a stock decrement.
+
+-- A reservation has one row per product, all sharing the reservation id
+ALTER TABLE stock_reservations DROP CONSTRAINT IF EXISTS stock_reservations_reservation_id_key;
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_reservation_id ON stock_reservations(reservation_id);
+
+-- The reservation an order was placed against
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS reservation_id VARCHAR(100);
+CREATE INDEX IF NOT EXISTS idx_orders_reservation_id ON orders(reservation_id);
+
+-- Holds stock for a checkout. When the cart changes the new reservation
+-- replaces the old one, whose holds are not counted against it.
+CREATE OR REPLACE FUNCTION reserve_stock(
+  p_reservation_id VARCHAR,
+  p_items JSONB,
+  p_expires_at TIMESTAMP WITH TIME ZONE,
+  p_customer_id UUID DEFAULT NULL,
+  p_session_id VARCHAR DEFAULT NULL,
+  p_replaces VARCHAR DEFAULT NULL
+)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_request RECORD;
+  v_product RECORD;
+  v_reserved INTEGER;
+BEGIN
+  -- Lock in a fixed order so checkouts sharing products cannot deadlock
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'productId')::UUID FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_request IN
+    SELECT r."productId" AS product_id, SUM(r.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(p_items) AS r("productId" UUID, quantity INTEGER)
+    GROUP BY r."productId"
+  LOOP
+    SELECT stock, is_active INTO v_product FROM products WHERE id = v_request.product_id;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'PRODUCT_NOT_AVAILABLE: %', v_request.product_id;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_reserved
+    FROM stock_reservations
+    WHERE product_id = v_request.product_id
+      AND status = 'active'
+      AND expires_at > NOW()
+      AND reservation_id IS DISTINCT FROM p_replaces;
+
+    IF v_product.stock - v_reserved < v_request.quantity THEN
+      RAISE EXCEPTION 'INSUFFICIENT_STOCK: %', v_request.product_id;
+    END IF;
+  END LOOP;
+
+  IF p_replaces IS NOT NULL THEN
+    UPDATE stock_reservations
+    SET status = 'cancelled'
+    WHERE reservation_id = p_replaces
+      AND status = 'active';
+  END IF;
+
+  INSERT INTO stock_reservations (reservation_id, product_id, quantity, customer_id, session_id, status, expires_at)
+  SELECT p_reservation_id, r."productId", SUM(r.quantity)::INTEGER, p_customer_id, p_session_id, 'active', p_expires_at
+  FROM jsonb_to_recordset(p_items) AS r("productId" UUID, quantity INTEGER)
+  GROUP BY r."productId";
+
+  RETURN p_reservation_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keeps a reservation alive while the customer is paying. A reservation that
+-- has already lapsed cannot be extended; its stock may have gone to someone else.
+CREATE OR REPLACE FUNCTION extend_stock_reservation(
+  p_reservation_id VARCHAR,
+  p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+BEGIN
+  UPDATE stock_reservations
+  SET expires_at = GREATEST(expires_at, p_expires_at)
+  WHERE reservation_id = p_reservation_id
+    AND status = 'active'
+    AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESERVATION_NOT_ACTIVE';
+  END IF;
+
+  RETURN p_expires_at;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Takes the reserved stock once the order is paid. Payment notifications can
+-- arrive more than once, so completing a completed reservation does nothing.
+-- A payment that settles after its hold lapsed still takes the stock if it is there.
+CREATE OR REPLACE FUNCTION complete_stock_reservation(
+  p_reservation_id VARCHAR,
+  p_order_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_reservation RECORD;
+  v_found BOOLEAN := FALSE;
+BEGIN
+  FOR v_reservation IN
+    SELECT * FROM stock_reservations
+    WHERE reservation_id = p_reservation_id
+    ORDER BY product_id
+    FOR UPDATE
+  LOOP
+    v_found := TRUE;
+
+    IF v_reservation.status NOT IN ('active', 'expired') THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE products
+    SET stock = stock - v_reservation.quantity,
+        updated_at = NOW()
+    WHERE id = v_reservation.product_id
+      AND stock >= v_reservation.quantity;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'INSUFFICIENT_STOCK: %', v_reservation.product_id;
+    END IF;
+
+    INSERT INTO inventory_movements (product_id, quantity, type, reference_id, reason)
+    VALUES (v_reservation.product_id, -v_reservation.quantity, 'sale', p_order_id, 'Reservation ' || p_reservation_id);
+
+    UPDATE stock_reservations
+    SET status = 'completed'
+    WHERE id = v_reservation.id;
+  END LOOP;
+
+  IF NOT v_found THEN
+    RAISE EXCEPTION 'RESERVATION_NOT_FOUND';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN orders.reservation_id IS 'Stock reservation held for the order until its payment settles';
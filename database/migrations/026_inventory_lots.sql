@@ -0,0 +1,211 @@
+-- Migration: Inventory lots
+-- Essential oils arrive in batches with their own lot code and best-before
+-- date. Stock on the shelf is held per lot, shipments are picked first
+-- expiry first out (FEFO), and every lot that went into an order is recorded
+-- so a recalled batch can be traced to the customers who received it.
+-- products.stock stays the sellable total; lots are what is physically there.
+
+CREATE TABLE IF NOT EXISTS inventory_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  lot_code VARCHAR(100) NOT NULL,
+  supplier VARCHAR(255),
+  received_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  best_before DATE,
+  received_quantity INTEGER NOT NULL CHECK (received_quantity > 0),
+  quantity INTEGER NOT NULL CHECK (quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_product_lot UNIQUE (product_id, lot_code)
+);
+
+-- Which lots went into each order, per shipment
+CREATE TABLE IF NOT EXISTS order_item_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  shipment_id UUID NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL,
+  lot_id UUID NOT NULL REFERENCES inventory_lots(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_lots_product_id ON inventory_lots(product_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_lots_lot_code ON inventory_lots(lot_code);
+CREATE INDEX IF NOT EXISTS idx_inventory_lots_best_before ON inventory_lots(best_before) WHERE quantity > 0;
+CREATE INDEX IF NOT EXISTS idx_order_item_lots_order_id ON order_item_lots(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_item_lots_shipment_id ON order_item_lots(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_order_item_lots_lot_id ON order_item_lots(lot_id);
+
+-- Puts a delivery on the shelf. A second delivery of the same lot adds to it.
+CREATE OR REPLACE FUNCTION receive_inventory_lot(
+  p_product_id UUID,
+  p_lot_code VARCHAR,
+  p_quantity INTEGER,
+  p_supplier VARCHAR DEFAULT NULL,
+  p_received_at DATE DEFAULT CURRENT_DATE,
+  p_best_before DATE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_lot_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_product_id) THEN
+    RAISE EXCEPTION 'PRODUCT_NOT_FOUND';
+  END IF;
+
+  INSERT INTO inventory_lots (product_id, lot_code, supplier, received_at, best_before, received_quantity, quantity)
+  VALUES (p_product_id, p_lot_code, p_supplier, p_received_at, p_best_before, p_quantity, p_quantity)
+  ON CONFLICT (product_id, lot_code) DO UPDATE
+  SET received_quantity = inventory_lots.received_quantity + EXCLUDED.received_quantity,
+      quantity = inventory_lots.quantity + EXCLUDED.quantity
+  RETURNING id INTO v_lot_id;
+
+  UPDATE products
+  SET stock = stock + p_quantity,
+      updated_at = NOW()
+  WHERE id = p_product_id;
+
+  INSERT INTO inventory_movements (product_id, quantity, type, reference_id, reason)
+  VALUES (p_product_id, p_quantity, 'restock', v_lot_id, 'Lot ' || p_lot_code);
+
+  RETURN v_lot_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Picks a shipment item from the lots that expire first. Expired lots are not
+-- sent; products without lots are picked untracked.
+CREATE OR REPLACE FUNCTION allocate_shipment_item_lots()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order_id UUID;
+  v_lot RECORD;
+  v_remaining INTEGER := NEW.quantity;
+  v_take INTEGER;
+BEGIN
+  SELECT order_id INTO v_order_id FROM shipments WHERE id = NEW.shipment_id;
+
+  FOR v_lot IN
+    SELECT id, quantity
+    FROM inventory_lots
+    WHERE product_id = NEW.product_id
+      AND quantity > 0
+      AND (best_before IS NULL OR best_before >= CURRENT_DATE)
+    ORDER BY best_before ASC NULLS LAST, received_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining = 0;
+
+    v_take := LEAST(v_lot.quantity, v_remaining);
+
+    UPDATE inventory_lots SET quantity = quantity - v_take WHERE id = v_lot.id;
+
+    INSERT INTO order_item_lots (order_id, shipment_id, product_id, lot_id, quantity)
+    VALUES (v_order_id, NEW.shipment_id, NEW.product_id, v_lot.id, v_take);
+
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS shipment_items_allocate_lots ON shipment_items;
+CREATE TRIGGER shipment_items_allocate_lots
+  AFTER INSERT ON shipment_items
+  FOR EACH ROW
+  EXECUTE FUNCTION allocate_shipment_item_lots();
+
+-- A cancelled shipment was never sent, so its items go back to their lots
+CREATE OR REPLACE FUNCTION return_cancelled_shipment_lots()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE inventory_lots l
+  SET quantity = l.quantity + a.quantity
+  FROM (
+    SELECT lot_id, SUM(quantity)::INTEGER AS quantity
+    FROM order_item_lots
+    WHERE shipment_id = NEW.id
+    GROUP BY lot_id
+  ) a
+  WHERE l.id = a.lot_id;
+
+  DELETE FROM order_item_lots WHERE shipment_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS shipments_return_lots ON shipments;
+CREATE TRIGGER shipments_return_lots
+  AFTER UPDATE OF status ON shipments
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status <> 'cancelled')
+  EXECUTE FUNCTION return_cancelled_shipment_lots();
+
+-- Everyone who was sent something from a lot, for recalls. Guest orders have
+-- no customer record, so the name falls back to the shipping address.
+CREATE OR REPLACE FUNCTION find_lot_recipients(p_lot_code VARCHAR)
+RETURNS TABLE (
+  order_id UUID,
+  order_number TEXT,
+  customer_id UUID,
+  email TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  product_id UUID,
+  product_name TEXT,
+  lot_code TEXT,
+  quantity INTEGER,
+  shipment_status TEXT,
+  shipped_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    o.id,
+    o.order_number::TEXT,
+    o.customer_id,
+    c.email::TEXT,
+    COALESCE(c.first_name, o.shipping_address->>'firstName')::TEXT,
+    COALESCE(c.last_name, o.shipping_address->>'lastName')::TEXT,
+    l.product_id,
+    p.name::TEXT,
+    l.lot_code::TEXT,
+    SUM(oil.quantity)::INTEGER,
+    s.status::TEXT,
+    s.shipped_at
+  FROM order_item_lots oil
+  JOIN inventory_lots l ON l.id = oil.lot_id
+  JOIN orders o ON o.id = oil.order_id
+  JOIN shipments s ON s.id = oil.shipment_id
+  LEFT JOIN customers c ON c.id = o.customer_id
+  LEFT JOIN products p ON p.id = l.product_id
+  WHERE l.lot_code = p_lot_code
+  GROUP BY o.id, o.order_number, o.customer_id, c.email, c.first_name, c.last_name,
+    o.shipping_address, l.product_id, p.name, l.lot_code, s.id, s.status, s.shipped_at
+  ORDER BY s.shipped_at DESC NULLS LAST;
+$$ LANGUAGE sql STABLE;
+
+-- Enable RLS
+ALTER TABLE inventory_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_item_lots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage inventory lots" ON inventory_lots;
+DROP POLICY IF EXISTS "Users can view own order item lots" ON order_item_lots;
+DROP POLICY IF EXISTS "Service role can manage order item lots" ON order_item_lots;
+
+CREATE POLICY "Service role can manage inventory lots"
+  ON inventory_lots
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view own order item lots"
+  ON order_item_lots
+  FOR SELECT
+  USING (order_id IN (SELECT id FROM orders WHERE customer_id = auth.uid()::uuid));
+
+CREATE POLICY "Service role can manage order item lots"
+  ON order_item_lots
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE inventory_lots IS 'Stock on the shelf per delivered batch, picked first expired first out';
+COMMENT ON TABLE order_item_lots IS 'Lots each order was picked from, for tracing recalls';
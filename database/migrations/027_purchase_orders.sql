@@ -0,0 +1,309 @@
+-- Migration: Suppliers and purchase orders
+-- Products below their reorder level are ordered from their supplier on a
+-- purchase order. Deliveries are received against the order, possibly in
+-- several parts, and each receipt adds to stock as a 'restock' movement.
+-- Products carry a weighted average cost price, updated on every receipt,
+-- which order items snapshot when sold so margins can be reported.
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  contact_name VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  address JSONB,
+  lead_time_days INTEGER CHECK (lead_time_days >= 0),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS cost_price DECIMAL(10,2) CHECK (cost_price >= 0);
+
+-- How many to order when a product falls to its reorder level. Without it
+-- the order brings stock up to twice the reorder level.
+ALTER TABLE inventory ADD COLUMN IF NOT EXISTS reorder_quantity INTEGER CHECK (reorder_quantity > 0);
+
+-- Last number issued per year, as for order numbers
+CREATE TABLE IF NOT EXISTS purchase_order_number_series (
+  year INTEGER PRIMARY KEY,
+  last_number BIGINT NOT NULL DEFAULT 0
+);
+
+CREATE OR REPLACE FUNCTION next_purchase_order_number(p_year INTEGER)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_number BIGINT;
+BEGIN
+  INSERT INTO purchase_order_number_series (year, last_number)
+  VALUES (p_year, 1)
+  ON CONFLICT (year) DO UPDATE
+  SET last_number = purchase_order_number_series.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  RETURN 'PO-' || p_year || '-' || LPAD(v_number::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number VARCHAR(20) NOT NULL UNIQUE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id),
+  status VARCHAR(30) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  notes TEXT,
+  expected_at DATE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost DECIMAL(10,2) NOT NULL CHECK (unit_cost >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_purchase_order_product UNIQUE (purchase_order_id, product_id),
+  CONSTRAINT received_within_ordered CHECK (quantity_received <= quantity_ordered)
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_supplier_id ON products(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_purchase_order_id ON purchase_order_lines(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_product_id ON purchase_order_lines(product_id);
+
+CREATE OR REPLACE FUNCTION assign_purchase_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.po_number := next_purchase_order_number(
+    EXTRACT(YEAR FROM NOW() AT TIME ZONE 'Europe/Stockholm')::INTEGER
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS purchase_orders_assign_number ON purchase_orders;
+CREATE TRIGGER purchase_orders_assign_number
+  BEFORE INSERT ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_purchase_order_number();
+
+DROP TRIGGER IF EXISTS update_suppliers_updated_at ON suppliers;
+CREATE TRIGGER update_suppliers_updated_at
+  BEFORE UPDATE ON suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_purchase_orders_updated_at ON purchase_orders;
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Products at or below their reorder level that have a supplier, with what
+-- is already on its way from open purchase orders. Sellable stock is
+-- products.stock; inventory holds the reorder settings.
+CREATE OR REPLACE FUNCTION find_reorder_candidates()
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  supplier_id UUID,
+  stock INTEGER,
+  reorder_level INTEGER,
+  reorder_quantity INTEGER,
+  on_order INTEGER,
+  cost_price DECIMAL
+) AS $$
+  SELECT
+    p.id,
+    p.name::TEXT,
+    p.sku::TEXT,
+    p.supplier_id,
+    p.stock,
+    i.reorder_level,
+    i.reorder_quantity,
+    COALESCE((
+      SELECT SUM(l.quantity_ordered - l.quantity_received)
+      FROM purchase_order_lines l
+      JOIN purchase_orders po ON po.id = l.purchase_order_id
+      WHERE l.product_id = p.id
+        AND po.status IN ('draft', 'sent', 'partially_received')
+    ), 0)::INTEGER,
+    p.cost_price
+  FROM products p
+  JOIN inventory i ON i.product_id = p.id
+  WHERE p.is_active
+    AND p.supplier_id IS NOT NULL
+    AND p.stock <= i.reorder_level
+  ORDER BY p.name;
+$$ LANGUAGE sql STABLE;
+
+-- Creates a purchase order with its lines in one go
+CREATE OR REPLACE FUNCTION create_purchase_order(
+  p_supplier_id UUID,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_expected_at DATE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_purchase_order_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND is_active) THEN
+    RAISE EXCEPTION 'SUPPLIER_NOT_FOUND';
+  END IF;
+
+  IF jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'PURCHASE_ORDER_EMPTY';
+  END IF;
+
+  INSERT INTO purchase_orders (supplier_id, notes, expected_at)
+  VALUES (p_supplier_id, p_notes, p_expected_at)
+  RETURNING id INTO v_purchase_order_id;
+
+  INSERT INTO purchase_order_lines (purchase_order_id, product_id, quantity_ordered, unit_cost)
+  SELECT v_purchase_order_id, r."productId", SUM(r."quantityOrdered")::INTEGER, MAX(r."unitCost")
+  FROM jsonb_to_recordset(p_lines) AS r("productId" UUID, "quantityOrdered" INTEGER, "unitCost" DECIMAL)
+  GROUP BY r."productId";
+
+  RETURN v_purchase_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Receives a delivery against a sent purchase order. Each line adds to stock,
+-- into a lot when the delivery has a lot code, and moves the product's cost
+-- price towards the line's unit cost by weighted average. The order is
+-- received once every line is, and partially received until then.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id UUID,
+  p_lines JSONB
+)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_order RECORD;
+  v_receipt RECORD;
+  v_line RECORD;
+  v_status VARCHAR;
+BEGIN
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PURCHASE_ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'PURCHASE_ORDER_NOT_RECEIVABLE';
+  END IF;
+
+  FOR v_receipt IN
+    SELECT *
+    FROM jsonb_to_recordset(p_lines)
+      AS r("lineId" UUID, quantity INTEGER, "lotCode" VARCHAR, "bestBefore" DATE)
+  LOOP
+    IF v_receipt.quantity IS NULL OR v_receipt.quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = v_receipt."lineId"
+      AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'PURCHASE_ORDER_LINE_NOT_FOUND: %', v_receipt."lineId";
+    END IF;
+
+    IF v_line.quantity_received + v_receipt.quantity > v_line.quantity_ordered THEN
+      RAISE EXCEPTION 'RECEIPT_EXCEEDS_ORDERED: %', v_receipt."lineId";
+    END IF;
+
+    -- Cost before the stock goes up; stock sold below zero is not valued
+    UPDATE products
+    SET cost_price = ROUND(
+      (GREATEST(stock, 0) * COALESCE(cost_price, v_line.unit_cost) + v_receipt.quantity * v_line.unit_cost)
+        / (GREATEST(stock, 0) + v_receipt.quantity),
+      2
+    )
+    WHERE id = v_line.product_id;
+
+    IF v_receipt."lotCode" IS NOT NULL THEN
+      PERFORM receive_inventory_lot(
+        v_line.product_id,
+        v_receipt."lotCode",
+        v_receipt.quantity,
+        (SELECT name FROM suppliers WHERE id = v_order.supplier_id),
+        CURRENT_DATE,
+        v_receipt."bestBefore"
+      );
+    ELSE
+      UPDATE products
+      SET stock = stock + v_receipt.quantity,
+          updated_at = NOW()
+      WHERE id = v_line.product_id;
+
+      INSERT INTO inventory_movements (product_id, quantity, type, reference_id, reason)
+      VALUES (v_line.product_id, v_receipt.quantity, 'restock', p_purchase_order_id, 'Purchase order ' || v_order.po_number);
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_receipt.quantity
+    WHERE id = v_line.id;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM purchase_order_lines
+    WHERE purchase_order_id = p_purchase_order_id
+      AND quantity_received < quantity_ordered
+  ) THEN
+    v_status := 'partially_received';
+  ELSE
+    v_status := 'received';
+  END IF;
+
+  UPDATE purchase_orders
+  SET status = v_status,
+      received_at = CASE WHEN v_status = 'received' THEN NOW() ELSE received_at END
+  WHERE id = p_purchase_order_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_number_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Service role can manage purchase orders" ON purchase_orders;
+DROP POLICY IF EXISTS "Service role can manage purchase order lines" ON purchase_order_lines;
+
+CREATE POLICY "Service role can manage suppliers"
+  ON suppliers
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage purchase orders"
+  ON purchase_orders
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage purchase order lines"
+  ON purchase_order_lines
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE suppliers IS 'Companies products are bought from';
+COMMENT ON TABLE purchase_orders IS 'Orders placed with suppliers, received in one or more deliveries';
+COMMENT ON COLUMN products.cost_price IS 'Weighted average purchase cost per unit, excluding VAT';
+COMMENT ON COLUMN inventory.reorder_quantity IS 'Quantity to order at the reorder level; defaults to reaching twice the reorder level';
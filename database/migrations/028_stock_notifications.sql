@@ -0,0 +1,63 @@
+-- Migration: Back-in-stock notifications
+-- Customers subscribe to an out-of-stock product from its page or their
+-- wishlist and are emailed, in their language, when it is back. Emails go out
+-- a batch at a time so a small restock doesn't bring in more buyers than
+-- there is stock for; the rest of the queue waits for the next batch.
+
+CREATE TABLE IF NOT EXISTS stock_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  locale VARCHAR(2) NOT NULL DEFAULT 'sv' CHECK (locale IN ('sv', 'en')),
+  source VARCHAR(20) NOT NULL DEFAULT 'product_page' CHECK (source IN ('product_page', 'wishlist')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'notified', 'unsubscribed')),
+  unsubscribe_token VARCHAR(64) NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  notified_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT unique_stock_notification UNIQUE (product_id, email)
+);
+
+-- The queue per product is worked oldest subscription first
+CREATE INDEX IF NOT EXISTS idx_stock_notifications_pending
+  ON stock_notifications(product_id, created_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_stock_notifications_customer_id ON stock_notifications(customer_id);
+
+-- Subscriptions per product, for the admin view and the notification cron
+CREATE OR REPLACE FUNCTION stock_notification_demand()
+RETURNS TABLE (
+  product_id UUID,
+  product_name VARCHAR,
+  sku VARCHAR,
+  stock INTEGER,
+  pending BIGINT,
+  notified BIGINT,
+  last_subscribed_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    p.stock,
+    COUNT(*) FILTER (WHERE n.status = 'pending'),
+    COUNT(*) FILTER (WHERE n.status = 'notified'),
+    MAX(n.created_at)
+  FROM stock_notifications n
+  JOIN products p ON p.id = n.product_id
+  WHERE n.status <> 'unsubscribed'
+  GROUP BY p.id, p.name, p.sku, p.stock
+  ORDER BY COUNT(*) FILTER (WHERE n.status = 'pending') DESC, p.name;
+$$ LANGUAGE sql STABLE;
+
+-- RLS: subscriptions are only handled by the server
+ALTER TABLE stock_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage stock notifications" ON stock_notifications;
+CREATE POLICY "Service role can manage stock notifications"
+  ON stock_notifications FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE stock_notifications IS 'Back-in-stock email subscriptions, one per product and email address';
+COMMENT ON COLUMN stock_notifications.unsubscribe_token IS 'Secret for the unsubscribe link in the notification email';
+COMMENT ON FUNCTION stock_notification_demand IS 'Pending and notified subscriptions per product';
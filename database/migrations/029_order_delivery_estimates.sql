@@ -0,0 +1,8 @@
+-- Migration: Delivery estimates on orders
+-- The delivery day promised at checkout, counted in business days from the
+-- carrier's cut-off and skipping weekends and Swedish holidays, is kept on
+-- the order for the confirmation email and the order pages.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS estimated_delivery DATE;
+
+COMMENT ON COLUMN orders.estimated_delivery IS 'Delivery day estimated for the chosen shipping rate when the order was placed';
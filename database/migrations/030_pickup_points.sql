@@ -0,0 +1,31 @@
+-- Migration: Pickup points
+-- Parcels can go to a service point (ombud) or a parcel locker instead of the
+-- door. Each shipping rate says where it delivers, so locker, service point
+-- and home delivery are priced as separate rates, and the point the customer
+-- chose is kept on the order for the label.
+
+ALTER TABLE shipping_rates ADD COLUMN IF NOT EXISTS delivery_type VARCHAR(20) NOT NULL DEFAULT 'home'
+  CHECK (delivery_type IN ('home', 'service_point', 'locker'));
+
+UPDATE shipping_rates SET delivery_type = 'service_point' WHERE service_type IN ('SERVICEPOINT', 'PICKUP');
+UPDATE shipping_rates SET delivery_type = 'locker' WHERE service_type IN ('PARCEL_BOX', 'BOX', 'LOCKER');
+
+-- PostNord's service point delivery, the most common way to receive a parcel in Sweden
+INSERT INTO shipping_rates (
+  name, description, price, estimated_days, country, max_weight, min_weight,
+  carrier_code, service_type, features, logo_url, color_scheme, is_eco_friendly, delivery_type
+)
+SELECT 'PostNord Ombud', 'Hämta ut hos ditt närmaste ombud', 59.00, 2, 'Sweden', 20.0, 0,
+  'POSTNORD', 'SERVICEPOINT', '["Spårning", "SMS-avisering", "Välj ombud"]'::jsonb,
+  '/images/carriers/postnord.svg', '#FFDB00', false, 'service_point'
+WHERE NOT EXISTS (
+  SELECT 1 FROM shipping_rates WHERE carrier_code = 'POSTNORD' AND service_type = 'SERVICEPOINT'
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_delivery_type ON shipping_rates(delivery_type);
+
+-- The service point or locker the customer collects the parcel from
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS pickup_point JSONB;
+
+COMMENT ON COLUMN shipping_rates.delivery_type IS 'home, service_point (ombud) or locker';
+COMMENT ON COLUMN orders.pickup_point IS '{ id, carrierCode, type, name, street, postalCode, city, openingHours } of the chosen pickup point';
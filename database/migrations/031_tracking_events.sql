@@ -0,0 +1,51 @@
+-- Migration: Carrier tracking events
+-- Carriers push tracking events to a webhook, and shipments still on their
+-- way are polled for the carriers that don't. Each event is normalised to a
+-- common status by the carrier's adapter and stored once, however often the
+-- carrier repeats it; new events move the shipment, and with it the order.
+
+CREATE TABLE IF NOT EXISTS tracking_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id UUID NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  carrier VARCHAR(100) NOT NULL,
+  tracking_number VARCHAR(100) NOT NULL,
+  external_id VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('info_received', 'in_transit', 'out_for_delivery', 'ready_for_pickup', 'delivered', 'exception', 'returned')),
+  carrier_status VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  location VARCHAR(255),
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_tracking_event UNIQUE (carrier, tracking_number, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracking_events_shipment_id ON tracking_events(shipment_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_tracking_events_order_id ON tracking_events(order_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_tracking_events_tracking_number ON tracking_events(tracking_number);
+
+-- Polling works through the shipments on their way, least recently checked first
+ALTER TABLE shipments ADD COLUMN IF NOT EXISTS tracked_at TIMESTAMP WITH TIME ZONE;
+CREATE INDEX IF NOT EXISTS idx_shipments_tracking_queue
+  ON shipments(tracked_at NULLS FIRST)
+  WHERE status IN ('shipped', 'in_transit') AND tracking_number IS NOT NULL;
+
+-- RLS: customers see the events of their own orders
+ALTER TABLE tracking_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own tracking events" ON tracking_events;
+DROP POLICY IF EXISTS "Service role can manage tracking events" ON tracking_events;
+
+CREATE POLICY "Users can view own tracking events"
+  ON tracking_events
+  FOR SELECT
+  USING (order_id IN (SELECT id FROM orders WHERE customer_id = auth.uid()::uuid));
+
+CREATE POLICY "Service role can manage tracking events"
+  ON tracking_events
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE tracking_events IS 'Carrier tracking events per shipment, normalised to a common status';
+COMMENT ON COLUMN tracking_events.carrier_status IS 'The carrier''s own event code, e.g. PostNord EVENT_ED';
+COMMENT ON COLUMN shipments.tracked_at IS 'When the carrier was last polled for the shipment''s tracking events';
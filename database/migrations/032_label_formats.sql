@@ -0,0 +1,7 @@
+-- Migration: ZPL shipping labels
+-- Labels are rendered as a 4x6 PDF and as ZPL II for the warehouse's Zebra
+-- thermal printers; the ZPL file is kept next to the PDF.
+
+ALTER TABLE shipping_labels ADD COLUMN IF NOT EXISTS label_zpl_url TEXT;
+
+COMMENT ON COLUMN shipping_labels.label_zpl_url IS 'ZPL II version of the label; NULL for labels printed before ZPL output';
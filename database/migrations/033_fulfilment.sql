@@ -0,0 +1,12 @@
+-- Migration: Fulfilment batches
+-- Paid orders are picked and packed in batches. The pick list walks the
+-- warehouse by shelf location, and packing slips are printed in the language
+-- the customer shopped in.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS shelf_location VARCHAR(20);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS locale VARCHAR(2) NOT NULL DEFAULT 'sv'
+  CHECK (locale IN ('sv', 'en'));
+
+COMMENT ON COLUMN products.shelf_location IS 'Where the product is kept in the warehouse, e.g. A-03-2 (aisle, rack, shelf)';
+COMMENT ON COLUMN orders.locale IS 'Language the customer checked out in, for packing slips';
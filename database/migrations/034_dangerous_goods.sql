@@ -0,0 +1,20 @@
+-- Migration: Dangerous goods
+-- Many essential oils are flammable liquids and only ship as limited
+-- quantities (ADR 3.4). Products carry their classification so checkout can
+-- leave out services that refuse them and labels get the LQ mark.
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS dg_un_number VARCHAR(6) CHECK (dg_un_number IN ('UN1993', 'UN1197')),
+ADD COLUMN IF NOT EXISTS dg_packing_group VARCHAR(3) CHECK (dg_packing_group IN ('II', 'III')),
+ADD COLUMN IF NOT EXISTS dg_volume_ml INTEGER CHECK (dg_volume_ml > 0);
+
+-- A classified product needs all three
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_dangerous_goods_complete;
+ALTER TABLE products ADD CONSTRAINT products_dangerous_goods_complete CHECK (
+  (dg_un_number IS NULL AND dg_packing_group IS NULL AND dg_volume_ml IS NULL)
+  OR (dg_un_number IS NOT NULL AND dg_packing_group IS NOT NULL AND dg_volume_ml IS NOT NULL)
+);
+
+COMMENT ON COLUMN products.dg_un_number IS 'UN number for flammable liquids: UN1993 (most essential oils) or UN1197 (extracts); NULL for ordinary goods';
+COMMENT ON COLUMN products.dg_packing_group IS 'ADR packing group, which sets the largest bottle allowed as a limited quantity';
+COMMENT ON COLUMN products.dg_volume_ml IS 'Liquid per bottle in ml';
@@ -0,0 +1,8 @@
+-- Migration: Packaging boxes
+-- Checkout picks the smallest box from the catalogue the items fit in. The
+-- box is kept on the order so the packer knows which one to take, and its
+-- volume sets the chargeable weight carriers price the parcel on.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS packaging_box VARCHAR(20);
+
+COMMENT ON COLUMN orders.packaging_box IS 'Code of the box from the catalogue in src/config/boxes.ts, e.g. M; NULL when no box was big enough';
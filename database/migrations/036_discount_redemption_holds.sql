@@ -0,0 +1,21 @@
+-- Migration: Discount redemption holds
+-- Checkout redeems the discount code before taking payment, so two customers
+-- cannot both pay with the last use of a limited code. The redemption has no
+-- order until the order is created, and is released if the payment fails.
+
+CREATE OR REPLACE FUNCTION release_discount_redemption(p_redemption_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_code_id UUID;
+BEGIN
+  DELETE FROM discount_redemptions
+  WHERE id = p_redemption_id
+  RETURNING discount_code_id INTO v_code_id;
+
+  IF v_code_id IS NOT NULL THEN
+    UPDATE discount_codes SET usage_count = GREATEST(usage_count - 1, 0) WHERE id = v_code_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE discount_redemptions IS 'One row per order that used a discount code; order_id is NULL while the payment is being taken';
@@ -0,0 +1,124 @@
+-- Migration: Reservation checks
+-- A checkout can only replace its own reservation, so a reservation id taken
+-- from someone else's checkout cannot cancel their holds. Extending a
+-- reservation at payment can check it still covers the items being paid for;
+-- when it does not, checkout reserves the stock again.
+
+-- Holds stock for a checkout. When the cart changes the new reservation
+-- replaces the old one, whose holds are not counted against it. A reservation
+-- belonging to another customer or session is not replaced.
+CREATE OR REPLACE FUNCTION reserve_stock(
+  p_reservation_id VARCHAR,
+  p_items JSONB,
+  p_expires_at TIMESTAMP WITH TIME ZONE,
+  p_customer_id UUID DEFAULT NULL,
+  p_session_id VARCHAR DEFAULT NULL,
+  p_replaces VARCHAR DEFAULT NULL
+)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_request RECORD;
+  v_product RECORD;
+  v_reserved INTEGER;
+  v_replaces VARCHAR;
+BEGIN
+  IF p_replaces IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM stock_reservations
+    WHERE reservation_id = p_replaces
+      AND ((p_customer_id IS NOT NULL AND customer_id = p_customer_id)
+        OR (p_session_id IS NOT NULL AND session_id = p_session_id))
+  ) THEN
+    v_replaces := p_replaces;
+  END IF;
+
+  -- Lock in a fixed order so checkouts sharing products cannot deadlock
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'productId')::UUID FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_request IN
+    SELECT r."productId" AS product_id, SUM(r.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(p_items) AS r("productId" UUID, quantity INTEGER)
+    GROUP BY r."productId"
+  LOOP
+    SELECT stock, is_active INTO v_product FROM products WHERE id = v_request.product_id;
+
+    IF NOT FOUND OR NOT v_product.is_active THEN
+      RAISE EXCEPTION 'PRODUCT_NOT_AVAILABLE: %', v_request.product_id;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_reserved
+    FROM stock_reservations
+    WHERE product_id = v_request.product_id
+      AND status = 'active'
+      AND expires_at > NOW()
+      AND reservation_id IS DISTINCT FROM v_replaces;
+
+    IF v_product.stock - v_reserved < v_request.quantity THEN
+      RAISE EXCEPTION 'INSUFFICIENT_STOCK: %', v_request.product_id;
+    END IF;
+  END LOOP;
+
+  IF v_replaces IS NOT NULL THEN
+    UPDATE stock_reservations
+    SET status = 'cancelled'
+    WHERE reservation_id = v_replaces
+      AND status = 'active';
+  END IF;
+
+  INSERT INTO stock_reservations (reservation_id, product_id, quantity, customer_id, session_id, status, expires_at)
+  SELECT p_reservation_id, r."productId", SUM(r.quantity)::INTEGER, p_customer_id, p_session_id, 'active', p_expires_at
+  FROM jsonb_to_recordset(p_items) AS r("productId" UUID, quantity INTEGER)
+  GROUP BY r."productId";
+
+  RETURN p_reservation_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The new p_items argument changes the signature, so the old function is dropped
+DROP FUNCTION IF EXISTS extend_stock_reservation(VARCHAR, TIMESTAMP WITH TIME ZONE);
+
+-- Keeps a reservation alive while the customer is paying. A reservation that
+-- has already lapsed cannot be extended; its stock may have gone to someone else.
+-- Given the items being paid for, the reservation must hold exactly those.
+CREATE OR REPLACE FUNCTION extend_stock_reservation(
+  p_reservation_id VARCHAR,
+  p_expires_at TIMESTAMP WITH TIME ZONE,
+  p_items JSONB DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+BEGIN
+  IF p_items IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM (
+      SELECT product_id, quantity
+      FROM stock_reservations
+      WHERE reservation_id = p_reservation_id
+        AND status = 'active'
+    ) AS held
+    FULL OUTER JOIN (
+      SELECT r."productId" AS product_id, SUM(r.quantity)::INTEGER AS quantity
+      FROM jsonb_to_recordset(p_items) AS r("productId" UUID, quantity INTEGER)
+      GROUP BY r."productId"
+    ) AS wanted ON wanted.product_id = held.product_id
+    WHERE held.quantity IS DISTINCT FROM wanted.quantity
+  ) THEN
+    RAISE EXCEPTION 'RESERVATION_MISMATCH';
+  END IF;
+
+  UPDATE stock_reservations
+  SET expires_at = GREATEST(expires_at, p_expires_at)
+  WHERE reservation_id = p_reservation_id
+    AND status = 'active'
+    AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESERVATION_NOT_ACTIVE';
+  END IF;
+
+  RETURN p_expires_at;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,41 @@
+-- Migration: Invoice retention
+-- Invoices and credit notes are accounting records in their own right, kept
+-- for seven years from the end of the year they were issued. Deleting an
+-- order no longer takes its invoices with it; the retention purge removes
+-- expired invoices by their issue date and only then the orders left
+-- without any.
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_order_id_fkey;
+ALTER TABLE invoices
+  ADD CONSTRAINT invoices_order_id_fkey FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE RESTRICT;
+
+-- Returns the number of orders deleted
+CREATE OR REPLACE FUNCTION purge_expired_orders(p_cutoff TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  -- Credit notes first, as they refer to the invoices they credit
+  DELETE FROM invoices
+  WHERE type = 'credit_note'
+    AND issued_at < p_cutoff;
+
+  DELETE FROM invoices AS invoice
+  WHERE invoice.type = 'invoice'
+    AND invoice.issued_at < p_cutoff
+    AND NOT EXISTS (
+      SELECT 1 FROM invoices AS credit_note
+      WHERE credit_note.credited_invoice_number = invoice.invoice_number
+    );
+
+  -- Items, labels, shipments and returns cascade with the order
+  DELETE FROM orders AS o
+  WHERE o.created_at < p_cutoff
+    AND NOT EXISTS (SELECT 1 FROM invoices WHERE invoices.order_id = o.id);
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE invoices IS 'Issued invoices and credit notes; removed by issue date once the retention period is over, before their order';
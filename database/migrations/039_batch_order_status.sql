@@ -0,0 +1,31 @@
+-- Migration: Batch order status changes
+-- The warehouse moves a batch of orders through picking and packed together.
+-- Every step goes through transition_order_status in one transaction, so when
+-- one order cannot move, none of the batch does.
+
+-- p_steps is an array of {order_id, from_status, to_status}, applied in order;
+-- returns the orders as they end up
+CREATE OR REPLACE FUNCTION transition_order_statuses(
+  p_steps JSONB,
+  p_actor VARCHAR,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF orders AS $$
+DECLARE
+  v_step JSONB;
+  v_order_ids UUID[] := '{}';
+BEGIN
+  FOR v_step IN SELECT * FROM jsonb_array_elements(p_steps) LOOP
+    PERFORM transition_order_status(
+      (v_step->>'order_id')::UUID,
+      (v_step->>'from_status')::order_status,
+      (v_step->>'to_status')::order_status,
+      p_actor,
+      p_reason
+    );
+    v_order_ids := array_append(v_order_ids, (v_step->>'order_id')::UUID);
+  END LOOP;
+
+  RETURN QUERY SELECT * FROM orders WHERE id = ANY(v_order_ids);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,194 @@
+/**
+ * Fake Swish Server
+ *
+ * A local stand-in for the Swish Commerce API (v2) used to exercise the
+ * /api/webhooks/swish and /api/webhooks/swish-refund callbacks without certificates.
+ * Run with: node scripts/fake-swish-server.mjs
+ *
+ * Point the app at it:
+ *   SWISH_API_URL=http://localhost:4010
+ *   SWISH_MERCHANT_ID=1231181189
+ *
+ * Behaviour:
+ * - POST /api/v2/paymentrequests   creates a payment request and, after a short delay,
+ *                                  posts the outcome to its callbackUrl
+ * - GET  /api/v2/paymentrequests/:id returns the stored payment request
+ * - POST /api/v2/refunds           creates a refund and posts a PAID refund callback
+ * - GET  /api/v2/refunds/:id       returns the stored refund
+ * - POST /__simulate/:id/:status   re-sends a callback with the given status (e.g. DECLINED)
+ *
+ * The outcome defaults to PAID. Set FAKE_SWISH_OUTCOME=DECLINED|ERROR|CANCELLED, or put
+ * one of those words in the payment message, to simulate failures.
+ * Each callback is sent FAKE_SWISH_REPEAT times (default 2) to exercise idempotency.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+
+const PORT = parseInt(process.env.FAKE_SWISH_PORT || '4010', 10);
+const DEFAULT_OUTCOME = process.env.FAKE_SWISH_OUTCOME || 'PAID';
+const CALLBACK_DELAY_MS = parseInt(process.env.FAKE_SWISH_DELAY_MS || '2000', 10);
+const CALLBACK_REPEAT = parseInt(process.env.FAKE_SWISH_REPEAT || '2', 10);
+const OUTCOMES = ['PAID', 'DECLINED', 'ERROR', 'CANCELLED'];
+
+const paymentRequests = new Map();
+const refunds = new Map();
+
+function newId() {
+  return crypto.randomBytes(16).toString('hex').toUpperCase();
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+async function postCallback(url, payload) {
+  for (let attempt = 1; attempt <= CALLBACK_REPEAT; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      console.log(`  callback #${attempt} -> ${url} [${payload.status}] ${response.status}`);
+    } catch (error) {
+      console.log(`  callback #${attempt} -> ${url} failed: ${error.message}`);
+    }
+  }
+}
+
+function pickOutcome(message) {
+  const fromMessage = OUTCOMES.find((status) => (message || '').toUpperCase().includes(status));
+  return fromMessage || DEFAULT_OUTCOME;
+}
+
+function settlePayment(payment, status) {
+  payment.status = status;
+  if (status === 'PAID') {
+    payment.datePaid = new Date().toISOString();
+    payment.paymentReference = newId();
+  } else if (status !== 'CANCELLED') {
+    payment.errorCode = status === 'DECLINED' ? 'RF07' : 'TM01';
+    payment.errorMessage = status === 'DECLINED' ? 'Transaction declined' : 'Swish timed out before the payment was started';
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const parts = url.pathname.split('/').filter(Boolean);
+  console.log(`${req.method} ${url.pathname}`);
+
+  // POST /api/v2/paymentrequests
+  if (req.method === 'POST' && url.pathname === '/api/v2/paymentrequests') {
+    const body = await readBody(req);
+    const id = newId();
+    const payment = {
+      id,
+      payeePaymentReference: body.payeePaymentReference,
+      paymentReference: null,
+      callbackUrl: body.callbackUrl,
+      payerAlias: body.payerAlias,
+      payeeAlias: body.payeeAlias,
+      amount: parseFloat(body.amount),
+      currency: body.currency || 'SEK',
+      message: body.message,
+      status: 'CREATED',
+      dateCreated: new Date().toISOString(),
+      datePaid: null,
+      errorCode: null,
+      errorMessage: null,
+    };
+    paymentRequests.set(id, payment);
+
+    setTimeout(() => {
+      settlePayment(payment, pickOutcome(payment.message));
+      if (payment.callbackUrl) {
+        postCallback(payment.callbackUrl, payment);
+      }
+    }, CALLBACK_DELAY_MS);
+
+    return send(res, 201, undefined, {
+      Location: `http://localhost:${PORT}/api/v2/paymentrequests/${id}`,
+      PaymentRequestToken: id.toLowerCase(),
+    });
+  }
+
+  // GET /api/v2/paymentrequests/:id
+  if (req.method === 'GET' && parts[2] === 'paymentrequests' && parts[3]) {
+    const payment = paymentRequests.get(parts[3]);
+    if (!payment) return send(res, 404, [{ errorCode: 'RP04', errorMessage: 'No payment request found' }]);
+    return send(res, 200, { ...payment, amount: payment.amount.toFixed(2) });
+  }
+
+  // POST /api/v2/refunds
+  if (req.method === 'POST' && url.pathname === '/api/v2/refunds') {
+    const body = await readBody(req);
+    const id = newId();
+    const refund = {
+      id,
+      originalPaymentReference: body.originalPaymentReference,
+      payerPaymentReference: body.payerPaymentReference,
+      callbackUrl: body.callbackUrl,
+      payerAlias: body.payerAlias,
+      amount: parseFloat(body.amount),
+      currency: body.currency || 'SEK',
+      message: body.message,
+      status: 'CREATED',
+      dateCreated: new Date().toISOString(),
+    };
+    refunds.set(id, refund);
+
+    setTimeout(() => {
+      refund.status = 'PAID';
+      refund.datePaid = new Date().toISOString();
+      if (refund.callbackUrl) {
+        postCallback(refund.callbackUrl, refund);
+      }
+    }, CALLBACK_DELAY_MS);
+
+    return send(res, 201, undefined, {
+      Location: `http://localhost:${PORT}/api/v2/refunds/${id}`,
+    });
+  }
+
+  // GET /api/v2/refunds/:id
+  if (req.method === 'GET' && parts[2] === 'refunds' && parts[3]) {
+    const refund = refunds.get(parts[3]);
+    if (!refund) return send(res, 404, [{ errorCode: 'RF02', errorMessage: 'No refund found' }]);
+    return send(res, 200, { ...refund, amount: refund.amount.toFixed(2) });
+  }
+
+  // POST /__simulate/:id/:status
+  if (req.method === 'POST' && parts[0] === '__simulate' && parts[1] && parts[2]) {
+    const payment = paymentRequests.get(parts[1]);
+    const status = parts[2].toUpperCase();
+    if (!payment) return send(res, 404, { error: 'Unknown payment request' });
+    if (!OUTCOMES.includes(status)) return send(res, 400, { error: `Status must be one of ${OUTCOMES.join(', ')}` });
+
+    settlePayment(payment, status);
+    await postCallback(payment.callbackUrl, payment);
+    return send(res, 200, payment);
+  }
+
+  return send(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake Swish server listening on http://localhost:${PORT}`);
+  console.log(`Default outcome: ${DEFAULT_OUTCOME}, callbacks sent ${CALLBACK_REPEAT}x after ${CALLBACK_DELAY_MS}ms`);
+});
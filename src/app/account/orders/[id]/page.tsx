@@ -5,14 +5,19 @@ import { useRouter, useParams } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import type { OrderStatus, ShipmentItem, ShipmentStatus } from '@/types';
 import {
   ArrowLeftIcon,
+  ArrowUturnLeftIcon,
   ClockIcon,
   CheckCircleIcon,
   TruckIcon,
   XCircleIcon,
   PrinterIcon
 } from '@heroicons/react/24/outline';
+import { ReturnItemsForm } from '@/components/orders/ReturnItemsForm';
+import { OrderStatusTimeline } from '@/components/orders/OrderStatusTimeline';
+import { OrderPackages } from '@/components/orders/OrderPackages';
 
 interface Address {
   firstName?: string;
@@ -27,12 +32,22 @@ interface Address {
 
 interface Order {
   id: string;
+  orderNumber: string;
   status: string;
   createdAt: string;
   totalAmount: number;
   subtotal: number;
   tax: number;
+  vatBreakdown?: Array<{
+    rate: number;
+    vat: number;
+  }>;
   shippingCost: number;
+  discount?: {
+    code: string;
+    amount: number;
+    freeShipping: boolean;
+  };
   paymentMethod: string;
   paymentStatus: string;
   shippingAddress: Address;
@@ -41,6 +56,7 @@ interface Order {
   estimatedDelivery?: string;
   items: Array<{
     id: string;
+    productId?: string;
     name: string;
     nameSwedish?: string;
     quantity: number;
@@ -50,11 +66,30 @@ interface Order {
   }>;
 }
 
+interface Package {
+  id: string;
+  status: ShipmentStatus;
+  carrier?: string;
+  trackingNumber?: string;
+  items: ShipmentItem[];
+  shippedAt?: string;
+  deliveredAt?: string;
+}
+
+interface StatusChange {
+  id: string;
+  fromStatus?: OrderStatus;
+  toStatus: OrderStatus;
+  createdAt: string;
+}
+
 export default function OrderDetailsPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const params = useParams();
   const [order, setOrder] = useState<Order | null>(null);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [packages, setPackages] = useState<Package[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [cancelling, setCancelling] = useState(false);
@@ -69,6 +104,8 @@ export default function OrderDetailsPage() {
     
     if (params?.id) {
       fetchOrder(params.id as string);
+      fetchHistory(params.id as string);
+      fetchPackages(params.id as string);
     }
   }, [session, status, router, params?.id]);
 
@@ -95,6 +132,30 @@ export default function OrderDetailsPage() {
     }
   };
 
+  const fetchHistory = async (orderId: string) => {
+    try {
+      const response = await fetch(`/api/orders/${orderId}/history`);
+      const data = await response.json();
+      if (data.success) {
+        setHistory(data.data);
+      }
+    } catch (err) {
+      console.error('Failed to load order history:', err);
+    }
+  };
+
+  const fetchPackages = async (orderId: string) => {
+    try {
+      const response = await fetch(`/api/orders/${orderId}/shipments`);
+      const data = await response.json();
+      if (data.success) {
+        setPackages(data.data);
+      }
+    } catch (err) {
+      console.error('Failed to load order packages:', err);
+    }
+  };
+
   const handleCancelOrder = async () => {
     if (!order) return;
     
@@ -116,6 +177,7 @@ export default function OrderDetailsPage() {
       
       if (data.success) {
         setOrder({ ...order, status: 'cancelled' });
+        fetchHistory(order.id);
       } else {
         throw new Error(data.error || 'Failed to cancel order');
       }
@@ -130,12 +192,18 @@ export default function OrderDetailsPage() {
     switch (status.toLowerCase()) {
       case 'pending':
         return <ClockIcon className="w-6 h-6 text-yellow-600" />;
-      case 'confirmed':
+      case 'paid':
+      case 'picking':
+      case 'packed':
         return <CheckCircleIcon className="w-6 h-6 text-green-600" />;
       case 'shipped':
+      case 'in_transit':
         return <TruckIcon className="w-6 h-6 text-blue-600" />;
       case 'delivered':
         return <CheckCircleIcon className="w-6 h-6 text-green-600" />;
+      case 'returned':
+      case 'refunded':
+        return <ArrowUturnLeftIcon className="w-6 h-6 text-gray-600" />;
       case 'cancelled':
         return <XCircleIcon className="w-6 h-6 text-red-600" />;
       default:
@@ -145,10 +213,15 @@ export default function OrderDetailsPage() {
 
   const getStatusText = (status: string) => {
     const statusMap = {
-      pending: locale === 'sv' ? 'Väntar' : 'Pending',
-      confirmed: locale === 'sv' ? 'Bekräftad' : 'Confirmed',
+      pending: locale === 'sv' ? 'Väntar på betalning' : 'Awaiting payment',
+      paid: locale === 'sv' ? 'Betald' : 'Paid',
+      picking: locale === 'sv' ? 'Plockas' : 'Being picked',
+      packed: locale === 'sv' ? 'Packad' : 'Packed',
       shipped: locale === 'sv' ? 'Skickad' : 'Shipped',
+      in_transit: locale === 'sv' ? 'På väg' : 'In transit',
       delivered: locale === 'sv' ? 'Levererad' : 'Delivered',
+      returned: locale === 'sv' ? 'Returnerad' : 'Returned',
+      refunded: locale === 'sv' ? 'Återbetald' : 'Refunded',
       cancelled: locale === 'sv' ? 'Avbruten' : 'Cancelled',
     };
     return statusMap[status.toLowerCase() as keyof typeof statusMap] || status;
@@ -172,7 +245,11 @@ export default function OrderDetailsPage() {
   };
 
   const canCancel = () => {
-    return order && ['pending', 'confirmed'].includes(order.status.toLowerCase());
+    return order && ['pending', 'paid'].includes(order.status.toLowerCase());
+  };
+
+  const canReturn = () => {
+    return order && ['shipped', 'in_transit', 'delivered'].includes(order.status.toLowerCase());
   };
 
   if (status === 'loading' || loading) {
@@ -237,7 +314,7 @@ export default function OrderDetailsPage() {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-3xl font-bold text-gray-900">
-                {locale === 'sv' ? 'Beställning' : 'Order'} #{order.id}
+                {locale === 'sv' ? 'Beställning' : 'Order'} {order.orderNumber}
               </h1>
               <p className="text-gray-600 mt-2">
                 {locale === 'sv' ? 'Beställd den' : 'Placed on'} {formatDate(order.createdAt)}
@@ -306,8 +383,26 @@ export default function OrderDetailsPage() {
               </div>
             </div>
 
+            {/* Returns */}
+            {canReturn() && (
+              <ReturnItemsForm
+                orderId={order.id}
+                items={order.items.map((item) => ({
+                  productId: item.productId || item.id,
+                  name: locale === 'sv' && item.nameSwedish ? item.nameSwedish : item.name,
+                  quantity: item.quantity,
+                }))}
+                locale={locale}
+              />
+            )}
+
+            {/* Packages, each with its own tracking */}
+            {packages.length > 0 && (
+              <OrderPackages packages={packages} locale={locale} />
+            )}
+
             {/* Tracking Information */}
-            {order.trackingNumber && (
+            {packages.length === 0 && order.trackingNumber && (
               <div className="bg-white rounded-xl shadow-lg p-6">
                 <h2 className="text-xl font-semibold text-gray-900 mb-4">
                   {locale === 'sv' ? 'Spårningsinformation' : 'Tracking information'}
@@ -340,6 +435,14 @@ export default function OrderDetailsPage() {
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* Status History */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="font-semibold text-gray-900 mb-4">
+                {locale === 'sv' ? 'Orderhistorik' : 'Order history'}
+              </h3>
+              <OrderStatusTimeline history={history} locale={locale} />
+            </div>
+
             {/* Order Summary */}
             <div className="bg-white rounded-xl shadow-lg p-6">
               <h3 className="font-semibold text-gray-900 mb-4">
@@ -353,13 +456,19 @@ export default function OrderDetailsPage() {
                   </span>
                   <span className="text-gray-900">{formatPrice(order.subtotal)}</span>
                 </div>
-                
-                <div className="flex justify-between">
-                  <span className="text-gray-600">
-                    {locale === 'sv' ? 'Moms (25%)' : 'VAT (25%)'}
-                  </span>
-                  <span className="text-gray-900">{formatPrice(order.tax)}</span>
-                </div>
+
+                {order.discount && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">
+                      {locale === 'sv' ? 'Rabattkod' : 'Discount code'} ({order.discount.code})
+                    </span>
+                    <span className="text-green-700">
+                      {order.discount.freeShipping
+                        ? (locale === 'sv' ? 'Fri frakt' : 'Free shipping')
+                        : `-${formatPrice(order.discount.amount)}`}
+                    </span>
+                  </div>
+                )}
                 
                 <div className="flex justify-between">
                   <span className="text-gray-600">
@@ -376,6 +485,15 @@ export default function OrderDetailsPage() {
                   </span>
                   <span className="text-gray-900">{formatPrice(order.totalAmount)}</span>
                 </div>
+
+                {(order.vatBreakdown || [{ rate: 0.25, vat: order.tax }]).map((line) => (
+                  <div key={line.rate} className="flex justify-between text-sm">
+                    <span className="text-gray-500">
+                      {locale === 'sv' ? 'Varav moms' : 'Including VAT'} ({Math.round(line.rate * 1000) / 10}%)
+                    </span>
+                    <span className="text-gray-500">{formatPrice(line.vat)}</span>
+                  </div>
+                ))}
               </div>
             </div>
 
@@ -431,10 +549,15 @@ export default function OrderDetailsPage() {
                 </button>
               )}
               
-              <button className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors">
-                <PrinterIcon className="h-4 w-4 mr-2" />
-                {locale === 'sv' ? 'Skriv ut kvitto' : 'Print receipt'}
-              </button>
+              {order.status !== 'pending' && order.status !== 'cancelled' && (
+                <a
+                  href={`/api/orders/${order.id}/invoice`}
+                  className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <PrinterIcon className="h-4 w-4 mr-2" />
+                  {locale === 'sv' ? 'Ladda ner kvitto (PDF)' : 'Download receipt (PDF)'}
+                </a>
+              )}
               
               <Link
                 href="/contact"
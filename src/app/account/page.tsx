@@ -15,7 +15,7 @@ import {
 interface OrderStats {
   total: number;
   pending: number;
-  confirmed: number;
+  paid: number;
   shipped: number;
   delivered: number;
   cancelled: number;
@@ -496,8 +496,8 @@ export default function PrivacyPage() {
               
               <p className="text-gray-600 mb-6">
                 {locale === 'sv' 
-                  ? 'Är du säker på att du vill radera ditt konto? Denna åtgärd kan inte ångras och all din data kommer att raderas permanent.'
-                  : 'Are you sure you want to delete your account? This action cannot be undone and all your data will be permanently deleted.'
+                  ? 'Är du säker på att du vill radera ditt konto? Denna åtgärd kan inte ångras och dina personuppgifter kommer att raderas permanent. Enligt bokföringslagen sparar vi dina ordrar i anonymiserad form i sju år.'
+                  : 'Are you sure you want to delete your account? This action cannot be undone and your personal data will be permanently deleted. Swedish bookkeeping law requires us to keep your orders, anonymised, for seven years.'
                 }
               </p>
               
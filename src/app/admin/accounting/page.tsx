@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDownTrayIcon, CalculatorIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+
+interface OssCountrySummary {
+  country: string;
+  rate: number;
+  net: number;
+  vat: number;
+}
+
+interface VatReturn {
+  from: string;
+  to: string;
+  boxes: Record<string, number>;
+  oss: OssCountrySummary[];
+}
+
+const BOX_LABELS: Record<string, string> = {
+  '05': 'Momspliktig försäljning',
+  '10': 'Utgående moms 25 %',
+  '11': 'Utgående moms 12 %',
+  '12': 'Utgående moms 6 %',
+  '36': 'Försäljning av varor till land utanför EU',
+};
+
+// Defaults to last calendar month
+const getDefaultPeriod = () => {
+  const now = new Date();
+  const from = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  const to = new Date(now.getFullYear(), now.getMonth(), 0);
+  return {
+    from: from.toLocaleDateString('sv-SE'),
+    to: to.toLocaleDateString('sv-SE'),
+  };
+};
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('sv-SE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function AdminAccountingPage() {
+  const [period, setPeriod] = useState(getDefaultPeriod);
+  const [vatReturn, setVatReturn] = useState<VatReturn | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const query = `from=${period.from}&to=${period.to}`;
+
+  const fetchVatReturn = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/accounting/vat-return?${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setVatReturn(data.data);
+      } else {
+        toast.error(data.error || 'Failed to calculate VAT return');
+      }
+    } catch (error) {
+      console.error('Failed to fetch VAT return:', error);
+      toast.error('Failed to calculate VAT return');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-serif font-bold text-forest-800">Accounting</h1>
+        <p className="text-forest-600 mt-1">Export sales and refunds as SIE and summarise the VAT return</p>
+      </div>
+
+      {/* Period */}
+      <div className="bg-white rounded-2xl shadow-soft p-6 flex flex-wrap items-end gap-4">
+        <label className="flex flex-col text-sm text-forest-700">
+          From
+          <input
+            type="date"
+            value={period.from}
+            onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+            className="mt-1 px-4 py-3 rounded-xl border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors"
+          />
+        </label>
+        <label className="flex flex-col text-sm text-forest-700">
+          To
+          <input
+            type="date"
+            value={period.to}
+            onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+            className="mt-1 px-4 py-3 rounded-xl border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors"
+          />
+        </label>
+        <a
+          href={`/api/admin/accounting/sie?${query}`}
+          className="flex items-center px-4 py-3 bg-sage-600 text-white rounded-xl hover:bg-sage-700 transition-colors"
+        >
+          <ArrowDownTrayIcon className="h-5 w-5 mr-2" />
+          Download SIE file
+        </a>
+        <button
+          onClick={fetchVatReturn}
+          disabled={loading}
+          className="flex items-center px-4 py-3 border-2 border-sage-600 text-sage-700 rounded-xl hover:bg-sage-50 transition-colors disabled:opacity-50"
+        >
+          <CalculatorIcon className="h-5 w-5 mr-2" />
+          {loading ? 'Calculating...' : 'VAT return'}
+        </button>
+      </div>
+
+      {/* VAT return */}
+      {vatReturn && (
+        <div className="bg-white rounded-2xl shadow-soft p-6 space-y-6">
+          <div>
+            <h2 className="text-xl font-serif font-bold text-forest-800">
+              Momsdeklaration {vatReturn.from} – {vatReturn.to}
+            </h2>
+            <p className="text-sm text-forest-500 mt-1">
+              Ingående moms (ruta 48) comes from purchases and is added by the accountant
+            </p>
+          </div>
+
+          <table className="w-full">
+            <tbody className="divide-y divide-cream-200">
+              {Object.entries(vatReturn.boxes).map(([box, amount]) => (
+                <tr key={box}>
+                  <td className="py-2 pr-4 text-sm font-medium text-forest-600 w-16">{box}</td>
+                  <td className="py-2 pr-4 text-forest-700">{BOX_LABELS[box]}</td>
+                  <td className="py-2 text-right font-medium text-forest-800">{formatAmount(amount)} kr</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {vatReturn.oss.length > 0 && (
+            <div>
+              <h3 className="font-medium text-forest-800 mb-2">OSS (declared in the OSS return)</h3>
+              <table className="w-full">
+                <thead className="border-b border-cream-200">
+                  <tr>
+                    <th className="py-2 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">Country</th>
+                    <th className="py-2 text-right text-xs font-medium text-forest-600 uppercase tracking-wider">Rate</th>
+                    <th className="py-2 text-right text-xs font-medium text-forest-600 uppercase tracking-wider">Net</th>
+                    <th className="py-2 text-right text-xs font-medium text-forest-600 uppercase tracking-wider">VAT</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-cream-200">
+                  {vatReturn.oss.map((line) => (
+                    <tr key={`${line.country}-${line.rate}`}>
+                      <td className="py-2 text-forest-700">{line.country}</td>
+                      <td className="py-2 text-right text-forest-700">{Math.round(line.rate * 1000) / 10} %</td>
+                      <td className="py-2 text-right text-forest-700">{formatAmount(line.net)} kr</td>
+                      <td className="py-2 text-right text-forest-800">{formatAmount(line.vat)} kr</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
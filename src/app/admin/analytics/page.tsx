@@ -7,52 +7,98 @@ import {
   UserGroupIcon,
   ChartBarIcon,
   CalendarIcon,
+  ReceiptPercentIcon,
   ArrowTrendingUpIcon,
   ArrowTrendingDownIcon
 } from '@heroicons/react/24/outline';
 
+interface PeriodComparison {
+  current: number;
+  previous: number;
+  change: number | null;
+}
+
 interface AnalyticsData {
-  revenue: {
-    total: number;
-    today: number;
-    thisWeek: number;
-    thisMonth: number;
-    change: number;
-  };
-  orders: {
-    total: number;
-    today: number;
-    thisWeek: number;
-    thisMonth: number;
-    change: number;
-  };
+  range: 'week' | 'month' | 'year';
+  from: string;
+  to: string;
+  revenue: PeriodComparison;
+  orders: PeriodComparison;
+  averageOrderValue: PeriodComparison;
   customers: {
-    total: number;
-    new: number;
-    returning: number;
-    change: number;
-  };
-  products: {
-    totalSold: number;
-    topSelling: Array<{
-      id: string;
-      name: string;
-      quantity: number;
-      revenue: number;
-    }>;
+    new: PeriodComparison;
+    returning: PeriodComparison;
   };
+  topProducts: Array<{
+    productId: string;
+    name: string;
+    quantity: number;
+    revenue: number;
+    margin?: number;
+  }>;
   revenueByCategory: Array<{
     category: string;
     revenue: number;
     percentage: number;
   }>;
-  recentSales: Array<{
+  dailySales: Array<{
     date: string;
     revenue: number;
     orders: number;
   }>;
 }
 
+interface SalesBar {
+  label: string;
+  revenue: number;
+  orders: number;
+}
+
+// Change against the previous period; a dash when there was nothing to compare with
+function ChangeBadge({ change }: { change: number | null }) {
+  if (change === null) {
+    return <div className="text-sm font-medium text-forest-500">–</div>;
+  }
+
+  return (
+    <div className={`flex items-center gap-1 text-sm font-medium ${
+      change >= 0 ? 'text-green-600' : 'text-red-600'
+    }`}>
+      {change >= 0 ? (
+        <ArrowTrendingUpIcon className="h-4 w-4" />
+      ) : (
+        <ArrowTrendingDownIcon className="h-4 w-4" />
+      )}
+      {Math.abs(change)}%
+    </div>
+  );
+}
+
+// A year of days is too many bars, so the year view is shown per month
+const getSalesBars = (analytics: AnalyticsData): SalesBar[] => {
+  if (analytics.range !== 'year') {
+    return analytics.dailySales.map((sale) => ({
+      label: new Date(sale.date).toLocaleDateString('sv-SE', { month: 'short', day: 'numeric' }),
+      revenue: sale.revenue,
+      orders: sale.orders,
+    }));
+  }
+
+  const months = new Map<string, SalesBar>();
+  analytics.dailySales.forEach((sale) => {
+    const month = sale.date.slice(0, 7);
+    const bar = months.get(month) ?? {
+      label: new Date(`${month}-01`).toLocaleDateString('sv-SE', { month: 'short', year: 'numeric' }),
+      revenue: 0,
+      orders: 0,
+    };
+    bar.revenue += sale.revenue;
+    bar.orders += sale.orders;
+    months.set(month, bar);
+  });
+  return Array.from(months.values());
+};
+
 export default function AdminAnalyticsPage() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -94,6 +140,9 @@ export default function AdminAnalyticsPage() {
     );
   }
 
+  const salesBars = getSalesBars(analytics);
+  const maxRevenue = Math.max(...salesBars.map(sale => sale.revenue));
+
   const getCategoryColor = (category: string) => {
     const colors: { [key: string]: string } = {
       'essential-oils': 'bg-sage-500',
@@ -101,6 +150,7 @@ export default function AdminAnalyticsPage() {
       'diffusers': 'bg-cream-600',
       'accessories': 'bg-forest-500',
       'gift-sets': 'bg-rose-500',
+      'bundles': 'bg-sage-300',
     };
     return colors[category] || 'bg-gray-500';
   };
@@ -112,6 +162,8 @@ export default function AdminAnalyticsPage() {
       'diffusers': 'Diffusers',
       'accessories': 'Tillbehör',
       'gift-sets': 'Presentset',
+      'bundles': 'Paket',
+      'other': 'Övrigt',
     };
     return names[category] || category;
   };
@@ -122,7 +174,9 @@ export default function AdminAnalyticsPage() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-serif font-bold text-forest-800">Analytics</h1>
-          <p className="text-forest-600 mt-1">Track your business performance</p>
+          <p className="text-forest-600 mt-1">
+            {analytics.from} – {analytics.to}, compared with the period before
+          </p>
         </div>
 
         {/* Time Range Selector */}
@@ -161,34 +215,23 @@ export default function AdminAnalyticsPage() {
       </div>
 
       {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
         {/* Revenue */}
         <div className="bg-white rounded-2xl p-6 shadow-soft">
           <div className="flex items-center justify-between mb-4">
             <div className="w-12 h-12 rounded-xl bg-green-500 flex items-center justify-center">
               <CurrencyDollarIcon className="h-6 w-6 text-white" />
             </div>
-            <div className={`flex items-center gap-1 text-sm font-medium ${
-              analytics.revenue.change >= 0 ? 'text-green-600' : 'text-red-600'
-            }`}>
-              {analytics.revenue.change >= 0 ? (
-                <ArrowTrendingUpIcon className="h-4 w-4" />
-              ) : (
-                <ArrowTrendingDownIcon className="h-4 w-4" />
-              )}
-              {Math.abs(analytics.revenue.change)}%
-            </div>
+            <ChangeBadge change={analytics.revenue.change} />
           </div>
           <div>
-            <p className="text-sm text-forest-600 mb-1">Total Revenue</p>
+            <p className="text-sm text-forest-600 mb-1">Revenue</p>
             <p className="text-3xl font-bold text-forest-800 mb-2">
-              {analytics.revenue.total.toFixed(0)} kr
+              {analytics.revenue.current.toFixed(0)} kr
+            </p>
+            <p className="text-xs text-forest-600">
+              Previous period: {analytics.revenue.previous.toFixed(0)} kr
             </p>
-            <div className="text-xs text-forest-600 space-y-1">
-              <p>Today: {analytics.revenue.today.toFixed(0)} kr</p>
-              <p>This week: {analytics.revenue.thisWeek.toFixed(0)} kr</p>
-              <p>This month: {analytics.revenue.thisMonth.toFixed(0)} kr</p>
-            </div>
           </div>
         </div>
 
@@ -198,27 +241,35 @@ export default function AdminAnalyticsPage() {
             <div className="w-12 h-12 rounded-xl bg-blue-500 flex items-center justify-center">
               <ShoppingBagIcon className="h-6 w-6 text-white" />
             </div>
-            <div className={`flex items-center gap-1 text-sm font-medium ${
-              analytics.orders.change >= 0 ? 'text-green-600' : 'text-red-600'
-            }`}>
-              {analytics.orders.change >= 0 ? (
-                <ArrowTrendingUpIcon className="h-4 w-4" />
-              ) : (
-                <ArrowTrendingDownIcon className="h-4 w-4" />
-              )}
-              {Math.abs(analytics.orders.change)}%
-            </div>
+            <ChangeBadge change={analytics.orders.change} />
           </div>
           <div>
-            <p className="text-sm text-forest-600 mb-1">Total Orders</p>
+            <p className="text-sm text-forest-600 mb-1">Orders</p>
             <p className="text-3xl font-bold text-forest-800 mb-2">
-              {analytics.orders.total}
+              {analytics.orders.current}
             </p>
-            <div className="text-xs text-forest-600 space-y-1">
-              <p>Today: {analytics.orders.today}</p>
-              <p>This week: {analytics.orders.thisWeek}</p>
-              <p>This month: {analytics.orders.thisMonth}</p>
+            <p className="text-xs text-forest-600">
+              Previous period: {analytics.orders.previous}
+            </p>
+          </div>
+        </div>
+
+        {/* Average Order Value */}
+        <div className="bg-white rounded-2xl p-6 shadow-soft">
+          <div className="flex items-center justify-between mb-4">
+            <div className="w-12 h-12 rounded-xl bg-amber-500 flex items-center justify-center">
+              <ReceiptPercentIcon className="h-6 w-6 text-white" />
             </div>
+            <ChangeBadge change={analytics.averageOrderValue.change} />
+          </div>
+          <div>
+            <p className="text-sm text-forest-600 mb-1">Average Order Value</p>
+            <p className="text-3xl font-bold text-forest-800 mb-2">
+              {analytics.averageOrderValue.current.toFixed(0)} kr
+            </p>
+            <p className="text-xs text-forest-600">
+              Previous period: {analytics.averageOrderValue.previous.toFixed(0)} kr
+            </p>
           </div>
         </div>
 
@@ -228,25 +279,16 @@ export default function AdminAnalyticsPage() {
             <div className="w-12 h-12 rounded-xl bg-purple-500 flex items-center justify-center">
               <UserGroupIcon className="h-6 w-6 text-white" />
             </div>
-            <div className={`flex items-center gap-1 text-sm font-medium ${
-              analytics.customers.change >= 0 ? 'text-green-600' : 'text-red-600'
-            }`}>
-              {analytics.customers.change >= 0 ? (
-                <ArrowTrendingUpIcon className="h-4 w-4" />
-              ) : (
-                <ArrowTrendingDownIcon className="h-4 w-4" />
-              )}
-              {Math.abs(analytics.customers.change)}%
-            </div>
+            <ChangeBadge change={analytics.customers.new.change} />
           </div>
           <div>
-            <p className="text-sm text-forest-600 mb-1">Total Customers</p>
+            <p className="text-sm text-forest-600 mb-1">Customers</p>
             <p className="text-3xl font-bold text-forest-800 mb-2">
-              {analytics.customers.total}
+              {analytics.customers.new.current + analytics.customers.returning.current}
             </p>
             <div className="text-xs text-forest-600 space-y-1">
-              <p>New: {analytics.customers.new}</p>
-              <p>Returning: {analytics.customers.returning}</p>
+              <p>New: {analytics.customers.new.current} (previously {analytics.customers.new.previous})</p>
+              <p>Returning: {analytics.customers.returning.current} (previously {analytics.customers.returning.previous})</p>
             </div>
           </div>
         </div>
@@ -294,9 +336,12 @@ export default function AdminAnalyticsPage() {
             Top Selling Products
           </h2>
           <div className="space-y-4">
-            {analytics.products.topSelling.map((product, index) => (
+            {analytics.topProducts.length === 0 && (
+              <p className="text-sm text-forest-600">No sales in this period</p>
+            )}
+            {analytics.topProducts.map((product, index) => (
               <div
-                key={product.id}
+                key={product.productId}
                 className="flex items-center gap-4 p-4 rounded-xl hover:bg-cream-50 transition-colors"
               >
                 <div className="w-8 h-8 rounded-full bg-sage-100 flex items-center justify-center flex-shrink-0">
@@ -312,6 +357,11 @@ export default function AdminAnalyticsPage() {
                   <p className="font-bold text-forest-800">
                     {product.revenue.toFixed(0)} kr
                   </p>
+                  {product.margin !== undefined && (
+                    <p className="text-sm text-forest-600">
+                      {product.margin.toFixed(0)} kr margin
+                    </p>
+                  )}
                 </div>
               </div>
             ))}
@@ -328,17 +378,13 @@ export default function AdminAnalyticsPage() {
 
         {/* Simple Bar Chart */}
         <div className="space-y-3">
-          {analytics.recentSales.map((sale, index) => {
-            const maxRevenue = Math.max(...analytics.recentSales.map(s => s.revenue));
-            const barWidth = (sale.revenue / maxRevenue) * 100;
+          {salesBars.map((sale) => {
+            const barWidth = maxRevenue > 0 ? (sale.revenue / maxRevenue) * 100 : 0;
 
             return (
-              <div key={index} className="flex items-center gap-4">
+              <div key={sale.label} className="flex items-center gap-4">
                 <span className="text-sm text-forest-600 w-24 flex-shrink-0">
-                  {new Date(sale.date).toLocaleDateString('sv-SE', {
-                    month: 'short',
-                    day: 'numeric'
-                  })}
+                  {sale.label}
                 </span>
                 <div className="flex-1">
                   <div className="h-8 bg-cream-200 rounded-lg overflow-hidden">
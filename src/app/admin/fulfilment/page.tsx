@@ -0,0 +1,355 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  ClipboardDocumentListIcon,
+  DocumentTextIcon,
+  PrinterIcon,
+  ArchiveBoxIcon,
+  CheckCircleIcon
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import type { FulfilmentStatus, Locale, OrderStatus, PickList } from '@/types';
+
+interface QueuedOrder {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  carrier?: string;
+  locale?: Locale;
+  packagingBox?: string;
+  items: Array<{ quantity: number }>;
+  shippingAddress: { firstName?: string; lastName?: string; city: string };
+  createdAt: string;
+}
+
+export default function AdminFulfilmentPage() {
+  const [orders, setOrders] = useState<QueuedOrder[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pickList, setPickList] = useState<PickList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const fetchQueue = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/fulfilment');
+      const data = await response.json();
+      if (data.success) {
+        setOrders(data.data || []);
+      } else {
+        toast.error(data.error || 'Failed to load orders');
+      }
+    } catch (error) {
+      console.error('Failed to fetch fulfilment queue:', error);
+      toast.error('Failed to load orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleOrder = (orderId: string) => {
+    setPickList(null);
+    setSelectedIds(selectedIds.includes(orderId)
+      ? selectedIds.filter(id => id !== orderId)
+      : [...selectedIds, orderId]);
+  };
+
+  const toggleAll = () => {
+    setPickList(null);
+    setSelectedIds(selectedIds.length === orders.length ? [] : orders.map(order => order.id));
+  };
+
+  const handlePickList = async () => {
+    setWorking(true);
+    try {
+      const response = await fetch(`/api/admin/fulfilment/pick-list?orderIds=${selectedIds.join(',')}`);
+      const data = await response.json();
+      if (data.success) {
+        setPickList(data.data);
+      } else {
+        toast.error(data.error || 'Failed to create pick list');
+      }
+    } catch (error) {
+      console.error('Failed to create pick list:', error);
+      toast.error('Failed to create pick list');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handlePackingSlips = () => {
+    window.open(`/api/admin/fulfilment/packing-slips?orderIds=${selectedIds.join(',')}`, '_blank');
+  };
+
+  const handleLabels = async () => {
+    setWorking(true);
+    try {
+      const response = await fetch('/api/admin/fulfilment/labels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderIds: selectedIds }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to print labels');
+        return;
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error('Failed to print labels:', error);
+      toast.error('Failed to print labels');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleStatus = async (status: FulfilmentStatus) => {
+    setWorking(true);
+    try {
+      const response = await fetch('/api/admin/fulfilment/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderIds: selectedIds, status }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(`${selectedIds.length} orders moved to ${status}`);
+      } else {
+        toast.error(data.error || 'Failed to update orders');
+      }
+      await fetchQueue();
+    } catch (error) {
+      console.error('Failed to update batch status:', error);
+      toast.error('Failed to update orders');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    const colors: { [key: string]: string } = {
+      'paid': 'bg-blue-100 text-blue-800 border-blue-200',
+      'picking': 'bg-purple-100 text-purple-800 border-purple-200',
+      'packed': 'bg-purple-100 text-purple-800 border-purple-200',
+    };
+    return colors[status] || 'bg-gray-100 text-gray-800 border-gray-200';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="w-16 h-16 border-4 border-sage-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const hasSelection = selectedIds.length > 0;
+  const buttonClass = 'inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-serif font-bold text-forest-800">Fulfilment</h1>
+        <p className="text-forest-600 mt-1">Pick, pack and label paid orders in batches</p>
+      </div>
+
+      {/* Batch actions */}
+      <div className="bg-white rounded-2xl shadow-soft p-6 print:hidden">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-forest-600 mr-auto">
+            {selectedIds.length} of {orders.length} orders selected
+          </span>
+          <button
+            onClick={handlePickList}
+            disabled={!hasSelection || working}
+            className={`${buttonClass} bg-cream-100 text-forest-800 hover:bg-cream-200`}
+          >
+            <ClipboardDocumentListIcon className="h-5 w-5" />
+            Pick list
+          </button>
+          <button
+            onClick={handlePackingSlips}
+            disabled={!hasSelection || working}
+            className={`${buttonClass} bg-cream-100 text-forest-800 hover:bg-cream-200`}
+          >
+            <DocumentTextIcon className="h-5 w-5" />
+            Packing slips
+          </button>
+          <button
+            onClick={handleLabels}
+            disabled={!hasSelection || working}
+            className={`${buttonClass} bg-cream-100 text-forest-800 hover:bg-cream-200`}
+          >
+            <PrinterIcon className="h-5 w-5" />
+            Labels
+          </button>
+          <button
+            onClick={() => handleStatus('picking')}
+            disabled={!hasSelection || working}
+            className={`${buttonClass} bg-sage-600 text-white hover:bg-sage-700`}
+          >
+            <ArchiveBoxIcon className="h-5 w-5" />
+            Mark picking
+          </button>
+          <button
+            onClick={() => handleStatus('packed')}
+            disabled={!hasSelection || working}
+            className={`${buttonClass} bg-forest-700 text-white hover:bg-forest-800`}
+          >
+            <CheckCircleIcon className="h-5 w-5" />
+            Mark packed
+          </button>
+        </div>
+      </div>
+
+      {/* Queue */}
+      <div className="bg-white rounded-2xl shadow-soft overflow-hidden print:hidden">
+        {orders.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-cream-50 border-b border-cream-200">
+                <tr>
+                  <th className="px-6 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.length === orders.length}
+                      onChange={toggleAll}
+                      aria-label="Select all orders"
+                    />
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Order
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Customer
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Items
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Box
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Carrier
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Language
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Date
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-cream-200">
+                {orders.map((order) => (
+                  <tr key={order.id} className="hover:bg-cream-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(order.id)}
+                        onChange={() => toggleOrder(order.id)}
+                        aria-label={`Select order ${order.orderNumber}`}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Link href={`/admin/orders/${order.id}`} className="font-medium text-forest-800 hover:underline">
+                        {order.orderNumber}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-forest-700">
+                      {`${order.shippingAddress.firstName || ''} ${order.shippingAddress.lastName || ''}`.trim()}, {order.shippingAddress.city}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-forest-700">
+                      {order.items.reduce((sum, item) => sum + item.quantity, 0)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-forest-700">
+                      {order.packagingBox || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-forest-700">
+                      {order.carrier || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-forest-700 uppercase">
+                      {order.locale || 'sv'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(order.status)}`}>
+                        {order.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-forest-600">
+                      {new Date(order.createdAt).toLocaleDateString('sv-SE')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 text-forest-600">
+            No orders waiting for fulfilment
+          </div>
+        )}
+      </div>
+
+      {/* Pick list */}
+      {pickList && (
+        <div className="bg-white rounded-2xl shadow-soft p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-serif font-bold text-forest-800">Pick list</h2>
+              <p className="text-sm text-forest-600">
+                {pickList.orders.map(order => order.orderNumber).join(', ')} &ndash; {pickList.totalQuantity} items
+              </p>
+            </div>
+            <button
+              onClick={() => window.print()}
+              className={`${buttonClass} bg-cream-100 text-forest-800 hover:bg-cream-200 print:hidden`}
+            >
+              <PrinterIcon className="h-5 w-5" />
+              Print
+            </button>
+          </div>
+          <table className="w-full text-sm">
+            <thead className="border-b border-cream-200">
+              <tr>
+                <th className="py-2 text-left font-medium text-forest-600">Location</th>
+                <th className="py-2 text-left font-medium text-forest-600">SKU</th>
+                <th className="py-2 text-left font-medium text-forest-600">Product</th>
+                <th className="py-2 text-right font-medium text-forest-600">Qty</th>
+                <th className="py-2 pl-6 text-left font-medium text-forest-600">Orders</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-cream-200">
+              {pickList.lines.map((line) => (
+                <tr key={line.productId}>
+                  <td className="py-2 font-mono text-forest-800">{line.shelfLocation || '-'}</td>
+                  <td className="py-2 font-mono text-forest-700">{line.sku}</td>
+                  <td className="py-2 text-forest-800">{line.productName}</td>
+                  <td className="py-2 text-right font-bold text-forest-800">{line.quantity}</td>
+                  <td className="py-2 pl-6 text-forest-600">
+                    {line.orders.map(order => `${order.orderNumber} (${order.quantity})`).join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArchiveBoxIcon, BellAlertIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+
+interface ProductOption {
+  id: string;
+  name: string;
+  sku: string;
+}
+
+interface Lot {
+  id: string;
+  productId: string;
+  lotCode: string;
+  supplier?: string;
+  receivedAt: string;
+  bestBefore?: string;
+  receivedQuantity: number;
+  quantity: number;
+}
+
+interface LotRecipient {
+  orderId: string;
+  orderNumber: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  productName?: string;
+  quantity: number;
+  shipmentStatus: string;
+  shippedAt?: string;
+}
+
+interface StockNotificationDemand {
+  productId: string;
+  productName: string;
+  sku: string;
+  stock: number;
+  pending: number;
+  notified: number;
+  lastSubscribedAt?: string;
+}
+
+const EXPIRY_WINDOWS = [30, 90, 180];
+
+const emptyDelivery = {
+  productId: '',
+  lotCode: '',
+  quantity: '',
+  supplier: '',
+  bestBefore: '',
+};
+
+export default function AdminInventoryPage() {
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [expiringLots, setExpiringLots] = useState<Lot[]>([]);
+  const [expiryWindow, setExpiryWindow] = useState(90);
+  const [loading, setLoading] = useState(true);
+  const [delivery, setDelivery] = useState(emptyDelivery);
+  const [receiving, setReceiving] = useState(false);
+  const [recallCode, setRecallCode] = useState('');
+  const [recipients, setRecipients] = useState<LotRecipient[] | null>(null);
+  const [demand, setDemand] = useState<StockNotificationDemand[]>([]);
+
+  useEffect(() => {
+    fetchProducts();
+    fetchDemand();
+  }, []);
+
+  useEffect(() => {
+    fetchExpiringLots();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [expiryWindow]);
+
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/products');
+      const data = await response.json();
+      if (data.success) {
+        setProducts(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch products:', error);
+    }
+  };
+
+  const fetchDemand = async () => {
+    try {
+      const response = await fetch('/api/admin/inventory/stock-notifications');
+      const data = await response.json();
+      if (data.success) {
+        setDemand(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch back-in-stock demand:', error);
+    }
+  };
+
+  const fetchExpiringLots = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/inventory/lots?expiringWithin=${expiryWindow}`);
+      const data = await response.json();
+      if (data.success) {
+        setExpiringLots(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch expiring lots:', error);
+      toast.error('Failed to load expiring lots');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setReceiving(true);
+
+    try {
+      const response = await fetch('/api/admin/inventory/lots', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          productId: delivery.productId,
+          lotCode: delivery.lotCode,
+          quantity: Number(delivery.quantity),
+          supplier: delivery.supplier || undefined,
+          bestBefore: delivery.bestBefore || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(`Lot ${data.data.lotCode} received`);
+        setDelivery(emptyDelivery);
+        fetchExpiringLots();
+      } else {
+        toast.error(data.error || 'Failed to receive lot');
+      }
+    } catch {
+      toast.error('Failed to receive lot');
+    } finally {
+      setReceiving(false);
+    }
+  };
+
+  const handleRecallLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recallCode.trim()) return;
+
+    try {
+      const response = await fetch(`/api/admin/inventory/lots/${encodeURIComponent(recallCode.trim())}/recipients`);
+      const data = await response.json();
+
+      if (data.success) {
+        setRecipients(data.data || []);
+      } else {
+        toast.error(data.error || 'Failed to look up lot');
+      }
+    } catch {
+      toast.error('Failed to look up lot');
+    }
+  };
+
+  const productName = (productId: string) =>
+    products.find(p => p.id === productId)?.name || productId;
+
+  const daysUntil = (date: string) =>
+    Math.ceil((new Date(date).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+
+  const getExpiryColor = (date: string) => {
+    const days = daysUntil(date);
+    if (days < 0) return 'bg-red-100 text-red-800';
+    if (days <= 30) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-green-100 text-green-800';
+  };
+
+  const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-serif font-bold text-forest-800">Inventory</h1>
+        <p className="text-forest-600 mt-1">Receive deliveries by lot, watch best-before dates, trace recalls and see what customers are waiting for</p>
+      </div>
+
+      {/* Receive delivery */}
+      <div className="bg-white rounded-2xl shadow-soft p-6">
+        <h2 className="text-xl font-semibold text-forest-800 mb-4">Receive delivery</h2>
+        <form onSubmit={handleReceive} className="grid grid-cols-1 md:grid-cols-6 gap-4">
+          <select
+            required
+            value={delivery.productId}
+            onChange={(e) => setDelivery({ ...delivery, productId: e.target.value })}
+            className={`${inputClass} md:col-span-2`}
+          >
+            <option value="">Select product</option>
+            {products.map((product) => (
+              <option key={product.id} value={product.id}>
+                {product.name} ({product.sku})
+              </option>
+            ))}
+          </select>
+          <input
+            required
+            placeholder="Lot code"
+            value={delivery.lotCode}
+            onChange={(e) => setDelivery({ ...delivery, lotCode: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            required
+            type="number"
+            min={1}
+            placeholder="Quantity"
+            value={delivery.quantity}
+            onChange={(e) => setDelivery({ ...delivery, quantity: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            title="Best before"
+            value={delivery.bestBefore}
+            onChange={(e) => setDelivery({ ...delivery, bestBefore: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            placeholder="Supplier"
+            value={delivery.supplier}
+            onChange={(e) => setDelivery({ ...delivery, supplier: e.target.value })}
+            className={inputClass}
+          />
+          <div className="md:col-span-6 flex justify-end">
+            <button
+              type="submit"
+              disabled={receiving}
+              className="px-6 py-3 bg-sage-600 text-white rounded-xl hover:bg-sage-700 disabled:opacity-50 transition-colors"
+            >
+              {receiving ? 'Receiving...' : 'Receive lot'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Near expiry */}
+      <div className="bg-white rounded-2xl shadow-soft overflow-hidden">
+        <div className="p-6 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-forest-800">Best before soon</h2>
+          <select
+            value={expiryWindow}
+            onChange={(e) => setExpiryWindow(Number(e.target.value))}
+            className="px-4 py-2 rounded-xl border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors"
+          >
+            {EXPIRY_WINDOWS.map((days) => (
+              <option key={days} value={days}>
+                Within {days} days
+              </option>
+            ))}
+          </select>
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-12 h-12 border-4 border-sage-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : expiringLots.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-cream-50">
+              <tr className="text-left text-sm text-forest-600">
+                <th className="px-6 py-3 font-medium">Product</th>
+                <th className="px-6 py-3 font-medium">Lot</th>
+                <th className="px-6 py-3 font-medium">Supplier</th>
+                <th className="px-6 py-3 font-medium">On shelf</th>
+                <th className="px-6 py-3 font-medium">Best before</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-cream-200">
+              {expiringLots.map((lot) => (
+                <tr key={lot.id} className="text-sm text-forest-800">
+                  <td className="px-6 py-4">{productName(lot.productId)}</td>
+                  <td className="px-6 py-4 font-mono">{lot.lotCode}</td>
+                  <td className="px-6 py-4">{lot.supplier || '-'}</td>
+                  <td className="px-6 py-4">{lot.quantity} / {lot.receivedQuantity}</td>
+                  <td className="px-6 py-4">
+                    <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${getExpiryColor(lot.bestBefore!)}`}>
+                      {new Date(lot.bestBefore!).toLocaleDateString('sv-SE')}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-12 text-center text-forest-600">
+            <ArchiveBoxIcon className="h-12 w-12 mx-auto mb-4 text-forest-400" />
+            <p>No lots pass their best-before date within {expiryWindow} days</p>
+          </div>
+        )}
+      </div>
+
+      {/* Back-in-stock demand */}
+      <div className="bg-white rounded-2xl shadow-soft overflow-hidden">
+        <h2 className="p-6 text-xl font-semibold text-forest-800">Back-in-stock alerts</h2>
+        {demand.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-cream-50">
+              <tr className="text-left text-sm text-forest-600">
+                <th className="px-6 py-3 font-medium">Product</th>
+                <th className="px-6 py-3 font-medium">Stock</th>
+                <th className="px-6 py-3 font-medium">Waiting</th>
+                <th className="px-6 py-3 font-medium">Notified</th>
+                <th className="px-6 py-3 font-medium">Last subscribed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-cream-200">
+              {demand.map((row) => (
+                <tr key={row.productId} className="text-sm text-forest-800">
+                  <td className="px-6 py-4">
+                    {row.productName} <span className="text-forest-500">({row.sku})</span>
+                  </td>
+                  <td className={`px-6 py-4 ${row.stock <= 0 ? 'text-red-700 font-medium' : ''}`}>{row.stock}</td>
+                  <td className="px-6 py-4 font-medium">{row.pending}</td>
+                  <td className="px-6 py-4">{row.notified}</td>
+                  <td className="px-6 py-4">
+                    {row.lastSubscribedAt ? new Date(row.lastSubscribedAt).toLocaleDateString('sv-SE') : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-12 text-center text-forest-600">
+            <BellAlertIcon className="h-12 w-12 mx-auto mb-4 text-forest-400" />
+            <p>No customers are waiting for products to come back</p>
+          </div>
+        )}
+      </div>
+
+      {/* Recall lookup */}
+      <div className="bg-white rounded-2xl shadow-soft p-6">
+        <h2 className="text-xl font-semibold text-forest-800 mb-4">Recall lookup</h2>
+        <form onSubmit={handleRecallLookup} className="flex gap-4 mb-4">
+          <input
+            placeholder="Lot code"
+            value={recallCode}
+            onChange={(e) => setRecallCode(e.target.value)}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            className="flex items-center gap-2 px-6 py-3 bg-forest-700 text-white rounded-xl hover:bg-forest-800 transition-colors"
+          >
+            <MagnifyingGlassIcon className="h-5 w-5" />
+            Find
+          </button>
+        </form>
+        {recipients && (recipients.length > 0 ? (
+          <div className="divide-y divide-cream-200">
+            {recipients.map((recipient) => (
+              <div key={`${recipient.orderId}-${recipient.shippedAt}`} className="py-3 flex flex-wrap items-center gap-4 text-sm">
+                <Link
+                  href={`/admin/orders/${recipient.orderId}`}
+                  className="font-medium text-sage-700 hover:text-sage-800 hover:underline"
+                >
+                  {recipient.orderNumber}
+                </Link>
+                <span className="text-forest-800">
+                  {[recipient.firstName, recipient.lastName].filter(Boolean).join(' ') || 'Guest'}
+                </span>
+                {recipient.email && <span className="text-forest-600">{recipient.email}</span>}
+                <span className="text-forest-600">{recipient.quantity} x {recipient.productName}</span>
+                <span className="text-forest-500">
+                  {recipient.shippedAt
+                    ? `Shipped ${new Date(recipient.shippedAt).toLocaleDateString('sv-SE')}`
+                    : recipient.shipmentStatus}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-forest-600">Nothing from this lot has been sent to customers</p>
+        ))}
+      </div>
+    </div>
+  );
+}
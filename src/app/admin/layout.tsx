@@ -11,7 +11,13 @@ import {
   UserGroupIcon,
   ChartBarIcon,
   Cog6ToothIcon,
-  ArrowLeftIcon
+  ArrowUturnLeftIcon,
+  ArrowLeftIcon,
+  CalculatorIcon,
+  ChatBubbleLeftRightIcon,
+  ArchiveBoxIcon,
+  ClipboardDocumentListIcon,
+  InboxStackIcon
 } from '@heroicons/react/24/outline';
 
 export default function AdminLayout({
@@ -46,9 +52,15 @@ export default function AdminLayout({
   const navigation = [
     { name: 'Dashboard', href: '/admin', icon: HomeIcon },
     { name: 'Products', href: '/admin/products', icon: CubeIcon },
+    { name: 'Inventory', href: '/admin/inventory', icon: ArchiveBoxIcon },
+    { name: 'Purchasing', href: '/admin/purchasing', icon: ClipboardDocumentListIcon },
     { name: 'Orders', href: '/admin/orders', icon: ShoppingBagIcon },
+    { name: 'Fulfilment', href: '/admin/fulfilment', icon: InboxStackIcon },
+    { name: 'Returns', href: '/admin/returns', icon: ArrowUturnLeftIcon },
+    { name: 'Reviews', href: '/admin/reviews', icon: ChatBubbleLeftRightIcon },
     { name: 'Customers', href: '/admin/customers', icon: UserGroupIcon },
     { name: 'Analytics', href: '/admin/analytics', icon: ChartBarIcon },
+    { name: 'Accounting', href: '/admin/accounting', icon: CalculatorIcon },
     { name: 'Settings', href: '/admin/settings', icon: Cog6ToothIcon },
   ];
 
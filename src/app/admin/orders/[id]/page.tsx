@@ -0,0 +1,318 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeftIcon, ExclamationTriangleIcon, TruckIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { OrderStatusTimeline } from '@/components/orders/OrderStatusTimeline';
+import { ShipmentsPanel } from '@/components/admin/ShipmentsPanel';
+import type { DangerousGoodsCheck, OrderStatus } from '@/types';
+
+interface Address {
+  firstName?: string;
+  lastName?: string;
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+interface Order {
+  id: string;
+  orderNumber: string;
+  customerId: string;
+  items: Array<{
+    productId: string;
+    productName: string;
+    quantity: number;
+    price: number;
+    total: number;
+    lots?: Array<{ lotCode: string; bestBefore?: string; quantity: number }>;
+  }>;
+  total: number;
+  tax: number;
+  shipping: number;
+  status: OrderStatus;
+  shippingAddress: Address;
+  paymentMethod: string;
+  paymentStatus?: string;
+  trackingNumber?: string;
+  carrier?: string;
+  createdAt: string;
+}
+
+interface StatusChange {
+  id: string;
+  fromStatus?: OrderStatus;
+  toStatus: OrderStatus;
+  actor: string;
+  reason?: string;
+  createdAt: string;
+}
+
+// Orders take new shipments until everything has been sent
+const SHIPPABLE_STATUSES: OrderStatus[] = ['paid', 'picking', 'packed', 'shipped', 'in_transit'];
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Paid',
+  picking: 'Picking',
+  packed: 'Packed',
+  shipped: 'Shipped',
+  in_transit: 'In transit',
+  delivered: 'Delivered',
+  returned: 'Returned',
+  refunded: 'Refunded',
+  cancelled: 'Cancelled',
+};
+
+export default function AdminOrderDetailsPage() {
+  const params = useParams();
+  const orderId = params?.id as string;
+  const [order, setOrder] = useState<Order | null>(null);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [allowedTransitions, setAllowedTransitions] = useState<OrderStatus[]>([]);
+  const [dangerousGoods, setDangerousGoods] = useState<DangerousGoodsCheck | null>(null);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    if (orderId) {
+      fetchOrder();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orderId]);
+
+  const fetchOrder = async () => {
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}`);
+      const data = await response.json();
+      if (data.success) {
+        setOrder(data.data.order);
+        setHistory(data.data.history);
+        setAllowedTransitions(data.data.allowedTransitions);
+        setDangerousGoods(data.data.dangerousGoods);
+      } else {
+        toast.error(data.error || 'Failed to load order');
+      }
+    } catch (error) {
+      console.error('Failed to fetch order:', error);
+      toast.error('Failed to load order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (status: OrderStatus) => {
+    if (status === 'cancelled' && !confirm('Cancel this order? Stock is released and the payment refunded.')) {
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(reason.trim() ? { status, reason: reason.trim() } : { status }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(`Order marked as ${STATUS_LABELS[status].toLowerCase()}`);
+        setReason('');
+        // Reload rather than patch locally so the history and next steps are current
+        await fetchOrder();
+      } else {
+        toast.error(data.error || 'Failed to update order status');
+      }
+    } catch {
+      toast.error('Failed to update order status');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="w-16 h-16 border-4 border-sage-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="p-12 text-center text-forest-600">
+        <p>Order not found</p>
+        <Link href="/admin/orders" className="text-sage-700 hover:underline mt-4 inline-block">
+          Back to orders
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/admin/orders"
+          className="inline-flex items-center gap-2 text-sage-700 hover:text-sage-800 mb-4"
+        >
+          <ArrowLeftIcon className="h-4 w-4" />
+          Back to orders
+        </Link>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-serif font-bold text-forest-800">
+              Order {order.orderNumber}
+            </h1>
+            <p className="text-forest-600 mt-1">
+              Placed {new Date(order.createdAt).toLocaleString('sv-SE')}
+            </p>
+          </div>
+          <span className="inline-flex px-4 py-2 rounded-full text-sm font-medium bg-cream-200 text-forest-800">
+            {STATUS_LABELS[order.status] || order.status}
+          </span>
+        </div>
+      </div>
+
+      {/* Flammable oils ship as limited quantities, within per-package limits */}
+      {dangerousGoods?.limitedQuantity && (
+        <div
+          className={`rounded-2xl p-4 border ${dangerousGoods.warnings.length > 0
+            ? 'bg-amber-50 border-amber-200 text-amber-900'
+            : 'bg-cream-50 border-cream-200 text-forest-700'}`}
+        >
+          <div className="flex items-start gap-3">
+            <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium">
+                Dangerous goods, limited quantity: {dangerousGoods.unNumbers.join(', ')} ({dangerousGoods.totalVolumeMl} ml)
+              </p>
+              <p>The label carries a small LQ mark; the box needs the full-size mark too (100 mm, or 50 mm on small boxes).</p>
+              {dangerousGoods.warnings.length > 0 && (
+                <ul className="list-disc list-inside mt-2 space-y-1">
+                  {dangerousGoods.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Items */}
+          <div className="bg-white rounded-2xl shadow-soft p-6">
+            <h2 className="text-lg font-semibold text-forest-800 mb-4">Items</h2>
+            <div className="divide-y divide-cream-200">
+              {order.items.map((item) => (
+                <div key={item.productId} className="flex justify-between py-3 text-forest-700">
+                  <span>
+                    {item.quantity} &times; {item.productName}
+                    {item.lots && item.lots.length > 0 && (
+                      <span className="block text-xs text-forest-500 mt-1">
+                        Lot {item.lots.map((lot) => `${lot.lotCode} (${lot.quantity})`).join(', ')}
+                      </span>
+                    )}
+                  </span>
+                  <span className="font-medium">{item.total.toFixed(2)} kr</span>
+                </div>
+              ))}
+            </div>
+            <div className="border-t border-cream-200 mt-2 pt-3 space-y-1 text-sm text-forest-600">
+              <div className="flex justify-between">
+                <span>Shipping</span>
+                <span>{order.shipping.toFixed(2)} kr</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Of which VAT</span>
+                <span>{order.tax.toFixed(2)} kr</span>
+              </div>
+              <div className="flex justify-between text-base font-semibold text-forest-800">
+                <span>Total</span>
+                <span>{order.total.toFixed(2)} kr</span>
+              </div>
+            </div>
+          </div>
+
+          <ShipmentsPanel
+            orderId={order.id}
+            canShip={SHIPPABLE_STATUSES.includes(order.status)}
+            onChange={fetchOrder}
+          />
+
+          {/* Shipping and payment */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-white rounded-2xl shadow-soft p-6 text-forest-700">
+              <h2 className="text-lg font-semibold text-forest-800 mb-3">Shipping address</h2>
+              <p>{order.shippingAddress.firstName} {order.shippingAddress.lastName}</p>
+              <p>{order.shippingAddress.street}</p>
+              <p>{order.shippingAddress.postalCode} {order.shippingAddress.city}</p>
+              <p>{order.shippingAddress.country}</p>
+              {order.trackingNumber && (
+                <p className="flex items-center gap-2 mt-3 text-sm">
+                  <TruckIcon className="h-4 w-4" />
+                  {order.carrier && `${order.carrier} `}{order.trackingNumber}
+                </p>
+              )}
+            </div>
+            <div className="bg-white rounded-2xl shadow-soft p-6 text-forest-700">
+              <h2 className="text-lg font-semibold text-forest-800 mb-3">Payment</h2>
+              <p className="capitalize">{order.paymentMethod}</p>
+              <p className="text-sm text-forest-600 mt-1">{order.paymentStatus || 'pending'}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Status change */}
+          <div className="bg-white rounded-2xl shadow-soft p-6">
+            <h2 className="text-lg font-semibold text-forest-800 mb-4">Change status</h2>
+            {allowedTransitions.length > 0 ? (
+              <>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason (optional)"
+                  maxLength={500}
+                  className="w-full px-4 py-2 mb-3 rounded-xl border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors text-sm"
+                />
+                <div className="flex flex-wrap gap-2">
+                  {allowedTransitions.map((status) => (
+                    <button
+                      key={status}
+                      onClick={() => handleStatusChange(status)}
+                      disabled={updating}
+                      className={`px-3 py-1.5 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                        status === 'cancelled'
+                          ? 'text-red-700 hover:bg-red-50 border border-red-200'
+                          : 'text-sage-700 hover:bg-sage-50 border border-sage-200'
+                      }`}
+                    >
+                      {STATUS_LABELS[status]}
+                    </button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-forest-600">This order is closed and its status can no longer change.</p>
+            )}
+          </div>
+
+          {/* Status history */}
+          <div className="bg-white rounded-2xl shadow-soft p-6">
+            <h2 className="text-lg font-semibold text-forest-800 mb-4">Status history</h2>
+            <OrderStatusTimeline history={history} locale="en" showDetails />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
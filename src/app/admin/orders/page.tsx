@@ -8,22 +8,35 @@ import {
   TruckIcon,
   CheckCircleIcon,
   XCircleIcon,
-  ClockIcon
+  ClockIcon,
+  ExclamationTriangleIcon,
+  ArrowUturnLeftIcon
 } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
+import type { OrderStatus } from '@/types';
+import { getAllowedTransitions } from '@/services/orders/OrderStateMachine';
 
 interface Order {
   id: string;
+  orderNumber: string;
   customerId: string;
   customerName?: string;
   total: number;
-  status: string;
+  status: OrderStatus;
   paymentMethod: string;
   trackingNumber?: string;
   createdAt: string;
   itemsCount?: number;
 }
 
+interface ExpiringAuthorization {
+  orderId: string;
+  remainingAmount: number;
+  expiresAt: string;
+  daysLeft: number;
+  estimated: boolean;
+}
+
 export default function AdminOrdersPage() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<Order[]>([]);
@@ -31,10 +44,12 @@ export default function AdminOrdersPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [statistics, setStatistics] = useState<{ [key: string]: number }>({});
+  const [expiringAuthorizations, setExpiringAuthorizations] = useState<ExpiringAuthorization[]>([]);
 
   useEffect(() => {
     fetchOrders();
     fetchStatistics();
+    fetchExpiringAuthorizations();
   }, []);
 
   useEffect(() => {
@@ -69,6 +84,18 @@ export default function AdminOrdersPage() {
     }
   };
 
+  const fetchExpiringAuthorizations = async () => {
+    try {
+      const response = await fetch('/api/admin/payments/klarna');
+      const data = await response.json();
+      if (data.success) {
+        setExpiringAuthorizations(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch Klarna authorizations:', error);
+    }
+  };
+
   const filterOrders = () => {
     let filtered = [...orders];
 
@@ -76,6 +103,7 @@ export default function AdminOrdersPage() {
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(order =>
+        order.orderNumber.toLowerCase().includes(query) ||
         order.id.toLowerCase().includes(query) ||
         order.customerName?.toLowerCase().includes(query) ||
         order.trackingNumber?.toLowerCase().includes(query)
@@ -90,22 +118,23 @@ export default function AdminOrdersPage() {
     setFilteredOrders(filtered);
   };
 
-  const handleUpdateStatus = async (orderId: string, newStatus: string) => {
+  const handleUpdateStatus = async (orderId: string, newStatus: OrderStatus) => {
     try {
-      const response = await fetch(`/api/orders/${orderId}`, {
+      const response = await fetch(`/api/admin/orders/${orderId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ status: newStatus }),
       });
+      const data = await response.json();
 
-      if (response.ok) {
+      if (data.success) {
         setOrders(orders.map(o =>
-          o.id === orderId ? { ...o, status: newStatus } : o
+          o.id === orderId ? { ...o, ...data.data } : o
         ));
         toast.success('Order status updated');
         fetchStatistics(); // Refresh statistics
       } else {
-        toast.error('Failed to update order status');
+        toast.error(data.error || 'Failed to update order status');
       }
     } catch (error) {
       toast.error('Failed to update order status');
@@ -115,10 +144,14 @@ export default function AdminOrdersPage() {
   const getStatusColor = (status: string) => {
     const colors: { [key: string]: string } = {
       'pending': 'bg-yellow-100 text-yellow-800 border-yellow-200',
-      'confirmed': 'bg-blue-100 text-blue-800 border-blue-200',
-      'processing': 'bg-purple-100 text-purple-800 border-purple-200',
+      'paid': 'bg-blue-100 text-blue-800 border-blue-200',
+      'picking': 'bg-purple-100 text-purple-800 border-purple-200',
+      'packed': 'bg-purple-100 text-purple-800 border-purple-200',
       'shipped': 'bg-indigo-100 text-indigo-800 border-indigo-200',
+      'in_transit': 'bg-indigo-100 text-indigo-800 border-indigo-200',
       'delivered': 'bg-green-100 text-green-800 border-green-200',
+      'returned': 'bg-orange-100 text-orange-800 border-orange-200',
+      'refunded': 'bg-gray-100 text-gray-800 border-gray-200',
       'cancelled': 'bg-red-100 text-red-800 border-red-200',
     };
     return colors[status] || 'bg-gray-100 text-gray-800 border-gray-200';
@@ -128,12 +161,17 @@ export default function AdminOrdersPage() {
     switch (status) {
       case 'pending':
         return <ClockIcon className="h-4 w-4" />;
-      case 'confirmed':
-      case 'processing':
+      case 'paid':
+      case 'picking':
+      case 'packed':
         return <CheckCircleIcon className="h-4 w-4" />;
       case 'shipped':
+      case 'in_transit':
       case 'delivered':
         return <TruckIcon className="h-4 w-4" />;
+      case 'returned':
+      case 'refunded':
+        return <ArrowUturnLeftIcon className="h-4 w-4" />;
       case 'cancelled':
         return <XCircleIcon className="h-4 w-4" />;
       default:
@@ -141,12 +179,16 @@ export default function AdminOrdersPage() {
     }
   };
 
-  const statusOptions = [
+  const statusOptions: { value: OrderStatus; label: string }[] = [
     { value: 'pending', label: 'Pending' },
-    { value: 'confirmed', label: 'Confirmed' },
-    { value: 'processing', label: 'Processing' },
+    { value: 'paid', label: 'Paid' },
+    { value: 'picking', label: 'Picking' },
+    { value: 'packed', label: 'Packed' },
     { value: 'shipped', label: 'Shipped' },
+    { value: 'in_transit', label: 'In Transit' },
     { value: 'delivered', label: 'Delivered' },
+    { value: 'returned', label: 'Returned' },
+    { value: 'refunded', label: 'Refunded' },
     { value: 'cancelled', label: 'Cancelled' },
   ];
 
@@ -166,8 +208,37 @@ export default function AdminOrdersPage() {
         <p className="text-forest-600 mt-1">Manage and track customer orders</p>
       </div>
 
+      {/* Klarna authorizations close to expiry */}
+      {expiringAuthorizations.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-6">
+          <div className="flex items-center gap-2 mb-3">
+            <ExclamationTriangleIcon className="h-5 w-5 text-yellow-700" />
+            <h2 className="font-semibold text-yellow-800">
+              Klarna authorizations expiring soon
+            </h2>
+          </div>
+          <ul className="space-y-1 text-sm text-yellow-800">
+            {expiringAuthorizations.map((authorization) => (
+              <li key={authorization.orderId}>
+                <Link
+                  href={`/admin/orders/${authorization.orderId}`}
+                  className="font-medium hover:underline"
+                >
+                  #{authorization.orderId.substring(0, 8)}
+                </Link>
+                {' '}&ndash; {authorization.remainingAmount.toFixed(2)} kr uncaptured,{' '}
+                {authorization.daysLeft < 0
+                  ? 'expired'
+                  : `expires ${new Date(authorization.expiresAt).toLocaleDateString('sv-SE')}`}
+                {authorization.estimated && ' (estimated)'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Statistics */}
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
         {statusOptions.map((status) => (
           <div
             key={status.value}
@@ -194,7 +265,7 @@ export default function AdminOrdersPage() {
               <MagnifyingGlassIcon className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-forest-400" />
               <input
                 type="text"
-                placeholder="Search by order ID, customer, or tracking number..."
+                placeholder="Search by order number, customer, or tracking number..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="w-full pl-12 pr-4 py-3 rounded-xl border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors"
@@ -232,7 +303,7 @@ export default function AdminOrdersPage() {
               <thead className="bg-cream-50 border-b border-cream-200">
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
-                    Order ID
+                    Order
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
                     Customer
@@ -262,7 +333,7 @@ export default function AdminOrdersPage() {
                         href={`/admin/orders/${order.id}`}
                         className="text-sage-700 hover:text-sage-800 font-medium hover:underline"
                       >
-                        #{order.id.substring(0, 8)}
+                        {order.orderNumber}
                       </Link>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-forest-700">
@@ -279,10 +350,14 @@ export default function AdminOrdersPage() {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <select
                         value={order.status}
-                        onChange={(e) => handleUpdateStatus(order.id, e.target.value)}
+                        onChange={(e) => handleUpdateStatus(order.id, e.target.value as OrderStatus)}
                         className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border cursor-pointer ${getStatusColor(order.status)}`}
                       >
-                        {statusOptions.map((status) => (
+                        {/* Only the statuses the order can move to next */}
+                        {statusOptions.filter((status) =>
+                          status.value === order.status ||
+                          getAllowedTransitions(order.status).includes(status.value)
+                        ).map((status) => (
                           <option key={status.value} value={status.value}>
                             {status.label}
                           </option>
@@ -294,7 +369,7 @@ export default function AdminOrdersPage() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <Link
-                        href={`/account/orders/${order.id}`}
+                        href={`/admin/orders/${order.id}`}
                         className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-sage-50 text-sage-700 transition-colors"
                       >
                         <EyeIcon className="h-4 w-4" />
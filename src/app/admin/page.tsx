@@ -24,6 +24,7 @@ interface DashboardStats {
 
 interface RecentOrder {
   id: string;
+  orderNumber: string;
   customer: string;
   total: number;
   status: string;
@@ -120,9 +121,13 @@ export default function AdminDashboard() {
   const getStatusColor = (status: string) => {
     const colors: { [key: string]: string } = {
       'pending': 'bg-yellow-100 text-yellow-800 border-yellow-200',
-      'confirmed': 'bg-blue-100 text-blue-800 border-blue-200',
+      'paid': 'bg-blue-100 text-blue-800 border-blue-200',
+      'picking': 'bg-blue-100 text-blue-800 border-blue-200',
+      'packed': 'bg-blue-100 text-blue-800 border-blue-200',
       'shipped': 'bg-purple-100 text-purple-800 border-purple-200',
+      'in_transit': 'bg-purple-100 text-purple-800 border-purple-200',
       'delivered': 'bg-green-100 text-green-800 border-green-200',
+      'returned': 'bg-orange-100 text-orange-800 border-orange-200',
       'cancelled': 'bg-red-100 text-red-800 border-red-200',
     };
     return colors[status] || 'bg-gray-100 text-gray-800 border-gray-200';
@@ -190,7 +195,7 @@ export default function AdminDashboard() {
               <thead className="bg-cream-50 border-b border-cream-200">
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
-                    Order ID
+                    Order
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
                     Customer
@@ -214,7 +219,7 @@ export default function AdminDashboard() {
                         href={`/admin/orders/${order.id}`}
                         className="text-sage-700 hover:text-sage-800 font-medium hover:underline"
                       >
-                        #{order.id.substring(0, 8)}
+                        {order.orderNumber}
                       </Link>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-forest-700">
@@ -0,0 +1,510 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ClipboardDocumentListIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+
+interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  leadTimeDays?: number;
+  isActive: boolean;
+}
+
+interface PurchaseOrderLine {
+  id: string;
+  productId: string;
+  productName?: string;
+  sku?: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplier?: Supplier;
+  status: 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+  lines: PurchaseOrderLine[];
+  notes?: string;
+  expectedAt?: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
+interface ReceiptLine {
+  quantity: string;
+  lotCode: string;
+  bestBefore: string;
+}
+
+const emptyReceiptLine: ReceiptLine = {
+  quantity: '',
+  lotCode: '',
+  bestBefore: '',
+};
+
+const emptySupplier = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  leadTimeDays: '',
+};
+
+export default function AdminPurchasingPage() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [newSupplier, setNewSupplier] = useState(emptySupplier);
+  const [savingSupplier, setSavingSupplier] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [receipt, setReceipt] = useState<Record<string, ReceiptLine>>({});
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    fetchSuppliers();
+    fetchPurchaseOrders();
+  }, []);
+
+  const fetchSuppliers = async () => {
+    try {
+      const response = await fetch('/api/admin/purchasing/suppliers?includeInactive=true');
+      const data = await response.json();
+      if (data.success) {
+        setSuppliers(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch suppliers:', error);
+    }
+  };
+
+  const fetchPurchaseOrders = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/purchasing/purchase-orders');
+      const data = await response.json();
+      if (data.success) {
+        setPurchaseOrders(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch purchase orders:', error);
+      toast.error('Failed to load purchase orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replaceOrder = (purchaseOrder: PurchaseOrder) => {
+    setPurchaseOrders(orders => orders.map(order => order.id === purchaseOrder.id ? purchaseOrder : order));
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const response = await fetch('/api/admin/purchasing/purchase-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'generate' }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(data.data.length > 0
+          ? `${data.data.length} draft purchase order(s) created`
+          : 'Nothing needs reordering');
+        fetchPurchaseOrders();
+      } else {
+        toast.error(data.error || 'Failed to generate purchase orders');
+      }
+    } catch {
+      toast.error('Failed to generate purchase orders');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleAddSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingSupplier(true);
+
+    try {
+      const response = await fetch('/api/admin/purchasing/suppliers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newSupplier.name,
+          contactName: newSupplier.contactName || undefined,
+          email: newSupplier.email || undefined,
+          phone: newSupplier.phone || undefined,
+          leadTimeDays: newSupplier.leadTimeDays ? Number(newSupplier.leadTimeDays) : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(`${data.data.name} added`);
+        setNewSupplier(emptySupplier);
+        fetchSuppliers();
+      } else {
+        toast.error(data.error || 'Failed to add supplier');
+      }
+    } catch {
+      toast.error('Failed to add supplier');
+    } finally {
+      setSavingSupplier(false);
+    }
+  };
+
+  const toggleSupplier = async (supplier: Supplier) => {
+    try {
+      const response = await fetch(`/api/admin/purchasing/suppliers/${supplier.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !supplier.isActive }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSuppliers(list => list.map(s => s.id === supplier.id ? data.data : s));
+      } else {
+        toast.error(data.error || 'Failed to update supplier');
+      }
+    } catch {
+      toast.error('Failed to update supplier');
+    }
+  };
+
+  const handleAction = async (purchaseOrder: PurchaseOrder, action: 'send' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel ${purchaseOrder.poNumber}?`)) return;
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/admin/purchasing/purchase-orders/${purchaseOrder.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(action === 'send'
+          ? `${purchaseOrder.poNumber} sent to ${purchaseOrder.supplier?.email}`
+          : `${purchaseOrder.poNumber} cancelled`);
+        replaceOrder(data.data);
+      } else {
+        toast.error(data.error || 'Failed to update purchase order');
+      }
+    } catch {
+      toast.error('Failed to update purchase order');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleReceive = async (purchaseOrder: PurchaseOrder) => {
+    const lines = purchaseOrder.lines
+      .map(line => ({ line, entry: receipt[line.id] }))
+      .filter(({ entry }) => entry && Number(entry.quantity) > 0)
+      .map(({ line, entry }) => ({
+        lineId: line.id,
+        quantity: Number(entry.quantity),
+        lotCode: entry.lotCode || undefined,
+        bestBefore: entry.bestBefore || undefined,
+      }));
+
+    if (lines.length === 0) {
+      toast.error('Enter the quantities that arrived');
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/admin/purchasing/purchase-orders/${purchaseOrder.id}/receipts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lines }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success('Delivery received into stock');
+        setReceipt({});
+        replaceOrder(data.data);
+      } else {
+        toast.error(data.error || 'Failed to receive delivery');
+      }
+    } catch {
+      toast.error('Failed to receive delivery');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const updateReceipt = (lineId: string, field: keyof ReceiptLine, value: string) => {
+    setReceipt(current => ({
+      ...current,
+      [lineId]: { ...(current[lineId] || emptyReceiptLine), [field]: value },
+    }));
+  };
+
+  const orderTotal = (purchaseOrder: PurchaseOrder) =>
+    purchaseOrder.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0);
+
+  const getStatusColor = (status: PurchaseOrder['status']) => {
+    const colors = {
+      draft: 'bg-gray-100 text-gray-800',
+      sent: 'bg-blue-100 text-blue-800',
+      partially_received: 'bg-yellow-100 text-yellow-800',
+      received: 'bg-green-100 text-green-800',
+      cancelled: 'bg-red-100 text-red-800',
+    };
+    return colors[status];
+  };
+
+  const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors';
+  const smallInputClass = 'w-full px-3 py-2 rounded-lg border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-forest-800">Purchasing</h1>
+          <p className="text-forest-600 mt-1">Reorder from suppliers and receive their deliveries into stock</p>
+        </div>
+        <button
+          onClick={handleGenerate}
+          disabled={generating}
+          className="px-6 py-3 bg-sage-600 text-white rounded-xl hover:bg-sage-700 disabled:opacity-50 transition-colors"
+        >
+          {generating ? 'Generating...' : 'Create reorder drafts'}
+        </button>
+      </div>
+
+      {/* Purchase orders */}
+      <div className="bg-white rounded-2xl shadow-soft overflow-hidden">
+        <h2 className="p-6 text-xl font-semibold text-forest-800">Purchase orders</h2>
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-12 h-12 border-4 border-sage-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : purchaseOrders.length > 0 ? (
+          <div className="divide-y divide-cream-200">
+            {purchaseOrders.map((purchaseOrder) => {
+              const receivable = purchaseOrder.status === 'sent' || purchaseOrder.status === 'partially_received';
+
+              return (
+                <div key={purchaseOrder.id}>
+                  <button
+                    onClick={() => setSelectedId(selectedId === purchaseOrder.id ? null : purchaseOrder.id)}
+                    className="w-full px-6 py-4 flex flex-wrap items-center gap-4 text-left text-sm hover:bg-cream-50 transition-colors"
+                  >
+                    <span className="font-mono font-medium text-forest-800">{purchaseOrder.poNumber}</span>
+                    <span className="text-forest-800">{purchaseOrder.supplier?.name}</span>
+                    <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(purchaseOrder.status)}`}>
+                      {purchaseOrder.status.replace('_', ' ')}
+                    </span>
+                    <span className="text-forest-600">{purchaseOrder.lines.length} line(s)</span>
+                    <span className="ml-auto text-forest-800">{orderTotal(purchaseOrder).toFixed(2)} kr</span>
+                  </button>
+
+                  {selectedId === purchaseOrder.id && (
+                    <div className="px-6 pb-6 space-y-4">
+                      <table className="w-full text-sm">
+                        <thead className="bg-cream-50">
+                          <tr className="text-left text-forest-600">
+                            <th className="px-3 py-2 font-medium">Product</th>
+                            <th className="px-3 py-2 font-medium">Unit cost</th>
+                            <th className="px-3 py-2 font-medium">Received</th>
+                            {receivable && (
+                              <>
+                                <th className="px-3 py-2 font-medium">Arrived now</th>
+                                <th className="px-3 py-2 font-medium">Lot</th>
+                                <th className="px-3 py-2 font-medium">Best before</th>
+                              </>
+                            )}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-cream-200">
+                          {purchaseOrder.lines.map((line) => {
+                            const outstanding = line.quantityOrdered - line.quantityReceived;
+
+                            return (
+                              <tr key={line.id} className="text-forest-800">
+                                <td className="px-3 py-2">
+                                  {line.productName} <span className="text-forest-500">({line.sku})</span>
+                                </td>
+                                <td className="px-3 py-2">{line.unitCost.toFixed(2)} kr</td>
+                                <td className="px-3 py-2">{line.quantityReceived} / {line.quantityOrdered}</td>
+                                {receivable && (
+                                  <>
+                                    <td className="px-3 py-2">
+                                      <input
+                                        type="number"
+                                        min={0}
+                                        max={outstanding}
+                                        disabled={outstanding === 0}
+                                        value={receipt[line.id]?.quantity || ''}
+                                        onChange={(e) => updateReceipt(line.id, 'quantity', e.target.value)}
+                                        className={smallInputClass}
+                                      />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                      <input
+                                        disabled={outstanding === 0}
+                                        value={receipt[line.id]?.lotCode || ''}
+                                        onChange={(e) => updateReceipt(line.id, 'lotCode', e.target.value)}
+                                        className={smallInputClass}
+                                      />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                      <input
+                                        type="date"
+                                        disabled={outstanding === 0}
+                                        value={receipt[line.id]?.bestBefore || ''}
+                                        onChange={(e) => updateReceipt(line.id, 'bestBefore', e.target.value)}
+                                        className={smallInputClass}
+                                      />
+                                    </td>
+                                  </>
+                                )}
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+
+                      {purchaseOrder.notes && <p className="text-sm text-forest-600">{purchaseOrder.notes}</p>}
+
+                      <div className="flex flex-wrap justify-end gap-3">
+                        <a
+                          href={`/api/admin/purchasing/purchase-orders/${purchaseOrder.id}/pdf`}
+                          className="flex items-center gap-2 px-4 py-2 border-2 border-cream-300 text-forest-800 rounded-xl hover:border-sage-600 transition-colors"
+                        >
+                          <ArrowDownTrayIcon className="h-5 w-5" />
+                          PDF
+                        </a>
+                        {(purchaseOrder.status === 'draft' || purchaseOrder.status === 'sent') && (
+                          <>
+                            <button
+                              onClick={() => handleAction(purchaseOrder, 'cancel')}
+                              disabled={updating}
+                              className="px-4 py-2 text-red-700 border-2 border-red-200 rounded-xl hover:bg-red-50 disabled:opacity-50 transition-colors"
+                            >
+                              Cancel order
+                            </button>
+                            <button
+                              onClick={() => handleAction(purchaseOrder, 'send')}
+                              disabled={updating || !purchaseOrder.supplier?.email}
+                              title={purchaseOrder.supplier?.email ? undefined : 'Supplier has no email address'}
+                              className="px-4 py-2 bg-forest-700 text-white rounded-xl hover:bg-forest-800 disabled:opacity-50 transition-colors"
+                            >
+                              {purchaseOrder.status === 'sent' ? 'Send again' : 'Send to supplier'}
+                            </button>
+                          </>
+                        )}
+                        {receivable && (
+                          <button
+                            onClick={() => handleReceive(purchaseOrder)}
+                            disabled={updating}
+                            className="px-4 py-2 bg-sage-600 text-white rounded-xl hover:bg-sage-700 disabled:opacity-50 transition-colors"
+                          >
+                            Receive delivery
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="p-12 text-center text-forest-600">
+            <ClipboardDocumentListIcon className="h-12 w-12 mx-auto mb-4 text-forest-400" />
+            <p>No purchase orders yet</p>
+          </div>
+        )}
+      </div>
+
+      {/* Suppliers */}
+      <div className="bg-white rounded-2xl shadow-soft p-6">
+        <h2 className="text-xl font-semibold text-forest-800 mb-4">Suppliers</h2>
+        {suppliers.length > 0 && (
+          <div className="divide-y divide-cream-200 mb-6">
+            {suppliers.map((supplier) => (
+              <div key={supplier.id} className="py-3 flex flex-wrap items-center gap-4 text-sm">
+                <span className={`font-medium ${supplier.isActive ? 'text-forest-800' : 'text-forest-400 line-through'}`}>
+                  {supplier.name}
+                </span>
+                {supplier.contactName && <span className="text-forest-600">{supplier.contactName}</span>}
+                {supplier.email && <span className="text-forest-600">{supplier.email}</span>}
+                {supplier.leadTimeDays !== undefined && (
+                  <span className="text-forest-500">{supplier.leadTimeDays} days lead time</span>
+                )}
+                <button
+                  onClick={() => toggleSupplier(supplier)}
+                  className="ml-auto text-sage-700 hover:text-sage-800 hover:underline"
+                >
+                  {supplier.isActive ? 'Deactivate' : 'Activate'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <form onSubmit={handleAddSupplier} className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <input
+            required
+            placeholder="Supplier name"
+            value={newSupplier.name}
+            onChange={(e) => setNewSupplier({ ...newSupplier, name: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            placeholder="Contact"
+            value={newSupplier.contactName}
+            onChange={(e) => setNewSupplier({ ...newSupplier, contactName: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="email"
+            placeholder="Order email"
+            value={newSupplier.email}
+            onChange={(e) => setNewSupplier({ ...newSupplier, email: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            placeholder="Phone"
+            value={newSupplier.phone}
+            onChange={(e) => setNewSupplier({ ...newSupplier, phone: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={0}
+            placeholder="Lead time (days)"
+            value={newSupplier.leadTimeDays}
+            onChange={(e) => setNewSupplier({ ...newSupplier, leadTimeDays: e.target.value })}
+            className={inputClass}
+          />
+          <div className="md:col-span-5 flex justify-end">
+            <button
+              type="submit"
+              disabled={savingSupplier}
+              className="px-6 py-3 bg-sage-600 text-white rounded-xl hover:bg-sage-700 disabled:opacity-50 transition-colors"
+            >
+              {savingSupplier ? 'Saving...' : 'Add supplier'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+
+interface ReturnItem {
+  productId: string;
+  quantity: number;
+  condition?: string;
+}
+
+interface ReturnRequest {
+  id: string;
+  orderId: string;
+  status: string;
+  reason: string;
+  refundAmount: number;
+  refundMethod?: string;
+  adminNotes?: string;
+  items: ReturnItem[];
+  createdAt: string;
+}
+
+type ReturnAction = 'approve' | 'reject' | 'receive' | 'refund';
+
+export default function AdminReturnsPage() {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('pending');
+
+  useEffect(() => {
+    fetchReturns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  const fetchReturns = async () => {
+    setLoading(true);
+    try {
+      const query = statusFilter !== 'all' ? `?status=${statusFilter}` : '';
+      const response = await fetch(`/api/admin/returns${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setReturns(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch returns:', error);
+      toast.error('Failed to load returns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAction = async (returnId: string, action: ReturnAction) => {
+    let body: Record<string, string> = { action };
+
+    if (action === 'reject') {
+      const adminNotes = prompt('Reason for rejecting the return');
+      if (!adminNotes) return;
+      body = { action, adminNotes };
+    }
+
+    if (action === 'receive') {
+      const trackingNumber = prompt('Return tracking number (optional)') || undefined;
+      body = trackingNumber ? { action, trackingNumber } : { action };
+    }
+
+    try {
+      const response = await fetch(`/api/admin/returns/${returnId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReturns(returns.map(r => r.id === returnId ? data.data : r));
+        toast.success('Return updated');
+      } else {
+        toast.error(data.error || 'Failed to update return');
+      }
+    } catch {
+      toast.error('Failed to update return');
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    const colors: { [key: string]: string } = {
+      'pending': 'bg-yellow-100 text-yellow-800',
+      'approved': 'bg-blue-100 text-blue-800',
+      'received': 'bg-purple-100 text-purple-800',
+      'refunded': 'bg-green-100 text-green-800',
+      'rejected': 'bg-red-100 text-red-800',
+      'cancelled': 'bg-gray-100 text-gray-800',
+    };
+    return colors[status] || 'bg-gray-100 text-gray-800';
+  };
+
+  // Next steps available from each status, mirroring ReturnService
+  const actionsFor = (status: string): ReturnAction[] => {
+    switch (status) {
+      case 'pending':
+        return ['approve', 'reject'];
+      case 'approved':
+        return ['receive', 'reject'];
+      case 'received':
+        return ['refund'];
+      default:
+        return [];
+    }
+  };
+
+  const actionLabels: Record<ReturnAction, string> = {
+    approve: 'Approve',
+    reject: 'Reject',
+    receive: 'Mark received',
+    refund: 'Refund',
+  };
+
+  const statusOptions = [
+    { value: 'pending', label: 'Pending' },
+    { value: 'approved', label: 'Approved' },
+    { value: 'received', label: 'Received' },
+    { value: 'refunded', label: 'Refunded' },
+    { value: 'rejected', label: 'Rejected' },
+    { value: 'cancelled', label: 'Cancelled' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-forest-800">Returns</h1>
+          <p className="text-forest-600 mt-1">Review return requests and issue refunds</p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="px-4 py-3 rounded-xl border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors"
+        >
+          <option value="all">All Statuses</option>
+          {statusOptions.map((status) => (
+            <option key={status.value} value={status.value}>
+              {status.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Returns Table */}
+      <div className="bg-white rounded-2xl shadow-soft overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-12 h-12 border-4 border-sage-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : returns.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-cream-50 border-b border-cream-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Order
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Items
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Refund
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-forest-600 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-cream-200">
+                {returns.map((returnRequest) => (
+                  <tr key={returnRequest.id} className="hover:bg-cream-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Link
+                        href={`/admin/orders/${returnRequest.orderId}`}
+                        className="text-sage-700 hover:text-sage-800 font-medium hover:underline"
+                      >
+                        #{returnRequest.orderId.substring(0, 8)}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-forest-700">
+                      {returnRequest.items.map((item) => (
+                        <div key={item.productId}>
+                          {item.quantity} × {item.productId.substring(0, 8)}
+                          {item.condition && ` (${item.condition})`}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-forest-700 max-w-xs">
+                      {returnRequest.reason}
+                      {returnRequest.adminNotes && (
+                        <p className="text-xs text-forest-500 mt-1">Note: {returnRequest.adminNotes}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap font-medium text-forest-800">
+                      {returnRequest.refundAmount.toFixed(2)} kr
+                      {returnRequest.refundMethod && (
+                        <span className="block text-xs font-normal text-forest-500">{returnRequest.refundMethod}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(returnRequest.status)}`}>
+                        {returnRequest.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-forest-600">
+                      {new Date(returnRequest.createdAt).toLocaleDateString('sv-SE')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex gap-2">
+                        {actionsFor(returnRequest.status).map((action) => (
+                          <button
+                            key={action}
+                            onClick={() => handleAction(returnRequest.id, action)}
+                            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                              action === 'reject'
+                                ? 'text-red-700 hover:bg-red-50'
+                                : 'text-sage-700 hover:bg-sage-50'
+                            }`}
+                          >
+                            {actionLabels[action]}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="p-12 text-center text-forest-600">
+            <ArrowUturnLeftIcon className="h-12 w-12 mx-auto mb-4 text-forest-400" />
+            <p>No returns found</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
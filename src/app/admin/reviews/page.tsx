@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ChatBubbleLeftRightIcon, CheckBadgeIcon } from '@heroicons/react/24/outline';
+import { StarIcon } from '@heroicons/react/24/solid';
+import toast from 'react-hot-toast';
+
+interface Review {
+  id: string;
+  productId: string;
+  authorName: string;
+  rating: number;
+  title: string;
+  comment: string;
+  verified: boolean;
+  status: string;
+  moderationNote?: string;
+  helpful: number;
+  createdAt: string;
+}
+
+type ReviewAction = 'approve' | 'reject';
+
+export default function AdminReviewsPage() {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('pending');
+
+  useEffect(() => {
+    fetchReviews();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  const fetchReviews = async () => {
+    setLoading(true);
+    try {
+      const query = statusFilter !== 'all' ? `?status=${statusFilter}` : '';
+      const response = await fetch(`/api/admin/reviews${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setReviews(data.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch reviews:', error);
+      toast.error('Failed to load reviews');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAction = async (reviewId: string, action: ReviewAction) => {
+    let body: Record<string, string> = { action };
+
+    if (action === 'reject') {
+      const moderationNote = prompt('Reason for rejecting the review (optional)');
+      if (moderationNote === null) return;
+      body = moderationNote ? { action, moderationNote } : { action };
+    }
+
+    try {
+      const response = await fetch(`/api/admin/reviews/${reviewId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        // Moderated reviews leave the filtered queue
+        setReviews(statusFilter === 'all'
+          ? reviews.map(r => r.id === reviewId ? data.data : r)
+          : reviews.filter(r => r.id !== reviewId));
+        toast.success(action === 'approve' ? 'Review published' : 'Review rejected');
+      } else {
+        toast.error(data.error || 'Failed to update review');
+      }
+    } catch {
+      toast.error('Failed to update review');
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    const colors: { [key: string]: string } = {
+      'pending': 'bg-yellow-100 text-yellow-800',
+      'approved': 'bg-green-100 text-green-800',
+      'rejected': 'bg-red-100 text-red-800',
+    };
+    return colors[status] || 'bg-gray-100 text-gray-800';
+  };
+
+  // A published review can still be taken down, and a rejected one published
+  const actionsFor = (status: string): ReviewAction[] => {
+    switch (status) {
+      case 'pending':
+        return ['approve', 'reject'];
+      case 'approved':
+        return ['reject'];
+      case 'rejected':
+        return ['approve'];
+      default:
+        return [];
+    }
+  };
+
+  const statusOptions = [
+    { value: 'pending', label: 'Awaiting moderation' },
+    { value: 'approved', label: 'Published' },
+    { value: 'rejected', label: 'Rejected' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-forest-800">Reviews</h1>
+          <p className="text-forest-600 mt-1">Approve customer reviews before they appear in the shop</p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="px-4 py-3 rounded-xl border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors"
+        >
+          <option value="all">All Statuses</option>
+          {statusOptions.map((status) => (
+            <option key={status.value} value={status.value}>
+              {status.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Reviews */}
+      <div className="bg-white rounded-2xl shadow-soft overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-12 h-12 border-4 border-sage-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : reviews.length > 0 ? (
+          <div className="divide-y divide-cream-200">
+            {reviews.map((review) => (
+              <div key={review.id} className="p-6 flex flex-col md:flex-row md:items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-3 mb-2">
+                    <div className="flex gap-0.5">
+                      {[1, 2, 3, 4, 5].map((star) => (
+                        <StarIcon
+                          key={star}
+                          className={`h-4 w-4 ${star <= review.rating ? 'text-yellow-400' : 'text-gray-300'}`}
+                        />
+                      ))}
+                    </div>
+                    <span className="font-semibold text-forest-800">{review.title}</span>
+                    <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(review.status)}`}>
+                      {review.status}
+                    </span>
+                  </div>
+                  <p className="text-forest-700 text-sm leading-relaxed mb-2">{review.comment}</p>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-forest-500">
+                    <span className="flex items-center gap-1">
+                      {review.authorName}
+                      {review.verified && (
+                        <CheckBadgeIcon className="h-4 w-4 text-green-600" title="Verified purchase" />
+                      )}
+                    </span>
+                    <span>{new Date(review.createdAt).toLocaleDateString('sv-SE')}</span>
+                    <Link
+                      href={`/products/${review.productId}`}
+                      className="text-sage-700 hover:text-sage-800 hover:underline"
+                    >
+                      View product
+                    </Link>
+                    {review.status === 'approved' && <span>{review.helpful} found it helpful</span>}
+                  </div>
+                  {review.moderationNote && (
+                    <p className="text-xs text-forest-500 mt-1">Note: {review.moderationNote}</p>
+                  )}
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  {actionsFor(review.status).map((action) => (
+                    <button
+                      key={action}
+                      onClick={() => handleAction(review.id, action)}
+                      className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                        action === 'reject'
+                          ? 'text-red-700 hover:bg-red-50'
+                          : 'text-sage-700 hover:bg-sage-50'
+                      }`}
+                    >
+                      {action === 'approve' ? 'Approve' : 'Reject'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="p-12 text-center text-forest-600">
+            <ChatBubbleLeftRightIcon className="h-12 w-12 mx-auto mb-4 text-forest-400" />
+            <p>No reviews found</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
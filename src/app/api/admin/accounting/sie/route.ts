@@ -0,0 +1,54 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IAccountingExportService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * GET /api/admin/accounting/sie?from=2025-01-01&to=2025-03-31
+ * SIE4 file with the period's sales and refunds, for import into the accounting program
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { success: false, error: 'from and to dates are required' },
+        { status: 400 }
+      );
+    }
+
+    const accountingService = container.resolve<IAccountingExportService>(TOKENS.IAccountingExportService);
+    const result = await accountingService.exportSie({ from, to });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error?.startsWith('Invalid period') ? 400 : 500 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(result.data!.content), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/plain; charset=IBM437',
+        'Content-Disposition': `attachment; filename="${result.data!.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('SIE export API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IAccountingExportService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * GET /api/admin/accounting/vat-return?from=2025-01-01&to=2025-03-31
+ * Momsdeklaration boxes for the period, plus the OSS sales declared separately
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { success: false, error: 'from and to dates are required' },
+        { status: 400 }
+      );
+    }
+
+    const accountingService = container.resolve<IAccountingExportService>(TOKENS.IAccountingExportService);
+    const result = await accountingService.getVatReturn({ from, to });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error?.startsWith('Invalid period') ? 400 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('VAT return API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IPromotionService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * DELETE /api/admin/discount-codes/[id]
+ * Deactivates a discount code. Codes are kept so past redemptions stay traceable.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const promotionService = container.resolve<IPromotionService>(TOKENS.IPromotionService);
+    const result = await promotionService.deactivateCode(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Discount code deactivate API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IPromotionService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const createDiscountCodeSchema = z.object({
+  code: z.string().min(3).max(50),
+  type: z.enum(['percentage', 'fixed_amount', 'free_shipping']),
+  value: z.number().min(0).default(0),
+  description: z.string().max(200).optional(),
+  minOrderValue: z.number().positive().optional(),
+  eligibleCategories: z.array(z.enum(['essential-oils', 'carrier-oils', 'diffusers', 'accessories', 'gift-sets', 'bundles'])).optional(),
+  validFrom: z.coerce.date().optional(),
+  validUntil: z.coerce.date().optional(),
+  usageLimit: z.number().int().positive().optional(),
+  usageLimitPerCustomer: z.number().int().positive().optional(),
+  singleUse: z.boolean().default(false),
+  active: z.boolean().default(true),
+});
+
+/**
+ * GET /api/admin/discount-codes
+ * Lists all discount codes with their usage counts
+ */
+export async function GET() {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const promotionService = container.resolve<IPromotionService>(TOKENS.IPromotionService);
+    const result = await promotionService.listCodes();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Discount codes API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/discount-codes
+ * Creates a discount code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await request.json();
+    const parsed = createDiscountCodeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const promotionService = container.resolve<IPromotionService>(TOKENS.IPromotionService);
+    const result = await promotionService.createCode(parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Discount code create API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
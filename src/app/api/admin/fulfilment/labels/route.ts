@@ -0,0 +1,60 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IFulfilmentService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const batchSchema = z.object({
+  orderIds: z.array(z.string().uuid('Invalid order ID')).min(1, 'Choose at least one order').max(100),
+});
+
+/**
+ * POST /api/admin/fulfilment/labels
+ * One PDF with the shipping labels for the batch. A POST because items not
+ * yet in a shipment are put in one and booked with their carrier first.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const parsed = batchSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const fulfilmentService = container.resolve<IFulfilmentService>(TOKENS.IFulfilmentService);
+    const result = await fulfilmentService.renderBatchLabels(parsed.data.orderIds, {
+      actor: `admin:${session.user.id}`,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(result.data!), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'inline; filename="shipping-labels.pdf"',
+      },
+    });
+  } catch (error) {
+    console.error('Batch labels API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
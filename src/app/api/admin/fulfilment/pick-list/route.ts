@@ -0,0 +1,56 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IFulfilmentService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const batchSchema = z.object({
+  orderIds: z.array(z.string().uuid('Invalid order ID')).min(1, 'Choose at least one order').max(100),
+});
+
+/**
+ * GET /api/admin/fulfilment/pick-list?orderIds=a,b,c
+ * Everything to pick for the batch, by shelf location
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const parsed = batchSchema.safeParse({
+      orderIds: request.nextUrl.searchParams.get('orderIds')?.split(',').filter(Boolean) ?? [],
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const fulfilmentService = container.resolve<IFulfilmentService>(TOKENS.IFulfilmentService);
+    const result = await fulfilmentService.getPickList(parsed.data.orderIds);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Pick list API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import '@/config/di-init';
+import { NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IFulfilmentService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * GET /api/admin/fulfilment
+ * Orders waiting in the warehouse: paid, being picked or packed, oldest first
+ */
+export async function GET() {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const fulfilmentService = container.resolve<IFulfilmentService>(TOKENS.IFulfilmentService);
+    const result = await fulfilmentService.getFulfilmentQueue();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Fulfilment queue API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IFulfilmentService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const batchStatusSchema = z.object({
+  orderIds: z.array(z.string().uuid('Invalid order ID')).min(1, 'Choose at least one order').max(100),
+  status: z.enum(['picking', 'packed']),
+  reason: z.string().trim().max(500).optional(),
+});
+
+/**
+ * POST /api/admin/fulfilment/status
+ * Moves the whole batch to picking or packed; if any order cannot go there,
+ * none of them are changed
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const parsed = batchStatusSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const fulfilmentService = container.resolve<IFulfilmentService>(TOKENS.IFulfilmentService);
+    const result = await fulfilmentService.updateBatchStatus(parsed.data.orderIds, parsed.data.status, {
+      actor: `admin:${session.user.id}`,
+      reason: parsed.data.reason || undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Batch status API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
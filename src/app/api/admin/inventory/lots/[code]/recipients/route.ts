@@ -0,0 +1,44 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IInventoryService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * GET /api/admin/inventory/lots/[code]/recipients
+ * Orders and customers that were sent something from the lot, for a recall
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { code } = await params;
+    const inventoryService = container.resolve<IInventoryService>(TOKENS.IInventoryService);
+    const result = await inventoryService.getLotRecipients(code);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Lot code is required' ? 400 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin lot recipients API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IInventoryService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const receiveLotSchema = z.object({
+  productId: z.string().uuid('Invalid product'),
+  lotCode: z.string().trim().min(1, 'Lot code is required').max(100),
+  quantity: z.number().int().positive('Quantity must be a positive whole number'),
+  supplier: z.string().trim().max(255).optional(),
+  receivedAt: z.coerce.date().optional(),
+  bestBefore: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/admin/inventory/lots?productId=...
+ * GET /api/admin/inventory/lots?expiringWithin=90
+ * Lots of a product in picking order, or lots passing their best-before date
+ * within the given days. Without parameters the default near-expiry window is used.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const productId = searchParams.get('productId');
+    const expiringWithin = searchParams.get('expiringWithin');
+    const days = expiringWithin ? Number(expiringWithin) : undefined;
+
+    if (days !== undefined && (!Number.isInteger(days) || days < 0)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid expiringWithin: ${expiringWithin}` },
+        { status: 400 }
+      );
+    }
+
+    const inventoryService = container.resolve<IInventoryService>(TOKENS.IInventoryService);
+    const result = productId
+      ? await inventoryService.getProductLots(productId)
+      : await inventoryService.getNearExpiryAlerts(days);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin inventory lots API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/inventory/lots
+ * Receives a delivered lot onto the shelf and into the product's stock
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await request.json();
+    const parsed = receiveLotSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const inventoryService = container.resolve<IInventoryService>(TOKENS.IInventoryService);
+    const result = await inventoryService.receiveLot(parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Product not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Admin receive lot API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import '@/config/di-init';
+import { NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IStockNotificationService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * GET /api/admin/inventory/stock-notifications
+ * Back-in-stock subscriptions per product, most waiting first
+ */
+export async function GET() {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const stockNotificationService = container.resolve<IStockNotificationService>(TOKENS.IStockNotificationService);
+    const result = await stockNotificationService.getDemand();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin stock notifications API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IOrderService, IShippingService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+import { ORDER_STATUSES, getAllowedTransitions } from '@/services/orders/OrderStateMachine';
+
+const statusChangeSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  reason: z.string().trim().max(500).optional(),
+});
+
+/**
+ * GET /api/admin/orders/[id]
+ * The order with its status history, the statuses it can move to next and
+ * the dangerous goods it holds
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
+
+    const orderResult = await orderService.getOrder(id);
+    if (!orderResult.success) {
+      return NextResponse.json(
+        { success: false, error: orderResult.error },
+        { status: orderResult.error === 'Order not found' ? 404 : 500 }
+      );
+    }
+
+    const historyResult = await orderService.getOrderStatusHistory(orderResult.data!.id);
+    if (!historyResult.success) {
+      return NextResponse.json(
+        { success: false, error: historyResult.error },
+        { status: 500 }
+      );
+    }
+
+    const shippingService = container.resolve<IShippingService>(TOKENS.IShippingService);
+    const dangerousGoodsResult = await shippingService.checkDangerousGoods(orderResult.data!);
+    if (!dangerousGoodsResult.success) {
+      return NextResponse.json(
+        { success: false, error: dangerousGoodsResult.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order: orderResult.data,
+        history: historyResult.data,
+        allowedTransitions: getAllowedTransitions(orderResult.data!.status),
+        dangerousGoods: dangerousGoodsResult.data,
+      },
+    });
+  } catch (error) {
+    console.error('Admin order API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/orders/[id]
+ * Moves the order to a new status, if the state machine allows it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = statusChangeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
+    const result = await orderService.updateOrderStatus(id, parsed.data.status, {
+      actor: `admin:${session.user.id}`,
+      reason: parsed.data.reason || undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Order not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin order update API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IOrderService, IShipmentService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+import { getUnallocatedItems } from '@/services/shipping/ShipmentStateMachine';
+
+const createShipmentSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.number().int().min(1),
+  })).min(1, 'A shipment needs at least one item'),
+  carrier: z.string().trim().max(50).optional(),
+});
+
+/**
+ * GET /api/admin/orders/[id]/shipments
+ * The order's shipments and the items not yet allocated to one
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
+    const shipmentService = container.resolve<IShipmentService>(TOKENS.IShipmentService);
+
+    const orderResult = await orderService.getOrder(id);
+    if (!orderResult.success) {
+      return NextResponse.json(
+        { success: false, error: orderResult.error },
+        { status: orderResult.error === 'Order not found' ? 404 : 500 }
+      );
+    }
+
+    const shipmentsResult = await shipmentService.getOrderShipments(orderResult.data!.id);
+    if (!shipmentsResult.success) {
+      return NextResponse.json(
+        { success: false, error: shipmentsResult.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        shipments: shipmentsResult.data,
+        unallocatedItems: getUnallocatedItems(orderResult.data!.items, shipmentsResult.data!),
+      },
+    });
+  } catch (error) {
+    console.error('Admin shipments API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/orders/[id]/shipments
+ * Puts some of the order's items in a new shipment
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = createShipmentSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const shipmentService = container.resolve<IShipmentService>(TOKENS.IShipmentService);
+    const result = await shipmentService.createShipment(id, parsed.data, {
+      actor: `admin:${session.user.id}`,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Order not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Admin shipment create API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
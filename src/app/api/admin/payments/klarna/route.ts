@@ -0,0 +1,110 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IKlarnaOrderManagementService, IOrderService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const captureSchema = z.object({
+  orderId: z.string().min(1),
+  amount: z.number().positive().optional(),
+  reference: z.string().max(64).optional(),
+});
+
+/**
+ * GET /api/admin/payments/klarna?days=7
+ * Lists Klarna authorizations that expire within the given number of days
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const daysParam = searchParams.get('days');
+    const days = daysParam ? parseInt(daysParam) : undefined;
+
+    const klarnaService = container.resolve<IKlarnaOrderManagementService>(TOKENS.IKlarnaOrderManagementService);
+    const result = await klarnaService.getExpiringAuthorizations(
+      days !== undefined && !isNaN(days) ? days : undefined
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Klarna authorizations API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/payments/klarna
+ * Captures part or all of a Klarna authorization, e.g. for one parcel of a split shipment
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await request.json();
+    const parsed = captureSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
+    const klarnaService = container.resolve<IKlarnaOrderManagementService>(TOKENS.IKlarnaOrderManagementService);
+
+    const orderResult = await orderService.getOrder(parsed.data.orderId);
+    if (!orderResult.success || !orderResult.data) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await klarnaService.captureOrder(orderResult.data, {
+      amount: parsed.data.amount,
+      reference: parsed.data.reference,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Klarna capture API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
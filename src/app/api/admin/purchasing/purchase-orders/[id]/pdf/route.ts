@@ -0,0 +1,56 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IPurchaseOrderService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * GET /api/admin/purchasing/purchase-orders/[id]/pdf
+ * The purchase order PDF as the supplier receives it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const purchaseOrderService = container.resolve<IPurchaseOrderService>(TOKENS.IPurchaseOrderService);
+    const orderResult = await purchaseOrderService.getPurchaseOrder(id);
+
+    if (!orderResult.success) {
+      return NextResponse.json(
+        { success: false, error: orderResult.error },
+        { status: orderResult.error === 'Purchase order not found' ? 404 : 500 }
+      );
+    }
+
+    const pdfResult = await purchaseOrderService.renderPdf(orderResult.data!);
+
+    if (!pdfResult.success) {
+      return NextResponse.json(
+        { success: false, error: pdfResult.error },
+        { status: 500 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(pdfResult.data!), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="inkopsorder-${orderResult.data!.poNumber}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Purchase order PDF API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
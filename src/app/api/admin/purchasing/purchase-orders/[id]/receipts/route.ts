@@ -0,0 +1,65 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IPurchaseOrderService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const goodsReceiptSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string().uuid('Invalid purchase order line'),
+    quantity: z.number().int().min(0, 'Quantity cannot be negative'),
+    lotCode: z.string().trim().max(100).optional(),
+    bestBefore: z.coerce.date().optional(),
+  })).min(1, 'Nothing was received'),
+});
+
+/**
+ * POST /api/admin/purchasing/purchase-orders/[id]/receipts
+ * Books a delivery against the order. Deliveries may be partial; the order is
+ * received once every line has arrived in full.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = goodsReceiptSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const purchaseOrderService = container.resolve<IPurchaseOrderService>(TOKENS.IPurchaseOrderService);
+    const result = await purchaseOrderService.receiveGoods(id, parsed.data.lines);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Purchase order not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Admin goods receipt API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IPurchaseOrderService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const purchaseOrderActionSchema = z.object({
+  action: z.enum(['send', 'cancel']),
+});
+
+/**
+ * GET /api/admin/purchasing/purchase-orders/[id]
+ * A purchase order with its lines and what has been received of each
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const purchaseOrderService = container.resolve<IPurchaseOrderService>(TOKENS.IPurchaseOrderService);
+    const result = await purchaseOrderService.getPurchaseOrder(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Purchase order not found' ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin purchase order API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/purchasing/purchase-orders/[id]
+ * Emails the order to the supplier ("send") or cancels it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = purchaseOrderActionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const purchaseOrderService = container.resolve<IPurchaseOrderService>(TOKENS.IPurchaseOrderService);
+    const result = parsed.data.action === 'send'
+      ? await purchaseOrderService.sendPurchaseOrder(id)
+      : await purchaseOrderService.cancelPurchaseOrder(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Purchase order not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin purchase order update API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
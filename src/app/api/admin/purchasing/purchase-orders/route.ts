@@ -0,0 +1,134 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IPurchaseOrderService } from '@/interfaces';
+import type { PurchaseOrderStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+const STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received', 'received', 'cancelled'];
+
+const purchaseOrderSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    supplierId: z.string().uuid('Invalid supplier'),
+    lines: z.array(z.object({
+      productId: z.string().uuid('Invalid product'),
+      quantityOrdered: z.number().int().positive('Quantity must be a positive whole number'),
+      unitCost: z.number().min(0, 'Unit cost cannot be negative'),
+    })).min(1, 'Purchase order has no lines'),
+    notes: z.string().max(1000).optional(),
+    expectedAt: z.coerce.date().optional(),
+  }),
+  z.object({
+    action: z.literal('generate'),
+  }),
+]);
+
+/**
+ * GET /api/admin/purchasing/purchase-orders?status=sent
+ * Purchase orders, newest first, optionally in one status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    if (status && !STATUSES.includes(status as PurchaseOrderStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const purchaseOrderService = container.resolve<IPurchaseOrderService>(TOKENS.IPurchaseOrderService);
+    const result = await purchaseOrderService.getPurchaseOrders((status as PurchaseOrderStatus) || undefined);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin purchase orders API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/purchasing/purchase-orders
+ * Creates a draft purchase order, or with action "generate" one draft per
+ * supplier for everything at or below its reorder level
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await request.json();
+    const parsed = purchaseOrderSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const purchaseOrderService = container.resolve<IPurchaseOrderService>(TOKENS.IPurchaseOrderService);
+
+    if (parsed.data.action === 'generate') {
+      const result = await purchaseOrderService.generateReorderDrafts();
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+      }, { status: 201 });
+    }
+
+    const { supplierId, lines, notes, expectedAt } = parsed.data;
+    const result = await purchaseOrderService.createPurchaseOrder({ supplierId, lines, notes, expectedAt });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Admin create purchase order API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
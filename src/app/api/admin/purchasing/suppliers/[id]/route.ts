@@ -0,0 +1,71 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IPurchaseOrderService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const updateSupplierSchema = z.object({
+  name: z.string().trim().min(1, 'Supplier name is required').max(255),
+  contactName: z.string().trim().max(255),
+  email: z.string().trim().email('Invalid email address').or(z.literal('')),
+  phone: z.string().trim().max(50),
+  address: z.object({
+    street: z.string().trim().min(1, 'Street is required'),
+    postalCode: z.string().trim().min(1, 'Postal code is required'),
+    city: z.string().trim().min(1, 'City is required'),
+    country: z.string().trim().length(2, 'Country must be a two-letter code'),
+  }),
+  leadTimeDays: z.number().int().min(0),
+  notes: z.string().max(1000),
+  isActive: z.boolean(),
+}).partial();
+
+/**
+ * PATCH /api/admin/purchasing/suppliers/[id]
+ * Updates the given supplier fields; isActive: false retires the supplier
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = updateSupplierSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const purchaseOrderService = container.resolve<IPurchaseOrderService>(TOKENS.IPurchaseOrderService);
+    const result = await purchaseOrderService.updateSupplier(id, parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Supplier not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin update supplier API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
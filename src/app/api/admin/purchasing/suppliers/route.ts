@@ -0,0 +1,104 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IPurchaseOrderService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const createSupplierSchema = z.object({
+  name: z.string().trim().min(1, 'Supplier name is required').max(255),
+  contactName: z.string().trim().max(255).optional(),
+  email: z.string().trim().email('Invalid email address').optional().or(z.literal('')),
+  phone: z.string().trim().max(50).optional(),
+  address: z.object({
+    street: z.string().trim().min(1, 'Street is required'),
+    postalCode: z.string().trim().min(1, 'Postal code is required'),
+    city: z.string().trim().min(1, 'City is required'),
+    country: z.string().trim().length(2, 'Country must be a two-letter code'),
+  }).optional(),
+  leadTimeDays: z.number().int().min(0).optional(),
+  notes: z.string().max(1000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * GET /api/admin/purchasing/suppliers?includeInactive=true
+ * Suppliers by name, active ones only unless asked otherwise
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    const purchaseOrderService = container.resolve<IPurchaseOrderService>(TOKENS.IPurchaseOrderService);
+    const result = await purchaseOrderService.getSuppliers(includeInactive);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin suppliers API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/purchasing/suppliers
+ * Adds a supplier that products can be ordered from
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await request.json();
+    const parsed = createSupplierSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const purchaseOrderService = container.resolve<IPurchaseOrderService>(TOKENS.IPurchaseOrderService);
+    const result = await purchaseOrderService.createSupplier(parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Admin create supplier API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IReturnService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const returnActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('approve'),
+    adminNotes: z.string().max(1000).optional(),
+    refundAmount: z.number().min(0).optional(),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    adminNotes: z.string().min(1, 'A reason is required when rejecting a return').max(1000),
+  }),
+  z.object({
+    action: z.literal('receive'),
+    trackingNumber: z.string().max(100).optional(),
+  }),
+  z.object({
+    action: z.literal('refund'),
+  }),
+]);
+
+/**
+ * PATCH /api/admin/returns/[id]
+ * Moves a return through approve -> receive -> refund, or rejects it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = returnActionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const returnService = container.resolve<IReturnService>(TOKENS.IReturnService);
+    const action = parsed.data;
+
+    let result;
+    switch (action.action) {
+      case 'approve':
+        result = await returnService.approveReturn(id, {
+          adminNotes: action.adminNotes,
+          refundAmount: action.refundAmount,
+        });
+        break;
+      case 'reject':
+        result = await returnService.rejectReturn(id, action.adminNotes);
+        break;
+      case 'receive':
+        result = await returnService.markReceived(id, action.trackingNumber);
+        break;
+      case 'refund':
+        result = await returnService.refundReturn(id);
+        break;
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin return update API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IReturnService } from '@/interfaces';
+import type { ReturnStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+const RETURN_STATUSES: ReturnStatus[] = ['pending', 'approved', 'rejected', 'received', 'refunded', 'cancelled'];
+
+/**
+ * GET /api/admin/returns?status=pending
+ * Returns queue, oldest first. Without a status every return is listed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as ReturnStatus | null;
+
+    if (status && !RETURN_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const returnService = container.resolve<IReturnService>(TOKENS.IReturnService);
+    const result = await returnService.getReturnsByStatus(status || undefined);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin returns API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IReviewService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const reviewActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('approve'),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    moderationNote: z.string().max(1000).optional(),
+  }),
+]);
+
+/**
+ * PATCH /api/admin/reviews/[id]
+ * Approves a review so it is published, or rejects it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = reviewActionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const reviewService = container.resolve<IReviewService>(TOKENS.IReviewService);
+    const action = parsed.data;
+
+    const result = action.action === 'approve'
+      ? await reviewService.approveReview(id)
+      : await reviewService.rejectReview(id, action.moderationNote);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Review not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin review update API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IReviewService } from '@/interfaces';
+import type { ReviewStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * GET /api/admin/reviews?status=pending
+ * Moderation queue, oldest first. Without a status every review is listed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as ReviewStatus | null;
+
+    if (status && !REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const reviewService = container.resolve<IReviewService>(TOKENS.IReviewService);
+    const result = await reviewService.getReviewsByStatus(status || undefined);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin reviews API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
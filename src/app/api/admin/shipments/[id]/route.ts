@@ -0,0 +1,74 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { IShipmentService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+import { SHIPMENT_STATUSES } from '@/services/shipping/ShipmentStateMachine';
+
+const shipmentActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('label'),
+  }),
+  z.object({
+    action: z.literal('status'),
+    status: z.enum(SHIPMENT_STATUSES),
+    reason: z.string().trim().max(500).optional(),
+  }),
+]);
+
+/**
+ * PATCH /api/admin/shipments/[id]
+ * Prints the shipment's label or moves it to a new status; the order follows
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = shipmentActionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const shipmentService = container.resolve<IShipmentService>(TOKENS.IShipmentService);
+    const action = parsed.data;
+
+    const result = action.action === 'label'
+      ? await shipmentService.generateLabel(id)
+      : await shipmentService.updateShipmentStatus(id, action.status, {
+        actor: `admin:${session.user.id}`,
+        reason: action.reason || undefined,
+      });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Shipment not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin shipment update API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -13,6 +13,8 @@ export async function GET(request: NextRequest) {
     const sessionId = request.headers.get('x-session-id');
     const { searchParams } = new URL(request.url);
     const cartId = searchParams.get('cartId');
+    const discountCode = searchParams.get('discountCode') || undefined;
+    const country = searchParams.get('country') || undefined;
 
     if (!cartId && !session?.user?.id && !sessionId) {
       return NextResponse.json(
@@ -46,7 +48,7 @@ export async function GET(request: NextRequest) {
       targetCartId = cartResult.data!.id;
     }
 
-    const result = await cartService.getCartSummary(targetCartId);
+    const result = await cartService.getCartSummary(targetCartId, discountCode, country);
 
     if (!result.success) {
       return NextResponse.json(
@@ -2,7 +2,7 @@ import '@/config/di-init';
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { ICartService, IShippingService, IPaymentService, IOrderService } from '@/interfaces';
+import { ICartService, IShippingService, IPaymentService, IOrderService, IPromotionService, IInventoryService } from '@/interfaces';
 import { IEmailService } from '@/interfaces/email';
 import { container, TOKENS } from '@/config/di-container';
 import { orderSchema } from '@/utils/validation';
@@ -12,6 +12,8 @@ const shippingService = container.resolve<IShippingService>(TOKENS.IShippingServ
 const paymentService = container.resolve<IPaymentService>(TOKENS.IPaymentService);
 const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
 const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
+const promotionService = container.resolve<IPromotionService>(TOKENS.IPromotionService);
+const inventoryService = container.resolve<IInventoryService>(TOKENS.IInventoryService);
 
 export async function POST(request: NextRequest) {
   try {
@@ -33,16 +35,25 @@ export async function POST(request: NextRequest) {
 
     switch (action) {
       case 'validate-cart':
-        return handleValidateCart(session?.user?.id, sessionId);
+        return handleValidateCart(session?.user?.id, sessionId, body.country);
       
+      case 'reserve-stock':
+        return handleReserveStock(body, session?.user?.id, sessionId);
+
       case 'calculate-shipping':
         return handleCalculateShipping(body);
       
       case 'create-payment-intent':
         return handleCreatePaymentIntent(body);
       
+      case 'apply-discount':
+        return handleApplyDiscount(body, session?.user?.id);
+      
+      case 'calculate-totals':
+        return handleCalculateTotals(body, session?.user?.id);
+      
       case 'process-payment':
-        return handleProcessPayment(body, session?.user?.id);
+        return handleProcessPayment(body, session?.user?.id, sessionId);
       
       default:
         return NextResponse.json(
@@ -65,7 +76,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function handleValidateCart(userId?: string, sessionId?: string | null) {
+async function handleValidateCart(userId?: string, sessionId?: string | null, country?: string) {
   try {
     const cartResult = await cartService.getCart(userId, sessionId || undefined);
     
@@ -96,7 +107,7 @@ async function handleValidateCart(userId?: string, sessionId?: string | null) {
     }
 
     // Get cart summary
-    const summaryResult = await cartService.getCartSummary(cart.id);
+    const summaryResult = await cartService.getCartSummary(cart.id, undefined, country);
     
     if (!summaryResult.success) {
       return NextResponse.json({
@@ -199,7 +210,115 @@ async function handleCreatePaymentIntent(body: any) {
   }
 }
 
-async function handleProcessPayment(body: any, userId?: string) {
+async function handleApplyDiscount(body: any, userId?: string) {
+  try {
+    const { code, items, shippingCost } = body;
+
+    if (!code || !items) {
+      return NextResponse.json({
+        success: false,
+        error: 'Discount code and items are required',
+      }, { status: 400 });
+    }
+
+    const result = await promotionService.validateCode(code, {
+      customerId: userId,
+      items,
+      shippingCost,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error,
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: `Failed to apply discount code: ${error}`,
+    }, { status: 500 });
+  }
+}
+
+// Holds the cart's stock while the customer fills in the checkout. Passing the
+// checkout's current reservation swaps it for one matching the cart.
+async function handleReserveStock(body: any, userId?: string, sessionId?: string | null) {
+  try {
+    const { items, reservationId } = body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Items are required',
+      }, { status: 400 });
+    }
+
+    const result = await inventoryService.reserveStock(items, userId, sessionId || undefined, reservationId);
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { reservationId: result.data },
+    });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: `Failed to reserve stock: ${error}`,
+    }, { status: 500 });
+  }
+}
+
+async function handleCalculateTotals(body: any, userId?: string) {
+  try {
+    const { items, country, shippingCost = 0, discountCode } = body;
+
+    if (!items || !country) {
+      return NextResponse.json({
+        success: false,
+        error: 'Items and country are required',
+      }, { status: 400 });
+    }
+
+    const result = await orderService.calculateTotals({
+      customerId: userId,
+      items,
+      country,
+      shippingCost,
+      discountCode,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error,
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: `Failed to calculate totals: ${error}`,
+    }, { status: 500 });
+  }
+}
+
+async function handleProcessPayment(body: any, userId?: string, sessionId?: string | null) {
   try {
     const validation = orderSchema.safeParse(body);
     if (!validation.success) {
@@ -219,16 +338,18 @@ async function handleProcessPayment(body: any, userId?: string) {
       }, { status: 403 });
     }
 
-    // Ensure all items have prices
-    const itemsWithPrices = orderData.items.map(item => ({
-      ...item,
-      price: item.price || 0
+    // Items are priced from the catalogue by OrderService; the client's prices are not trusted
+    const items = orderData.items.map(item => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      price: 0,
     }));
 
     // Create order using OrderService (this handles payment, stock reservation, and DB persistence)
     const orderResult = await orderService.createOrder({
       ...orderData,
-      items: itemsWithPrices
+      items,
+      sessionId: sessionId || undefined,
     });
 
     if (!orderResult.success) {
@@ -245,23 +366,6 @@ async function handleProcessPayment(body: any, userId?: string) {
     // This should be enhanced to query the customer email and name from the database
     console.log(`Order ${order.id} created successfully. Email notification skipped (customer email not available in order data)`);
 
-    // Generate shipping label for confirmed orders
-    let shippingLabel = null;
-    if (order.status === 'confirmed') {
-      try {
-        const labelResult = await shippingService.generateShippingLabel(order);
-        if (labelResult.success && labelResult.data) {
-          shippingLabel = labelResult.data;
-          console.log(`Shipping label generated for order ${order.id}: ${labelResult.data.trackingNumber}`);
-        } else {
-          console.error(`Failed to generate shipping label for order ${order.id}:`, labelResult.error);
-        }
-      } catch (labelError) {
-        // Log error but don't fail the order
-        console.error(`Error generating shipping label for order ${order.id}:`, labelError);
-      }
-    }
-
     // Determine if we need to redirect for payment
     const paymentRedirectUrl = order.paymentMethod === 'swish' || order.paymentMethod === 'klarna'
       ? `/checkout/${order.paymentMethod}?orderId=${order.id}`
@@ -274,8 +378,10 @@ async function handleProcessPayment(body: any, userId?: string) {
           id: order.id,
           customerId: order.customerId,
           items: order.items,
-          subtotal: order.total - order.tax - order.shipping,
+          subtotal: order.items.reduce((sum, item) => sum + item.total, 0),
+          discount: order.discount,
           tax: order.tax,
+          vatBreakdown: order.vatBreakdown,
           shipping: order.shipping,
           total: order.total,
           paymentId: order.paymentId,
@@ -287,14 +393,9 @@ async function handleProcessPayment(body: any, userId?: string) {
         },
         payment: {
           paymentId: order.paymentId,
-          status: order.status === 'confirmed' ? 'success' : 'pending',
+          status: order.status === 'paid' ? 'success' : 'pending',
           redirectUrl: paymentRedirectUrl,
         },
-        shippingLabel: shippingLabel ? {
-          trackingNumber: shippingLabel.trackingNumber,
-          carrierCode: shippingLabel.carrierCode,
-          labelUrl: shippingLabel.labelPdfUrl,
-        } : null,
       },
     });
   } catch (error) {
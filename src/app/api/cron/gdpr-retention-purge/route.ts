@@ -0,0 +1,64 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import type { IGDPRService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * Cron job endpoint that deletes personal and accounting data whose retention
+ * period has expired (see GDPRService.getDataRetentionPolicies)
+ *
+ * Security: Requires CRON_SECRET header to prevent unauthorized access
+ * Vercel Cron: Configured in vercel.json
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('Unauthorized cron access attempt');
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const gdprService = container.resolve<IGDPRService>(TOKENS.IGDPRService);
+
+    const result = await gdprService.purgeExpiredData();
+
+    if (!result.success || !result.data) {
+      console.error('[GDPR Retention Cron] Purge failed:', result.error);
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to purge expired data' },
+        { status: 500 }
+      );
+    }
+
+    const { ordersDeleted, customersDeleted, supportMessagesDeleted } = result.data;
+    console.log(
+      `[GDPR Retention Cron] Deleted ${ordersDeleted} orders, ${customersDeleted} customers and ${supportMessagesDeleted} support messages`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Expired data purged',
+      ...result.data,
+    });
+  } catch (error) {
+    console.error('[GDPR Retention Cron] Unexpected error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unexpected error: ${error}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Disable caching for cron endpoints
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -0,0 +1,113 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import type { IEmailService, IKlarnaOrderManagementService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+import type { ExpiringAuthorization } from '@/types';
+
+/**
+ * Cron job endpoint that warns admins about Klarna authorizations close to expiry
+ * Runs daily; an authorization that expires uncaptured can no longer be charged
+ *
+ * Security: Requires CRON_SECRET header to prevent unauthorized access
+ * Vercel Cron: Configured in vercel.json
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('Unauthorized cron access attempt');
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const klarnaService = container.resolve<IKlarnaOrderManagementService>(TOKENS.IKlarnaOrderManagementService);
+    const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
+
+    const result = await klarnaService.getExpiringAuthorizations();
+
+    if (!result.success || !result.data) {
+      console.error('[Klarna Expiry Cron] Failed to check authorizations:', result.error);
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to check Klarna authorizations' },
+        { status: 500 }
+      );
+    }
+
+    const expiring = result.data;
+    console.log(`[Klarna Expiry Cron] Found ${expiring.length} authorizations close to expiry`);
+
+    if (expiring.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'No Klarna authorizations close to expiry',
+        expiringCount: 0,
+      });
+    }
+
+    const emailResult = await emailService.sendEmail({
+      to: config.email.adminEmail,
+      subject: `${expiring.length} Klarna authorization(s) expire soon`,
+      html: buildAlertHtml(expiring),
+      text: buildAlertText(expiring),
+    });
+
+    if (!emailResult.success) {
+      console.error('[Klarna Expiry Cron] Failed to send alert email:', emailResult.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${expiring.length} Klarna authorizations close to expiry`,
+      expiringCount: expiring.length,
+      alertSent: emailResult.success,
+      authorizations: expiring,
+    });
+  } catch (error) {
+    console.error('[Klarna Expiry Cron] Unexpected error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unexpected error: ${error}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function describe(authorization: ExpiringAuthorization): string {
+  const when = authorization.daysLeft < 0
+    ? 'expired'
+    : `expires in ${authorization.daysLeft} day(s)`;
+  const estimate = authorization.estimated ? ' (estimated)' : '';
+  return `Order ${authorization.orderId}: ${authorization.remainingAmount.toFixed(2)} SEK uncaptured, ${when}${estimate}`;
+}
+
+function buildAlertText(expiring: ExpiringAuthorization[]): string {
+  return [
+    'The following Klarna authorizations have not been fully captured:',
+    '',
+    ...expiring.map(describe),
+    '',
+    `Review them at ${config.app.url}/admin/orders`,
+  ].join('\n');
+}
+
+function buildAlertHtml(expiring: ExpiringAuthorization[]): string {
+  const rows = expiring.map(a => `<li>${describe(a)}</li>`).join('');
+  return `
+    <p>The following Klarna authorizations have not been fully captured:</p>
+    <ul>${rows}</ul>
+    <p><a href="${config.app.url}/admin/orders">Review orders</a></p>
+  `;
+}
+
+// Disable caching for cron endpoints
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -0,0 +1,62 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import type { ITrackingService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * Cron job endpoint that polls carriers for the tracking events of shipments
+ * on their way, for carriers that don't push them. Each run takes the batch
+ * checked least recently, so every parcel comes round again.
+ *
+ * Security: Requires CRON_SECRET header to prevent unauthorized access
+ * Vercel Cron: Configured in vercel.json
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('Unauthorized cron access attempt');
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const trackingService = container.resolve<ITrackingService>(TOKENS.ITrackingService);
+
+    const result = await trackingService.pollShipments();
+
+    if (!result.success || !result.data) {
+      console.error('[Tracking Poll Cron] Failed:', result.error);
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to poll tracking' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Tracking Poll Cron] Polled ${result.data.polled} shipments, ${result.data.recorded} new events`);
+
+    return NextResponse.json({
+      success: true,
+      message: `Polled ${result.data.polled} shipments`,
+      ...result.data,
+    });
+  } catch (error) {
+    console.error('[Tracking Poll Cron] Unexpected error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unexpected error: ${error}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Disable caching for cron endpoints
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -0,0 +1,62 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import type { IStockNotificationService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * Cron job endpoint that works through the back-in-stock queues. Restocks
+ * notify a first batch straight away; this sends the next batch every hour
+ * while stock remains, and picks up stock added by goods receipts.
+ *
+ * Security: Requires CRON_SECRET header to prevent unauthorized access
+ * Vercel Cron: Configured in vercel.json
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('Unauthorized cron access attempt');
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const stockNotificationService = container.resolve<IStockNotificationService>(TOKENS.IStockNotificationService);
+
+    const result = await stockNotificationService.processPendingNotifications();
+
+    if (!result.success || !result.data) {
+      console.error('[Back In Stock Cron] Failed:', result.error);
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to send back-in-stock notifications' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Back In Stock Cron] Sent ${result.data.notified} notifications`);
+
+    return NextResponse.json({
+      success: true,
+      message: `Sent ${result.data.notified} back-in-stock notifications`,
+      ...result.data,
+    });
+  } catch (error) {
+    console.error('[Back In Stock Cron] Unexpected error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unexpected error: ${error}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Disable caching for cron endpoints
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
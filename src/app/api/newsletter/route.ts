@@ -1,9 +1,11 @@
+import '@/config/di-init';
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import crypto from 'crypto';
 import { container } from '@/config/di-container';
 import { TOKENS } from '@/config/di-container';
 import type { IEmailService } from '@/interfaces/email';
+import type { IPromotionService } from '@/interfaces';
 
 export async function POST(request: NextRequest) {
   try {
@@ -86,11 +88,13 @@ export async function POST(request: NextRequest) {
         }
 
         // Generate and send welcome email with discount code
-        const discountCode = `WELCOME10-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+        const discountCode = await issueWelcomeCode();
 
         try {
-          const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
-          await emailService.sendNewsletterWelcome(email, discountCode, locale as 'sv' | 'en');
+          if (discountCode) {
+            const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
+            await emailService.sendNewsletterWelcome(email, discountCode, locale as 'sv' | 'en');
+          }
         } catch (emailError) {
           console.error('Failed to send welcome email:', emailError);
           // Don't fail the subscription if email fails - they're still subscribed
@@ -112,9 +116,11 @@ export async function POST(request: NextRequest) {
       if (existingSubscription.status === 'pending') {
         // Resend verification email
         try {
-          const discountCode = `WELCOME10-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
-          const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
-          await emailService.sendNewsletterWelcome(email, discountCode, locale as 'sv' | 'en');
+          const discountCode = await issueWelcomeCode();
+          if (discountCode) {
+            const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
+            await emailService.sendNewsletterWelcome(email, discountCode, locale as 'sv' | 'en');
+          }
         } catch (emailError) {
           console.error('Failed to resend welcome email:', emailError);
         }
@@ -158,20 +164,22 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate unique discount code
-    const discountCode = `WELCOME10-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+    const discountCode = await issueWelcomeCode();
 
     // Send welcome email with discount code
     try {
-      const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
-      const emailResult = await emailService.sendNewsletterWelcome(
-        email,
-        discountCode,
-        locale as 'sv' | 'en'
-      );
+      if (discountCode) {
+        const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
+        const emailResult = await emailService.sendNewsletterWelcome(
+          email,
+          discountCode,
+          locale as 'sv' | 'en'
+        );
 
-      if (!emailResult.success) {
-        console.error('Email service error:', emailResult.error);
-        // Don't fail the subscription - they're still subscribed
+        if (!emailResult.success) {
+          console.error('Email service error:', emailResult.error);
+          // Don't fail the subscription - they're still subscribed
+        }
       }
     } catch (emailError) {
       console.error('Failed to send welcome email:', emailError);
@@ -311,3 +319,22 @@ export async function DELETE(request: NextRequest) {
     );
   }
 }
+
+// Creates a redeemable single-use welcome code. Returns undefined if it could not be stored,
+// so we never email a code that checkout would reject.
+async function issueWelcomeCode(): Promise<string | undefined> {
+  try {
+    const promotionService = container.resolve<IPromotionService>(TOKENS.IPromotionService);
+    const result = await promotionService.createWelcomeCode();
+
+    if (!result.success) {
+      console.error('Failed to create welcome discount code:', result.error);
+      return undefined;
+    }
+
+    return result.data!.code;
+  } catch (error) {
+    console.error('Failed to create welcome discount code:', error);
+    return undefined;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Order Status History API
+ *
+ * GET /api/orders/[id]/history - Status changes of one of the customer's orders, oldest first
+ */
+
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { IOrderService } from '@/interfaces';
+import { container, TOKENS } from '@/config/di-container';
+
+const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const orderResult = await orderService.getOrder(id);
+    if (!orderResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Order not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Verify order belongs to user
+    if (orderResult.data!.customerId !== session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized',
+        },
+        { status: 403 }
+      );
+    }
+
+    const historyResult = await orderService.getOrderStatusHistory(orderResult.data!.id);
+    if (!historyResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: historyResult.error,
+        },
+        { status: 500 }
+      );
+    }
+
+    // Who made each change is only shown to admins
+    return NextResponse.json({
+      success: true,
+      data: historyResult.data!.map(change => ({
+        id: change.id,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        createdAt: change.createdAt,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Order history GET API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Order Invoice API
+ *
+ * GET /api/orders/[id]/invoice - Download the invoice (receipt) as PDF
+ * GET /api/orders/[id]/invoice?creditNote=1042 - Download one of the order's credit notes
+ */
+
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { IInvoiceService, IOrderService } from '@/interfaces';
+import { container, TOKENS } from '@/config/di-container';
+import { ApiResponse, Invoice } from '@/types';
+
+const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
+const invoiceService = container.resolve<IInvoiceService>(TOKENS.IInvoiceService);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const orderResult = await orderService.getOrder(id);
+    if (!orderResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Order not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Verify order belongs to user
+    if (orderResult.data!.customerId !== session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized',
+        },
+        { status: 403 }
+      );
+    }
+
+    const orderId = orderResult.data!.id;
+    const creditNoteNumber = request.nextUrl.searchParams.get('creditNote');
+    const invoiceResult = creditNoteNumber
+      ? await findCreditNote(orderId, Number(creditNoteNumber))
+      : await invoiceService.issueInvoice(orderId);
+
+    if (!invoiceResult.success || !invoiceResult.data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: invoiceResult.error || 'Invoice not found',
+        },
+        { status: creditNoteNumber ? 404 : 400 }
+      );
+    }
+
+    const invoice = invoiceResult.data;
+    const pdfResult = await invoiceService.renderPdf(invoice);
+    if (!pdfResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: pdfResult.error,
+        },
+        { status: 500 }
+      );
+    }
+
+    const filename = invoice.type === 'credit_note'
+      ? `kreditfaktura-${invoice.invoiceNumber}.pdf`
+      : `faktura-${invoice.invoiceNumber}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdfResult.data!), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Order invoice API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+async function findCreditNote(orderId: string, invoiceNumber: number): Promise<ApiResponse<Invoice>> {
+  const result = await invoiceService.getOrderInvoices(orderId);
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+
+  const creditNote = (result.data || []).find(
+    invoice => invoice.type === 'credit_note' && invoice.invoiceNumber === invoiceNumber
+  );
+
+  return creditNote
+    ? { success: true, data: creditNote }
+    : { success: false, error: 'Credit note not found' };
+}
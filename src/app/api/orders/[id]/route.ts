@@ -130,7 +130,10 @@ export async function PATCH(
       );
     }
 
-    const result = await orderService.updateOrderStatus(orderId, status);
+    const result = await orderService.updateOrderStatus(orderResult.data!.id, 'cancelled', {
+      actor: `customer:${session.user.id}`,
+      reason: 'Cancelled by customer',
+    });
 
     if (!result.success) {
       return NextResponse.json(
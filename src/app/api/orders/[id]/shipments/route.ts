@@ -0,0 +1,93 @@
+/**
+ * Order Shipments API
+ *
+ * GET /api/orders/[id]/shipments - The packages one of the customer's orders is sent in
+ */
+
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { IOrderService, IShipmentService } from '@/interfaces';
+import { container, TOKENS } from '@/config/di-container';
+
+const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
+const shipmentService = container.resolve<IShipmentService>(TOKENS.IShipmentService);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const orderResult = await orderService.getOrder(id);
+    if (!orderResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Order not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Verify order belongs to user
+    if (orderResult.data!.customerId !== session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized',
+        },
+        { status: 403 }
+      );
+    }
+
+    const shipmentsResult = await shipmentService.getOrderShipments(orderResult.data!.id);
+    if (!shipmentsResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: shipmentsResult.error,
+        },
+        { status: 500 }
+      );
+    }
+
+    // Cancelled shipments were never sent, and labels are for the warehouse
+    return NextResponse.json({
+      success: true,
+      data: shipmentsResult.data!
+        .filter(shipment => shipment.status !== 'cancelled')
+        .map(shipment => ({
+          id: shipment.id,
+          status: shipment.status,
+          carrier: shipment.carrier,
+          trackingNumber: shipment.trackingNumber,
+          items: shipment.items,
+          shippedAt: shipment.shippedAt,
+          deliveredAt: shipment.deliveredAt,
+        })),
+    });
+
+  } catch (error) {
+    console.error('Order shipments GET API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -163,7 +163,7 @@ export async function PATCH(request: NextRequest) {
 
 async function handleCreateOrder(body: any, userId: string) {
   try {
-    const { items, shippingAddress, billingAddress, paymentMethod, shippingRateId } = body;
+    const { items, shippingAddress, billingAddress, paymentMethod, shippingRateId, pickupPointId, locale } = body;
 
     if (!items || !shippingAddress || !billingAddress || !paymentMethod || !shippingRateId) {
       return NextResponse.json(
@@ -182,6 +182,8 @@ async function handleCreateOrder(body: any, userId: string) {
       billingAddress,
       paymentMethod,
       shippingRateId,
+      pickupPointId,
+      locale,
     };
 
     const result = await orderService.createOrder(orderData);
@@ -339,7 +341,10 @@ async function handleCancelOrder(orderId: string, userId: string) {
       );
     }
 
-    const result = await orderService.cancelOrder(orderId);
+    const result = await orderService.cancelOrder(orderResult.data!.id, {
+      actor: `customer:${userId}`,
+      reason: 'Cancelled by customer',
+    });
 
     if (!result.success) {
       return NextResponse.json(
@@ -443,7 +448,10 @@ async function handleUpdateOrderStatus(orderId: string, status: string, userId:
       );
     }
 
-    const result = await orderService.updateOrderStatus(orderId, status);
+    const result = await orderService.updateOrderStatus(orderResult.data!.id, 'cancelled', {
+      actor: `customer:${userId}`,
+      reason: 'Cancelled by customer',
+    });
 
     if (!result.success) {
       return NextResponse.json(
@@ -473,7 +481,7 @@ async function handleUpdateOrderStatus(orderId: string, status: string, userId:
 
 async function handleTrackByOrderNumber(orderNumber: string) {
   try {
-    // Get order by ID (order number)
+    // Either the order number or the order id
     const result = await orderService.getOrder(orderNumber);
 
     if (!result.success) {
@@ -493,6 +501,7 @@ async function handleTrackByOrderNumber(orderNumber: string) {
       success: true,
       data: {
         id: order.id,
+        orderNumber: order.orderNumber,
         status: order.status,
         total: order.total,
         createdAt: order.createdAt,
@@ -1,214 +1,130 @@
+import '@/config/di-init';
 import { NextRequest, NextResponse } from 'next/server';
-
-// Mock tracking data for demonstration
-const mockOrderTracking = {
-  'ORD-001': {
-    orderId: 'ord-abc123',
-    orderNumber: 'ORD-001',
-    status: 'shipped',
-    trackingNumber: 'PN1234567890SE',
-    carrier: 'PostNord',
-    estimatedDelivery: '2024-11-18T12:00:00Z',
-    items: [
-      {
-        id: 'item-1',
-        productName: 'Lavendelolja 10ml',
-        quantity: 2,
-        price: 149.00,
-      },
-      {
-        id: 'item-2',
-        productName: 'Pepparmyntaolja 10ml',
-        quantity: 1,
-        price: 139.00,
-      },
-    ],
-    total: 437.00,
-    shippingAddress: {
-      street: 'Storgatan 12',
-      city: 'Stockholm',
-      postalCode: '11455',
-      country: 'Sverige',
-    },
-    trackingHistory: [
-      {
-        status: 'Paket i transit',
-        location: 'Stockholm, Sverige',
-        timestamp: '2024-11-16T14:30:00Z',
-        description: 'Paketet är på väg till destinationen',
-      },
-      {
-        status: 'Paket sorterat',
-        location: 'Göteborg Terminal, Sverige',
-        timestamp: '2024-11-16T09:15:00Z',
-        description: 'Paketet har sorterats vid Göteborg terminal',
-      },
-      {
-        status: 'Paket hämtat från avsändare',
-        location: 'Malmö, Sverige',
-        timestamp: '2024-11-15T16:45:00Z',
-        description: 'Paketet har hämtats från avsändaren',
-      },
-      {
-        status: 'Fraktetikett skapad',
-        location: 'Malmö, Sverige',
-        timestamp: '2024-11-15T10:20:00Z',
-        description: 'Fraktetikett har skapats och order bekräftad',
-      },
-    ],
-  },
-};
-
-const mockTrackingNumbers: { [key: string]: string } = {
-  'PN1234567890SE': 'ORD-001',
-};
-
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import type { IOrderService, IShipmentService, ITrackingService } from '@/interfaces';
+import type { Order } from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { getCarrierByCode } from '@/config/carriers';
+
+const trackQuerySchema = z.object({
+  orderId: z.string().trim().min(1).max(100).optional(),
+  postalCode: z.string().trim().max(10).optional(),
+  trackingNumber: z.string().trim().min(1).max(100).optional(),
+}).refine(
+  (query) => query.trackingNumber || (query.orderId && query.postalCode),
+  { message: 'Tracking number, or order number and postal code, is required' }
+);
+
+const orderNotFound = () => NextResponse.json(
+  { success: false, error: 'Order not found' },
+  { status: 404 }
+);
+
+const normalisePostalCode = (postalCode: string) => postalCode.replace(/\s/g, '').toUpperCase();
+
+/**
+ * GET /api/orders/track
+ * Public order tracking, by the parcel's tracking number or by the order
+ * number (or id) together with the delivery postal code. Anyone can try
+ * order numbers, so the postal code has to match, and the response leaves
+ * out the customer's name and street.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const orderId = searchParams.get('orderId');
-    const trackingNumber = searchParams.get('trackingNumber');
+    const parsed = trackQuerySchema.safeParse({
+      orderId: searchParams.get('orderId') || undefined,
+      postalCode: searchParams.get('postalCode') || undefined,
+      trackingNumber: searchParams.get('trackingNumber') || undefined,
+    });
 
-    if (!orderId && !trackingNumber) {
+    if (!parsed.success) {
       return NextResponse.json(
-        { success: false, error: 'Order ID or tracking number is required' },
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
         { status: 400 }
       );
     }
 
-    // TODO: Implement database lookup
-    /*
-    let order;
+    const { orderId, postalCode, trackingNumber } = parsed.data;
+    const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
+    const shipmentService = container.resolve<IShipmentService>(TOKENS.IShipmentService);
+    const trackingService = container.resolve<ITrackingService>(TOKENS.ITrackingService);
 
+    let order: Order;
     if (trackingNumber) {
-      // Find order by tracking number
-      const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          *,
-          order_items (
-            id,
-            quantity,
-            price,
-            product:products (
-              id,
-              translations
-            )
-          ),
-          shipping_address:addresses (
-            street,
-            city,
-            postalCode,
-            country
-          )
-        `)
-        .eq('trackingNumber', trackingNumber)
-        .single();
-
-      if (error || !data) {
-        return NextResponse.json(
-          { success: false, error: 'Order not found with this tracking number' },
-          { status: 404 }
-        );
+      const shipmentResult = await shipmentService.getShipmentByTrackingNumber(trackingNumber);
+      if (!shipmentResult.success) {
+        return orderNotFound();
       }
 
-      order = data;
-    } else if (orderId) {
-      // Find order by order ID (could be internal ID or order number)
-      const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          *,
-          order_items (
-            id,
-            quantity,
-            price,
-            product:products (
-              id,
-              translations
-            )
-          ),
-          shipping_address:addresses (
-            street,
-            city,
-            postalCode,
-            country
-          )
-        `)
-        .or(`id.eq.${orderId},orderNumber.eq.${orderId}`)
-        .single();
-
-      if (error || !data) {
-        return NextResponse.json(
-          { success: false, error: 'Order not found' },
-          { status: 404 }
-        );
+      const orderResult = await orderService.getOrderById(shipmentResult.data!.orderId);
+      if (!orderResult.success) {
+        return orderNotFound();
+      }
+      order = orderResult.data!;
+    } else {
+      const orderResult = await orderService.getOrder(orderId!);
+      if (!orderResult.success) {
+        return orderNotFound();
       }
 
-      order = data;
+      // Answered the same as an unknown order, so order numbers can't be probed
+      if (normalisePostalCode(orderResult.data!.shippingAddress.postalCode) !== normalisePostalCode(postalCode!)) {
+        return orderNotFound();
+      }
+      order = orderResult.data!;
     }
 
-    // Fetch tracking history from carrier API or database
-    let trackingHistory = [];
-
-    if (order.trackingNumber && order.carrier) {
-      // In production, fetch from carrier API
-      // For now, get from database
-      const { data: history } = await supabase
-        .from('tracking_events')
-        .select('*')
-        .eq('trackingNumber', order.trackingNumber)
-        .order('timestamp', { ascending: false });
+    const [shipmentsResult, eventsResult] = await Promise.all([
+      shipmentService.getOrderShipments(order.id),
+      trackingService.getOrderTracking(order.id),
+    ]);
 
-      trackingHistory = history || [];
-    }
+    const shipments = (shipmentsResult.data || [])
+      .filter(shipment => shipment.status !== 'cancelled')
+      .map(shipment => ({
+        trackingNumber: shipment.trackingNumber,
+        carrier: shipment.carrier ? getCarrierByCode(shipment.carrier)?.name || shipment.carrier : undefined,
+        status: shipment.status,
+      }));
 
-    // Format response
-    const trackingData = {
-      orderId: order.id,
-      orderNumber: order.orderNumber,
-      status: order.status,
-      trackingNumber: order.trackingNumber,
-      carrier: order.carrier,
-      estimatedDelivery: order.estimatedDelivery,
-      items: order.order_items.map(item => ({
-        id: item.id,
-        productName: item.product.translations.sv.name,
-        quantity: item.quantity,
-        price: item.price,
-      })),
-      total: order.total,
-      shippingAddress: order.shipping_address,
-      trackingHistory,
-    };
+    // The parcel searched for, or else the first one with a label
+    const shipment = shipments.find(candidate => candidate.trackingNumber === trackingNumber)
+      || shipments.find(candidate => candidate.trackingNumber);
 
     return NextResponse.json({
       success: true,
-      data: trackingData
+      data: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        trackingNumber: shipment?.trackingNumber,
+        carrier: shipment?.carrier,
+        estimatedDelivery: order.estimatedDelivery,
+        items: order.items.map(item => ({
+          id: item.productId,
+          productName: item.productName,
+          quantity: item.quantity,
+          price: item.price,
+        })),
+        total: order.total,
+        shippingAddress: {
+          city: order.shippingAddress.city,
+          postalCode: order.shippingAddress.postalCode,
+          country: order.shippingAddress.country,
+        },
+        pickupPoint: order.pickupPoint,
+        shipments,
+        trackingHistory: (eventsResult.data || []).map(event => ({
+          status: event.status,
+          location: event.location || '',
+          timestamp: event.occurredAt,
+          description: event.description,
+          trackingNumber: event.trackingNumber,
+        })),
+      },
     });
-    */
-
-    // For now, return mock data
-    let orderKey: string | null = null;
-
-    if (orderId) {
-      orderKey = orderId;
-    } else if (trackingNumber && mockTrackingNumbers[trackingNumber]) {
-      orderKey = mockTrackingNumbers[trackingNumber];
-    }
-
-    if (orderKey && mockOrderTracking[orderKey as keyof typeof mockOrderTracking]) {
-      return NextResponse.json({
-        success: true,
-        data: mockOrderTracking[orderKey as keyof typeof mockOrderTracking]
-      });
-    }
-
-    return NextResponse.json(
-      { success: false, error: 'Order not found' },
-      { status: 404 }
-    );
-
   } catch (error) {
     console.error('Track order error:', error);
     return NextResponse.json(
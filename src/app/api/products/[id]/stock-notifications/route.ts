@@ -0,0 +1,74 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import type { IStockNotificationService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const subscribeSchema = z.object({
+  email: z.string().trim().email('Invalid email address').optional(),
+  locale: z.enum(['sv', 'en']).default('sv'),
+});
+
+/**
+ * POST /api/products/[id]/stock-notifications
+ * Subscribes to an email when the out-of-stock product is back. Signed-in
+ * customers may leave out the email to use their account's.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = subscribeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+    const email = parsed.data.email || session?.user?.email;
+
+    if (!email) {
+      return NextResponse.json(
+        { success: false, error: 'Email address is required' },
+        { status: 400 }
+      );
+    }
+
+    const stockNotificationService = container.resolve<IStockNotificationService>(TOKENS.IStockNotificationService);
+    const result = await stockNotificationService.subscribe({
+      productId: id,
+      email,
+      customerId: session?.user?.id,
+      locale: parsed.data.locale,
+      source: 'product_page',
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Product not found' ? 404 : 400 }
+      );
+    }
+
+    // The unsubscribe token only goes out by email
+    return NextResponse.json({
+      success: true,
+      data: { productId: result.data!.productId, status: result.data!.status },
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Stock notification subscribe API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { IReturnService } from '@/interfaces';
+import { container, TOKENS } from '@/config/di-container';
+
+const returnService = container.resolve<IReturnService>(TOKENS.IReturnService);
+
+const createReturnSchema = z.object({
+  orderId: z.string().min(1, 'Order ID is required'),
+  reason: z.string().min(3, 'Please tell us why you are returning the items').max(1000),
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.number().int().positive('Quantity must be at least 1'),
+    reason: z.string().max(500).optional(),
+    condition: z.enum(['unopened', 'opened', 'damaged', 'defective']).optional(),
+  })).min(1, 'Select at least one item to return'),
+});
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const result = await returnService.getCustomerReturns(session.user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Returns GET API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = createReturnSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error.issues.map((issue) => issue.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await returnService.requestReturn(session.user.id, validation.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Returns POST API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
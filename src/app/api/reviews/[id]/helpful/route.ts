@@ -1,4 +1,10 @@
+import '@/config/di-init';
 import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { container } from 'tsyringe';
+import { authOptions } from '@/lib/auth';
+import type { IReviewService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
 
 interface RouteParams {
   params: Promise<{
@@ -6,82 +12,42 @@ interface RouteParams {
   }>;
 }
 
+/**
+ * POST /api/reviews/[id]/helpful
+ * One vote per customer, or per browser session (x-session-id) for guests
+ */
 export async function POST(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
     const { id } = await params;
-
-    // TODO: Implement in production
-    /*
-    // Optional: Track who marked it as helpful to prevent spam
-    // const session = await getServerSession();
-    // const userId = session?.user?.id;
-
-    // if (userId) {
-    //   // Check if user already marked this review as helpful
-    //   const { data: existing } = await supabase
-    //     .from('review_helpful')
-    //     .select('id')
-    //     .eq('reviewId', id)
-    //     .eq('userId', userId)
-    //     .single();
-
-    //   if (existing) {
-    //     return NextResponse.json(
-    //       { success: false, error: 'You have already marked this review as helpful' },
-    //       { status: 400 }
-    //     );
-    //   }
-
-    //   // Record the helpful mark
-    //   await supabase
-    //     .from('review_helpful')
-    //     .insert({
-    //       reviewId: id,
-    //       userId,
-    //       createdAt: new Date().toISOString(),
-    //     });
-    // }
-
-    // Increment helpful count
-    const { data: review, error } = await supabase
-      .from('reviews')
-      .select('helpful')
-      .eq('id', id)
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return NextResponse.json(
-          { success: false, error: 'Review not found' },
-          { status: 404 }
-        );
-      }
-      throw error;
+    const session = await getServerSession(authOptions);
+    const sessionId = request.headers.get('x-session-id');
+
+    if (!session?.user?.id && !sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Session ID is required' },
+        { status: 400 }
+      );
     }
 
-    const { error: updateError } = await supabase
-      .from('reviews')
-      .update({ helpful: review.helpful + 1 })
-      .eq('id', id);
+    const voterKey = session?.user?.id ? `customer:${session.user.id}` : `session:${sessionId}`;
 
-    if (updateError) throw updateError;
+    const reviewService = container.resolve<IReviewService>(TOKENS.IReviewService);
+    const result = await reviewService.markHelpful(id, voterKey);
 
-    return NextResponse.json({
-      success: true,
-      data: { helpful: review.helpful + 1 }
-    });
-    */
-
-    console.log(`Would mark review ${id} as helpful`);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Review not found' ? 404 : 400 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      message: 'Review marked as helpful (requires database implementation)'
+      data: result.data,
     });
-
   } catch (error) {
     console.error('Mark review as helpful error:', error);
     return NextResponse.json(
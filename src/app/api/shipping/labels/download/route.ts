@@ -2,32 +2,51 @@
  * Shipping Label Download API
  *
  * GET /api/shipping/labels/download?orderId=xyz - Download PDF
+ * GET /api/shipping/labels/download?orderId=xyz&format=zpl - Download ZPL for a thermal printer
  */
 
 import '@/config/di-init';
 import { NextRequest, NextResponse } from 'next/server';
 import { container } from 'tsyringe';
-import { IShippingService } from '@/interfaces';
+import { z } from 'zod';
+import type { IShippingService } from '@/interfaces';
+import type { LabelFormat } from '@/types';
+import { TOKENS } from '@/config/di-container';
 import fs from 'fs/promises';
 import path from 'path';
 
+const downloadSchema = z.object({
+  orderId: z.string().trim().min(1, 'Order ID is required'),
+  format: z.enum(['pdf', 'zpl']).default('pdf'),
+});
+
+const CONTENT_TYPES: Record<LabelFormat, string> = {
+  pdf: 'application/pdf',
+  zpl: 'application/zpl',
+};
+
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const orderId = searchParams.get('orderId');
+    const parsed = downloadSchema.safeParse({
+      orderId: searchParams.get('orderId') ?? '',
+      format: searchParams.get('format') || undefined,
+    });
 
-    if (!orderId) {
+    if (!parsed.success) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Order ID is required',
+          error: parsed.error.issues.map((issue) => issue.message).join(', '),
         },
         { status: 400 }
       );
     }
 
+    const { orderId, format } = parsed.data;
+
     // Get label
-    const shippingService = container.resolve<IShippingService>('IShippingService');
+    const shippingService = container.resolve<IShippingService>(TOKENS.IShippingService);
     const labelResult = await shippingService.getShippingLabel(orderId);
 
     if (!labelResult.success || !labelResult.data) {
@@ -41,27 +60,39 @@ export async function GET(request: NextRequest) {
     }
 
     const label = labelResult.data;
+    const labelUrl = format === 'zpl' ? label.labelZplUrl : label.labelPdfUrl;
+
+    // Labels printed before ZPL output only have a PDF
+    if (!labelUrl) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `No ${format.toUpperCase()} version of this label`,
+        },
+        { status: 404 }
+      );
+    }
 
-    // Read PDF file
-    const pdfPath = path.join(process.cwd(), 'public', label.labelPdfUrl);
+    // Read label file
+    const labelPath = path.join(process.cwd(), 'public', labelUrl);
 
     try {
-      const pdfBuffer = await fs.readFile(pdfPath);
+      const labelBuffer = await fs.readFile(labelPath);
 
-      // Return PDF file - convert Buffer to Uint8Array for NextResponse
-      return new NextResponse(new Uint8Array(pdfBuffer), {
+      // Return label file - convert Buffer to Uint8Array for NextResponse
+      return new NextResponse(new Uint8Array(labelBuffer), {
         status: 200,
         headers: {
-          'Content-Type': 'application/pdf',
-          'Content-Disposition': `attachment; filename="shipping-label-${label.trackingNumber}.pdf"`,
+          'Content-Type': CONTENT_TYPES[format],
+          'Content-Disposition': `attachment; filename="shipping-label-${label.trackingNumber}.${format}"`,
         },
       });
     } catch (fileError) {
-      console.error('PDF file not found:', fileError);
+      console.error('Label file not found:', fileError);
       return NextResponse.json(
         {
           success: false,
-          error: 'PDF file not found',
+          error: 'Label file not found',
         },
         { status: 404 }
       );
@@ -3,30 +3,50 @@
  *
  * POST /api/shipping/labels - Generate label
  * GET /api/shipping/labels?orderId=xyz - Get label data
+ *
+ * Both take a format, pdf (default) or zpl, and answer with labelUrl pointing
+ * at the label in that format.
  */
 
 import '@/config/di-init';
 import { NextRequest, NextResponse } from 'next/server';
 import { container } from 'tsyringe';
-import { IShippingService, IOrderService } from '@/interfaces';
+import { z } from 'zod';
+import type { IShippingService, IOrderService } from '@/interfaces';
+import type { LabelFormat, ShippingLabel } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+const labelRequestSchema = z.object({
+  orderId: z.string().trim().min(1, 'Order ID is required'),
+  format: z.enum(['pdf', 'zpl']).default('pdf'),
+});
+
+function withLabelUrl(label: ShippingLabel, format: LabelFormat) {
+  return {
+    ...label,
+    format,
+    labelUrl: format === 'zpl' ? label.labelZplUrl : label.labelPdfUrl,
+  };
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { orderId } = body;
+    const parsed = labelRequestSchema.safeParse(await request.json());
 
-    if (!orderId) {
+    if (!parsed.success) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Order ID is required',
+          error: parsed.error.issues.map((issue) => issue.message).join(', '),
         },
         { status: 400 }
       );
     }
 
+    const { orderId, format } = parsed.data;
+
     // Get order
-    const orderService = container.resolve<IOrderService>('IOrderService');
+    const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
     const orderResult = await orderService.getOrderById(orderId);
 
     if (!orderResult.success || !orderResult.data) {
@@ -40,7 +60,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate label
-    const shippingService = container.resolve<IShippingService>('IShippingService');
+    const shippingService = container.resolve<IShippingService>(TOKENS.IShippingService);
     const labelResult = await shippingService.generateShippingLabel(orderResult.data);
 
     if (!labelResult.success) {
@@ -55,7 +75,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: labelResult.data,
+      data: withLabelUrl(labelResult.data!, format),
     });
   } catch (error) {
     console.error('Label generation error:', error);
@@ -72,20 +92,25 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const orderId = searchParams.get('orderId');
+    const parsed = labelRequestSchema.safeParse({
+      orderId: searchParams.get('orderId') ?? '',
+      format: searchParams.get('format') || undefined,
+    });
 
-    if (!orderId) {
+    if (!parsed.success) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Order ID is required',
+          error: parsed.error.issues.map((issue) => issue.message).join(', '),
         },
         { status: 400 }
       );
     }
 
+    const { orderId, format } = parsed.data;
+
     // Get label
-    const shippingService = container.resolve<IShippingService>('IShippingService');
+    const shippingService = container.resolve<IShippingService>(TOKENS.IShippingService);
     const labelResult = await shippingService.getShippingLabel(orderId);
 
     if (!labelResult.success) {
@@ -100,7 +125,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: labelResult.data,
+      data: withLabelUrl(labelResult.data!, format),
     });
   } catch (error) {
     console.error('Label retrieval error:', error);
@@ -0,0 +1,70 @@
+/**
+ * Pickup Points API
+ *
+ * GET /api/shipping/pickup-points?carrier=POSTNORD&postalCode=11122&type=service_point
+ * Lists the carrier's service points or parcel lockers nearest the postal code
+ */
+
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { container, TOKENS } from '@/config/di-container';
+import type { IPickupPointService } from '@/interfaces';
+
+const pickupPointQuerySchema = z.object({
+  carrier: z.string().min(1, 'Carrier is required'),
+  postalCode: z.string().min(1, 'Postal code is required'),
+  type: z.enum(['service_point', 'locker']).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = pickupPointQuerySchema.safeParse({
+      carrier: searchParams.get('carrier') ?? undefined,
+      postalCode: searchParams.get('postalCode') ?? undefined,
+      type: searchParams.get('type') ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues.map((issue) => issue.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const pickupPointService = container.resolve<IPickupPointService>(TOKENS.IPickupPointService);
+    const result = await pickupPointService.findPickupPoints(
+      parsed.data.carrier,
+      parsed.data.postalCode,
+      parsed.data.type
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Pickup point lookup error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to find pickup points',
+      },
+      { status: 500 }
+    );
+  }
+}
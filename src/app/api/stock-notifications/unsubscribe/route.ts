@@ -0,0 +1,48 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import type { IStockNotificationService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const unsubscribeSchema = z.object({
+  token: z.string().min(1, 'Token is required').max(64),
+});
+
+/**
+ * POST /api/stock-notifications/unsubscribe
+ * Cancels a back-in-stock alert with the token from the notification email.
+ * A POST rather than the link itself, so link scanners in mail clients
+ * can't unsubscribe anyone.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = unsubscribeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const stockNotificationService = container.resolve<IStockNotificationService>(TOKENS.IStockNotificationService);
+    const result = await stockNotificationService.unsubscribe(parsed.data.token);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Subscription not found' ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Stock notification unsubscribe API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { container } from '@/config/di-container';
 import { TOKENS } from '@/config/di-container';
-import type { IOrderService } from '@/interfaces';
+import type { IInvoiceService, IOrderService } from '@/interfaces';
+import type { EmailAttachment } from '@/interfaces/email';
 import type { IEmailService } from '@/interfaces/email';
 
 // Get Stripe key with fallback for build time
@@ -124,14 +125,18 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
     // Get services from DI container
     const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
     const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
+    const invoiceService = container.resolve<IInvoiceService>(TOKENS.IInvoiceService);
 
-    // Update order status to confirmed
-    const updateResult = await orderService.updateOrderStatus(orderId, 'confirmed');
+    // Mark the order as paid
+    const updateResult = await orderService.updateOrderStatus(orderId, 'paid', {
+      actor: 'stripe',
+      reason: `Payment ${paymentIntent.id} succeeded`,
+    });
     if (!updateResult.success) {
       console.error('Failed to update order status:', updateResult.error);
       return;
     }
-    console.log(`Order ${orderId} marked as confirmed`);
+    console.log(`Order ${orderId} marked as paid`);
 
     // Get order details for email
     const orderResult = await orderService.getOrder(orderId);
@@ -148,12 +153,27 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
       return;
     }
 
+    // The invoice doubles as the receipt; the confirmation goes out without it if it fails
+    const attachments: EmailAttachment[] = [];
+    const invoiceResult = await invoiceService.issueInvoice(order.id);
+    const pdfResult = invoiceResult.success ? await invoiceService.renderPdf(invoiceResult.data!) : null;
+    if (pdfResult?.success) {
+      attachments.push({
+        filename: `faktura-${invoiceResult.data!.invoiceNumber}.pdf`,
+        content: Buffer.from(pdfResult.data!).toString('base64'),
+        contentType: 'application/pdf',
+      });
+    } else {
+      console.error('Failed to create invoice for order confirmation:', pdfResult?.error || invoiceResult.error);
+    }
+
     // Send order confirmation email to customer
     const customerName = `${order.shippingAddress.firstName || ''} ${order.shippingAddress.lastName || ''}`.trim();
     await emailService.sendOrderConfirmation(
       customerEmail,
       {
         orderId: order.id,
+        orderNumber: order.orderNumber,
         customerName: customerName || 'Kund',
         items: order.items.map(item => ({
           name: item.productName,
@@ -161,7 +181,10 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
           price: item.price,
         })),
         total: order.total,
+        vatBreakdown: order.vatBreakdown,
         shippingAddress: formatAddress(order.shippingAddress),
+        estimatedDelivery: order.estimatedDelivery,
+        attachments,
       },
       'sv'
     );
@@ -214,7 +237,10 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
     const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
 
     // Update order status to cancelled (payment failed)
-    const updateResult = await orderService.updateOrderStatus(orderId, 'cancelled');
+    const updateResult = await orderService.updateOrderStatus(orderId, 'cancelled', {
+      actor: 'stripe',
+      reason: `Payment ${paymentIntent.id} failed: ${failureMessage}`,
+    });
     if (!updateResult.success) {
       console.error('Failed to update order status:', updateResult.error);
     } else {
@@ -288,7 +314,10 @@ async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent)
     const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
 
     // Cancel order (this will also release stock reservation via OrderService)
-    const cancelResult = await orderService.cancelOrder(orderId);
+    const cancelResult = await orderService.cancelOrder(orderId, {
+      actor: 'stripe',
+      reason: `Payment ${paymentIntent.id} canceled`,
+    });
     if (!cancelResult.success) {
       console.error('Failed to cancel order:', cancelResult.error);
       return;
@@ -314,13 +343,39 @@ async function handleChargeRefunded(charge: Stripe.Charge) {
       amountRefunded: charge.amount_refunded,
     });
 
-    // Get EmailService from DI container
+    // Get services from DI container
     const emailService = container.resolve<IEmailService>(TOKENS.IEmailService);
+    const orderService = container.resolve<IOrderService>(TOKENS.IOrderService);
+    const invoiceService = container.resolve<IInvoiceService>(TOKENS.IInvoiceService);
 
     // Get customer email from charge metadata or billing details
     const customerEmail = charge.receipt_email || charge.billing_details?.email;
     const orderId = charge.metadata?.orderId;
 
+    // Credit every refund on the charge; the reference makes replays and refunds
+    // a return has already credited under the same id harmless
+    const orderResult = await orderService.getOrderByPaymentId(paymentIntentId);
+    const order = orderResult.success && orderResult.data
+      ? orderResult.data
+      : orderId ? (await orderService.getOrder(orderId)).data : undefined;
+
+    if (order) {
+      const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+      for (const refund of refunds.data.filter(entry => entry.status === 'succeeded')) {
+        const creditNote = await invoiceService.issueCreditNote(order.id, {
+          reference: `stripe-refund-${refund.id}`,
+          amount: refund.amount / 100,
+          items: [],
+        });
+        if (!creditNote.success) {
+          // Stripe retries the webhook, and the credit notes already issued are skipped
+          throw new Error(`Failed to issue credit note for refund ${refund.id}: ${creditNote.error}`);
+        }
+      }
+    } else {
+      console.warn(`No order found for refunded charge ${charge.id}; no credit note issued`);
+    }
+
     if (customerEmail) {
       // Send refund confirmation email to customer (Swedish)
       await emailService.sendEmail({
@@ -0,0 +1,61 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import type { ISwishWebhookService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * Swish Refund Callback Endpoint
+ *
+ * POST /api/webhooks/swish-refund
+ * Registered as callbackUrl by SwishPaymentProvider.refundPayment.
+ * A PAID refund marks the order payment as refunded or partially_refunded.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const webhookService = container.resolve<ISwishWebhookService>(TOKENS.ISwishWebhookService);
+    const result = await webhookService.handleRefundCallback(payload);
+
+    if (!result.success) {
+      console.error('[Swish Refund Webhook] Callback rejected:', result.error);
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    console.log('[Swish Refund Webhook] Callback processed:', result.data);
+
+    return NextResponse.json({
+      success: true,
+      received: true,
+      data: result.data,
+    });
+
+  } catch (error) {
+    console.error('[Swish Refund Webhook] Processing error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Webhook processing failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Verify webhook endpoint is reachable
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    message: 'Swish refund webhook endpoint is active',
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,65 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import type { ISwishWebhookService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * Swish Payment Callback Endpoint
+ *
+ * POST /api/webhooks/swish
+ * Registered as callbackUrl by SwishPaymentProvider when a payment request is created.
+ * Swish posts the payment request with status PAID, DECLINED, ERROR or CANCELLED.
+ *
+ * The callback is verified against the Swish API before the order is updated.
+ * Repeated callbacks are acknowledged with 200 without changing the order again,
+ * so Swish stops retrying.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const webhookService = container.resolve<ISwishWebhookService>(TOKENS.ISwishWebhookService);
+    const result = await webhookService.handlePaymentCallback(payload);
+
+    if (!result.success) {
+      console.error('[Swish Webhook] Callback rejected:', result.error);
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    console.log('[Swish Webhook] Callback processed:', result.data);
+
+    return NextResponse.json({
+      success: true,
+      received: true,
+      data: result.data,
+    });
+
+  } catch (error) {
+    console.error('[Swish Webhook] Processing error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Webhook processing failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Verify webhook endpoint is reachable
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    message: 'Swish webhook endpoint is active',
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,82 @@
+import '@/config/di-init';
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { container } from 'tsyringe';
+import type { ITrackingService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+
+/**
+ * Carrier Tracking Webhook
+ *
+ * POST /api/webhooks/tracking/[carrier]
+ * Carriers push tracking events here, e.g. /api/webhooks/tracking/POSTNORD.
+ * The carrier's tracking adapter reads its own format, and events are stored
+ * once however often they are sent, so repeats are acknowledged with 200.
+ *
+ * Security: Requires the TRACKING_WEBHOOK_SECRET as a Bearer token. Without a
+ * secret the webhook is only open outside production, for local development.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ carrier: string }> }
+) {
+  try {
+    const webhookSecret = config.shipping.tracking.webhookSecret;
+    if (!webhookSecret && process.env.NODE_ENV === 'production') {
+      console.error('[Tracking Webhook] TRACKING_WEBHOOK_SECRET not configured');
+      return NextResponse.json(
+        { success: false, error: 'Webhook secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    if (webhookSecret && !hasBearerToken(request, webhookSecret)) {
+      console.error('[Tracking Webhook] Unauthorized webhook attempt');
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const { carrier } = await params;
+    const trackingService = container.resolve<ITrackingService>(TOKENS.ITrackingService);
+    const result = await trackingService.ingestWebhook(carrier.toUpperCase(), payload);
+
+    if (!result.success) {
+      console.error(`[Tracking Webhook] ${carrier} events rejected:`, result.error);
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      received: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('[Tracking Webhook] Processing error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Webhook processing failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Compared as hashes so the check takes as long whatever the token's length
+function hasBearerToken(request: NextRequest, secret: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(request.headers.get('authorization') || ''), digest(`Bearer ${secret}`));
+}
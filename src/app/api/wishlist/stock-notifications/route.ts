@@ -0,0 +1,63 @@
+import '@/config/di-init';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import type { IStockNotificationService } from '@/interfaces';
+import { TOKENS } from '@/config/di-container';
+
+const subscribeSchema = z.object({
+  locale: z.enum(['sv', 'en']).default('sv'),
+});
+
+/**
+ * POST /api/wishlist/stock-notifications
+ * Subscribes the customer to every out-of-stock product on their wishlist
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !session.user.email) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = subscribeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const stockNotificationService = container.resolve<IStockNotificationService>(TOKENS.IStockNotificationService);
+    const result = await stockNotificationService.subscribeWishlist(
+      session.user.id,
+      session.user.email,
+      parsed.data.locale
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Wishlist stock notification API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -23,7 +23,18 @@ function CheckoutSuccessContent() {
     const orderId = searchParams.get('orderId');
 
     if (orderId) {
-      setOrderNumber(orderId.slice(0, 13).toUpperCase());
+      const fetchOrderNumber = async () => {
+        try {
+          const response = await fetch(`/api/orders/${orderId}`);
+          const result = await response.json();
+
+          if (result.success && result.data) {
+            setOrderNumber(result.data.orderNumber);
+          }
+        } catch (error) {
+          console.error('Failed to fetch order:', error);
+        }
+      };
 
       // Fetch shipping label
       const fetchLabel = async () => {
@@ -55,11 +66,8 @@ function CheckoutSuccessContent() {
         }
       };
 
+      fetchOrderNumber();
       fetchLabel();
-    } else {
-      // Generate a mock order number for display
-      const mockOrderNumber = `FE-${Date.now().toString().slice(-6)}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
-      setOrderNumber(mockOrderNumber);
     }
   }, [searchParams]);
 
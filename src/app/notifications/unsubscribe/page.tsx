@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { BellSlashIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+
+function UnsubscribeContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  // The notification email links here in the subscriber's language
+  const locale = searchParams.get('locale') === 'en' ? 'en' : 'sv';
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUnsubscribed, setIsUnsubscribed] = useState(false);
+
+  const handleUnsubscribe = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/stock-notifications/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setIsUnsubscribed(true);
+      } else {
+        toast.error(response.status === 404
+          ? (locale === 'sv' ? 'Bevakningen hittades inte' : 'Alert not found')
+          : (locale === 'sv' ? 'Kunde inte avsluta bevakningen' : 'Failed to unsubscribe'));
+      }
+    } catch {
+      toast.error(locale === 'sv' ? 'Kunde inte avsluta bevakningen' : 'Failed to unsubscribe');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-cream-50 flex items-center justify-center px-4 py-12">
+      <div className="max-w-md w-full bg-white rounded-3xl shadow-soft p-8 text-center">
+        {isUnsubscribed ? (
+          <>
+            <CheckCircleIcon className="h-12 w-12 mx-auto mb-4 text-sage-600" />
+            <h1 className="text-2xl font-serif font-bold text-forest-800 mb-2">
+              {locale === 'sv' ? 'Bevakningen är avslutad' : 'You are unsubscribed'}
+            </h1>
+            <p className="text-forest-600 mb-6">
+              {locale === 'sv'
+                ? 'Vi mejlar dig inte när produkten kommer tillbaka.'
+                : "We won't email you when the product is back."}
+            </p>
+          </>
+        ) : (
+          <>
+            <BellSlashIcon className="h-12 w-12 mx-auto mb-4 text-forest-400" />
+            <h1 className="text-2xl font-serif font-bold text-forest-800 mb-2">
+              {locale === 'sv' ? 'Avsluta bevakning' : 'Stop back-in-stock alert'}
+            </h1>
+            <p className="text-forest-600 mb-6">
+              {locale === 'sv'
+                ? 'Du får inget mejl när produkten finns i lager igen.'
+                : "You won't get an email when the product is back in stock."}
+            </p>
+            <button
+              onClick={handleUnsubscribe}
+              disabled={!token || isSubmitting}
+              className="w-full px-6 py-3.5 rounded-full bg-sage-600 text-white font-semibold hover:bg-sage-700 disabled:opacity-50 transition-colors mb-6"
+            >
+              {locale === 'sv' ? 'Avsluta bevakningen' : 'Unsubscribe'}
+            </button>
+          </>
+        )}
+        <Link href="/products" className="text-sage-700 hover:text-sage-800 hover:underline">
+          {locale === 'sv' ? 'Fortsätt handla' : 'Continue shopping'}
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function UnsubscribePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-cream-50 flex items-center justify-center px-4 py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sage-600 mx-auto"></div>
+      </div>
+    }>
+      <UnsubscribeContent />
+    </Suspense>
+  );
+}
@@ -19,7 +19,8 @@ import {
   ArrowLeftIcon,
   CheckCircleIcon,
   TruckIcon,
-  ShieldCheckIcon
+  ShieldCheckIcon,
+  BellAlertIcon
 } from '@heroicons/react/24/outline';
 import { HeartIcon as HeartSolidIcon } from '@heroicons/react/24/solid';
 import toast from 'react-hot-toast';
@@ -37,6 +38,9 @@ export default function ProductDetailPage() {
   const [selectedImage, setSelectedImage] = useState(0);
   const [quantity, setQuantity] = useState(1);
   const [imageError, setImageError] = useState(false);
+  const [notifyEmail, setNotifyEmail] = useState('');
+  const [notifySubscribed, setNotifySubscribed] = useState(false);
+  const [notifyLoading, setNotifyLoading] = useState(false);
   const locale = 'sv'; // Would come from context in real app
 
   const { addItem, isLoading: cartLoading } = useCartStore();
@@ -128,6 +132,30 @@ export default function ProductDetailPage() {
 
   const images = getProductImages();
 
+  const handleNotifyMe = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setNotifyLoading(true);
+
+    try {
+      const response = await fetch(`/api/products/${productId}/stock-notifications`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: notifyEmail || undefined, locale }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setNotifySubscribed(true);
+      } else {
+        toast.error(data.error || (locale === 'sv' ? 'Kunde inte spara bevakningen' : 'Failed to save the alert'));
+      }
+    } catch {
+      toast.error(locale === 'sv' ? 'Kunde inte spara bevakningen' : 'Failed to save the alert');
+    } finally {
+      setNotifyLoading(false);
+    }
+  };
+
   const handleAddToCart = async () => {
     if (isOutOfStock || quantity <= 0) return;
 
@@ -482,6 +510,44 @@ export default function ProductDetailPage() {
                     )}
                   </button>
                 </div>
+
+                {/* Back-in-stock alert */}
+                {isOutOfStock && (
+                  notifySubscribed ? (
+                    <div className="flex items-center gap-3 p-4 rounded-2xl bg-sage-50 border border-sage-200 text-sage-800">
+                      <CheckCircleIcon className="h-6 w-6 flex-shrink-0" />
+                      <p>
+                        {locale === 'sv'
+                          ? 'Vi mejlar dig när produkten finns i lager igen.'
+                          : "We'll email you when the product is back in stock."}
+                      </p>
+                    </div>
+                  ) : (
+                    <form onSubmit={handleNotifyMe} className="p-4 rounded-2xl bg-white border-2 border-cream-300 space-y-3">
+                      <p className="flex items-center gap-2 font-medium text-forest-800">
+                        <BellAlertIcon className="h-5 w-5 text-sage-600" />
+                        {locale === 'sv' ? 'Meddela mig när den är tillbaka' : 'Tell me when it is back'}
+                      </p>
+                      <div className="flex gap-3">
+                        <input
+                          type="email"
+                          required={!session?.user?.email}
+                          placeholder={session?.user?.email || (locale === 'sv' ? 'Din e-postadress' : 'Your email address')}
+                          value={notifyEmail}
+                          onChange={(e) => setNotifyEmail(e.target.value)}
+                          className="flex-1 px-4 py-3 rounded-full border-2 border-cream-300 focus:border-sage-600 focus:outline-none transition-colors"
+                        />
+                        <button
+                          type="submit"
+                          disabled={notifyLoading}
+                          className="px-6 py-3 rounded-full bg-sage-600 text-white font-semibold hover:bg-sage-700 disabled:opacity-50 transition-colors"
+                        >
+                          {locale === 'sv' ? 'Bevaka' : 'Notify me'}
+                        </button>
+                      </div>
+                    </form>
+                  )
+                )}
               </div>
             )}
 
@@ -517,7 +583,7 @@ export default function ProductDetailPage() {
         <div className="mt-16 lg:mt-24">
           <ProductReviews
             productId={productId}
-            userId={undefined} // TODO: Get from session/auth context
+            userId={session?.user?.id}
           />
         </div>
 
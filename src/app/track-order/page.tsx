@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   MagnifyingGlassIcon,
   TruckIcon,
@@ -37,7 +37,6 @@ interface OrderTrackingData {
   items: OrderItem[];
   total: number;
   shippingAddress: {
-    street: string;
     city: string;
     postalCode: string;
     country: string;
@@ -48,10 +47,22 @@ interface OrderTrackingData {
 export default function TrackOrderPage() {
   const [searchType, setSearchType] = useState<'order' | 'tracking'>('order');
   const [searchValue, setSearchValue] = useState('');
+  const [postalCode, setPostalCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [orderData, setOrderData] = useState<OrderTrackingData | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Links in tracking emails open the page with the parcel already looked up
+  useEffect(() => {
+    const trackingNumber = new URLSearchParams(window.location.search).get('trackingNumber');
+    if (trackingNumber) {
+      setSearchType('tracking');
+      setSearchValue(trackingNumber);
+      fetchTracking(`/api/orders/track?trackingNumber=${encodeURIComponent(trackingNumber)}`);
+    }
+    // Only on the first render
+  }, []);
+
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -60,15 +71,22 @@ export default function TrackOrderPage() {
       return;
     }
 
+    if (searchType === 'order' && !postalCode.trim()) {
+      toast.error('Vänligen ange postnumret som ordern skickas till');
+      return;
+    }
+
+    await fetchTracking(searchType === 'order'
+      ? `/api/orders/track?orderId=${encodeURIComponent(searchValue)}&postalCode=${encodeURIComponent(postalCode)}`
+      : `/api/orders/track?trackingNumber=${encodeURIComponent(searchValue)}`);
+  };
+
+  const fetchTracking = async (endpoint: string) => {
     setLoading(true);
     setError(null);
     setOrderData(null);
 
     try {
-      const endpoint = searchType === 'order'
-        ? `/api/orders/track?orderId=${encodeURIComponent(searchValue)}`
-        : `/api/orders/track?trackingNumber=${encodeURIComponent(searchValue)}`;
-
       const response = await fetch(endpoint);
       const data = await response.json();
 
@@ -90,10 +108,14 @@ export default function TrackOrderPage() {
   const getStatusColor = (status: string) => {
     const colors: { [key: string]: string } = {
       'pending': 'bg-yellow-100 text-yellow-800 border-yellow-200',
-      'confirmed': 'bg-blue-100 text-blue-800 border-blue-200',
-      'processing': 'bg-purple-100 text-purple-800 border-purple-200',
+      'paid': 'bg-blue-100 text-blue-800 border-blue-200',
+      'picking': 'bg-purple-100 text-purple-800 border-purple-200',
+      'packed': 'bg-purple-100 text-purple-800 border-purple-200',
       'shipped': 'bg-indigo-100 text-indigo-800 border-indigo-200',
+      'in_transit': 'bg-indigo-100 text-indigo-800 border-indigo-200',
       'delivered': 'bg-green-100 text-green-800 border-green-200',
+      'returned': 'bg-orange-100 text-orange-800 border-orange-200',
+      'refunded': 'bg-gray-100 text-gray-800 border-gray-200',
       'cancelled': 'bg-red-100 text-red-800 border-red-200',
     };
     return colors[status] || 'bg-gray-100 text-gray-800 border-gray-200';
@@ -102,11 +124,13 @@ export default function TrackOrderPage() {
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
-      case 'confirmed':
+      case 'paid':
         return <ClockIcon className="h-6 w-6" />;
-      case 'processing':
+      case 'picking':
+      case 'packed':
         return <ShoppingBagIcon className="h-6 w-6" />;
       case 'shipped':
+      case 'in_transit':
         return <TruckIcon className="h-6 w-6" />;
       case 'delivered':
         return <CheckCircleIcon className="h-6 w-6" />;
@@ -120,15 +144,33 @@ export default function TrackOrderPage() {
   const getStatusLabel = (status: string) => {
     const labels: { [key: string]: string } = {
       'pending': 'Väntande',
-      'confirmed': 'Bekräftad',
-      'processing': 'Behandlas',
+      'paid': 'Betald',
+      'picking': 'Plockas',
+      'packed': 'Packad',
       'shipped': 'Skickad',
+      'in_transit': 'På väg',
       'delivered': 'Levererad',
+      'returned': 'Returnerad',
+      'refunded': 'Återbetald',
       'cancelled': 'Avbruten',
     };
     return labels[status] || status;
   };
 
+  // Carrier events are normalised to these statuses
+  const getEventLabel = (status: string) => {
+    const labels: { [key: string]: string } = {
+      'info_received': 'Fraktetikett skapad',
+      'in_transit': 'På väg',
+      'out_for_delivery': 'Ute för leverans',
+      'ready_for_pickup': 'Redo att hämtas',
+      'delivered': 'Levererad',
+      'exception': 'Leveransproblem',
+      'returned': 'Returneras',
+    };
+    return labels[status] || status;
+  };
+
   return (
     <div className="min-h-screen bg-cream-50">
       {/* Hero Section */}
@@ -177,13 +219,26 @@ export default function TrackOrderPage() {
                     onChange={(e) => setSearchValue(e.target.value)}
                     placeholder={
                       searchType === 'order'
-                        ? 'Ange ordernummer (t.ex. ORD-12345)'
+                        ? 'Ange ordernummer (t.ex. FE-2026-000123)'
                         : 'Ange spårningsnummer (t.ex. 1234567890)'
                     }
                     className="w-full pl-12 pr-4 py-4 rounded-xl text-forest-800 border-2 border-cream-300 focus:border-sage-600 focus:outline-none text-lg"
                   />
                 </div>
 
+                {searchType === 'order' && (
+                  <div className="relative">
+                    <MapPinIcon className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-forest-400" />
+                    <input
+                      type="text"
+                      value={postalCode}
+                      onChange={(e) => setPostalCode(e.target.value)}
+                      placeholder="Postnummer för leveransen (t.ex. 114 55)"
+                      className="w-full pl-12 pr-4 py-4 rounded-xl text-forest-800 border-2 border-cream-300 focus:border-sage-600 focus:outline-none text-lg"
+                    />
+                  </div>
+                )}
+
                 <button
                   type="submit"
                   disabled={loading}
@@ -212,7 +267,7 @@ export default function TrackOrderPage() {
               <ExclamationCircleIcon className="h-16 w-16 mx-auto mb-4 text-red-600" />
               <h2 className="text-2xl font-bold text-red-800 mb-2">Order hittades inte</h2>
               <p className="text-red-700">
-                Kontrollera att du angett rätt ordernummer eller spårningsnummer och försök igen.
+                Kontrollera att du angett rätt ordernummer och postnummer, eller spårningsnummer, och försök igen.
               </p>
             </div>
           )}
@@ -278,7 +333,6 @@ export default function TrackOrderPage() {
                     Leveransadress
                   </h3>
                   <div className="bg-cream-50 rounded-xl p-4">
-                    <p className="text-forest-700">{orderData.shippingAddress.street}</p>
                     <p className="text-forest-700">
                       {orderData.shippingAddress.postalCode} {orderData.shippingAddress.city}
                     </p>
@@ -335,7 +389,7 @@ export default function TrackOrderPage() {
                           )}
                         </div>
                         <div className="flex-1 pb-6">
-                          <p className="font-semibold text-forest-800">{event.status}</p>
+                          <p className="font-semibold text-forest-800">{getEventLabel(event.status)}</p>
                           <p className="text-forest-700 mb-1">{event.description}</p>
                           <div className="flex items-center gap-4 text-sm text-forest-600">
                             <span className="flex items-center gap-1">
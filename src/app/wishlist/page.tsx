@@ -11,13 +11,15 @@ import { ProductCard } from '@/components/products/ProductCard';
 import {
   HeartIcon,
   ShoppingBagIcon,
-  ArrowRightIcon
+  ArrowRightIcon,
+  BellAlertIcon
 } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 
 export default function WishlistPage() {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
+  const [notifying, setNotifying] = useState(false);
   const locale = 'sv'; // Would come from context in real app
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -137,6 +139,34 @@ export default function WishlistPage() {
     }
   };
 
+  const outOfStockCount = products.filter(p => p.stock === 0).length;
+
+  const handleNotifyOutOfStock = async () => {
+    setNotifying(true);
+    try {
+      const response = await fetch('/api/wishlist/stock-notifications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locale }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(
+          locale === 'sv'
+            ? `Vi mejlar dig när ${data.data.subscribed === 1 ? 'produkten' : 'produkterna'} finns i lager igen`
+            : `We'll email you when ${data.data.subscribed === 1 ? 'it is' : 'they are'} back in stock`
+        );
+      } else {
+        toast.error(data.error || (locale === 'sv' ? 'Kunde inte spara bevakningen' : 'Failed to save the alert'));
+      }
+    } catch {
+      toast.error(locale === 'sv' ? 'Kunde inte spara bevakningen' : 'Failed to save the alert');
+    } finally {
+      setNotifying(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-cream-50 flex items-center justify-center">
@@ -188,6 +218,25 @@ export default function WishlistPage() {
           )}
         </div>
 
+        {/* Back-in-stock alert for sold out items */}
+        {outOfStockCount > 0 && (
+          <div className="mb-8 flex flex-wrap items-center justify-between gap-4 p-5 rounded-2xl bg-white border-2 border-cream-300">
+            <p className="flex items-center gap-2 text-forest-700">
+              <BellAlertIcon className="h-5 w-5 text-sage-600" />
+              {locale === 'sv'
+                ? `${outOfStockCount} ${outOfStockCount === 1 ? 'produkt är slutsåld' : 'produkter är slutsålda'}`
+                : `${outOfStockCount} ${outOfStockCount === 1 ? 'item is' : 'items are'} sold out`}
+            </p>
+            <button
+              onClick={handleNotifyOutOfStock}
+              disabled={notifying}
+              className="px-6 py-3 rounded-full bg-forest-700 text-white font-semibold hover:bg-forest-800 disabled:opacity-50 transition-colors"
+            >
+              {locale === 'sv' ? 'Meddela mig när de är tillbaka' : 'Tell me when they are back'}
+            </button>
+          </div>
+        )}
+
         {/* Empty State */}
         {products.length === 0 ? (
           <div className="bg-white rounded-3xl shadow-soft p-12 text-center">
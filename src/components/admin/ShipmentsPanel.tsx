@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DocumentArrowDownIcon, TruckIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import type { ShipmentItem, ShipmentStatus } from '@/types';
+import { getAllowedShipmentTransitions } from '@/services/shipping/ShipmentStateMachine';
+
+interface Shipment {
+  id: string;
+  status: ShipmentStatus;
+  items: ShipmentItem[];
+  carrier?: string;
+  trackingNumber?: string;
+  labelUrl?: string;
+  createdAt: string;
+}
+
+interface ShipmentsPanelProps {
+  orderId: string;
+  // Whether the order can still get new shipments
+  canShip: boolean;
+  // Called after a change that may have moved the order status
+  onChange: () => void;
+}
+
+const STATUS_LABELS: Record<ShipmentStatus, string> = {
+  pending: 'Pending',
+  packed: 'Packed',
+  shipped: 'Shipped',
+  in_transit: 'In transit',
+  delivered: 'Delivered',
+  returned: 'Returned',
+  cancelled: 'Cancelled',
+};
+
+export function ShipmentsPanel({ orderId, canShip, onChange }: ShipmentsPanelProps) {
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [unallocatedItems, setUnallocatedItems] = useState<ShipmentItem[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    fetchShipments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orderId]);
+
+  const fetchShipments = async () => {
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/shipments`);
+      const data = await response.json();
+      if (data.success) {
+        setShipments(data.data.shipments);
+        setUnallocatedItems(data.data.unallocatedItems);
+        setQuantities(Object.fromEntries(
+          data.data.unallocatedItems.map((item: ShipmentItem) => [item.productId, item.quantity])
+        ));
+      } else {
+        toast.error(data.error || 'Failed to load shipments');
+      }
+    } catch (error) {
+      console.error('Failed to fetch shipments:', error);
+      toast.error('Failed to load shipments');
+    }
+  };
+
+  const handleCreate = async () => {
+    const items = unallocatedItems
+      .map((item) => ({ productId: item.productId, quantity: quantities[item.productId] || 0 }))
+      .filter((item) => item.quantity > 0);
+
+    if (items.length === 0) {
+      toast.error('Choose at least one item to send');
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/shipments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success('Shipment created');
+        await fetchShipments();
+        onChange();
+      } else {
+        toast.error(data.error || 'Failed to create shipment');
+      }
+    } catch {
+      toast.error('Failed to create shipment');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleAction = async (shipmentId: string, body: { action: 'label' } | { action: 'status'; status: ShipmentStatus }) => {
+    if (body.action === 'status' && body.status === 'cancelled' && !confirm('Cancel this shipment? Its items go back to the order.')) {
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/admin/shipments/${shipmentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(body.action === 'label'
+          ? 'Label printed'
+          : `Shipment marked as ${STATUS_LABELS[body.status].toLowerCase()}`);
+        await fetchShipments();
+        onChange();
+      } else {
+        toast.error(data.error || 'Failed to update shipment');
+      }
+    } catch {
+      toast.error('Failed to update shipment');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-soft p-6">
+      <h2 className="text-lg font-semibold text-forest-800 mb-4">Shipments</h2>
+
+      {shipments.length === 0 && (
+        <p className="text-sm text-forest-600 mb-4">Nothing has been sent yet.</p>
+      )}
+
+      <div className="space-y-4">
+        {shipments.map((shipment, index) => (
+          <div key={shipment.id} className="border border-cream-200 rounded-xl p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <span className="flex items-center gap-2 font-medium text-forest-800">
+                <TruckIcon className="h-4 w-4" />
+                Shipment {index + 1}
+              </span>
+              <span className="px-3 py-1 rounded-full text-xs font-medium bg-cream-200 text-forest-800">
+                {STATUS_LABELS[shipment.status]}
+              </span>
+            </div>
+
+            <ul className="text-sm text-forest-700 mb-2">
+              {shipment.items.map((item) => (
+                <li key={item.productId}>{item.quantity} &times; {item.productName}</li>
+              ))}
+            </ul>
+
+            {shipment.trackingNumber && (
+              <p className="flex items-center gap-3 text-sm text-forest-600 mb-2">
+                {shipment.carrier && `${shipment.carrier} `}{shipment.trackingNumber}
+                {shipment.labelUrl && (
+                  <a
+                    href={shipment.labelUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-sage-700 hover:underline"
+                  >
+                    <DocumentArrowDownIcon className="h-4 w-4" />
+                    Label
+                  </a>
+                )}
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {!shipment.trackingNumber && (shipment.status === 'pending' || shipment.status === 'packed') && (
+                <button
+                  onClick={() => handleAction(shipment.id, { action: 'label' })}
+                  disabled={updating}
+                  className="px-3 py-1.5 rounded-lg text-sm text-white bg-sage-600 hover:bg-sage-700 transition-colors disabled:opacity-50"
+                >
+                  Print label
+                </button>
+              )}
+              {getAllowedShipmentTransitions(shipment.status).map((status) => (
+                <button
+                  key={status}
+                  onClick={() => handleAction(shipment.id, { action: 'status', status })}
+                  disabled={updating || (status === 'shipped' && !shipment.trackingNumber)}
+                  className={`px-3 py-1.5 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                    status === 'cancelled'
+                      ? 'text-red-700 hover:bg-red-50 border border-red-200'
+                      : 'text-sage-700 hover:bg-sage-50 border border-sage-200'
+                  }`}
+                >
+                  {STATUS_LABELS[status]}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {canShip && unallocatedItems.length > 0 && (
+        <div className="mt-6 border-t border-cream-200 pt-4">
+          <h3 className="font-medium text-forest-800 mb-3">
+            {shipments.length === 0 ? 'Send items' : 'Items left to send'}
+          </h3>
+          <div className="space-y-2 mb-3">
+            {unallocatedItems.map((item) => (
+              <label key={item.productId} className="flex items-center justify-between gap-4 text-sm text-forest-700">
+                <span>{item.productName}</span>
+                <span className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={item.quantity}
+                    value={quantities[item.productId] ?? 0}
+                    onChange={(e) => setQuantities({
+                      ...quantities,
+                      [item.productId]: Math.max(0, Math.min(item.quantity, Number(e.target.value) || 0)),
+                    })}
+                    className="w-16 px-2 py-1 rounded-lg border-2 border-cream-300 focus:border-sage-600 focus:outline-none"
+                  />
+                  of {item.quantity}
+                </span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={updating}
+            className="px-4 py-2 rounded-xl text-sm text-white bg-sage-600 hover:bg-sage-700 transition-colors disabled:opacity-50"
+          >
+            Create shipment
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon, TrashIcon, PlusIcon, MinusIcon } from '@heroicons/react/24/outline';
 import { useCartStore } from '@/stores/cartStore';
 import { Product, BundleSelection } from '@/types';
-import { PriceCalculator } from '@/utils/helpers';
+import { PriceCalculator, LocalStorageHelper } from '@/utils/helpers';
 import Image from 'next/image';
 import Link from 'next/link';
 
@@ -28,6 +28,29 @@ export const CartSidebar = ({ isOpen, onClose, locale = 'sv' }: CartSidebarProps
   const { items, total, isLoading, updateQuantity, removeItem, clearCart, getItemCount } = useCartStore();
   const [cartItems, setCartItems] = useState<CartItemWithProduct[]>([]);
   const [loadingProducts, setLoadingProducts] = useState(false);
+  const [includedTax, setIncludedTax] = useState<number | null>(null);
+
+  // Prices include VAT; the cart summary works out how much of the total it is
+  useEffect(() => {
+    const fetchSummary = async () => {
+      if (!isOpen || items.length === 0) {
+        setIncludedTax(null);
+        return;
+      }
+
+      try {
+        const response = await fetch('/api/cart/summary', {
+          headers: { 'x-session-id': LocalStorageHelper.getSessionId() },
+        });
+        const result = await response.json();
+        setIncludedTax(result.success ? result.data.estimatedTax : null);
+      } catch (error) {
+        console.error('Failed to fetch cart summary:', error);
+      }
+    };
+
+    fetchSummary();
+  }, [isOpen, items]);
 
   // Fetch product details for cart items
   useEffect(() => {
@@ -133,8 +156,6 @@ export const CartSidebar = ({ isOpen, onClose, locale = 'sv' }: CartSidebarProps
   };
 
   const subtotal = PriceCalculator.formatPrice(total, locale);
-  const estimatedTax = PriceCalculator.formatPrice(PriceCalculator.calculateVAT(total), locale);
-  const totalWithTax = PriceCalculator.formatPrice(PriceCalculator.calculatePriceWithVAT(total), locale);
   const itemCount = getItemCount();
 
   return (
@@ -322,18 +343,20 @@ export const CartSidebar = ({ isOpen, onClose, locale = 'sv' }: CartSidebarProps
                             <p>{subtotal}</p>
                           </div>
 
-                          {/* Tax */}
-                          <div className="flex justify-between text-sm text-gray-600">
-                            <p>{locale === 'sv' ? 'Moms (25%)' : 'VAT (25%)'}</p>
-                            <p>{estimatedTax}</p>
-                          </div>
-
                           {/* Total */}
                           <div className="flex justify-between text-lg font-bold text-gray-900 border-t pt-4">
                             <p>{locale === 'sv' ? 'Totalt' : 'Total'}</p>
-                            <p>{totalWithTax}</p>
+                            <p>{subtotal}</p>
                           </div>
 
+                          {/* Tax */}
+                          {includedTax !== null && (
+                            <div className="flex justify-between text-sm text-gray-600">
+                              <p>{locale === 'sv' ? 'Varav moms' : 'Including VAT'}</p>
+                              <p>{PriceCalculator.formatPrice(includedTax, locale)}</p>
+                            </div>
+                          )}
+
                           <p className="text-sm text-gray-500">
                             {locale === 'sv' 
                               ? 'Frakt och leverans beräknas vid kassan.'
@@ -81,15 +81,33 @@ export default function CarrierOption({ rate, selected, onClick, locale = 'sv' }
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
             <span>
-              {rate.estimatedDays === 0
+              {rate.estimatedDeliveryDate
+                ? `${locale === 'sv' ? 'Beräknad leverans' : 'Estimated delivery'} ${new Date(rate.estimatedDeliveryDate).toLocaleDateString(
+                    locale === 'sv' ? 'sv-SE' : 'en-GB',
+                    { timeZone: 'Europe/Stockholm', weekday: 'long', day: 'numeric', month: 'long' }
+                  )}`
+                : rate.estimatedDays === 0
                 ? (locale === 'sv' ? 'Samma dag' : 'Same day')
                 : rate.estimatedDays === 1
                 ? (locale === 'sv' ? 'Nästa arbetsdag' : 'Next business day')
-                : `${rate.estimatedDays} ${locale === 'sv' ? 'dagar' : 'days'}`
+                : `${rate.estimatedDays} ${locale === 'sv' ? 'arbetsdagar' : 'business days'}`
               }
             </span>
           </div>
 
+          {/* Where the parcel is delivered */}
+          {rate.deliveryType && (
+            <div className="mb-2">
+              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-sage-100 text-sage-800">
+                {rate.deliveryType === 'service_point'
+                  ? (locale === 'sv' ? 'Ombud' : 'Service point')
+                  : rate.deliveryType === 'locker'
+                  ? (locale === 'sv' ? 'Paketskåp' : 'Parcel locker')
+                  : (locale === 'sv' ? 'Hemleverans' : 'Home delivery')}
+              </span>
+            </div>
+          )}
+
           {/* Features as badges */}
           {rate.features && rate.features.length > 0 && (
             <div className="flex flex-wrap gap-1.5">
@@ -7,7 +7,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAuth } from '@/hooks/useAuth';
 import { useCartStore } from '@/stores/cartStore';
-import { Address, PaymentMethod, ShippingRate, Product, BundleSelection } from '@/types';
+import { Address, PaymentMethod, ShippingRate, Product, BundleSelection, AppliedDiscount, PickupPoint } from '@/types';
+import type { OrderTotals } from '@/interfaces';
 import { PriceCalculator } from '@/utils/helpers';
 import Image from 'next/image';
 import {
@@ -17,6 +18,7 @@ import {
   BuildingLibraryIcon
 } from '@heroicons/react/24/outline';
 import CarrierOption from './CarrierOption';
+import PickupPointPicker from './PickupPointPicker';
 
 interface CartItemWithProduct {
   productId: string;
@@ -67,11 +69,19 @@ export const CheckoutForm = ({ locale = 'sv', onSuccess }: CheckoutFormProps) =>
   const [shippingRates, setShippingRates] = useState<ShippingRate[]>([]);
   const [allShippingRates, setAllShippingRates] = useState<ShippingRate[]>([]);
   const [selectedShipping, setSelectedShipping] = useState<ShippingRate | null>(null);
+  const [selectedPickupPoint, setSelectedPickupPoint] = useState<PickupPoint | null>(null);
   const [availablePaymentMethods, setAvailablePaymentMethods] = useState<Array<{ id: PaymentMethod; name: string; enabled: boolean }>>([]);
   const [cartItems, setCartItems] = useState<CartItemWithProduct[]>([]);
   const [loadingProducts, setLoadingProducts] = useState(false);
   const [freeShippingThreshold, setFreeShippingThreshold] = useState<number>(500);
   const [filterType, setFilterType] = useState<'all' | 'fastest' | 'cheapest' | 'eco'>('all');
+  const [discountInput, setDiscountInput] = useState('');
+  const [appliedDiscount, setAppliedDiscount] = useState<AppliedDiscount | null>(null);
+  const [discountError, setDiscountError] = useState<string | null>(null);
+  const [isApplyingDiscount, setIsApplyingDiscount] = useState(false);
+  const [totals, setTotals] = useState<OrderTotals | null>(null);
+  const [reservationId, setReservationId] = useState<string | null>(null);
+  const [stockError, setStockError] = useState<string | null>(null);
 
   const {
     register,
@@ -220,6 +230,68 @@ export const CheckoutForm = ({ locale = 'sv', onSuccess }: CheckoutFormProps) =>
     fetchShippingRates();
   }, [watchedFields[0]?.country, watchedFields[0]?.postalCode, items, total]);
 
+  // Hold the stock from the start of checkout; a changed cart swaps the reservation
+  useEffect(() => {
+    const reserveStock = async () => {
+      if (items.length === 0) return;
+
+      try {
+        const response = await fetch('/api/checkout', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            action: 'reserve-stock',
+            items,
+            reservationId: reservationId || undefined,
+          }),
+        });
+
+        const result = await response.json();
+        if (result.success) {
+          setReservationId(result.data.reservationId);
+          setStockError(null);
+        } else {
+          setStockError(result.error || (locale === 'sv' ? 'Varorna finns inte i lager' : 'Items are out of stock'));
+        }
+      } catch (error) {
+        console.error('Failed to reserve stock:', error);
+      }
+    };
+
+    reserveStock();
+    // The reservation is only renewed when the cart changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items]);
+
+  // Prices and VAT depend on the destination country, so totals come from the server
+  const shippingCountry = watchedFields[0]?.country;
+  useEffect(() => {
+    const fetchTotals = async () => {
+      if (shippingCountry && items.length > 0) {
+        try {
+          const response = await fetch('/api/checkout', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              action: 'calculate-totals',
+              items,
+              country: shippingCountry,
+              shippingCost: selectedShipping?.price || 0,
+              discountCode: appliedDiscount?.code,
+            }),
+          });
+
+          const result = await response.json();
+          setTotals(result.success ? result.data : null);
+        } catch (error) {
+          console.error('Failed to calculate totals:', error);
+        }
+      }
+    };
+
+    fetchTotals();
+  }, [shippingCountry, items, selectedShipping, appliedDiscount]);
+
   // Fetch available payment methods
   useEffect(() => {
     const fetchPaymentMethods = async () => {
@@ -239,11 +311,22 @@ export const CheckoutForm = ({ locale = 'sv', onSuccess }: CheckoutFormProps) =>
   }, []);
 
   const onSubmit = async (data: CheckoutFormData) => {
+    // The stock could not be held, so the order would fail when paid for
+    if (stockError) {
+      return;
+    }
+
     if (!selectedShipping) {
       alert(locale === 'sv' ? 'Välj ett leveransalternativ' : 'Please select a shipping option');
       return;
     }
 
+    const deliversToPickupPoint = !!selectedShipping.deliveryType && selectedShipping.deliveryType !== 'home';
+    if (deliversToPickupPoint && !selectedPickupPoint) {
+      alert(locale === 'sv' ? 'Välj ett utlämningsställe' : 'Please choose a pickup point');
+      return;
+    }
+
     setIsProcessing(true);
 
     try {
@@ -260,6 +343,10 @@ export const CheckoutForm = ({ locale = 'sv', onSuccess }: CheckoutFormProps) =>
         billingAddress: data.billingAddress,
         paymentMethod: data.paymentMethod,
         shippingRateId: selectedShipping.id,
+        pickupPointId: deliversToPickupPoint ? selectedPickupPoint?.id : undefined,
+        discountCode: appliedDiscount?.code,
+        reservationId: reservationId || undefined,
+        locale,
       };
 
       const response = await fetch('/api/checkout', {
@@ -295,6 +382,41 @@ export const CheckoutForm = ({ locale = 'sv', onSuccess }: CheckoutFormProps) =>
     }
   };
 
+  const applyDiscount = async () => {
+    if (!discountInput.trim()) return;
+
+    setIsApplyingDiscount(true);
+    setDiscountError(null);
+
+    try {
+      const response = await fetch('/api/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'apply-discount',
+          code: discountInput,
+          items,
+          shippingCost: selectedShipping?.price,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setAppliedDiscount(result.data);
+        setDiscountInput('');
+      } else {
+        setAppliedDiscount(null);
+        setDiscountError(result.error || (locale === 'sv' ? 'Ogiltig rabattkod' : 'Invalid discount code'));
+      }
+    } catch (error) {
+      console.error('Discount code error:', error);
+      setDiscountError(locale === 'sv' ? 'Ett fel uppstod' : 'An error occurred');
+    } finally {
+      setIsApplyingDiscount(false);
+    }
+  };
+
   const getPaymentIcon = (method: PaymentMethod) => {
     switch (method) {
       case 'stripe':
@@ -357,10 +479,12 @@ export const CheckoutForm = ({ locale = 'sv', onSuccess }: CheckoutFormProps) =>
 
   const isFreeShipping = total >= freeShippingThreshold;
 
-  const subtotal = total;
-  const tax = PriceCalculator.calculateVAT(subtotal);
-  const shipping = selectedShipping?.price || 0;
-  const totalAmount = subtotal + tax + shipping;
+  // Prices include VAT; until the server totals arrive, show the Swedish shelf prices
+  const subtotal = totals?.subtotal ?? total;
+  const itemDiscount = appliedDiscount && !appliedDiscount.freeShipping ? appliedDiscount.amount : 0;
+  const shipping = totals?.shipping ?? (appliedDiscount?.freeShipping ? 0 : selectedShipping?.price || 0);
+  const totalAmount = totals?.total ?? subtotal - itemDiscount + shipping;
+  const vatLines = totals?.vat.breakdown.filter(line => line.vat > 0) || [];
 
   if (items.length === 0) {
     return (
@@ -649,11 +773,27 @@ export const CheckoutForm = ({ locale = 'sv', onSuccess }: CheckoutFormProps) =>
                     key={rate.id}
                     rate={rate}
                     selected={selectedShipping?.id === rate.id}
-                    onClick={() => setSelectedShipping(rate)}
+                    onClick={() => {
+                      if (rate.id !== selectedShipping?.id) {
+                        setSelectedPickupPoint(null);
+                      }
+                      setSelectedShipping(rate);
+                    }}
                     locale={locale}
                   />
                 ))}
               </div>
+
+              {selectedShipping?.carrierCode && selectedShipping.deliveryType && selectedShipping.deliveryType !== 'home' && (
+                <PickupPointPicker
+                  carrierCode={selectedShipping.carrierCode}
+                  postalCode={watchedFields[0]?.postalCode || ''}
+                  type={selectedShipping.deliveryType}
+                  selectedId={selectedPickupPoint?.id}
+                  onSelect={setSelectedPickupPoint}
+                  locale={locale}
+                />
+              )}
             </div>
           )}
 
@@ -791,16 +931,62 @@ export const CheckoutForm = ({ locale = 'sv', onSuccess }: CheckoutFormProps) =>
               )}
             </div>
 
+            <div className="border-t pt-4 mb-4">
+              {appliedDiscount ? (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-green-700">
+                    {locale === 'sv' ? 'Rabattkod' : 'Discount code'}: {appliedDiscount.code}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setAppliedDiscount(null)}
+                    className="text-gray-500 hover:text-gray-700 underline"
+                  >
+                    {locale === 'sv' ? 'Ta bort' : 'Remove'}
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={discountInput}
+                    onChange={(e) => setDiscountInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        applyDiscount();
+                      }
+                    }}
+                    placeholder={locale === 'sv' ? 'Rabattkod' : 'Discount code'}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-purple-500 focus:border-purple-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={applyDiscount}
+                    disabled={isApplyingDiscount || !discountInput.trim()}
+                    className="px-4 py-2 bg-gray-800 text-white text-sm rounded-md hover:bg-gray-900 disabled:opacity-50"
+                  >
+                    {locale === 'sv' ? 'Använd' : 'Apply'}
+                  </button>
+                </div>
+              )}
+              {discountError && (
+                <p className="mt-2 text-sm text-red-600">{discountError}</p>
+              )}
+            </div>
+
             <div className="border-t pt-4 space-y-2">
               <div className="flex justify-between text-sm">
                 <span>{locale === 'sv' ? 'Subtotal' : 'Subtotal'}</span>
                 <span>{PriceCalculator.formatPrice(subtotal, locale)}</span>
               </div>
-              
-              <div className="flex justify-between text-sm">
-                <span>{locale === 'sv' ? 'Moms (25%)' : 'VAT (25%)'}</span>
-                <span>{PriceCalculator.formatPrice(tax, locale)}</span>
-              </div>
+
+              {itemDiscount > 0 && (
+                <div className="flex justify-between text-sm text-green-700">
+                  <span>{locale === 'sv' ? 'Rabatt' : 'Discount'} ({appliedDiscount!.code})</span>
+                  <span>-{PriceCalculator.formatPrice(itemDiscount, locale)}</span>
+                </div>
+              )}
               
               <div className="flex justify-between text-sm">
                 <span>{locale === 'sv' ? 'Frakt' : 'Shipping'}</span>
@@ -816,11 +1002,29 @@ export const CheckoutForm = ({ locale = 'sv', onSuccess }: CheckoutFormProps) =>
                 <span>{locale === 'sv' ? 'Totalt' : 'Total'}</span>
                 <span>{PriceCalculator.formatPrice(totalAmount, locale)}</span>
               </div>
+
+              {vatLines.map((line) => (
+                <div key={line.rate} className="flex justify-between text-xs text-gray-500">
+                  <span>
+                    {locale === 'sv' ? 'Varav moms' : 'Including VAT'} ({Math.round(line.rate * 1000) / 10}%)
+                  </span>
+                  <span>{PriceCalculator.formatPrice(line.vat, locale)}</span>
+                </div>
+              ))}
+              {totals?.vat.scheme === 'export' && (
+                <p className="text-xs text-gray-500">
+                  {locale === 'sv' ? 'Momsfri export utanför EU' : 'VAT-free export outside the EU'}
+                </p>
+              )}
             </div>
 
+            {stockError && (
+              <p className="mt-4 text-sm text-red-600">{stockError}</p>
+            )}
+
             <button
               type="submit"
-              disabled={isProcessing || !selectedShipping}
+              disabled={isProcessing || !selectedShipping || !!stockError}
               className="w-full mt-6 px-6 py-3 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               {isProcessing 
@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MapPin, CheckCircle2, Circle } from 'lucide-react';
+import { PickupPoint } from '@/types';
+
+interface PickupPointPickerProps {
+  carrierCode: string;
+  postalCode: string;
+  type: PickupPoint['type'];
+  selectedId?: string;
+  onSelect: (point: PickupPoint | null) => void;
+  locale?: 'sv' | 'en';
+}
+
+export default function PickupPointPicker({
+  carrierCode,
+  postalCode,
+  type,
+  selectedId,
+  onSelect,
+  locale = 'sv',
+}: PickupPointPickerProps) {
+  const [points, setPoints] = useState<PickupPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPickupPoints = async () => {
+      if (!postalCode) {
+        setPoints([]);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ carrier: carrierCode, postalCode, type });
+        const response = await fetch(`/api/shipping/pickup-points?${params}`);
+        const result = await response.json();
+
+        if (result.success) {
+          setPoints(result.data);
+          // Preselect the nearest point
+          onSelect(result.data[0] || null);
+        } else {
+          setPoints([]);
+          onSelect(null);
+          setError(result.error);
+        }
+      } catch (fetchError) {
+        console.error('Failed to fetch pickup points:', fetchError);
+        setError(locale === 'sv' ? 'Kunde inte hämta utlämningsställen' : 'Could not load pickup points');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPickupPoints();
+    // onSelect is recreated on every render of the parent
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [carrierCode, postalCode, type]);
+
+  const heading = type === 'locker'
+    ? (locale === 'sv' ? 'Välj paketskåp' : 'Choose a parcel locker')
+    : (locale === 'sv' ? 'Välj ombud' : 'Choose a service point');
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-sage-200 bg-sage-50/50">
+      <h4 className="flex items-center gap-2 font-semibold text-forest-800 mb-3">
+        <MapPin className="w-5 h-5 text-sage-600" />
+        {heading}
+      </h4>
+
+      {loading && (
+        <p className="text-sm text-gray-600">
+          {locale === 'sv' ? 'Söker utlämningsställen...' : 'Finding pickup points...'}
+        </p>
+      )}
+
+      {!loading && error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!loading && !error && points.length === 0 && (
+        <p className="text-sm text-gray-600">
+          {!postalCode
+            ? (locale === 'sv' ? 'Fyll i ditt postnummer för att se utlämningsställen.' : 'Enter your postal code to see pickup points.')
+            : (locale === 'sv'
+              ? 'Inga utlämningsställen hittades nära ditt postnummer. Välj ett annat leveransalternativ.'
+              : 'No pickup points were found near your postal code. Please choose another shipping option.')}
+        </p>
+      )}
+
+      {!loading && points.length > 0 && (
+        <div className="space-y-2">
+          {points.map((point) => (
+            <button
+              key={point.id}
+              type="button"
+              onClick={() => onSelect(point)}
+              className={`w-full flex items-start gap-3 p-3 rounded-md border text-left transition-colors ${
+                selectedId === point.id
+                  ? 'border-sage-600 bg-white'
+                  : 'border-gray-200 bg-white hover:border-sage-300'
+              }`}
+            >
+              {selectedId === point.id ? (
+                <CheckCircle2 className="w-5 h-5 text-sage-600 flex-shrink-0 mt-0.5" />
+              ) : (
+                <Circle className="w-5 h-5 text-gray-300 flex-shrink-0 mt-0.5" />
+              )}
+              <div>
+                <p className="font-medium text-forest-800">{point.name}</p>
+                <p className="text-sm text-gray-600">
+                  {point.street}, {point.postalCode} {point.city}
+                </p>
+                {point.openingHours && (
+                  <p className="text-xs text-gray-500 mt-0.5">{point.openingHours}</p>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
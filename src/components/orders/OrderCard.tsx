@@ -15,6 +15,7 @@ import {
 interface OrderCardProps {
   order: {
     id: string;
+    orderNumber: string;
     status: string;
     createdAt: string;
     totalAmount: number;
@@ -41,9 +42,12 @@ export function OrderCard({ order, locale = 'sv', onCancel }: OrderCardProps) {
     switch (status.toLowerCase()) {
       case 'pending':
         return <ClockIcon className="w-5 h-5 text-yellow-600" />;
-      case 'confirmed':
+      case 'paid':
+      case 'picking':
+      case 'packed':
         return <CheckCircleIcon className="w-5 h-5 text-green-600" />;
       case 'shipped':
+      case 'in_transit':
         return <TruckIcon className="w-5 h-5 text-blue-600" />;
       case 'delivered':
         return <CheckCircleIcon className="w-5 h-5 text-green-600" />;
@@ -57,9 +61,14 @@ export function OrderCard({ order, locale = 'sv', onCancel }: OrderCardProps) {
   const getStatusText = (status: string) => {
     const statusMap = {
       pending: locale === 'sv' ? 'Väntar' : 'Pending',
-      confirmed: locale === 'sv' ? 'Bekräftad' : 'Confirmed',
+      paid: locale === 'sv' ? 'Betald' : 'Paid',
+      picking: locale === 'sv' ? 'Plockas' : 'Being picked',
+      packed: locale === 'sv' ? 'Packad' : 'Packed',
       shipped: locale === 'sv' ? 'Skickad' : 'Shipped',
+      in_transit: locale === 'sv' ? 'På väg' : 'In transit',
       delivered: locale === 'sv' ? 'Levererad' : 'Delivered',
+      returned: locale === 'sv' ? 'Returnerad' : 'Returned',
+      refunded: locale === 'sv' ? 'Återbetald' : 'Refunded',
       cancelled: locale === 'sv' ? 'Avbruten' : 'Cancelled',
     };
     return statusMap[status.toLowerCase() as keyof typeof statusMap] || status;
@@ -69,9 +78,12 @@ export function OrderCard({ order, locale = 'sv', onCancel }: OrderCardProps) {
     switch (status.toLowerCase()) {
       case 'pending':
         return 'text-yellow-700 bg-yellow-100';
-      case 'confirmed':
+      case 'paid':
+      case 'picking':
+      case 'packed':
         return 'text-green-700 bg-green-100';
       case 'shipped':
+      case 'in_transit':
         return 'text-blue-700 bg-blue-100';
       case 'delivered':
         return 'text-green-700 bg-green-100';
@@ -98,7 +110,7 @@ export function OrderCard({ order, locale = 'sv', onCancel }: OrderCardProps) {
   };
 
   const canCancel = () => {
-    return ['pending', 'confirmed'].includes(order.status.toLowerCase());
+    return ['pending', 'paid'].includes(order.status.toLowerCase());
   };
 
   const handleCancel = async () => {
@@ -121,7 +133,7 @@ export function OrderCard({ order, locale = 'sv', onCancel }: OrderCardProps) {
             {getStatusIcon(order.status)}
             <div>
               <p className="font-semibold text-gray-900">
-                {locale === 'sv' ? 'Beställning' : 'Order'} #{order.id}
+                {locale === 'sv' ? 'Beställning' : 'Order'} {order.orderNumber}
               </p>
               <p className="text-sm text-gray-600">
                 {formatDate(order.createdAt)}
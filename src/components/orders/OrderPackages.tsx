@@ -0,0 +1,113 @@
+'use client';
+
+import Link from 'next/link';
+import { TruckIcon } from '@heroicons/react/24/outline';
+import type { ShipmentItem, ShipmentStatus } from '@/types';
+
+interface OrderPackage {
+  id: string;
+  status: ShipmentStatus;
+  carrier?: string;
+  trackingNumber?: string;
+  items: ShipmentItem[];
+  shippedAt?: string;
+  deliveredAt?: string;
+}
+
+interface OrderPackagesProps {
+  packages: OrderPackage[];
+  locale?: string;
+}
+
+const STATUS_COLORS: Record<ShipmentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  packed: 'bg-purple-100 text-purple-800',
+  shipped: 'bg-blue-100 text-blue-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  returned: 'bg-orange-100 text-orange-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+export function OrderPackages({ packages, locale = 'sv' }: OrderPackagesProps) {
+  const getStatusText = (status: ShipmentStatus) => {
+    const statusMap: Record<ShipmentStatus, string> = {
+      pending: locale === 'sv' ? 'Förbereds' : 'Being prepared',
+      packed: locale === 'sv' ? 'Packad' : 'Packed',
+      shipped: locale === 'sv' ? 'Skickad' : 'Shipped',
+      in_transit: locale === 'sv' ? 'På väg' : 'In transit',
+      delivered: locale === 'sv' ? 'Levererad' : 'Delivered',
+      returned: locale === 'sv' ? 'Returnerad' : 'Returned',
+      cancelled: locale === 'sv' ? 'Avbruten' : 'Cancelled',
+    };
+    return statusMap[status];
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('sv-SE', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">
+        {packages.length > 1
+          ? (locale === 'sv' ? `Skickas i ${packages.length} paket` : `Sent in ${packages.length} packages`)
+          : (locale === 'sv' ? 'Paket' : 'Package')}
+      </h2>
+
+      <div className="space-y-4">
+        {packages.map((pkg, index) => (
+          <div key={pkg.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center space-x-2">
+                <TruckIcon className="w-5 h-5 text-gray-500" />
+                <span className="font-medium text-gray-900">
+                  {locale === 'sv' ? 'Paket' : 'Package'} {index + 1}
+                </span>
+              </div>
+              <span className={`px-3 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[pkg.status]}`}>
+                {getStatusText(pkg.status)}
+              </span>
+            </div>
+
+            <ul className="text-sm text-gray-700 space-y-1 mb-3">
+              {pkg.items.map((item) => (
+                <li key={item.productId}>
+                  {item.quantity} &times; {item.productName}
+                </li>
+              ))}
+            </ul>
+
+            {pkg.deliveredAt ? (
+              <p className="text-sm text-gray-600">
+                {locale === 'sv' ? 'Levererad' : 'Delivered'} {formatDate(pkg.deliveredAt)}
+              </p>
+            ) : pkg.shippedAt && (
+              <p className="text-sm text-gray-600">
+                {locale === 'sv' ? 'Skickad' : 'Shipped'} {formatDate(pkg.shippedAt)}
+              </p>
+            )}
+
+            {pkg.trackingNumber && pkg.status !== 'pending' && pkg.status !== 'packed' && (
+              <div className="flex items-center justify-between mt-3 bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <p className="text-sm text-blue-900">
+                  {pkg.carrier && `${pkg.carrier} · `}{pkg.trackingNumber}
+                </p>
+                <Link
+                  href={`/orders/track?tracking=${pkg.trackingNumber}`}
+                  className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {locale === 'sv' ? 'Spåra paket' : 'Track package'}
+                </Link>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import type { OrderStatus } from '@/types';
+
+interface OrderStatusTimelineEntry {
+  id: string;
+  fromStatus?: OrderStatus;
+  toStatus: OrderStatus;
+  // Only sent to admins
+  actor?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusTimelineEntry[];
+  locale?: string;
+  // Shows who made each change and why; for the admin
+  showDetails?: boolean;
+}
+
+const DOT_COLORS: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-500',
+  paid: 'bg-blue-500',
+  picking: 'bg-purple-500',
+  packed: 'bg-purple-500',
+  shipped: 'bg-indigo-500',
+  in_transit: 'bg-indigo-500',
+  delivered: 'bg-green-600',
+  returned: 'bg-orange-500',
+  refunded: 'bg-gray-500',
+  cancelled: 'bg-red-500',
+};
+
+export function OrderStatusTimeline({ history, locale = 'sv', showDetails = false }: OrderStatusTimelineProps) {
+  const getStatusText = (status: OrderStatus) => {
+    const statusMap: Record<OrderStatus, string> = {
+      pending: locale === 'sv' ? 'Väntar på betalning' : 'Awaiting payment',
+      paid: locale === 'sv' ? 'Betald' : 'Paid',
+      picking: locale === 'sv' ? 'Plockas' : 'Being picked',
+      packed: locale === 'sv' ? 'Packad' : 'Packed',
+      shipped: locale === 'sv' ? 'Skickad' : 'Shipped',
+      in_transit: locale === 'sv' ? 'På väg' : 'In transit',
+      delivered: locale === 'sv' ? 'Levererad' : 'Delivered',
+      returned: locale === 'sv' ? 'Returnerad' : 'Returned',
+      refunded: locale === 'sv' ? 'Återbetald' : 'Refunded',
+      cancelled: locale === 'sv' ? 'Avbruten' : 'Cancelled',
+    };
+    return statusMap[status] || status;
+  };
+
+  // 'admin:<id>' and 'customer:<id>' are shown without the id
+  const getActorText = (actor: string) => {
+    const [kind] = actor.split(':');
+    return kind.charAt(0).toUpperCase() + kind.slice(1);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('sv-SE', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        {locale === 'sv' ? 'Ingen orderhistorik ännu' : 'No order history yet'}
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-2 space-y-5">
+      {history.map((entry) => (
+        <li key={entry.id} className="ml-5">
+          <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ${DOT_COLORS[entry.toStatus] || 'bg-gray-400'}`} />
+          <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+            <span className="font-medium text-gray-900">{getStatusText(entry.toStatus)}</span>
+            <time className="text-xs text-gray-500">{formatDate(entry.createdAt)}</time>
+          </div>
+          {showDetails && entry.actor && (
+            <p className="text-xs text-gray-500 mt-0.5">
+              {getActorText(entry.actor)}
+              {entry.reason && <> &ndash; {entry.reason}</>}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -6,6 +6,7 @@ import { ClipboardDocumentListIcon } from '@heroicons/react/24/outline';
 
 interface Order {
   id: string;
+  orderNumber: string;
   status: string;
   createdAt: string;
   totalAmount: number;
@@ -100,7 +101,7 @@ export function OrdersList({ locale = 'sv' }: OrdersListProps) {
     return {
       all: orders.length,
       pending: orders.filter(o => o.status === 'pending').length,
-      confirmed: orders.filter(o => o.status === 'confirmed').length,
+      paid: orders.filter(o => o.status === 'paid').length,
       shipped: orders.filter(o => o.status === 'shipped').length,
       delivered: orders.filter(o => o.status === 'delivered').length,
       cancelled: orders.filter(o => o.status === 'cancelled').length,
@@ -167,7 +168,7 @@ export function OrdersList({ locale = 'sv' }: OrdersListProps) {
           {[
             { key: 'all', label: locale === 'sv' ? 'Alla' : 'All', count: counts.all },
             { key: 'pending', label: locale === 'sv' ? 'Väntar' : 'Pending', count: counts.pending },
-            { key: 'confirmed', label: locale === 'sv' ? 'Bekräftade' : 'Confirmed', count: counts.confirmed },
+            { key: 'paid', label: locale === 'sv' ? 'Betalda' : 'Paid', count: counts.paid },
             { key: 'shipped', label: locale === 'sv' ? 'Skickade' : 'Shipped', count: counts.shipped },
             { key: 'delivered', label: locale === 'sv' ? 'Levererade' : 'Delivered', count: counts.delivered },
             { key: 'cancelled', label: locale === 'sv' ? 'Avbrutna' : 'Cancelled', count: counts.cancelled },
@@ -0,0 +1,231 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import type { ReturnItemCondition, ReturnRequest } from '@/types';
+
+interface ReturnItemsFormProps {
+  orderId: string;
+  items: Array<{
+    productId: string;
+    name: string;
+    quantity: number;
+  }>;
+  locale?: string;
+}
+
+const CONDITIONS: ReturnItemCondition[] = ['unopened', 'opened', 'damaged', 'defective'];
+
+export function ReturnItemsForm({ orderId, items, locale = 'sv' }: ReturnItemsFormProps) {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [open, setOpen] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [conditions, setConditions] = useState<Record<string, ReturnItemCondition>>({});
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchReturns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orderId]);
+
+  const fetchReturns = async () => {
+    try {
+      const response = await fetch('/api/returns');
+      const data = await response.json();
+      if (data.success) {
+        setReturns(data.data.filter((returnRequest: ReturnRequest) => returnRequest.orderId === orderId));
+      }
+    } catch (err) {
+      console.error('Failed to load returns:', err);
+    }
+  };
+
+  const getConditionText = (condition: ReturnItemCondition) => {
+    const conditionMap = {
+      unopened: locale === 'sv' ? 'Oöppnad' : 'Unopened',
+      opened: locale === 'sv' ? 'Öppnad' : 'Opened',
+      damaged: locale === 'sv' ? 'Skadad vid leverans' : 'Damaged in transit',
+      defective: locale === 'sv' ? 'Felaktig' : 'Defective',
+    };
+    return conditionMap[condition];
+  };
+
+  const getStatusText = (status: string) => {
+    const statusMap = {
+      pending: locale === 'sv' ? 'Väntar på godkännande' : 'Awaiting approval',
+      approved: locale === 'sv' ? 'Godkänd – skicka tillbaka varorna' : 'Approved – send the items back',
+      rejected: locale === 'sv' ? 'Avslagen' : 'Rejected',
+      received: locale === 'sv' ? 'Mottagen' : 'Received',
+      refunded: locale === 'sv' ? 'Återbetald' : 'Refunded',
+      cancelled: locale === 'sv' ? 'Återkallad' : 'Withdrawn',
+    };
+    return statusMap[status as keyof typeof statusMap] || status;
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('sv-SE', {
+      style: 'currency',
+      currency: 'SEK',
+    }).format(price);
+  };
+
+  const handleSubmit = async () => {
+    const selected = items
+      .filter(item => (quantities[item.productId] || 0) > 0)
+      .map(item => ({
+        productId: item.productId,
+        quantity: quantities[item.productId],
+        condition: conditions[item.productId] || 'unopened',
+      }));
+
+    if (selected.length === 0) {
+      setError(locale === 'sv' ? 'Välj minst en produkt att returnera' : 'Select at least one item to return');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/returns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId, reason, items: selected }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setReturns([data.data, ...returns]);
+        setOpen(false);
+        setQuantities({});
+        setConditions({});
+        setReason('');
+      } else {
+        setError(data.error || (locale === 'sv' ? 'Returen kunde inte skapas' : 'Could not create the return'));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create return');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = async (returnId: string) => {
+    try {
+      const response = await fetch(`/api/returns/${returnId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setReturns(returns.map(returnRequest => returnRequest.id === returnId ? data.data : returnRequest));
+      } else {
+        alert(data.error);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to withdraw return');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">
+          {locale === 'sv' ? 'Returer' : 'Returns'}
+        </h2>
+        {!open && (
+          <button
+            onClick={() => setOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <ArrowUturnLeftIcon className="h-4 w-4 mr-2" />
+            {locale === 'sv' ? 'Returnera varor' : 'Return items'}
+          </button>
+        )}
+      </div>
+
+      {returns.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {returns.map(returnRequest => (
+            <div key={returnRequest.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg text-sm">
+              <div>
+                <p className="font-medium text-gray-900">{getStatusText(returnRequest.status)}</p>
+                <p className="text-gray-600">
+                  {locale === 'sv' ? 'Återbetalning:' : 'Refund:'} {formatPrice(returnRequest.refundAmount)}
+                </p>
+              </div>
+              {['pending', 'approved'].includes(returnRequest.status) && (
+                <button
+                  onClick={() => handleWithdraw(returnRequest.id)}
+                  className="text-red-600 hover:text-red-700 underline"
+                >
+                  {locale === 'sv' ? 'Återkalla' : 'Withdraw'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {open && (
+        <div className="space-y-4">
+          {items.map(item => (
+            <div key={item.productId} className="flex flex-wrap items-center gap-3 p-3 border border-gray-200 rounded-lg">
+              <span className="flex-1 min-w-0 font-medium text-gray-900">{item.name}</span>
+              <select
+                value={quantities[item.productId] || 0}
+                onChange={(e) => setQuantities({ ...quantities, [item.productId]: parseInt(e.target.value) })}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {Array.from({ length: item.quantity + 1 }, (_, quantity) => (
+                  <option key={quantity} value={quantity}>{quantity}</option>
+                ))}
+              </select>
+              <select
+                value={conditions[item.productId] || 'unopened'}
+                onChange={(e) => setConditions({ ...conditions, [item.productId]: e.target.value as ReturnItemCondition })}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {CONDITIONS.map(condition => (
+                  <option key={condition} value={condition}>{getConditionText(condition)}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            placeholder={locale === 'sv' ? 'Varför returnerar du varorna?' : 'Why are you returning the items?'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-purple-500 focus:border-purple-500"
+          />
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="px-4 py-2 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting
+                ? (locale === 'sv' ? 'Skickar...' : 'Submitting...')
+                : (locale === 'sv' ? 'Skicka returförfrågan' : 'Request return')
+              }
+            </button>
+            <button
+              onClick={() => setOpen(false)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {locale === 'sv' ? 'Avbryt' : 'Cancel'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { Product } from '@/types';
 import { PriceCalculator } from '@/utils/helpers';
 import { getProductBenefits } from '@/utils/productBenefits';
 import { ShoppingCartIcon, HeartIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
-import { HeartIcon as HeartSolidIcon } from '@heroicons/react/24/solid';
+import { HeartIcon as HeartSolidIcon, StarIcon } from '@heroicons/react/24/solid';
 import { BundleImage } from '@/components/bundles';
 import Image from 'next/image';
 import Link from 'next/link';
@@ -196,6 +196,25 @@ export const ProductCard = ({
           </Link>
         </div>
 
+        {/* Rating from approved reviews */}
+        {!!product.reviewCount && (
+          <div className="flex items-center gap-1.5 mb-3">
+            <div className="flex gap-0.5">
+              {[1, 2, 3, 4, 5].map((star) => (
+                <StarIcon
+                  key={star}
+                  className={`h-4 w-4 ${
+                    star <= Math.round(product.averageRating || 0) ? 'text-yellow-400' : 'text-gray-300'
+                  }`}
+                />
+              ))}
+            </div>
+            <span className="text-sm text-forest-600">
+              {(product.averageRating || 0).toFixed(1)} ({product.reviewCount})
+            </span>
+          </div>
+        )}
+
         <p className="text-sm text-forest-600 line-clamp-2 mb-4 leading-relaxed">
           {localizedDescription}
         </p>
@@ -4,12 +4,12 @@ import { useState, useEffect } from 'react';
 import { StarIcon, UserCircleIcon, CheckBadgeIcon } from '@heroicons/react/24/solid';
 import { StarIcon as StarIconOutline } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
+import { LocalStorageHelper } from '@/utils/helpers';
 
 interface Review {
   id: string;
   productId: string;
-  userId: string;
-  userName: string;
+  authorName: string;
   rating: number;
   title: string;
   comment: string;
@@ -18,6 +18,12 @@ interface Review {
   createdAt: string;
 }
 
+interface RatingSummary {
+  averageRating: number;
+  reviewCount: number;
+  distribution: Record<number, number>;
+}
+
 interface ProductReviewsProps {
   productId: string;
   userId?: string;
@@ -25,6 +31,7 @@ interface ProductReviewsProps {
 
 export function ProductReviews({ productId, userId }: ProductReviewsProps) {
   const [reviews, setReviews] = useState<Review[]>([]);
+  const [summary, setSummary] = useState<RatingSummary>({ averageRating: 0, reviewCount: 0, distribution: {} });
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [rating, setRating] = useState(5);
@@ -43,7 +50,8 @@ export function ProductReviews({ productId, userId }: ProductReviewsProps) {
       const response = await fetch(`/api/reviews?productId=${productId}`);
       const data = await response.json();
       if (data.success) {
-        setReviews(data.data || []);
+        setReviews(data.data.reviews || []);
+        setSummary(data.data.summary);
       }
     } catch (error) {
       console.error('Failed to fetch reviews:', error);
@@ -82,12 +90,11 @@ export function ProductReviews({ productId, userId }: ProductReviewsProps) {
       const data = await response.json();
 
       if (data.success) {
-        toast.success('Tack för din recension!');
+        toast.success('Tack för din recension! Den publiceras när vi har granskat den.');
         setTitle('');
         setComment('');
         setRating(5);
         setShowForm(false);
-        fetchReviews();
       } else {
         toast.error(data.error || 'Kunde inte skicka recension');
       }
@@ -102,30 +109,33 @@ export function ProductReviews({ productId, userId }: ProductReviewsProps) {
     try {
       const response = await fetch(`/api/reviews/${reviewId}/helpful`, {
         method: 'POST',
+        headers: { 'x-session-id': LocalStorageHelper.getSessionId() },
       });
+      const data = await response.json();
 
-      if (response.ok) {
+      if (data.success) {
         setReviews(reviews.map(r =>
-          r.id === reviewId ? { ...r, helpful: r.helpful + 1 } : r
+          r.id === reviewId ? { ...r, helpful: data.data.helpful } : r
         ));
         toast.success('Tack för din feedback!');
+      } else {
+        toast.error(response.status === 400 ? 'Du har redan markerat recensionen som hjälpsam' : 'Ett fel uppstod');
       }
     } catch (error) {
       console.error('Failed to mark review as helpful:', error);
     }
   };
 
-  const averageRating = reviews.length > 0
-    ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length
-    : 0;
+  const { averageRating, reviewCount } = summary;
 
-  const ratingDistribution = [5, 4, 3, 2, 1].map(star => ({
-    star,
-    count: reviews.filter(r => r.rating === star).length,
-    percentage: reviews.length > 0
-      ? (reviews.filter(r => r.rating === star).length / reviews.length) * 100
-      : 0,
-  }));
+  const ratingDistribution = [5, 4, 3, 2, 1].map(star => {
+    const count = summary.distribution[star] || 0;
+    return {
+      star,
+      count,
+      percentage: reviewCount > 0 ? (count / reviewCount) * 100 : 0,
+    };
+  });
 
   if (loading) {
     return (
@@ -158,7 +168,7 @@ export function ProductReviews({ productId, userId }: ProductReviewsProps) {
               ))}
             </div>
             <p className="text-forest-600">
-              Baserat på {reviews.length} {reviews.length === 1 ? 'recension' : 'recensioner'}
+              Baserat på {reviewCount} {reviewCount === 1 ? 'recension' : 'recensioner'}
             </p>
           </div>
 
@@ -286,7 +296,7 @@ export function ProductReviews({ productId, userId }: ProductReviewsProps) {
       {/* Reviews List */}
       <div className="space-y-4">
         <h3 className="text-xl font-serif font-bold text-forest-800">
-          Recensioner ({reviews.length})
+          Recensioner ({reviewCount})
         </h3>
 
         {reviews.length > 0 ? (
@@ -299,7 +309,7 @@ export function ProductReviews({ productId, userId }: ProductReviewsProps) {
                   <div>
                     <div className="flex items-center gap-2">
                       <span className="font-semibold text-forest-800">
-                        {review.userName}
+                        {review.authorName}
                       </span>
                       {review.verified && (
                         <CheckBadgeIcon
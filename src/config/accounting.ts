@@ -0,0 +1,41 @@
+// Chart of accounts used for the SIE export, following the BAS plan.
+// Change the numbers here to match the company's own chart of accounts.
+
+import type { PaymentMethod } from '@/types';
+
+export interface AccountMapping {
+  number: string;
+  name: string;
+}
+
+export const CHART_OF_ACCOUNTS_TYPE = 'BAS2014';
+
+export const ACCOUNTS = {
+  // Goods sold in Sweden, by VAT rate in percent
+  domesticSales: {
+    25: { number: '3001', name: 'Försäljning inom Sverige, 25 % moms' },
+    12: { number: '3002', name: 'Försäljning inom Sverige, 12 % moms' },
+    6: { number: '3003', name: 'Försäljning inom Sverige, 6 % moms' },
+  } as Record<number, AccountMapping>,
+  ossSales: { number: '3106', name: 'Försäljning varor till annat EU-land, momspliktig' },
+  exportSales: { number: '3105', name: 'Försäljning varor till land utanför EU' },
+  shipping: { number: '3520', name: 'Fakturerade frakter' },
+
+  outputVat: {
+    25: { number: '2611', name: 'Utgående moms på försäljning inom Sverige, 25 %' },
+    12: { number: '2621', name: 'Utgående moms på försäljning inom Sverige, 12 %' },
+    6: { number: '2631', name: 'Utgående moms på försäljning inom Sverige, 6 %' },
+  } as Record<number, AccountMapping>,
+  // OSS VAT is paid to Skatteverket through the OSS return, not the Swedish
+  // VAT return, so it is kept apart from the Swedish output VAT
+  ossVat: { number: '2619', name: 'Utgående moms OSS' },
+
+  // Where the money is until the provider pays it out
+  clearing: {
+    stripe: { number: '1580', name: 'Fordringar för kontokort och kuponger' },
+    card: { number: '1580', name: 'Fordringar för kontokort och kuponger' },
+    klarna: { number: '1581', name: 'Fordran Klarna' },
+    swish: { number: '1930', name: 'Företagskonto' },
+    'bank-transfer': { number: '1510', name: 'Kundfordringar' },
+  } as Record<PaymentMethod, AccountMapping>,
+};
@@ -0,0 +1,27 @@
+/**
+ * Box Catalogue
+ *
+ * The boxes the warehouse packs orders in. Checkout picks the smallest one the
+ * items fit in, and carriers charge by its volume when that weighs more than
+ * the parcel itself. Add or change boxes here to match what is on the shelf.
+ */
+
+import { ShippingBox } from '@/types';
+
+export const BOX_CATALOGUE: ShippingBox[] = [
+  { code: 'XS', name: 'Vadderat kuvert', dimensions: { length: 22, width: 16, height: 5 }, tareWeight: 0.05, maxWeight: 1 },
+  { code: 'S', name: 'Kartong S', dimensions: { length: 25, width: 18, height: 10 }, tareWeight: 0.15, maxWeight: 5 },
+  { code: 'M', name: 'Kartong M', dimensions: { length: 35, width: 25, height: 15 }, tareWeight: 0.3, maxWeight: 15 },
+  { code: 'L', name: 'Kartong L', dimensions: { length: 45, width: 35, height: 25 }, tareWeight: 0.5, maxWeight: 25 },
+  { code: 'XL', name: 'Kartong XL', dimensions: { length: 60, width: 40, height: 40 }, tareWeight: 0.8, maxWeight: 30 },
+];
+
+// Share of a box the items may take up; the rest goes to the walls and padding
+export const BOX_FILL_FACTOR = 0.75;
+
+// Volumetric weight in kg is length x width x height in cm divided by this (200 kg per m³)
+export const VOLUMETRIC_DIVISOR = 5000;
+
+export function getBoxByCode(code: string): ShippingBox | undefined {
+  return BOX_CATALOGUE.find(box => box.code === code);
+}
@@ -14,6 +14,7 @@ export const CARRIERS: Record<string, CarrierInfo> = {
     logoUrl: '/images/carriers/postnord.svg',
     colorScheme: '#FFDB00',
     trackingPrefix: 'PN',
+    cutoffTime: '15:00',
     services: [
       {
         type: 'STANDARD',
@@ -24,6 +25,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Försäkring upp till 1000 SEK'],
         isEcoFriendly: false,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: true,
       },
       {
         type: 'PAKET',
@@ -34,6 +37,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Försäkring', 'Leveransavi'],
         isEcoFriendly: false,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: true,
       },
       {
         type: 'EXPRESS',
@@ -44,6 +49,20 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Försäkring', 'Leveransavi', 'Express'],
         isEcoFriendly: false,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: false,
+      },
+      {
+        type: 'SERVICEPOINT',
+        name: 'PostNord Ombud',
+        description: 'Hämta ut hos ditt närmaste ombud',
+        estimatedDays: 2,
+        maxWeight: 20,
+        minWeight: 0,
+        features: ['Spårning', 'SMS-avisering', 'Välj ombud'],
+        isEcoFriendly: false,
+        deliveryType: 'service_point',
+        acceptsLimitedQuantity: true,
       },
     ],
   },
@@ -54,6 +73,7 @@ export const CARRIERS: Record<string, CarrierInfo> = {
     logoUrl: '/images/carriers/dhl.svg',
     colorScheme: '#FFCC00',
     trackingPrefix: 'DHL',
+    cutoffTime: '16:00',
     services: [
       {
         type: 'STANDARD',
@@ -64,6 +84,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Försäkring', 'SMS-avisering'],
         isEcoFriendly: false,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: true,
       },
       {
         type: 'EXPRESS',
@@ -74,6 +96,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Försäkring', 'SMS-avisering', 'Express', 'Signaturkrav'],
         isEcoFriendly: false,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: false,
       },
     ],
   },
@@ -84,6 +108,7 @@ export const CARRIERS: Record<string, CarrierInfo> = {
     logoUrl: '/images/carriers/bring.svg',
     colorScheme: '#00B2A9',
     trackingPrefix: 'BR',
+    cutoffTime: '15:00',
     services: [
       {
         type: 'HOME_DELIVERY',
@@ -94,6 +119,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Hemleverans', 'SMS-avisering'],
         isEcoFriendly: false,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: true,
       },
       {
         type: 'SERVICEPOINT',
@@ -104,6 +131,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Servicepunkt', 'SMS-avisering', 'Förlängd uthämtningstid'],
         isEcoFriendly: false,
+        deliveryType: 'service_point',
+        acceptsLimitedQuantity: true,
       },
       {
         type: 'PICKUP',
@@ -114,6 +143,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Servicepunkt', 'Billigaste alternativet'],
         isEcoFriendly: false,
+        deliveryType: 'service_point',
+        acceptsLimitedQuantity: true,
       },
     ],
   },
@@ -124,6 +155,7 @@ export const CARRIERS: Record<string, CarrierInfo> = {
     logoUrl: '/images/carriers/db-schenker.svg',
     colorScheme: '#EC0016',
     trackingPrefix: 'DBS',
+    cutoffTime: '14:00',
     services: [
       {
         type: 'HOME_DELIVERY',
@@ -134,6 +166,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Hemleverans', 'Tidsfönster', 'SMS-avisering'],
         isEcoFriendly: false,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: true,
       },
       {
         type: 'PARCEL_BOX',
@@ -144,6 +178,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Paketbox', '24/7 tillgång'],
         isEcoFriendly: false,
+        deliveryType: 'locker',
+        acceptsLimitedQuantity: false,
       },
       {
         type: 'SERVICEPOINT',
@@ -154,6 +190,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Servicepunkt', 'Förlängd uthämtningstid'],
         isEcoFriendly: false,
+        deliveryType: 'service_point',
+        acceptsLimitedQuantity: true,
       },
     ],
   },
@@ -164,6 +202,7 @@ export const CARRIERS: Record<string, CarrierInfo> = {
     logoUrl: '/images/carriers/instabee.svg',
     colorScheme: '#FF6B6B',
     trackingPrefix: 'IB',
+    cutoffTime: '12:00',
     services: [
       {
         type: 'HOME_DELIVERY',
@@ -174,6 +213,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Samma dag', 'SMS-avisering', 'Live-tracking'],
         isEcoFriendly: false,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: false,
       },
       {
         type: 'EVENING_DELIVERY',
@@ -184,6 +225,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Kvällsleverans', 'SMS-avisering', 'Live-tracking'],
         isEcoFriendly: false,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: false,
       },
     ],
   },
@@ -194,6 +237,7 @@ export const CARRIERS: Record<string, CarrierInfo> = {
     logoUrl: '/images/carriers/budbee.svg',
     colorScheme: '#00D9A5',
     trackingPrefix: 'BD',
+    cutoffTime: '13:00',
     services: [
       {
         type: 'HOME_DELIVERY',
@@ -204,6 +248,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'SMS-avisering', 'Tidsfönster', 'Miljövänlig'],
         isEcoFriendly: true,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: false,
       },
       {
         type: 'BOX',
@@ -214,6 +260,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'SMS-avisering', '24/7 tillgång', 'Miljövänlig'],
         isEcoFriendly: true,
+        deliveryType: 'locker',
+        acceptsLimitedQuantity: false,
       },
       {
         type: 'LOCKER',
@@ -224,6 +272,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'SMS-avisering', '24/7 tillgång', 'Billigaste alternativet', 'Miljövänlig'],
         isEcoFriendly: true,
+        deliveryType: 'locker',
+        acceptsLimitedQuantity: false,
       },
     ],
   },
@@ -234,6 +284,7 @@ export const CARRIERS: Record<string, CarrierInfo> = {
     logoUrl: '/images/carriers/instabox.svg',
     colorScheme: '#6C5CE7',
     trackingPrefix: 'IX',
+    cutoffTime: '14:00',
     services: [
       {
         type: 'LOCKER',
@@ -244,6 +295,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'SMS-avisering', '24/7 tillgång', 'Billigaste alternativet'],
         isEcoFriendly: false,
+        deliveryType: 'locker',
+        acceptsLimitedQuantity: false,
       },
       {
         type: 'SERVICEPOINT',
@@ -254,6 +307,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'SMS-avisering', 'Förlängd uthämtningstid'],
         isEcoFriendly: false,
+        deliveryType: 'service_point',
+        acceptsLimitedQuantity: false,
       },
     ],
   },
@@ -264,6 +319,7 @@ export const CARRIERS: Record<string, CarrierInfo> = {
     logoUrl: '/images/carriers/early-bird.svg',
     colorScheme: '#4CAF50',
     trackingPrefix: 'EB',
+    cutoffTime: '14:00',
     services: [
       {
         type: 'ECO_STANDARD',
@@ -274,6 +330,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Klimatneutral', 'Fossilfri transport', 'Kompenserar CO2'],
         isEcoFriendly: true,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: false,
       },
       {
         type: 'ECO_EXPRESS',
@@ -284,6 +342,8 @@ export const CARRIERS: Record<string, CarrierInfo> = {
         minWeight: 0,
         features: ['Spårning', 'Klimatneutral', 'Fossilfri transport', 'Express', 'Kompenserar CO2'],
         isEcoFriendly: true,
+        deliveryType: 'home',
+        acceptsLimitedQuantity: false,
       },
     ],
   },
@@ -330,21 +390,14 @@ export function getTrackingPrefix(carrierCode: string): string {
 }
 
 /**
- * Get carrier name for tracking number
+ * Free shipping threshold in SEK
  */
-export function getCarrierFromTracking(trackingNumber: string): string | undefined {
-  for (const carrier of Object.values(CARRIERS)) {
-    if (trackingNumber.startsWith(carrier.trackingPrefix)) {
-      return carrier.code;
-    }
-  }
-  return undefined;
-}
+export const FREE_SHIPPING_THRESHOLD = 500;
 
 /**
- * Free shipping threshold in SEK
+ * Cut-off for same-day dispatch when a rate has no carrier
  */
-export const FREE_SHIPPING_THRESHOLD = 500;
+export const DEFAULT_CUTOFF_TIME = '14:00';
 
 /**
  * Sender address (your company address for shipping labels)
@@ -0,0 +1,16 @@
+// Limited-quantity limits (ADR 3.4) for the flammable oils we sell.
+// Parcels within them ship through the ordinary parcel network with the LQ mark;
+// anything larger would need a full dangerous goods consignment, which we do not book.
+
+import type { PackingGroup } from '@/types';
+
+export const LIMITED_QUANTITY_LIMITS = {
+  // Largest bottle by packing group. UN1197 allows 5 L in group II as well,
+  // the lower UN1993 figure is used for both to keep the rule simple.
+  maxInnerPackagingMl: {
+    II: 1000,
+    III: 5000,
+  } as Record<PackingGroup, number>,
+  // Gross weight of a combination package, box and filling included
+  maxPackageGrossWeight: 30,
+};
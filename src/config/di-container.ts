@@ -17,10 +17,21 @@ export const TOKENS = {
   IOrderRepository: Symbol.for('IOrderRepository'),
   ICartRepository: Symbol.for('ICartRepository'),
   IInventoryRepository: Symbol.for('IInventoryRepository'),
+  IInventoryLotRepository: Symbol.for('IInventoryLotRepository'),
   IShippingRepository: Symbol.for('IShippingRepository'),
   IAbandonedCartRepository: Symbol.for('IAbandonedCartRepository'),
   IBundleRepository: Symbol.for('IBundleRepository'),
   IWishlistRepository: Symbol.for('IWishlistRepository'),
+  IPaymentEventRepository: Symbol.for('IPaymentEventRepository'),
+  IDiscountCodeRepository: Symbol.for('IDiscountCodeRepository'),
+  IReturnRepository: Symbol.for('IReturnRepository'),
+  IShipmentRepository: Symbol.for('IShipmentRepository'),
+  ITrackingEventRepository: Symbol.for('ITrackingEventRepository'),
+  IInvoiceRepository: Symbol.for('IInvoiceRepository'),
+  IReviewRepository: Symbol.for('IReviewRepository'),
+  ISupplierRepository: Symbol.for('ISupplierRepository'),
+  IPurchaseOrderRepository: Symbol.for('IPurchaseOrderRepository'),
+  IStockNotificationRepository: Symbol.for('IStockNotificationRepository'),
 
   // Services
   IProductService: Symbol.for('IProductService'),
@@ -33,6 +44,29 @@ export const TOKENS = {
   IGDPRService: Symbol.for('IGDPRService'),
   IEmailService: Symbol.for('IEmailService'),
   IBundleService: Symbol.for('IBundleService'),
+  ISwishWebhookService: Symbol.for('ISwishWebhookService'),
+  IKlarnaOrderManagementService: Symbol.for('IKlarnaOrderManagementService'),
+  IPromotionService: Symbol.for('IPromotionService'),
+  IReturnService: Symbol.for('IReturnService'),
+  IShipmentService: Symbol.for('IShipmentService'),
+  IInvoiceService: Symbol.for('IInvoiceService'),
+  IAccountingExportService: Symbol.for('IAccountingExportService'),
+  IAnalyticsService: Symbol.for('IAnalyticsService'),
+  IReviewService: Symbol.for('IReviewService'),
+  IPurchaseOrderService: Symbol.for('IPurchaseOrderService'),
+  IStockNotificationService: Symbol.for('IStockNotificationService'),
+  IPickupPointService: Symbol.for('IPickupPointService'),
+  ITrackingService: Symbol.for('ITrackingService'),
+  IFulfilmentService: Symbol.for('IFulfilmentService'),
+
+  // Payment Providers
+  SwishPaymentProvider: Symbol.for('SwishPaymentProvider'),
+  KlarnaPaymentProvider: Symbol.for('KlarnaPaymentProvider'),
+  PaymentProviderFactory: Symbol.for('PaymentProviderFactory'),
+
+  // Carrier Adapters
+  ICarrierAdapter: Symbol.for('ICarrierAdapter'),
+  CarrierAdapterRegistry: Symbol.for('CarrierAdapterRegistry'),
 
   // Test Services
   ITestCheckoutService: Symbol.for('ITestCheckoutService'),
@@ -44,7 +78,13 @@ export const TOKENS = {
   CategoryService: Symbol.for('CategoryService'),
   TaxCalculator: Symbol.for('TaxCalculator'),
   CarrierRulesEngine: Symbol.for('CarrierRulesEngine'),
+  PackingEngine: Symbol.for('PackingEngine'),
   LabelGenerationService: Symbol.for('LabelGenerationService'),
+  SwedishHolidayCalendar: Symbol.for('SwedishHolidayCalendar'),
+  BusinessDayCalculator: Symbol.for('BusinessDayCalculator'),
+  InvoicePdfService: Symbol.for('InvoicePdfService'),
+  PurchaseOrderPdfService: Symbol.for('PurchaseOrderPdfService'),
+  PackingSlipPdfService: Symbol.for('PackingSlipPdfService'),
 };
 
 // Configuration function to register all dependencies
@@ -60,20 +100,42 @@ export function configureDependencyInjection() {
   const { OrderRepository } = require('@/repositories/orders/OrderRepository');
   const { CustomerRepository } = require('@/repositories/customers/CustomerRepository');
   const { InventoryRepository } = require('@/repositories/inventory/InventoryRepository');
+  const { InventoryLotRepository } = require('@/repositories/inventory/InventoryLotRepository');
   const { ShippingRepository } = require('@/repositories/shipping/ShippingRepository');
   const { AbandonedCartRepository } = require('@/repositories/cart/AbandonedCartRepository');
   const { BundleRepository } = require('@/repositories/bundles/BundleRepository');
   const { WishlistRepository } = require('@/repositories/wishlist/WishlistRepository');
+  const { PaymentEventRepository } = require('@/repositories/payments/PaymentEventRepository');
+  const { DiscountCodeRepository } = require('@/repositories/promotions/DiscountCodeRepository');
+  const { ReturnRepository } = require('@/repositories/returns/ReturnRepository');
+  const { ShipmentRepository } = require('@/repositories/shipping/ShipmentRepository');
+  const { TrackingEventRepository } = require('@/repositories/shipping/TrackingEventRepository');
+  const { InvoiceRepository } = require('@/repositories/invoices/InvoiceRepository');
+  const { ReviewRepository } = require('@/repositories/reviews/ReviewRepository');
+  const { SupplierRepository } = require('@/repositories/purchasing/SupplierRepository');
+  const { PurchaseOrderRepository } = require('@/repositories/purchasing/PurchaseOrderRepository');
+  const { StockNotificationRepository } = require('@/repositories/inventory/StockNotificationRepository');
 
   container.register(TOKENS.IProductRepository, { useClass: ProductRepository });
   container.register(TOKENS.ICartRepository, { useClass: CartRepository });
   container.register(TOKENS.IOrderRepository, { useClass: OrderRepository });
   container.register(TOKENS.ICustomerRepository, { useClass: CustomerRepository });
   container.register(TOKENS.IInventoryRepository, { useClass: InventoryRepository });
+  container.register(TOKENS.IInventoryLotRepository, { useClass: InventoryLotRepository });
   container.register(TOKENS.IShippingRepository, { useClass: ShippingRepository });
   container.register(TOKENS.IAbandonedCartRepository, { useClass: AbandonedCartRepository });
   container.register(TOKENS.IBundleRepository, { useClass: BundleRepository });
   container.register(TOKENS.IWishlistRepository, { useClass: WishlistRepository });
+  container.register(TOKENS.IPaymentEventRepository, { useClass: PaymentEventRepository });
+  container.register(TOKENS.IDiscountCodeRepository, { useClass: DiscountCodeRepository });
+  container.register(TOKENS.IReturnRepository, { useClass: ReturnRepository });
+  container.register(TOKENS.IShipmentRepository, { useClass: ShipmentRepository });
+  container.register(TOKENS.ITrackingEventRepository, { useClass: TrackingEventRepository });
+  container.register(TOKENS.IInvoiceRepository, { useClass: InvoiceRepository });
+  container.register(TOKENS.IReviewRepository, { useClass: ReviewRepository });
+  container.register(TOKENS.ISupplierRepository, { useClass: SupplierRepository });
+  container.register(TOKENS.IPurchaseOrderRepository, { useClass: PurchaseOrderRepository });
+  container.register(TOKENS.IStockNotificationRepository, { useClass: StockNotificationRepository });
 
   // Register Services
   const { ProductService } = require('@/services/products/ProductService');
@@ -86,6 +148,20 @@ export function configureDependencyInjection() {
   const { GDPRService } = require('@/services/gdpr/GDPRService');
   const { EmailService } = require('@/services/email/EmailService');
   const { BundleService } = require('@/services/bundles/BundleService');
+  const { SwishWebhookService } = require('@/services/payment/SwishWebhookService');
+  const { KlarnaOrderManagementService } = require('@/services/payment/KlarnaOrderManagementService');
+  const { PromotionService } = require('@/services/promotions/PromotionService');
+  const { ReturnService } = require('@/services/returns/ReturnService');
+  const { ShipmentService } = require('@/services/shipping/ShipmentService');
+  const { InvoiceService } = require('@/services/invoices/InvoiceService');
+  const { AccountingExportService } = require('@/services/accounting/AccountingExportService');
+  const { AnalyticsService } = require('@/services/analytics/AnalyticsService');
+  const { ReviewService } = require('@/services/reviews/ReviewService');
+  const { PurchaseOrderService } = require('@/services/purchasing/PurchaseOrderService');
+  const { StockNotificationService } = require('@/services/inventory/StockNotificationService');
+  const { PickupPointService } = require('@/services/shipping/PickupPointService');
+  const { TrackingService } = require('@/services/shipping/TrackingService');
+  const { FulfilmentService } = require('@/services/shipping/FulfilmentService');
 
   container.register(TOKENS.IProductService, { useClass: ProductService });
   container.register(TOKENS.ICartService, { useClass: CartService });
@@ -97,17 +173,75 @@ export function configureDependencyInjection() {
   container.register(TOKENS.IGDPRService, { useClass: GDPRService });
   container.register(TOKENS.IEmailService, { useClass: EmailService });
   container.register(TOKENS.IBundleService, { useClass: BundleService });
+  container.register(TOKENS.ISwishWebhookService, { useClass: SwishWebhookService });
+  container.register(TOKENS.IKlarnaOrderManagementService, { useClass: KlarnaOrderManagementService });
+  container.register(TOKENS.IPromotionService, { useClass: PromotionService });
+  container.register(TOKENS.IReturnService, { useClass: ReturnService });
+  container.register(TOKENS.IShipmentService, { useClass: ShipmentService });
+  container.register(TOKENS.IInvoiceService, { useClass: InvoiceService });
+  container.register(TOKENS.IAccountingExportService, { useClass: AccountingExportService });
+  container.register(TOKENS.IAnalyticsService, { useClass: AnalyticsService });
+  container.register(TOKENS.IReviewService, { useClass: ReviewService });
+  container.register(TOKENS.IPurchaseOrderService, { useClass: PurchaseOrderService });
+  container.register(TOKENS.IStockNotificationService, { useClass: StockNotificationService });
+  container.register(TOKENS.IPickupPointService, { useClass: PickupPointService });
+  container.register(TOKENS.ITrackingService, { useClass: TrackingService });
+  container.register(TOKENS.IFulfilmentService, { useClass: FulfilmentService });
+
+  // Register Payment Providers
+  const { SwishPaymentProvider } = require('@/services/payment/providers/SwishPaymentProvider');
+  const { KlarnaPaymentProvider } = require('@/services/payment/providers/KlarnaPaymentProvider');
+
+  container.register(TOKENS.SwishPaymentProvider, { useClass: SwishPaymentProvider });
+  container.register(TOKENS.KlarnaPaymentProvider, { useClass: KlarnaPaymentProvider });
+
+  const { PaymentProviderFactory } = require('@/services/payment/PaymentProviderFactory');
+  container.register(TOKENS.PaymentProviderFactory, { useClass: PaymentProviderFactory });
+
+  // Register Carrier Adapters, all under one token; the registry collects them by carrier code
+  const { PostNordCarrierAdapter } = require('@/services/shipping/carriers/PostNordCarrierAdapter');
+  const { DhlCarrierAdapter } = require('@/services/shipping/carriers/DhlCarrierAdapter');
+  const { BringCarrierAdapter } = require('@/services/shipping/carriers/BringCarrierAdapter');
+  const { DbSchenkerCarrierAdapter } = require('@/services/shipping/carriers/DbSchenkerCarrierAdapter');
+  const { InstabeeCarrierAdapter } = require('@/services/shipping/carriers/InstabeeCarrierAdapter');
+  const { BudbeeCarrierAdapter } = require('@/services/shipping/carriers/BudbeeCarrierAdapter');
+  const { InstaboxCarrierAdapter } = require('@/services/shipping/carriers/InstaboxCarrierAdapter');
+  const { EarlyBirdCarrierAdapter } = require('@/services/shipping/carriers/EarlyBirdCarrierAdapter');
+
+  container.register(TOKENS.ICarrierAdapter, { useClass: PostNordCarrierAdapter });
+  container.register(TOKENS.ICarrierAdapter, { useClass: DhlCarrierAdapter });
+  container.register(TOKENS.ICarrierAdapter, { useClass: BringCarrierAdapter });
+  container.register(TOKENS.ICarrierAdapter, { useClass: DbSchenkerCarrierAdapter });
+  container.register(TOKENS.ICarrierAdapter, { useClass: InstabeeCarrierAdapter });
+  container.register(TOKENS.ICarrierAdapter, { useClass: BudbeeCarrierAdapter });
+  container.register(TOKENS.ICarrierAdapter, { useClass: InstaboxCarrierAdapter });
+  container.register(TOKENS.ICarrierAdapter, { useClass: EarlyBirdCarrierAdapter });
+
+  const { CarrierAdapterRegistry } = require('@/services/shipping/CarrierAdapterRegistry');
+  container.register(TOKENS.CarrierAdapterRegistry, { useClass: CarrierAdapterRegistry });
 
   // Register Utilities
   const { CategoryService } = require('@/config/categories');
-  const { TaxCalculator } = require('@/config/payment.config');
+  const { TaxCalculator } = require('@/services/tax/TaxCalculator');
   const { CarrierRulesEngine } = require('@/services/shipping/CarrierRulesEngine');
+  const { PackingEngine } = require('@/services/shipping/PackingEngine');
   const { LabelGenerationService } = require('@/services/shipping/LabelGenerationService');
+  const { SwedishHolidayCalendar } = require('@/services/shipping/SwedishHolidayCalendar');
+  const { BusinessDayCalculator } = require('@/services/shipping/BusinessDayCalculator');
+  const { InvoicePdfService } = require('@/services/invoices/InvoicePdfService');
+  const { PurchaseOrderPdfService } = require('@/services/purchasing/PurchaseOrderPdfService');
+  const { PackingSlipPdfService } = require('@/services/shipping/PackingSlipPdfService');
 
   container.register(TOKENS.CategoryService, { useClass: CategoryService });
   container.register(TOKENS.TaxCalculator, { useClass: TaxCalculator });
   container.register(TOKENS.CarrierRulesEngine, { useClass: CarrierRulesEngine });
+  container.register(TOKENS.PackingEngine, { useClass: PackingEngine });
   container.register(TOKENS.LabelGenerationService, { useClass: LabelGenerationService });
+  container.register(TOKENS.SwedishHolidayCalendar, { useClass: SwedishHolidayCalendar });
+  container.register(TOKENS.BusinessDayCalculator, { useClass: BusinessDayCalculator });
+  container.register(TOKENS.InvoicePdfService, { useClass: InvoicePdfService });
+  container.register(TOKENS.PurchaseOrderPdfService, { useClass: PurchaseOrderPdfService });
+  container.register(TOKENS.PackingSlipPdfService, { useClass: PackingSlipPdfService });
 
   // Register Test Services (Following SOLID principles)
   const { TestCheckoutService } = require('@/services/test/TestCheckoutService');
@@ -134,7 +268,8 @@ export function configureDependencyInjection() {
         c.resolve(TOKENS.IProductService),
         c.resolve(TOKENS.IOrderRepository),
         c.resolve(TOKENS.IEmailService),
-        c.resolve(TOKENS.ITestOrderValidationPipeline)
+        c.resolve(TOKENS.ITestOrderValidationPipeline),
+        c.resolve(TOKENS.TaxCalculator)
       );
     },
   });
@@ -16,6 +16,11 @@ export const config = {
   auth: {
     nextAuthSecret: process.env.NEXTAUTH_SECRET || '',
     nextAuthUrl: process.env.NEXTAUTH_URL || 'http://localhost:3000',
+    // Comma-separated emails of the customers allowed into the admin API
+    adminEmails: (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(Boolean),
   },
   
   payments: {
@@ -28,6 +33,8 @@ export const config = {
       merchantId: process.env.SWISH_MERCHANT_ID || '',
       certificatePath: process.env.SWISH_CERTIFICATE_PATH || '',
       privateKeyPath: process.env.SWISH_PRIVATE_KEY_PATH || '',
+      // Overrides the Swish API base URL, e.g. http://localhost:4010 for scripts/fake-swish-server.mjs
+      apiUrl: process.env.SWISH_API_URL || '',
       testMode: process.env.NODE_ENV !== 'production',
     },
     klarna: {
@@ -36,6 +43,9 @@ export const config = {
       baseUrl: process.env.NODE_ENV === 'production' 
         ? 'https://api.klarna.com' 
         : 'https://api.playground.klarna.com',
+      // Klarna authorizations expire unless captured; admins are warned ahead of that
+      authorizationValidityDays: 28,
+      expiryWarningDays: parseInt(process.env.KLARNA_EXPIRY_WARNING_DAYS || '7'),
     },
   },
   
@@ -48,6 +58,15 @@ export const config = {
       apiKey: process.env.DHL_API_KEY || '',
       baseUrl: 'https://api-eu.dhl.com',
     },
+    tracking: {
+      // Sent by carriers as a Bearer token with pushed tracking events
+      webhookSecret: process.env.TRACKING_WEBHOOK_SECRET || '',
+      // Carriers tracked without their API get simulated events, e.g. for local development
+      simulateEvents: process.env.TRACKING_SIMULATE_EVENTS
+        ? process.env.TRACKING_SIMULATE_EVENTS === 'true'
+        : process.env.NODE_ENV !== 'production',
+      pollBatchSize: parseInt(process.env.TRACKING_POLL_BATCH_SIZE || '50'),
+    },
   },
 
   email: {
@@ -55,6 +74,43 @@ export const config = {
     fromEmail: process.env.EMAIL_FROM || 'noreply@fortuneessence.se',
     fromName: process.env.EMAIL_FROM_NAME || 'Fortune Essence',
     supportEmail: process.env.EMAIL_SUPPORT || 'support@fortuneessence.se',
+    adminEmail: process.env.EMAIL_ADMIN || process.env.EMAIL_SUPPORT || 'support@fortuneessence.se',
+  },
+
+  returns: {
+    // Counted from the order date since delivery dates aren't stored; the 14 day
+    // right of withdrawal runs from delivery, so this leaves room for transit
+    windowDays: parseInt(process.env.RETURN_WINDOW_DAYS || '21'),
+  },
+
+  company: {
+    // Printed on invoices and credit notes, which must show who the seller is
+    legalName: process.env.COMPANY_LEGAL_NAME || 'Fortune Essence AB',
+    orgNumber: process.env.COMPANY_ORG_NUMBER || '',
+    // Defaults to SE + organisation number + 01, the Swedish VAT number format
+    vatNumber: process.env.COMPANY_VAT_NUMBER || '',
+    // Registered office (säte), required on a limited company's invoices
+    registeredOffice: process.env.COMPANY_REGISTERED_OFFICE || 'Stockholm',
+    fTaxApproved: process.env.COMPANY_F_TAX_APPROVED !== 'false',
+  },
+
+  tax: {
+    // Once EU distance sales pass 99 680 SEK a year, VAT is due in the buyer's
+    // country. Set to false below the threshold to charge Swedish VAT instead.
+    ossEnabled: process.env.VAT_OSS_ENABLED !== 'false',
+  },
+
+  accounting: {
+    // First month (1-12) of the fiscal year, for the #RAR line of SIE exports
+    fiscalYearStartMonth: parseInt(process.env.FISCAL_YEAR_START_MONTH || '1'),
+    // Voucher series the webshop's sales and refunds are imported into
+    verificationSeries: process.env.SIE_VERIFICATION_SERIES || 'W',
+  },
+
+  promotions: {
+    // Newsletter sign-up code: single use, percentage off the first order
+    welcomeDiscountPercent: 10,
+    welcomeCodeValidityDays: 30,
   },
 
   features: {
@@ -1,6 +1,8 @@
 // Payment configuration
 // Following Open/Closed Principle - new payment methods can be added without modifying existing code
 
+import type { ProductCategory } from '@/types';
+
 export interface PaymentProviderConfig {
   name: string;
   enabled: boolean;
@@ -29,22 +31,83 @@ export const PAYMENT_PROVIDERS: Record<string, PaymentProviderConfig> = {
   },
 };
 
+// Standard VAT rates of the EU member states. Sales to other EU countries are
+// taxed at the destination rate and reported through the One-Stop-Shop (OSS);
+// countries outside the EU (e.g. Norway) are zero-rated exports.
 export const TAX_RATES: Record<string, number> = {
-  SE: 0.25, // Sweden: 25% VAT
-  NO: 0.25, // Norway: 25% VAT
-  DK: 0.25, // Denmark: 25% VAT
-  FI: 0.24, // Finland: 24% VAT
-  EU: 0.20, // EU default: 20% VAT
-  DEFAULT: 0.25,
+  SE: 0.25,
+  AT: 0.20,
+  BE: 0.21,
+  BG: 0.20,
+  CY: 0.19,
+  CZ: 0.21,
+  DE: 0.19,
+  DK: 0.25,
+  EE: 0.24,
+  ES: 0.21,
+  FI: 0.255,
+  FR: 0.20,
+  GR: 0.24,
+  HR: 0.25,
+  HU: 0.27,
+  IE: 0.23,
+  IT: 0.22,
+  LT: 0.21,
+  LU: 0.17,
+  LV: 0.21,
+  MT: 0.18,
+  NL: 0.21,
+  PL: 0.23,
+  PT: 0.23,
+  RO: 0.21,
+  SI: 0.22,
+  SK: 0.23,
 };
 
-export class TaxCalculator {
-  calculateTax(amount: number, countryCode: string): number {
-    const rate = TAX_RATES[countryCode] || TAX_RATES.DEFAULT;
-    return Math.round(amount * rate * 100) / 100;
-  }
+// Reduced rates per product category, by country. Categories that aren't
+// listed use the standard rate, e.g. { SE: { 'gift-sets': 0.12 } }
+export const CATEGORY_TAX_RATES: Record<string, Partial<Record<ProductCategory, number>>> = {};
 
-  getTaxRate(countryCode: string): number {
-    return TAX_RATES[countryCode] || TAX_RATES.DEFAULT;
-  }
-}
+// Shelf prices are set for Swedish customers and include Swedish VAT
+export const HOME_TAX_COUNTRY = 'SE';
+
+// Addresses store the country as entered, so names are mapped to ISO codes
+export const COUNTRY_CODES: Record<string, string> = {
+  sweden: 'SE',
+  sverige: 'SE',
+  norway: 'NO',
+  norge: 'NO',
+  denmark: 'DK',
+  danmark: 'DK',
+  finland: 'FI',
+  suomi: 'FI',
+  germany: 'DE',
+  tyskland: 'DE',
+  austria: 'AT',
+  belgium: 'BE',
+  bulgaria: 'BG',
+  croatia: 'HR',
+  cyprus: 'CY',
+  'czech republic': 'CZ',
+  czechia: 'CZ',
+  estonia: 'EE',
+  france: 'FR',
+  greece: 'GR',
+  hungary: 'HU',
+  ireland: 'IE',
+  italy: 'IT',
+  latvia: 'LV',
+  lithuania: 'LT',
+  luxembourg: 'LU',
+  malta: 'MT',
+  netherlands: 'NL',
+  poland: 'PL',
+  portugal: 'PT',
+  romania: 'RO',
+  slovakia: 'SK',
+  slovenia: 'SI',
+  spain: 'ES',
+  iceland: 'IS',
+  switzerland: 'CH',
+  'united kingdom': 'GB',
+};
@@ -0,0 +1,48 @@
+/**
+ * Pickup Point Dataset
+ *
+ * Service points (ombud) and parcel lockers per carrier, used by the local
+ * pickup point provider until the carriers' location APIs are connected.
+ * Covers the larger postal areas; elsewhere checkout offers home delivery.
+ */
+
+import { PickupPoint } from '@/types';
+
+export const PICKUP_POINTS: PickupPoint[] = [
+  // PostNord service points
+  { id: '1451201', carrierCode: 'POSTNORD', type: 'service_point', name: 'ICA Nära Odenplan', street: 'Odengatan 65', postalCode: '113 22', city: 'Stockholm', openingHours: 'Mån-Sön 07-22' },
+  { id: '1451287', carrierCode: 'POSTNORD', type: 'service_point', name: 'Pressbyrån Centralen', street: 'Centralplan 15', postalCode: '111 20', city: 'Stockholm', openingHours: 'Mån-Sön 06-23' },
+  { id: '1451310', carrierCode: 'POSTNORD', type: 'service_point', name: 'Coop Södermalm', street: 'Götgatan 78', postalCode: '118 30', city: 'Stockholm', openingHours: 'Mån-Sön 08-22' },
+  { id: '1452044', carrierCode: 'POSTNORD', type: 'service_point', name: 'ICA Supermarket Sundbyberg', street: 'Landsvägen 50', postalCode: '172 63', city: 'Sundbyberg', openingHours: 'Mån-Sön 08-22' },
+  { id: '1460112', carrierCode: 'POSTNORD', type: 'service_point', name: 'Hemköp Linnégatan', street: 'Linnégatan 15', postalCode: '413 04', city: 'Göteborg', openingHours: 'Mån-Sön 07-22' },
+  { id: '1460158', carrierCode: 'POSTNORD', type: 'service_point', name: 'Pressbyrån Nordstan', street: 'Nordstadstorget 6', postalCode: '411 05', city: 'Göteborg', openingHours: 'Mån-Fre 07-21, Lör-Sön 10-18' },
+  { id: '1470033', carrierCode: 'POSTNORD', type: 'service_point', name: 'ICA Kvantum Malmborgs', street: 'Mäster Johansgatan 11', postalCode: '211 21', city: 'Malmö', openingHours: 'Mån-Sön 07-22' },
+  { id: '1470090', carrierCode: 'POSTNORD', type: 'service_point', name: 'Coop Möllevången', street: 'Bergsgatan 20', postalCode: '214 22', city: 'Malmö', openingHours: 'Mån-Sön 08-21' },
+  { id: '1480021', carrierCode: 'POSTNORD', type: 'service_point', name: 'ICA Nära Luthagen', street: 'Skolgatan 45', postalCode: '753 12', city: 'Uppsala', openingHours: 'Mån-Sön 08-22' },
+  { id: '1490017', carrierCode: 'POSTNORD', type: 'service_point', name: 'Coop Forum Umeå', street: 'Strömpilsplatsen 10', postalCode: '907 43', city: 'Umeå', openingHours: 'Mån-Sön 08-21' },
+  { id: '1490066', carrierCode: 'POSTNORD', type: 'service_point', name: 'ICA Kvantum Luleå', street: 'Storgatan 59', postalCode: '972 31', city: 'Luleå', openingHours: 'Mån-Sön 08-21' },
+
+  // Instabox lockers and service points
+  { id: 'IBX-STO-0142', carrierCode: 'INSTABOX', type: 'locker', name: 'Instabox Vasastan', street: 'Upplandsgatan 40', postalCode: '113 28', city: 'Stockholm', openingHours: 'Dygnet runt' },
+  { id: 'IBX-STO-0218', carrierCode: 'INSTABOX', type: 'locker', name: 'Instabox Hornstull', street: 'Långholmsgatan 34', postalCode: '117 33', city: 'Stockholm', openingHours: 'Dygnet runt' },
+  { id: 'IBX-STO-0301', carrierCode: 'INSTABOX', type: 'service_point', name: 'Instabox @ Circle K Solna', street: 'Frösundaleden 2', postalCode: '169 70', city: 'Solna', openingHours: 'Mån-Sön 06-22' },
+  { id: 'IBX-GBG-0077', carrierCode: 'INSTABOX', type: 'locker', name: 'Instabox Majorna', street: 'Karl Johansgatan 60', postalCode: '414 55', city: 'Göteborg', openingHours: 'Dygnet runt' },
+  { id: 'IBX-MMA-0051', carrierCode: 'INSTABOX', type: 'locker', name: 'Instabox Triangeln', street: 'Södra Förstadsgatan 41', postalCode: '211 43', city: 'Malmö', openingHours: 'Dygnet runt' },
+  { id: 'IBX-UPP-0019', carrierCode: 'INSTABOX', type: 'locker', name: 'Instabox Fyrislund', street: 'Rapsgatan 7', postalCode: '754 50', city: 'Uppsala', openingHours: 'Dygnet runt' },
+
+  // Budbee boxes
+  { id: 'BBX-11325', carrierCode: 'BUDBEE', type: 'locker', name: 'Budbee Box Sankt Eriksplan', street: 'Sankt Eriksgatan 92', postalCode: '113 62', city: 'Stockholm', openingHours: 'Dygnet runt' },
+  { id: 'BBX-11856', carrierCode: 'BUDBEE', type: 'locker', name: 'Budbee Box Skanstull', street: 'Ringvägen 100', postalCode: '118 60', city: 'Stockholm', openingHours: 'Dygnet runt' },
+  { id: 'BBX-41265', carrierCode: 'BUDBEE', type: 'locker', name: 'Budbee Box Johanneberg', street: 'Eklandagatan 30', postalCode: '412 61', city: 'Göteborg', openingHours: 'Dygnet runt' },
+  { id: 'BBX-21745', carrierCode: 'BUDBEE', type: 'locker', name: 'Budbee Box Limhamn', street: 'Linnégatan 48', postalCode: '216 14', city: 'Malmö', openingHours: 'Dygnet runt' },
+
+  // Bring service points
+  { id: 'BR-200341', carrierCode: 'BRING', type: 'service_point', name: 'Tempo Kungsholmen', street: 'Fleminggatan 22', postalCode: '112 26', city: 'Stockholm', openingHours: 'Mån-Sön 08-21' },
+  { id: 'BR-200587', carrierCode: 'BRING', type: 'service_point', name: 'Ica Nära Olskroken', street: 'Redbergsvägen 11', postalCode: '416 65', city: 'Göteborg', openingHours: 'Mån-Sön 08-22' },
+  { id: 'BR-200712', carrierCode: 'BRING', type: 'service_point', name: 'Direkten Värnhem', street: 'Östra Rönneholmsvägen 3', postalCode: '211 47', city: 'Malmö', openingHours: 'Mån-Sön 07-23' },
+
+  // DB Schenker parcel boxes and service points
+  { id: 'DBS-5521', carrierCode: 'DB_SCHENKER', type: 'locker', name: 'DB Schenker Paketbox Hötorget', street: 'Sveavägen 13', postalCode: '111 57', city: 'Stockholm', openingHours: 'Dygnet runt' },
+  { id: 'DBS-5634', carrierCode: 'DB_SCHENKER', type: 'service_point', name: 'Handlar\'n Gamla Uppsala', street: 'Gamla Uppsalagatan 48', postalCode: '754 25', city: 'Uppsala', openingHours: 'Mån-Fre 09-20, Lör-Sön 10-18' },
+  { id: 'DBS-5702', carrierCode: 'DB_SCHENKER', type: 'service_point', name: 'OKQ8 Frölunda', street: 'Järnbrottsmotet 1', postalCode: '421 47', city: 'Västra Frölunda', openingHours: 'Mån-Sön 06-22' },
+];
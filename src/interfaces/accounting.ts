@@ -0,0 +1,24 @@
+import { ApiResponse, VatReturn } from '@/types';
+
+/**
+ * Calendar dates (YYYY-MM-DD, Swedish time), both days included
+ */
+export interface AccountingPeriod {
+  from: string;
+  to: string;
+}
+
+export interface SieExport {
+  filename: string;
+  // Encoded in PC8 (code page 437) as the SIE format requires
+  content: Uint8Array;
+}
+
+/**
+ * Accounting Export Service
+ * Turns the period's sales and refunds into bookkeeping vouchers and VAT return figures
+ */
+export interface IAccountingExportService {
+  exportSie(period: AccountingPeriod): Promise<ApiResponse<SieExport>>;
+  getVatReturn(period: AccountingPeriod): Promise<ApiResponse<VatReturn>>;
+}
@@ -0,0 +1,9 @@
+import { AnalyticsRange, ApiResponse, SalesAnalytics } from '@/types';
+
+/**
+ * Analytics Service
+ * Sales figures for the admin dashboard, compared with the period before
+ */
+export interface IAnalyticsService {
+  getSalesAnalytics(range: AnalyticsRange): Promise<ApiResponse<SalesAnalytics>>;
+}
@@ -1,4 +1,4 @@
-import { ApiResponse } from '@/types';
+import { ApiResponse, PickupPoint, TrackingStatus, VatRateBreakdown } from '@/types';
 
 export interface EmailAttachment {
   filename: string;
@@ -35,10 +35,15 @@ export interface IEmailService {
     email: string,
     orderData: {
       orderId: string;
+      orderNumber: string;
       customerName: string;
       items: Array<{ name: string; quantity: number; price: number }>;
       total: number;
+      vatBreakdown?: VatRateBreakdown[];
       shippingAddress: string;
+      // Delivery day estimated at checkout
+      estimatedDelivery?: Date;
+      attachments?: EmailAttachment[];
     },
     locale?: 'sv' | 'en'
   ): Promise<ApiResponse<{ messageId: string }>>;
@@ -66,6 +71,7 @@ export interface IEmailService {
     email: string,
     orderData: {
       orderId: string;
+      orderNumber: string;
       status: string;
       trackingNumber?: string;
     },
@@ -84,4 +90,36 @@ export interface IEmailService {
     },
     locale?: 'sv' | 'en'
   ): Promise<ApiResponse<{ messageId: string }>>;
+  sendBackInStock(
+    email: string,
+    product: {
+      name: string;
+      url: string;
+      unsubscribeUrl: string;
+    },
+    locale?: 'sv' | 'en'
+  ): Promise<ApiResponse<{ messageId: string }>>;
+  sendTrackingUpdate(
+    email: string,
+    shipmentData: {
+      orderNumber: string;
+      status: TrackingStatus;
+      trackingNumber: string;
+      carrierName: string;
+      // The carrier's own wording for the event
+      description?: string;
+      pickupPoint?: PickupPoint;
+      trackingUrl: string;
+    },
+    locale?: 'sv' | 'en'
+  ): Promise<ApiResponse<{ messageId: string }>>;
+  sendPurchaseOrder(
+    email: string,
+    purchaseOrder: {
+      poNumber: string;
+      contactName?: string;
+      expectedAt?: Date;
+      attachments: EmailAttachment[];
+    }
+  ): Promise<ApiResponse<{ messageId: string }>>;
 }
@@ -0,0 +1,23 @@
+import type { ApiResponse, FulfilmentStatus, Order, PickList } from '@/types';
+import type { OrderStatusChangeSource } from './services';
+
+/**
+ * Fulfilment Service
+ * Picks and packs paid orders in batches: one pick list for the batch, a
+ * packing slip per order in the customer's language, one PDF with all the
+ * labels, and the batch moved through picking and packed together
+ */
+export interface IFulfilmentService {
+  // Orders that are paid, being picked or packed, oldest first
+  getFulfilmentQueue(): Promise<ApiResponse<Order[]>>;
+  getPickList(orderIds: string[]): Promise<ApiResponse<PickList>>;
+  renderPackingSlips(orderIds: string[]): Promise<ApiResponse<Uint8Array>>;
+  // Items not yet in a shipment are put in one and booked with the carrier first
+  renderBatchLabels(orderIds: string[], change: OrderStatusChangeSource): Promise<ApiResponse<Uint8Array>>;
+  // Moves every order or none: the batch is checked first and written in one transaction
+  updateBatchStatus(
+    orderIds: string[],
+    status: FulfilmentStatus,
+    change: OrderStatusChangeSource
+  ): Promise<ApiResponse<Order[]>>;
+}
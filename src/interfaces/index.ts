@@ -7,8 +7,16 @@ export type {
   IOrderRepository,
   ICartRepository,
   IInventoryRepository,
+  IInventoryLotRepository,
   IShippingRepository,
-  IAbandonedCartRepository
+  IAbandonedCartRepository,
+  IPaymentEventRepository,
+  IDiscountCodeRepository,
+  IReturnRepository,
+  IShipmentRepository,
+  ITrackingEventRepository,
+  IReviewRepository,
+  IInvoiceRepository
 } from './repositories';
 
 // Explicitly re-export all interfaces from services
@@ -21,6 +29,9 @@ export type {
   IAbandonedCartService,
   IOrderService,
   CreateOrderData,
+  OrderStatusChangeSource,
+  OrderTotalsInput,
+  OrderTotals,
   IPaymentService,
   PaymentData,
   PaymentResult,
@@ -34,6 +45,7 @@ export type {
   IShipmentTrackingService,
   IAddressValidationService,
   ISwedishShippingService,
+  IPickupPointService,
   Shipment,
   TrackingInfo,
   TrackingEvent,
@@ -41,14 +53,55 @@ export type {
   IGDPRService,
   UserData,
   ConsentData,
-  UserPreferences
+  UserPreferences,
+  RetentionPurgeResult
 } from './services';
 
 // Explicitly re-export all interfaces from email
 export * from './email';
 
+// Explicitly re-export all interfaces from promotions
+export * from './promotions';
+
+// Explicitly re-export all interfaces from returns
+export * from './returns';
+
+// Explicitly re-export all interfaces from shipments
+export * from './shipments';
+
+// Explicitly re-export all interfaces from reviews
+export * from './reviews';
+
+// Explicitly re-export all interfaces from tax
+export * from './tax';
+
+// Explicitly re-export all interfaces from invoices
+export * from './invoices';
+
+// Explicitly re-export all interfaces from accounting
+export * from './accounting';
+
+// Explicitly re-export all interfaces from analytics
+export * from './analytics';
+
+// Explicitly re-export all interfaces from purchasing
+export * from './purchasing';
+
+// Explicitly re-export all interfaces from notifications
+export * from './notifications';
+
+// Explicitly re-export all interfaces from fulfilment
+export * from './fulfilment';
+
 // Explicitly re-export all interfaces from payment
 export type {
   IPaymentProcessor,
-  IPaymentProcessorRegistry
+  IPaymentProcessorRegistry,
+  ISwishWebhookService,
+  SwishPaymentCallback,
+  SwishRefundCallback,
+  PaymentCallbackOutcome,
+  IKlarnaOrderManagementService,
+  KlarnaCaptureRequest,
+  KlarnaCaptureOutcome
 } from './payment';
@@ -0,0 +1,23 @@
+import { ApiResponse, Invoice } from '@/types';
+
+export interface CreditNoteData {
+  // Identifies the refund, e.g. return-<id>, so it is only credited once
+  reference: string;
+  // Amount refunded, VAT included
+  amount: number;
+  items: Array<{
+    productId: string;
+    quantity: number;
+  }>;
+}
+
+/**
+ * Invoice Service
+ * Issues invoices for orders and credit notes for refunds, and renders them as PDF
+ */
+export interface IInvoiceService {
+  issueInvoice(orderId: string): Promise<ApiResponse<Invoice>>;
+  issueCreditNote(orderId: string, data: CreditNoteData): Promise<ApiResponse<Invoice>>;
+  getOrderInvoices(orderId: string): Promise<ApiResponse<Invoice[]>>;
+  renderPdf(invoice: Invoice): Promise<ApiResponse<Uint8Array>>;
+}
@@ -0,0 +1,34 @@
+import {
+  ApiResponse,
+  Locale,
+  StockNotification,
+  StockNotificationDemand,
+  StockNotificationSubscription
+} from '@/types';
+
+export interface IStockNotificationRepository {
+  // Subscribing again after being notified or unsubscribing puts the address back in the queue
+  subscribe(subscription: StockNotificationSubscription): Promise<ApiResponse<StockNotification>>;
+  // Oldest subscription first
+  findPending(productId: string, limit: number): Promise<ApiResponse<StockNotification[]>>;
+  markNotified(ids: string[]): Promise<ApiResponse<void>>;
+  unsubscribe(token: string): Promise<ApiResponse<StockNotification>>;
+  findDemand(): Promise<ApiResponse<StockNotificationDemand[]>>;
+}
+
+/**
+ * Stock Notification Service
+ * Customers subscribe to out-of-stock products and are emailed when stock
+ * comes back. Each restock notifies a batch sized to the stock, oldest
+ * subscriptions first; the rest are worked through while stock remains.
+ */
+export interface IStockNotificationService {
+  subscribe(subscription: StockNotificationSubscription): Promise<ApiResponse<StockNotification>>;
+  // Subscribes the customer to every out-of-stock product on their wishlist
+  subscribeWishlist(customerId: string, email: string, locale?: Locale): Promise<ApiResponse<{ subscribed: number }>>;
+  unsubscribe(token: string): Promise<ApiResponse<void>>;
+  notifySubscribers(productId: string): Promise<ApiResponse<{ notified: number }>>;
+  // Sends the next batch for every product that is back in stock with subscribers waiting
+  processPendingNotifications(): Promise<ApiResponse<{ notified: number }>>;
+  getDemand(): Promise<ApiResponse<StockNotificationDemand[]>>;
+}
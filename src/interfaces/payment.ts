@@ -1,5 +1,5 @@
 import { PaymentData, PaymentResult } from './services';
-import { ApiResponse } from '@/types';
+import { ApiResponse, Order, PaymentStatus, ExpiringAuthorization } from '@/types';
 
 /**
  * Payment Processor Interface
@@ -37,3 +37,94 @@ export interface IPaymentProcessorRegistry {
   getProcessor(method: string): IPaymentProcessor | undefined;
   getAllProcessors(): IPaymentProcessor[];
 }
+
+/**
+ * Swish payment request callback body
+ * Posted by Swish to the callbackUrl given when the payment request was created
+ */
+export interface SwishPaymentCallback {
+  id: string;
+  payeePaymentReference?: string;
+  paymentReference?: string;
+  callbackUrl?: string;
+  payerAlias?: string;
+  payeeAlias?: string;
+  amount: number;
+  currency: string;
+  message?: string;
+  status: 'CREATED' | 'PAID' | 'DECLINED' | 'ERROR' | 'CANCELLED';
+  dateCreated?: string;
+  datePaid?: string;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+}
+
+/**
+ * Swish refund callback body
+ */
+export interface SwishRefundCallback {
+  id: string;
+  originalPaymentReference: string;
+  payerPaymentReference?: string;
+  paymentReference?: string;
+  callbackUrl?: string;
+  payerAlias?: string;
+  payeeAlias?: string;
+  amount: number;
+  currency: string;
+  message?: string;
+  status: 'CREATED' | 'DEBITED' | 'PAID' | 'ERROR';
+  dateCreated?: string;
+  datePaid?: string;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+}
+
+/**
+ * Result of handling a provider callback
+ * 'duplicate' and 'ignored' callbacks are acknowledged without changing the order
+ */
+export interface PaymentCallbackOutcome {
+  orderId?: string;
+  action: 'confirmed' | 'cancelled' | 'refunded' | 'ignored' | 'duplicate';
+  paymentStatus?: string;
+}
+
+/**
+ * Swish Webhook Service
+ * Verifies Swish callbacks and applies them to orders through IOrderService
+ */
+export interface ISwishWebhookService {
+  handlePaymentCallback(payload: unknown): Promise<ApiResponse<PaymentCallbackOutcome>>;
+  handleRefundCallback(payload: unknown): Promise<ApiResponse<PaymentCallbackOutcome>>;
+}
+
+/**
+ * Options for capturing part or all of a Klarna authorization
+ * Without an amount the remaining authorization is captured
+ */
+export interface KlarnaCaptureRequest {
+  amount?: number;
+  reference?: string;
+  carrier?: string;
+  trackingNumber?: string;
+}
+
+export interface KlarnaCaptureOutcome {
+  orderId: string;
+  capturedAmount: number;
+  remainingAmount: number;
+  paymentStatus: PaymentStatus;
+}
+
+/**
+ * Klarna Order Management Service
+ * Captures Klarna authorizations as orders ship, releases them when orders are
+ * cancelled and reports authorizations that are about to expire
+ */
+export interface IKlarnaOrderManagementService {
+  captureOrder(order: Order, request?: KlarnaCaptureRequest): Promise<ApiResponse<KlarnaCaptureOutcome>>;
+  releaseAuthorization(order: Order): Promise<ApiResponse<PaymentStatus>>;
+  setMerchantReferences(order: Order): Promise<ApiResponse<void>>;
+  getExpiringAuthorizations(withinDays?: number): Promise<ApiResponse<ExpiringAuthorization[]>>;
+}
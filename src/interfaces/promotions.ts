@@ -0,0 +1,29 @@
+import { ApiResponse, AppliedDiscount, CartItem, DiscountCode, DiscountRedemption } from '@/types';
+
+/**
+ * What a discount code is checked against: the items being bought,
+ * who is buying them and, for free-shipping codes, the shipping price
+ */
+export interface DiscountContext {
+  customerId?: string;
+  items: CartItem[];
+  shippingCost?: number;
+}
+
+export type CreateDiscountCodeData = Omit<DiscountCode, 'id' | 'usageCount' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Promotion Service
+ * Validates discount codes against a cart, records redemptions and issues codes.
+ * A code is redeemed before payment is taken and assigned to the order once it exists.
+ */
+export interface IPromotionService {
+  validateCode(code: string, context: DiscountContext): Promise<ApiResponse<AppliedDiscount>>;
+  redeemCode(discount: AppliedDiscount, customerId?: string): Promise<ApiResponse<DiscountRedemption>>;
+  assignRedemption(redemptionId: string, orderId: string): Promise<ApiResponse<void>>;
+  releaseRedemption(redemptionId: string): Promise<ApiResponse<void>>;
+  createCode(data: CreateDiscountCodeData): Promise<ApiResponse<DiscountCode>>;
+  createWelcomeCode(): Promise<ApiResponse<DiscountCode>>;
+  listCodes(): Promise<ApiResponse<DiscountCode[]>>;
+  deactivateCode(id: string): Promise<ApiResponse<DiscountCode>>;
+}
@@ -0,0 +1,53 @@
+import {
+  ApiResponse,
+  CreatePurchaseOrderData,
+  GoodsReceiptLine,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReorderCandidate,
+  Supplier,
+  SupplierData
+} from '@/types';
+
+export interface ISupplierRepository {
+  findAll(includeInactive?: boolean): Promise<ApiResponse<Supplier[]>>;
+  findById(id: string): Promise<ApiResponse<Supplier>>;
+  create(supplier: SupplierData): Promise<ApiResponse<Supplier>>;
+  update(id: string, supplier: Partial<SupplierData>): Promise<ApiResponse<Supplier>>;
+}
+
+export interface IPurchaseOrderRepository {
+  findAll(status?: PurchaseOrderStatus): Promise<ApiResponse<PurchaseOrder[]>>;
+  findById(id: string): Promise<ApiResponse<PurchaseOrder>>;
+  create(purchaseOrder: CreatePurchaseOrderData): Promise<ApiResponse<PurchaseOrder>>;
+  // Only moves the order on if it is still in one of the given statuses
+  updateStatus(
+    id: string,
+    status: PurchaseOrderStatus,
+    fromStatuses: PurchaseOrderStatus[]
+  ): Promise<ApiResponse<PurchaseOrder>>;
+  // Adds the delivered quantities to stock and returns the order's new status
+  receive(id: string, lines: GoodsReceiptLine[]): Promise<ApiResponse<PurchaseOrderStatus>>;
+  findReorderCandidates(): Promise<ApiResponse<ReorderCandidate[]>>;
+}
+
+/**
+ * Purchase Order Service
+ * Products that fall to their reorder level are ordered from their supplier.
+ * Orders start as drafts, are sent to the supplier as a PDF by email, and
+ * are received in one or more deliveries that add to stock.
+ */
+export interface IPurchaseOrderService {
+  getSuppliers(includeInactive?: boolean): Promise<ApiResponse<Supplier[]>>;
+  createSupplier(data: SupplierData): Promise<ApiResponse<Supplier>>;
+  updateSupplier(id: string, data: Partial<SupplierData>): Promise<ApiResponse<Supplier>>;
+  getPurchaseOrders(status?: PurchaseOrderStatus): Promise<ApiResponse<PurchaseOrder[]>>;
+  getPurchaseOrder(id: string): Promise<ApiResponse<PurchaseOrder>>;
+  createPurchaseOrder(data: CreatePurchaseOrderData): Promise<ApiResponse<PurchaseOrder>>;
+  // One draft per supplier for everything at or below its reorder level
+  generateReorderDrafts(): Promise<ApiResponse<PurchaseOrder[]>>;
+  sendPurchaseOrder(id: string): Promise<ApiResponse<PurchaseOrder>>;
+  cancelPurchaseOrder(id: string): Promise<ApiResponse<PurchaseOrder>>;
+  receiveGoods(id: string, lines: GoodsReceiptLine[]): Promise<ApiResponse<PurchaseOrder>>;
+  renderPdf(purchaseOrder: PurchaseOrder): Promise<ApiResponse<Uint8Array>>;
+}
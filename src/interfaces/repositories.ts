@@ -2,20 +2,44 @@ import {
   Product,
   Customer,
   Order,
+  OrderStatistics,
+  OrderStatusChange,
+  OrderStatusTransition,
+  OrderStatusStep,
   Cart,
   InventoryItem,
+  InventoryLot,
+  ReceiveLotData,
+  LotRecipient,
   ShippingRate,
   ShippingLabel,
+  OrderShipment,
+  ShipmentItem,
+  CarrierTrackingEvent,
+  ShipmentTrackingEvent,
   CarrierPricingRule,
   AbandonedCart,
   AbandonedCartCreateData,
   BundleConfiguration,
+  PaymentEvent,
+  DiscountCode,
+  DiscountRedemption,
+  ReturnRequest,
+  ReturnStatus,
+  Review,
+  ReviewStatus,
+  Invoice,
+  InvoiceType,
+  PaymentMethod,
+  PaymentStatus,
   ApiResponse
 } from '@/types';
 
 export interface IProductRepository {
   findAll(params?: ProductSearchParams): Promise<ApiResponse<Product[]>>;
   findById(id: string): Promise<ApiResponse<Product>>;
+  // Inactive products included, for orders placed before a product was withdrawn
+  findByIds(ids: string[]): Promise<ApiResponse<Product[]>>;
   findByCategory(category: string): Promise<ApiResponse<Product[]>>;
   findBySku(sku: string): Promise<ApiResponse<Product>>;
   findFeatured(limit?: number): Promise<ApiResponse<Product[]>>;
@@ -50,21 +74,25 @@ export interface ICustomerRepository {
 export interface IOrderRepository {
   findAll(customerId?: string): Promise<ApiResponse<Order[]>>;
   findById(id: string): Promise<ApiResponse<Order>>;
+  findByOrderNumber(orderNumber: string): Promise<ApiResponse<Order>>;
   findByCustomerId(customerId: string): Promise<ApiResponse<Order[]>>;
   findByStatus(status: string): Promise<ApiResponse<Order[]>>;
   findByTrackingNumber(trackingNumber: string): Promise<ApiResponse<Order>>;
-  create(order: Omit<Order, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<Order>>;
+  findByPaymentId(paymentId: string): Promise<ApiResponse<Order>>;
+  findByPaymentStatus(paymentStatuses: PaymentStatus[], paymentMethod?: PaymentMethod): Promise<ApiResponse<Order[]>>;
+  // The order number is assigned by the database
+  create(order: Omit<Order, 'id' | 'orderNumber' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<Order>>;
   update(id: string, order: Partial<Order>): Promise<ApiResponse<Order>>;
-  updateStatus(orderId: string, status: string, trackingNumber?: string): Promise<ApiResponse<Order>>;
-  getOrderStatistics(customerId?: string): Promise<ApiResponse<{
-    total: number;
-    pending: number;
-    confirmed: number;
-    shipped: number;
-    delivered: number;
-    cancelled: number;
-  }>>;
+  // Fails if the order is no longer in transition.from; the change is recorded in its history
+  transitionStatus(orderId: string, transition: OrderStatusTransition): Promise<ApiResponse<Order>>;
+  // All the steps in one transaction; the orders that moved, as they end up
+  transitionStatuses(steps: OrderStatusStep[], actor: string, reason?: string): Promise<ApiResponse<Order[]>>;
+  findStatusHistory(orderId: string): Promise<ApiResponse<OrderStatusChange[]>>;
+  getOrderStatistics(customerId?: string): Promise<ApiResponse<OrderStatistics>>;
   getRecentOrders(days: number, limit: number): Promise<ApiResponse<Order[]>>;
+  findByCreatedBetween(from: Date, to: Date): Promise<ApiResponse<Order[]>>;
+  findCustomersWithOrdersBefore(customerIds: string[], before: Date): Promise<ApiResponse<string[]>>;
+  hasDeliveredOrderWithProduct(customerId: string, productId: string): Promise<ApiResponse<boolean>>;
 }
 
 export interface ICartRepository {
@@ -84,6 +112,16 @@ export interface IInventoryRepository {
   releaseReservedStock(productId: string, quantity: number): Promise<ApiResponse<boolean>>;
 }
 
+export interface IInventoryLotRepository {
+  // Oldest best-before first, the order they are picked in
+  findByProductId(productId: string, includeEmpty?: boolean): Promise<ApiResponse<InventoryLot[]>>;
+  // Lots with stock left whose best-before date is on or before the date
+  findExpiringBefore(date: Date): Promise<ApiResponse<InventoryLot[]>>;
+  // Adds the quantity to the product's stock along with the lot
+  receive(lot: ReceiveLotData): Promise<ApiResponse<InventoryLot>>;
+  findRecipients(lotCode: string): Promise<ApiResponse<LotRecipient[]>>;
+}
+
 export interface IShippingRepository {
   // Shipping rates methods
   findRatesByCountry(country: string): Promise<ApiResponse<ShippingRate[]>>;
@@ -102,6 +140,7 @@ export interface IShippingRepository {
 
   // Shipping labels methods
   saveShippingLabel(label: Omit<ShippingLabel, 'id' | 'generatedAt'>): Promise<ApiResponse<ShippingLabel>>;
+  // The most recent label when the order went out in several shipments
   findLabelByOrderId(orderId: string): Promise<ApiResponse<ShippingLabel>>;
   findLabelByTrackingNumber(trackingNumber: string): Promise<ApiResponse<ShippingLabel>>;
 
@@ -124,4 +163,69 @@ export interface IAbandonedCartRepository {
   markReminded(id: string, newReminderCount: number): Promise<ApiResponse<void>>;
   markRecovered(token: string, orderId: string): Promise<ApiResponse<void>>;
   markExpired(id: string): Promise<ApiResponse<void>>;
-}
\ No newline at end of file
+}
+
+export interface IPaymentEventRepository {
+  hasEvent(provider: string, externalId: string, status: string): Promise<ApiResponse<boolean>>;
+  recordEvent(event: Omit<PaymentEvent, 'id' | 'createdAt'>): Promise<ApiResponse<PaymentEvent>>;
+  findByOrderId(orderId: string): Promise<ApiResponse<PaymentEvent[]>>;
+}
+
+export interface IDiscountCodeRepository {
+  findAll(): Promise<ApiResponse<DiscountCode[]>>;
+  findByCode(code: string): Promise<ApiResponse<DiscountCode>>;
+  create(code: Omit<DiscountCode, 'id' | 'usageCount' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<DiscountCode>>;
+  update(id: string, code: Partial<DiscountCode>): Promise<ApiResponse<DiscountCode>>;
+  countRedemptions(discountCodeId: string, customerId: string): Promise<ApiResponse<number>>;
+  redeem(discountCodeId: string, customerId: string | undefined, amount: number): Promise<ApiResponse<DiscountRedemption>>;
+  assignOrder(redemptionId: string, orderId: string): Promise<ApiResponse<void>>;
+  release(redemptionId: string): Promise<ApiResponse<void>>;
+}
+
+export interface IReturnRepository {
+  findById(id: string): Promise<ApiResponse<ReturnRequest>>;
+  findByOrderId(orderId: string): Promise<ApiResponse<ReturnRequest[]>>;
+  findByCustomerId(customerId: string): Promise<ApiResponse<ReturnRequest[]>>;
+  findByStatus(status?: ReturnStatus): Promise<ApiResponse<ReturnRequest[]>>;
+  create(returnRequest: Omit<ReturnRequest, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<ReturnRequest>>;
+  update(id: string, returnRequest: Partial<ReturnRequest>): Promise<ApiResponse<ReturnRequest>>;
+  isOrderEligible(orderId: string, daysLimit: number): Promise<ApiResponse<boolean>>;
+}
+
+export interface IShipmentRepository {
+  findById(id: string): Promise<ApiResponse<OrderShipment>>;
+  findByOrderId(orderId: string): Promise<ApiResponse<OrderShipment[]>>;
+  // Fails if the items are not in the order or already allocated to another shipment
+  create(orderId: string, items: Array<Pick<ShipmentItem, 'productId' | 'quantity'>>, carrier?: string): Promise<ApiResponse<OrderShipment>>;
+  update(id: string, shipment: Partial<OrderShipment>): Promise<ApiResponse<OrderShipment>>;
+  findByTrackingNumber(trackingNumber: string): Promise<ApiResponse<OrderShipment>>;
+  // Shipped shipments with a tracking number, least recently polled first
+  findAwaitingTracking(limit: number): Promise<ApiResponse<OrderShipment[]>>;
+}
+
+export interface ITrackingEventRepository {
+  // Returns only the events not stored before
+  saveEvents(shipment: OrderShipment, events: CarrierTrackingEvent[]): Promise<ApiResponse<ShipmentTrackingEvent[]>>;
+  // Newest first
+  findByOrderId(orderId: string): Promise<ApiResponse<ShipmentTrackingEvent[]>>;
+  findByTrackingNumber(trackingNumber: string): Promise<ApiResponse<ShipmentTrackingEvent[]>>;
+}
+
+export interface IReviewRepository {
+  findById(id: string): Promise<ApiResponse<Review>>;
+  findByProduct(productId: string, status: ReviewStatus, limit?: number): Promise<ApiResponse<Review[]>>;
+  findByStatus(status?: ReviewStatus): Promise<ApiResponse<Review[]>>;
+  findByProductAndCustomer(productId: string, customerId: string): Promise<ApiResponse<Review | null>>;
+  getRatingDistribution(productId: string): Promise<ApiResponse<Record<number, number>>>;
+  create(review: Omit<Review, 'id' | 'status' | 'helpful' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<Review>>;
+  updateStatus(id: string, status: ReviewStatus, moderationNote?: string): Promise<ApiResponse<Review>>;
+  // False when the voter has already marked the review as helpful
+  addHelpfulVote(reviewId: string, voterKey: string): Promise<ApiResponse<boolean>>;
+}
+
+export interface IInvoiceRepository {
+  findByOrderId(orderId: string): Promise<ApiResponse<Invoice[]>>;
+  findByReference(reference: string): Promise<ApiResponse<Invoice | null>>;
+  findIssuedBetween(from: Date, to: Date, type?: InvoiceType): Promise<ApiResponse<Invoice[]>>;
+  create(invoice: Omit<Invoice, 'id' | 'invoiceNumber' | 'issuedAt'>): Promise<ApiResponse<Invoice>>;
+}
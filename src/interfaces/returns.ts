@@ -0,0 +1,35 @@
+import { ApiResponse, ReturnItemCondition, ReturnRequest, ReturnStatus } from '@/types';
+
+export interface CreateReturnData {
+  orderId: string;
+  reason: string;
+  items: Array<{
+    productId: string;
+    quantity: number;
+    reason?: string;
+    condition?: ReturnItemCondition;
+  }>;
+}
+
+export interface ApproveReturnOptions {
+  adminNotes?: string;
+  // Overrides the calculated refund, e.g. to include shipping for a defective item
+  refundAmount?: number;
+}
+
+/**
+ * Return Service
+ * Return (RMA) lifecycle: pending -> approved -> received -> refunded,
+ * with rejected and cancelled as the other end states
+ */
+export interface IReturnService {
+  requestReturn(customerId: string, data: CreateReturnData): Promise<ApiResponse<ReturnRequest>>;
+  cancelReturn(returnId: string, customerId: string): Promise<ApiResponse<ReturnRequest>>;
+  approveReturn(returnId: string, options?: ApproveReturnOptions): Promise<ApiResponse<ReturnRequest>>;
+  rejectReturn(returnId: string, adminNotes: string): Promise<ApiResponse<ReturnRequest>>;
+  markReceived(returnId: string, trackingNumber?: string): Promise<ApiResponse<ReturnRequest>>;
+  refundReturn(returnId: string): Promise<ApiResponse<ReturnRequest>>;
+  getReturn(returnId: string): Promise<ApiResponse<ReturnRequest>>;
+  getCustomerReturns(customerId: string): Promise<ApiResponse<ReturnRequest[]>>;
+  getReturnsByStatus(status?: ReturnStatus): Promise<ApiResponse<ReturnRequest[]>>;
+}
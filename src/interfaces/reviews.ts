@@ -0,0 +1,28 @@
+import { ApiResponse, ProductRatingSummary, Review, ReviewStatus } from '@/types';
+
+export interface CreateReviewData {
+  productId: string;
+  rating: number;
+  title: string;
+  comment: string;
+}
+
+export interface ProductReviews {
+  reviews: Review[];
+  summary: ProductRatingSummary;
+}
+
+/**
+ * Review Service
+ * Reviews are held as pending until an admin approves or rejects them; only
+ * approved reviews are shown and counted in the product's rating
+ */
+export interface IReviewService {
+  getProductReviews(productId: string, limit?: number): Promise<ApiResponse<ProductReviews>>;
+  submitReview(customerId: string, data: CreateReviewData): Promise<ApiResponse<Review>>;
+  approveReview(reviewId: string): Promise<ApiResponse<Review>>;
+  rejectReview(reviewId: string, moderationNote?: string): Promise<ApiResponse<Review>>;
+  getReviewsByStatus(status?: ReviewStatus): Promise<ApiResponse<Review[]>>;
+  // voterKey identifies the customer, or the browser session for guests
+  markHelpful(reviewId: string, voterKey: string): Promise<ApiResponse<{ helpful: number }>>;
+}
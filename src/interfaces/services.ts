@@ -2,15 +2,29 @@ import {
   Product,
   Customer,
   Order,
+  OrderItem,
+  OrderStatus,
+  OrderStatistics,
+  OrderStatusChange,
+  OrderStatusTransition,
+  OrderStatusStep,
   Cart,
   CartItem,
   PaymentMethod,
+  PaymentStatus,
   ShippingRate,
   Address,
   BundleConfiguration,
   ApiResponse,
   ShippingLabel,
-  CarrierInfo
+  CarrierInfo,
+  AppliedDiscount,
+  VatCalculation,
+  VatRateBreakdown,
+  InventoryLot,
+  ReceiveLotData,
+  LotRecipient,
+  Locale
 } from '@/types';
 import { BundleValidationResult } from '@/types/bundles';
 
@@ -114,34 +128,40 @@ export interface ICartService extends IAbandonedCartService {
   validateCartItems(cartId: string): Promise<ApiResponse<{ valid: boolean; issues?: string[] }>>;
   syncCartPrices(cartId: string): Promise<ApiResponse<Cart>>;
   mergeGuestCart(sessionId: string, userId: string): Promise<ApiResponse<Cart>>;
-  getCartSummary(cartId: string): Promise<ApiResponse<{
+  getCartSummary(cartId: string, discountCode?: string, country?: string): Promise<ApiResponse<{
     itemCount: number;
     subtotal: number;
+    discount?: AppliedDiscount;
+    discountError?: string;
     estimatedTax: number;
+    vatBreakdown: VatRateBreakdown[];
     totalWeight: number;
   }>>;
 }
 
 export interface IOrderService {
   createOrder(orderData: CreateOrderData): Promise<ApiResponse<Order>>;
-  getOrder(id: string): Promise<ApiResponse<Order>>;
+  calculateTotals(input: OrderTotalsInput): Promise<ApiResponse<OrderTotals>>;
+  // Accepts the order's id or its order number, e.g. FE-2026-000123
+  getOrder(idOrNumber: string): Promise<ApiResponse<Order>>;
   getOrderById(id: string): Promise<ApiResponse<Order>>;
+  getOrderByPaymentId(paymentId: string): Promise<ApiResponse<Order>>;
   getUserOrders(userId: string): Promise<ApiResponse<Order[]>>;
-  updateOrderStatus(orderId: string, status: string): Promise<ApiResponse<Order>>;
-  cancelOrder(orderId: string): Promise<ApiResponse<Order>>;
+  updateOrderStatus(orderId: string, status: OrderStatus, change: OrderStatusChangeSource): Promise<ApiResponse<Order>>;
+  // Warehouse steps (picking, packed) for several orders, applied together or not at all
+  transitionOrders(steps: OrderStatusStep[], change: OrderStatusChangeSource): Promise<ApiResponse<Order[]>>;
+  getOrderStatusHistory(orderId: string): Promise<ApiResponse<OrderStatusChange[]>>;
+  updatePaymentStatus(orderId: string, paymentStatus: PaymentStatus): Promise<ApiResponse<Order>>;
+  cancelOrder(orderId: string, change: OrderStatusChangeSource): Promise<ApiResponse<Order>>;
   getOrdersByStatus(status: string): Promise<ApiResponse<Order[]>>;
-  getOrderStatistics(customerId?: string): Promise<ApiResponse<{
-    total: number;
-    pending: number;
-    confirmed: number;
-    shipped: number;
-    delivered: number;
-    cancelled: number;
-  }>>;
+  getOrderStatistics(customerId?: string): Promise<ApiResponse<OrderStatistics>>;
   getRecentOrders(days: number, limit: number): Promise<ApiResponse<Order[]>>;
   trackOrder(trackingNumber: string): Promise<ApiResponse<{ order: Order; tracking: any }>>;
 }
 
+// Who is changing an order's status and why, recorded in its history
+export type OrderStatusChangeSource = Pick<OrderStatusTransition, 'actor' | 'reason'>;
+
 export interface CreateOrderData {
   customerId: string;
   items: CartItem[];
@@ -149,6 +169,31 @@ export interface CreateOrderData {
   billingAddress: Address;
   paymentMethod: PaymentMethod;
   shippingRateId: string;
+  // The service point or locker chosen for a rate that delivers to one
+  pickupPointId?: string;
+  discountCode?: string;
+  // Stock held since the customer started checkout
+  reservationId?: string;
+  // The guest checkout session that holds the reservation
+  sessionId?: string;
+  locale?: Locale;
+}
+
+export interface OrderTotalsInput {
+  customerId?: string;
+  items: CartItem[];
+  country: string;
+  shippingCost: number;
+  discountCode?: string;
+}
+
+export interface OrderTotals {
+  items: OrderItem[];
+  subtotal: number;
+  discount?: AppliedDiscount;
+  shipping: number;
+  vat: VatCalculation;
+  total: number;
 }
 
 export interface IPaymentService {
@@ -157,6 +202,8 @@ export interface IPaymentService {
   createKlarnaSession(orderData: KlarnaOrderData): Promise<ApiResponse<KlarnaSession>>;
   verifyPayment(paymentId: string, method: PaymentMethod): Promise<ApiResponse<boolean>>;
   createPaymentIntent(amount: number, currency: string): Promise<ApiResponse<{ clientSecret: string; paymentIntentId: string }>>;
+  // Links a payment created before its order to the order's id and number
+  attachOrderReference(paymentId: string, method: PaymentMethod, order: { id: string; orderNumber: string }): Promise<ApiResponse<void>>;
   getPaymentMethods(): Promise<ApiResponse<Array<{ id: string; name: string; enabled: boolean }>>>;
 }
 
@@ -215,6 +262,7 @@ import type {
   IShipmentTrackingService,
   IAddressValidationService,
   ISwedishShippingService,
+  IPickupPointService,
   Shipment,
   TrackingInfo,
   TrackingEvent
@@ -227,6 +275,7 @@ export type {
   IShipmentTrackingService,
   IAddressValidationService,
   ISwedishShippingService,
+  IPickupPointService,
   Shipment,
   TrackingInfo,
   TrackingEvent
@@ -254,13 +303,21 @@ export interface IShippingService
 
 export interface IInventoryService {
   checkAvailability(productId: string, quantity: number): Promise<ApiResponse<boolean>>;
-  reserveStock(items: CartItem[], customerId?: string, sessionId?: string): Promise<ApiResponse<string>>;
+  reserveStock(items: CartItem[], customerId?: string, sessionId?: string, replaceReservationId?: string): Promise<ApiResponse<string>>;
+  // Given the items, fails unless the reservation holds exactly those
+  extendReservation(reservationId: string, minutes?: number, items?: CartItem[]): Promise<ApiResponse<Date>>;
   releaseReservation(reservationId: string): Promise<ApiResponse<void>>;
-  completeReservation(reservationId: string): Promise<ApiResponse<void>>;
+  // Turns the held stock into a stock decrement once the order is paid
+  completeReservation(reservationId: string, orderId?: string): Promise<ApiResponse<void>>;
   updateStock(productId: string, quantity: number): Promise<ApiResponse<void>>;
   getLowStockAlerts(): Promise<ApiResponse<Product[]>>;
   cleanupExpiredReservations(): Promise<ApiResponse<{ expiredCount: number }>>;
   getActiveReservations(productId: string): Promise<ApiResponse<number>>;
+  receiveLot(lot: ReceiveLotData): Promise<ApiResponse<InventoryLot>>;
+  getProductLots(productId: string): Promise<ApiResponse<InventoryLot[]>>;
+  // Lots with stock left that pass their best-before date within the given days
+  getNearExpiryAlerts(days?: number): Promise<ApiResponse<InventoryLot[]>>;
+  getLotRecipients(lotCode: string): Promise<ApiResponse<LotRecipient[]>>;
 }
 
 export interface IGDPRService {
@@ -272,6 +329,7 @@ export interface IGDPRService {
   getDataProcessingPurposes(): Promise<ApiResponse<Array<{ id: string; name: string; description: string }>>>;
   getDataRetentionPolicies(): Promise<ApiResponse<Array<{ dataType: string; retentionPeriod: string; purpose: string }>>>;
   getGDPRActivityLog(userId: string): Promise<ApiResponse<Array<{ action: string; timestamp: string; details: string }>>>;
+  purgeExpiredData(now?: Date): Promise<ApiResponse<RetentionPurgeResult>>;
 }
 
 export interface UserData {
@@ -291,4 +349,10 @@ export interface UserPreferences {
   language: string;
   currency: string;
   newsletter: boolean;
+}
+
+export interface RetentionPurgeResult {
+  ordersDeleted: number;
+  customersDeleted: number;
+  supportMessagesDeleted: number;
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+import type { ApiResponse, OrderShipment, ShipmentItem, ShipmentStatus, ShipmentTrackingEvent } from '@/types';
+import type { OrderStatusChangeSource } from './services';
+
+export interface CreateShipmentData {
+  items: Array<Pick<ShipmentItem, 'productId' | 'quantity'>>;
+  // Carrier code, e.g. POSTNORD; defaults to the carrier chosen at checkout
+  carrier?: string;
+}
+
+/**
+ * Shipment Service
+ * Sends an order in one or more shipments and keeps the order status in
+ * step with them: pending -> packed -> shipped -> in_transit -> delivered,
+ * with returned and cancelled as the other end states
+ */
+export interface IShipmentService {
+  createShipment(orderId: string, data: CreateShipmentData, change: OrderStatusChangeSource): Promise<ApiResponse<OrderShipment>>;
+  generateLabel(shipmentId: string): Promise<ApiResponse<OrderShipment>>;
+  updateShipmentStatus(shipmentId: string, status: ShipmentStatus, change: OrderStatusChangeSource): Promise<ApiResponse<OrderShipment>>;
+  getShipment(shipmentId: string): Promise<ApiResponse<OrderShipment>>;
+  getOrderShipments(orderId: string): Promise<ApiResponse<OrderShipment[]>>;
+  getShipmentByTrackingNumber(trackingNumber: string): Promise<ApiResponse<OrderShipment>>;
+}
+
+export interface TrackingIngestResult {
+  received: number;
+  // New events; repeats of stored events are left out
+  recorded: number;
+  // Events for tracking numbers that aren't ours
+  skipped: number;
+}
+
+export interface TrackingPollResult {
+  polled: number;
+  recorded: number;
+  failed: number;
+}
+
+/**
+ * Tracking Service
+ * Takes in carrier tracking events, pushed to the webhook or polled, stores
+ * them per shipment and moves the shipment, and with it the order, along.
+ * Customers are emailed when their parcel is out for delivery, ready for
+ * pickup, delivered or held up.
+ */
+export interface ITrackingService {
+  ingestWebhook(carrierCode: string, payload: unknown): Promise<ApiResponse<TrackingIngestResult>>;
+  // Polls the shipments on their way that were checked least recently
+  pollShipments(limit?: number): Promise<ApiResponse<TrackingPollResult>>;
+  // Newest first, across all of the order's shipments
+  getOrderTracking(orderId: string): Promise<ApiResponse<ShipmentTrackingEvent[]>>;
+}
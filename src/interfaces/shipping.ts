@@ -5,7 +5,13 @@ import {
   CarrierInfo,
   ShippingLabel,
   Order,
-  Address
+  OrderShipment,
+  Address,
+  DeliveryType,
+  PickupPoint,
+  DangerousGoodsCheck,
+  PackedParcel,
+  Parcel
 } from '@/types';
 
 /**
@@ -30,14 +36,21 @@ export interface IShippingRateService {
     recommended: ShippingRate;
     freeShippingThreshold: number;
   }>>;
+  // Priced on the chargeable weight, the larger of the actual and the volumetric weight
   calculateDynamicPrice(
     carrierCode: string,
     serviceType: string,
-    weight: number,
+    parcel: Parcel,
     country: string,
     postalCode?: string
   ): Promise<ApiResponse<number>>;
-  estimateDeliveryDate(shippingRateId: string): Promise<ApiResponse<Date>>;
+  // The smallest box from the catalogue the items fit in, and the parcel's weight with it
+  packItems(items: Array<Pick<CartItem, 'productId' | 'quantity'>>): Promise<ApiResponse<PackedParcel>>;
+  // Business days from now, from the carrier's cut-off, plus extra days for remote Swedish postal zones
+  estimateDeliveryDate(shippingRateId: string, postalCode?: string): Promise<ApiResponse<Date>>;
+  // The pickup point chosen for a service point or locker rate, checked against the rate's carrier and type;
+  // home delivery rates take none, and the others cannot go without one
+  getPickupPointForRate(shippingRateId: string, pickupPointId?: string): Promise<ApiResponse<PickupPoint | undefined>>;
   calculateEcoShipping(items: CartItem[], country: string): Promise<ApiResponse<{
     standardRate: ShippingRate;
     ecoRate: ShippingRate;
@@ -52,7 +65,9 @@ export interface IShippingRateService {
       speed?: 'fastest' | 'standard';
       eco?: boolean;
       price?: 'cheapest' | 'premium';
-    }
+    },
+    // Leaves only the services that carry limited quantities
+    dangerousGoods?: boolean
   ): Promise<ApiResponse<CarrierInfo[]>>;
 }
 
@@ -61,8 +76,12 @@ export interface IShippingRateService {
  * Single Responsibility: Generate and manage shipping labels
  */
 export interface IShippingLabelService {
-  generateShippingLabel(order: Order): Promise<ApiResponse<ShippingLabel>>;
+  generateShippingLabel(order: Order, shipment?: OrderShipment): Promise<ApiResponse<ShippingLabel>>;
+  // Voids the carrier booking behind a label that will not be used
+  cancelShippingLabel(carrierCode: string, trackingNumber: string): Promise<ApiResponse<void>>;
   getShippingLabel(orderId: string): Promise<ApiResponse<ShippingLabel>>;
+  // Flammable oils in the parcel, and the per-package limits or carrier rules it would break
+  checkDangerousGoods(order: Order, shipment?: OrderShipment): Promise<ApiResponse<DangerousGoodsCheck>>;
 }
 
 /**
@@ -83,6 +102,19 @@ export interface IAddressValidationService {
   getSupportedCountries(): Promise<ApiResponse<Array<{ code: string; name: string }>>>;
 }
 
+/**
+ * Pickup Point Service - Finds service points and parcel lockers
+ * Single Responsibility: Look up where a customer can collect a parcel
+ */
+export interface IPickupPointService {
+  findPickupPoints(
+    carrierCode: string,
+    postalCode: string,
+    type?: Exclude<DeliveryType, 'home'>
+  ): Promise<ApiResponse<PickupPoint[]>>;
+  getPickupPoint(carrierCode: string, pickupPointId: string): Promise<ApiResponse<PickupPoint>>;
+}
+
 /**
  * Swedish Shipping Service - Handles Swedish market-specific shipping logic
  * Single Responsibility: Provide Swedish market-specific shipping features
@@ -104,7 +136,11 @@ export interface ISwedishShippingService {
     adjustedRate: ShippingRate;
     zoneInfo: { zone: string; additionalDays: number };
   }>>;
-  getSwedishHolidayImpact(date: string): Promise<ApiResponse<{ isHoliday: boolean; estimatedDelay?: number }>>;
+  getSwedishHolidayImpact(date: string): Promise<ApiResponse<{
+    isHoliday: boolean;
+    holidayName?: string;
+    estimatedDelay?: number;
+  }>>;
 }
 
 // Supporting types
@@ -121,7 +157,7 @@ export interface TrackingInfo {
   trackingNumber: string;
   status: string;
   location: string;
-  estimatedDelivery: Date;
+  estimatedDelivery?: Date;
   history: TrackingEvent[];
 }
 
@@ -0,0 +1,29 @@
+import { ProductCategory, VatCalculation, VatScheme } from '@/types';
+
+/**
+ * An amount in SEK as charged to the customer, i.e. after getChargedPrice
+ */
+export interface TaxableLine {
+  amount: number;
+  category?: ProductCategory;
+}
+
+export interface VatCalculationInput {
+  country: string;
+  lines: TaxableLine[];
+  shipping: number;
+  // Item discount, spread over the lines in proportion to their amount
+  discount?: number;
+}
+
+/**
+ * Tax Calculator
+ * Works out the VAT on a sale from the destination country and product categories
+ */
+export interface ITaxCalculator {
+  normalizeCountry(country: string): string;
+  getScheme(country: string): VatScheme;
+  getTaxRate(country: string, category?: ProductCategory): number;
+  getChargedPrice(shelfPrice: number, country: string, category?: ProductCategory): number;
+  calculate(input: VatCalculationInput): VatCalculation;
+}
@@ -37,6 +37,7 @@ export interface TestOrderDTO {
 export interface TestOrderResult {
   order: {
     id: string;
+    orderNumber: string;
     customerId: string;
     items: any[];
     subtotal: number;
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { config } from '@/config';
+
+/**
+ * Resolve the session of a signed-in admin for an admin API route.
+ * Returns the response to send instead when there is no session (401) or
+ * the customer's email is not on the ADMIN_EMAILS allow-list (403).
+ */
+export async function requireAdmin(): Promise<Session | NextResponse> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const email = session.user.email?.toLowerCase();
+  if (!email || !config.auth.adminEmails.includes(email)) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return session;
+}
@@ -169,6 +169,7 @@ export type Database = {
       orders: {
         Row: {
           id: string;
+          order_number: string;
           customer_id: string;
           items: any[];
           total: number;
@@ -283,7 +284,7 @@ export type Database = {
     };
     Enums: {
       product_category: 'essential-oils' | 'carrier-oils' | 'diffusers' | 'accessories' | 'gift-sets';
-      order_status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+      order_status: 'pending' | 'paid' | 'picking' | 'packed' | 'shipped' | 'in_transit' | 'delivered' | 'returned' | 'refunded' | 'cancelled';
       payment_method: 'swish' | 'klarna' | 'card' | 'bank-transfer';
     };
   };
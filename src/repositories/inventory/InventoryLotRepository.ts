@@ -0,0 +1,211 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IInventoryLotRepository } from '@/interfaces';
+import type { ApiResponse, InventoryLot, LotRecipient, ReceiveLotData, ShipmentStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+// Exceptions raised by receive_inventory_lot
+const RECEIVE_ERRORS: Record<string, string> = {
+  PRODUCT_NOT_FOUND: 'Product not found',
+};
+
+interface InventoryLotRecord {
+  id: string;
+  product_id: string;
+  lot_code: string;
+  supplier: string | null;
+  received_at: string;
+  best_before: string | null;
+  received_quantity: number;
+  quantity: number;
+  created_at: string;
+}
+
+interface LotRecipientRecord {
+  order_id: string;
+  order_number: string;
+  customer_id: string;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  product_id: string;
+  product_name: string | null;
+  lot_code: string;
+  quantity: number;
+  shipment_status: ShipmentStatus;
+  shipped_at: string | null;
+}
+
+// Lot dates are calendar days
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+@injectable()
+export class InventoryLotRepository implements IInventoryLotRepository {
+  private readonly tableName = 'inventory_lots';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async findByProductId(productId: string, includeEmpty: boolean = false): Promise<ApiResponse<InventoryLot[]>> {
+    try {
+      let query = this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('product_id', productId);
+
+      if (!includeEmpty) {
+        query = query.gt('quantity', 0);
+      }
+
+      const { data, error } = await query
+        .order('best_before', { ascending: true, nullsFirst: false })
+        .order('received_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch lots: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch lots: ${error}`,
+      };
+    }
+  }
+
+  async findExpiringBefore(date: Date): Promise<ApiResponse<InventoryLot[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .gt('quantity', 0)
+        .lte('best_before', toDateString(date))
+        .order('best_before', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch expiring lots: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch expiring lots: ${error}`,
+      };
+    }
+  }
+
+  async receive(lot: ReceiveLotData): Promise<ApiResponse<InventoryLot>> {
+    try {
+      const { data: lotId, error } = await this.supabase.rpc('receive_inventory_lot', {
+        p_product_id: lot.productId,
+        p_lot_code: lot.lotCode,
+        p_quantity: lot.quantity,
+        p_supplier: lot.supplier || null,
+        p_received_at: toDateString(lot.receivedAt || new Date()),
+        p_best_before: lot.bestBefore ? toDateString(lot.bestBefore) : null,
+      });
+
+      if (error) {
+        const known = Object.keys(RECEIVE_ERRORS).find(key => error.message.includes(key));
+        return {
+          success: false,
+          error: known ? RECEIVE_ERRORS[known] : `Failed to receive lot: ${error.message}`,
+        };
+      }
+
+      const { data, error: fetchError } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('id', lotId as string)
+        .single();
+
+      if (fetchError) {
+        return {
+          success: false,
+          error: `Failed to fetch received lot: ${fetchError.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to receive lot: ${error}`,
+      };
+    }
+  }
+
+  async findRecipients(lotCode: string): Promise<ApiResponse<LotRecipient[]>> {
+    try {
+      const { data, error } = await this.supabase.rpc('find_lot_recipients', {
+        p_lot_code: lotCode,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to find lot recipients: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: ((data || []) as LotRecipientRecord[]).map(record => this.transformRecipientRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to find lot recipients: ${error}`,
+      };
+    }
+  }
+
+  private transformDbRecord(record: InventoryLotRecord): InventoryLot {
+    return {
+      id: record.id,
+      productId: record.product_id,
+      lotCode: record.lot_code,
+      supplier: record.supplier || undefined,
+      receivedAt: new Date(record.received_at),
+      bestBefore: record.best_before ? new Date(record.best_before) : undefined,
+      receivedQuantity: record.received_quantity,
+      quantity: record.quantity,
+      createdAt: new Date(record.created_at),
+    };
+  }
+
+  private transformRecipientRecord(record: LotRecipientRecord): LotRecipient {
+    return {
+      orderId: record.order_id,
+      orderNumber: record.order_number,
+      customerId: record.customer_id,
+      email: record.email || undefined,
+      firstName: record.first_name || undefined,
+      lastName: record.last_name || undefined,
+      productId: record.product_id,
+      productName: record.product_name || undefined,
+      lotCode: record.lot_code,
+      quantity: record.quantity,
+      shipmentStatus: record.shipment_status,
+      shippedAt: record.shipped_at ? new Date(record.shipped_at) : undefined,
+    };
+  }
+}
@@ -0,0 +1,228 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IStockNotificationRepository } from '@/interfaces';
+import type {
+  ApiResponse,
+  Locale,
+  StockNotification,
+  StockNotificationDemand,
+  StockNotificationSource,
+  StockNotificationStatus,
+  StockNotificationSubscription
+} from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+interface StockNotificationRecord {
+  id: string;
+  product_id: string;
+  email: string;
+  customer_id: string | null;
+  locale: Locale;
+  source: StockNotificationSource;
+  status: StockNotificationStatus;
+  unsubscribe_token: string;
+  created_at: string;
+  notified_at: string | null;
+}
+
+interface StockNotificationDemandRecord {
+  product_id: string;
+  product_name: string;
+  sku: string;
+  stock: number;
+  pending: number | string;
+  notified: number | string;
+  last_subscribed_at: string | null;
+}
+
+@injectable()
+export class StockNotificationRepository implements IStockNotificationRepository {
+  private readonly tableName = 'stock_notifications';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async subscribe(subscription: StockNotificationSubscription): Promise<ApiResponse<StockNotification>> {
+    try {
+      // The unsubscribe token is left to its default so a repeat subscription keeps the old link working
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .upsert({
+          product_id: subscription.productId,
+          email: subscription.email,
+          customer_id: subscription.customerId || null,
+          locale: subscription.locale || 'sv',
+          source: subscription.source || 'product_page',
+          status: 'pending',
+          notified_at: null,
+        }, { onConflict: 'product_id,email' })
+        .select()
+        .single();
+
+      if (error) {
+        // Foreign key violation: no such product
+        if (error.code === '23503') {
+          return {
+            success: false,
+            error: 'Product not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to subscribe: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to subscribe: ${error}`,
+      };
+    }
+  }
+
+  async findPending(productId: string, limit: number): Promise<ApiResponse<StockNotification[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('product_id', productId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch stock notifications: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch stock notifications: ${error}`,
+      };
+    }
+  }
+
+  async markNotified(ids: string[]): Promise<ApiResponse<void>> {
+    try {
+      const { error } = await this.supabase
+        .from(this.tableName)
+        .update({
+          status: 'notified',
+          notified_at: new Date().toISOString(),
+        })
+        .in('id', ids)
+        .eq('status', 'pending');
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to mark stock notifications sent: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to mark stock notifications sent: ${error}`,
+      };
+    }
+  }
+
+  async unsubscribe(token: string): Promise<ApiResponse<StockNotification>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update({ status: 'unsubscribed' })
+        .eq('unsubscribe_token', token)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Subscription not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to unsubscribe: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to unsubscribe: ${error}`,
+      };
+    }
+  }
+
+  async findDemand(): Promise<ApiResponse<StockNotificationDemand[]>> {
+    try {
+      const { data, error } = await this.supabase.rpc('stock_notification_demand');
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch back-in-stock demand: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: ((data || []) as StockNotificationDemandRecord[]).map(record => ({
+          productId: record.product_id,
+          productName: record.product_name,
+          sku: record.sku,
+          stock: record.stock,
+          // COUNT comes back as a bigint
+          pending: Number(record.pending),
+          notified: Number(record.notified),
+          lastSubscribedAt: record.last_subscribed_at ? new Date(record.last_subscribed_at) : undefined,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch back-in-stock demand: ${error}`,
+      };
+    }
+  }
+
+  private transformDbRecord(record: StockNotificationRecord): StockNotification {
+    return {
+      id: record.id,
+      productId: record.product_id,
+      email: record.email,
+      customerId: record.customer_id || undefined,
+      locale: record.locale,
+      source: record.source,
+      status: record.status,
+      unsubscribeToken: record.unsubscribe_token,
+      createdAt: new Date(record.created_at),
+      notifiedAt: record.notified_at ? new Date(record.notified_at) : undefined,
+    };
+  }
+}
@@ -0,0 +1,214 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IInvoiceRepository } from '@/interfaces';
+import type {
+  ApiResponse,
+  Invoice,
+  InvoiceLine,
+  InvoiceParty,
+  InvoiceType,
+  PaymentMethod,
+  VatRateBreakdown,
+  VatScheme,
+} from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+interface InvoiceRecord {
+  id: string;
+  invoice_number: number | string;
+  type: InvoiceType;
+  order_id: string;
+  order_number: string | null;
+  customer_id: string | null;
+  credited_invoice_number: number | string | null;
+  reference: string | null;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  vat_scheme: VatScheme;
+  vat_breakdown: VatRateBreakdown[];
+  total: number | string;
+  currency: string;
+  payment_method: PaymentMethod;
+  issued_at: string;
+}
+
+@injectable()
+export class InvoiceRepository implements IInvoiceRepository {
+  private readonly tableName = 'invoices';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async findByOrderId(orderId: string): Promise<ApiResponse<Invoice[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('order_id', orderId)
+        .order('invoice_number', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch invoices: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch invoices: ${error}`,
+      };
+    }
+  }
+
+  async findByReference(reference: string): Promise<ApiResponse<Invoice | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('reference', reference)
+        .limit(1);
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch invoice: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: data && data.length > 0 ? this.transformDbRecord(data[0]) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch invoice: ${error}`,
+      };
+    }
+  }
+
+  async findIssuedBetween(from: Date, to: Date, type?: InvoiceType): Promise<ApiResponse<Invoice[]>> {
+    try {
+      const pageSize = 1000;
+      const invoices: Invoice[] = [];
+
+      for (let offset = 0; ; offset += pageSize) {
+        let query = this.supabase
+          .from(this.tableName)
+          .select('*')
+          .gte('issued_at', from.toISOString())
+          .lt('issued_at', to.toISOString());
+
+        if (type) {
+          query = query.eq('type', type);
+        }
+
+        const { data, error } = await query
+          .order('invoice_number', { ascending: true })
+          .range(offset, offset + pageSize - 1);
+
+        if (error) {
+          return {
+            success: false,
+            error: `Failed to fetch invoices: ${error.message}`,
+          };
+        }
+
+        invoices.push(...(data || []).map(record => this.transformDbRecord(record)));
+        if (!data || data.length < pageSize) break;
+      }
+
+      return {
+        success: true,
+        data: invoices,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch invoices: ${error}`,
+      };
+    }
+  }
+
+  async create(invoice: Omit<Invoice, 'id' | 'invoiceNumber' | 'issuedAt'>): Promise<ApiResponse<Invoice>> {
+    try {
+      // The number and issue date are assigned by the database
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .insert({
+          type: invoice.type,
+          order_id: invoice.orderId,
+          order_number: invoice.orderNumber || null,
+          customer_id: invoice.customerId || null,
+          credited_invoice_number: invoice.creditedInvoiceNumber ?? null,
+          reference: invoice.reference || null,
+          seller: invoice.seller,
+          buyer: invoice.buyer,
+          lines: invoice.lines,
+          vat_scheme: invoice.vatScheme,
+          vat_breakdown: invoice.vatBreakdown,
+          total: invoice.total,
+          currency: invoice.currency,
+          payment_method: invoice.paymentMethod,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Unique violation: the order already has an invoice, or the refund a credit note
+        if (error.code === '23505') {
+          return {
+            success: false,
+            error: 'Invoice already issued',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to create invoice: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create invoice: ${error}`,
+      };
+    }
+  }
+
+  private transformDbRecord(record: InvoiceRecord): Invoice {
+    return {
+      id: record.id,
+      invoiceNumber: Number(record.invoice_number),
+      type: record.type,
+      orderId: record.order_id,
+      orderNumber: record.order_number || undefined,
+      customerId: record.customer_id || undefined,
+      creditedInvoiceNumber: record.credited_invoice_number !== null
+        ? Number(record.credited_invoice_number)
+        : undefined,
+      reference: record.reference || undefined,
+      seller: record.seller,
+      buyer: record.buyer,
+      lines: record.lines,
+      vatScheme: record.vat_scheme,
+      vatBreakdown: record.vat_breakdown,
+      total: Number(record.total),
+      currency: record.currency,
+      paymentMethod: record.payment_method,
+      issuedAt: new Date(record.issued_at),
+    };
+  }
+}
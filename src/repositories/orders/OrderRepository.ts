@@ -1,7 +1,35 @@
 import { IOrderRepository } from '@/interfaces';
-import { Order, ApiResponse, OrderStatus, PaymentMethod } from '@/types';
+import {
+  Order,
+  OrderItem,
+  OrderItemLot,
+  ApiResponse,
+  OrderStatus,
+  OrderStatistics,
+  OrderStatusChange,
+  OrderStatusTransition,
+  OrderStatusStep,
+  PaymentMethod,
+  PaymentStatus,
+  DiscountType
+} from '@/types';
 import { supabase } from '@/lib/supabase';
 
+// Exceptions raised by transition_order_status
+const TRANSITION_ERRORS: Record<string, string> = {
+  ORDER_NOT_FOUND: 'Order not found',
+  ORDER_STATUS_CHANGED: 'Order status has changed, please reload the order',
+};
+
+// A single order is read with the lots its items were picked from
+const ORDER_WITH_LOTS = '*, order_item_lots(product_id, quantity, inventory_lots(lot_code, best_before))';
+
+interface OrderItemLotRecord {
+  product_id: string;
+  quantity: number;
+  inventory_lots: { lot_code: string; best_before: string | null } | null;
+}
+
 export class OrderRepository implements IOrderRepository {
   private readonly tableName = 'orders';
 
@@ -41,7 +69,7 @@ export class OrderRepository implements IOrderRepository {
     try {
       const { data, error } = await supabase
         .from(this.tableName)
-        .select('*')
+        .select(ORDER_WITH_LOTS)
         .eq('id', id)
         .single();
 
@@ -70,8 +98,9 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
-  async create(order: Omit<Order, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<Order>> {
+  async create(order: Omit<Order, 'id' | 'orderNumber' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<Order>> {
     try {
+      // The order number is assigned by the database as part of the insert
       const orderData = {
         customer_id: order.customerId,
         items: order.items,
@@ -83,8 +112,19 @@ export class OrderRepository implements IOrderRepository {
         billing_address: order.billingAddress,
         payment_method: order.paymentMethod,
         payment_id: order.paymentId,
+        payment_status: order.paymentStatus || 'pending',
         tracking_number: order.trackingNumber,
         carrier: order.carrier,
+        discount_code: order.discount?.code ?? null,
+        discount_type: order.discount?.type ?? null,
+        discount_amount: order.discount?.amount ?? 0,
+        vat_scheme: order.vatScheme ?? null,
+        vat_breakdown: order.vatBreakdown ?? null,
+        reservation_id: order.reservationId ?? null,
+        estimated_delivery: order.estimatedDelivery ? order.estimatedDelivery.toISOString().slice(0, 10) : null,
+        pickup_point: order.pickupPoint ?? null,
+        locale: order.locale ?? 'sv',
+        packaging_box: order.packagingBox ?? null,
       };
 
       const { data, error } = await supabase
@@ -125,7 +165,15 @@ export class OrderRepository implements IOrderRepository {
       if (order.shippingAddress) updateData.shipping_address = order.shippingAddress;
       if (order.billingAddress) updateData.billing_address = order.billingAddress;
       if (order.paymentId) updateData.payment_id = order.paymentId;
-      if (order.items) updateData.items = order.items;
+      if (order.paymentStatus) updateData.payment_status = order.paymentStatus;
+      if (order.items) {
+        // Lots are read from order_item_lots, not stored on the order
+        updateData.items = order.items.map(item => {
+          const stored = { ...item };
+          delete stored.lots;
+          return stored;
+        });
+      }
 
       const { data, error } = await supabase
         .from(this.tableName)
@@ -190,8 +238,9 @@ export class OrderRepository implements IOrderRepository {
   private transformDbRecord(record: any): Order {
     return {
       id: record.id,
+      orderNumber: record.order_number,
       customerId: record.customer_id,
-      items: record.items,
+      items: record.order_item_lots ? this.attachLots(record.items, record.order_item_lots) : record.items,
       total: record.total,
       tax: record.tax,
       shipping: record.shipping,
@@ -200,13 +249,61 @@ export class OrderRepository implements IOrderRepository {
       billingAddress: record.billing_address,
       paymentMethod: record.payment_method as PaymentMethod,
       paymentId: record.payment_id,
+      paymentStatus: (record.payment_status || 'pending') as PaymentStatus,
       trackingNumber: record.tracking_number,
       carrier: record.carrier,
+      discount: record.discount_code ? {
+        code: record.discount_code,
+        type: record.discount_type as DiscountType,
+        amount: Number(record.discount_amount || 0),
+        freeShipping: record.discount_type === 'free_shipping',
+      } : undefined,
+      vatScheme: record.vat_scheme || undefined,
+      vatBreakdown: record.vat_breakdown || undefined,
+      reservationId: record.reservation_id || undefined,
+      // A calendar day; read at noon UTC so it is the same day in any time zone
+      estimatedDelivery: record.estimated_delivery ? new Date(`${record.estimated_delivery}T12:00:00Z`) : undefined,
+      pickupPoint: record.pickup_point || undefined,
+      locale: record.locale || 'sv',
+      packagingBox: record.packaging_box || undefined,
       createdAt: new Date(record.created_at),
       updatedAt: new Date(record.updated_at),
     };
   }
 
+  private attachLots(items: OrderItem[], records: OrderItemLotRecord[]): OrderItem[] {
+    const lotsByProduct = new Map<string, OrderItemLot[]>();
+
+    for (const record of records) {
+      if (!record.inventory_lots) continue;
+
+      const lots = lotsByProduct.get(record.product_id) || [];
+      const existing = lots.find(lot => lot.lotCode === record.inventory_lots!.lot_code);
+
+      // A lot split across shipments is shown once
+      if (existing) {
+        existing.quantity += record.quantity;
+      } else {
+        lots.push({
+          lotCode: record.inventory_lots.lot_code,
+          bestBefore: record.inventory_lots.best_before ? new Date(record.inventory_lots.best_before) : undefined,
+          quantity: record.quantity,
+        });
+      }
+
+      lotsByProduct.set(record.product_id, lots);
+    }
+
+    // Lots are per product, so they go on the first line for it
+    const seen = new Set<string>();
+    return items.map(item => {
+      const lots = lotsByProduct.get(item.productId);
+      if (!lots || seen.has(item.productId)) return item;
+      seen.add(item.productId);
+      return { ...item, lots };
+    });
+  }
+
   // Additional methods for order management
   async findByCustomerId(customerId: string, limit?: number): Promise<ApiResponse<Order[]>> {
     try {
@@ -274,14 +371,105 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
-  async getOrderStatistics(customerId?: string): Promise<ApiResponse<{
-    total: number;
-    pending: number;
-    confirmed: number;
-    shipped: number;
-    delivered: number;
-    cancelled: number;
-  }>> {
+  async findByOrderNumber(orderNumber: string): Promise<ApiResponse<Order>> {
+    try {
+      const { data, error } = await supabase
+        .from(this.tableName)
+        .select(ORDER_WITH_LOTS)
+        .eq('order_number', orderNumber)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Order not found',
+          };
+        }
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to find order by order number: ${error}`,
+      };
+    }
+  }
+
+  async findByPaymentId(paymentId: string): Promise<ApiResponse<Order>> {
+    try {
+      const { data, error } = await supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('payment_id', paymentId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Order not found',
+          };
+        }
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to find order by payment ID: ${error}`,
+      };
+    }
+  }
+
+  async findByPaymentStatus(paymentStatuses: PaymentStatus[], paymentMethod?: PaymentMethod): Promise<ApiResponse<Order[]>> {
+    try {
+      let query = supabase
+        .from(this.tableName)
+        .select('*')
+        .in('payment_status', paymentStatuses);
+
+      if (paymentMethod) {
+        query = query.eq('payment_method', paymentMethod);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: data.map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch orders by payment status: ${error}`,
+      };
+    }
+  }
+
+  async getOrderStatistics(customerId?: string): Promise<ApiResponse<OrderStatistics>> {
     try {
       let query = supabase.from(this.tableName).select('status');
 
@@ -301,9 +489,14 @@ export class OrderRepository implements IOrderRepository {
       const statistics = {
         total: data.length,
         pending: data.filter(o => o.status === 'pending').length,
-        confirmed: data.filter(o => o.status === 'confirmed').length,
+        paid: data.filter(o => o.status === 'paid').length,
+        picking: data.filter(o => o.status === 'picking').length,
+        packed: data.filter(o => o.status === 'packed').length,
         shipped: data.filter(o => o.status === 'shipped').length,
+        in_transit: data.filter(o => o.status === 'in_transit').length,
         delivered: data.filter(o => o.status === 'delivered').length,
+        returned: data.filter(o => o.status === 'returned').length,
+        refunded: data.filter(o => o.status === 'refunded').length,
         cancelled: data.filter(o => o.status === 'cancelled').length,
       };
 
@@ -319,43 +512,100 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
-  async updateStatus(id: string, status: OrderStatus, trackingNumber?: string): Promise<ApiResponse<Order>> {
+  async transitionStatus(id: string, transition: OrderStatusTransition): Promise<ApiResponse<Order>> {
     try {
-      const updateData: any = { status };
-      
-      if (trackingNumber) {
-        updateData.tracking_number = trackingNumber;
+      const { data, error } = await supabase.rpc('transition_order_status', {
+        p_order_id: id,
+        p_from_status: transition.from,
+        p_to_status: transition.to,
+        p_actor: transition.actor,
+        p_reason: transition.reason || null,
+        p_tracking_number: transition.trackingNumber || null,
+      });
+
+      if (error) {
+        const known = Object.keys(TRANSITION_ERRORS).find(key => error.message.includes(key));
+        return {
+          success: false,
+          error: known ? TRANSITION_ERRORS[known] : error.message,
+        };
       }
 
-      const { data, error } = await supabase
-        .from(this.tableName)
-        .update(updateData)
-        .eq('id', id)
-        .select()
-        .single();
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update order status: ${error}`,
+      };
+    }
+  }
+
+  async transitionStatuses(steps: OrderStatusStep[], actor: string, reason?: string): Promise<ApiResponse<Order[]>> {
+    try {
+      const { data, error } = await supabase.rpc('transition_order_statuses', {
+        p_steps: steps.map(step => ({
+          order_id: step.orderId,
+          from_status: step.from,
+          to_status: step.to,
+        })),
+        p_actor: actor,
+        p_reason: reason || null,
+      });
 
       if (error) {
+        const known = Object.keys(TRANSITION_ERRORS).find(key => error.message.includes(key));
         return {
           success: false,
-          error: error.message,
+          error: known ? TRANSITION_ERRORS[known] : error.message,
         };
       }
 
-      if (!data) {
+      return {
+        success: true,
+        data: ((data || []) as Record<string, unknown>[]).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update order statuses: ${error}`,
+      };
+    }
+  }
+
+  async findStatusHistory(orderId: string): Promise<ApiResponse<OrderStatusChange[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('order_status_history')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
         return {
           success: false,
-          error: 'Order not found',
+          error: error.message,
         };
       }
 
       return {
         success: true,
-        data: this.transformDbRecord(data),
+        data: data.map(record => ({
+          id: record.id,
+          orderId: record.order_id,
+          fromStatus: record.from_status || undefined,
+          toStatus: record.to_status as OrderStatus,
+          actor: record.actor,
+          reason: record.reason || undefined,
+          createdAt: new Date(record.created_at),
+        })),
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to update order status: ${error}`,
+        error: `Failed to fetch order status history: ${error}`,
       };
     }
   }
@@ -390,4 +640,113 @@ export class OrderRepository implements IOrderRepository {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Every order created in [from, to), fetched page by page since the API caps
+   * how many rows a single request returns
+   */
+  async findByCreatedBetween(from: Date, to: Date): Promise<ApiResponse<Order[]>> {
+    try {
+      const pageSize = 1000;
+      const orders: Order[] = [];
+
+      for (let offset = 0; ; offset += pageSize) {
+        const { data, error } = await supabase
+          .from(this.tableName)
+          .select('*')
+          .gte('created_at', from.toISOString())
+          .lt('created_at', to.toISOString())
+          .order('created_at', { ascending: true })
+          .range(offset, offset + pageSize - 1);
+
+        if (error) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+
+        orders.push(...data.map(record => this.transformDbRecord(record)));
+        if (data.length < pageSize) break;
+      }
+
+      return {
+        success: true,
+        data: orders,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch orders: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Which of the customers placed an order, other than unpaid or cancelled ones,
+   * before the given time
+   */
+  async findCustomersWithOrdersBefore(customerIds: string[], before: Date): Promise<ApiResponse<string[]>> {
+    try {
+      const found = new Set<string>();
+      // Keep the id list short enough for the request URL
+      const chunkSize = 100;
+
+      for (let index = 0; index < customerIds.length; index += chunkSize) {
+        const { data, error } = await supabase
+          .from(this.tableName)
+          .select('customer_id')
+          .in('customer_id', customerIds.slice(index, index + chunkSize))
+          .not('status', 'in', '(pending,cancelled)')
+          .lt('created_at', before.toISOString());
+
+        if (error) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+
+        data.forEach(record => found.add(record.customer_id));
+      }
+
+      return {
+        success: true,
+        data: Array.from(found),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch customer order history: ${error}`,
+      };
+    }
+  }
+
+  async hasDeliveredOrderWithProduct(customerId: string, productId: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { count, error } = await supabase
+        .from(this.tableName)
+        .select('id', { count: 'exact', head: true })
+        .eq('customer_id', customerId)
+        .eq('status', 'delivered')
+        .contains('items', JSON.stringify([{ productId }]));
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: (count || 0) > 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to check delivered orders: ${error}`,
+      };
+    }
+  }
+}
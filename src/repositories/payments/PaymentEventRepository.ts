@@ -0,0 +1,141 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IPaymentEventRepository } from '@/interfaces';
+import type { ApiResponse, PaymentEvent } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+interface PaymentEventRecord {
+  id: string;
+  provider: string;
+  event_type: 'payment' | 'refund';
+  external_id: string;
+  status: string;
+  order_id: string | null;
+  amount: number | string | null;
+  currency: string | null;
+  payload: Record<string, unknown> | null;
+  created_at: string;
+}
+
+@injectable()
+export class PaymentEventRepository implements IPaymentEventRepository {
+  private readonly tableName = 'payment_events';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async hasEvent(provider: string, externalId: string, status: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('id')
+        .eq('provider', provider)
+        .eq('external_id', externalId)
+        .eq('status', status)
+        .limit(1);
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to look up payment event: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).length > 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to look up payment event: ${error}`,
+      };
+    }
+  }
+
+  async recordEvent(event: Omit<PaymentEvent, 'id' | 'createdAt'>): Promise<ApiResponse<PaymentEvent>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .insert({
+          provider: event.provider,
+          event_type: event.eventType,
+          external_id: event.externalId,
+          status: event.status,
+          order_id: event.orderId || null,
+          amount: event.amount ?? null,
+          currency: event.currency || null,
+          payload: event.payload || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Unique violation: the same callback was recorded by a concurrent request
+        if (error.code === '23505') {
+          return {
+            success: false,
+            error: 'Payment event already recorded',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to record payment event: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to record payment event: ${error}`,
+      };
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<ApiResponse<PaymentEvent[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch payment events: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch payment events: ${error}`,
+      };
+    }
+  }
+
+  private transformDbRecord(record: PaymentEventRecord): PaymentEvent {
+    return {
+      id: record.id,
+      provider: record.provider,
+      eventType: record.event_type,
+      externalId: record.external_id,
+      status: record.status,
+      orderId: record.order_id || undefined,
+      amount: record.amount !== null ? Number(record.amount) : undefined,
+      currency: record.currency || undefined,
+      payload: record.payload || undefined,
+      createdAt: new Date(record.created_at),
+    };
+  }
+}
@@ -2,7 +2,7 @@ import { injectable, inject } from 'tsyringe';
 import { SupabaseClient } from '@supabase/supabase-js';
 import type { IProductRepository } from '@/interfaces';
 import { ProductSearchParams } from '@/interfaces';
-import { Product, ApiResponse, ProductCategory } from '@/types';
+import { Product, ApiResponse, ProductCategory, DangerousGoodsUnNumber, PackingGroup } from '@/types';
 import { TOKENS } from '@/config/di-container';
 
 // Mock data for development
@@ -150,6 +150,36 @@ export class ProductRepository implements IProductRepository {
     }
   }
 
+  async findByIds(ids: string[]): Promise<ApiResponse<Product[]>> {
+    if (ids.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .in('id', [...new Set(ids)]);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: data.map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch products: ${error}`,
+      };
+    }
+  }
+
   async findByCategory(category: string): Promise<ApiResponse<Product[]>> {
     try {
       const { data, error } = await this.supabase
@@ -197,6 +227,10 @@ export class ProductRepository implements IProductRepository {
         description_sv: product.translations.sv.description,
         name_en: product.translations.en.name,
         description_en: product.translations.en.description,
+        shelf_location: product.shelfLocation ?? null,
+        dg_un_number: product.dangerousGoods?.unNumber ?? null,
+        dg_packing_group: product.dangerousGoods?.packingGroup ?? null,
+        dg_volume_ml: product.dangerousGoods?.volumeMl ?? null,
       };
 
       const { data, error } = await this.supabase
@@ -248,6 +282,15 @@ export class ProductRepository implements IProductRepository {
         if (product.dimensions.height) updateData.height = product.dimensions.height;
       }
       if (product.isActive !== undefined) updateData.is_active = product.isActive;
+      if (product.supplierId !== undefined) updateData.supplier_id = product.supplierId || null;
+      if (product.costPrice !== undefined) updateData.cost_price = product.costPrice;
+      if (product.shelfLocation !== undefined) updateData.shelf_location = product.shelfLocation || null;
+      // Passing dangerousGoods as undefined clears the classification
+      if ('dangerousGoods' in product) {
+        updateData.dg_un_number = product.dangerousGoods?.unNumber ?? null;
+        updateData.dg_packing_group = product.dangerousGoods?.packingGroup ?? null;
+        updateData.dg_volume_ml = product.dangerousGoods?.volumeMl ?? null;
+      }
       if (product.translations) {
         if (product.translations.sv) {
           updateData.name_sv = product.translations.sv.name;
@@ -345,6 +388,18 @@ export class ProductRepository implements IProductRepository {
           description: record.description_en,
         },
       },
+      averageRating: Number(record.average_rating || 0),
+      reviewCount: record.review_count || 0,
+      supplierId: record.supplier_id || undefined,
+      costPrice: record.cost_price != null ? Number(record.cost_price) : undefined,
+      shelfLocation: record.shelf_location || undefined,
+      dangerousGoods: record.dg_un_number
+        ? {
+          unNumber: record.dg_un_number as DangerousGoodsUnNumber,
+          packingGroup: record.dg_packing_group as PackingGroup,
+          volumeMl: Number(record.dg_volume_ml),
+        }
+        : undefined,
       createdAt: new Date(record.created_at),
       updatedAt: new Date(record.updated_at),
     };
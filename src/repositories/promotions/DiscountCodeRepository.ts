@@ -0,0 +1,319 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IDiscountCodeRepository } from '@/interfaces';
+import type { ApiResponse, DiscountCode, DiscountRedemption, DiscountType, ProductCategory } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+interface DiscountCodeRecord {
+  id: string;
+  code: string;
+  type: DiscountType;
+  value: number | string;
+  description: string | null;
+  min_order_value: number | string | null;
+  eligible_categories: string[] | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  usage_limit: number | null;
+  usage_limit_per_customer: number | null;
+  single_use: boolean;
+  usage_count: number;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Errors raised by the redeem_discount_code database function
+const REDEEM_ERRORS: Record<string, string> = {
+  DISCOUNT_INACTIVE: 'Discount code is no longer active',
+  DISCOUNT_USAGE_LIMIT: 'Discount code has reached its usage limit',
+  DISCOUNT_CUSTOMER_LIMIT: 'Discount code has already been used by this customer',
+};
+
+@injectable()
+export class DiscountCodeRepository implements IDiscountCodeRepository {
+  private readonly tableName = 'discount_codes';
+  private readonly redemptionsTable = 'discount_redemptions';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async findAll(): Promise<ApiResponse<DiscountCode[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch discount codes: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch discount codes: ${error}`,
+      };
+    }
+  }
+
+  async findByCode(code: string): Promise<ApiResponse<DiscountCode>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('code', code)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Discount code not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to fetch discount code: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch discount code: ${error}`,
+      };
+    }
+  }
+
+  async create(code: Omit<DiscountCode, 'id' | 'usageCount' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<DiscountCode>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .insert({
+          code: code.code,
+          type: code.type,
+          value: code.value,
+          description: code.description || null,
+          min_order_value: code.minOrderValue ?? null,
+          eligible_categories: code.eligibleCategories?.length ? code.eligibleCategories : null,
+          valid_from: code.validFrom?.toISOString() || null,
+          valid_until: code.validUntil?.toISOString() || null,
+          usage_limit: code.usageLimit ?? null,
+          usage_limit_per_customer: code.usageLimitPerCustomer ?? null,
+          single_use: code.singleUse,
+          active: code.active,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return {
+            success: false,
+            error: 'Discount code already exists',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to create discount code: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create discount code: ${error}`,
+      };
+    }
+  }
+
+  async update(id: string, code: Partial<DiscountCode>): Promise<ApiResponse<DiscountCode>> {
+    try {
+      const updateData: Partial<DiscountCodeRecord> = {};
+
+      if (code.description !== undefined) updateData.description = code.description || null;
+      if (code.value !== undefined) updateData.value = code.value;
+      if (code.minOrderValue !== undefined) updateData.min_order_value = code.minOrderValue;
+      if (code.eligibleCategories !== undefined) updateData.eligible_categories = code.eligibleCategories;
+      if (code.validFrom !== undefined) updateData.valid_from = code.validFrom.toISOString();
+      if (code.validUntil !== undefined) updateData.valid_until = code.validUntil.toISOString();
+      if (code.usageLimit !== undefined) updateData.usage_limit = code.usageLimit;
+      if (code.usageLimitPerCustomer !== undefined) updateData.usage_limit_per_customer = code.usageLimitPerCustomer;
+      if (code.singleUse !== undefined) updateData.single_use = code.singleUse;
+      if (code.active !== undefined) updateData.active = code.active;
+
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to update discount code: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update discount code: ${error}`,
+      };
+    }
+  }
+
+  async countRedemptions(discountCodeId: string, customerId: string): Promise<ApiResponse<number>> {
+    try {
+      const { count, error } = await this.supabase
+        .from(this.redemptionsTable)
+        .select('id', { count: 'exact', head: true })
+        .eq('discount_code_id', discountCodeId)
+        .eq('customer_id', customerId);
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to count discount redemptions: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: count || 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to count discount redemptions: ${error}`,
+      };
+    }
+  }
+
+  async redeem(
+    discountCodeId: string,
+    customerId: string | undefined,
+    amount: number
+  ): Promise<ApiResponse<DiscountRedemption>> {
+    try {
+      const { data, error } = await this.supabase.rpc('redeem_discount_code', {
+        p_code_id: discountCodeId,
+        p_order_id: null,
+        p_customer_id: customerId || null,
+        p_amount: amount,
+      });
+
+      if (error) {
+        const known = Object.keys(REDEEM_ERRORS).find(key => error.message.includes(key));
+        return {
+          success: false,
+          error: known ? REDEEM_ERRORS[known] : `Failed to redeem discount code: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          id: data as string,
+          discountCodeId,
+          customerId,
+          amount,
+          createdAt: new Date(),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to redeem discount code: ${error}`,
+      };
+    }
+  }
+
+  async assignOrder(redemptionId: string, orderId: string): Promise<ApiResponse<void>> {
+    try {
+      const { error } = await this.supabase
+        .from(this.redemptionsTable)
+        .update({ order_id: orderId })
+        .eq('id', redemptionId);
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to assign discount redemption: ${error.message}`,
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to assign discount redemption: ${error}`,
+      };
+    }
+  }
+
+  async release(redemptionId: string): Promise<ApiResponse<void>> {
+    try {
+      const { error } = await this.supabase.rpc('release_discount_redemption', {
+        p_redemption_id: redemptionId,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to release discount redemption: ${error.message}`,
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to release discount redemption: ${error}`,
+      };
+    }
+  }
+
+  private transformDbRecord(record: DiscountCodeRecord): DiscountCode {
+    return {
+      id: record.id,
+      code: record.code,
+      type: record.type,
+      value: Number(record.value),
+      description: record.description || undefined,
+      minOrderValue: record.min_order_value !== null ? Number(record.min_order_value) : undefined,
+      eligibleCategories: (record.eligible_categories || undefined) as ProductCategory[] | undefined,
+      validFrom: record.valid_from ? new Date(record.valid_from) : undefined,
+      validUntil: record.valid_until ? new Date(record.valid_until) : undefined,
+      usageLimit: record.usage_limit ?? undefined,
+      usageLimitPerCustomer: record.usage_limit_per_customer ?? undefined,
+      singleUse: record.single_use,
+      usageCount: record.usage_count,
+      active: record.active,
+      createdAt: new Date(record.created_at),
+      updatedAt: new Date(record.updated_at),
+    };
+  }
+}
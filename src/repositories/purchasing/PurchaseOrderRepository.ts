@@ -0,0 +1,333 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IPurchaseOrderRepository } from '@/interfaces';
+import type {
+  Address,
+  ApiResponse,
+  CreatePurchaseOrderData,
+  GoodsReceiptLine,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  ReorderCandidate
+} from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+// Exceptions raised by create_purchase_order and receive_purchase_order
+const PURCHASE_ORDER_ERRORS: Record<string, string> = {
+  SUPPLIER_NOT_FOUND: 'Supplier not found',
+  PURCHASE_ORDER_EMPTY: 'Purchase order has no lines',
+  PURCHASE_ORDER_NOT_FOUND: 'Purchase order not found',
+  PURCHASE_ORDER_NOT_RECEIVABLE: 'Only sent purchase orders can be received',
+  PURCHASE_ORDER_LINE_NOT_FOUND: 'Delivery contains a line that is not on the purchase order',
+  RECEIPT_EXCEEDS_ORDERED: 'Delivery contains more than is left to receive',
+};
+
+interface PurchaseOrderLineRecord {
+  id: string;
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number | string;
+  products: { name: string; sku: string } | null;
+}
+
+interface PurchaseOrderRecord {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  notes: string | null;
+  expected_at: string | null;
+  sent_at: string | null;
+  received_at: string | null;
+  created_at: string;
+  updated_at: string;
+  suppliers?: {
+    id: string;
+    name: string;
+    contact_name: string | null;
+    email: string | null;
+    phone: string | null;
+    address: Address | null;
+    lead_time_days: number | null;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+  } | null;
+  purchase_order_lines?: PurchaseOrderLineRecord[];
+}
+
+interface ReorderCandidateRecord {
+  product_id: string;
+  product_name: string;
+  sku: string;
+  supplier_id: string;
+  stock: number;
+  reorder_level: number;
+  reorder_quantity: number | null;
+  on_order: number;
+  cost_price: number | string | null;
+}
+
+@injectable()
+export class PurchaseOrderRepository implements IPurchaseOrderRepository {
+  private readonly tableName = 'purchase_orders';
+  private readonly selectWithLines =
+    '*, suppliers(id, name, contact_name, email, phone, address, lead_time_days, is_active, created_at, updated_at), purchase_order_lines(*, products(name, sku))';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async findAll(status?: PurchaseOrderStatus): Promise<ApiResponse<PurchaseOrder[]>> {
+    try {
+      let query = this.supabase
+        .from(this.tableName)
+        .select(this.selectWithLines);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch purchase orders: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch purchase orders: ${error}`,
+      };
+    }
+  }
+
+  async findById(id: string): Promise<ApiResponse<PurchaseOrder>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select(this.selectWithLines)
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Purchase order not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to fetch purchase order: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch purchase order: ${error}`,
+      };
+    }
+  }
+
+  async create(purchaseOrder: CreatePurchaseOrderData): Promise<ApiResponse<PurchaseOrder>> {
+    try {
+      const { data: purchaseOrderId, error } = await this.supabase.rpc('create_purchase_order', {
+        p_supplier_id: purchaseOrder.supplierId,
+        p_lines: purchaseOrder.lines.map(line => ({
+          productId: line.productId,
+          quantityOrdered: line.quantityOrdered,
+          unitCost: line.unitCost,
+        })),
+        p_notes: purchaseOrder.notes || null,
+        p_expected_at: purchaseOrder.expectedAt ? purchaseOrder.expectedAt.toISOString().slice(0, 10) : null,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: this.purchaseOrderError(error.message, 'Failed to create purchase order'),
+        };
+      }
+
+      return this.findById(purchaseOrderId as string);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create purchase order: ${error}`,
+      };
+    }
+  }
+
+  async updateStatus(
+    id: string,
+    status: PurchaseOrderStatus,
+    fromStatuses: PurchaseOrderStatus[]
+  ): Promise<ApiResponse<PurchaseOrder>> {
+    try {
+      const updateData: Record<string, string> = { status };
+      if (status === 'sent') {
+        updateData.sent_at = new Date().toISOString();
+      }
+
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update(updateData)
+        .eq('id', id)
+        .in('status', fromStatuses)
+        .select(this.selectWithLines)
+        .single();
+
+      if (error) {
+        // No row matched: the order is gone or has already moved on
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Purchase order status has changed, please reload it',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to update purchase order: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update purchase order: ${error}`,
+      };
+    }
+  }
+
+  async receive(id: string, lines: GoodsReceiptLine[]): Promise<ApiResponse<PurchaseOrderStatus>> {
+    try {
+      const { data, error } = await this.supabase.rpc('receive_purchase_order', {
+        p_purchase_order_id: id,
+        p_lines: lines.map(line => ({
+          lineId: line.lineId,
+          quantity: line.quantity,
+          lotCode: line.lotCode || null,
+          bestBefore: line.bestBefore ? line.bestBefore.toISOString().slice(0, 10) : null,
+        })),
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: this.purchaseOrderError(error.message, 'Failed to receive goods'),
+        };
+      }
+
+      return {
+        success: true,
+        data: data as PurchaseOrderStatus,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to receive goods: ${error}`,
+      };
+    }
+  }
+
+  async findReorderCandidates(): Promise<ApiResponse<ReorderCandidate[]>> {
+    try {
+      const { data, error } = await this.supabase.rpc('find_reorder_candidates');
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to find products to reorder: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: ((data || []) as ReorderCandidateRecord[]).map(record => ({
+          productId: record.product_id,
+          productName: record.product_name,
+          sku: record.sku,
+          supplierId: record.supplier_id,
+          stock: record.stock,
+          reorderLevel: record.reorder_level,
+          reorderQuantity: record.reorder_quantity ?? undefined,
+          onOrder: record.on_order,
+          costPrice: record.cost_price != null ? Number(record.cost_price) : undefined,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to find products to reorder: ${error}`,
+      };
+    }
+  }
+
+  private purchaseOrderError(message: string, fallback: string): string {
+    const known = Object.keys(PURCHASE_ORDER_ERRORS).find(key => message.includes(key));
+    return known ? PURCHASE_ORDER_ERRORS[known] : `${fallback}: ${message}`;
+  }
+
+  private transformDbRecord(record: PurchaseOrderRecord): PurchaseOrder {
+    const supplier = record.suppliers;
+
+    return {
+      id: record.id,
+      poNumber: record.po_number,
+      supplierId: record.supplier_id,
+      supplier: supplier ? {
+        id: supplier.id,
+        name: supplier.name,
+        contactName: supplier.contact_name || undefined,
+        email: supplier.email || undefined,
+        phone: supplier.phone || undefined,
+        address: supplier.address || undefined,
+        leadTimeDays: supplier.lead_time_days ?? undefined,
+        isActive: supplier.is_active,
+        createdAt: new Date(supplier.created_at),
+        updatedAt: new Date(supplier.updated_at),
+      } : undefined,
+      status: record.status,
+      lines: (record.purchase_order_lines || [])
+        .map(line => this.transformLineRecord(line))
+        .sort((a, b) => (a.productName || '').localeCompare(b.productName || '')),
+      notes: record.notes || undefined,
+      expectedAt: record.expected_at ? new Date(record.expected_at) : undefined,
+      sentAt: record.sent_at ? new Date(record.sent_at) : undefined,
+      receivedAt: record.received_at ? new Date(record.received_at) : undefined,
+      createdAt: new Date(record.created_at),
+      updatedAt: new Date(record.updated_at),
+    };
+  }
+
+  private transformLineRecord(record: PurchaseOrderLineRecord): PurchaseOrderLine {
+    return {
+      id: record.id,
+      productId: record.product_id,
+      productName: record.products?.name,
+      sku: record.products?.sku,
+      quantityOrdered: record.quantity_ordered,
+      quantityReceived: record.quantity_received,
+      unitCost: Number(record.unit_cost),
+    };
+  }
+}
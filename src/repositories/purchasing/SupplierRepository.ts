@@ -0,0 +1,185 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ISupplierRepository } from '@/interfaces';
+import type { Address, ApiResponse, Supplier, SupplierData } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+interface SupplierRecord {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: Address | null;
+  lead_time_days: number | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+@injectable()
+export class SupplierRepository implements ISupplierRepository {
+  private readonly tableName = 'suppliers';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async findAll(includeInactive: boolean = false): Promise<ApiResponse<Supplier[]>> {
+    try {
+      let query = this.supabase
+        .from(this.tableName)
+        .select('*');
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query.order('name', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch suppliers: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch suppliers: ${error}`,
+      };
+    }
+  }
+
+  async findById(id: string): Promise<ApiResponse<Supplier>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Supplier not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to fetch supplier: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch supplier: ${error}`,
+      };
+    }
+  }
+
+  async create(supplier: SupplierData): Promise<ApiResponse<Supplier>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .insert(this.toDbRecord(supplier))
+        .select()
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to create supplier: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create supplier: ${error}`,
+      };
+    }
+  }
+
+  async update(id: string, supplier: Partial<SupplierData>): Promise<ApiResponse<Supplier>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update(this.toDbRecord(supplier))
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Supplier not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to update supplier: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update supplier: ${error}`,
+      };
+    }
+  }
+
+  // Only the fields given are written, so a partial update leaves the rest
+  private toDbRecord(supplier: Partial<SupplierData>): Partial<SupplierRecord> {
+    const record: Partial<SupplierRecord> = {};
+
+    if (supplier.name !== undefined) record.name = supplier.name;
+    if (supplier.contactName !== undefined) record.contact_name = supplier.contactName || null;
+    if (supplier.email !== undefined) record.email = supplier.email || null;
+    if (supplier.phone !== undefined) record.phone = supplier.phone || null;
+    if (supplier.address !== undefined) record.address = supplier.address || null;
+    if (supplier.leadTimeDays !== undefined) record.lead_time_days = supplier.leadTimeDays;
+    if (supplier.notes !== undefined) record.notes = supplier.notes || null;
+    if (supplier.isActive !== undefined) record.is_active = supplier.isActive;
+
+    return record;
+  }
+
+  private transformDbRecord(record: SupplierRecord): Supplier {
+    return {
+      id: record.id,
+      name: record.name,
+      contactName: record.contact_name || undefined,
+      email: record.email || undefined,
+      phone: record.phone || undefined,
+      address: record.address || undefined,
+      leadTimeDays: record.lead_time_days ?? undefined,
+      notes: record.notes || undefined,
+      isActive: record.is_active,
+      createdAt: new Date(record.created_at),
+      updatedAt: new Date(record.updated_at),
+    };
+  }
+}
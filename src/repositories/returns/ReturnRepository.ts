@@ -0,0 +1,287 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IReturnRepository } from '@/interfaces';
+import type { ApiResponse, ReturnItem, ReturnItemCondition, ReturnRequest, ReturnStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+interface ReturnItemRecord {
+  id: string;
+  return_id: string;
+  order_item_id: string | null;
+  product_id: string;
+  quantity: number;
+  reason: string | null;
+  condition: ReturnItemCondition | null;
+}
+
+interface ReturnRecord {
+  id: string;
+  order_id: string;
+  customer_id: string;
+  status: ReturnStatus;
+  reason: string;
+  refund_amount: number | string;
+  refund_method: string | null;
+  admin_notes: string | null;
+  tracking_number: string | null;
+  created_at: string;
+  updated_at: string;
+  approved_at: string | null;
+  received_at: string | null;
+  refunded_at: string | null;
+  return_items?: ReturnItemRecord[];
+}
+
+@injectable()
+export class ReturnRepository implements IReturnRepository {
+  private readonly tableName = 'returns';
+  private readonly itemsTable = 'return_items';
+  private readonly selectWithItems = '*, return_items(*)';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async findById(id: string): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select(this.selectWithItems)
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Return not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to fetch return: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch return: ${error}`,
+      };
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<ApiResponse<ReturnRequest[]>> {
+    return this.findWhere('order_id', orderId);
+  }
+
+  async findByCustomerId(customerId: string): Promise<ApiResponse<ReturnRequest[]>> {
+    return this.findWhere('customer_id', customerId);
+  }
+
+  async findByStatus(status?: ReturnStatus): Promise<ApiResponse<ReturnRequest[]>> {
+    if (status) {
+      return this.findWhere('status', status);
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select(this.selectWithItems)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch returns: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch returns: ${error}`,
+      };
+    }
+  }
+
+  async create(returnRequest: Omit<ReturnRequest, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .insert({
+          order_id: returnRequest.orderId,
+          customer_id: returnRequest.customerId,
+          status: returnRequest.status,
+          reason: returnRequest.reason,
+          refund_amount: returnRequest.refundAmount,
+          refund_method: returnRequest.refundMethod || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to create return: ${error.message}`,
+        };
+      }
+
+      const { error: itemsError } = await this.supabase
+        .from(this.itemsTable)
+        .insert(returnRequest.items.map(item => ({
+          return_id: data.id,
+          product_id: item.productId,
+          quantity: item.quantity,
+          reason: item.reason || null,
+          condition: item.condition || null,
+        })));
+
+      if (itemsError) {
+        // Don't leave a return without items behind
+        await this.supabase.from(this.tableName).delete().eq('id', data.id);
+        return {
+          success: false,
+          error: `Failed to create return items: ${itemsError.message}`,
+        };
+      }
+
+      return this.findById(data.id);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create return: ${error}`,
+      };
+    }
+  }
+
+  async update(id: string, returnRequest: Partial<ReturnRequest>): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      const updateData: Partial<ReturnRecord> = {};
+
+      if (returnRequest.status !== undefined) updateData.status = returnRequest.status;
+      if (returnRequest.refundAmount !== undefined) updateData.refund_amount = returnRequest.refundAmount;
+      if (returnRequest.refundMethod !== undefined) updateData.refund_method = returnRequest.refundMethod;
+      if (returnRequest.adminNotes !== undefined) updateData.admin_notes = returnRequest.adminNotes;
+      if (returnRequest.trackingNumber !== undefined) updateData.tracking_number = returnRequest.trackingNumber;
+      if (returnRequest.approvedAt !== undefined) updateData.approved_at = returnRequest.approvedAt.toISOString();
+      if (returnRequest.receivedAt !== undefined) updateData.received_at = returnRequest.receivedAt.toISOString();
+      if (returnRequest.refundedAt !== undefined) updateData.refunded_at = returnRequest.refundedAt.toISOString();
+
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update(updateData)
+        .eq('id', id)
+        .select(this.selectWithItems)
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to update return: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update return: ${error}`,
+      };
+    }
+  }
+
+  async isOrderEligible(orderId: string, daysLimit: number): Promise<ApiResponse<boolean>> {
+    try {
+      const { data, error } = await this.supabase.rpc('is_order_eligible_for_return', {
+        p_order_id: orderId,
+        p_days_limit: daysLimit,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to check return eligibility: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: data === true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to check return eligibility: ${error}`,
+      };
+    }
+  }
+
+  private async findWhere(column: string, value: string): Promise<ApiResponse<ReturnRequest[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select(this.selectWithItems)
+        .eq(column, value)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch returns: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch returns: ${error}`,
+      };
+    }
+  }
+
+  private transformDbRecord(record: ReturnRecord): ReturnRequest {
+    return {
+      id: record.id,
+      orderId: record.order_id,
+      customerId: record.customer_id,
+      status: record.status,
+      reason: record.reason,
+      refundAmount: Number(record.refund_amount),
+      refundMethod: record.refund_method || undefined,
+      adminNotes: record.admin_notes || undefined,
+      trackingNumber: record.tracking_number || undefined,
+      items: (record.return_items || []).map(item => this.transformItemRecord(item)),
+      createdAt: new Date(record.created_at),
+      updatedAt: new Date(record.updated_at),
+      approvedAt: record.approved_at ? new Date(record.approved_at) : undefined,
+      receivedAt: record.received_at ? new Date(record.received_at) : undefined,
+      refundedAt: record.refunded_at ? new Date(record.refunded_at) : undefined,
+    };
+  }
+
+  private transformItemRecord(record: ReturnItemRecord): ReturnItem {
+    return {
+      id: record.id,
+      productId: record.product_id,
+      quantity: record.quantity,
+      reason: record.reason || undefined,
+      condition: record.condition || undefined,
+    };
+  }
+}
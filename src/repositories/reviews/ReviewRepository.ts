@@ -0,0 +1,319 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IReviewRepository } from '@/interfaces';
+import type { ApiResponse, Review, ReviewStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+interface ReviewRecord {
+  id: string;
+  product_id: string;
+  customer_id: string;
+  author_name: string;
+  rating: number;
+  title: string;
+  comment: string;
+  verified: boolean;
+  status: ReviewStatus;
+  moderation_note: string | null;
+  helpful_count: number;
+  created_at: string;
+  updated_at: string;
+  moderated_at: string | null;
+}
+
+@injectable()
+export class ReviewRepository implements IReviewRepository {
+  private readonly tableName = 'reviews';
+  private readonly votesTable = 'review_helpful_votes';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async findById(id: string): Promise<ApiResponse<Review>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Review not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to fetch review: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch review: ${error}`,
+      };
+    }
+  }
+
+  async findByProduct(productId: string, status: ReviewStatus, limit = 50): Promise<ApiResponse<Review[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('product_id', productId)
+        .eq('status', status)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch reviews: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch reviews: ${error}`,
+      };
+    }
+  }
+
+  async findByStatus(status?: ReviewStatus): Promise<ApiResponse<Review[]>> {
+    try {
+      let query = this.supabase
+        .from(this.tableName)
+        .select('*');
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch reviews: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch reviews: ${error}`,
+      };
+    }
+  }
+
+  async findByProductAndCustomer(productId: string, customerId: string): Promise<ApiResponse<Review | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('product_id', productId)
+        .eq('customer_id', customerId)
+        .maybeSingle();
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch review: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: data ? this.transformDbRecord(data) : null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch review: ${error}`,
+      };
+    }
+  }
+
+  async getRatingDistribution(productId: string): Promise<ApiResponse<Record<number, number>>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('rating')
+        .eq('product_id', productId)
+        .eq('status', 'approved');
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch ratings: ${error.message}`,
+        };
+      }
+
+      const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+      (data || []).forEach(record => {
+        distribution[record.rating] = (distribution[record.rating] || 0) + 1;
+      });
+
+      return {
+        success: true,
+        data: distribution,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch ratings: ${error}`,
+      };
+    }
+  }
+
+  async create(review: Omit<Review, 'id' | 'status' | 'helpful' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<Review>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .insert({
+          product_id: review.productId,
+          customer_id: review.customerId,
+          author_name: review.authorName,
+          rating: review.rating,
+          title: review.title,
+          comment: review.comment,
+          verified: review.verified,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Unique (product_id, customer_id)
+        if (error.code === '23505') {
+          return {
+            success: false,
+            error: 'You have already reviewed this product',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to create review: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create review: ${error}`,
+      };
+    }
+  }
+
+  async updateStatus(id: string, status: ReviewStatus, moderationNote?: string): Promise<ApiResponse<Review>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update({
+          status,
+          moderation_note: moderationNote || null,
+          moderated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Review not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to update review: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update review: ${error}`,
+      };
+    }
+  }
+
+  async addHelpfulVote(reviewId: string, voterKey: string): Promise<ApiResponse<boolean>> {
+    try {
+      const { error } = await this.supabase
+        .from(this.votesTable)
+        .insert({
+          review_id: reviewId,
+          voter_key: voterKey,
+        });
+
+      if (error) {
+        // Unique (review_id, voter_key): this voter has already voted
+        if (error.code === '23505') {
+          return {
+            success: true,
+            data: false,
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to record helpful vote: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to record helpful vote: ${error}`,
+      };
+    }
+  }
+
+  private transformDbRecord(record: ReviewRecord): Review {
+    return {
+      id: record.id,
+      productId: record.product_id,
+      customerId: record.customer_id,
+      authorName: record.author_name,
+      rating: record.rating,
+      title: record.title,
+      comment: record.comment,
+      verified: record.verified,
+      status: record.status,
+      moderationNote: record.moderation_note || undefined,
+      helpful: record.helpful_count,
+      createdAt: new Date(record.created_at),
+      updatedAt: new Date(record.updated_at),
+      moderatedAt: record.moderated_at ? new Date(record.moderated_at) : undefined,
+    };
+  }
+}
@@ -0,0 +1,259 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IShipmentRepository } from '@/interfaces';
+import type { ApiResponse, OrderShipment, ShipmentItem, ShipmentStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+// Exceptions raised by create_shipment
+const CREATE_ERRORS: Record<string, string> = {
+  ORDER_NOT_FOUND: 'Order not found',
+  SHIPMENT_ITEM_NOT_IN_ORDER: 'Shipment contains a product that is not in the order',
+  SHIPMENT_QUANTITY_EXCEEDED: 'Shipment contains more items than are left to send',
+};
+
+interface ShipmentItemRecord {
+  id: string;
+  shipment_id: string;
+  product_id: string;
+  product_name: string;
+  quantity: number;
+}
+
+interface ShipmentRecord {
+  id: string;
+  order_id: string;
+  status: ShipmentStatus;
+  carrier: string | null;
+  tracking_number: string | null;
+  label_url: string | null;
+  shipped_at: string | null;
+  delivered_at: string | null;
+  tracked_at: string | null;
+  created_at: string;
+  updated_at: string;
+  shipment_items?: ShipmentItemRecord[];
+}
+
+@injectable()
+export class ShipmentRepository implements IShipmentRepository {
+  private readonly tableName = 'shipments';
+  private readonly selectWithItems = '*, shipment_items(*)';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async findById(id: string): Promise<ApiResponse<OrderShipment>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select(this.selectWithItems)
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Shipment not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to fetch shipment: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch shipment: ${error}`,
+      };
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<ApiResponse<OrderShipment[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select(this.selectWithItems)
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch shipments: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch shipments: ${error}`,
+      };
+    }
+  }
+
+  async findByTrackingNumber(trackingNumber: string): Promise<ApiResponse<OrderShipment>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select(this.selectWithItems)
+        .eq('tracking_number', trackingNumber)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Shipment not found',
+          };
+        }
+        return {
+          success: false,
+          error: `Failed to fetch shipment: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch shipment: ${error}`,
+      };
+    }
+  }
+
+  async findAwaitingTracking(limit: number): Promise<ApiResponse<OrderShipment[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select(this.selectWithItems)
+        .in('status', ['shipped', 'in_transit'])
+        .not('tracking_number', 'is', null)
+        .order('tracked_at', { ascending: true, nullsFirst: true })
+        .limit(limit);
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch shipments: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch shipments: ${error}`,
+      };
+    }
+  }
+
+  async create(
+    orderId: string,
+    items: Array<Pick<ShipmentItem, 'productId' | 'quantity'>>,
+    carrier?: string
+  ): Promise<ApiResponse<OrderShipment>> {
+    try {
+      const { data, error } = await this.supabase.rpc('create_shipment', {
+        p_order_id: orderId,
+        p_items: items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        p_carrier: carrier || null,
+      });
+
+      if (error) {
+        const known = Object.keys(CREATE_ERRORS).find(key => error.message.includes(key));
+        return {
+          success: false,
+          error: known ? CREATE_ERRORS[known] : `Failed to create shipment: ${error.message}`,
+        };
+      }
+
+      return this.findById(data as string);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create shipment: ${error}`,
+      };
+    }
+  }
+
+  async update(id: string, shipment: Partial<OrderShipment>): Promise<ApiResponse<OrderShipment>> {
+    try {
+      const updateData: Partial<ShipmentRecord> = {};
+
+      if (shipment.status !== undefined) updateData.status = shipment.status;
+      if (shipment.carrier !== undefined) updateData.carrier = shipment.carrier;
+      if (shipment.trackingNumber !== undefined) updateData.tracking_number = shipment.trackingNumber;
+      if (shipment.labelUrl !== undefined) updateData.label_url = shipment.labelUrl;
+      if (shipment.shippedAt !== undefined) updateData.shipped_at = shipment.shippedAt.toISOString();
+      if (shipment.deliveredAt !== undefined) updateData.delivered_at = shipment.deliveredAt.toISOString();
+      if (shipment.trackedAt !== undefined) updateData.tracked_at = shipment.trackedAt.toISOString();
+
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update(updateData)
+        .eq('id', id)
+        .select(this.selectWithItems)
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to update shipment: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.transformDbRecord(data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update shipment: ${error}`,
+      };
+    }
+  }
+
+  private transformDbRecord(record: ShipmentRecord): OrderShipment {
+    return {
+      id: record.id,
+      orderId: record.order_id,
+      status: record.status,
+      items: (record.shipment_items || []).map(item => this.transformItemRecord(item)),
+      carrier: record.carrier || undefined,
+      trackingNumber: record.tracking_number || undefined,
+      labelUrl: record.label_url || undefined,
+      shippedAt: record.shipped_at ? new Date(record.shipped_at) : undefined,
+      deliveredAt: record.delivered_at ? new Date(record.delivered_at) : undefined,
+      trackedAt: record.tracked_at ? new Date(record.tracked_at) : undefined,
+      createdAt: new Date(record.created_at),
+      updatedAt: new Date(record.updated_at),
+    };
+  }
+
+  private transformItemRecord(record: ShipmentItemRecord): ShipmentItem {
+    return {
+      productId: record.product_id,
+      productName: record.product_name,
+      quantity: record.quantity,
+    };
+  }
+}
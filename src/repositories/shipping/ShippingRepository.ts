@@ -85,6 +85,7 @@ export class ShippingRepository implements IShippingRepository {
       colorScheme: record.color_scheme,
       isEcoFriendly: record.is_eco_friendly,
       zoneBased: record.zone_based,
+      deliveryType: record.delivery_type || 'home',
     };
   }
 
@@ -92,9 +93,11 @@ export class ShippingRepository implements IShippingRepository {
     return {
       id: record.id,
       orderId: record.order_id,
+      shipmentId: record.shipment_id || undefined,
       trackingNumber: record.tracking_number,
       carrierCode: record.carrier_code,
       labelPdfUrl: record.label_pdf_url,
+      labelZplUrl: record.label_zpl_url || undefined,
       barcodeData: record.barcode_data,
       qrCodeData: record.qr_code_data,
       generatedAt: new Date(record.generated_at),
@@ -415,9 +418,11 @@ export class ShippingRepository implements IShippingRepository {
     try {
       const labelData = {
         order_id: label.orderId,
+        shipment_id: label.shipmentId || null,
         tracking_number: label.trackingNumber,
         carrier_code: label.carrierCode,
         label_pdf_url: label.labelPdfUrl,
+        label_zpl_url: label.labelZplUrl || null,
         barcode_data: label.barcodeData,
         qr_code_data: label.qrCodeData,
       };
@@ -453,6 +458,8 @@ export class ShippingRepository implements IShippingRepository {
         .from('shipping_labels')
         .select('*')
         .eq('order_id', orderId)
+        .order('generated_at', { ascending: false })
+        .limit(1)
         .single();
 
       if (error) {
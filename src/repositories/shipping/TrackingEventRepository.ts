@@ -0,0 +1,126 @@
+import { injectable, inject } from 'tsyringe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ITrackingEventRepository } from '@/interfaces';
+import type { ApiResponse, CarrierTrackingEvent, OrderShipment, ShipmentTrackingEvent, TrackingStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+interface TrackingEventRecord {
+  id: string;
+  shipment_id: string;
+  order_id: string;
+  carrier: string;
+  tracking_number: string;
+  external_id: string;
+  status: TrackingStatus;
+  carrier_status: string;
+  description: string;
+  location: string | null;
+  occurred_at: string;
+  created_at: string;
+}
+
+@injectable()
+export class TrackingEventRepository implements ITrackingEventRepository {
+  private readonly tableName = 'tracking_events';
+
+  constructor(
+    @inject(TOKENS.SupabaseClient) private readonly supabase: SupabaseClient
+  ) {}
+
+  async saveEvents(shipment: OrderShipment, events: CarrierTrackingEvent[]): Promise<ApiResponse<ShipmentTrackingEvent[]>> {
+    try {
+      if (events.length === 0) {
+        return {
+          success: true,
+          data: [],
+        };
+      }
+
+      // Events already stored are skipped, so only new ones come back
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .upsert(events.map(event => ({
+          shipment_id: shipment.id,
+          order_id: shipment.orderId,
+          carrier: event.carrierCode,
+          tracking_number: event.trackingNumber,
+          external_id: event.externalId,
+          status: event.status,
+          carrier_status: event.carrierStatus,
+          description: event.description,
+          location: event.location || null,
+          occurred_at: event.occurredAt.toISOString(),
+        })), { onConflict: 'carrier,tracking_number,external_id', ignoreDuplicates: true })
+        .select();
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to save tracking events: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to save tracking events: ${error}`,
+      };
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<ApiResponse<ShipmentTrackingEvent[]>> {
+    return this.findBy('order_id', orderId);
+  }
+
+  async findByTrackingNumber(trackingNumber: string): Promise<ApiResponse<ShipmentTrackingEvent[]>> {
+    return this.findBy('tracking_number', trackingNumber);
+  }
+
+  private async findBy(column: 'order_id' | 'tracking_number', value: string): Promise<ApiResponse<ShipmentTrackingEvent[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq(column, value)
+        .order('occurred_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to fetch tracking events: ${error.message}`,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(record => this.transformDbRecord(record)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch tracking events: ${error}`,
+      };
+    }
+  }
+
+  private transformDbRecord(record: TrackingEventRecord): ShipmentTrackingEvent {
+    return {
+      id: record.id,
+      shipmentId: record.shipment_id,
+      orderId: record.order_id,
+      carrierCode: record.carrier,
+      trackingNumber: record.tracking_number,
+      externalId: record.external_id,
+      status: record.status,
+      carrierStatus: record.carrier_status,
+      description: record.description,
+      location: record.location || undefined,
+      occurredAt: new Date(record.occurred_at),
+      createdAt: new Date(record.created_at),
+    };
+  }
+}
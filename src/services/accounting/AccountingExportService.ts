@@ -0,0 +1,410 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IAccountingExportService,
+  IInvoiceRepository,
+  IOrderRepository,
+  ITaxCalculator,
+  AccountingPeriod,
+  SieExport
+} from '@/interfaces';
+import type {
+  ApiResponse,
+  Order,
+  OrderStatus,
+  PaymentMethod,
+  VatRateBreakdown,
+  VatReturn,
+  VatReturnBox,
+  VatScheme
+} from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+import { ACCOUNTS, AccountMapping, CHART_OF_ACCOUNTS_TYPE } from '@/config/accounting';
+import { DateHelper } from '@/utils/helpers';
+
+// Orders that were never paid for are not sales
+const UNBOOKED_STATUSES: OrderStatus[] = ['pending', 'cancelled'];
+
+// Code page 437 bytes for the non-ASCII characters likely in Swedish texts
+const PC8_CHARACTERS: Record<string, number> = {
+  'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'ä': 0x84, 'à': 0x85, 'å': 0x86, 'ç': 0x87,
+  'ê': 0x88, 'ë': 0x89, 'è': 0x8a, 'ï': 0x8b, 'î': 0x8c, 'ì': 0x8d, 'Ä': 0x8e, 'Å': 0x8f,
+  'É': 0x90, 'æ': 0x91, 'Æ': 0x92, 'ô': 0x93, 'ö': 0x94, 'ò': 0x95, 'û': 0x96, 'ù': 0x97,
+  'ÿ': 0x98, 'Ö': 0x99, 'Ü': 0x9a, 'á': 0xa0, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ñ': 0xa4,
+  'Ñ': 0xa5,
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * A sale or refund as it is booked: VAT-inclusive amounts, negative for refunds
+ */
+interface Booking {
+  date: Date;
+  text: string;
+  orderId: string;
+  scheme: VatScheme;
+  paymentMethod: PaymentMethod;
+  breakdown: VatRateBreakdown[];
+  shipping: number;
+  total: number;
+}
+
+interface Voucher {
+  date: Date;
+  text: string;
+  // Debits positive, credits negative
+  transactions: Map<AccountMapping, number>;
+}
+
+/**
+ * Accounting Export Service
+ *
+ * Sales are booked from the orders placed in the period and refunds from the
+ * credit notes issued in it. Both are booked per VAT rate as stored when they
+ * were made, so the export agrees with the receipts customers were given.
+ */
+@injectable()
+export class AccountingExportService implements IAccountingExportService {
+  constructor(
+    @inject(TOKENS.IOrderRepository) private readonly orderRepository: IOrderRepository,
+    @inject(TOKENS.IInvoiceRepository) private readonly invoiceRepository: IInvoiceRepository,
+    @inject(TOKENS.TaxCalculator) private readonly taxCalculator: ITaxCalculator
+  ) {}
+
+  async exportSie(period: AccountingPeriod): Promise<ApiResponse<SieExport>> {
+    try {
+      const bookingsResult = await this.getBookings(period);
+      if (!bookingsResult.success) {
+        return {
+          success: false,
+          error: bookingsResult.error,
+        };
+      }
+
+      const vouchers = bookingsResult.data!.map(booking => this.buildVoucher(booking));
+
+      return {
+        success: true,
+        data: {
+          filename: `${config.app.name.toLowerCase().replace(/\s+/g, '-')}-${period.from}-${period.to}.se`,
+          content: this.encodePc8(this.writeSie(period, vouchers)),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to export SIE file: ${error}`,
+      };
+    }
+  }
+
+  async getVatReturn(period: AccountingPeriod): Promise<ApiResponse<VatReturn>> {
+    try {
+      const bookingsResult = await this.getBookings(period);
+      if (!bookingsResult.success) {
+        return {
+          success: false,
+          error: bookingsResult.error,
+        };
+      }
+
+      const boxes: Record<VatReturnBox, number> = { '05': 0, '10': 0, '11': 0, '12': 0, '36': 0 };
+      const domesticVatBoxes: Record<number, VatReturnBox> = { 25: '10', 12: '11', 6: '12' };
+      const oss = new Map<string, { country: string; rate: number; net: number; vat: number }>();
+      const orderCountries = new Map<string, string>();
+
+      for (const booking of bookingsResult.data!) {
+        if (booking.scheme === 'export') {
+          boxes['36'] += booking.breakdown.reduce((sum, line) => sum + line.net, 0);
+          continue;
+        }
+
+        if (booking.scheme === 'domestic') {
+          for (const line of booking.breakdown) {
+            const vatBox = domesticVatBoxes[Math.round(line.rate * 100)];
+            if (!vatBox && line.vat !== 0) {
+              throw new Error(`No VAT return box for ${line.rate * 100} % VAT`);
+            }
+            boxes['05'] += line.net;
+            if (vatBox) boxes[vatBox] += line.vat;
+          }
+          continue;
+        }
+
+        // OSS sales are declared per country of consumption
+        const country = await this.getOrderCountry(booking.orderId, orderCountries);
+        for (const line of booking.breakdown) {
+          const key = `${country}:${line.rate}`;
+          const summary = oss.get(key) || { country, rate: line.rate, net: 0, vat: 0 };
+          summary.net += line.net;
+          summary.vat += line.vat;
+          oss.set(key, summary);
+        }
+      }
+
+      for (const box of Object.keys(boxes) as VatReturnBox[]) {
+        boxes[box] = round(boxes[box]);
+      }
+
+      return {
+        success: true,
+        data: {
+          from: period.from,
+          to: period.to,
+          boxes,
+          oss: Array.from(oss.values())
+            .map(summary => ({ ...summary, net: round(summary.net), vat: round(summary.vat) }))
+            .sort((a, b) => a.country.localeCompare(b.country) || b.rate - a.rate),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to calculate VAT return: ${error}`,
+      };
+    }
+  }
+
+  private async getBookings(period: AccountingPeriod): Promise<ApiResponse<Booking[]>> {
+    const range = this.getRange(period);
+    if (!range) {
+      return {
+        success: false,
+        error: 'Invalid period; use YYYY-MM-DD dates with from on or before to',
+      };
+    }
+
+    const [ordersResult, creditNotesResult] = await Promise.all([
+      this.orderRepository.findByCreatedBetween(range.start, range.end),
+      this.invoiceRepository.findIssuedBetween(range.start, range.end, 'credit_note'),
+    ]);
+
+    if (!ordersResult.success) {
+      return {
+        success: false,
+        error: ordersResult.error,
+      };
+    }
+    if (!creditNotesResult.success) {
+      return {
+        success: false,
+        error: creditNotesResult.error,
+      };
+    }
+
+    const sales: Booking[] = (ordersResult.data || [])
+      .filter(order => !UNBOOKED_STATUSES.includes(order.status))
+      .map(order => ({
+        date: order.createdAt,
+        text: `Order ${order.orderNumber}`,
+        orderId: order.id,
+        scheme: order.vatScheme || 'domestic',
+        paymentMethod: order.paymentMethod,
+        breakdown: this.getOrderBreakdown(order),
+        shipping: order.shipping,
+        total: order.total,
+      }));
+
+    const refunds: Booking[] = (creditNotesResult.data || []).map(creditNote => ({
+      date: creditNote.issuedAt,
+      text: `Kreditfaktura ${creditNote.invoiceNumber}`,
+      orderId: creditNote.orderId,
+      scheme: creditNote.vatScheme,
+      paymentMethod: creditNote.paymentMethod,
+      breakdown: creditNote.vatBreakdown,
+      shipping: 0,
+      total: creditNote.total,
+    }));
+
+    return {
+      success: true,
+      data: [...sales, ...refunds].sort((a, b) => a.date.getTime() - b.date.getTime()),
+    };
+  }
+
+  /**
+   * Books the payment on the provider's clearing account against sales, shipping
+   * income and output VAT. Shipping is taxed at the rates of the goods, so its
+   * net amount is taken out of each rate in proportion.
+   */
+  private buildVoucher(booking: Booking): Voucher {
+    const transactions = new Map<AccountMapping, number>();
+    const post = (account: AccountMapping, amount: number) => {
+      transactions.set(account, round((transactions.get(account) || 0) + amount));
+    };
+
+    post(ACCOUNTS.clearing[booking.paymentMethod], booking.total);
+
+    const shippingNetByLine = booking.breakdown.map(line =>
+      booking.total !== 0 ? (booking.shipping * line.gross / booking.total) / (1 + line.rate) : 0
+    );
+    const shippingNet = round(shippingNetByLine.reduce((sum, net) => sum + net, 0));
+    const goodsNet = booking.breakdown.map((line, index) => round(line.net - shippingNetByLine[index]));
+
+    // Rounding leftovers go to the first (highest) rate so the voucher balances
+    if (goodsNet.length > 0) {
+      const net = booking.breakdown.reduce((sum, line) => sum + line.net, 0);
+      goodsNet[0] = round(goodsNet[0] + net - shippingNet - goodsNet.reduce((sum, amount) => sum + amount, 0));
+    }
+
+    if (shippingNet !== 0) {
+      post(ACCOUNTS.shipping, -shippingNet);
+    }
+
+    booking.breakdown.forEach((line, index) => {
+      post(this.getSalesAccount(booking.scheme, line.rate), -goodsNet[index]);
+      if (line.vat !== 0) {
+        post(this.getVatAccount(booking.scheme, line.rate), -line.vat);
+      }
+    });
+
+    for (const [account, amount] of transactions) {
+      if (amount === 0) transactions.delete(account);
+    }
+
+    return {
+      date: booking.date,
+      text: booking.text,
+      transactions,
+    };
+  }
+
+  private getSalesAccount(scheme: VatScheme, rate: number): AccountMapping {
+    if (scheme === 'export') return ACCOUNTS.exportSales;
+    if (scheme === 'oss') return ACCOUNTS.ossSales;
+
+    const account = ACCOUNTS.domesticSales[Math.round(rate * 100)];
+    if (!account) {
+      throw new Error(`No sales account for ${rate * 100} % VAT`);
+    }
+    return account;
+  }
+
+  private getVatAccount(scheme: VatScheme, rate: number): AccountMapping {
+    if (scheme === 'oss') return ACCOUNTS.ossVat;
+
+    const account = ACCOUNTS.outputVat[Math.round(rate * 100)];
+    if (scheme === 'export' || !account) {
+      throw new Error(`No VAT account for ${rate * 100} % VAT on ${scheme} sales`);
+    }
+    return account;
+  }
+
+  private writeSie(period: AccountingPeriod, vouchers: Voucher[]): string {
+    const { legalName, orgNumber } = config.company;
+    const fiscalYear = this.getFiscalYear(period.from);
+
+    const accounts = new Map<string, AccountMapping>();
+    for (const voucher of vouchers) {
+      for (const account of voucher.transactions.keys()) {
+        accounts.set(account.number, account);
+      }
+    }
+
+    const lines = [
+      '#FLAGGA 0',
+      '#FORMAT PC8',
+      '#SIETYP 4',
+      `#PROGRAM ${this.quote(config.app.name)} ${this.quote(config.app.version)}`,
+      `#GEN ${this.formatDate(new Date())}`,
+      `#FNAMN ${this.quote(legalName)}`,
+      ...(orgNumber ? [`#ORGNR ${orgNumber}`] : []),
+      `#RAR 0 ${fiscalYear.start} ${fiscalYear.end}`,
+      `#KPTYP ${CHART_OF_ACCOUNTS_TYPE}`,
+      '#VALUTA SEK',
+      ...Array.from(accounts.values())
+        .sort((a, b) => a.number.localeCompare(b.number))
+        .map(account => `#KONTO ${account.number} ${this.quote(account.name)}`),
+    ];
+
+    // Left unnumbered so the accounting program numbers them on import
+    for (const voucher of vouchers) {
+      lines.push(
+        `#VER ${config.accounting.verificationSeries} "" ${this.formatDate(voucher.date)} ${this.quote(voucher.text)}`,
+        '{'
+      );
+      for (const [account, amount] of voucher.transactions) {
+        lines.push(`   #TRANS ${account.number} {} ${amount.toFixed(2)}`);
+      }
+      lines.push('}');
+    }
+
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * Orders placed before the breakdown was stored were all charged Swedish VAT
+   */
+  private getOrderBreakdown(order: Order): VatRateBreakdown[] {
+    if (order.vatBreakdown && order.vatBreakdown.length > 0) {
+      return order.vatBreakdown;
+    }
+
+    return [{
+      rate: this.taxCalculator.getTaxRate('SE'),
+      net: round(order.total - order.tax),
+      vat: order.tax,
+      gross: order.total,
+    }];
+  }
+
+  private async getOrderCountry(orderId: string, cache: Map<string, string>): Promise<string> {
+    if (!cache.has(orderId)) {
+      const orderResult = await this.orderRepository.findById(orderId);
+      if (!orderResult.success || !orderResult.data) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      cache.set(orderId, this.taxCalculator.normalizeCountry(orderResult.data.shippingAddress.country));
+    }
+    return cache.get(orderId)!;
+  }
+
+  /**
+   * The UTC instants the period starts and ends at, from midnight Swedish time
+   */
+  private getRange(period: AccountingPeriod): { start: Date; end: Date } | null {
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!datePattern.test(period.from) || !datePattern.test(period.to) || period.from > period.to) {
+      return null;
+    }
+    if (!DateHelper.isValidDate(period.from) || !DateHelper.isValidDate(period.to)) {
+      return null;
+    }
+
+    return {
+      start: DateHelper.startOfSwedishDay(period.from),
+      end: DateHelper.startOfSwedishDay(DateHelper.addCalendarDays(period.to, 1)),
+    };
+  }
+
+  private getFiscalYear(from: string): { start: string; end: string } {
+    const startMonth = config.accounting.fiscalYearStartMonth;
+    const [year, month] = from.split('-').map(Number);
+    const startYear = month >= startMonth ? year : year - 1;
+
+    const start = new Date(Date.UTC(startYear, startMonth - 1, 1));
+    const end = new Date(Date.UTC(startYear + 1, startMonth - 1, 0));
+
+    return {
+      start: start.toISOString().slice(0, 10).replace(/-/g, ''),
+      end: end.toISOString().slice(0, 10).replace(/-/g, ''),
+    };
+  }
+
+  private formatDate(date: Date): string {
+    return DateHelper.toSwedishDate(date).replace(/-/g, '');
+  }
+
+  private quote(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+
+  private encodePc8(text: string): Uint8Array {
+    return Uint8Array.from(Array.from(text), character => {
+      const code = character.charCodeAt(0);
+      if (code < 0x80) return code;
+      return PC8_CHARACTERS[character] ?? 0x3f; // '?'
+    });
+  }
+}
@@ -0,0 +1,259 @@
+import { injectable, inject } from 'tsyringe';
+import type { IAnalyticsService, IOrderRepository, IProductRepository } from '@/interfaces';
+import type {
+  AnalyticsRange,
+  ApiResponse,
+  Order,
+  OrderStatus,
+  PeriodComparison,
+  SalesAnalytics
+} from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { DateHelper } from '@/utils/helpers';
+
+// Orders that were never paid for don't count as sales
+const EXCLUDED_STATUSES: OrderStatus[] = ['pending', 'cancelled'];
+
+const RANGE_DAYS: Record<AnalyticsRange, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+const TOP_PRODUCT_COUNT = 5;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Analytics Service
+ *
+ * A range is the last 7, 30 or 365 days up to and including today, in Swedish
+ * time, and is compared with the same number of days just before it. Revenue
+ * is what customers paid, VAT and shipping included; product and category
+ * figures are the item totals before any order discount.
+ */
+@injectable()
+export class AnalyticsService implements IAnalyticsService {
+  constructor(
+    @inject(TOKENS.IOrderRepository) private readonly orderRepository: IOrderRepository,
+    @inject(TOKENS.IProductRepository) private readonly productRepository: IProductRepository
+  ) {}
+
+  async getSalesAnalytics(range: AnalyticsRange): Promise<ApiResponse<SalesAnalytics>> {
+    try {
+      const days = RANGE_DAYS[range];
+      const to = DateHelper.toSwedishDate(new Date());
+      const from = DateHelper.addCalendarDays(to, -(days - 1));
+      const previousFrom = DateHelper.addCalendarDays(from, -days);
+
+      const ordersResult = await this.orderRepository.findByCreatedBetween(
+        DateHelper.startOfSwedishDay(previousFrom),
+        DateHelper.startOfSwedishDay(DateHelper.addCalendarDays(to, 1))
+      );
+      if (!ordersResult.success) {
+        return {
+          success: false,
+          error: ordersResult.error,
+        };
+      }
+
+      const paidOrders = ordersResult.data!.filter(order => !EXCLUDED_STATUSES.includes(order.status));
+      const current = paidOrders.filter(order => DateHelper.toSwedishDate(new Date(order.createdAt)) >= from);
+      const previous = paidOrders.filter(order => DateHelper.toSwedishDate(new Date(order.createdAt)) < from);
+
+      const currentCustomers = await this.countCustomers(current, DateHelper.startOfSwedishDay(from));
+      if (!currentCustomers.success) {
+        return {
+          success: false,
+          error: currentCustomers.error,
+        };
+      }
+
+      const previousCustomers = await this.countCustomers(previous, DateHelper.startOfSwedishDay(previousFrom));
+      if (!previousCustomers.success) {
+        return {
+          success: false,
+          error: previousCustomers.error,
+        };
+      }
+
+      const currentRevenue = this.sumRevenue(current);
+      const previousRevenue = this.sumRevenue(previous);
+      const categories = await this.getProductCategories(current);
+
+      return {
+        success: true,
+        data: {
+          range,
+          from,
+          to,
+          revenue: this.compare(currentRevenue, previousRevenue),
+          orders: this.compare(current.length, previous.length),
+          averageOrderValue: this.compare(
+            current.length > 0 ? round(currentRevenue / current.length) : 0,
+            previous.length > 0 ? round(previousRevenue / previous.length) : 0
+          ),
+          customers: {
+            new: this.compare(currentCustomers.data!.new, previousCustomers.data!.new),
+            returning: this.compare(currentCustomers.data!.returning, previousCustomers.data!.returning),
+          },
+          topProducts: this.getTopProducts(current),
+          revenueByCategory: this.getRevenueByCategory(current, categories),
+          dailySales: this.getDailySales(current, from, days),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to calculate sales analytics: ${error}`,
+      };
+    }
+  }
+
+  private sumRevenue(orders: Order[]): number {
+    return round(orders.reduce((sum, order) => sum + order.total, 0));
+  }
+
+  private compare(current: number, previous: number): PeriodComparison {
+    return {
+      current,
+      previous,
+      change: previous !== 0 ? Math.round(((current - previous) / previous) * 1000) / 10 : null,
+    };
+  }
+
+  /**
+   * Customers are returning when they had a paid order before the period began
+   */
+  private async countCustomers(
+    orders: Order[],
+    periodStart: Date
+  ): Promise<ApiResponse<{ new: number; returning: number }>> {
+    // Orders anonymised on erasure have no customer left to count
+    const customerIds = Array.from(new Set(orders.map(order => order.customerId).filter(Boolean)));
+    if (customerIds.length === 0) {
+      return {
+        success: true,
+        data: { new: 0, returning: 0 },
+      };
+    }
+
+    const earlierResult = await this.orderRepository.findCustomersWithOrdersBefore(customerIds, periodStart);
+    if (!earlierResult.success) {
+      return {
+        success: false,
+        error: earlierResult.error,
+      };
+    }
+
+    const returning = earlierResult.data!.length;
+    return {
+      success: true,
+      data: { new: customerIds.length - returning, returning },
+    };
+  }
+
+  /**
+   * Best sellers by revenue. The margin is revenue excluding VAT less the cost
+   * price items were sold at, and is left out when any sale has no cost price.
+   */
+  private getTopProducts(orders: Order[]): SalesAnalytics['topProducts'] {
+    const products = new Map<string, SalesAnalytics['topProducts'][number]>();
+    const margins = new Map<string, number | null>();
+
+    for (const item of orders.flatMap(order => order.items)) {
+      const product = products.get(item.productId)
+        ?? { productId: item.productId, name: item.productName, quantity: 0, revenue: 0 };
+      product.quantity += item.quantity;
+      product.revenue = round(product.revenue + item.total);
+      products.set(item.productId, product);
+
+      const margin = margins.get(item.productId);
+      const itemMargin = item.costPrice !== undefined && item.vatRate !== undefined
+        ? item.total / (1 + item.vatRate) - item.costPrice * item.quantity
+        : null;
+      margins.set(
+        item.productId,
+        margin === null || itemMargin === null ? null : (margin ?? 0) + itemMargin
+      );
+    }
+
+    return Array.from(products.values())
+      .sort((a, b) => b.revenue - a.revenue)
+      .slice(0, TOP_PRODUCT_COUNT)
+      .map(product => {
+        const margin = margins.get(product.productId);
+        return margin === null || margin === undefined ? product : { ...product, margin: round(margin) };
+      });
+  }
+
+  /**
+   * Category of each product sold. Items store it since they were priced with
+   * it; older items fall back to the product's current category.
+   */
+  private async getProductCategories(orders: Order[]): Promise<Map<string, string>> {
+    const items = orders.flatMap(order => order.items);
+    const categories = new Map<string, string>();
+
+    items.forEach(item => {
+      if (item.category) {
+        categories.set(item.productId, item.category);
+      }
+    });
+
+    if (items.some(item => !categories.has(item.productId))) {
+      const productsResult = await this.productRepository.findAll();
+      productsResult.data?.forEach(product => {
+        if (!categories.has(product.id)) {
+          categories.set(product.id, product.category);
+        }
+      });
+    }
+
+    return categories;
+  }
+
+  private getRevenueByCategory(
+    orders: Order[],
+    categories: Map<string, string>
+  ): SalesAnalytics['revenueByCategory'] {
+    const revenue = new Map<string, number>();
+
+    for (const item of orders.flatMap(order => order.items)) {
+      const category = item.category ?? categories.get(item.productId) ?? 'other';
+      revenue.set(category, (revenue.get(category) ?? 0) + item.total);
+    }
+
+    const total = Array.from(revenue.values()).reduce((sum, amount) => sum + amount, 0);
+
+    return Array.from(revenue.entries())
+      .map(([category, amount]) => ({
+        category,
+        revenue: round(amount),
+        percentage: total > 0 ? Math.round((amount / total) * 1000) / 10 : 0,
+      }))
+      .sort((a, b) => b.revenue - a.revenue);
+  }
+
+  /**
+   * One entry per day of the range, oldest first, including days without sales
+   */
+  private getDailySales(orders: Order[], from: string, days: number): SalesAnalytics['dailySales'] {
+    const sales = new Map<string, { date: string; revenue: number; orders: number }>();
+
+    for (let day = 0; day < days; day++) {
+      const date = DateHelper.addCalendarDays(from, day);
+      sales.set(date, { date, revenue: 0, orders: 0 });
+    }
+
+    for (const order of orders) {
+      const entry = sales.get(DateHelper.toSwedishDate(new Date(order.createdAt)));
+      if (entry) {
+        entry.revenue = round(entry.revenue + order.total);
+        entry.orders++;
+      }
+    }
+
+    return Array.from(sales.values());
+  }
+}
@@ -1,8 +1,8 @@
 import { injectable, inject } from 'tsyringe';
-import type { ICartService, ICartRepository, IProductRepository, IAbandonedCartRepository, IBundleService } from '@/interfaces';
-import type { Cart, CartItem, ApiResponse } from '@/types';
+import type { ICartService, ICartRepository, IProductRepository, IAbandonedCartRepository, IBundleService, IPromotionService, ITaxCalculator, TaxableLine } from '@/interfaces';
+import type { Cart, CartItem, ApiResponse, AppliedDiscount, VatRateBreakdown } from '@/types';
 import { TOKENS } from '@/config/di-container';
-import { PriceCalculator } from '@/utils/helpers';
+import { HOME_TAX_COUNTRY } from '@/config/payment.config';
 import { cartItemSchema } from '@/utils/validation';
 import crypto from 'crypto';
 
@@ -12,7 +12,9 @@ export class CartService implements ICartService {
     @inject(TOKENS.ICartRepository) private readonly cartRepository: ICartRepository,
     @inject(TOKENS.IProductRepository) private readonly productRepository: IProductRepository,
     @inject(TOKENS.IAbandonedCartRepository) private readonly abandonedCartRepository: IAbandonedCartRepository,
-    @inject(TOKENS.IBundleService) private readonly bundleService: IBundleService
+    @inject(TOKENS.IBundleService) private readonly bundleService: IBundleService,
+    @inject(TOKENS.IPromotionService) private readonly promotionService: IPromotionService,
+    @inject(TOKENS.TaxCalculator) private readonly taxCalculator: ITaxCalculator
   ) {}
 
   async getCart(userId?: string, sessionId?: string): Promise<ApiResponse<Cart>> {
@@ -395,10 +397,13 @@ export class CartService implements ICartService {
     }
   }
 
-  async getCartSummary(cartId: string): Promise<ApiResponse<{
+  async getCartSummary(cartId: string, discountCode?: string, country: string = HOME_TAX_COUNTRY): Promise<ApiResponse<{
     itemCount: number;
     subtotal: number;
+    discount?: AppliedDiscount;
+    discountError?: string;
     estimatedTax: number;
+    vatBreakdown: VatRateBreakdown[];
     totalWeight: number;
   }>> {
     try {
@@ -412,24 +417,56 @@ export class CartService implements ICartService {
 
       const cart = cartResult.data!;
       const itemCount = cart.items.reduce((total, item) => total + item.quantity, 0);
-      const subtotal = cart.total;
-      const estimatedTax = PriceCalculator.calculateVAT(subtotal);
 
-      // Calculate total weight for shipping
+      // Price the items for the destination and calculate total weight for shipping
+      const items: CartItem[] = [];
+      const lines: TaxableLine[] = [];
       let totalWeight = 0;
       for (const item of cart.items) {
         const productResult = await this.productRepository.findById(item.productId);
-        if (productResult.success && productResult.data) {
-          totalWeight += productResult.data.weight * item.quantity;
+        const product = productResult.success ? productResult.data : undefined;
+        const price = this.taxCalculator.getChargedPrice(item.price, country, product?.category);
+
+        items.push({ ...item, price });
+        lines.push({ amount: price * item.quantity, category: product?.category });
+        if (product) {
+          totalWeight += product.weight * item.quantity;
+        }
+      }
+      const subtotal = Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+
+      // An invalid code doesn't fail the summary, the reason is shown next to the code field
+      let discount: AppliedDiscount | undefined;
+      let discountError: string | undefined;
+      if (discountCode) {
+        const discountResult = await this.promotionService.validateCode(discountCode, {
+          customerId: cart.userId,
+          items,
+        });
+        if (discountResult.success) {
+          discount = discountResult.data;
+        } else {
+          discountError = discountResult.error;
         }
       }
 
+      // Shipping isn't chosen yet, so this is the VAT included in the items
+      const vat = this.taxCalculator.calculate({
+        country,
+        lines,
+        shipping: 0,
+        discount: discount && !discount.freeShipping ? discount.amount : 0,
+      });
+
       return {
         success: true,
         data: {
           itemCount,
           subtotal,
-          estimatedTax,
+          discount,
+          discountError,
+          estimatedTax: vat.vat,
+          vatBreakdown: vat.breakdown,
           totalWeight,
         },
       };
@@ -442,12 +479,7 @@ export class CartService implements ICartService {
   }
 
   private async getCartById(cartId: string): Promise<ApiResponse<Cart>> {
-    // This is a helper method - in a real implementation, the repository would have this method
-    // For now, we'll simulate it
-    return {
-      success: false,
-      error: 'Method not implemented',
-    };
+    return this.cartRepository.findById(cartId);
   }
 
   // Abandoned Cart Recovery Methods
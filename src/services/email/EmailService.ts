@@ -1,7 +1,7 @@
 import { injectable } from 'tsyringe';
 import type { IEmailService } from '@/interfaces/email';
-import { EmailOptions, EmailTemplate } from '@/interfaces/email';
-import { ApiResponse } from '@/types';
+import { EmailAttachment, EmailOptions, EmailTemplate } from '@/interfaces/email';
+import { ApiResponse, PickupPoint, TrackingStatus, VatRateBreakdown } from '@/types';
 import { config } from '@/config';
 
 @injectable()
@@ -99,14 +99,24 @@ export class EmailService implements IEmailService {
     email: string,
     orderData: {
       orderId: string;
+      orderNumber: string;
       customerName: string;
       items: Array<{ name: string; quantity: number; price: number }>;
       total: number;
+      vatBreakdown?: VatRateBreakdown[];
       shippingAddress: string;
+      estimatedDelivery?: Date;
+      attachments?: EmailAttachment[];
     },
     locale: 'sv' | 'en' = 'sv'
   ): Promise<ApiResponse<{ messageId: string }>> {
     const isSwedish = locale === 'sv';
+    const estimatedDelivery = orderData.estimatedDelivery?.toLocaleDateString(isSwedish ? 'sv-SE' : 'en-GB', {
+      timeZone: 'Europe/Stockholm',
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+    });
 
     const itemsHtml = orderData.items
       .map(
@@ -120,9 +130,20 @@ export class EmailService implements IEmailService {
       )
       .join('');
 
+    const vatHtml = (orderData.vatBreakdown || [])
+      .filter(line => line.vat > 0)
+      .map(
+        line => `
+        <p style="text-align: right; margin: 0; font-size: 14px; color: #666;">
+          ${isSwedish ? 'Varav moms' : 'Including VAT'} ${Math.round(line.rate * 1000) / 10}%: ${line.vat.toFixed(2)} SEK
+        </p>
+      `
+      )
+      .join('');
+
     const subject = isSwedish
-      ? `Orderbekräftelse - ${orderData.orderId}`
-      : `Order Confirmation - ${orderData.orderId}`;
+      ? `Orderbekräftelse - ${orderData.orderNumber}`
+      : `Order Confirmation - ${orderData.orderNumber}`;
 
     const html = `
       <!DOCTYPE html>
@@ -154,7 +175,7 @@ export class EmailService implements IEmailService {
             </p>
 
             <h3>${isSwedish ? 'Orderdetaljer' : 'Order Details'}</h3>
-            <p><strong>${isSwedish ? 'Ordernummer' : 'Order Number'}:</strong> ${orderData.orderId}</p>
+            <p><strong>${isSwedish ? 'Ordernummer' : 'Order Number'}:</strong> ${orderData.orderNumber}</p>
 
             <table>
               <thead>
@@ -172,9 +193,13 @@ export class EmailService implements IEmailService {
             <div class="total">
               ${isSwedish ? 'Totalt' : 'Total'}: ${orderData.total.toFixed(2)} SEK
             </div>
+            ${vatHtml}
 
             <h3>${isSwedish ? 'Leveransadress' : 'Shipping Address'}</h3>
             <p>${orderData.shippingAddress.replace(/\n/g, '<br>')}</p>
+            ${estimatedDelivery
+              ? `<p><strong>${isSwedish ? 'Beräknad leverans' : 'Estimated delivery'}:</strong> ${estimatedDelivery}</p>`
+              : ''}
 
             <p>
               ${isSwedish
@@ -195,7 +220,8 @@ export class EmailService implements IEmailService {
       to: email,
       subject,
       html,
-      text: `${subject}\n\n${isSwedish ? 'Tack för din beställning!' : 'Thank you for your order!'}\n\nOrder: ${orderData.orderId}\nTotal: ${orderData.total} SEK`,
+      text: `${subject}\n\n${isSwedish ? 'Tack för din beställning!' : 'Thank you for your order!'}\n\nOrder: ${orderData.orderNumber}\nTotal: ${orderData.total} SEK${estimatedDelivery ? `\n${isSwedish ? 'Beräknad leverans' : 'Estimated delivery'}: ${estimatedDelivery}` : ''}`,
+      attachments: orderData.attachments,
     });
   }
 
@@ -421,6 +447,7 @@ export class EmailService implements IEmailService {
     email: string,
     orderData: {
       orderId: string;
+      orderNumber: string;
       status: string;
       trackingNumber?: string;
     },
@@ -429,17 +456,21 @@ export class EmailService implements IEmailService {
     const isSwedish = locale === 'sv';
 
     const statusMessages: Record<string, { sv: string; en: string }> = {
-      confirmed: { sv: 'bekräftad', en: 'confirmed' },
-      processing: { sv: 'behandlas', en: 'being processed' },
+      paid: { sv: 'betald', en: 'paid' },
+      picking: { sv: 'behandlas', en: 'being processed' },
+      packed: { sv: 'packad', en: 'packed' },
       shipped: { sv: 'skickad', en: 'shipped' },
+      in_transit: { sv: 'på väg', en: 'on its way' },
       delivered: { sv: 'levererad', en: 'delivered' },
+      returned: { sv: 'returnerad', en: 'returned' },
+      refunded: { sv: 'återbetald', en: 'refunded' },
     };
 
     const statusText = statusMessages[orderData.status]?.[locale] || orderData.status;
 
     const subject = isSwedish
-      ? `Din order ${orderData.orderId} har ${statusText}`
-      : `Your order ${orderData.orderId} has been ${statusText}`;
+      ? `Din order ${orderData.orderNumber} har ${statusText}`
+      : `Your order ${orderData.orderNumber} has been ${statusText}`;
 
     const html = `
       <!DOCTYPE html>
@@ -456,7 +487,7 @@ export class EmailService implements IEmailService {
         <div class="container">
           <h2>${subject}</h2>
           <div class="status">
-            <p><strong>${isSwedish ? 'Ordernummer' : 'Order Number'}:</strong> ${orderData.orderId}</p>
+            <p><strong>${isSwedish ? 'Ordernummer' : 'Order Number'}:</strong> ${orderData.orderNumber}</p>
             <p><strong>${isSwedish ? 'Status' : 'Status'}:</strong> ${statusText}</p>
             ${orderData.trackingNumber ? `
               <p><strong>${isSwedish ? 'Spårningsnummer' : 'Tracking Number'}:</strong> ${orderData.trackingNumber}</p>
@@ -476,7 +507,7 @@ export class EmailService implements IEmailService {
       to: email,
       subject,
       html,
-      text: `${subject}\n\n${isSwedish ? 'Ordernummer' : 'Order Number'}: ${orderData.orderId}\n${orderData.trackingNumber ? `${isSwedish ? 'Spårningsnummer' : 'Tracking Number'}: ${orderData.trackingNumber}` : ''}`,
+      text: `${subject}\n\n${isSwedish ? 'Ordernummer' : 'Order Number'}: ${orderData.orderNumber}\n${orderData.trackingNumber ? `${isSwedish ? 'Spårningsnummer' : 'Tracking Number'}: ${orderData.trackingNumber}` : ''}`,
     });
   }
 
@@ -653,4 +684,236 @@ Fortune Essence
       text,
     });
   }
+
+  async sendBackInStock(
+    email: string,
+    product: {
+      name: string;
+      url: string;
+      unsubscribeUrl: string;
+    },
+    locale: 'sv' | 'en' = 'sv'
+  ): Promise<ApiResponse<{ messageId: string }>> {
+    const isSwedish = locale === 'sv';
+
+    const subject = isSwedish
+      ? `${product.name} finns i lager igen`
+      : `${product.name} is back in stock`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #8B4513 0%, #D2691E 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #fff; padding: 30px; border: 1px solid #ddd; border-top: none; }
+          .cta-button {
+            display: inline-block;
+            background: linear-gradient(135deg, #8B4513 0%, #D2691E 100%);
+            color: white;
+            padding: 15px 40px;
+            text-decoration: none;
+            border-radius: 25px;
+            font-weight: bold;
+            margin: 20px 0;
+          }
+          .footer { background: #f5f5f5; padding: 20px; text-align: center; font-size: 12px; color: #666; border-radius: 0 0 10px 10px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${isSwedish ? 'Den är tillbaka!' : "It's back!"}</h1>
+          </div>
+          <div class="content">
+            <p>${isSwedish ? 'Hej!' : 'Hello!'}</p>
+            <p>
+              ${isSwedish
+                ? `<strong>${product.name}</strong> som du bevakar finns i lager igen. Lagret är begränsat, så vänta inte för länge.`
+                : `<strong>${product.name}</strong>, which you asked us to watch, is back in stock. Stock is limited, so don't wait too long.`}
+            </p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${product.url}" class="cta-button">
+                ${isSwedish ? 'Till produkten' : 'View product'}
+              </a>
+            </div>
+            <p>
+              ${isSwedish ? 'Med vänliga hälsningar,' : 'Best regards,'}<br>
+              <strong>${this.fromName}</strong>
+            </p>
+          </div>
+          <div class="footer">
+            <p>
+              ${isSwedish
+                ? 'Du får detta mejl eftersom du bad om att bli meddelad när produkten kom tillbaka. Vi mejlar bara en gång per bevakning.'
+                : 'You are receiving this email because you asked to be told when the product was back. We only email once per alert.'}
+            </p>
+            <p>
+              <a href="${product.unsubscribeUrl}" style="color: #8B4513;">
+                ${isSwedish ? 'Avsluta bevakningen' : 'Unsubscribe from this alert'}
+              </a>
+            </p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+${isSwedish ? 'Hej!' : 'Hello!'}
+
+${isSwedish
+  ? `${product.name} som du bevakar finns i lager igen.`
+  : `${product.name}, which you asked us to watch, is back in stock.`}
+
+${product.url}
+
+${isSwedish ? 'Med vänliga hälsningar,' : 'Best regards,'}
+${this.fromName}
+
+${isSwedish ? 'Avsluta bevakningen' : 'Unsubscribe from this alert'}: ${product.unsubscribeUrl}
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
+  async sendTrackingUpdate(
+    email: string,
+    shipmentData: {
+      orderNumber: string;
+      status: TrackingStatus;
+      trackingNumber: string;
+      carrierName: string;
+      description?: string;
+      pickupPoint?: PickupPoint;
+      trackingUrl: string;
+    },
+    locale: 'sv' | 'en' = 'sv'
+  ): Promise<ApiResponse<{ messageId: string }>> {
+    const isSwedish = locale === 'sv';
+
+    const headlines: Partial<Record<TrackingStatus, { sv: string; en: string }>> = {
+      out_for_delivery: { sv: 'Ditt paket levereras idag', en: 'Your parcel is out for delivery' },
+      ready_for_pickup: { sv: 'Ditt paket kan hämtas', en: 'Your parcel is ready for pickup' },
+      delivered: { sv: 'Ditt paket har levererats', en: 'Your parcel has been delivered' },
+      exception: { sv: 'Något har hänt med ditt paket', en: 'There is a problem with your parcel' },
+    };
+
+    const headline = headlines[shipmentData.status]?.[locale]
+      || (isSwedish ? 'Nytt om ditt paket' : 'News about your parcel');
+    const subject = `${headline} (order ${shipmentData.orderNumber})`;
+
+    const pickupPoint = shipmentData.status === 'ready_for_pickup' ? shipmentData.pickupPoint : undefined;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .status { background: #f0f0f0; padding: 15px; border-radius: 5px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <h2>${headline}</h2>
+          ${shipmentData.description ? `<p>${shipmentData.description}</p>` : ''}
+          ${pickupPoint ? `
+            <p>
+              <strong>${isSwedish ? 'Hämta ditt paket hos' : 'Collect your parcel from'}:</strong><br>
+              ${pickupPoint.name}<br>
+              ${pickupPoint.street}, ${pickupPoint.postalCode} ${pickupPoint.city}
+              ${pickupPoint.openingHours ? `<br>${pickupPoint.openingHours}` : ''}
+            </p>
+          ` : ''}
+          <div class="status">
+            <p><strong>${isSwedish ? 'Ordernummer' : 'Order Number'}:</strong> ${shipmentData.orderNumber}</p>
+            <p><strong>${isSwedish ? 'Fraktbolag' : 'Carrier'}:</strong> ${shipmentData.carrierName}</p>
+            <p><strong>${isSwedish ? 'Spårningsnummer' : 'Tracking Number'}:</strong> ${shipmentData.trackingNumber}</p>
+          </div>
+          <p>
+            <a href="${shipmentData.trackingUrl}" style="color: #8B4513;">
+              ${isSwedish ? 'Följ ditt paket' : 'Track your parcel'}
+            </a>
+          </p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = [
+      headline,
+      shipmentData.description,
+      pickupPoint
+        ? `${isSwedish ? 'Hämta ditt paket hos' : 'Collect your parcel from'}: ${pickupPoint.name}, ${pickupPoint.street}, ${pickupPoint.postalCode} ${pickupPoint.city}`
+        : undefined,
+      `${isSwedish ? 'Ordernummer' : 'Order Number'}: ${shipmentData.orderNumber}`,
+      `${isSwedish ? 'Spårningsnummer' : 'Tracking Number'}: ${shipmentData.trackingNumber} (${shipmentData.carrierName})`,
+      shipmentData.trackingUrl,
+    ].filter(Boolean).join('\n\n');
+
+    return this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
+  // Suppliers are Swedish businesses, so the purchase order goes out in Swedish
+  async sendPurchaseOrder(
+    email: string,
+    purchaseOrder: {
+      poNumber: string;
+      contactName?: string;
+      expectedAt?: Date;
+      attachments: EmailAttachment[];
+    }
+  ): Promise<ApiResponse<{ messageId: string }>> {
+    const subject = `Inköpsorder ${purchaseOrder.poNumber} från ${this.fromName}`;
+    const greeting = purchaseOrder.contactName ? `Hej ${purchaseOrder.contactName},` : 'Hej,';
+    const delivery = purchaseOrder.expectedAt
+      ? `Vi önskar leverans senast ${purchaseOrder.expectedAt.toLocaleDateString('sv-SE', { timeZone: 'Europe/Stockholm' })}.`
+      : '';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <p>${greeting}</p>
+          <p>Bifogat finns vår inköpsorder <strong>${purchaseOrder.poNumber}</strong>. ${delivery}</p>
+          <p>Ange ordernumret på följesedel och faktura, och bekräfta gärna ordern genom att svara på detta mejl.</p>
+          <p>Med vänliga hälsningar,<br>${this.fromName}</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text: `${greeting}\n\nBifogat finns vår inköpsorder ${purchaseOrder.poNumber}. ${delivery}\n\nAnge ordernumret på följesedel och faktura, och bekräfta gärna ordern genom att svara på detta mejl.\n\nMed vänliga hälsningar,\n${this.fromName}`,
+      replyTo: config.email.supportEmail,
+      attachments: purchaseOrder.attachments,
+    });
+  }
 }
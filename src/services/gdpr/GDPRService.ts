@@ -1,7 +1,44 @@
-import { IGDPRService, UserData, ConsentData, UserPreferences } from '@/interfaces';
-import { Customer, Order, ApiResponse } from '@/types';
+import { IGDPRService, UserData, ConsentData, UserPreferences, RetentionPurgeResult } from '@/interfaces';
+import { Address, Customer, Order, ApiResponse } from '@/types';
 import { supabase } from '@/lib/supabase/client';
 
+const CUSTOMER_DATA = 'Customer Account Data';
+const ORDER_DATA = 'Order and Transaction Data';
+const SUPPORT_DATA = 'Support Communications';
+
+// retentionYears drives the retention purge; policies without it are not time based
+const DATA_RETENTION_POLICIES = [
+  {
+    dataType: CUSTOMER_DATA,
+    retentionPeriod: 'Until account deletion or 7 years after last activity',
+    purpose: 'Customer service and legal compliance',
+    retentionYears: 7,
+  },
+  {
+    dataType: ORDER_DATA,
+    retentionPeriod: '7 years from the end of the financial year',
+    purpose: 'Tax compliance and warranty claims',
+    retentionYears: 7,
+  },
+  {
+    dataType: 'Marketing Data',
+    retentionPeriod: 'Until consent is withdrawn',
+    purpose: 'Marketing communications',
+  },
+  {
+    dataType: 'Analytics Data',
+    retentionPeriod: '2 years',
+    purpose: 'Website improvement and analysis',
+    retentionYears: 2,
+  },
+  {
+    dataType: SUPPORT_DATA,
+    retentionPeriod: '3 years',
+    purpose: 'Customer service quality and training',
+    retentionYears: 3,
+  },
+];
+
 export class GDPRService implements IGDPRService {
 
   async exportUserData(userId: string): Promise<ApiResponse<UserData>> {
@@ -72,6 +109,7 @@ export class GDPRService implements IGDPRService {
       // Transform orders data
       const transformedOrders: Order[] = orders.map((order: any) => ({
         id: order.id,
+        orderNumber: order.order_number,
         customerId: order.customer_id,
         items: order.order_items.map((item: any) => ({
           productId: item.products.id,
@@ -127,42 +165,75 @@ export class GDPRService implements IGDPRService {
       // Log the deletion request first
       await this.logGDPRActivity(userId, 'data_deletion', 'User requested account deletion');
 
-      // Delete user data in the correct order to maintain referential integrity
+      const { data: customer, error: customerQueryError } = await supabase
+        .from('customers')
+        .select('id, email')
+        .eq('id', userId)
+        .single();
+
+      if (customerQueryError) {
+        throw new Error(`Failed to query customer: ${customerQueryError.message}`);
+      }
+
+      // Orders are accounting records and have to be kept (Bokföringslagen), so
+      // the personal data on them is removed and the financial rows stay
 
-      // 1. Get order IDs for this user
+      // 1. Get this user's orders
       const { data: userOrders, error: ordersQueryError } = await supabase
         .from('orders')
-        .select('id')
+        .select('id, created_at, shipping_address, billing_address')
         .eq('customer_id', userId);
 
       if (ordersQueryError && ordersQueryError.code !== 'PGRST116') {
         throw new Error(`Failed to query orders: ${ordersQueryError.message}`);
       }
 
-      // 2. Delete order items first (if there are any orders)
-      if (userOrders && userOrders.length > 0) {
-        const orderIds = userOrders.map(o => o.id);
-        const { error: orderItemsError } = await supabase
-          .from('order_items')
-          .delete()
+      const orders = userOrders || [];
+      const anonymisedAt = new Date().toISOString();
+
+      // 2. Anonymise the orders
+      for (const order of orders) {
+        const { error: orderError } = await supabase
+          .from('orders')
+          .update({
+            shipping_address: this.anonymiseAddress(order.shipping_address),
+            billing_address: this.anonymiseAddress(order.billing_address),
+            shipping_label_url: null,
+            anonymised_at: anonymisedAt,
+          })
+          .eq('id', order.id);
+
+        if (orderError) {
+          throw new Error(`Failed to anonymise order ${order.id}: ${orderError.message}`);
+        }
+      }
+
+      if (orders.length > 0) {
+        const orderIds = orders.map(o => o.id);
+
+        // 3. Provider callbacks can carry payer names and phone numbers; the
+        // amounts and statuses are kept in their own columns
+        const { error: paymentEventsError } = await supabase
+          .from('payment_events')
+          .update({ payload: null })
           .in('order_id', orderIds);
 
-        if (orderItemsError && orderItemsError.code !== 'PGRST116') {
-          throw new Error(`Failed to delete order items: ${orderItemsError.message}`);
+        if (paymentEventsError && paymentEventsError.code !== 'PGRST116') {
+          throw new Error(`Failed to anonymise payment events: ${paymentEventsError.message}`);
         }
-      }
 
-      // 2. Delete orders
-      const { error: ordersError } = await supabase
-        .from('orders')
-        .delete()
-        .eq('customer_id', userId);
+        // 4. Shipping labels print the recipient's name and address
+        const { error: labelsError } = await supabase
+          .from('shipping_labels')
+          .delete()
+          .in('order_id', orderIds);
 
-      if (ordersError && ordersError.code !== 'PGRST116') {
-        throw new Error(`Failed to delete orders: ${ordersError.message}`);
+        if (labelsError && labelsError.code !== 'PGRST116') {
+          throw new Error(`Failed to delete shipping labels: ${labelsError.message}`);
+        }
       }
 
-      // 3. Get cart IDs for this user
+      // 5. Get cart IDs for this user
       const { data: userCarts, error: cartsQueryError } = await supabase
         .from('carts')
         .select('id')
@@ -172,7 +243,7 @@ export class GDPRService implements IGDPRService {
         throw new Error(`Failed to query carts: ${cartsQueryError.message}`);
       }
 
-      // 4. Delete cart items (if there are any carts)
+      // 6. Delete cart items (if there are any carts)
       if (userCarts && userCarts.length > 0) {
         const cartIds = userCarts.map(c => c.id);
         const { error: cartItemsError } = await supabase
@@ -185,7 +256,7 @@ export class GDPRService implements IGDPRService {
         }
       }
 
-      // 4. Delete carts
+      // 7. Delete carts
       const { error: cartsError } = await supabase
         .from('carts')
         .delete()
@@ -195,7 +266,7 @@ export class GDPRService implements IGDPRService {
         throw new Error(`Failed to delete carts: ${cartsError.message}`);
       }
 
-      // 5. Delete user preferences
+      // 8. Delete user preferences
       const { error: preferencesError } = await supabase
         .from('user_preferences')
         .delete()
@@ -205,7 +276,7 @@ export class GDPRService implements IGDPRService {
         throw new Error(`Failed to delete preferences: ${preferencesError.message}`);
       }
 
-      // 6. Delete user consent records
+      // 9. Delete user consent records
       const { error: consentError } = await supabase
         .from('user_consent')
         .delete()
@@ -215,16 +286,86 @@ export class GDPRService implements IGDPRService {
         throw new Error(`Failed to delete consent: ${consentError.message}`);
       }
 
-      // 7. Finally delete the customer record
+      // 10. Delete everything else that identifies the customer
+      await this.deleteRecords('wishlist', 'customer_id', userId);
+      await this.deleteRecords('password_reset_tokens', 'customer_id', userId);
+      await this.deleteRecords('abandoned_carts', 'customer_id', userId);
+      await this.deleteRecords('abandoned_carts', 'email', customer.email);
+      await this.deleteRecords('newsletter_subscriptions', 'customer_id', userId);
+      await this.deleteRecords('newsletter_subscriptions', 'email', customer.email);
+      await this.deleteRecords('stock_notifications', 'customer_id', userId);
+      await this.deleteRecords('stock_notifications', 'email', customer.email);
+      await this.deleteRecords('contact_form_submissions', 'customer_id', userId);
+      // Reviews carry the customer's name; the product ratings are recalculated by the database
+      await this.deleteRecords('reviews', 'customer_id', userId);
+      await this.deleteRecords('review_helpful_votes', 'voter_key', `customer:${userId}`);
+
+      // 11. Without orders to keep, the customer record can go entirely
+      if (orders.length === 0) {
+        const { error: customerError } = await supabase
+          .from('customers')
+          .delete()
+          .eq('id', userId);
+
+        if (customerError) {
+          throw new Error(`Failed to delete customer: ${customerError.message}`);
+        }
+
+        return {
+          success: true,
+          data: undefined,
+        };
+      }
+
+      // 12. Otherwise keep an anonymous customer row for the orders to point at
       const { error: customerError } = await supabase
         .from('customers')
-        .delete()
+        .update({
+          email: `anonymised-${userId}@invalid`,
+          password_hash: '',
+          first_name: '',
+          last_name: '',
+          phone: null,
+          street: '',
+          city: '',
+          postal_code: '',
+          region: null,
+          marketing_opt_in: false,
+          anonymised_at: anonymisedAt,
+        })
         .eq('id', userId);
 
       if (customerError) {
-        throw new Error(`Failed to delete customer: ${customerError.message}`);
+        throw new Error(`Failed to anonymise customer: ${customerError.message}`);
       }
 
+      const latestOrder = orders.reduce(
+        (latest, order) => Math.max(latest, new Date(order.created_at).getTime()),
+        0
+      );
+      const retainedUntil = new Date(Date.UTC(
+        new Date(latestOrder).getUTCFullYear() + this.getRetentionYears(ORDER_DATA),
+        11,
+        31
+      ));
+
+      await this.logGDPRActivity(
+        userId,
+        'data_anonymisation',
+        `Personal data erased. ${orders.length} order(s) kept without personal data until ${retainedUntil.toISOString().split('T')[0]}`,
+        {
+          retained: [
+            {
+              dataType: ORDER_DATA,
+              orderIds: orders.map(o => o.id),
+              fields: ['items', 'amounts', 'VAT', 'discounts', 'payment method and status', 'country', 'invoices and credit notes as issued'],
+              retainedUntil: retainedUntil.toISOString(),
+              reason: 'Bokföringslagen (1999:1078) requires accounting records to be kept for seven years',
+            },
+          ],
+        }
+      );
+
       return {
         success: true,
         data: undefined,
@@ -386,33 +527,11 @@ export class GDPRService implements IGDPRService {
     retentionPeriod: string;
     purpose: string;
   }>>> {
-    const policies = [
-      {
-        dataType: 'Customer Account Data',
-        retentionPeriod: 'Until account deletion or 7 years after last activity',
-        purpose: 'Customer service and legal compliance',
-      },
-      {
-        dataType: 'Order and Transaction Data',
-        retentionPeriod: '7 years',
-        purpose: 'Tax compliance and warranty claims',
-      },
-      {
-        dataType: 'Marketing Data',
-        retentionPeriod: 'Until consent is withdrawn',
-        purpose: 'Marketing communications',
-      },
-      {
-        dataType: 'Analytics Data',
-        retentionPeriod: '2 years',
-        purpose: 'Website improvement and analysis',
-      },
-      {
-        dataType: 'Support Communications',
-        retentionPeriod: '3 years',
-        purpose: 'Customer service quality and training',
-      },
-    ];
+    const policies = DATA_RETENTION_POLICIES.map(({ dataType, retentionPeriod, purpose }) => ({
+      dataType,
+      retentionPeriod,
+      purpose,
+    }));
 
     return {
       success: true,
@@ -496,9 +615,98 @@ export class GDPRService implements IGDPRService {
     }
   }
 
+  async purgeExpiredData(now: Date = new Date()): Promise<ApiResponse<RetentionPurgeResult>> {
+    try {
+      const orderCutoff = this.getBookkeepingCutoff(now);
+      const customerCutoff = this.getRetentionCutoff(CUSTOMER_DATA, now);
+      const supportCutoff = this.getRetentionCutoff(SUPPORT_DATA, now);
+
+      // 1. Invoices and credit notes past the bookkeeping period, then the
+      // orders left without any; items, labels and returns cascade
+      const { data: ordersDeleted, error: ordersError } = await supabase
+        .rpc('purge_expired_orders', { p_cutoff: orderCutoff });
+
+      if (ordersError) {
+        throw new Error(`Failed to delete expired orders: ${ordersError.message}`);
+      }
+
+      // 2. Customers that were erased, or have been inactive for the whole
+      // retention period, once none of their orders have to be kept
+      const { data: candidates, error: candidatesError } = await supabase
+        .from('customers')
+        .select('id')
+        .or(`anonymised_at.not.is.null,updated_at.lt.${customerCutoff}`);
+
+      if (candidatesError) {
+        throw new Error(`Failed to query expired customers: ${candidatesError.message}`);
+      }
+
+      let customersDeleted = 0;
+      const candidateIds = (candidates || []).map(c => c.id);
+
+      if (candidateIds.length > 0) {
+        const { data: remainingOrders, error: remainingError } = await supabase
+          .from('orders')
+          .select('customer_id')
+          .in('customer_id', candidateIds);
+
+        if (remainingError) {
+          throw new Error(`Failed to query remaining orders: ${remainingError.message}`);
+        }
+
+        const withOrders = new Set((remainingOrders || []).map(o => o.customer_id));
+        const expiredIds = candidateIds.filter(id => !withOrders.has(id));
+
+        if (expiredIds.length > 0) {
+          const { error: customersError } = await supabase
+            .from('customers')
+            .delete()
+            .in('id', expiredIds);
+
+          if (customersError) {
+            throw new Error(`Failed to delete expired customers: ${customersError.message}`);
+          }
+
+          customersDeleted = expiredIds.length;
+        }
+      }
+
+      // 3. Support messages
+      const { data: deletedMessages, error: messagesError } = await supabase
+        .from('contact_form_submissions')
+        .delete()
+        .lt('created_at', supportCutoff)
+        .select('id');
+
+      if (messagesError) {
+        throw new Error(`Failed to delete expired support messages: ${messagesError.message}`);
+      }
+
+      return {
+        success: true,
+        data: {
+          ordersDeleted: ordersDeleted || 0,
+          customersDeleted,
+          supportMessagesDeleted: deletedMessages?.length || 0,
+        },
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to purge expired data: ${error}`,
+      };
+    }
+  }
+
   // Private helper methods
 
-  private async logGDPRActivity(userId: string, activity: string, description: string): Promise<void> {
+  private async logGDPRActivity(
+    userId: string,
+    activity: string,
+    description: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
     try {
       await supabase
         .from('gdpr_activity_log')
@@ -506,6 +714,7 @@ export class GDPRService implements IGDPRService {
           user_id: userId,
           activity,
           description,
+          details: details || null,
           created_at: new Date().toISOString(),
         });
     } catch (error) {
@@ -513,6 +722,46 @@ export class GDPRService implements IGDPRService {
     }
   }
 
+  private async deleteRecords(table: string, column: string, value: string): Promise<void> {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq(column, value);
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to delete ${table}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Keeps only the country, which is what the VAT on the order depends on
+   */
+  private anonymiseAddress(address: Address | null): Partial<Address> | null {
+    if (!address) {
+      return null;
+    }
+    return { country: address.country };
+  }
+
+  private getRetentionYears(dataType: string): number {
+    const policy = DATA_RETENTION_POLICIES.find(p => p.dataType === dataType);
+    if (!policy?.retentionYears) {
+      throw new Error(`No retention period defined for ${dataType}`);
+    }
+    return policy.retentionYears;
+  }
+
+  // Accounting records are kept for seven years from the end of the year they belong to
+  private getBookkeepingCutoff(now: Date): string {
+    return new Date(Date.UTC(now.getUTCFullYear() - this.getRetentionYears(ORDER_DATA), 0, 1)).toISOString();
+  }
+
+  private getRetentionCutoff(dataType: string, now: Date): string {
+    const cutoff = new Date(now);
+    cutoff.setFullYear(cutoff.getFullYear() - this.getRetentionYears(dataType));
+    return cutoff.toISOString();
+  }
+
   private convertToCSV(userData: UserData): string {
     let csv = '';
 
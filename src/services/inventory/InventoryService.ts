@@ -1,14 +1,37 @@
-import { IInventoryService } from '@/interfaces';
-import { Product, CartItem, ApiResponse } from '@/types';
+import { injectable, inject } from 'tsyringe';
+import type { IInventoryService, IInventoryLotRepository, IStockNotificationService } from '@/interfaces';
+import { Product, CartItem, ApiResponse, InventoryLot, ReceiveLotData, LotRecipient } from '@/types';
 import { supabase } from '@/lib/supabase/client';
+import { TOKENS } from '@/config/di-container';
 
+// How long stock is held for a checkout, and for a payment once it has started
+const CHECKOUT_HOLD_MINUTES = 15;
+const PAYMENT_HOLD_MINUTES = 30;
+
+// How far ahead lots are flagged before their best-before date
+const NEAR_EXPIRY_DAYS = 90;
+
+// Exceptions raised by the stock reservation functions
+const RESERVATION_ERRORS: Record<string, string> = {
+  PRODUCT_NOT_AVAILABLE: 'Product is not available',
+  INSUFFICIENT_STOCK: 'Not enough stock',
+  RESERVATION_NOT_ACTIVE: 'Reservation has expired',
+  RESERVATION_NOT_FOUND: 'Reservation not found',
+  RESERVATION_MISMATCH: 'Reservation does not match the items',
+};
+
+@injectable()
 export class InventoryService implements IInventoryService {
-  
+  constructor(
+    @inject(TOKENS.IInventoryLotRepository) private readonly lotRepository: IInventoryLotRepository,
+    @inject(TOKENS.IStockNotificationService) private readonly stockNotificationService: IStockNotificationService
+  ) {}
+
   async checkAvailability(productId: string, quantity: number): Promise<ApiResponse<boolean>> {
     try {
       const { data: product, error } = await supabase
         .from('products')
-        .select('stock_quantity, status')
+        .select('stock, is_active')
         .eq('id', productId)
         .single();
 
@@ -19,14 +42,23 @@ export class InventoryService implements IInventoryService {
         };
       }
 
-      if (product.status !== 'active') {
+      if (!product.is_active) {
         return {
           success: false,
           error: 'Product is not available',
         };
       }
 
-      const isAvailable = product.stock_quantity >= quantity;
+      // Stock held by checkouts in progress is not available to anyone else
+      const reserved = await this.getActiveReservations(productId);
+      if (!reserved.success) {
+        return {
+          success: false,
+          error: reserved.error,
+        };
+      }
+
+      const isAvailable = product.stock - reserved.data! >= quantity;
 
       return {
         success: true,
@@ -41,51 +73,37 @@ export class InventoryService implements IInventoryService {
     }
   }
 
-  async reserveStock(items: CartItem[], customerId?: string, sessionId?: string): Promise<ApiResponse<string>> {
+  /**
+   * Holds stock for a checkout. Availability is checked and the hold written
+   * in one database call, so parallel checkouts cannot both take the last item.
+   * Pass the checkout's previous reservation to swap it for this one.
+   */
+  async reserveStock(
+    items: CartItem[],
+    customerId?: string,
+    sessionId?: string,
+    replaceReservationId?: string
+  ): Promise<ApiResponse<string>> {
     try {
-      // First, verify all items are available
-      for (const item of items) {
-        const availabilityResult = await this.checkAvailability(item.productId, item.quantity);
-
-        if (!availabilityResult.success || !availabilityResult.data) {
-          return {
-            success: false,
-            error: `Product ${item.productId} is not available in requested quantity`,
-          };
-        }
-      }
-
-      // Generate unique reservation ID
       const reservationId = `RSV_${Date.now()}_${Math.random().toString(36).substring(7).toUpperCase()}`;
+      const expiresAt = this.minutesFromNow(CHECKOUT_HOLD_MINUTES);
 
-      // Set expiration time (15 minutes from now)
-      const expiresAt = new Date();
-      expiresAt.setMinutes(expiresAt.getMinutes() + 15);
-
-      // Create reservation records for each item
-      const reservationRecords = items.map(item => ({
-        reservation_id: reservationId,
-        product_id: item.productId,
-        quantity: item.quantity,
-        customer_id: customerId || null,
-        session_id: sessionId || null,
-        status: 'active',
-        expires_at: expiresAt.toISOString(),
-      }));
+      const { error } = await supabase.rpc('reserve_stock', {
+        p_reservation_id: reservationId,
+        p_items: items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        p_expires_at: expiresAt.toISOString(),
+        p_customer_id: customerId || null,
+        p_session_id: sessionId || null,
+        p_replaces: replaceReservationId || null,
+      });
 
-      const { error: insertError } = await supabase
-        .from('stock_reservations')
-        .insert(reservationRecords);
-
-      if (insertError) {
-        console.error('Failed to create stock reservations:', insertError);
+      if (error) {
         return {
           success: false,
-          error: `Failed to reserve stock: ${insertError.message}`,
+          error: this.reservationError(error.message, 'Failed to reserve stock'),
         };
       }
 
-      // Log the reservation
       console.log(`Stock reserved: ${reservationId} for ${items.length} items, expires at ${expiresAt.toISOString()}`);
 
       return {
@@ -101,6 +119,41 @@ export class InventoryService implements IInventoryService {
     }
   }
 
+  // Keeps the stock held while the customer pays; a lapsed reservation cannot be extended
+  async extendReservation(
+    reservationId: string,
+    minutes: number = PAYMENT_HOLD_MINUTES,
+    items?: CartItem[]
+  ): Promise<ApiResponse<Date>> {
+    try {
+      const expiresAt = this.minutesFromNow(minutes);
+
+      const { error } = await supabase.rpc('extend_stock_reservation', {
+        p_reservation_id: reservationId,
+        p_expires_at: expiresAt.toISOString(),
+        ...(items && { p_items: items.map(item => ({ productId: item.productId, quantity: item.quantity })) }),
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: this.reservationError(error.message, 'Failed to extend reservation'),
+        };
+      }
+
+      return {
+        success: true,
+        data: expiresAt,
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to extend reservation: ${error}`,
+      };
+    }
+  }
+
   async releaseReservation(reservationId: string): Promise<ApiResponse<void>> {
     try {
       // Update reservation status to cancelled instead of deleting (for audit trail)
@@ -141,7 +194,7 @@ export class InventoryService implements IInventoryService {
       // Get current stock
       const { data: product, error: fetchError } = await supabase
         .from('products')
-        .select('stock_quantity')
+        .select('stock')
         .eq('id', productId)
         .single();
 
@@ -152,7 +205,7 @@ export class InventoryService implements IInventoryService {
         };
       }
 
-      const newStock = product.stock_quantity + quantity;
+      const newStock = product.stock + quantity;
 
       if (newStock < 0) {
         return {
@@ -165,7 +218,7 @@ export class InventoryService implements IInventoryService {
       const { error: updateError } = await supabase
         .from('products')
         .update({ 
-          stock_quantity: newStock,
+          stock: newStock,
           updated_at: new Date().toISOString(),
         })
         .eq('id', productId);
@@ -180,6 +233,10 @@ export class InventoryService implements IInventoryService {
       // Log inventory movement
       await this.logInventoryMovement(productId, quantity, 'stock_update');
 
+      if (product.stock <= 0 && newStock > 0) {
+        await this.notifyBackInStock(productId);
+      }
+
       return {
         success: true,
         data: undefined,
@@ -198,9 +255,9 @@ export class InventoryService implements IInventoryService {
       const { data: products, error } = await supabase
         .from('products')
         .select('*')
-        .lt('stock_quantity', 10) // Products with less than 10 items
-        .eq('status', 'active')
-        .order('stock_quantity', { ascending: true });
+        .lt('stock', 10) // Products with less than 10 items
+        .eq('is_active', true)
+        .order('stock', { ascending: true });
 
       if (error) {
         return {
@@ -216,11 +273,11 @@ export class InventoryService implements IInventoryService {
         price: product.price,
         category: product.category,
         images: product.images || [],
-        stock: product.stock_quantity,
+        stock: product.stock,
         sku: product.sku,
         weight: product.weight || 0,
         dimensions: product.dimensions || { length: 0, width: 0, height: 0 },
-        isActive: product.status === 'active',
+        isActive: product.is_active,
         translations: {
           sv: {
             name: product.name_sv || product.name,
@@ -259,8 +316,8 @@ export class InventoryService implements IInventoryService {
     try {
       const { data: products, error } = await supabase
         .from('products')
-        .select('stock_quantity, price, cost_price, status')
-        .eq('status', 'active');
+        .select('stock, price')
+        .eq('is_active', true);
 
       if (error) {
         return {
@@ -270,12 +327,12 @@ export class InventoryService implements IInventoryService {
       }
 
       const totalProducts = products.length;
-      const inStockProducts = products.filter(p => p.stock_quantity > 0).length;
-      const outOfStockProducts = products.filter(p => p.stock_quantity === 0).length;
-      const lowStockProducts = products.filter(p => p.stock_quantity > 0 && p.stock_quantity < 10).length;
+      const inStockProducts = products.filter(p => p.stock > 0).length;
+      const outOfStockProducts = products.filter(p => p.stock === 0).length;
+      const lowStockProducts = products.filter(p => p.stock > 0 && p.stock < 10).length;
       
       const totalValue = products.reduce((sum, product) => {
-        return sum + (product.stock_quantity * (product.cost_price || product.price));
+        return sum + (product.stock * product.price);
       }, 0);
 
       return {
@@ -380,6 +437,18 @@ export class InventoryService implements IInventoryService {
     }
   }
 
+  // A failed notification must not fail the stock change; the cron retries the queue
+  private async notifyBackInStock(productId: string): Promise<void> {
+    try {
+      const result = await this.stockNotificationService.notifySubscribers(productId);
+      if (!result.success) {
+        console.error(`Failed to notify back-in-stock subscribers for ${productId}:`, result.error);
+      }
+    } catch (error) {
+      console.error(`Failed to notify back-in-stock subscribers for ${productId}:`, error);
+    }
+  }
+
   private async logInventoryMovement(
     productId: string,
     quantity: number,
@@ -412,7 +481,7 @@ export class InventoryService implements IInventoryService {
       // Get current stock
       const { data: product, error: fetchError } = await supabase
         .from('products')
-        .select('stock_quantity')
+        .select('stock')
         .eq('id', productId)
         .single();
 
@@ -430,13 +499,13 @@ export class InventoryService implements IInventoryService {
         };
       }
 
-      const adjustment = newQuantity - product.stock_quantity;
+      const adjustment = newQuantity - product.stock;
 
       // Update stock to new quantity
       const { error: updateError } = await supabase
         .from('products')
         .update({ 
-          stock_quantity: newQuantity,
+          stock: newQuantity,
           updated_at: new Date().toISOString(),
         })
         .eq('id', productId);
@@ -451,6 +520,10 @@ export class InventoryService implements IInventoryService {
       // Log the adjustment
       await this.logInventoryMovement(productId, adjustment, 'adjustment', reason);
 
+      if (product.stock <= 0 && newQuantity > 0) {
+        await this.notifyBackInStock(productId);
+      }
+
       return {
         success: true,
         data: undefined,
@@ -464,23 +537,22 @@ export class InventoryService implements IInventoryService {
     }
   }
 
-  async completeReservation(reservationId: string): Promise<ApiResponse<void>> {
+  /**
+   * Takes the reserved stock off the shelf once the order is paid. Completing
+   * the same reservation twice does nothing, so payment notifications can repeat.
+   */
+  async completeReservation(reservationId: string, orderId?: string): Promise<ApiResponse<void>> {
     try {
-      // Mark reservation as completed (order was finalized)
-      const { error: updateError } = await supabase
-        .from('stock_reservations')
-        .update({
-          status: 'completed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('reservation_id', reservationId)
-        .eq('status', 'active');
+      const { error } = await supabase.rpc('complete_stock_reservation', {
+        p_reservation_id: reservationId,
+        p_order_id: orderId || null,
+      });
 
-      if (updateError) {
-        console.error('Failed to complete reservation:', updateError);
+      if (error) {
+        console.error('Failed to complete reservation:', error);
         return {
           success: false,
-          error: `Failed to complete reservation: ${updateError.message}`,
+          error: this.reservationError(error.message, 'Failed to complete reservation'),
         };
       }
 
@@ -585,4 +657,63 @@ export class InventoryService implements IInventoryService {
       };
     }
   }
+
+  // Puts a delivered batch on the shelf; its quantity is added to the product's stock
+  async receiveLot(lot: ReceiveLotData): Promise<ApiResponse<InventoryLot>> {
+    if (!lot.lotCode.trim()) {
+      return {
+        success: false,
+        error: 'Lot code is required',
+      };
+    }
+
+    if (!Number.isInteger(lot.quantity) || lot.quantity <= 0) {
+      return {
+        success: false,
+        error: 'Quantity must be a positive whole number',
+      };
+    }
+
+    const result = await this.lotRepository.receive({ ...lot, lotCode: lot.lotCode.trim() });
+
+    if (result.success) {
+      console.log(`Lot received: ${result.data!.lotCode} (+${lot.quantity}) for product ${lot.productId}`);
+    }
+
+    return result;
+  }
+
+  async getProductLots(productId: string): Promise<ApiResponse<InventoryLot[]>> {
+    return this.lotRepository.findByProductId(productId);
+  }
+
+  async getNearExpiryAlerts(days: number = NEAR_EXPIRY_DAYS): Promise<ApiResponse<InventoryLot[]>> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() + days);
+
+    return this.lotRepository.findExpiringBefore(cutoff);
+  }
+
+  // Everyone who was sent something from the lot, for a recall
+  async getLotRecipients(lotCode: string): Promise<ApiResponse<LotRecipient[]>> {
+    if (!lotCode.trim()) {
+      return {
+        success: false,
+        error: 'Lot code is required',
+      };
+    }
+
+    return this.lotRepository.findRecipients(lotCode.trim());
+  }
+
+  private minutesFromNow(minutes: number): Date {
+    const date = new Date();
+    date.setMinutes(date.getMinutes() + minutes);
+    return date;
+  }
+
+  private reservationError(message: string, fallback: string): string {
+    const known = Object.keys(RESERVATION_ERRORS).find(key => message.includes(key));
+    return known ? RESERVATION_ERRORS[known] : `${fallback}: ${message}`;
+  }
 }
@@ -0,0 +1,239 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IEmailService,
+  IProductRepository,
+  IStockNotificationRepository,
+  IStockNotificationService
+} from '@/interfaces';
+import type { IWishlistRepository } from '@/repositories/wishlist/WishlistRepository';
+import type {
+  ApiResponse,
+  Locale,
+  Product,
+  StockNotification,
+  StockNotificationDemand,
+  StockNotificationSubscription
+} from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+
+// Subscribers emailed per unit back in stock, so a handful of units doesn't
+// send the whole queue after them; the rest follow while stock remains
+const NOTIFICATIONS_PER_UNIT = 3;
+const MAX_NOTIFICATIONS_PER_BATCH = 50;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+@injectable()
+export class StockNotificationService implements IStockNotificationService {
+  constructor(
+    @inject(TOKENS.IStockNotificationRepository) private readonly notificationRepository: IStockNotificationRepository,
+    @inject(TOKENS.IProductRepository) private readonly productRepository: IProductRepository,
+    @inject(TOKENS.IWishlistRepository) private readonly wishlistRepository: IWishlistRepository,
+    @inject(TOKENS.IEmailService) private readonly emailService: IEmailService
+  ) {}
+
+  async subscribe(subscription: StockNotificationSubscription): Promise<ApiResponse<StockNotification>> {
+    const email = subscription.email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      return {
+        success: false,
+        error: 'Invalid email address',
+      };
+    }
+
+    const productResult = await this.productRepository.findById(subscription.productId);
+    if (!productResult.success) {
+      return {
+        success: false,
+        error: productResult.error,
+      };
+    }
+
+    if (productResult.data!.stock > 0) {
+      return {
+        success: false,
+        error: 'Product is in stock',
+      };
+    }
+
+    return this.notificationRepository.subscribe({ ...subscription, email });
+  }
+
+  async subscribeWishlist(
+    customerId: string,
+    email: string,
+    locale?: Locale
+  ): Promise<ApiResponse<{ subscribed: number }>> {
+    try {
+      const wishlistResult = await this.wishlistRepository.findByCustomerId(customerId);
+      if (!wishlistResult.success) {
+        return {
+          success: false,
+          error: wishlistResult.error,
+        };
+      }
+
+      let subscribed = 0;
+      for (const item of wishlistResult.data!) {
+        const productResult = await this.productRepository.findById(item.productId);
+        if (!productResult.success || productResult.data!.stock > 0 || !productResult.data!.isActive) {
+          continue;
+        }
+
+        const result = await this.notificationRepository.subscribe({
+          productId: item.productId,
+          email: email.trim().toLowerCase(),
+          customerId,
+          locale,
+          source: 'wishlist',
+        });
+
+        if (result.success) {
+          subscribed++;
+        }
+      }
+
+      return {
+        success: true,
+        data: { subscribed },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to subscribe to wishlist products: ${error}`,
+      };
+    }
+  }
+
+  async unsubscribe(token: string): Promise<ApiResponse<void>> {
+    if (!token) {
+      return {
+        success: false,
+        error: 'Subscription not found',
+      };
+    }
+
+    const result = await this.notificationRepository.unsubscribe(token);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: undefined,
+    };
+  }
+
+  /**
+   * Emails the next batch of subscribers for a product that is in stock.
+   * Subscribers whose email fails stay in the queue for the next batch.
+   */
+  async notifySubscribers(productId: string): Promise<ApiResponse<{ notified: number }>> {
+    try {
+      const productResult = await this.productRepository.findById(productId);
+      if (!productResult.success) {
+        return {
+          success: false,
+          error: productResult.error,
+        };
+      }
+
+      const product = productResult.data!;
+      if (product.stock <= 0 || !product.isActive) {
+        return {
+          success: true,
+          data: { notified: 0 },
+        };
+      }
+
+      const batchSize = Math.min(product.stock * NOTIFICATIONS_PER_UNIT, MAX_NOTIFICATIONS_PER_BATCH);
+      const pendingResult = await this.notificationRepository.findPending(productId, batchSize);
+      if (!pendingResult.success) {
+        return {
+          success: false,
+          error: pendingResult.error,
+        };
+      }
+
+      const notifiedIds: string[] = [];
+      for (const notification of pendingResult.data!) {
+        const emailResult = await this.emailService.sendBackInStock(
+          notification.email,
+          {
+            name: this.productName(product, notification.locale),
+            url: `${config.app.url}/products/${product.id}`,
+            unsubscribeUrl: `${config.app.url}/notifications/unsubscribe?token=${notification.unsubscribeToken}&locale=${notification.locale}`,
+          },
+          notification.locale
+        );
+
+        if (!emailResult.success) {
+          console.error(`Failed to send back-in-stock email for ${productId}:`, emailResult.error);
+          continue;
+        }
+
+        notifiedIds.push(notification.id);
+      }
+
+      if (notifiedIds.length > 0) {
+        const markResult = await this.notificationRepository.markNotified(notifiedIds);
+        if (!markResult.success) {
+          return {
+            success: false,
+            error: markResult.error,
+          };
+        }
+      }
+
+      return {
+        success: true,
+        data: { notified: notifiedIds.length },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to send back-in-stock notifications: ${error}`,
+      };
+    }
+  }
+
+  async processPendingNotifications(): Promise<ApiResponse<{ notified: number }>> {
+    const demandResult = await this.notificationRepository.findDemand();
+    if (!demandResult.success) {
+      return {
+        success: false,
+        error: demandResult.error,
+      };
+    }
+
+    let notified = 0;
+    for (const demand of demandResult.data!) {
+      if (demand.pending === 0 || demand.stock <= 0) continue;
+
+      const result = await this.notifySubscribers(demand.productId);
+      if (!result.success) {
+        console.error(`Back-in-stock notifications failed for ${demand.productId}:`, result.error);
+        continue;
+      }
+
+      notified += result.data!.notified;
+    }
+
+    return {
+      success: true,
+      data: { notified },
+    };
+  }
+
+  async getDemand(): Promise<ApiResponse<StockNotificationDemand[]>> {
+    return this.notificationRepository.findDemand();
+  }
+
+  private productName(product: Product, locale: Locale): string {
+    return product.translations?.[locale]?.name || product.name;
+  }
+}
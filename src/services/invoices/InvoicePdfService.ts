@@ -0,0 +1,293 @@
+/**
+ * Invoice PDF Service
+ *
+ * Renders invoices and credit notes as A4 PDFs with what Swedish invoicing
+ * rules require: number, date, seller and buyer, VAT number, and VAT per rate
+ */
+
+import { injectable } from 'tsyringe';
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { Address, Invoice, InvoiceLine, PaymentMethod } from '@/types';
+import { config } from '@/config';
+
+const PAGE_SIZE: [number, number] = [595, 842]; // A4 at 72 DPI
+const MARGIN = 50;
+const RIGHT = PAGE_SIZE[0] - MARGIN;
+const TOP = 790;
+const BOTTOM = 90;
+
+const TEXT = rgb(0.1, 0.1, 0.1);
+const MUTED = rgb(0.45, 0.45, 0.45);
+const RULE = rgb(0.8, 0.8, 0.8);
+
+const PAYMENT_METHOD_NAMES: Record<PaymentMethod, string> = {
+  stripe: 'Kort',
+  card: 'Kort',
+  swish: 'Swish',
+  klarna: 'Klarna',
+  'bank-transfer': 'Banköverföring',
+};
+
+// Right edges of the line table columns
+const COLUMNS = {
+  quantity: 330,
+  unitPrice: 420,
+  vatRate: 470,
+  total: RIGHT,
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+@injectable()
+export class InvoicePdfService {
+  /**
+   * Generate the PDF for an invoice or credit note
+   */
+  async generate(invoice: Invoice): Promise<Uint8Array> {
+    const isCreditNote = invoice.type === 'credit_note';
+    const title = isCreditNote ? 'Kreditfaktura' : 'Faktura';
+
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle(`${title} ${invoice.invoiceNumber}`);
+    pdfDoc.setAuthor(invoice.seller.name);
+
+    const fonts: Fonts = {
+      regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+      bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+    };
+
+    let page = pdfDoc.addPage(PAGE_SIZE);
+
+    // Header
+    this.text(page, title, MARGIN, TOP, fonts.bold, 22);
+    this.textRight(page, invoice.seller.name, RIGHT, TOP + 4, fonts.bold, 12);
+    this.text(
+      page,
+      isCreditNote
+        ? `Krediterar faktura ${invoice.creditedInvoiceNumber}`
+        : `Kvitto på ditt köp, betalt med ${PAYMENT_METHOD_NAMES[invoice.paymentMethod]}`,
+      MARGIN,
+      TOP - 20,
+      fonts.regular,
+      10,
+      MUTED
+    );
+
+    // Invoice details
+    let y = TOP - 60;
+    const details: Array<[string, string]> = [
+      [isCreditNote ? 'Kreditfakturanummer' : 'Fakturanummer', String(invoice.invoiceNumber)],
+      ['Datum', this.formatDate(invoice.issuedAt)],
+      ['Ordernummer', invoice.orderNumber || invoice.orderId],
+      ['Betalningssätt', PAYMENT_METHOD_NAMES[invoice.paymentMethod]],
+    ];
+    for (const [label, value] of details) {
+      this.text(page, label, MARGIN, y, fonts.bold, 9);
+      this.text(page, value, MARGIN + 110, y, fonts.regular, 9);
+      y -= 14;
+    }
+
+    // Seller
+    const seller = invoice.seller;
+    const sellerLines = [
+      ...this.formatAddress(seller.address),
+      seller.orgNumber ? `Org.nr ${seller.orgNumber}` : '',
+      seller.vatNumber ? `Momsreg.nr ${seller.vatNumber}` : '',
+      seller.registeredOffice ? `Styrelsens säte: ${seller.registeredOffice}` : '',
+      seller.fTaxApproved ? 'Godkänd för F-skatt' : '',
+    ].filter(Boolean);
+    let sellerY = TOP - 60;
+    this.text(page, 'Säljare', 340, sellerY, fonts.bold, 9);
+    for (const line of [seller.name, ...sellerLines]) {
+      sellerY -= 13;
+      this.text(page, line, 340, sellerY, fonts.regular, 9);
+    }
+
+    // Buyer
+    y = Math.min(y, sellerY) - 30;
+    this.text(page, 'Köpare', MARGIN, y, fonts.bold, 9);
+    for (const line of [invoice.buyer.name, ...this.formatAddress(invoice.buyer.address)].filter(Boolean)) {
+      y -= 13;
+      this.text(page, line, MARGIN, y, fonts.regular, 9);
+    }
+
+    // Lines
+    y -= 35;
+    y = this.drawTableHeader(page, y, fonts);
+    let hasSplitLines = false;
+
+    for (const line of invoice.lines) {
+      if (y < BOTTOM) {
+        page = pdfDoc.addPage(PAGE_SIZE);
+        y = this.drawTableHeader(page, TOP, fonts);
+      }
+
+      hasSplitLines = hasSplitLines || line.vatRate === undefined;
+      this.drawLine(page, line, y, fonts);
+      y -= 16;
+    }
+
+    page.drawLine({ start: { x: MARGIN, y: y + 8 }, end: { x: RIGHT, y: y + 8 }, thickness: 0.5, color: RULE });
+
+    // VAT per rate and totals
+    const summaryHeight = 60 + invoice.vatBreakdown.length * 14;
+    if (y - summaryHeight < BOTTOM - 40) {
+      page = pdfDoc.addPage(PAGE_SIZE);
+      y = TOP;
+    }
+
+    y -= 12;
+    this.text(page, 'Momssats', 300, y, fonts.bold, 8, MUTED);
+    this.textRight(page, 'Underlag', 420, y, fonts.bold, 8, MUTED);
+    this.textRight(page, 'Moms', RIGHT, y, fonts.bold, 8, MUTED);
+    for (const line of invoice.vatBreakdown) {
+      y -= 14;
+      this.text(page, this.formatRate(line.rate), 300, y, fonts.regular, 9);
+      this.textRight(page, this.formatAmount(line.net), 420, y, fonts.regular, 9);
+      this.textRight(page, this.formatAmount(line.vat), RIGHT, y, fonts.regular, 9);
+    }
+
+    const vat = invoice.vatBreakdown.reduce((sum, line) => sum + line.vat, 0);
+    y -= 22;
+    this.text(page, 'Summa exkl. moms', 300, y, fonts.regular, 9);
+    this.textRight(page, `${this.formatAmount(invoice.total - vat)} kr`, RIGHT, y, fonts.regular, 9);
+    y -= 14;
+    this.text(page, 'Moms', 300, y, fonts.regular, 9);
+    this.textRight(page, `${this.formatAmount(vat)} kr`, RIGHT, y, fonts.regular, 9);
+    y -= 18;
+    this.text(page, isCreditNote ? 'Att återbetala' : 'Totalt betalt', 300, y, fonts.bold, 11);
+    this.textRight(page, `${this.formatAmount(invoice.total)} kr`, RIGHT, y, fonts.bold, 11);
+
+    // Notes
+    const notes = [
+      hasSplitLines ? '* Fördelas på momssatserna i proportion till varorna.' : '',
+      invoice.vatScheme === 'oss'
+        ? `Moms enligt köparlandets regler, redovisas via unionsordningen (OSS). Land: ${invoice.buyer.address.country}.`
+        : '',
+      invoice.vatScheme === 'export' ? 'Export till land utanför EU, momsfri försäljning.' : '',
+    ].filter(Boolean);
+    y -= 30;
+    for (const note of notes) {
+      this.text(page, note, MARGIN, y, fonts.regular, 8, MUTED);
+      y -= 12;
+    }
+
+    // Footer on every page
+    const pages = pdfDoc.getPages();
+    pages.forEach((footerPage, index) => {
+      this.text(
+        footerPage,
+        `${invoice.seller.name} | ${config.app.url.replace(/^https?:\/\//, '')} | ${config.email.supportEmail}`,
+        MARGIN,
+        40,
+        fonts.regular,
+        8,
+        MUTED
+      );
+      this.textRight(footerPage, `Sida ${index + 1} av ${pages.length}`, RIGHT, 40, fonts.regular, 8, MUTED);
+    });
+
+    return await pdfDoc.save();
+  }
+
+  private drawTableHeader(page: PDFPage, y: number, fonts: Fonts): number {
+    this.text(page, 'Beskrivning', MARGIN, y, fonts.bold, 8, MUTED);
+    this.textRight(page, 'Antal', COLUMNS.quantity, y, fonts.bold, 8, MUTED);
+    this.textRight(page, 'À-pris exkl. moms', COLUMNS.unitPrice, y, fonts.bold, 8, MUTED);
+    this.textRight(page, 'Moms', COLUMNS.vatRate, y, fonts.bold, 8, MUTED);
+    this.textRight(page, 'Belopp inkl. moms', COLUMNS.total, y, fonts.bold, 8, MUTED);
+    page.drawLine({ start: { x: MARGIN, y: y - 6 }, end: { x: RIGHT, y: y - 6 }, thickness: 0.5, color: RULE });
+
+    return y - 22;
+  }
+
+  private drawLine(page: PDFPage, line: InvoiceLine, y: number, fonts: Fonts): void {
+    const description = this.truncate(line.description, fonts.regular, 9, COLUMNS.quantity - MARGIN - 50);
+    this.text(page, description, MARGIN, y, fonts.regular, 9);
+    this.textRight(page, String(line.quantity), COLUMNS.quantity, y, fonts.regular, 9);
+
+    if (line.vatRate !== undefined) {
+      const netUnitPrice = line.unitPrice / (1 + line.vatRate);
+      this.textRight(page, this.formatAmount(netUnitPrice), COLUMNS.unitPrice, y, fonts.regular, 9);
+      this.textRight(page, this.formatRate(line.vatRate), COLUMNS.vatRate, y, fonts.regular, 9);
+    } else {
+      this.textRight(page, '*', COLUMNS.vatRate, y, fonts.regular, 9);
+    }
+
+    this.textRight(page, this.formatAmount(line.total), COLUMNS.total, y, fonts.regular, 9);
+  }
+
+  private text(
+    page: PDFPage,
+    text: string,
+    x: number,
+    y: number,
+    font: PDFFont,
+    size: number,
+    color = TEXT
+  ): void {
+    page.drawText(this.sanitize(text), { x, y, size, font, color });
+  }
+
+  private textRight(
+    page: PDFPage,
+    text: string,
+    right: number,
+    y: number,
+    font: PDFFont,
+    size: number,
+    color = TEXT
+  ): void {
+    const safeText = this.sanitize(text);
+    this.text(page, safeText, right - font.widthOfTextAtSize(safeText, size), y, font, size, color);
+  }
+
+  private truncate(text: string, font: PDFFont, size: number, maxWidth: number): string {
+    let result = this.sanitize(text);
+    if (font.widthOfTextAtSize(result, size) <= maxWidth) {
+      return result;
+    }
+
+    while (result.length > 0 && font.widthOfTextAtSize(`${result}...`, size) > maxWidth) {
+      result = result.slice(0, -1);
+    }
+    return `${result}...`;
+  }
+
+  /**
+   * The standard PDF fonts only cover Latin-1 (WinAnsi), which includes å, ä and ö
+   */
+  private sanitize(text: string): string {
+    return text
+      .replace(/\s+/g, ' ')
+      .replace(/[^\x20-\x7E\xA0-\xFF–—€‘’“”…]/g, '?');
+  }
+
+  /**
+   * Swedish number format, e.g. 1 234,50
+   */
+  private formatAmount(amount: number): string {
+    const [whole, decimals] = Math.abs(amount).toFixed(2).split('.');
+    const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+    return `${amount < -0.004 ? '-' : ''}${grouped},${decimals}`;
+  }
+
+  private formatRate(rate: number): string {
+    return `${String(Math.round(rate * 1000) / 10).replace('.', ',')} %`;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString('sv-SE', { timeZone: 'Europe/Stockholm' });
+  }
+
+  private formatAddress(address: Address): string[] {
+    return [
+      address.street,
+      `${address.postalCode} ${address.city}`.trim(),
+      address.country,
+    ].filter(Boolean);
+  }
+}
@@ -0,0 +1,342 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IInvoiceService,
+  IInvoiceRepository,
+  IOrderRepository,
+  ITaxCalculator,
+  CreditNoteData
+} from '@/interfaces';
+import type { ApiResponse, Invoice, InvoiceLine, InvoiceParty, Order, OrderStatus, VatRateBreakdown } from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+import { SENDER_ADDRESS } from '@/config/carriers';
+import type { InvoicePdfService } from './InvoicePdfService';
+
+// Orders that haven't been paid for, or never will be, get no invoice
+const UNINVOICEABLE_STATUSES: OrderStatus[] = ['pending', 'cancelled'];
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Invoice Service
+ *
+ * Paid orders get an invoice, which doubles as the customer's receipt. Refunds
+ * are credited with a credit note referring to that invoice. Both are copied
+ * from the order when issued and never change afterwards.
+ */
+@injectable()
+export class InvoiceService implements IInvoiceService {
+  constructor(
+    @inject(TOKENS.IInvoiceRepository) private readonly invoiceRepository: IInvoiceRepository,
+    @inject(TOKENS.IOrderRepository) private readonly orderRepository: IOrderRepository,
+    @inject(TOKENS.TaxCalculator) private readonly taxCalculator: ITaxCalculator,
+    @inject(TOKENS.InvoicePdfService) private readonly invoicePdfService: InvoicePdfService
+  ) {}
+
+  async issueInvoice(orderId: string): Promise<ApiResponse<Invoice>> {
+    try {
+      const existing = await this.findOrderInvoice(orderId);
+      if (!existing.success) {
+        return {
+          success: false,
+          error: existing.error,
+        };
+      }
+      if (existing.data) {
+        return {
+          success: true,
+          data: existing.data,
+        };
+      }
+
+      const orderResult = await this.orderRepository.findById(orderId);
+      if (!orderResult.success || !orderResult.data) {
+        return {
+          success: false,
+          error: orderResult.error || 'Order not found',
+        };
+      }
+
+      const order = orderResult.data;
+      if (UNINVOICEABLE_STATUSES.includes(order.status)) {
+        return {
+          success: false,
+          error: `Order ${order.id} is ${order.status} and cannot be invoiced`,
+        };
+      }
+
+      const vatBreakdown = this.getOrderBreakdown(order);
+      const singleRate = vatBreakdown.length === 1 ? vatBreakdown[0].rate : undefined;
+
+      const lines: InvoiceLine[] = order.items.map(item => ({
+        description: item.productName,
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.price,
+        vatRate: item.vatRate ?? singleRate ?? this.taxCalculator.getTaxRate(order.shippingAddress.country),
+        total: item.total,
+      }));
+
+      if (order.shipping > 0) {
+        lines.push({
+          description: 'Frakt',
+          quantity: 1,
+          unitPrice: order.shipping,
+          vatRate: singleRate,
+          total: order.shipping,
+        });
+      }
+
+      if (order.discount && !order.discount.freeShipping && order.discount.amount > 0) {
+        lines.push({
+          description: `Rabatt (${order.discount.code})`,
+          quantity: 1,
+          unitPrice: -order.discount.amount,
+          vatRate: singleRate,
+          total: -order.discount.amount,
+        });
+      }
+
+      const result = await this.invoiceRepository.create({
+        type: 'invoice',
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        customerId: order.customerId,
+        seller: this.getSeller(),
+        buyer: this.getBuyer(order),
+        lines,
+        vatScheme: order.vatScheme || 'domestic',
+        vatBreakdown,
+        total: order.total,
+        currency: 'SEK',
+        paymentMethod: order.paymentMethod,
+      });
+
+      // Issued by a concurrent request in the meantime
+      if (!result.success && result.error === 'Invoice already issued') {
+        return this.issueInvoice(orderId);
+      }
+
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to issue invoice: ${error}`,
+      };
+    }
+  }
+
+  async issueCreditNote(orderId: string, data: CreditNoteData): Promise<ApiResponse<Invoice>> {
+    try {
+      const existing = await this.invoiceRepository.findByReference(data.reference);
+      if (!existing.success) {
+        return {
+          success: false,
+          error: existing.error,
+        };
+      }
+      if (existing.data) {
+        return {
+          success: true,
+          data: existing.data,
+        };
+      }
+
+      if (data.amount <= 0) {
+        return {
+          success: false,
+          error: 'A credit note needs an amount to credit',
+        };
+      }
+
+      const invoiceResult = await this.issueInvoice(orderId);
+      if (!invoiceResult.success) {
+        return invoiceResult;
+      }
+
+      const invoice = invoiceResult.data!;
+      const itemLines = invoice.lines.filter(line => line.productId);
+      const itemsTotal = itemLines.reduce((sum, line) => sum + line.total, 0);
+      const discountTotal = -invoice.lines
+        .filter(line => !line.productId && line.total < 0)
+        .reduce((sum, line) => sum + line.total, 0);
+      const discountShare = itemsTotal > 0 ? discountTotal / itemsTotal : 0;
+
+      // Returned items are credited at what was paid for them, discount included
+      const lines: InvoiceLine[] = [];
+      const grossByRate = new Map<number, number>();
+      for (const item of data.items) {
+        const invoiceLine = itemLines.find(line => line.productId === item.productId);
+        if (!invoiceLine) {
+          return {
+            success: false,
+            error: `Product ${item.productId} is not on invoice ${invoice.invoiceNumber}`,
+          };
+        }
+
+        const total = round(invoiceLine.unitPrice * item.quantity * (1 - discountShare));
+        const rate = invoiceLine.vatRate ?? 0;
+        lines.push({
+          description: invoiceLine.description,
+          productId: item.productId,
+          quantity: item.quantity,
+          unitPrice: -round(total / item.quantity),
+          vatRate: invoiceLine.vatRate,
+          total: -total,
+        });
+        grossByRate.set(rate, (grossByRate.get(rate) || 0) + total);
+      }
+
+      // Anything refunded beyond the items, e.g. shipping on a defective item,
+      // is credited at the rates of the original invoice
+      const creditedItems = Array.from(grossByRate.values()).reduce((sum, gross) => sum + gross, 0);
+      const adjustment = round(data.amount - creditedItems);
+      if (Math.abs(adjustment) >= 0.01) {
+        const invoiceGross = invoice.vatBreakdown.reduce((sum, line) => sum + line.gross, 0);
+        lines.push({
+          description: 'Övrig återbetalning',
+          quantity: 1,
+          unitPrice: -adjustment,
+          vatRate: invoice.vatBreakdown.length === 1 ? invoice.vatBreakdown[0].rate : undefined,
+          total: -adjustment,
+        });
+        for (const line of invoice.vatBreakdown) {
+          const share = invoiceGross > 0 ? line.gross / invoiceGross : 1 / invoice.vatBreakdown.length;
+          grossByRate.set(line.rate, (grossByRate.get(line.rate) || 0) + adjustment * share);
+        }
+      }
+
+      return await this.invoiceRepository.create({
+        type: 'credit_note',
+        orderId,
+        orderNumber: invoice.orderNumber,
+        customerId: invoice.customerId,
+        creditedInvoiceNumber: invoice.invoiceNumber,
+        reference: data.reference,
+        seller: this.getSeller(),
+        buyer: invoice.buyer,
+        lines,
+        vatScheme: invoice.vatScheme,
+        vatBreakdown: this.buildBreakdown(grossByRate, data.amount).map(line => ({
+          rate: line.rate,
+          net: -line.net,
+          vat: -line.vat,
+          gross: -line.gross,
+        })),
+        total: -round(data.amount),
+        currency: invoice.currency,
+        paymentMethod: invoice.paymentMethod,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to issue credit note: ${error}`,
+      };
+    }
+  }
+
+  async getOrderInvoices(orderId: string): Promise<ApiResponse<Invoice[]>> {
+    try {
+      return await this.invoiceRepository.findByOrderId(orderId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get invoices: ${error}`,
+      };
+    }
+  }
+
+  async renderPdf(invoice: Invoice): Promise<ApiResponse<Uint8Array>> {
+    try {
+      return {
+        success: true,
+        data: await this.invoicePdfService.generate(invoice),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to render invoice ${invoice.invoiceNumber}: ${error}`,
+      };
+    }
+  }
+
+  private async findOrderInvoice(orderId: string): Promise<ApiResponse<Invoice | null>> {
+    const result = await this.invoiceRepository.findByOrderId(orderId);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: (result.data || []).find(invoice => invoice.type === 'invoice') || null,
+    };
+  }
+
+  /**
+   * Orders placed before the breakdown was stored were all charged Swedish VAT
+   */
+  private getOrderBreakdown(order: Order): VatRateBreakdown[] {
+    if (order.vatBreakdown && order.vatBreakdown.length > 0) {
+      return order.vatBreakdown;
+    }
+
+    return [{
+      rate: this.taxCalculator.getTaxRate('SE'),
+      net: round(order.total - order.tax),
+      vat: order.tax,
+      gross: order.total,
+    }];
+  }
+
+  private buildBreakdown(grossByRate: Map<number, number>, total: number): VatRateBreakdown[] {
+    const rates = Array.from(grossByRate.keys()).sort((a, b) => b - a);
+    const grossAmounts = rates.map(rate => round(grossByRate.get(rate)!));
+
+    // Keep the rounded rates adding up to the amount credited
+    if (grossAmounts.length > 0) {
+      grossAmounts[0] = round(grossAmounts[0] + total - grossAmounts.reduce((sum, gross) => sum + gross, 0));
+    }
+
+    return rates.map((rate, index) => {
+      const gross = grossAmounts[index];
+      const vat = round(gross * rate / (1 + rate));
+      return {
+        rate,
+        net: round(gross - vat),
+        vat,
+        gross,
+      };
+    });
+  }
+
+  private getSeller(): InvoiceParty {
+    const { legalName, orgNumber, vatNumber, registeredOffice, fTaxApproved } = config.company;
+
+    return {
+      name: legalName,
+      address: {
+        street: SENDER_ADDRESS.street,
+        postalCode: SENDER_ADDRESS.postalCode,
+        city: SENDER_ADDRESS.city,
+        country: SENDER_ADDRESS.country,
+      },
+      orgNumber: orgNumber || undefined,
+      vatNumber: vatNumber || (orgNumber ? `SE${orgNumber.replace(/\D/g, '')}01` : undefined),
+      registeredOffice,
+      fTaxApproved,
+    };
+  }
+
+  private getBuyer(order: Order): InvoiceParty {
+    const address = order.billingAddress?.street ? order.billingAddress : order.shippingAddress;
+    const name = `${address.firstName || ''} ${address.lastName || ''}`.trim();
+
+    return {
+      name,
+      address,
+    };
+  }
+}
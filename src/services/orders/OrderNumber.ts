@@ -0,0 +1,25 @@
+/**
+ * Order Numbers
+ *
+ * Customer-facing order numbers look like FE-2026-000123: the year the order
+ * was placed and its place in that year's series. They are assigned by the
+ * database when an order is inserted (migration 023), so this module only
+ * recognises them in what customers and admins type.
+ */
+
+const ORDER_NUMBER_PATTERN = /^FE-(\d{4})-(\d{1,9})$/i;
+
+/**
+ * The canonical form of an order number, or null if the value is not one.
+ * Case and missing leading zeros are forgiven, so "fe-2026-123" finds
+ * FE-2026-000123.
+ */
+export function parseOrderNumber(value: string): string | null {
+  const match = ORDER_NUMBER_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, sequence] = match;
+  return `FE-${year}-${sequence.padStart(6, '0')}`;
+}
@@ -6,11 +6,36 @@ import type {
   IShippingService,
   IInventoryService,
   IOrderRepository,
-  IProductService
+  IShipmentRepository,
+  IProductService,
+  IKlarnaOrderManagementService,
+  IPromotionService,
+  IInvoiceService,
+  ITaxCalculator
 } from '@/interfaces';
-import { CreateOrderData } from '@/interfaces';
-import { Order, ApiResponse, CartItem, OrderItem } from '@/types';
+import { CreateOrderData, OrderStatusChangeSource, OrderTotals, OrderTotalsInput } from '@/interfaces';
+import {
+  Order,
+  ApiResponse,
+  CartItem,
+  OrderItem,
+  OrderStatistics,
+  OrderStatus,
+  OrderStatusChange,
+  OrderStatusStep,
+  PaymentStatus,
+  AppliedDiscount,
+  DiscountRedemption,
+  ProductCategory,
+  VatCalculation
+} from '@/types';
 import { TOKENS } from '@/config/di-container';
+import { canTransition } from '@/services/orders/OrderStateMachine';
+import { parseOrderNumber } from '@/services/orders/OrderNumber';
+import type { KlarnaOrderLine } from '@/services/payment/providers/KlarnaPaymentProvider';
+
+// Statuses the warehouse moves orders to that need nothing done afterwards
+const WAREHOUSE_STATUSES: OrderStatus[] = ['picking', 'packed'];
 
 @injectable()
 export class OrderService implements IOrderService {
@@ -20,21 +45,23 @@ export class OrderService implements IOrderService {
     @inject(TOKENS.IPaymentService) private readonly paymentService: IPaymentService,
     @inject(TOKENS.IShippingService) private readonly shippingService: IShippingService,
     @inject(TOKENS.IInventoryService) private readonly inventoryService: IInventoryService,
-    @inject(TOKENS.IProductService) private readonly productService: IProductService
+    @inject(TOKENS.IProductService) private readonly productService: IProductService,
+    @inject(TOKENS.IKlarnaOrderManagementService) private readonly klarnaOrderManagement: IKlarnaOrderManagementService,
+    @inject(TOKENS.IPromotionService) private readonly promotionService: IPromotionService,
+    @inject(TOKENS.TaxCalculator) private readonly taxCalculator: ITaxCalculator,
+    @inject(TOKENS.IShipmentRepository) private readonly shipmentRepository: IShipmentRepository,
+    @inject(TOKENS.IInvoiceService) private readonly invoiceService: IInvoiceService
   ) {}
 
-  async createOrder(orderData: CreateOrderData): Promise<ApiResponse<Order>> {
+  async createOrder(input: CreateOrderData): Promise<ApiResponse<Order>> {
     try {
-      // Validate cart items and check stock
-      const stockValidation = await this.validateOrderStock(orderData.items);
-      if (!stockValidation.success) {
-        return { success: false, error: stockValidation.error };
+      // Items are priced from the catalogue, whatever the client sent, so the free-shipping threshold is too
+      const catalogueResult = await this.priceFromCatalogue(input.items);
+      if (!catalogueResult.success) {
+        return { success: false, error: catalogueResult.error };
       }
+      const orderData: CreateOrderData = { ...input, items: catalogueResult.data! };
 
-      // Calculate totals
-      const subtotal = orderData.items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-      const tax = subtotal * 0.25; // 25% Swedish VAT
-      
       // Get shipping cost
       const shippingResult = await this.shippingService.calculateShipping(orderData.items, orderData.shippingAddress.country);
       if (!shippingResult.success) {
@@ -44,74 +71,156 @@ export class OrderService implements IOrderService {
         };
       }
 
-      const shippingCost = shippingResult.data!.price;
-      const totalAmount = subtotal + tax + shippingCost;
-
-      // Process payment
-      const paymentResult = await this.paymentService.processPayment({
-        amount: totalAmount,
-        currency: 'SEK',
-        method: orderData.paymentMethod,
-        orderId: `temp_${Date.now()}`,
+      // Price the order for the destination country and re-validate the discount code
+      const pricingResult = await this.priceOrder({
         customerId: orderData.customerId,
-        metadata: {
-          shippingAddress: JSON.stringify(orderData.shippingAddress),
-          billingAddress: JSON.stringify(orderData.billingAddress),
-        },
+        items: orderData.items,
+        country: orderData.shippingAddress.country,
+        shippingCost: shippingResult.data!.price,
+        discountCode: orderData.discountCode,
       });
+      if (!pricingResult.success) {
+        return { success: false, error: pricingResult.error };
+      }
 
-      if (!paymentResult.success) {
+      const { pricedItems, chargedShipping, discount, shippingCost, vat } = pricingResult.data!;
+      const tax = vat.vat;
+      const totalAmount = vat.total;
+
+      // The delivery day promised at checkout; the order goes through without one
+      const deliveryEstimate = await this.shippingService.estimateDeliveryDate(
+        orderData.shippingRateId,
+        orderData.shippingAddress.postalCode
+      );
+      if (!deliveryEstimate.success) {
+        console.error(`Failed to estimate delivery for shipping rate ${orderData.shippingRateId}:`, deliveryEstimate.error);
+      }
+
+      // The box from the catalogue the warehouse packs the order in; the order goes through without one
+      const packing = await this.shippingService.packItems(orderData.items);
+      if (!packing.success) {
+        console.error('Failed to choose a box for the order:', packing.error);
+      }
+
+      // Service point and locker rates need a pickup point that exists for the rate's carrier,
+      // whatever the client sent; home delivery rates take none
+      const pickupPointResult = await this.shippingService.getPickupPointForRate(
+        orderData.shippingRateId,
+        orderData.pickupPointId
+      );
+      if (!pickupPointResult.success) {
         return {
           success: false,
-          error: `Payment processing failed: ${paymentResult.error}`,
+          error: `Pickup point unavailable: ${pickupPointResult.error}`,
         };
       }
+      const pickupPoint = pickupPointResult.data;
+
+      const metadata: Record<string, string> = {
+        shippingAddress: JSON.stringify(orderData.shippingAddress),
+        billingAddress: JSON.stringify(orderData.billingAddress),
+      };
+      if (orderData.paymentMethod === 'klarna') {
+        metadata.country = vat.country;
+        metadata.orderLines = JSON.stringify(
+          this.buildKlarnaOrderLines(pricedItems, chargedShipping, vat.country, discount)
+        );
+      }
 
-      // Reserve stock
-      const stockReservation = await this.inventoryService.reserveStock(orderData.items);
+      // Hold the stock before taking payment so it cannot sell out mid-payment
+      const stockReservation = await this.holdStockForPayment(orderData);
       if (!stockReservation.success) {
         return {
           success: false,
           error: `Stock reservation failed: ${stockReservation.error}`,
         };
       }
+      const reservationId = stockReservation.data!;
+
+      // Take a use of the discount code before payment so a limited code cannot be used up mid-payment
+      let redemption: DiscountRedemption | undefined;
+      if (discount) {
+        const redemptionResult = await this.promotionService.redeemCode(discount, orderData.customerId);
+        if (!redemptionResult.success) {
+          if (reservationId !== orderData.reservationId) {
+            await this.inventoryService.releaseReservation(reservationId);
+          }
+          return { success: false, error: redemptionResult.error };
+        }
+        redemption = redemptionResult.data!;
+      }
 
-      // Transform CartItems to OrderItems
-      const orderItemsResult = await this.transformCartItemsToOrderItems(orderData.items);
-      if (!orderItemsResult.success) {
+      // Process payment
+      const paymentResult = await this.paymentService.processPayment({
+        amount: totalAmount,
+        currency: 'SEK',
+        method: orderData.paymentMethod,
+        orderId: `temp_${Date.now()}`,
+        customerId: orderData.customerId,
+        metadata,
+      });
+
+      if (!paymentResult.success) {
+        // The checkout's own reservation stays, so the customer can try another way to pay
+        if (reservationId !== orderData.reservationId) {
+          await this.inventoryService.releaseReservation(reservationId);
+        }
+        if (redemption) {
+          await this.releaseDiscountRedemption(redemption.id);
+        }
         return {
           success: false,
-          error: `Failed to prepare order items: ${orderItemsResult.error}`,
+          error: `Payment processing failed: ${paymentResult.error}`,
         };
       }
 
       // Create order
       const order = await this.orderRepository.create({
         customerId: orderData.customerId,
-        items: orderItemsResult.data!,
+        items: pricedItems.map(({ item }) => item),
         total: totalAmount,
         tax,
         shipping: shippingCost,
-        status: paymentResult.data!.status === 'success' ? 'confirmed' : 'pending',
+        status: paymentResult.data!.status === 'success' ? 'paid' : 'pending',
         shippingAddress: orderData.shippingAddress,
         billingAddress: orderData.billingAddress,
         paymentMethod: orderData.paymentMethod,
         paymentId: paymentResult.data!.paymentId,
+        paymentStatus: this.getInitialPaymentStatus(orderData.paymentMethod, paymentResult.data!.status),
         trackingNumber: undefined,
+        carrier: pickupPoint?.carrierCode,
+        discount,
+        vatScheme: vat.scheme,
+        vatBreakdown: vat.breakdown,
+        reservationId,
+        estimatedDelivery: deliveryEstimate.data,
+        pickupPoint,
+        locale: orderData.locale,
+        packagingBox: packing.data?.box?.code,
       });
 
       if (!order.success) {
-        // Release stock reservation if order creation fails
-        await this.inventoryService.releaseReservation(stockReservation.data!);
+        // Release stock reservation and discount code if order creation fails
+        await this.inventoryService.releaseReservation(reservationId);
+        if (redemption) {
+          await this.releaseDiscountRedemption(redemption.id);
+        }
         return order;
       }
 
-      // Mark reservation as completed (order finalized)
-      await this.inventoryService.completeReservation(stockReservation.data!);
+      // Pending payments keep the stock held until they settle
+      if (order.data!.status === 'paid') {
+        await this.takeReservedStock(order.data!);
+        await this.issueInvoice(order.data!);
+      }
+
+      await this.linkPaymentToOrder(order.data!);
 
-      // Create shipment if payment was successful
-      if (paymentResult.data!.status === 'success') {
-        await this.createShipment(order.data!.id, orderData.shippingRateId);
+      if (redemption) {
+        const assignment = await this.promotionService.assignRedemption(redemption.id, order.data!.id);
+        if (!assignment.success) {
+          console.error(`Failed to assign discount redemption ${redemption.id} to order ${order.data!.id}:`, assignment.error);
+        }
       }
 
       // Clear cart after successful order
@@ -130,9 +239,42 @@ export class OrderService implements IOrderService {
     }
   }
 
-  async getOrder(id: string): Promise<ApiResponse<Order>> {
+  async calculateTotals(input: OrderTotalsInput): Promise<ApiResponse<OrderTotals>> {
+    try {
+      const pricingResult = await this.priceOrder(input);
+      if (!pricingResult.success) {
+        return { success: false, error: pricingResult.error };
+      }
+
+      const { pricedItems, discount, shippingCost, vat } = pricingResult.data!;
+      const items = pricedItems.map(({ item }) => item);
+
+      return {
+        success: true,
+        data: {
+          items,
+          subtotal: Math.round(items.reduce((sum, item) => sum + item.total, 0) * 100) / 100,
+          discount,
+          shipping: shippingCost,
+          vat,
+          total: vat.total,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to calculate order totals: ${error}`,
+      };
+    }
+  }
+
+  async getOrder(idOrNumber: string): Promise<ApiResponse<Order>> {
     try {
-      return await this.orderRepository.findById(id);
+      const orderNumber = parseOrderNumber(idOrNumber);
+      if (orderNumber) {
+        return await this.orderRepository.findByOrderNumber(orderNumber);
+      }
+      return await this.orderRepository.findById(idOrNumber);
     } catch (error) {
       return {
         success: false,
@@ -145,6 +287,17 @@ export class OrderService implements IOrderService {
     return this.getOrder(id);
   }
 
+  async getOrderByPaymentId(paymentId: string): Promise<ApiResponse<Order>> {
+    try {
+      return await this.orderRepository.findByPaymentId(paymentId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get order by payment ID: ${error}`,
+      };
+    }
+  }
+
   async getUserOrders(userId: string): Promise<ApiResponse<Order[]>> {
     try {
       return await this.orderRepository.findByCustomerId(userId);
@@ -156,36 +309,38 @@ export class OrderService implements IOrderService {
     }
   }
 
-  async updateOrderStatus(orderId: string, status: string): Promise<ApiResponse<Order>> {
+  async updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    change: OrderStatusChangeSource
+  ): Promise<ApiResponse<Order>> {
     try {
-      const result = await this.orderRepository.updateStatus(orderId, status as any);
-      
+      const orderResult = await this.orderRepository.findById(orderId);
+      if (!orderResult.success) {
+        return orderResult;
+      }
+
+      const result = await this.transitionOrder(orderResult.data!, status, change);
       if (!result.success) {
         return result;
       }
 
-      // Handle status-specific actions
+      // Handle status-specific actions; paid orders wait for their shipments
       switch (status) {
-        case 'confirmed':
-          // Create shipment if not exists
-          const order = result.data!;
-          if (!order.trackingNumber) {
-            await this.createShipmentForOrder(order);
-          }
+        case 'paid':
+          // The payment settled, so the held stock leaves the shelf
+          await this.takeReservedStock(result.data!);
+          await this.issueInvoice(result.data!);
           break;
-        
+
         case 'shipped':
-          // Send notification email (would be implemented)
-          break;
-        
-        case 'delivered':
-          // Update inventory and release any reservations
-          await this.finalizeOrderInventory(orderId);
+          // Charge the Klarna authorization now that the goods are on their way
+          await this.captureKlarnaPayment(result.data!);
           break;
         
         case 'cancelled':
           // Refund payment and release stock
-          await this.handleOrderCancellation(orderId);
+          await this.handleOrderCancellation(orderResult.data!);
           break;
       }
 
@@ -199,7 +354,52 @@ export class OrderService implements IOrderService {
     }
   }
 
-  async cancelOrder(orderId: string): Promise<ApiResponse<Order>> {
+  /**
+   * The steps have no follow-up actions, unlike paid, shipped or cancelled, so
+   * they can all be written in one transaction
+   */
+  async transitionOrders(steps: OrderStatusStep[], change: OrderStatusChangeSource): Promise<ApiResponse<Order[]>> {
+    try {
+      const invalid = steps.find(step => !WAREHOUSE_STATUSES.includes(step.to) || !canTransition(step.from, step.to));
+      if (invalid) {
+        return {
+          success: false,
+          error: `Order ${invalid.orderId} cannot change from ${invalid.from} to ${invalid.to} in a batch`,
+        };
+      }
+
+      return await this.orderRepository.transitionStatuses(steps, change.actor, change.reason);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update order statuses: ${error}`,
+      };
+    }
+  }
+
+  async getOrderStatusHistory(orderId: string): Promise<ApiResponse<OrderStatusChange[]>> {
+    try {
+      return await this.orderRepository.findStatusHistory(orderId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get order status history: ${error}`,
+      };
+    }
+  }
+
+  async updatePaymentStatus(orderId: string, paymentStatus: PaymentStatus): Promise<ApiResponse<Order>> {
+    try {
+      return await this.orderRepository.update(orderId, { paymentStatus });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update payment status: ${error}`,
+      };
+    }
+  }
+
+  async cancelOrder(orderId: string, change: OrderStatusChangeSource): Promise<ApiResponse<Order>> {
     try {
       const orderResult = await this.orderRepository.findById(orderId);
       if (!orderResult.success) {
@@ -209,18 +409,20 @@ export class OrderService implements IOrderService {
       const order = orderResult.data!;
 
       // Check if order can be cancelled
-      if (['delivered', 'shipped'].includes(order.status)) {
+      if (!canTransition(order.status, 'cancelled')) {
         return {
           success: false,
-          error: 'Order cannot be cancelled after shipping',
+          error: order.status === 'cancelled'
+            ? 'Order is already cancelled'
+            : 'Order cannot be cancelled after shipping',
         };
       }
 
       // Cancel order
-      const result = await this.orderRepository.updateStatus(orderId, 'cancelled');
+      const result = await this.transitionOrder(order, 'cancelled', change);
       
       if (result.success) {
-        await this.handleOrderCancellation(orderId);
+        await this.handleOrderCancellation(order);
       }
 
       return result;
@@ -245,14 +447,7 @@ export class OrderService implements IOrderService {
     }
   }
 
-  async getOrderStatistics(customerId?: string): Promise<ApiResponse<{
-    total: number;
-    pending: number;
-    confirmed: number;
-    shipped: number;
-    delivered: number;
-    cancelled: number;
-  }>> {
+  async getOrderStatistics(customerId?: string): Promise<ApiResponse<OrderStatistics>> {
     try {
       return await this.orderRepository.getOrderStatistics(customerId);
     } catch (error) {
@@ -316,18 +511,100 @@ export class OrderService implements IOrderService {
   // Private helper methods
 
   /**
-   * Transforms CartItems to OrderItems by enriching them with product information.
-   * This method fetches product names and calculates item totals.
+   * Prices an order for its destination: charged item and shipping prices, the
+   * re-validated discount (the amount shown at checkout is not trusted) and the VAT
+   */
+  private async priceOrder(input: OrderTotalsInput): Promise<ApiResponse<{
+    pricedItems: Array<{ item: OrderItem; category: ProductCategory }>;
+    chargedShipping: number;
+    discount?: AppliedDiscount;
+    shippingCost: number;
+    vat: VatCalculation;
+  }>> {
+    const { country } = input;
+
+    // Exports are charged without Swedish VAT
+    const pricedResult = await this.priceOrderItems(input.items, country);
+    if (!pricedResult.success) {
+      return {
+        success: false,
+        error: `Failed to prepare order items: ${pricedResult.error}`,
+      };
+    }
+
+    const pricedItems = pricedResult.data!;
+    const chargedShipping = this.taxCalculator.getChargedPrice(input.shippingCost, country);
+
+    let discount: AppliedDiscount | undefined;
+    if (input.discountCode) {
+      const discountResult = await this.promotionService.validateCode(input.discountCode, {
+        customerId: input.customerId,
+        items: input.items.map((cartItem, index) => ({ ...cartItem, price: pricedItems[index].item.price })),
+        shippingCost: chargedShipping,
+      });
+      if (!discountResult.success) {
+        return {
+          success: false,
+          error: discountResult.error,
+        };
+      }
+      discount = discountResult.data!;
+    }
+
+    // Prices include VAT; the discount reduces the amount the VAT is worked out from
+    const shippingCost = discount?.freeShipping ? 0 : chargedShipping;
+    const vat = this.taxCalculator.calculate({
+      country,
+      lines: pricedItems.map(({ item, category }) => ({ amount: item.total, category })),
+      shipping: shippingCost,
+      discount: discount && !discount.freeShipping ? discount.amount : 0,
+    });
+
+    return {
+      success: true,
+      data: { pricedItems, chargedShipping, discount, shippingCost, vat },
+    };
+  }
+
+  /**
+   * The cart items with the current catalogue price; a bundle is priced as its bundle product
+   */
+  private async priceFromCatalogue(cartItems: CartItem[]): Promise<ApiResponse<CartItem[]>> {
+    const items: CartItem[] = [];
+    for (const cartItem of cartItems) {
+      const productResult = await this.productService.getProduct(cartItem.productId);
+      if (!productResult.success || !productResult.data) {
+        return {
+          success: false,
+          error: `Product with ID ${cartItem.productId} not found`,
+        };
+      }
+      items.push({ ...cartItem, price: productResult.data.price });
+    }
+
+    return {
+      success: true,
+      data: items,
+    };
+  }
+
+  /**
+   * Transforms CartItems to OrderItems priced for the destination country.
+   * This method fetches product names, prices and categories and calculates item totals.
    *
    * @param cartItems - Array of cart items to transform
-   * @returns ApiResponse containing array of OrderItems or error
+   * @param country - Shipping destination, deciding whether Swedish VAT is charged
+   * @returns ApiResponse containing OrderItems with their product category, or error
    */
-  private async transformCartItemsToOrderItems(cartItems: CartItem[]): Promise<ApiResponse<OrderItem[]>> {
+  private async priceOrderItems(
+    cartItems: CartItem[],
+    country: string
+  ): Promise<ApiResponse<Array<{ item: OrderItem; category: ProductCategory }>>> {
     try {
-      const orderItems: OrderItem[] = [];
+      const pricedItems: Array<{ item: OrderItem; category: ProductCategory }> = [];
 
       for (const cartItem of cartItems) {
-        // Fetch product details to get the product name
+        // Fetch product details for the name and the category's VAT rate
         const productResult = await this.productService.getProduct(cartItem.productId);
 
         if (!productResult.success || !productResult.data) {
@@ -337,23 +614,29 @@ export class OrderService implements IOrderService {
           };
         }
 
+        // Priced from the catalogue, whatever the client sent
         const product = productResult.data;
+        const price = this.taxCalculator.getChargedPrice(product.price, country, product.category);
 
         // Transform CartItem to OrderItem
-        const orderItem: OrderItem = {
-          productId: cartItem.productId,
-          productName: product.name,
-          quantity: cartItem.quantity,
-          price: cartItem.price,
-          total: cartItem.price * cartItem.quantity,
-        };
-
-        orderItems.push(orderItem);
+        pricedItems.push({
+          item: {
+            productId: cartItem.productId,
+            productName: product.name,
+            quantity: cartItem.quantity,
+            price,
+            total: Math.round(price * cartItem.quantity * 100) / 100,
+            vatRate: this.taxCalculator.getTaxRate(country, product.category),
+            category: product.category,
+            costPrice: product.costPrice,
+          },
+          category: product.category,
+        });
       }
 
       return {
         success: true,
-        data: orderItems,
+        data: pricedItems,
       };
 
     } catch (error) {
@@ -364,104 +647,247 @@ export class OrderService implements IOrderService {
     }
   }
 
-  private async validateOrderStock(items: CartItem[]): Promise<ApiResponse<boolean>> {
-    try {
-      for (const item of items) {
-        const availability = await this.inventoryService.checkAvailability(item.productId, item.quantity);
-        if (!availability.success || !availability.data) {
-          return {
-            success: false,
-            error: `Product is not available in requested quantity`,
-          };
-        }
-      }
+  /**
+   * Builds Klarna order lines (VAT-inclusive, as Klarna expects) so the discount
+   * appears on the customer's Klarna invoice as its own line
+   */
+  private buildKlarnaOrderLines(
+    pricedItems: Array<{ item: OrderItem; category: ProductCategory }>,
+    shippingCost: number,
+    country: string,
+    discount?: AppliedDiscount
+  ): KlarnaOrderLine[] {
+    const line = (
+      fields: Omit<KlarnaOrderLine, 'tax_rate' | 'total_tax_amount'>,
+      rate: number
+    ): KlarnaOrderLine => ({
+      ...fields,
+      tax_rate: Math.round(rate * 10000),
+      total_tax_amount: Math.round(fields.total_amount * rate / (1 + rate) * 100) / 100,
+    });
+
+    const standardRate = this.taxCalculator.getTaxRate(country);
+    const lines: KlarnaOrderLine[] = pricedItems.map(({ item, category }) => line({
+      type: 'physical',
+      reference: item.productId,
+      name: item.productName,
+      quantity: item.quantity,
+      unit_price: item.price,
+      total_amount: item.total,
+    }, this.taxCalculator.getTaxRate(country, category)));
+
+    if (shippingCost > 0) {
+      lines.push(line({
+        type: 'shipping_fee',
+        name: 'Shipping',
+        quantity: 1,
+        unit_price: shippingCost,
+        total_amount: shippingCost,
+      }, standardRate));
+    }
 
+    if (discount && discount.amount > 0) {
+      lines.push(line({
+        type: 'discount',
+        reference: discount.code,
+        name: discount.description || `Discount ${discount.code}`,
+        quantity: 1,
+        unit_price: -discount.amount,
+        total_amount: -discount.amount,
+      }, standardRate));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Moves an order to a new status if the state machine allows it from the
+   * status it is in, and records who made the change
+   */
+  private async transitionOrder(
+    order: Order,
+    to: OrderStatus,
+    change: OrderStatusChangeSource,
+    trackingNumber?: string
+  ): Promise<ApiResponse<Order>> {
+    if (order.status === to) {
       return {
-        success: true,
-        data: true,
+        success: false,
+        error: `Order is already ${to}`,
       };
+    }
 
-    } catch (error) {
+    if (!canTransition(order.status, to)) {
       return {
         success: false,
-        error: `Stock validation failed: ${error}`,
+        error: `Order cannot change from ${order.status} to ${to}`,
       };
     }
+
+    return this.orderRepository.transitionStatus(order.id, {
+      from: order.status,
+      to,
+      actor: change.actor,
+      reason: change.reason,
+      trackingNumber,
+    });
   }
 
-  private async createShipment(orderId: string, shippingRateId: string): Promise<void> {
-    try {
-      const shipmentResult = await this.shippingService.createShipment(orderId, shippingRateId);
-      
-      if (shipmentResult.success) {
-        const shipment = shipmentResult.data!;
-        await this.orderRepository.updateStatus(orderId, 'shipped', shipment.trackingNumber);
-      }
+  /**
+   * Gives back the use of a discount code taken for a checkout that did not
+   * become an order
+   */
+  private async releaseDiscountRedemption(redemptionId: string): Promise<void> {
+    const result = await this.promotionService.releaseRedemption(redemptionId);
+    if (!result.success) {
+      console.error(`Failed to release discount redemption ${redemptionId}:`, result.error);
+    }
+  }
 
-    } catch (error) {
-      console.error('Failed to create shipment:', error);
+  /**
+   * The payment was created under a temporary id before the order existed;
+   * tell the provider which order it belongs to. A failure here does not undo
+   * the order, the payment can still be matched by its payment id.
+   */
+  private async linkPaymentToOrder(order: Order): Promise<void> {
+    const result = order.paymentMethod === 'klarna'
+      ? await this.klarnaOrderManagement.setMerchantReferences(order)
+      : await this.paymentService.attachOrderReference(order.paymentId, order.paymentMethod, order);
+
+    if (!result.success) {
+      console.error(`Failed to link payment ${order.paymentId} to order ${order.orderNumber}:`, result.error);
     }
   }
 
-  private async createShipmentForOrder(order: Order): Promise<void> {
+  /**
+   * Gives the stock of a cancelled order back. Takes the order as it was
+   * before the cancellation: an unpaid order only held its stock, a paid
+   * one has already taken it off the shelf.
+   */
+  private async handleOrderCancellation(order: Order): Promise<void> {
+    const orderId = order.id;
     try {
-      // Use default shipping rate for the country
-      const shippingRates = await this.shippingService.getShippingRates(
-        order.shippingAddress.country,
-        this.calculateOrderWeight(order.items)
-      );
+      if (order.status === 'pending') {
+        if (order.reservationId) {
+          await this.inventoryService.releaseReservation(order.reservationId);
+        }
+      } else {
+        for (const item of order.items) {
+          const restock = await this.inventoryService.updateStock(item.productId, item.quantity);
+          if (!restock.success) {
+            console.error(`Failed to restock ${item.productId} for cancelled order ${orderId}:`, restock.error);
+          }
+        }
+      }
 
-      if (shippingRates.success && shippingRates.data!.length > 0) {
-        const defaultRate = shippingRates.data![0];
-        await this.createShipment(order.id, defaultRate.id);
+      // Klarna authorizations are released rather than refunded
+      if (order.paymentMethod === 'klarna' && this.hasOpenKlarnaAuthorization(order)) {
+        const release = await this.klarnaOrderManagement.releaseAuthorization(order);
+        if (!release.success) {
+          console.error(`Failed to release Klarna authorization for order ${orderId}:`, release.error);
+        }
+      } else if (order.paymentId) {
+        // Process refund (would be implemented with payment providers)
+        console.log(`Refund needed for payment ${order.paymentId}`);
       }
 
     } catch (error) {
-      console.error('Failed to create shipment for order:', error);
+      console.error('Failed to handle order cancellation:', error);
     }
   }
 
-  private calculateOrderWeight(items: OrderItem[]): number {
-    // Simplified weight calculation - would use actual product weights
-    return items.reduce((total, item) => total + (item.quantity * 0.5), 0); // 0.5kg per item
-  }
+  /**
+   * Klarna payments are authorized at checkout and captured when the order ships.
+   * A failed capture leaves the order authorized, so it shows up in the expiry report.
+   * Orders sent in shipments are captured one shipment at a time by ShipmentService.
+   */
+  private async captureKlarnaPayment(order: Order): Promise<void> {
+    if (order.paymentMethod !== 'klarna' || !this.hasOpenKlarnaAuthorization(order)) {
+      return;
+    }
 
-  private async handleOrderCancellation(orderId: string): Promise<void> {
-    try {
-      const orderResult = await this.orderRepository.findById(orderId);
-      if (!orderResult.success) return;
+    const shipments = await this.shipmentRepository.findByOrderId(order.id);
+    if (!shipments.success) {
+      console.error(`Failed to check shipments before capturing Klarna payment for order ${order.id}:`, shipments.error);
+      return;
+    }
+    if (shipments.data!.length > 0) {
+      return;
+    }
 
-      const order = orderResult.data!;
+    const capture = await this.klarnaOrderManagement.captureOrder(order, {
+      carrier: order.carrier,
+      trackingNumber: order.trackingNumber,
+    });
 
-      // Release stock reservations
-      if (order.items) {
-        await this.inventoryService.releaseReservation(orderId);
-      }
+    if (!capture.success) {
+      console.error(`Failed to capture Klarna payment for order ${order.id}:`, capture.error);
+    }
+  }
 
-      // Process refund (would be implemented with payment providers)
-      if (order.paymentId) {
-        console.log(`Refund needed for payment ${order.paymentId}`);
+  private hasOpenKlarnaAuthorization(order: Order): boolean {
+    return order.paymentStatus === 'authorized' || order.paymentStatus === 'partially_captured';
+  }
+
+  private getInitialPaymentStatus(paymentMethod: string, processorStatus: string): PaymentStatus {
+    if (processorStatus !== 'success') {
+      return 'pending';
+    }
+    // Klarna only authorizes at checkout; the charge happens on capture
+    return paymentMethod === 'klarna' ? 'authorized' : 'paid';
+  }
+
+  /**
+   * Extends the reservation made when checkout started to cover the payment.
+   * Orders placed without one, or whose reservation lapsed, reserve afresh.
+   */
+  private async holdStockForPayment(orderData: CreateOrderData): Promise<ApiResponse<string>> {
+    if (orderData.reservationId) {
+      const extension = await this.inventoryService.extendReservation(orderData.reservationId, undefined, orderData.items);
+      if (extension.success) {
+        return { success: true, data: orderData.reservationId };
       }
+    }
 
-    } catch (error) {
-      console.error('Failed to handle order cancellation:', error);
+    // A lapsed checkout reservation, or one for a different cart, is replaced
+    const reservation = await this.inventoryService.reserveStock(
+      orderData.items,
+      orderData.customerId,
+      orderData.sessionId,
+      orderData.reservationId
+    );
+    if (!reservation.success) {
+      return reservation;
     }
+
+    await this.inventoryService.extendReservation(reservation.data!);
+    return reservation;
   }
 
-  private async finalizeOrderInventory(orderId: string): Promise<void> {
-    try {
-      const orderResult = await this.orderRepository.findById(orderId);
-      if (!orderResult.success) return;
 
-      const order = orderResult.data!;
+  /**
+   * The payment has been taken, so a failure here does not undo the order;
+   * it is logged for the stock to be corrected by hand.
+   */
+  private async takeReservedStock(order: Order): Promise<void> {
+    if (!order.reservationId) {
+      return;
+    }
 
-      // Update actual stock levels
-      for (const item of order.items) {
-        await this.inventoryService.updateStock(item.productId, -item.quantity);
-      }
+    const result = await this.inventoryService.completeReservation(order.reservationId, order.id);
+    if (!result.success) {
+      console.error(`Failed to take reserved stock for order ${order.orderNumber}:`, result.error);
+    }
+  }
 
-    } catch (error) {
-      console.error('Failed to finalize order inventory:', error);
+  /**
+   * Every paid order gets its invoice, whichever provider settled it. Issuing
+   * is idempotent, so a failure is logged and the invoice issued again later.
+   */
+  private async issueInvoice(order: Order): Promise<void> {
+    const result = await this.invoiceService.issueInvoice(order.id);
+    if (!result.success) {
+      console.error(`Failed to issue invoice for order ${order.orderNumber}:`, result.error);
     }
   }
 }
@@ -0,0 +1,84 @@
+/**
+ * Order State Machine
+ *
+ * The statuses an order moves through and the changes allowed between them.
+ * Every status change goes through OrderService.updateOrderStatus, which checks
+ * it against this table before it is written to the order and its history.
+ */
+
+import type { OrderStatus } from '@/types';
+
+// In the order an order normally passes through them
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'paid',
+  'picking',
+  'packed',
+  'shipped',
+  'in_transit',
+  'delivered',
+  'returned',
+  'refunded',
+  'cancelled',
+];
+
+// Paid orders may ship straight away when no warehouse step is recorded, and
+// the carrier may report delivery without an in-transit scan
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['picking', 'shipped', 'cancelled'],
+  picking: ['packed', 'cancelled'],
+  packed: ['shipped', 'cancelled'],
+  shipped: ['in_transit', 'delivered', 'returned'],
+  in_transit: ['delivered', 'returned'],
+  delivered: ['returned'],
+  returned: ['refunded'],
+  refunded: [],
+  cancelled: [],
+};
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as string[]).includes(value);
+}
+
+export function getAllowedTransitions(from: OrderStatus): OrderStatus[] {
+  return [...TRANSITIONS[from]];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function isFinalStatus(status: OrderStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+/**
+ * The statuses an order passes through to get from one status to another,
+ * excluding the one it starts in, e.g. paid -> packed is [picking, packed].
+ * Null if the order cannot get there.
+ */
+export function findTransitionPath(from: OrderStatus, to: OrderStatus): OrderStatus[] | null {
+  const previous = new Map<OrderStatus, OrderStatus>();
+  const queue: OrderStatus[] = [from];
+
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    if (status === to) {
+      const path: OrderStatus[] = [];
+      for (let step = to; step !== from; step = previous.get(step)!) {
+        path.unshift(step);
+      }
+      return path;
+    }
+
+    for (const next of TRANSITIONS[status]) {
+      if (next !== from && !previous.has(next)) {
+        previous.set(next, status);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
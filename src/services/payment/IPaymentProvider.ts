@@ -28,7 +28,8 @@ export interface IPaymentProvider {
 
   processPayment(paymentData: PaymentData): Promise<ApiResponse<PaymentResult>>;
   verifyPayment(paymentId: string): Promise<ApiResponse<boolean>>;
-  refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<void>>;
+  // Resolves with the provider's refund id when it hands one back
+  refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<string>>;
   cancelPayment(paymentId: string): Promise<ApiResponse<void>>;
 }
 
@@ -40,7 +41,7 @@ export abstract class BasePaymentProvider implements IPaymentProvider {
   abstract processPayment(paymentData: PaymentData): Promise<ApiResponse<PaymentResult>>;
   abstract verifyPayment(paymentId: string): Promise<ApiResponse<boolean>>;
 
-  async refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<void>> {
+  async refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<string>> {
     return {
       success: false,
       error: 'Refund not implemented for this provider',
@@ -0,0 +1,308 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IOrderRepository,
+  IPaymentEventRepository,
+  IKlarnaOrderManagementService,
+  KlarnaCaptureRequest,
+  KlarnaCaptureOutcome
+} from '@/interfaces';
+import type { ApiResponse, Order, PaymentStatus, ExpiringAuthorization } from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+import { KlarnaPaymentProvider, KlarnaOrder } from './providers/KlarnaPaymentProvider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Amounts within half an öre are treated as equal
+const AMOUNT_TOLERANCE = 0.005;
+
+/**
+ * Klarna Order Management Service
+ *
+ * Klarna payments are only authorized at checkout. The money is charged by
+ * capturing the authorization when goods ship, which may happen in several
+ * partial captures when an order ships in more than one parcel. Authorizations
+ * that are never captured expire (28 days by default), so open ones are
+ * reported to admins before that happens.
+ *
+ * Order payment status is kept in sync: authorized -> partially_captured -> paid,
+ * or authorized -> cancelled when the order is cancelled before shipping.
+ */
+@injectable()
+export class KlarnaOrderManagementService implements IKlarnaOrderManagementService {
+  private readonly provider = 'klarna';
+
+  constructor(
+    @inject(TOKENS.IOrderRepository) private readonly orderRepository: IOrderRepository,
+    @inject(TOKENS.IPaymentEventRepository) private readonly paymentEventRepository: IPaymentEventRepository,
+    @inject(TOKENS.KlarnaPaymentProvider) private readonly klarnaProvider: KlarnaPaymentProvider
+  ) {}
+
+  async captureOrder(order: Order, request: KlarnaCaptureRequest = {}): Promise<ApiResponse<KlarnaCaptureOutcome>> {
+    try {
+      const klarnaOrderResult = await this.getKlarnaOrder(order);
+      if (!klarnaOrderResult.success || !klarnaOrderResult.data) {
+        return {
+          success: false,
+          error: klarnaOrderResult.error,
+        };
+      }
+
+      const klarnaOrder = klarnaOrderResult.data;
+
+      if (!['AUTHORIZED', 'PART_CAPTURED', 'CAPTURED'].includes(klarnaOrder.status)) {
+        return {
+          success: false,
+          error: `Klarna authorization for order ${order.id} is ${klarnaOrder.status}`,
+        };
+      }
+
+      const remaining = this.getRemainingAmount(klarnaOrder);
+
+      // Nothing left to capture, e.g. a repeated shipped update
+      if (remaining <= AMOUNT_TOLERANCE) {
+        if (order.paymentStatus !== 'paid') {
+          await this.orderRepository.update(order.id, { paymentStatus: 'paid' });
+        }
+        return {
+          success: true,
+          data: { orderId: order.id, capturedAmount: 0, remainingAmount: 0, paymentStatus: 'paid' },
+        };
+      }
+
+      const amount = request.amount ?? remaining;
+
+      if (amount <= 0 || amount > remaining + AMOUNT_TOLERANCE) {
+        return {
+          success: false,
+          error: `Capture amount ${amount} exceeds remaining Klarna authorization ${remaining}`,
+        };
+      }
+
+      const captureKey = `${order.id}-capture-${request.reference || 'remaining'}`;
+
+      const captureResult = await this.klarnaProvider.captureOrder(order.paymentId, amount, {
+        description: request.reference ? `Shipment ${request.reference}` : `Order ${order.orderNumber}`,
+        shippingInfo: request.trackingNumber
+          ? { shipping_company: request.carrier, tracking_number: request.trackingNumber }
+          : undefined,
+        idempotencyKey: captureKey,
+      });
+
+      if (!captureResult.success) {
+        return {
+          success: false,
+          error: captureResult.error || 'Failed to capture Klarna payment',
+        };
+      }
+
+      const remainingAmount = Math.max(0, Math.round((remaining - amount) * 100) / 100);
+      const paymentStatus: PaymentStatus = remainingAmount <= AMOUNT_TOLERANCE ? 'paid' : 'partially_captured';
+
+      const updateResult = await this.orderRepository.update(order.id, { paymentStatus });
+      if (!updateResult.success) {
+        console.error(`Captured Klarna payment but failed to update order ${order.id}:`, updateResult.error);
+      }
+
+      await this.recordEvent(order, 'capture', captureKey, 'CAPTURED', amount);
+
+      return {
+        success: true,
+        data: { orderId: order.id, capturedAmount: amount, remainingAmount, paymentStatus },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to capture Klarna payment: ${error}`,
+      };
+    }
+  }
+
+  async releaseAuthorization(order: Order): Promise<ApiResponse<PaymentStatus>> {
+    try {
+      const klarnaOrderResult = await this.getKlarnaOrder(order);
+      if (!klarnaOrderResult.success || !klarnaOrderResult.data) {
+        return {
+          success: false,
+          error: klarnaOrderResult.error,
+        };
+      }
+
+      const klarnaOrder = klarnaOrderResult.data;
+      let paymentStatus: PaymentStatus;
+
+      switch (klarnaOrder.status) {
+        case 'AUTHORIZED': {
+          const cancelResult = await this.klarnaProvider.cancelPayment(order.paymentId);
+          if (!cancelResult.success) {
+            return { success: false, error: cancelResult.error };
+          }
+          paymentStatus = 'cancelled';
+          break;
+        }
+
+        case 'PART_CAPTURED': {
+          // What has already been captured stays charged
+          const releaseResult = await this.klarnaProvider.releaseRemainingAuthorization(order.paymentId);
+          if (!releaseResult.success) {
+            return { success: false, error: releaseResult.error };
+          }
+          paymentStatus = 'paid';
+          break;
+        }
+
+        case 'CANCELLED':
+        case 'EXPIRED':
+          paymentStatus = 'cancelled';
+          break;
+
+        default:
+          return {
+            success: false,
+            error: `Klarna order ${order.paymentId} is ${klarnaOrder.status} and must be refunded instead`,
+          };
+      }
+
+      const updateResult = await this.orderRepository.update(order.id, { paymentStatus });
+      if (!updateResult.success) {
+        console.error(`Released Klarna authorization but failed to update order ${order.id}:`, updateResult.error);
+      }
+
+      await this.recordEvent(order, 'release', order.paymentId, 'RELEASED', this.getRemainingAmount(klarnaOrder));
+
+      return {
+        success: true,
+        data: paymentStatus,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to release Klarna authorization: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * The Klarna order is placed before ours exists; reference it by our order
+   * number (and id) so the merchant portal and settlement reports show it
+   */
+  async setMerchantReferences(order: Order): Promise<ApiResponse<void>> {
+    if (order.paymentMethod !== 'klarna' || !order.paymentId) {
+      return {
+        success: false,
+        error: `Order ${order.id} was not paid with Klarna`,
+      };
+    }
+
+    return this.klarnaProvider.updateMerchantReferences(order.paymentId, order.orderNumber, order.id);
+  }
+
+  async getExpiringAuthorizations(
+    withinDays: number = config.payments.klarna.expiryWarningDays
+  ): Promise<ApiResponse<ExpiringAuthorization[]>> {
+    try {
+      const ordersResult = await this.orderRepository.findByPaymentStatus(
+        ['authorized', 'partially_captured'],
+        'klarna'
+      );
+
+      if (!ordersResult.success) {
+        return {
+          success: false,
+          error: ordersResult.error,
+        };
+      }
+
+      const now = Date.now();
+      const expiring: ExpiringAuthorization[] = [];
+
+      for (const order of ordersResult.data || []) {
+        const klarnaOrder = order.paymentId ? await this.klarnaProvider.getOrder(order.paymentId) : undefined;
+        const klarnaData = klarnaOrder?.success ? klarnaOrder.data : undefined;
+
+        const estimated = !klarnaData?.expires_at;
+        const expiresAt = klarnaData?.expires_at
+          ? new Date(klarnaData.expires_at)
+          : new Date(new Date(order.createdAt).getTime() + config.payments.klarna.authorizationValidityDays * DAY_MS);
+
+        const daysLeft = Math.floor((expiresAt.getTime() - now) / DAY_MS);
+        if (daysLeft > withinDays) {
+          continue;
+        }
+
+        expiring.push({
+          orderId: order.id,
+          paymentId: order.paymentId,
+          paymentStatus: order.paymentStatus || 'authorized',
+          orderTotal: order.total,
+          remainingAmount: klarnaData ? this.getRemainingAmount(klarnaData) : order.total,
+          expiresAt,
+          daysLeft,
+          estimated,
+        });
+      }
+
+      expiring.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+
+      return {
+        success: true,
+        data: expiring,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to check Klarna authorizations: ${error}`,
+      };
+    }
+  }
+
+  private async getKlarnaOrder(order: Order): Promise<ApiResponse<KlarnaOrder>> {
+    if (order.paymentMethod !== 'klarna' || !order.paymentId) {
+      return {
+        success: false,
+        error: `Order ${order.id} was not paid with Klarna`,
+      };
+    }
+
+    const result = await this.klarnaProvider.getOrder(order.paymentId);
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error || `Klarna order ${order.paymentId} not found`,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Remaining authorized amount in major units (Klarna reports minor units)
+   */
+  private getRemainingAmount(klarnaOrder: KlarnaOrder): number {
+    const minor = klarnaOrder.remaining_authorized_amount
+      ?? klarnaOrder.order_amount - (klarnaOrder.captured_amount || 0);
+    return Math.max(0, minor) / 100;
+  }
+
+  private async recordEvent(
+    order: Order,
+    eventType: 'capture' | 'release',
+    externalId: string,
+    status: string,
+    amount: number
+  ): Promise<void> {
+    const result = await this.paymentEventRepository.recordEvent({
+      provider: this.provider,
+      eventType,
+      externalId,
+      status,
+      orderId: order.id,
+      amount,
+      currency: 'SEK',
+    });
+
+    if (!result.success) {
+      console.error(`Failed to record Klarna ${eventType} for order ${order.id}:`, result.error);
+    }
+  }
+}
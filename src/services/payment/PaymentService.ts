@@ -1,5 +1,5 @@
 import { IPaymentService, PaymentData, PaymentResult, SwishPayment, KlarnaSession, KlarnaOrderData } from '@/interfaces';
-import { ApiResponse } from '@/types';
+import { ApiResponse, PaymentMethod } from '@/types';
 import Stripe from 'stripe';
 import { config } from '@/config';
 import { PaymentProcessorRegistry } from './PaymentProcessorRegistry';
@@ -434,6 +434,38 @@ export class PaymentService implements IPaymentService {
     }
   }
 
+  /**
+   * Card payments are created before their order exists, under a temporary id.
+   * Point the payment intent at the order so webhooks find it and the Stripe
+   * dashboard shows the order number. Other methods have nothing to update here.
+   */
+  async attachOrderReference(
+    paymentId: string,
+    method: PaymentMethod,
+    order: { id: string; orderNumber: string }
+  ): Promise<ApiResponse<void>> {
+    if (method !== 'card' && method !== 'stripe') {
+      return { success: true };
+    }
+
+    try {
+      await this.stripe.paymentIntents.update(paymentId, {
+        description: `Order ${order.orderNumber}`,
+        metadata: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+        },
+      });
+
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Failed to update payment intent: ${error.message}`,
+      };
+    }
+  }
+
   async getPaymentMethods(): Promise<ApiResponse<Array<{ id: string; name: string; enabled: boolean }>>> {
     try {
       const methods = [
@@ -0,0 +1,483 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IInvoiceService,
+  IOrderService,
+  IPaymentEventRepository,
+  ISwishWebhookService,
+  SwishPaymentCallback,
+  SwishRefundCallback,
+  PaymentCallbackOutcome
+} from '@/interfaces';
+import type { ApiResponse, Order, PaymentStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { SwishPaymentProvider } from './providers/SwishPaymentProvider';
+
+const PAYMENT_STATUSES = ['CREATED', 'PAID', 'DECLINED', 'ERROR', 'CANCELLED'] as const;
+const REFUND_STATUSES = ['CREATED', 'DEBITED', 'PAID', 'ERROR'] as const;
+
+// Payment states that a late failure callback must never overwrite
+const SETTLED_PAYMENT_STATUSES: PaymentStatus[] = ['paid', 'refunded', 'partially_refunded'];
+
+/**
+ * Swish Webhook Service
+ *
+ * Handles the callbacks Swish posts to /api/webhooks/swish and /api/webhooks/swish-refund.
+ * Swish callbacks are not signed, so every callback is verified by fetching the
+ * payment (or refund) back from the Swish API before the order is touched.
+ *
+ * Idempotency: each (callback id, status) pair is recorded in payment_events and
+ * processed at most once; order/payment status guards make replays harmless as well.
+ */
+@injectable()
+export class SwishWebhookService implements ISwishWebhookService {
+  private readonly provider = 'swish';
+
+  constructor(
+    @inject(TOKENS.IOrderService) private readonly orderService: IOrderService,
+    @inject(TOKENS.IPaymentEventRepository) private readonly paymentEventRepository: IPaymentEventRepository,
+    @inject(TOKENS.SwishPaymentProvider) private readonly swishProvider: SwishPaymentProvider,
+    @inject(TOKENS.IInvoiceService) private readonly invoiceService: IInvoiceService
+  ) {}
+
+  async handlePaymentCallback(payload: unknown): Promise<ApiResponse<PaymentCallbackOutcome>> {
+    try {
+      const callback = this.parsePaymentCallback(payload);
+      if (!callback) {
+        return {
+          success: false,
+          error: 'Invalid Swish payment callback payload',
+        };
+      }
+
+      const verification = await this.verifyPaymentCallback(callback);
+      if (!verification.success) {
+        return {
+          success: false,
+          error: verification.error,
+        };
+      }
+
+      const orderResult = await this.findOrder(callback.id, callback.payeePaymentReference);
+      if (!orderResult.success || !orderResult.data) {
+        return {
+          success: false,
+          error: `No order found for Swish payment ${callback.id}`,
+        };
+      }
+
+      const order = orderResult.data;
+
+      const duplicate = await this.paymentEventRepository.hasEvent(this.provider, callback.id, callback.status);
+      if (duplicate.success && duplicate.data) {
+        return {
+          success: true,
+          data: { orderId: order.id, action: 'duplicate', paymentStatus: order.paymentStatus },
+        };
+      }
+
+      let outcome: ApiResponse<PaymentCallbackOutcome>;
+
+      switch (callback.status) {
+        case 'PAID':
+          outcome = await this.applyPaid(order, callback);
+          break;
+
+        case 'DECLINED':
+        case 'ERROR':
+        case 'CANCELLED':
+          outcome = await this.applyFailed(order, callback);
+          break;
+
+        default:
+          outcome = {
+            success: true,
+            data: { orderId: order.id, action: 'ignored', paymentStatus: order.paymentStatus },
+          };
+      }
+
+      if (outcome.success) {
+        await this.recordEvent('payment', callback.id, callback.status, order.id, callback.amount, callback.currency, callback);
+      }
+
+      return outcome;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to handle Swish payment callback: ${error}`,
+      };
+    }
+  }
+
+  async handleRefundCallback(payload: unknown): Promise<ApiResponse<PaymentCallbackOutcome>> {
+    try {
+      const callback = this.parseRefundCallback(payload);
+      if (!callback) {
+        return {
+          success: false,
+          error: 'Invalid Swish refund callback payload',
+        };
+      }
+
+      const verification = await this.verifyRefundCallback(callback);
+      if (!verification.success) {
+        return {
+          success: false,
+          error: verification.error,
+        };
+      }
+
+      const orderResult = await this.findOrder(callback.originalPaymentReference, callback.payerPaymentReference);
+      if (!orderResult.success || !orderResult.data) {
+        return {
+          success: false,
+          error: `No order found for Swish refund ${callback.id}`,
+        };
+      }
+
+      const order = orderResult.data;
+
+      const duplicate = await this.paymentEventRepository.hasEvent(this.provider, callback.id, callback.status);
+      if (duplicate.success && duplicate.data) {
+        return {
+          success: true,
+          data: { orderId: order.id, action: 'duplicate', paymentStatus: order.paymentStatus },
+        };
+      }
+
+      let outcome: ApiResponse<PaymentCallbackOutcome>;
+
+      if (callback.status === 'PAID') {
+        outcome = await this.applyRefund(order, callback);
+      } else {
+        if (callback.status === 'ERROR') {
+          console.error(`Swish refund ${callback.id} for order ${order.id} failed:`, callback.errorCode, callback.errorMessage);
+        }
+        outcome = {
+          success: true,
+          data: { orderId: order.id, action: 'ignored', paymentStatus: order.paymentStatus },
+        };
+      }
+
+      if (outcome.success) {
+        await this.recordEvent('refund', callback.id, callback.status, order.id, callback.amount, callback.currency, callback);
+      }
+
+      return outcome;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to handle Swish refund callback: ${error}`,
+      };
+    }
+  }
+
+  // Private helper methods
+
+  private async applyPaid(order: Order, callback: SwishPaymentCallback): Promise<ApiResponse<PaymentCallbackOutcome>> {
+    if (order.paymentStatus && SETTLED_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+      return {
+        success: true,
+        data: { orderId: order.id, action: 'ignored', paymentStatus: order.paymentStatus },
+      };
+    }
+
+    if (!this.amountsMatch(callback.amount, order.total)) {
+      return {
+        success: false,
+        error: `Swish amount ${callback.amount} does not match order total ${order.total}`,
+      };
+    }
+
+    const paymentResult = await this.orderService.updatePaymentStatus(order.id, 'paid');
+    if (!paymentResult.success) {
+      return {
+        success: false,
+        error: paymentResult.error,
+      };
+    }
+
+    if (order.status === 'pending') {
+      const statusResult = await this.orderService.updateOrderStatus(order.id, 'paid', {
+        actor: 'swish',
+        reason: `Swish payment ${callback.id} paid`,
+      });
+      if (!statusResult.success) {
+        return {
+          success: false,
+          error: statusResult.error,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: { orderId: order.id, action: 'confirmed', paymentStatus: 'paid' },
+    };
+  }
+
+  private async applyFailed(order: Order, callback: SwishPaymentCallback): Promise<ApiResponse<PaymentCallbackOutcome>> {
+    if (order.paymentStatus && SETTLED_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+      console.warn(`Ignoring Swish ${callback.status} callback for already settled order ${order.id}`);
+      return {
+        success: true,
+        data: { orderId: order.id, action: 'ignored', paymentStatus: order.paymentStatus },
+      };
+    }
+
+    const paymentStatus: PaymentStatus = callback.status === 'CANCELLED' ? 'cancelled' : 'failed';
+
+    const paymentResult = await this.orderService.updatePaymentStatus(order.id, paymentStatus);
+    if (!paymentResult.success) {
+      return {
+        success: false,
+        error: paymentResult.error,
+      };
+    }
+
+    if (order.status === 'pending') {
+      // Cancelling releases the stock reservation held for the order
+      const cancelResult = await this.orderService.cancelOrder(order.id, {
+        actor: 'swish',
+        reason: `Swish payment ${callback.id} ${callback.status.toLowerCase()}`,
+      });
+      if (!cancelResult.success) {
+        return {
+          success: false,
+          error: cancelResult.error,
+        };
+      }
+    }
+
+    if (callback.errorCode) {
+      console.warn(`Swish payment ${callback.id} ${callback.status}: ${callback.errorCode} ${callback.errorMessage || ''}`);
+    }
+
+    return {
+      success: true,
+      data: { orderId: order.id, action: 'cancelled', paymentStatus },
+    };
+  }
+
+  private async applyRefund(order: Order, callback: SwishRefundCallback): Promise<ApiResponse<PaymentCallbackOutcome>> {
+    // Sum earlier refunds so that several partial refunds add up correctly
+    const eventsResult = await this.paymentEventRepository.findByOrderId(order.id);
+    const previousRefunds = (eventsResult.data || [])
+      .filter(event => event.eventType === 'refund' && event.status === 'PAID')
+      .reduce((sum, event) => sum + (event.amount || 0), 0);
+
+    const refundedTotal = previousRefunds + callback.amount;
+    const paymentStatus: PaymentStatus = refundedTotal >= order.total - 0.01 ? 'refunded' : 'partially_refunded';
+
+    const paymentResult = await this.orderService.updatePaymentStatus(order.id, paymentStatus);
+    if (!paymentResult.success) {
+      return {
+        success: false,
+        error: paymentResult.error,
+      };
+    }
+
+    // Refunds made for a return are credited under the same reference by ReturnService
+    const creditNote = await this.invoiceService.issueCreditNote(order.id, {
+      reference: `swish-refund-${callback.id}`,
+      amount: callback.amount,
+      items: [],
+    });
+    if (!creditNote.success) {
+      return {
+        success: false,
+        error: `Failed to issue credit note for Swish refund ${callback.id}: ${creditNote.error}`,
+      };
+    }
+
+    return {
+      success: true,
+      data: { orderId: order.id, action: 'refunded', paymentStatus },
+    };
+  }
+
+  private async verifyPaymentCallback(callback: SwishPaymentCallback): Promise<ApiResponse<void>> {
+    const basicError = this.verifyCommonFields(callback.currency, callback.payeeAlias);
+    if (basicError) {
+      return { success: false, error: basicError };
+    }
+
+    if (!this.swishProvider.hasApiAccess()) {
+      return this.allowUnverifiedInTestMode(callback.id);
+    }
+
+    const statusResult = await this.swishProvider.getPaymentStatus(callback.id);
+    if (!statusResult.success || !statusResult.data) {
+      return {
+        success: false,
+        error: `Could not verify Swish payment ${callback.id}: ${statusResult.error}`,
+      };
+    }
+
+    if (statusResult.data.status !== callback.status) {
+      return {
+        success: false,
+        error: `Swish payment ${callback.id} status mismatch (callback ${callback.status}, API ${statusResult.data.status})`,
+      };
+    }
+
+    if (statusResult.data.amount !== undefined && !this.amountsMatch(parseFloat(statusResult.data.amount), callback.amount)) {
+      return {
+        success: false,
+        error: `Swish payment ${callback.id} amount mismatch`,
+      };
+    }
+
+    return { success: true };
+  }
+
+  private async verifyRefundCallback(callback: SwishRefundCallback): Promise<ApiResponse<void>> {
+    const basicError = this.verifyCommonFields(callback.currency, callback.payerAlias);
+    if (basicError) {
+      return { success: false, error: basicError };
+    }
+
+    if (!this.swishProvider.hasApiAccess()) {
+      return this.allowUnverifiedInTestMode(callback.id);
+    }
+
+    const statusResult = await this.swishProvider.getRefundStatus(callback.id);
+    if (!statusResult.success || !statusResult.data) {
+      return {
+        success: false,
+        error: `Could not verify Swish refund ${callback.id}: ${statusResult.error}`,
+      };
+    }
+
+    if (statusResult.data.status !== callback.status) {
+      return {
+        success: false,
+        error: `Swish refund ${callback.id} status mismatch (callback ${callback.status}, API ${statusResult.data.status})`,
+      };
+    }
+
+    if (statusResult.data.amount !== undefined && !this.amountsMatch(parseFloat(statusResult.data.amount), callback.amount)) {
+      return {
+        success: false,
+        error: `Swish refund ${callback.id} amount mismatch`,
+      };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Checks fields that can be validated without calling Swish.
+   * The merchant alias is the payee on payments and the payer on refunds.
+   */
+  private verifyCommonFields(currency: string, merchantAlias?: string): string | null {
+    if (currency !== 'SEK') {
+      return `Unsupported Swish currency: ${currency}`;
+    }
+
+    const configuredAlias = this.swishProvider.merchantAlias;
+    if (merchantAlias && configuredAlias && merchantAlias !== configuredAlias) {
+      return 'Swish callback is not addressed to this merchant';
+    }
+
+    return null;
+  }
+
+  private allowUnverifiedInTestMode(callbackId: string): ApiResponse<void> {
+    if (this.swishProvider.isTestMode) {
+      console.warn(`Swish API not reachable, accepting unverified callback ${callbackId} in test mode`);
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: 'Swish API not reachable, cannot verify callback',
+    };
+  }
+
+  /**
+   * Orders store the Swish payment request id as paymentId;
+   * the merchant reference (our order id) is used as a fallback.
+   */
+  private async findOrder(paymentId: string, orderReference?: string): Promise<ApiResponse<Order>> {
+    const byPayment = await this.orderService.getOrderByPaymentId(paymentId);
+    if (byPayment.success && byPayment.data) {
+      return byPayment;
+    }
+
+    if (orderReference) {
+      return this.orderService.getOrder(orderReference);
+    }
+
+    return byPayment;
+  }
+
+  private async recordEvent(
+    eventType: 'payment' | 'refund',
+    externalId: string,
+    status: string,
+    orderId: string,
+    amount: number,
+    currency: string,
+    payload: SwishPaymentCallback | SwishRefundCallback
+  ): Promise<void> {
+    const result = await this.paymentEventRepository.recordEvent({
+      provider: this.provider,
+      eventType,
+      externalId,
+      status,
+      orderId,
+      amount,
+      currency,
+      payload: { ...payload },
+    });
+
+    if (!result.success) {
+      // The order has already been updated; a lost event record only weakens replay detection
+      console.error(`Failed to record Swish ${eventType} event ${externalId}:`, result.error);
+    }
+  }
+
+  private amountsMatch(a: number, b: number): boolean {
+    return Math.abs(a - b) < 0.01;
+  }
+
+  private parsePaymentCallback(payload: unknown): SwishPaymentCallback | null {
+    if (!this.isRecord(payload)) return null;
+
+    const status = payload.status;
+    if (typeof payload.id !== 'string' || !PAYMENT_STATUSES.includes(status as SwishPaymentCallback['status'])) {
+      return null;
+    }
+
+    const amount = Number(payload.amount);
+    if (!Number.isFinite(amount) || typeof payload.currency !== 'string') {
+      return null;
+    }
+
+    return { ...payload, amount } as unknown as SwishPaymentCallback;
+  }
+
+  private parseRefundCallback(payload: unknown): SwishRefundCallback | null {
+    if (!this.isRecord(payload)) return null;
+
+    const status = payload.status;
+    if (
+      typeof payload.id !== 'string' ||
+      typeof payload.originalPaymentReference !== 'string' ||
+      !REFUND_STATUSES.includes(status as SwishRefundCallback['status'])
+    ) {
+      return null;
+    }
+
+    const amount = Number(payload.amount);
+    if (!Number.isFinite(amount) || typeof payload.currency !== 'string') {
+      return null;
+    }
+
+    return { ...payload, amount } as unknown as SwishRefundCallback;
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
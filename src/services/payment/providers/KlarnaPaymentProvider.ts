@@ -19,7 +19,7 @@ import { config } from '@/config';
  * - Dependency Inversion: Depends on config abstraction, not concrete implementations
  */
 
-interface KlarnaOrderLine {
+export interface KlarnaOrderLine {
   type?: 'physical' | 'digital' | 'shipping_fee' | 'discount';
   reference?: string;
   name: string;
@@ -65,16 +65,34 @@ interface KlarnaCheckoutResponse {
   status?: string;
 }
 
-interface KlarnaOrder {
+export interface KlarnaOrder {
   order_id: string;
-  status: 'checkout_incomplete' | 'checkout_complete' | 'AUTHORIZED' | 'PART_CAPTURED' | 'CAPTURED' | 'CANCELLED' | 'EXPIRED';
+  status: 'checkout_incomplete' | 'checkout_complete' | 'AUTHORIZED' | 'PART_CAPTURED' | 'CAPTURED' | 'CANCELLED' | 'EXPIRED' | 'CLOSED';
   order_amount: number;
+  captured_amount?: number;
+  refunded_amount?: number;
+  remaining_authorized_amount?: number;
+  expires_at?: string;
   authorized_payment_method?: any;
 }
 
+export interface KlarnaShippingInfo {
+  shipping_company?: string;
+  tracking_number?: string;
+}
+
+export interface KlarnaCaptureOptions {
+  description?: string;
+  shippingInfo?: KlarnaShippingInfo;
+  // Sent as Klarna-Idempotency-Key so a retried capture is not charged twice
+  idempotencyKey?: string;
+}
+
 interface KlarnaCaptureRequest {
   captured_amount: number;
+  description?: string;
   order_lines?: KlarnaOrderLine[];
+  shipping_info?: KlarnaShippingInfo[];
 }
 
 @injectable()
@@ -174,7 +192,7 @@ export class KlarnaPaymentProvider extends BasePaymentProvider {
     }
   }
 
-  async refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<void>> {
+  async refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<string>> {
     try {
       // Get order details
       const order = await this.getOrder(paymentId);
@@ -225,16 +243,22 @@ export class KlarnaPaymentProvider extends BasePaymentProvider {
       const orderLines: KlarnaOrderLine[] = JSON.parse(paymentData.metadata?.orderLines || '[]');
 
       // Convert order lines to Klarna format (amounts in minor units - öre for SEK)
-      const klarnaOrderLines = orderLines.map(line => ({
-        type: line.type || 'physical',
-        reference: line.reference,
-        name: line.name,
-        quantity: line.quantity,
-        unit_price: Math.round(line.unit_price * 100),
-        tax_rate: line.tax_rate || 2500, // Default 25% Swedish VAT
-        total_amount: Math.round(line.total_amount * 100),
-        total_tax_amount: line.total_tax_amount ? Math.round(line.total_tax_amount * 100) : Math.round(line.total_amount * 100 * 0.2),
-      }));
+      // Exports are zero-rated, so a tax rate of 0 must not fall back to the default
+      const klarnaOrderLines = orderLines.map(line => {
+        const taxRate = line.tax_rate ?? 2500; // Default 25% Swedish VAT
+        return {
+          type: line.type || 'physical',
+          reference: line.reference,
+          name: line.name,
+          quantity: line.quantity,
+          unit_price: Math.round(line.unit_price * 100),
+          tax_rate: taxRate,
+          total_amount: Math.round(line.total_amount * 100),
+          total_tax_amount: line.total_tax_amount !== undefined
+            ? Math.round(line.total_tax_amount * 100)
+            : Math.round(line.total_amount * 100 * taxRate / (10000 + taxRate)),
+        };
+      });
 
       // Parse addresses if provided
       const shippingAddress = paymentData.metadata?.shippingAddress
@@ -248,7 +272,7 @@ export class KlarnaPaymentProvider extends BasePaymentProvider {
       // Create session request
       const sessionRequest: KlarnaCheckoutSession = {
         order_amount: Math.round(paymentData.amount * 100),
-        order_tax_amount: Math.round(paymentData.amount * 100 * 0.2), // Simplified - 20% VAT
+        order_tax_amount: klarnaOrderLines.reduce((sum, line) => sum + line.total_tax_amount, 0),
         order_lines: klarnaOrderLines,
         purchase_country: paymentData.metadata?.country || 'SE',
         purchase_currency: paymentData.currency,
@@ -299,8 +323,10 @@ export class KlarnaPaymentProvider extends BasePaymentProvider {
 
   /**
    * Capture an authorized Klarna order
+   * Amount is in major units; defaults to whatever is still authorized, so the
+   * last capture after one or more partial captures takes the remainder
    */
-  async captureOrder(orderId: string, amount?: number): Promise<ApiResponse<void>> {
+  async captureOrder(orderId: string, amount?: number, options: KlarnaCaptureOptions = {}): Promise<ApiResponse<void>> {
     try {
       const order = await this.getOrder(orderId);
 
@@ -311,16 +337,27 @@ export class KlarnaPaymentProvider extends BasePaymentProvider {
         };
       }
 
-      const captureAmount = amount ? Math.round(amount * 100) : order.data.order_amount;
+      const remaining = order.data.remaining_authorized_amount ?? order.data.order_amount;
+      const captureAmount = amount ? Math.round(amount * 100) : remaining;
+
+      if (captureAmount <= 0 || captureAmount > remaining) {
+        return {
+          success: false,
+          error: `Capture amount exceeds remaining authorization (${remaining / 100})`,
+        };
+      }
 
       const captureRequest: KlarnaCaptureRequest = {
         captured_amount: captureAmount,
+        ...(options.description && { description: options.description }),
+        ...(options.shippingInfo && { shipping_info: [options.shippingInfo] }),
       };
 
       const response = await this.makeKlarnaRequest(
         `/ordermanagement/v1/orders/${orderId}/captures`,
         'POST',
-        captureRequest
+        captureRequest,
+        options.idempotencyKey
       );
 
       if (!response.success) {
@@ -341,6 +378,95 @@ export class KlarnaPaymentProvider extends BasePaymentProvider {
     }
   }
 
+  /**
+   * Set the merchant references shown on the order in the Klarna merchant portal
+   */
+  async updateMerchantReferences(orderId: string, reference1: string, reference2?: string): Promise<ApiResponse<void>> {
+    try {
+      const response = await this.makeKlarnaRequest(
+        `/ordermanagement/v1/orders/${orderId}/merchant-references`,
+        'PATCH',
+        {
+          merchant_reference1: reference1,
+          ...(reference2 && { merchant_reference2: reference2 }),
+        }
+      );
+
+      if (!response.success) {
+        return {
+          success: false,
+          error: response.error || 'Failed to update Klarna merchant references',
+        };
+      }
+
+      return {
+        success: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update Klarna merchant references: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Cancel an authorized Klarna order that has not been captured
+   */
+  async cancelPayment(paymentId: string): Promise<ApiResponse<void>> {
+    try {
+      const response = await this.makeKlarnaRequest(
+        `/ordermanagement/v1/orders/${paymentId}/cancel`,
+        'POST'
+      );
+
+      if (!response.success) {
+        return {
+          success: false,
+          error: response.error || 'Failed to cancel Klarna order',
+        };
+      }
+
+      return {
+        success: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to cancel Klarna order: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Release the part of the authorization that will not be captured
+   * (used once a partly captured order will not ship any further)
+   */
+  async releaseRemainingAuthorization(orderId: string): Promise<ApiResponse<void>> {
+    try {
+      const response = await this.makeKlarnaRequest(
+        `/ordermanagement/v1/orders/${orderId}/release-remaining-authorization`,
+        'POST'
+      );
+
+      if (!response.success) {
+        return {
+          success: false,
+          error: response.error || 'Failed to release Klarna authorization',
+        };
+      }
+
+      return {
+        success: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to release Klarna authorization: ${error}`,
+      };
+    }
+  }
+
   /**
    * Make authenticated request to Klarna API
    * Uses Basic Auth with username:password
@@ -348,15 +474,24 @@ export class KlarnaPaymentProvider extends BasePaymentProvider {
   private async makeKlarnaRequest<T>(
     endpoint: string,
     method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH',
-    data?: any
+    data?: any,
+    idempotencyKey?: string
   ): Promise<ApiResponse<T>> {
     try {
+      if (!this.username || !this.password) {
+        return {
+          success: false,
+          error: 'Klarna credentials are not configured',
+        };
+      }
+
       const url = `${this.baseUrl}${endpoint}`;
       const auth = Buffer.from(`${this.username}:${this.password}`).toString('base64');
 
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
         'Authorization': `Basic ${auth}`,
+        ...(idempotencyKey && { 'Klarna-Idempotency-Key': idempotencyKey }),
       };
 
       const options: RequestInit = {
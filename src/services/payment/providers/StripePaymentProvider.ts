@@ -129,7 +129,7 @@ export class StripePaymentProvider extends BasePaymentProvider {
     }
   }
 
-  async refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<void>> {
+  async refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<string>> {
     try {
       const refundData: Stripe.RefundCreateParams = {
         payment_intent: paymentId,
@@ -152,6 +152,7 @@ export class StripePaymentProvider extends BasePaymentProvider {
 
       return {
         success: true,
+        data: refund.id,
       };
     } catch (error) {
       if (error instanceof Stripe.errors.StripeError) {
@@ -5,6 +5,7 @@ import { injectable } from 'tsyringe';
 import { BasePaymentProvider, PaymentData, PaymentResult } from '../IPaymentProvider';
 import { ApiResponse } from '@/types';
 import https from 'https';
+import http from 'http';
 import fs from 'fs';
 import { config } from '@/config';
 
@@ -37,7 +38,7 @@ interface SwishPaymentResponse {
   paymentRequestToken?: string;
 }
 
-interface SwishPaymentStatus {
+export interface SwishPaymentStatus {
   id: string;
   status: 'CREATED' | 'PAID' | 'DECLINED' | 'ERROR' | 'CANCELLED';
   amount?: string;
@@ -48,6 +49,16 @@ interface SwishPaymentStatus {
   errorMessage?: string;
 }
 
+export interface SwishRefundStatus {
+  id: string;
+  originalPaymentReference?: string;
+  status: 'CREATED' | 'DEBITED' | 'PAID' | 'ERROR';
+  amount?: string;
+  currency?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
 interface SwishRefundRequest {
   originalPaymentReference: string;
   callbackUrl: string;
@@ -72,13 +83,29 @@ export class SwishPaymentProvider extends BasePaymentProvider {
     super();
     this.merchantId = config.payments.swish.merchantId;
     this.testMode = config.payments.swish.testMode;
-    this.baseUrl = this.testMode
+    this.baseUrl = config.payments.swish.apiUrl || (this.testMode
       ? 'https://mss.cpc.getswish.net/swish-cpcapi'
-      : 'https://cpc.getswish.net/swish-cpcapi';
+      : 'https://cpc.getswish.net/swish-cpcapi');
 
     this.initializeHttpsAgent();
   }
 
+  get merchantAlias(): string {
+    return this.merchantId;
+  }
+
+  get isTestMode(): boolean {
+    return this.testMode;
+  }
+
+  /**
+   * Whether requests can actually reach a Swish API
+   * A plain-HTTP base URL (local fake server) needs no client certificates
+   */
+  hasApiAccess(): boolean {
+    return this.httpsAgent !== null || this.baseUrl.startsWith('http://');
+  }
+
   /**
    * Initialize HTTPS agent with client certificates for Swish API
    * Gracefully handles missing certificates in development mode
@@ -148,7 +175,7 @@ export class SwishPaymentProvider extends BasePaymentProvider {
       }
 
       // If certificates are not available, return mock response for development
-      if (!this.httpsAgent && this.testMode) {
+      if (!this.hasApiAccess() && this.testMode) {
         return this.createMockPaymentResponse(paymentData);
       }
 
@@ -204,7 +231,7 @@ export class SwishPaymentProvider extends BasePaymentProvider {
   async verifyPayment(paymentId: string): Promise<ApiResponse<boolean>> {
     try {
       // If running in development mode without certificates, return mock response
-      if (!this.httpsAgent && this.testMode) {
+      if (!this.hasApiAccess() && this.testMode) {
         // Simulate 90% success rate in development
         return {
           success: true,
@@ -237,10 +264,10 @@ export class SwishPaymentProvider extends BasePaymentProvider {
     }
   }
 
-  async refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<void>> {
+  async refundPayment(paymentId: string, amount?: number): Promise<ApiResponse<string>> {
     try {
       // If running in development mode without certificates, return mock response
-      if (!this.httpsAgent && this.testMode) {
+      if (!this.hasApiAccess() && this.testMode) {
         return {
           success: true,
         };
@@ -291,6 +318,7 @@ export class SwishPaymentProvider extends BasePaymentProvider {
 
       return {
         success: true,
+        data: response.data?.id || undefined,
       };
     } catch (error) {
       return {
@@ -319,6 +347,25 @@ export class SwishPaymentProvider extends BasePaymentProvider {
     }
   }
 
+  /**
+   * Get refund status from Swish API
+   */
+  async getRefundStatus(refundId: string): Promise<ApiResponse<SwishRefundStatus>> {
+    try {
+      const response = await this.makeSwishRequest<SwishRefundStatus>(
+        `/api/v2/refunds/${refundId}`,
+        'GET'
+      );
+
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get refund status: ${error}`,
+      };
+    }
+  }
+
   /**
    * Format Swedish phone number to Swish format (46XXXXXXXXX)
    * Accepts formats: +46XXXXXXXXX, 46XXXXXXXXX, 0XXXXXXXXX
@@ -359,7 +406,7 @@ export class SwishPaymentProvider extends BasePaymentProvider {
 
   /**
    * Make authenticated HTTPS request to Swish API
-   * Uses client certificates for authentication
+   * Uses client certificates for authentication, or plain HTTP against a local fake server
    */
   private async makeSwishRequest<T>(
     endpoint: string,
@@ -367,7 +414,9 @@ export class SwishPaymentProvider extends BasePaymentProvider {
     data?: any
   ): Promise<ApiResponse<T>> {
     return new Promise((resolve) => {
-      if (!this.httpsAgent) {
+      const useHttp = this.baseUrl.startsWith('http://');
+
+      if (!this.httpsAgent && !useHttp) {
         resolve({
           success: false,
           error: 'Swish HTTPS agent not initialized (certificates missing)',
@@ -380,7 +429,7 @@ export class SwishPaymentProvider extends BasePaymentProvider {
 
       const options: https.RequestOptions = {
         method,
-        agent: this.httpsAgent,
+        ...(!useHttp && { agent: this.httpsAgent! }),
         headers: {
           'Content-Type': 'application/json',
           'Accept': 'application/json',
@@ -388,7 +437,9 @@ export class SwishPaymentProvider extends BasePaymentProvider {
         },
       };
 
-      const req = https.request(url, options, (res) => {
+      const transport = useHttp ? http : https;
+
+      const req = transport.request(url, options, (res) => {
         let responseData = '';
 
         res.on('data', (chunk) => {
@@ -0,0 +1,285 @@
+import { injectable, inject } from 'tsyringe';
+import crypto from 'crypto';
+import type {
+  IPromotionService,
+  IDiscountCodeRepository,
+  IProductRepository,
+  DiscountContext,
+  CreateDiscountCodeData
+} from '@/interfaces';
+import type { ApiResponse, AppliedDiscount, DiscountCode, DiscountRedemption } from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+import { DateHelper } from '@/utils/helpers';
+
+/**
+ * Promotion Service
+ *
+ * A code is validated twice: when the customer applies it (cart/checkout summary)
+ * and again inside OrderService.createOrder, which is the only place the discount
+ * is actually granted. Usage limits are enforced once more on redemption, in the
+ * database, so concurrent checkouts cannot both use the last redemption.
+ */
+@injectable()
+export class PromotionService implements IPromotionService {
+  constructor(
+    @inject(TOKENS.IDiscountCodeRepository) private readonly discountCodeRepository: IDiscountCodeRepository,
+    @inject(TOKENS.IProductRepository) private readonly productRepository: IProductRepository
+  ) {}
+
+  async validateCode(code: string, context: DiscountContext): Promise<ApiResponse<AppliedDiscount>> {
+    try {
+      const normalized = this.normalizeCode(code);
+      if (!normalized) {
+        return {
+          success: false,
+          error: 'Discount code is required',
+        };
+      }
+
+      const codeResult = await this.discountCodeRepository.findByCode(normalized);
+      if (!codeResult.success || !codeResult.data) {
+        return {
+          success: false,
+          error: codeResult.error === 'Discount code not found' ? 'Invalid discount code' : codeResult.error,
+        };
+      }
+
+      const discountCode = codeResult.data;
+
+      const availability = await this.checkAvailability(discountCode, context.customerId);
+      if (availability) {
+        return {
+          success: false,
+          error: availability,
+        };
+      }
+
+      const subtotal = context.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+      if (discountCode.minOrderValue !== undefined && subtotal < discountCode.minOrderValue) {
+        return {
+          success: false,
+          error: `Minimum order value for this code is ${discountCode.minOrderValue} SEK`,
+        };
+      }
+
+      const eligibleSubtotal = await this.getEligibleSubtotal(discountCode, context);
+      if (eligibleSubtotal <= 0) {
+        return {
+          success: false,
+          error: 'Discount code does not apply to any items in your cart',
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          code: discountCode.code,
+          type: discountCode.type,
+          amount: this.calculateAmount(discountCode, eligibleSubtotal, context.shippingCost),
+          freeShipping: discountCode.type === 'free_shipping',
+          description: discountCode.description,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to validate discount code: ${error}`,
+      };
+    }
+  }
+
+  async redeemCode(discount: AppliedDiscount, customerId?: string): Promise<ApiResponse<DiscountRedemption>> {
+    try {
+      const codeResult = await this.discountCodeRepository.findByCode(this.normalizeCode(discount.code));
+      if (!codeResult.success || !codeResult.data) {
+        return {
+          success: false,
+          error: codeResult.error || 'Discount code not found',
+        };
+      }
+
+      return await this.discountCodeRepository.redeem(codeResult.data.id, customerId, discount.amount);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to redeem discount code: ${error}`,
+      };
+    }
+  }
+
+  async assignRedemption(redemptionId: string, orderId: string): Promise<ApiResponse<void>> {
+    try {
+      return await this.discountCodeRepository.assignOrder(redemptionId, orderId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to assign discount redemption: ${error}`,
+      };
+    }
+  }
+
+  async releaseRedemption(redemptionId: string): Promise<ApiResponse<void>> {
+    try {
+      return await this.discountCodeRepository.release(redemptionId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to release discount redemption: ${error}`,
+      };
+    }
+  }
+
+  async createCode(data: CreateDiscountCodeData): Promise<ApiResponse<DiscountCode>> {
+    try {
+      const code = this.normalizeCode(data.code);
+
+      if (!/^[A-Z0-9-]{3,50}$/.test(code)) {
+        return {
+          success: false,
+          error: 'Code must be 3-50 characters of letters, digits and dashes',
+        };
+      }
+
+      if (data.type === 'percentage' && (data.value <= 0 || data.value > 100)) {
+        return {
+          success: false,
+          error: 'Percentage must be between 0 and 100',
+        };
+      }
+
+      if (data.type === 'fixed_amount' && data.value <= 0) {
+        return {
+          success: false,
+          error: 'Fixed amount must be greater than 0',
+        };
+      }
+
+      if (data.validFrom && data.validUntil && data.validFrom >= data.validUntil) {
+        return {
+          success: false,
+          error: 'Validity window ends before it starts',
+        };
+      }
+
+      return await this.discountCodeRepository.create({ ...data, code });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create discount code: ${error}`,
+      };
+    }
+  }
+
+  async createWelcomeCode(): Promise<ApiResponse<DiscountCode>> {
+    const { welcomeDiscountPercent, welcomeCodeValidityDays } = config.promotions;
+
+    return this.createCode({
+      code: `WELCOME${welcomeDiscountPercent}-${crypto.randomBytes(4).toString('hex').toUpperCase()}`,
+      type: 'percentage',
+      value: welcomeDiscountPercent,
+      description: `${welcomeDiscountPercent}% off your first order`,
+      validUntil: DateHelper.addDays(new Date(), welcomeCodeValidityDays),
+      singleUse: true,
+      active: true,
+    });
+  }
+
+  async listCodes(): Promise<ApiResponse<DiscountCode[]>> {
+    try {
+      return await this.discountCodeRepository.findAll();
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list discount codes: ${error}`,
+      };
+    }
+  }
+
+  async deactivateCode(id: string): Promise<ApiResponse<DiscountCode>> {
+    try {
+      return await this.discountCodeRepository.update(id, { active: false });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to deactivate discount code: ${error}`,
+      };
+    }
+  }
+
+  private normalizeCode(code: string): string {
+    return (code || '').trim().toUpperCase();
+  }
+
+  /**
+   * Returns the reason a code cannot be used right now, or null if it can
+   */
+  private async checkAvailability(discountCode: DiscountCode, customerId?: string): Promise<string | null> {
+    const now = new Date();
+
+    if (!discountCode.active) {
+      return 'Discount code is no longer active';
+    }
+
+    if (discountCode.validFrom && now < discountCode.validFrom) {
+      return 'Discount code is not valid yet';
+    }
+
+    if (discountCode.validUntil && now > discountCode.validUntil) {
+      return 'Discount code has expired';
+    }
+
+    if (discountCode.singleUse && discountCode.usageCount >= 1) {
+      return 'Discount code has already been used';
+    }
+
+    if (discountCode.usageLimit !== undefined && discountCode.usageCount >= discountCode.usageLimit) {
+      return 'Discount code has reached its usage limit';
+    }
+
+    if (discountCode.usageLimitPerCustomer !== undefined && customerId) {
+      const redemptions = await this.discountCodeRepository.countRedemptions(discountCode.id, customerId);
+      if (!redemptions.success) {
+        return redemptions.error || 'Failed to check discount code usage';
+      }
+      if ((redemptions.data || 0) >= discountCode.usageLimitPerCustomer) {
+        return 'Discount code has already been used by this customer';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Value of the items the code applies to. Codes without category
+   * restrictions apply to the whole cart.
+   */
+  private async getEligibleSubtotal(discountCode: DiscountCode, context: DiscountContext): Promise<number> {
+    if (!discountCode.eligibleCategories || discountCode.eligibleCategories.length === 0) {
+      return context.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    }
+
+    let eligible = 0;
+    for (const item of context.items) {
+      const productResult = await this.productRepository.findById(item.productId);
+      if (productResult.success && productResult.data
+        && discountCode.eligibleCategories.includes(productResult.data.category)) {
+        eligible += item.price * item.quantity;
+      }
+    }
+
+    return eligible;
+  }
+
+  private calculateAmount(discountCode: DiscountCode, eligibleSubtotal: number, shippingCost?: number): number {
+    switch (discountCode.type) {
+      case 'percentage':
+        return Math.round(eligibleSubtotal * discountCode.value) / 100;
+      case 'fixed_amount':
+        return Math.min(discountCode.value, eligibleSubtotal);
+      case 'free_shipping':
+        return shippingCost || 0;
+    }
+  }
+}
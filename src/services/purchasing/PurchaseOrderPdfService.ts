@@ -0,0 +1,247 @@
+/**
+ * Purchase Order PDF Service
+ *
+ * Renders purchase orders as A4 PDFs for suppliers: what we order, at what
+ * price, and where it is to be delivered
+ */
+
+import { injectable } from 'tsyringe';
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { Address, PurchaseOrder, PurchaseOrderLine } from '@/types';
+import { config } from '@/config';
+import { SENDER_ADDRESS } from '@/config/carriers';
+
+const PAGE_SIZE: [number, number] = [595, 842]; // A4 at 72 DPI
+const MARGIN = 50;
+const RIGHT = PAGE_SIZE[0] - MARGIN;
+const TOP = 790;
+const BOTTOM = 90;
+
+const TEXT = rgb(0.1, 0.1, 0.1);
+const MUTED = rgb(0.45, 0.45, 0.45);
+const RULE = rgb(0.8, 0.8, 0.8);
+
+// Left edge of the article number, right edges of the numeric columns
+const COLUMNS = {
+  sku: MARGIN,
+  description: MARGIN + 90,
+  quantity: 380,
+  unitCost: 460,
+  total: RIGHT,
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+@injectable()
+export class PurchaseOrderPdfService {
+  /**
+   * Generate the PDF sent to the supplier
+   */
+  async generate(purchaseOrder: PurchaseOrder): Promise<Uint8Array> {
+    const buyerName = config.company.legalName;
+
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle(`Inköpsorder ${purchaseOrder.poNumber}`);
+    pdfDoc.setAuthor(buyerName);
+
+    const fonts: Fonts = {
+      regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+      bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+    };
+
+    let page = pdfDoc.addPage(PAGE_SIZE);
+
+    // Header
+    this.text(page, 'Inköpsorder', MARGIN, TOP, fonts.bold, 22);
+    this.textRight(page, buyerName, RIGHT, TOP + 4, fonts.bold, 12);
+
+    // Order details
+    let y = TOP - 50;
+    const details: Array<[string, string]> = [
+      ['Ordernummer', purchaseOrder.poNumber],
+      ['Datum', this.formatDate(purchaseOrder.sentAt || new Date())],
+      ['Önskad leverans', purchaseOrder.expectedAt ? this.formatDate(purchaseOrder.expectedAt) : ''],
+      ['Vår referens', config.email.supportEmail],
+    ].filter((detail): detail is [string, string] => Boolean(detail[1]));
+    for (const [label, value] of details) {
+      this.text(page, label, MARGIN, y, fonts.bold, 9);
+      this.text(page, value, MARGIN + 110, y, fonts.regular, 9);
+      y -= 14;
+    }
+
+    // Supplier
+    const supplier = purchaseOrder.supplier;
+    let supplierY = TOP - 50;
+    this.text(page, 'Leverantör', 340, supplierY, fonts.bold, 9);
+    const supplierLines = [
+      supplier?.name || '',
+      supplier?.contactName ? `Att: ${supplier.contactName}` : '',
+      ...(supplier?.address ? this.formatAddress(supplier.address) : []),
+    ].filter(Boolean);
+    for (const line of supplierLines) {
+      supplierY -= 13;
+      this.text(page, line, 340, supplierY, fonts.regular, 9);
+    }
+
+    // Delivery address
+    y = Math.min(y, supplierY) - 30;
+    this.text(page, 'Leveransadress', MARGIN, y, fonts.bold, 9);
+    for (const line of [buyerName, ...this.formatAddress(SENDER_ADDRESS)]) {
+      y -= 13;
+      this.text(page, line, MARGIN, y, fonts.regular, 9);
+    }
+
+    // Lines
+    y -= 35;
+    y = this.drawTableHeader(page, y, fonts);
+
+    for (const line of purchaseOrder.lines) {
+      if (y < BOTTOM) {
+        page = pdfDoc.addPage(PAGE_SIZE);
+        y = this.drawTableHeader(page, TOP, fonts);
+      }
+
+      this.drawLine(page, line, y, fonts);
+      y -= 16;
+    }
+
+    page.drawLine({ start: { x: MARGIN, y: y + 8 }, end: { x: RIGHT, y: y + 8 }, thickness: 0.5, color: RULE });
+
+    if (y - 40 < BOTTOM) {
+      page = pdfDoc.addPage(PAGE_SIZE);
+      y = TOP;
+    }
+
+    const total = purchaseOrder.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0);
+    y -= 18;
+    this.text(page, 'Summa exkl. moms', 300, y, fonts.bold, 11);
+    this.textRight(page, `${this.formatAmount(total)} kr`, RIGHT, y, fonts.bold, 11);
+
+    // Notes
+    if (purchaseOrder.notes) {
+      y -= 30;
+      this.text(page, 'Meddelande', MARGIN, y, fonts.bold, 9);
+      y -= 13;
+      this.text(page, this.truncate(purchaseOrder.notes, fonts.regular, 9, RIGHT - MARGIN), MARGIN, y, fonts.regular, 9);
+    }
+
+    y -= 30;
+    this.text(
+      page,
+      `Ange ordernummer ${purchaseOrder.poNumber} på följesedel och faktura.`,
+      MARGIN,
+      y,
+      fonts.regular,
+      8,
+      MUTED
+    );
+
+    // Footer on every page
+    const pages = pdfDoc.getPages();
+    pages.forEach((footerPage, index) => {
+      this.text(
+        footerPage,
+        `${buyerName} | ${config.app.url.replace(/^https?:\/\//, '')} | ${config.email.supportEmail}`,
+        MARGIN,
+        40,
+        fonts.regular,
+        8,
+        MUTED
+      );
+      this.textRight(footerPage, `Sida ${index + 1} av ${pages.length}`, RIGHT, 40, fonts.regular, 8, MUTED);
+    });
+
+    return await pdfDoc.save();
+  }
+
+  private drawTableHeader(page: PDFPage, y: number, fonts: Fonts): number {
+    this.text(page, 'Artikelnr', COLUMNS.sku, y, fonts.bold, 8, MUTED);
+    this.text(page, 'Beskrivning', COLUMNS.description, y, fonts.bold, 8, MUTED);
+    this.textRight(page, 'Antal', COLUMNS.quantity, y, fonts.bold, 8, MUTED);
+    this.textRight(page, 'À-pris exkl. moms', COLUMNS.unitCost, y, fonts.bold, 8, MUTED);
+    this.textRight(page, 'Belopp exkl. moms', COLUMNS.total, y, fonts.bold, 8, MUTED);
+    page.drawLine({ start: { x: MARGIN, y: y - 6 }, end: { x: RIGHT, y: y - 6 }, thickness: 0.5, color: RULE });
+
+    return y - 22;
+  }
+
+  private drawLine(page: PDFPage, line: PurchaseOrderLine, y: number, fonts: Fonts): void {
+    const sku = this.truncate(line.sku || '', fonts.regular, 9, COLUMNS.description - COLUMNS.sku - 8);
+    const description = this.truncate(
+      line.productName || line.productId,
+      fonts.regular,
+      9,
+      COLUMNS.quantity - COLUMNS.description - 40
+    );
+    this.text(page, sku, COLUMNS.sku, y, fonts.regular, 9);
+    this.text(page, description, COLUMNS.description, y, fonts.regular, 9);
+    this.textRight(page, String(line.quantityOrdered), COLUMNS.quantity, y, fonts.regular, 9);
+    this.textRight(page, this.formatAmount(line.unitCost), COLUMNS.unitCost, y, fonts.regular, 9);
+    this.textRight(page, this.formatAmount(line.quantityOrdered * line.unitCost), COLUMNS.total, y, fonts.regular, 9);
+  }
+
+  private text(
+    page: PDFPage,
+    text: string,
+    x: number,
+    y: number,
+    font: PDFFont,
+    size: number,
+    color = TEXT
+  ): void {
+    page.drawText(this.sanitize(text), { x, y, size, font, color });
+  }
+
+  private textRight(
+    page: PDFPage,
+    text: string,
+    right: number,
+    y: number,
+    font: PDFFont,
+    size: number,
+    color = TEXT
+  ): void {
+    const safeText = this.sanitize(text);
+    this.text(page, safeText, right - font.widthOfTextAtSize(safeText, size), y, font, size, color);
+  }
+
+  private truncate(text: string, font: PDFFont, size: number, maxWidth: number): string {
+    let result = this.sanitize(text);
+    if (font.widthOfTextAtSize(result, size) <= maxWidth) {
+      return result;
+    }
+
+    while (result.length > 0 && font.widthOfTextAtSize(`${result}...`, size) > maxWidth) {
+      result = result.slice(0, -1);
+    }
+    return `${result}...`;
+  }
+
+  // The standard PDF fonts only cover Latin-1 (WinAnsi)
+  private sanitize(text: string): string {
+    return text
+      .replace(/\s+/g, ' ')
+      .replace(/[^\x20-\x7E\xA0-\xFF–—€‘’“”…]/g, '?');
+  }
+
+  private formatAmount(amount: number): string {
+    const [whole, decimals] = Math.abs(amount).toFixed(2).split('.');
+    const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+    return `${amount < -0.004 ? '-' : ''}${grouped},${decimals}`;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString('sv-SE', { timeZone: 'Europe/Stockholm' });
+  }
+
+  private formatAddress(address: Pick<Address, 'street' | 'postalCode' | 'city' | 'country'>): string[] {
+    return [
+      address.street,
+      `${address.postalCode} ${address.city}`.trim(),
+      address.country,
+    ].filter(Boolean);
+  }
+}
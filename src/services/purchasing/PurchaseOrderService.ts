@@ -0,0 +1,267 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IPurchaseOrderService,
+  IPurchaseOrderRepository,
+  ISupplierRepository,
+  IEmailService
+} from '@/interfaces';
+import type {
+  ApiResponse,
+  CreatePurchaseOrderData,
+  GoodsReceiptLine,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReorderCandidate,
+  Supplier,
+  SupplierData
+} from '@/types';
+import { TOKENS } from '@/config/di-container';
+import type { PurchaseOrderPdfService } from './PurchaseOrderPdfService';
+
+// Statuses a purchase order can be cancelled from; once goods have arrived it stays
+const CANCELLABLE_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent'];
+
+/**
+ * Purchase Order Service
+ *
+ * Reorder drafts are generated per supplier for products at or below their
+ * reorder level, counting what is already on order. Sending emails the PDF to
+ * the supplier; goods receipts add to stock and may arrive in several parts.
+ */
+@injectable()
+export class PurchaseOrderService implements IPurchaseOrderService {
+  constructor(
+    @inject(TOKENS.IPurchaseOrderRepository) private readonly purchaseOrderRepository: IPurchaseOrderRepository,
+    @inject(TOKENS.ISupplierRepository) private readonly supplierRepository: ISupplierRepository,
+    @inject(TOKENS.IEmailService) private readonly emailService: IEmailService,
+    @inject(TOKENS.PurchaseOrderPdfService) private readonly purchaseOrderPdfService: PurchaseOrderPdfService
+  ) {}
+
+  async getSuppliers(includeInactive?: boolean): Promise<ApiResponse<Supplier[]>> {
+    return this.supplierRepository.findAll(includeInactive);
+  }
+
+  async createSupplier(data: SupplierData): Promise<ApiResponse<Supplier>> {
+    if (!data.name?.trim()) {
+      return {
+        success: false,
+        error: 'Supplier name is required',
+      };
+    }
+
+    return this.supplierRepository.create({ ...data, name: data.name.trim() });
+  }
+
+  async updateSupplier(id: string, data: Partial<SupplierData>): Promise<ApiResponse<Supplier>> {
+    if (data.name !== undefined && !data.name.trim()) {
+      return {
+        success: false,
+        error: 'Supplier name is required',
+      };
+    }
+
+    return this.supplierRepository.update(id, data);
+  }
+
+  async getPurchaseOrders(status?: PurchaseOrderStatus): Promise<ApiResponse<PurchaseOrder[]>> {
+    return this.purchaseOrderRepository.findAll(status);
+  }
+
+  async getPurchaseOrder(id: string): Promise<ApiResponse<PurchaseOrder>> {
+    return this.purchaseOrderRepository.findById(id);
+  }
+
+  async createPurchaseOrder(data: CreatePurchaseOrderData): Promise<ApiResponse<PurchaseOrder>> {
+    if (data.lines.length === 0) {
+      return {
+        success: false,
+        error: 'Purchase order has no lines',
+      };
+    }
+
+    const invalidLine = data.lines.find(line =>
+      !Number.isInteger(line.quantityOrdered) || line.quantityOrdered <= 0 || line.unitCost < 0
+    );
+    if (invalidLine) {
+      return {
+        success: false,
+        error: `Invalid quantity or cost for product ${invalidLine.productId}`,
+      };
+    }
+
+    return this.purchaseOrderRepository.create(data);
+  }
+
+  async generateReorderDrafts(): Promise<ApiResponse<PurchaseOrder[]>> {
+    try {
+      const candidatesResult = await this.purchaseOrderRepository.findReorderCandidates();
+      if (!candidatesResult.success) {
+        return {
+          success: false,
+          error: candidatesResult.error,
+        };
+      }
+
+      // Products whose open orders already bring them above the reorder level are left out
+      const bySupplier = new Map<string, ReorderCandidate[]>();
+      for (const candidate of candidatesResult.data!) {
+        if (candidate.stock + candidate.onOrder > candidate.reorderLevel) continue;
+
+        const candidates = bySupplier.get(candidate.supplierId) || [];
+        candidates.push(candidate);
+        bySupplier.set(candidate.supplierId, candidates);
+      }
+
+      const drafts: PurchaseOrder[] = [];
+      for (const [supplierId, candidates] of bySupplier) {
+        const result = await this.purchaseOrderRepository.create({
+          supplierId,
+          lines: candidates.map(candidate => ({
+            productId: candidate.productId,
+            quantityOrdered: this.getReorderQuantity(candidate),
+            unitCost: candidate.costPrice ?? 0,
+          })),
+          notes: 'Generated from reorder levels',
+        });
+
+        if (!result.success) {
+          // One supplier failing shouldn't stop the others from being ordered
+          console.error(`Failed to create reorder draft for supplier ${supplierId}:`, result.error);
+          continue;
+        }
+
+        drafts.push(result.data!);
+      }
+
+      return {
+        success: true,
+        data: drafts,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to generate reorder drafts: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Emails the purchase order to the supplier as a PDF and marks it sent.
+   * A sent order can be sent again, e.g. when the supplier lost it.
+   */
+  async sendPurchaseOrder(id: string): Promise<ApiResponse<PurchaseOrder>> {
+    try {
+      const orderResult = await this.purchaseOrderRepository.findById(id);
+      if (!orderResult.success) {
+        return orderResult;
+      }
+
+      const purchaseOrder = orderResult.data!;
+      if (purchaseOrder.status !== 'draft' && purchaseOrder.status !== 'sent') {
+        return {
+          success: false,
+          error: `Cannot send a purchase order that is ${purchaseOrder.status}`,
+        };
+      }
+
+      const email = purchaseOrder.supplier?.email;
+      if (!email) {
+        return {
+          success: false,
+          error: 'Supplier has no email address',
+        };
+      }
+
+      const pdfResult = await this.renderPdf(purchaseOrder);
+      if (!pdfResult.success) {
+        return {
+          success: false,
+          error: pdfResult.error,
+        };
+      }
+
+      const emailResult = await this.emailService.sendPurchaseOrder(email, {
+        poNumber: purchaseOrder.poNumber,
+        contactName: purchaseOrder.supplier?.contactName,
+        expectedAt: purchaseOrder.expectedAt,
+        attachments: [{
+          filename: `inkopsorder-${purchaseOrder.poNumber}.pdf`,
+          content: Buffer.from(pdfResult.data!),
+          contentType: 'application/pdf',
+        }],
+      });
+
+      if (!emailResult.success) {
+        return {
+          success: false,
+          error: emailResult.error,
+        };
+      }
+
+      if (purchaseOrder.status === 'sent') {
+        return orderResult;
+      }
+
+      return this.purchaseOrderRepository.updateStatus(id, 'sent', ['draft']);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to send purchase order: ${error}`,
+      };
+    }
+  }
+
+  async cancelPurchaseOrder(id: string): Promise<ApiResponse<PurchaseOrder>> {
+    return this.purchaseOrderRepository.updateStatus(id, 'cancelled', CANCELLABLE_STATUSES);
+  }
+
+  async receiveGoods(id: string, lines: GoodsReceiptLine[]): Promise<ApiResponse<PurchaseOrder>> {
+    const received = lines.filter(line => line.quantity > 0);
+    if (received.length === 0) {
+      return {
+        success: false,
+        error: 'Nothing was received',
+      };
+    }
+
+    if (received.some(line => !Number.isInteger(line.quantity))) {
+      return {
+        success: false,
+        error: 'Received quantities must be whole numbers',
+      };
+    }
+
+    const result = await this.purchaseOrderRepository.receive(id, received);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return this.purchaseOrderRepository.findById(id);
+  }
+
+  async renderPdf(purchaseOrder: PurchaseOrder): Promise<ApiResponse<Uint8Array>> {
+    try {
+      return {
+        success: true,
+        data: await this.purchaseOrderPdfService.generate(purchaseOrder),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to render purchase order PDF: ${error}`,
+      };
+    }
+  }
+
+  // The set reorder quantity, or enough to reach twice the reorder level
+  private getReorderQuantity(candidate: ReorderCandidate): number {
+    if (candidate.reorderQuantity) {
+      return candidate.reorderQuantity;
+    }
+
+    return Math.max(candidate.reorderLevel * 2 - candidate.stock - candidate.onOrder, 1);
+  }
+}
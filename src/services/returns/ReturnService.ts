@@ -0,0 +1,421 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IReturnService,
+  IReturnRepository,
+  IOrderRepository,
+  IPaymentEventRepository,
+  IInventoryService,
+  IInvoiceService,
+  CreateReturnData,
+  ApproveReturnOptions
+} from '@/interfaces';
+import type { ApiResponse, Order, PaymentMethod, PaymentStatus, ReturnRequest, ReturnStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+import type { PaymentProviderFactory } from '@/services/payment/PaymentProviderFactory';
+
+// Returns that no longer hold on to the items they list
+const CLOSED_STATUSES: ReturnStatus[] = ['rejected', 'cancelled'];
+
+/**
+ * Return Service
+ *
+ * Refunds go back through the provider the order was paid with. Swish refunds
+ * settle asynchronously, so the order's payment status for those is left to the
+ * Swish refund callback; other providers confirm the refund immediately.
+ */
+@injectable()
+export class ReturnService implements IReturnService {
+  constructor(
+    @inject(TOKENS.IReturnRepository) private readonly returnRepository: IReturnRepository,
+    @inject(TOKENS.IOrderRepository) private readonly orderRepository: IOrderRepository,
+    @inject(TOKENS.IPaymentEventRepository) private readonly paymentEventRepository: IPaymentEventRepository,
+    @inject(TOKENS.IInventoryService) private readonly inventoryService: IInventoryService,
+    @inject(TOKENS.PaymentProviderFactory) private readonly paymentProviderFactory: PaymentProviderFactory,
+    @inject(TOKENS.IInvoiceService) private readonly invoiceService: IInvoiceService
+  ) {}
+
+  async requestReturn(customerId: string, data: CreateReturnData): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      if (data.items.length === 0) {
+        return {
+          success: false,
+          error: 'Select at least one item to return',
+        };
+      }
+
+      const orderResult = await this.orderRepository.findById(data.orderId);
+      if (!orderResult.success || !orderResult.data) {
+        return {
+          success: false,
+          error: orderResult.error || 'Order not found',
+        };
+      }
+
+      const order = orderResult.data;
+      if (order.customerId !== customerId) {
+        return {
+          success: false,
+          error: 'Order not found',
+        };
+      }
+
+      const eligibility = await this.returnRepository.isOrderEligible(order.id, config.returns.windowDays);
+      if (!eligibility.success) {
+        return {
+          success: false,
+          error: eligibility.error,
+        };
+      }
+      if (!eligibility.data) {
+        return {
+          success: false,
+          error: `Orders can only be returned within ${config.returns.windowDays} days of purchase once they have shipped`,
+        };
+      }
+
+      const existingResult = await this.returnRepository.findByOrderId(order.id);
+      if (!existingResult.success) {
+        return {
+          success: false,
+          error: existingResult.error,
+        };
+      }
+
+      const quantityError = this.validateQuantities(order, data, existingResult.data || []);
+      if (quantityError) {
+        return {
+          success: false,
+          error: quantityError,
+        };
+      }
+
+      return await this.returnRepository.create({
+        orderId: order.id,
+        customerId,
+        status: 'pending',
+        reason: data.reason,
+        refundAmount: this.calculateRefundAmount(order, data.items),
+        items: data.items,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to request return: ${error}`,
+      };
+    }
+  }
+
+  async cancelReturn(returnId: string, customerId: string): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      const returnResult = await this.returnRepository.findById(returnId);
+      if (!returnResult.success || returnResult.data!.customerId !== customerId) {
+        return {
+          success: false,
+          error: 'Return not found',
+        };
+      }
+
+      const transition = this.checkTransition(returnResult.data!, ['pending', 'approved'], 'cancelled');
+      if (transition) return transition;
+
+      return await this.returnRepository.update(returnId, { status: 'cancelled' });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to cancel return: ${error}`,
+      };
+    }
+  }
+
+  async approveReturn(returnId: string, options: ApproveReturnOptions = {}): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      const returnResult = await this.returnRepository.findById(returnId);
+      if (!returnResult.success) return returnResult;
+
+      const transition = this.checkTransition(returnResult.data!, ['pending'], 'approved');
+      if (transition) return transition;
+
+      if (options.refundAmount !== undefined && options.refundAmount < 0) {
+        return {
+          success: false,
+          error: 'Refund amount cannot be negative',
+        };
+      }
+
+      return await this.returnRepository.update(returnId, {
+        status: 'approved',
+        approvedAt: new Date(),
+        adminNotes: options.adminNotes,
+        refundAmount: options.refundAmount,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to approve return: ${error}`,
+      };
+    }
+  }
+
+  async rejectReturn(returnId: string, adminNotes: string): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      const returnResult = await this.returnRepository.findById(returnId);
+      if (!returnResult.success) return returnResult;
+
+      const transition = this.checkTransition(returnResult.data!, ['pending', 'approved'], 'rejected');
+      if (transition) return transition;
+
+      return await this.returnRepository.update(returnId, {
+        status: 'rejected',
+        adminNotes,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to reject return: ${error}`,
+      };
+    }
+  }
+
+  async markReceived(returnId: string, trackingNumber?: string): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      const returnResult = await this.returnRepository.findById(returnId);
+      if (!returnResult.success) return returnResult;
+
+      const transition = this.checkTransition(returnResult.data!, ['approved'], 'received');
+      if (transition) return transition;
+
+      const result = await this.returnRepository.update(returnId, {
+        status: 'received',
+        receivedAt: new Date(),
+        trackingNumber,
+      });
+
+      if (result.success) {
+        // Only sealed bottles can be sold again
+        for (const item of returnResult.data!.items.filter(returnItem => returnItem.condition === 'unopened')) {
+          const restock = await this.inventoryService.updateStock(item.productId, item.quantity);
+          if (!restock.success) {
+            console.error(`Failed to restock ${item.productId} from return ${returnId}:`, restock.error);
+          }
+        }
+      }
+
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to mark return as received: ${error}`,
+      };
+    }
+  }
+
+  async refundReturn(returnId: string): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      const returnResult = await this.returnRepository.findById(returnId);
+      if (!returnResult.success) return returnResult;
+
+      const returnRequest = returnResult.data!;
+      const transition = this.checkTransition(returnRequest, ['received'], 'refunded');
+      if (transition) return transition;
+
+      const orderResult = await this.orderRepository.findById(returnRequest.orderId);
+      if (!orderResult.success || !orderResult.data) {
+        return {
+          success: false,
+          error: orderResult.error || 'Order not found',
+        };
+      }
+
+      const order = orderResult.data;
+      const providerMethod = this.getProviderMethod(order.paymentMethod);
+      const provider = this.paymentProviderFactory.getProvider(providerMethod);
+
+      // Bank transfers have no provider; finance pays those out by hand
+      let refundMethod = 'manual';
+      let creditNoteReference = `return-${returnRequest.id}`;
+      if (provider && returnRequest.refundAmount > 0) {
+        const refund = await provider.refundPayment(order.paymentId, returnRequest.refundAmount);
+        if (!refund.success) {
+          return {
+            success: false,
+            error: `Refund failed: ${refund.error}`,
+          };
+        }
+        refundMethod = providerMethod;
+        // The provider's refund webhook credits the same refund under this reference
+        if (refund.data) {
+          creditNoteReference = `${providerMethod}-refund-${refund.data}`;
+        }
+      }
+
+      const result = await this.returnRepository.update(returnId, {
+        status: 'refunded',
+        refundedAt: new Date(),
+        refundMethod,
+      });
+
+      if (result.success && providerMethod !== 'swish') {
+        await this.recordRefund(order, returnRequest, refundMethod);
+      }
+
+      if (result.success && returnRequest.refundAmount > 0) {
+        await this.issueCreditNote(order, returnRequest, creditNoteReference);
+      }
+
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to refund return: ${error}`,
+      };
+    }
+  }
+
+  async getReturn(returnId: string): Promise<ApiResponse<ReturnRequest>> {
+    try {
+      return await this.returnRepository.findById(returnId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get return: ${error}`,
+      };
+    }
+  }
+
+  async getCustomerReturns(customerId: string): Promise<ApiResponse<ReturnRequest[]>> {
+    try {
+      return await this.returnRepository.findByCustomerId(customerId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get customer returns: ${error}`,
+      };
+    }
+  }
+
+  async getReturnsByStatus(status?: ReturnStatus): Promise<ApiResponse<ReturnRequest[]>> {
+    try {
+      return await this.returnRepository.findByStatus(status);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get returns: ${error}`,
+      };
+    }
+  }
+
+  private checkTransition(
+    returnRequest: ReturnRequest,
+    allowedFrom: ReturnStatus[],
+    to: ReturnStatus
+  ): ApiResponse<ReturnRequest> | null {
+    if (allowedFrom.includes(returnRequest.status)) {
+      return null;
+    }
+    return {
+      success: false,
+      error: `Cannot change return from ${returnRequest.status} to ${to}`,
+    };
+  }
+
+  /**
+   * Each product can be returned up to the quantity ordered, less what open or
+   * completed returns for the same order already cover
+   */
+  private validateQuantities(order: Order, data: CreateReturnData, existing: ReturnRequest[]): string | null {
+    for (const item of data.items) {
+      if (item.quantity <= 0) {
+        return 'Return quantity must be at least 1';
+      }
+
+      const ordered = order.items
+        .filter(orderItem => orderItem.productId === item.productId)
+        .reduce((sum, orderItem) => sum + orderItem.quantity, 0);
+
+      if (ordered === 0) {
+        return `Product ${item.productId} is not part of this order`;
+      }
+
+      const alreadyReturned = existing
+        .filter(returnRequest => !CLOSED_STATUSES.includes(returnRequest.status))
+        .flatMap(returnRequest => returnRequest.items)
+        .filter(returnItem => returnItem.productId === item.productId)
+        .reduce((sum, returnItem) => sum + returnItem.quantity, 0);
+
+      const requested = data.items
+        .filter(other => other.productId === item.productId)
+        .reduce((sum, other) => sum + other.quantity, 0);
+
+      if (requested + alreadyReturned > ordered) {
+        return `Only ${ordered - alreadyReturned} of product ${item.productId} can be returned`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Price charged for the returned items (VAT included), less their share of
+   * any order discount. Shipping is not refunded on a regular return.
+   */
+  private calculateRefundAmount(order: Order, items: CreateReturnData['items']): number {
+    const itemsTotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+    const returnedTotal = items.reduce((sum, item) => {
+      const orderItem = order.items.find(candidate => candidate.productId === item.productId);
+      return sum + (orderItem ? orderItem.price * item.quantity : 0);
+    }, 0);
+
+    const discountShare = order.discount && !order.discount.freeShipping && itemsTotal > 0
+      ? order.discount.amount / itemsTotal
+      : 0;
+
+    return Math.round(returnedTotal * (1 - discountShare) * 100) / 100;
+  }
+
+  private getProviderMethod(paymentMethod: PaymentMethod): PaymentMethod {
+    // Card payments are taken through Stripe
+    return paymentMethod === 'card' ? 'stripe' : paymentMethod;
+  }
+
+  private async issueCreditNote(order: Order, returnRequest: ReturnRequest, reference: string): Promise<void> {
+    // The refund has gone through either way; a missing credit note can be issued again later
+    const creditNote = await this.invoiceService.issueCreditNote(order.id, {
+      reference,
+      amount: returnRequest.refundAmount,
+      items: returnRequest.items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+      })),
+    });
+
+    if (!creditNote.success) {
+      console.error(`Failed to issue credit note for return ${returnRequest.id}:`, creditNote.error);
+    }
+  }
+
+  private async recordRefund(order: Order, returnRequest: ReturnRequest, refundMethod: string): Promise<void> {
+    try {
+      await this.paymentEventRepository.recordEvent({
+        provider: refundMethod,
+        eventType: 'refund',
+        externalId: `return-${returnRequest.id}`,
+        status: 'REFUNDED',
+        orderId: order.id,
+        amount: returnRequest.refundAmount,
+        currency: 'SEK',
+      });
+
+      const returnsResult = await this.returnRepository.findByOrderId(order.id);
+      const refundedTotal = (returnsResult.data || [])
+        .filter(other => other.status === 'refunded')
+        .reduce((sum, other) => sum + other.refundAmount, 0);
+
+      const paymentStatus: PaymentStatus = refundedTotal >= order.total - 0.01 ? 'refunded' : 'partially_refunded';
+      await this.orderRepository.update(order.id, { paymentStatus });
+    } catch (error) {
+      console.error(`Failed to record refund for return ${returnRequest.id}:`, error);
+    }
+  }
+}
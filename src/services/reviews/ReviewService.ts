@@ -0,0 +1,225 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IReviewService,
+  IReviewRepository,
+  IOrderRepository,
+  IProductRepository,
+  ICustomerRepository,
+  CreateReviewData,
+  ProductReviews
+} from '@/interfaces';
+import type { ApiResponse, Customer, Review, ReviewStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+
+/**
+ * Review Service
+ *
+ * The product's average rating and review count are maintained by the
+ * database when reviews are approved, rejected or removed, so moderation only
+ * has to change the review's status.
+ */
+@injectable()
+export class ReviewService implements IReviewService {
+  constructor(
+    @inject(TOKENS.IReviewRepository) private readonly reviewRepository: IReviewRepository,
+    @inject(TOKENS.IOrderRepository) private readonly orderRepository: IOrderRepository,
+    @inject(TOKENS.IProductRepository) private readonly productRepository: IProductRepository,
+    @inject(TOKENS.ICustomerRepository) private readonly customerRepository: ICustomerRepository
+  ) {}
+
+  async getProductReviews(productId: string, limit = 50): Promise<ApiResponse<ProductReviews>> {
+    try {
+      const productResult = await this.productRepository.findById(productId);
+      if (!productResult.success || !productResult.data) {
+        return {
+          success: false,
+          error: 'Product not found',
+        };
+      }
+
+      const reviewsResult = await this.reviewRepository.findByProduct(productId, 'approved', limit);
+      if (!reviewsResult.success) {
+        return {
+          success: false,
+          error: reviewsResult.error,
+        };
+      }
+
+      const distributionResult = await this.reviewRepository.getRatingDistribution(productId);
+      if (!distributionResult.success) {
+        return {
+          success: false,
+          error: distributionResult.error,
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          reviews: reviewsResult.data!,
+          summary: {
+            averageRating: productResult.data.averageRating || 0,
+            reviewCount: productResult.data.reviewCount || 0,
+            distribution: distributionResult.data!,
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch reviews: ${error}`,
+      };
+    }
+  }
+
+  async submitReview(customerId: string, data: CreateReviewData): Promise<ApiResponse<Review>> {
+    try {
+      const productResult = await this.productRepository.findById(data.productId);
+      if (!productResult.success || !productResult.data) {
+        return {
+          success: false,
+          error: 'Product not found',
+        };
+      }
+
+      const existingResult = await this.reviewRepository.findByProductAndCustomer(data.productId, customerId);
+      if (!existingResult.success) {
+        return {
+          success: false,
+          error: existingResult.error,
+        };
+      }
+      if (existingResult.data) {
+        return {
+          success: false,
+          error: 'You have already reviewed this product',
+        };
+      }
+
+      const customerResult = await this.customerRepository.findById(customerId);
+      if (!customerResult.success || !customerResult.data) {
+        return {
+          success: false,
+          error: 'Customer not found',
+        };
+      }
+
+      // The badge is only a hint to other shoppers, so a failed lookup leaves
+      // the review unverified rather than turning it away
+      const purchaseResult = await this.orderRepository.hasDeliveredOrderWithProduct(customerId, data.productId);
+      if (!purchaseResult.success) {
+        console.error(`Failed to verify purchase of ${data.productId} by ${customerId}:`, purchaseResult.error);
+      }
+
+      return await this.reviewRepository.create({
+        productId: data.productId,
+        customerId,
+        authorName: this.getAuthorName(customerResult.data),
+        rating: data.rating,
+        title: data.title.trim(),
+        comment: data.comment.trim(),
+        verified: purchaseResult.success && purchaseResult.data === true,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to submit review: ${error}`,
+      };
+    }
+  }
+
+  async approveReview(reviewId: string): Promise<ApiResponse<Review>> {
+    return this.moderate(reviewId, 'approved');
+  }
+
+  async rejectReview(reviewId: string, moderationNote?: string): Promise<ApiResponse<Review>> {
+    return this.moderate(reviewId, 'rejected', moderationNote);
+  }
+
+  async getReviewsByStatus(status?: ReviewStatus): Promise<ApiResponse<Review[]>> {
+    return this.reviewRepository.findByStatus(status);
+  }
+
+  async markHelpful(reviewId: string, voterKey: string): Promise<ApiResponse<{ helpful: number }>> {
+    try {
+      const reviewResult = await this.reviewRepository.findById(reviewId);
+      if (!reviewResult.success || !reviewResult.data || reviewResult.data.status !== 'approved') {
+        return {
+          success: false,
+          error: 'Review not found',
+        };
+      }
+
+      const voteResult = await this.reviewRepository.addHelpfulVote(reviewId, voterKey);
+      if (!voteResult.success) {
+        return {
+          success: false,
+          error: voteResult.error,
+        };
+      }
+      if (!voteResult.data) {
+        return {
+          success: false,
+          error: 'You have already marked this review as helpful',
+        };
+      }
+
+      // Read back the count, which the database updates as votes come in
+      const updatedResult = await this.reviewRepository.findById(reviewId);
+
+      return {
+        success: true,
+        data: { helpful: updatedResult.data?.helpful ?? reviewResult.data.helpful + 1 },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to mark review as helpful: ${error}`,
+      };
+    }
+  }
+
+  private async moderate(
+    reviewId: string,
+    status: ReviewStatus,
+    moderationNote?: string
+  ): Promise<ApiResponse<Review>> {
+    try {
+      const reviewResult = await this.reviewRepository.findById(reviewId);
+      if (!reviewResult.success || !reviewResult.data) {
+        return {
+          success: false,
+          error: reviewResult.error || 'Review not found',
+        };
+      }
+
+      if (reviewResult.data.status === status) {
+        return {
+          success: false,
+          error: `Review is already ${status}`,
+        };
+      }
+
+      return await this.reviewRepository.updateStatus(reviewId, status, moderationNote);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to moderate review: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * First name and last initial, e.g. "Anna S."
+   */
+  private getAuthorName(customer: Customer): string {
+    const firstName = customer.firstName.trim();
+    const initial = customer.lastName.trim().charAt(0);
+
+    if (!firstName) {
+      return 'Kund';
+    }
+
+    return initial ? `${firstName} ${initial.toUpperCase()}.` : firstName;
+  }
+}
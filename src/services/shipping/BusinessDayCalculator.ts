@@ -0,0 +1,83 @@
+/**
+ * Business Day Calculator
+ *
+ * Delivery dates in working days: parcels leave on the order day when it is
+ * placed before the carrier's cut-off on a business day, and neither
+ * dispatch nor delivery happens on weekends or Swedish holidays.
+ */
+
+import { injectable, inject } from 'tsyringe';
+import { TOKENS } from '@/config/di-container';
+import { SwedishHolidayCalendar, toStockholmTime } from './SwedishHolidayCalendar';
+
+export interface DeliveryEstimateInput {
+  // Carrier transit time in business days; 0 is same-day delivery
+  transitDays: number;
+  // Last order time for same-day dispatch, HH:mm Swedish time
+  cutoffTime?: string;
+  // Extra days for remote postal zones
+  additionalDays?: number;
+  // When the order is placed; defaults to now
+  orderedAt?: Date;
+}
+
+@injectable()
+export class BusinessDayCalculator {
+  constructor(
+    @inject(TOKENS.SwedishHolidayCalendar) private readonly holidayCalendar: SwedishHolidayCalendar
+  ) {}
+
+  isBusinessDay(date: Date): boolean {
+    const { day } = toStockholmTime(date);
+    const weekday = day.getUTCDay();
+    return weekday !== 0 && weekday !== 6 && !this.holidayCalendar.isHoliday(day);
+  }
+
+  /**
+   * The first business day after the given date
+   */
+  nextBusinessDay(date: Date): Date {
+    let day = this.addDays(toStockholmTime(date).day, 1);
+    while (!this.isBusinessDay(day)) {
+      day = this.addDays(day, 1);
+    }
+    return day;
+  }
+
+  addBusinessDays(date: Date, days: number): Date {
+    let day = toStockholmTime(date).day;
+    for (let i = 0; i < days; i++) {
+      day = this.nextBusinessDay(day);
+    }
+    return day;
+  }
+
+  /**
+   * The day an order leaves the warehouse
+   */
+  getDispatchDate(orderedAt: Date, cutoffTime?: string): Date {
+    const { day, minutes } = toStockholmTime(orderedAt);
+    const beforeCutoff = !cutoffTime || minutes < this.parseTime(cutoffTime);
+
+    return this.isBusinessDay(day) && beforeCutoff ? day : this.nextBusinessDay(day);
+  }
+
+  /**
+   * Estimated delivery day, as a calendar day at noon UTC
+   */
+  estimateDelivery(input: DeliveryEstimateInput): Date {
+    const dispatchDate = this.getDispatchDate(input.orderedAt || new Date(), input.cutoffTime);
+    return this.addBusinessDays(dispatchDate, input.transitDays + (input.additionalDays || 0));
+  }
+
+  private addDays(day: Date, days: number): Date {
+    const result = new Date(day);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+  }
+
+  private parseTime(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  }
+}
@@ -0,0 +1,39 @@
+// Carrier Adapter Registry
+// Collects the carrier adapters registered with the DI container, one per carrier code
+
+import { injectable, injectAll } from 'tsyringe';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+import type { ICarrierAdapter } from './ICarrierAdapter';
+
+@injectable()
+export class CarrierAdapterRegistry {
+  private readonly adapters = new Map<string, ICarrierAdapter>();
+
+  constructor(@injectAll(TOKENS.ICarrierAdapter) adapters: ICarrierAdapter[]) {
+    for (const adapter of adapters) {
+      this.adapters.set(adapter.carrierCode, adapter);
+    }
+  }
+
+  getAdapter(carrierCode: string): ICarrierAdapter | null {
+    return this.adapters.get(carrierCode) || null;
+  }
+
+  /**
+   * The adapter to track the carrier's parcels with. Stubbed tracking makes
+   * up events, so without the carrier's API it is only used when simulated
+   * tracking is switched on.
+   */
+  getTrackingAdapter(carrierCode: string): ICarrierAdapter | null {
+    const adapter = this.getAdapter(carrierCode);
+    if (!adapter || (!adapter.hasLiveTracking() && !config.shipping.tracking.simulateEvents)) {
+      return null;
+    }
+    return adapter;
+  }
+
+  getCarrierCodes(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
@@ -14,6 +14,8 @@ export interface FilterCriteria {
   orderValue: number;
   destination: string;
   postalCode?: string;
+  // The cart holds flammable oils, which only ship as limited quantities
+  dangerousGoods?: boolean;
   preferences?: {
     speed?: 'fastest' | 'standard';
     eco?: boolean;
@@ -29,6 +31,11 @@ export class CarrierRulesEngine {
   applySmartFilters(carriers: CarrierInfo[], criteria: FilterCriteria): CarrierInfo[] {
     let filtered = carriers;
 
+    // Dangerous goods filter (hard constraint)
+    if (criteria.dangerousGoods) {
+      filtered = this.filterByLimitedQuantity(filtered);
+    }
+
     // Weight filter (hard constraint)
     filtered = this.filterByWeight(filtered, criteria.weight);
 
@@ -69,6 +76,19 @@ export class CarrierRulesEngine {
     );
   }
 
+  /**
+   * Keep only the services that carry limited quantities, and the carriers
+   * left with at least one of them
+   */
+  filterByLimitedQuantity(carriers: CarrierInfo[]): CarrierInfo[] {
+    return carriers
+      .map(carrier => ({
+        ...carrier,
+        services: carrier.services.filter(service => service.acceptsLimitedQuantity),
+      }))
+      .filter(carrier => carrier.services.length > 0);
+  }
+
   /**
    * Filter carriers by destination (postal code zones)
    */
@@ -255,6 +275,24 @@ export class CarrierRulesEngine {
     });
   }
 
+  /**
+   * Keep the rates for services the filtered carriers still offer. Rates not
+   * tied to a carrier service are kept, except for dangerous goods, since
+   * nothing says whether they may carry them.
+   */
+  filterRatesByCarriers(rates: ShippingRate[], carriers: CarrierInfo[], criteria: FilterCriteria): ShippingRate[] {
+    return rates.filter(rate => {
+      if (!rate.carrierCode || !rate.serviceType) {
+        return !criteria.dangerousGoods;
+      }
+
+      return carriers.some(carrier =>
+        carrier.code === rate.carrierCode &&
+        carrier.services.some(service => service.type === rate.serviceType)
+      );
+    });
+  }
+
   /**
    * Group rates by carrier
    */
@@ -0,0 +1,73 @@
+/**
+ * Dangerous Goods Rules
+ *
+ * Works out which flammable liquids a parcel holds and checks it against the
+ * limited-quantity limits, so the label gets the LQ mark and the admin is
+ * warned about parcels that have to be split or repacked before they ship.
+ */
+
+import { DangerousGoodsCheck, DangerousGoodsUnNumber, DeliveryType, Product } from '@/types';
+import { LIMITED_QUANTITY_LIMITS } from '@/config/dangerousGoods';
+import { getCarrierByCode } from '@/config/carriers';
+
+interface ParcelItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+}
+
+/**
+ * Check the items in one parcel; products missing from the map are taken to
+ * be ordinary goods
+ */
+export function checkDangerousGoods(
+  items: ParcelItem[],
+  products: Map<string, Product>,
+  grossWeight: number
+): DangerousGoodsCheck {
+  const unNumbers = new Set<DangerousGoodsUnNumber>();
+  const warnings: string[] = [];
+  let totalVolumeMl = 0;
+
+  for (const item of items) {
+    const dangerousGoods = products.get(item.productId)?.dangerousGoods;
+    if (!dangerousGoods) {
+      continue;
+    }
+
+    unNumbers.add(dangerousGoods.unNumber);
+    totalVolumeMl += dangerousGoods.volumeMl * item.quantity;
+
+    const maxVolume = LIMITED_QUANTITY_LIMITS.maxInnerPackagingMl[dangerousGoods.packingGroup];
+    if (dangerousGoods.volumeMl > maxVolume) {
+      warnings.push(
+        `${item.productName}: ${dangerousGoods.volumeMl} ml bottles are over the ${maxVolume} ml limit for packing group ${dangerousGoods.packingGroup}`
+      );
+    }
+  }
+
+  const limitedQuantity = unNumbers.size > 0;
+  if (limitedQuantity && grossWeight > LIMITED_QUANTITY_LIMITS.maxPackageGrossWeight) {
+    warnings.push(
+      `Parcel weighs ${grossWeight.toFixed(2)} kg, over the ${LIMITED_QUANTITY_LIMITS.maxPackageGrossWeight} kg limit for limited quantities; split it into several parcels`
+    );
+  }
+
+  return {
+    unNumbers: [...unNumbers].sort(),
+    limitedQuantity,
+    totalVolumeMl,
+    grossWeight,
+    warnings,
+  };
+}
+
+/**
+ * Whether the carrier has a service for the delivery type that carries limited quantities
+ */
+export function carriesLimitedQuantity(carrierCode: string, deliveryType: DeliveryType): boolean {
+  const carrier = getCarrierByCode(carrierCode);
+  return !!carrier?.services.some(service =>
+    service.deliveryType === deliveryType && service.acceptsLimitedQuantity
+  );
+}
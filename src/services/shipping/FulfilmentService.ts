@@ -0,0 +1,346 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IFulfilmentService,
+  IOrderService,
+  IProductRepository,
+  IShipmentService,
+  OrderStatusChangeSource
+} from '@/interfaces';
+import type {
+  ApiResponse,
+  FulfilmentStatus,
+  Order,
+  OrderStatus,
+  OrderStatusStep,
+  PickList,
+  PickListLine,
+  OrderShipment,
+  Product
+} from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { findTransitionPath } from '@/services/orders/OrderStateMachine';
+import { getUnallocatedItems } from './ShipmentStateMachine';
+import type { LabelGenerationService } from './LabelGenerationService';
+import type { PackingSlipPdfService } from './PackingSlipPdfService';
+
+// Orders waiting in the warehouse; packed ones may still need their labels
+const FULFILMENT_STATUSES: OrderStatus[] = ['paid', 'picking', 'packed'];
+
+/**
+ * Fulfilment Service
+ *
+ * Works on a batch of orders picked from the fulfilment queue. Every order in
+ * the batch is loaded and checked first, so a pick list or a stack of packing
+ * slips never covers only part of the batch, and a status change is written
+ * for the whole batch in one transaction.
+ */
+@injectable()
+export class FulfilmentService implements IFulfilmentService {
+  constructor(
+    @inject(TOKENS.IOrderService) private readonly orderService: IOrderService,
+    @inject(TOKENS.IProductRepository) private readonly productRepository: IProductRepository,
+    @inject(TOKENS.IShipmentService) private readonly shipmentService: IShipmentService,
+    @inject(TOKENS.LabelGenerationService) private readonly labelGenerationService: LabelGenerationService,
+    @inject(TOKENS.PackingSlipPdfService) private readonly packingSlipPdfService: PackingSlipPdfService
+  ) {}
+
+  async getFulfilmentQueue(): Promise<ApiResponse<Order[]>> {
+    try {
+      const orders: Order[] = [];
+      for (const status of FULFILMENT_STATUSES) {
+        const result = await this.orderService.getOrdersByStatus(status);
+        if (!result.success) {
+          return result;
+        }
+        orders.push(...result.data!);
+      }
+
+      return {
+        success: true,
+        data: orders.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get fulfilment queue: ${error}`,
+      };
+    }
+  }
+
+  async getPickList(orderIds: string[]): Promise<ApiResponse<PickList>> {
+    try {
+      const batch = await this.loadBatch(orderIds);
+      if (!batch.success) {
+        return { success: false, error: batch.error };
+      }
+
+      const orders = batch.data!;
+      const productsResult = await this.loadProducts(orders);
+      if (!productsResult.success) {
+        return { success: false, error: productsResult.error };
+      }
+
+      const products = productsResult.data!;
+      const lines = new Map<string, PickListLine>();
+
+      for (const order of orders) {
+        for (const item of order.items) {
+          const product = products.get(item.productId);
+          let line = lines.get(item.productId);
+          if (!line) {
+            line = {
+              productId: item.productId,
+              sku: product?.sku || '',
+              productName: product?.name || item.productName,
+              shelfLocation: product?.shelfLocation,
+              quantity: 0,
+              orders: [],
+            };
+            lines.set(item.productId, line);
+          }
+
+          line.quantity += item.quantity;
+          const orderLine = line.orders.find(entry => entry.orderId === order.id);
+          if (orderLine) {
+            orderLine.quantity += item.quantity;
+          } else {
+            line.orders.push({ orderId: order.id, orderNumber: order.orderNumber, quantity: item.quantity });
+          }
+        }
+      }
+
+      const sortedLines = [...lines.values()].sort(comparePickLines);
+
+      return {
+        success: true,
+        data: {
+          orders: orders.map(order => ({ id: order.id, orderNumber: order.orderNumber, status: order.status })),
+          lines: sortedLines,
+          totalQuantity: sortedLines.reduce((sum, line) => sum + line.quantity, 0),
+          generatedAt: new Date(),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create pick list: ${error}`,
+      };
+    }
+  }
+
+  async renderPackingSlips(orderIds: string[]): Promise<ApiResponse<Uint8Array>> {
+    try {
+      const batch = await this.loadBatch(orderIds);
+      if (!batch.success) {
+        return { success: false, error: batch.error };
+      }
+
+      const productsResult = await this.loadProducts(batch.data!);
+      if (!productsResult.success) {
+        return { success: false, error: productsResult.error };
+      }
+
+      return {
+        success: true,
+        data: await this.packingSlipPdfService.generate(batch.data!, productsResult.data!),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to render packing slips: ${error}`,
+      };
+    }
+  }
+
+  async renderBatchLabels(orderIds: string[], change: OrderStatusChangeSource): Promise<ApiResponse<Uint8Array>> {
+    try {
+      const batch = await this.loadBatch(orderIds);
+      if (!batch.success) {
+        return { success: false, error: batch.error };
+      }
+
+      // Reprinting a batch reuses its labels rather than booking the parcels again
+      const labelUrls: string[] = [];
+      for (const order of batch.data!) {
+        const shipmentsResult = await this.prepareShipments(order, change);
+        if (!shipmentsResult.success) {
+          return {
+            success: false,
+            error: `Label for order ${order.orderNumber} failed: ${shipmentsResult.error}`,
+          };
+        }
+        labelUrls.push(...shipmentsResult.data!.map(shipment => shipment.labelUrl!));
+      }
+
+      return await this.labelGenerationService.mergeLabelPdfs(labelUrls);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to render batch labels: ${error}`,
+      };
+    }
+  }
+
+  async updateBatchStatus(
+    orderIds: string[],
+    status: FulfilmentStatus,
+    change: OrderStatusChangeSource
+  ): Promise<ApiResponse<Order[]>> {
+    try {
+      const batch = await this.loadBatch(orderIds);
+      if (!batch.success) {
+        return batch;
+      }
+
+      // Orders already there are left alone; paid orders go through picking on the way to packed
+      const paths = batch.data!.map(order => ({
+        order,
+        path: order.status === status ? [] : findTransitionPath(order.status, status),
+      }));
+
+      const blocked = paths.filter(entry => !entry.path);
+      if (blocked.length > 0) {
+        return {
+          success: false,
+          error: `Cannot move to ${status}: ${blocked.map(entry => `${entry.order.orderNumber} is ${entry.order.status}`).join(', ')}`,
+        };
+      }
+
+      const steps: OrderStatusStep[] = paths.flatMap(({ order, path }) =>
+        path!.map((to, index) => ({ orderId: order.id, from: index === 0 ? order.status : path![index - 1], to }))
+      );
+      if (steps.length === 0) {
+        return {
+          success: true,
+          data: batch.data!,
+        };
+      }
+
+      // One transaction for the whole batch
+      const result = await this.orderService.transitionOrders(steps, change);
+      if (!result.success) {
+        return {
+          success: false,
+          error: `No order in the batch was moved to ${status}: ${result.error}`,
+        };
+      }
+
+      const moved = new Map(result.data!.map(order => [order.id, order]));
+      return {
+        success: true,
+        data: batch.data!.map(order => moved.get(order.id) || order),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update batch status: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * The order's shipments, each with a label: items not yet in a shipment are
+   * put in a new one and shipments without a label are booked with the carrier
+   */
+  private async prepareShipments(order: Order, change: OrderStatusChangeSource): Promise<ApiResponse<OrderShipment[]>> {
+    const shipmentsResult = await this.shipmentService.getOrderShipments(order.id);
+    if (!shipmentsResult.success) {
+      return shipmentsResult;
+    }
+
+    const shipments = shipmentsResult.data!.filter(shipment => shipment.status !== 'cancelled');
+
+    const unallocated = getUnallocatedItems(order.items, shipmentsResult.data!);
+    if (unallocated.length > 0) {
+      const created = await this.shipmentService.createShipment(order.id, {
+        items: unallocated.map(item => ({ productId: item.productId, quantity: item.quantity })),
+      }, change);
+      if (!created.success) {
+        return { success: false, error: created.error };
+      }
+      shipments.push(created.data!);
+    }
+
+    const labelled: OrderShipment[] = [];
+    for (const shipment of shipments) {
+      if (shipment.labelUrl) {
+        labelled.push(shipment);
+        continue;
+      }
+
+      const labelResult = await this.shipmentService.generateLabel(shipment.id);
+      if (!labelResult.success) {
+        return { success: false, error: labelResult.error };
+      }
+      labelled.push(labelResult.data!);
+    }
+
+    return {
+      success: true,
+      data: labelled,
+    };
+  }
+
+  /**
+   * The batch's orders in the order given, each one waiting for fulfilment
+   */
+  private async loadBatch(orderIds: string[]): Promise<ApiResponse<Order[]>> {
+    const uniqueIds = [...new Set(orderIds)];
+    if (uniqueIds.length === 0) {
+      return {
+        success: false,
+        error: 'Choose at least one order',
+      };
+    }
+
+    const orders: Order[] = [];
+    for (const id of uniqueIds) {
+      const result = await this.orderService.getOrderById(id);
+      if (!result.success) {
+        return {
+          success: false,
+          error: `Order ${id}: ${result.error}`,
+        };
+      }
+
+      const order = result.data!;
+      if (!FULFILMENT_STATUSES.includes(order.status)) {
+        return {
+          success: false,
+          error: `Order ${order.orderNumber} is ${order.status} and not waiting for fulfilment`,
+        };
+      }
+      orders.push(order);
+    }
+
+    return {
+      success: true,
+      data: orders,
+    };
+  }
+
+  private async loadProducts(orders: Order[]): Promise<ApiResponse<Map<string, Product>>> {
+    const productIds = orders.flatMap(order => order.items.map(item => item.productId));
+    const result = await this.productRepository.findByIds(productIds);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: new Map(result.data!.map(product => [product.id, product])),
+    };
+  }
+}
+
+// Shelf locations such as A-2 and A-10 sort by their numbers; products without one come last
+function comparePickLines(a: PickListLine, b: PickListLine): number {
+  if (a.shelfLocation && !b.shelfLocation) return -1;
+  if (!a.shelfLocation && b.shelfLocation) return 1;
+
+  const byLocation = (a.shelfLocation || '').localeCompare(b.shelfLocation || '', 'sv', { numeric: true });
+  return byLocation || a.sku.localeCompare(b.sku, 'sv', { numeric: true });
+}
@@ -0,0 +1,300 @@
+// Carrier Adapter Interface
+// One adapter per carrier quotes, books, tracks and cancels parcels. New carriers are added
+// with an adapter and a DI registration, without changing the shipping services.
+
+import { createHash } from 'crypto';
+import {
+  Address,
+  ApiResponse,
+  CarrierInfo,
+  CarrierService,
+  CarrierTrackingEvent,
+  DeliveryType,
+  PickupPoint,
+  TrackingStatus
+} from '@/types';
+import { getCarrierByCode, getTrackingPrefix } from '@/config/carriers';
+import { isTrackingStatus } from './TrackingStatuses';
+
+export interface CarrierRateRequest {
+  // Parcel weight in kg
+  weight: number;
+  country: string;
+  postalCode?: string;
+  deliveryType?: DeliveryType;
+}
+
+export interface CarrierRateQuote {
+  carrierCode: string;
+  serviceType: string;
+  serviceName: string;
+  price: number;
+  estimatedDays: number;
+  deliveryType: DeliveryType;
+}
+
+export interface CarrierBookingRequest {
+  // Our id for the parcel, e.g. the shipment id; booking the same reference again gives the same parcel
+  reference: string;
+  // Without a service type the first service for the delivery type that takes the weight is booked
+  serviceType?: string;
+  deliveryType?: DeliveryType;
+  // Chargeable weight of the packed parcel in kg
+  weight: number;
+  recipient: Address;
+  pickupPoint?: PickupPoint;
+  // The parcel holds flammable liquids as limited quantities; only services that carry them are booked
+  limitedQuantity?: boolean;
+}
+
+export interface CarrierBooking {
+  carrierCode: string;
+  trackingNumber: string;
+  serviceType: string;
+  serviceName: string;
+  weight: number;
+}
+
+export interface ICarrierAdapter {
+  readonly carrierCode: string;
+
+  quoteRates(request: CarrierRateRequest): Promise<ApiResponse<CarrierRateQuote[]>>;
+  bookShipment(request: CarrierBookingRequest): Promise<ApiResponse<CarrierBooking>>;
+  cancelShipment(trackingNumber: string): Promise<ApiResponse<void>>;
+
+  // True when tracking comes from the carrier's API rather than the local stub
+  hasLiveTracking(): boolean;
+  // Every event the carrier has for the parcel so far
+  fetchTrackingEvents(trackingNumber: string, shippedAt?: Date): Promise<ApiResponse<CarrierTrackingEvent[]>>;
+  // Events in a notification the carrier pushed to our webhook
+  parseTrackingWebhook(payload: unknown): ApiResponse<CarrierTrackingEvent[]>;
+}
+
+export interface StubPrice {
+  basePrice: number;
+  // Added for each kg above STUB_INCLUDED_WEIGHT
+  pricePerKg: number;
+}
+
+const STUB_INCLUDED_WEIGHT = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours after shipping
+const STUB_JOURNEY: Array<{ after: number; status: TrackingStatus; description: string; location: string }> = [
+  { after: 0, status: 'info_received', description: 'Sändningsinformation mottagen', location: 'Stockholm' },
+  { after: 3, status: 'in_transit', description: 'Paketet har lämnat terminalen', location: 'Stockholm Terminal' },
+  { after: 18, status: 'out_for_delivery', description: 'Paketet är ute för leverans', location: 'Leveransterminal' },
+  { after: 24, status: 'delivered', description: 'Paketet har levererats', location: 'Mottagaren' },
+];
+
+interface StubTrackingEvent {
+  trackingNumber?: unknown;
+  status?: unknown;
+  description?: unknown;
+  location?: unknown;
+  occurredAt?: unknown;
+  eventId?: unknown;
+}
+
+/**
+ * Deterministic local stub for every operation, so the whole shipping flow
+ * runs offline: prices come from the adapter's price table, tracking numbers
+ * from the booking reference, and tracking plays the parcel's journey out
+ * from when it was shipped. Adapters override the operations their carrier's
+ * API is integrated for.
+ *
+ * The stub webhook takes hand-written events:
+ *   curl -X POST /api/webhooks/tracking/POSTNORD -d '{"trackingNumber":"PN123","status":"delivered"}'
+ */
+export abstract class BaseCarrierAdapter implements ICarrierAdapter {
+  abstract readonly carrierCode: string;
+  // Price of each of the carrier's services, by service type
+  protected abstract readonly stubPrices: Record<string, StubPrice>;
+
+  protected get carrier(): CarrierInfo {
+    const carrier = getCarrierByCode(this.carrierCode);
+    if (!carrier) {
+      throw new Error(`Unknown carrier: ${this.carrierCode}`);
+    }
+    return carrier;
+  }
+
+  async quoteRates(request: CarrierRateRequest): Promise<ApiResponse<CarrierRateQuote[]>> {
+    const quotes = this.findServices(request.weight, request.deliveryType)
+      .filter(service => this.stubPrices[service.type])
+      .map(service => ({
+        carrierCode: this.carrierCode,
+        serviceType: service.type,
+        serviceName: service.name,
+        price: this.getStubPrice(service.type, request.weight),
+        estimatedDays: service.estimatedDays,
+        deliveryType: service.deliveryType,
+      }));
+
+    return {
+      success: true,
+      data: quotes,
+    };
+  }
+
+  async bookShipment(request: CarrierBookingRequest): Promise<ApiResponse<CarrierBooking>> {
+    const service = request.serviceType
+      ? this.carrier.services.find(candidate => candidate.type === request.serviceType)
+      : this.findServices(request.weight, request.pickupPoint?.type || request.deliveryType || 'home')
+        .find(candidate => !request.limitedQuantity || candidate.acceptsLimitedQuantity);
+
+    if (!service) {
+      return {
+        success: false,
+        error: `${this.carrier.name} has no ${request.serviceType || 'service'} for this parcel`,
+      };
+    }
+
+    if (request.limitedQuantity && !service.acceptsLimitedQuantity) {
+      return {
+        success: false,
+        error: `${service.name} does not carry dangerous goods`,
+      };
+    }
+
+    if (request.weight > service.maxWeight) {
+      return {
+        success: false,
+        error: `${service.name} takes at most ${service.maxWeight} kg`,
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        carrierCode: this.carrierCode,
+        trackingNumber: this.generateTrackingNumber(request.reference),
+        serviceType: service.type,
+        serviceName: service.name,
+        weight: request.weight,
+      },
+    };
+  }
+
+  async cancelShipment(trackingNumber: string): Promise<ApiResponse<void>> {
+    if (!trackingNumber.startsWith(getTrackingPrefix(this.carrierCode))) {
+      return {
+        success: false,
+        error: `${trackingNumber} is not a ${this.carrier.name} parcel`,
+      };
+    }
+
+    return {
+      success: true,
+    };
+  }
+
+  hasLiveTracking(): boolean {
+    return false;
+  }
+
+  async fetchTrackingEvents(trackingNumber: string, shippedAt?: Date): Promise<ApiResponse<CarrierTrackingEvent[]>> {
+    if (!shippedAt) {
+      return {
+        success: true,
+        data: [],
+      };
+    }
+
+    const now = Date.now();
+    const events = STUB_JOURNEY
+      .map((step, index) => ({ step, index, occurredAt: new Date(shippedAt.getTime() + step.after * HOUR_MS) }))
+      .filter(({ occurredAt }) => occurredAt.getTime() <= now)
+      .map(({ step, index, occurredAt }) => ({
+        carrierCode: this.carrierCode,
+        trackingNumber,
+        externalId: `stub-${index}`,
+        status: step.status,
+        carrierStatus: step.status.toUpperCase(),
+        description: step.description,
+        location: step.location,
+        occurredAt,
+      }));
+
+    return {
+      success: true,
+      data: events,
+    };
+  }
+
+  parseTrackingWebhook(payload: unknown): ApiResponse<CarrierTrackingEvent[]> {
+    const body = payload as { events?: StubTrackingEvent[] } & StubTrackingEvent;
+    const received = Array.isArray(body?.events) ? body.events : [body];
+
+    const events: CarrierTrackingEvent[] = [];
+    for (const event of received) {
+      if (typeof event?.trackingNumber !== 'string' || typeof event.status !== 'string' || !isTrackingStatus(event.status)) {
+        return {
+          success: false,
+          error: 'Each event needs a trackingNumber and a known status',
+        };
+      }
+
+      const occurredAt = typeof event.occurredAt === 'string' ? new Date(event.occurredAt) : new Date();
+      if (isNaN(occurredAt.getTime())) {
+        return {
+          success: false,
+          error: 'Invalid occurredAt',
+        };
+      }
+
+      events.push({
+        carrierCode: this.carrierCode,
+        trackingNumber: event.trackingNumber,
+        externalId: typeof event.eventId === 'string' ? event.eventId : `manual-${occurredAt.toISOString()}`,
+        status: event.status,
+        carrierStatus: event.status.toUpperCase(),
+        description: typeof event.description === 'string' ? event.description : '',
+        location: typeof event.location === 'string' ? event.location : undefined,
+        occurredAt,
+      });
+    }
+
+    return {
+      success: true,
+      data: events,
+    };
+  }
+
+  /**
+   * The carrier's services that take the weight, for one delivery type or all
+   */
+  protected findServices(weight: number, deliveryType?: DeliveryType): CarrierService[] {
+    return this.carrier.services.filter(service =>
+      weight >= service.minWeight
+      && weight <= service.maxWeight
+      && (!deliveryType || service.deliveryType === deliveryType)
+    );
+  }
+
+  protected getStubPrice(serviceType: string, weight: number): number {
+    const { basePrice, pricePerKg } = this.stubPrices[serviceType];
+    const extraKg = Math.max(0, Math.ceil(weight - STUB_INCLUDED_WEIGHT));
+    return Math.round((basePrice + extraKg * pricePerKg) * 100) / 100;
+  }
+
+  /**
+   * Carrier prefix, ten characters derived from the reference and a checksum,
+   * so the same parcel always gets the same number
+   */
+  protected generateTrackingNumber(reference: string): string {
+    const prefix = getTrackingPrefix(this.carrierCode);
+    const body = createHash('sha256').update(`${this.carrierCode}:${reference}`).digest('hex').substring(0, 10).toUpperCase();
+
+    return `${prefix}${body}${this.calculateChecksum(`${prefix}${body}`)}`;
+  }
+
+  private calculateChecksum(input: string): string {
+    let sum = 0;
+    for (let i = 0; i < input.length; i++) {
+      sum += input.charCodeAt(i);
+    }
+    return (sum % 97).toString().padStart(2, '0');
+  }
+}
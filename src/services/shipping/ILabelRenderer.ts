@@ -0,0 +1,12 @@
+// Label Renderer Interface
+// One renderer per output format turns a label layout into a printable file
+
+import { LabelFormat } from '@/types';
+import { LabelLayout } from './labels/LabelLayout';
+
+export interface ILabelRenderer {
+  readonly format: LabelFormat;
+  readonly fileExtension: string;
+
+  render(layout: LabelLayout): Promise<Uint8Array>;
+}
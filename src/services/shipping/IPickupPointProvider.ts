@@ -0,0 +1,14 @@
+// Pickup Point Provider Interface
+// One provider per carrier; a carrier's location API can replace the local dataset without changing the service
+
+import { ApiResponse, DeliveryType, PickupPoint } from '@/types';
+
+export type PickupPointType = Exclude<DeliveryType, 'home'>;
+
+export interface IPickupPointProvider {
+  readonly carrierCode: string;
+
+  // Points nearest the postal code first
+  findNearby(postalCode: string, type?: PickupPointType, limit?: number): Promise<ApiResponse<PickupPoint[]>>;
+  findById(pickupPointId: string): Promise<ApiResponse<PickupPoint>>;
+}
@@ -1,54 +1,50 @@
 /**
  * Label Generation Service
  *
- * Generates shipping labels with barcodes and QR codes as PDF files
+ * Generates shipping labels with barcodes and QR codes. The layout is built
+ * once and rendered both as a 4x6 PDF and as ZPL II for thermal printers.
  */
 
 import { injectable } from 'tsyringe';
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import bwipjs from 'bwip-js';
-import QRCode from 'qrcode';
 import fs from 'fs/promises';
+import { PDFDocument } from 'pdf-lib';
 import path from 'path';
-import { Order, ShippingLabel, Address, ApiResponse } from '@/types';
+import { Order, OrderShipment, ShippingLabel, ApiResponse, LabelFormat } from '@/types';
+import { config } from '@/config';
 import { getCarrierByCode, SENDER_ADDRESS } from '@/config/carriers';
-
-interface LabelData {
-  trackingNumber: string;
-  carrierCode: string;
-  carrierName: string;
-  carrierLogo?: string;
-  colorScheme: string;
-  senderAddress: Address;
-  recipientAddress: Address;
-  packageWeight: number;
-  serviceName: string;
-  orderNumber: string;
-}
+import { CarrierBooking } from './ICarrierAdapter';
+import { ILabelRenderer } from './ILabelRenderer';
+import { buildLabelLayout, LabelData } from './labels/LabelLayout';
+import { PdfLabelRenderer } from './labels/PdfLabelRenderer';
+import { ZplLabelRenderer } from './labels/ZplLabelRenderer';
+import { generateCode128Png, generateQrCodePng } from './labels/barcodeImages';
 
 @injectable()
 export class LabelGenerationService {
   private readonly labelsDirectory = path.join(process.cwd(), 'public', 'shipping-labels');
+  private readonly renderers: ILabelRenderer[] = [new PdfLabelRenderer(), new ZplLabelRenderer()];
 
   /**
-   * Generate a shipping label for an order
+   * Generate the shipping label for a parcel booked with its carrier, for an
+   * order or for one shipment of it, in every format. Parcels with flammable
+   * oils get the limited-quantity mark.
    */
   async generateLabel(
     order: Order,
-    trackingNumber: string
+    booking: CarrierBooking,
+    shipment?: OrderShipment,
+    limitedQuantity = false
   ): Promise<ApiResponse<ShippingLabel>> {
     try {
-      // Get carrier information from order.carrier, fallback to default
-      const carrierCode = order.carrier || 'POSTNORD';
-      const carrier = getCarrierByCode(carrierCode);
+      const { trackingNumber } = booking;
+      const carrier = getCarrierByCode(booking.carrierCode);
       if (!carrier) {
         return {
           success: false,
-          error: `Unknown carrier: ${carrierCode}`,
+          error: `Unknown carrier: ${booking.carrierCode}`,
         };
       }
 
-      // Prepare label data
       const labelData: LabelData = {
         trackingNumber,
         carrierCode: carrier.code,
@@ -56,32 +52,33 @@ export class LabelGenerationService {
         colorScheme: carrier.colorScheme,
         senderAddress: SENDER_ADDRESS,
         recipientAddress: order.shippingAddress,
-        packageWeight: await this.calculateOrderWeight(order),
-        serviceName: order.carrier || carrier.services[0].name,
-        orderNumber: order.id,
+        packageWeight: booking.weight,
+        serviceName: booking.serviceName,
+        orderNumber: order.orderNumber,
+        trackingUrl: `${config.app.url}/track-order?trackingNumber=${encodeURIComponent(trackingNumber)}`,
+        pickupPoint: order.pickupPoint,
+        limitedQuantity,
       };
 
-      // Generate barcode
-      const barcodeData = await this.generateBarcode(trackingNumber);
-
-      // Generate QR code
-      const qrCodeData = await this.generateQRCode(trackingNumber, carrier.code);
+      const layout = buildLabelLayout(labelData);
+      const baseName = shipment ? `${order.id}-${shipment.id}` : order.id;
 
-      // Generate PDF
-      const pdfBytes = await this.generatePDF(labelData, barcodeData, qrCodeData);
-
-      // Save PDF to file system
-      const labelFileName = `${order.id}.pdf`;
-      const labelUrl = await this.savePDF(labelFileName, pdfBytes);
+      const labelUrls = {} as Record<LabelFormat, string>;
+      for (const renderer of this.renderers) {
+        const bytes = await renderer.render(layout);
+        labelUrls[renderer.format] = await this.saveLabelFile(`${baseName}.${renderer.fileExtension}`, bytes);
+      }
 
       const shippingLabel: ShippingLabel = {
         id: '', // Will be set by repository
         orderId: order.id,
+        shipmentId: shipment?.id,
         trackingNumber,
         carrierCode: carrier.code,
-        labelPdfUrl: labelUrl,
-        barcodeData,
-        qrCodeData,
+        labelPdfUrl: labelUrls.pdf,
+        labelZplUrl: labelUrls.zpl,
+        barcodeData: await generateCode128Png(trackingNumber),
+        qrCodeData: await generateQrCodePng(labelData.trackingUrl),
         generatedAt: new Date(),
       };
 
@@ -98,223 +95,36 @@ export class LabelGenerationService {
   }
 
   /**
-   * Generate PDF label (4x6 inch thermal label)
-   */
-  private async generatePDF(
-    labelData: LabelData,
-    barcodeDataUrl: string,
-    qrCodeDataUrl: string
-  ): Promise<Uint8Array> {
-    const pdfDoc = await PDFDocument.create();
-    const page = pdfDoc.addPage([288, 432]); // 4x6 inches at 72 DPI
-
-    const helvetica = await pdfDoc.embedFont(StandardFonts.Helvetica);
-    const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-
-    // Header Section with Carrier Branding
-    const bgColor = this.hexToRgb(labelData.colorScheme);
-    page.drawRectangle({
-      x: 0,
-      y: 372,
-      width: 288,
-      height: 60,
-      color: rgb(bgColor.r, bgColor.g, bgColor.b),
-    });
-
-    page.drawText(labelData.carrierName, {
-      x: 20,
-      y: 395,
-      size: 20,
-      font: helveticaBold,
-      color: rgb(0, 0, 0),
-    });
-
-    page.drawText(labelData.serviceName, {
-      x: 20,
-      y: 378,
-      size: 10,
-      font: helvetica,
-      color: rgb(0, 0, 0),
-    });
-
-    // Tracking Number
-    page.drawText('TRACKING NUMBER', {
-      x: 20,
-      y: 355,
-      size: 8,
-      font: helvetica,
-      color: rgb(0.3, 0.3, 0.3),
-    });
-
-    page.drawText(labelData.trackingNumber, {
-      x: 20,
-      y: 335,
-      size: 18,
-      font: helveticaBold,
-      color: rgb(0, 0, 0),
-    });
-
-    // Barcode
-    try {
-      const barcodeImage = await pdfDoc.embedPng(barcodeDataUrl);
-      page.drawImage(barcodeImage, {
-        x: 20,
-        y: 265,
-        width: 248,
-        height: 60,
-      });
-    } catch (error) {
-      console.error('Failed to embed barcode:', error);
-    }
-
-    // Sender Address
-    page.drawText('FRÅN:', {
-      x: 20,
-      y: 245,
-      size: 10,
-      font: helveticaBold,
-      color: rgb(0, 0, 0),
-    });
-
-    const senderLines = this.formatAddress(labelData.senderAddress);
-    let senderY = 230;
-    for (const line of senderLines) {
-      page.drawText(line, {
-        x: 20,
-        y: senderY,
-        size: 9,
-        font: helvetica,
-        color: rgb(0, 0, 0),
-      });
-      senderY -= 12;
-    }
-
-    // Separator Line
-    page.drawLine({
-      start: { x: 20, y: senderY - 5 },
-      end: { x: 268, y: senderY - 5 },
-      thickness: 1,
-      color: rgb(0.8, 0.8, 0.8),
-    });
-
-    // Recipient Address (Larger, more prominent)
-    page.drawText('TILL:', {
-      x: 20,
-      y: senderY - 20,
-      size: 12,
-      font: helveticaBold,
-      color: rgb(0, 0, 0),
-    });
-
-    const recipientLines = this.formatAddress(labelData.recipientAddress);
-    let recipientY = senderY - 38;
-    for (const line of recipientLines) {
-      page.drawText(line, {
-        x: 20,
-        y: recipientY,
-        size: 11,
-        font: helveticaBold,
-        color: rgb(0, 0, 0),
-      });
-      recipientY -= 14;
-    }
-
-    // QR Code for Tracking
-    try {
-      const qrCodeImage = await pdfDoc.embedPng(qrCodeDataUrl);
-      page.drawImage(qrCodeImage, {
-        x: 200,
-        y: 20,
-        width: 68,
-        height: 68,
-      });
-    } catch (error) {
-      console.error('Failed to embed QR code:', error);
-    }
-
-    // Package Details
-    page.drawText(`Vikt: ${labelData.packageWeight.toFixed(2)} kg`, {
-      x: 20,
-      y: 80,
-      size: 9,
-      font: helvetica,
-      color: rgb(0, 0, 0),
-    });
-
-    page.drawText(`Order: ${labelData.orderNumber.slice(0, 8)}...`, {
-      x: 20,
-      y: 65,
-      size: 9,
-      font: helvetica,
-      color: rgb(0.5, 0.5, 0.5),
-    });
-
-    page.drawText('Scan för spårning →', {
-      x: 130,
-      y: 30,
-      size: 8,
-      font: helvetica,
-      color: rgb(0.5, 0.5, 0.5),
-    });
-
-    // Footer
-    page.drawText('Fortune Essence AB | www.fortuneessence.se', {
-      x: 20,
-      y: 10,
-      size: 7,
-      font: helvetica,
-      color: rgb(0.6, 0.6, 0.6),
-    });
-
-    return await pdfDoc.save();
-  }
-
-  /**
-   * Generate Code 128 barcode
+   * Combine saved PDF labels into one document, a page per label, so a
+   * fulfilment batch prints in one go
    */
-  private async generateBarcode(trackingNumber: string): Promise<string> {
+  async mergeLabelPdfs(labelUrls: string[]): Promise<ApiResponse<Uint8Array>> {
     try {
-      const png = await bwipjs.toBuffer({
-        bcid: 'code128',
-        text: trackingNumber,
-        scale: 3,
-        height: 10,
-        includetext: false,
-        textxalign: 'center',
-      });
+      const merged = await PDFDocument.create();
 
-      return `data:image/png;base64,${png.toString('base64')}`;
-    } catch (error) {
-      console.error('Barcode generation error:', error);
-      // Return a placeholder
-      return 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
-    }
-  }
+      for (const labelUrl of labelUrls) {
+        const bytes = await fs.readFile(path.join(this.labelsDirectory, path.basename(labelUrl)));
+        const source = await PDFDocument.load(bytes);
+        const pages = await merged.copyPages(source, source.getPageIndices());
+        pages.forEach(page => merged.addPage(page));
+      }
 
-  /**
-   * Generate QR code with tracking URL
-   */
-  private async generateQRCode(trackingNumber: string, carrierCode: string): Promise<string> {
-    try {
-      const trackingUrl = `https://www.fortuneessence.se/tracking?number=${trackingNumber}&carrier=${carrierCode}`;
-      return await QRCode.toDataURL(trackingUrl, {
-        width: 200,
-        margin: 1,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF',
-        },
-      });
+      return {
+        success: true,
+        data: await merged.save(),
+      };
     } catch (error) {
-      console.error('QR code generation error:', error);
-      return 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+      return {
+        success: false,
+        error: `Failed to merge labels: ${error}`,
+      };
     }
   }
 
   /**
-   * Save PDF to file system
+   * Save a label file to the file system
    */
-  private async savePDF(fileName: string, pdfBytes: Uint8Array): Promise<string> {
+  private async saveLabelFile(fileName: string, bytes: Uint8Array): Promise<string> {
     try {
       // Ensure directory exists with proper error handling
       try {
@@ -335,86 +145,28 @@ export class LabelGenerationService {
       const filePath = path.join(this.labelsDirectory, sanitizedFileName);
 
       try {
-        await fs.writeFile(filePath, pdfBytes);
+        await fs.writeFile(filePath, bytes);
       } catch (writeError: any) {
         if (writeError.code === 'ENOSPC') {
           throw new Error('Insufficient disk space to save shipping label');
         } else if (writeError.code === 'EACCES') {
           throw new Error('Permission denied: cannot write to labels directory');
         }
-        throw new Error(`Failed to write PDF file: ${writeError.message}`);
+        throw new Error(`Failed to write label file: ${writeError.message}`);
       }
 
       // Verify file was written successfully
       try {
         await fs.access(filePath);
       } catch {
-        throw new Error('PDF file was not saved successfully');
+        throw new Error('Label file was not saved successfully');
       }
 
       // Return public URL
       return `/shipping-labels/${sanitizedFileName}`;
     } catch (error: any) {
-      console.error('Error saving shipping label PDF:', error);
-      throw new Error(`Failed to save PDF: ${error.message || error}`);
-    }
-  }
-
-  /**
-   * Calculate total weight of order
-   * TODO: Fetch actual product weights from database
-   */
-  private async calculateOrderWeight(order: Order): Promise<number> {
-    // Calculate weight from order items if productId and weight are available
-    // Otherwise use estimated weight per item
-    let totalWeight = 0;
-
-    for (const item of order.items) {
-      // If item has weight information, use it
-      if (item.weight) {
-        totalWeight += item.weight * item.quantity;
-      } else {
-        // Fallback: estimate 0.5kg per item
-        totalWeight += 0.5 * item.quantity;
-      }
-    }
-
-    return totalWeight > 0 ? totalWeight : 0.5; // Minimum 0.5kg
-  }
-
-  /**
-   * Format address for label
-   */
-  private formatAddress(address: Address): string[] {
-    const lines: string[] = [];
-
-    if (address.firstName || address.lastName) {
-      lines.push(`${address.firstName || ''} ${address.lastName || ''}`.trim());
-    }
-
-    lines.push(address.street);
-    lines.push(`${address.postalCode} ${address.city}`);
-
-    if (address.country && address.country !== 'Sweden') {
-      lines.push(address.country.toUpperCase());
+      console.error('Error saving shipping label file:', error);
+      throw new Error(`Failed to save label: ${error.message || error}`);
     }
-
-    return lines;
-  }
-
-  /**
-   * Convert hex color to RGB
-   */
-  private hexToRgb(hex: string): { r: number; g: number; b: number } {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    if (!result) {
-      return { r: 1, g: 1, b: 0 }; // Default yellow
-    }
-
-    return {
-      r: parseInt(result[1], 16) / 255,
-      g: parseInt(result[2], 16) / 255,
-      b: parseInt(result[3], 16) / 255,
-    };
   }
 }
@@ -0,0 +1,76 @@
+/**
+ * Packing Engine
+ *
+ * Picks the box an order goes in and works out what carriers will weigh it
+ * at. Items are treated as rigid blocks: each must fit the box on its own,
+ * and together they may fill the box up to the fill factor.
+ */
+
+import { injectable } from 'tsyringe';
+import { PackedParcel, Parcel, Product, ProductDimensions, ShippingBox } from '@/types';
+import { BOX_CATALOGUE, BOX_FILL_FACTOR, VOLUMETRIC_DIVISOR } from '@/config/boxes';
+
+export interface PackingLine {
+  product: Pick<Product, 'weight' | 'dimensions'>;
+  quantity: number;
+}
+
+@injectable()
+export class PackingEngine {
+  /**
+   * Pack the lines in the smallest box from the catalogue that holds them
+   */
+  pack(lines: PackingLine[], catalogue: ShippingBox[] = BOX_CATALOGUE): PackedParcel {
+    if (lines.length === 0) {
+      return { weight: 0 };
+    }
+
+    const contentWeight = lines.reduce((sum, line) => sum + line.product.weight * line.quantity, 0);
+    const contentVolume = lines.reduce((sum, line) => sum + this.volume(line.product.dimensions) * line.quantity, 0);
+
+    const box = [...catalogue]
+      .sort((a, b) => this.volume(a.dimensions) - this.volume(b.dimensions))
+      .find(candidate =>
+        contentWeight + candidate.tareWeight <= candidate.maxWeight
+        && contentVolume <= this.volume(candidate.dimensions) * BOX_FILL_FACTOR
+        && lines.every(line => this.fitsInside(line.product.dimensions, candidate.dimensions))
+      );
+
+    return {
+      weight: Math.round((contentWeight + (box?.tareWeight ?? 0)) * 1000) / 1000,
+      dimensions: box?.dimensions,
+      box,
+    };
+  }
+
+  /**
+   * Weight carriers charge for the space a parcel takes up, in kg
+   */
+  volumetricWeight(dimensions: ProductDimensions): number {
+    return Math.round(this.volume(dimensions) / VOLUMETRIC_DIVISOR * 1000) / 1000;
+  }
+
+  /**
+   * The larger of the actual and the volumetric weight
+   */
+  chargeableWeight(parcel: Parcel): number {
+    return parcel.dimensions
+      ? Math.max(parcel.weight, this.volumetricWeight(parcel.dimensions))
+      : parcel.weight;
+  }
+
+  private volume(dimensions?: ProductDimensions): number {
+    return dimensions ? dimensions.length * dimensions.width * dimensions.height : 0;
+  }
+
+  // Any way round: the item's sides, longest first, against the box's
+  private fitsInside(item: ProductDimensions | undefined, box: ProductDimensions): boolean {
+    if (!item) {
+      return true;
+    }
+
+    const itemSides = [item.length, item.width, item.height].sort((a, b) => b - a);
+    const boxSides = [box.length, box.width, box.height].sort((a, b) => b - a);
+    return itemSides.every((side, index) => side <= boxSides[index]);
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Packing Slip PDF Service
+ *
+ * Renders packing slips as A4 PDFs to go in the parcel: what was ordered and
+ * where it is going, in the language the customer shopped in. Prices are left
+ * off so the slip can go in a gift.
+ */
+
+import { injectable } from 'tsyringe';
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { Address, Locale, Order, OrderItem, Product } from '@/types';
+import { config } from '@/config';
+import { getCarrierByCode } from '@/config/carriers';
+import { getBoxByCode } from '@/config/boxes';
+
+const PAGE_SIZE: [number, number] = [595, 842]; // A4 at 72 DPI
+const MARGIN = 50;
+const RIGHT = PAGE_SIZE[0] - MARGIN;
+const TOP = 790;
+const BOTTOM = 90;
+
+const TEXT = rgb(0.1, 0.1, 0.1);
+const MUTED = rgb(0.45, 0.45, 0.45);
+const RULE = rgb(0.8, 0.8, 0.8);
+
+// Left edges of the text columns, right edge of the quantity
+const COLUMNS = {
+  sku: MARGIN,
+  product: MARGIN + 90,
+  quantity: 440,
+  packed: RIGHT - 10,
+};
+
+const COPY: Record<Locale, {
+  title: string;
+  orderNumber: string;
+  orderDate: string;
+  delivery: string;
+  box: string;
+  shipTo: string;
+  pickupPoint: string;
+  sku: string;
+  product: string;
+  quantity: string;
+  packed: string;
+  itemCount: (count: number) => string;
+  thanks: string;
+  questions: (email: string) => string;
+  page: (page: number, pages: number) => string;
+}> = {
+  sv: {
+    title: 'Följesedel',
+    orderNumber: 'Ordernummer',
+    orderDate: 'Orderdatum',
+    delivery: 'Leveranssätt',
+    box: 'Kartong',
+    shipTo: 'Leveransadress',
+    pickupPoint: 'Utlämningsställe',
+    sku: 'Artikelnr',
+    product: 'Produkt',
+    quantity: 'Antal',
+    packed: 'Packad',
+    itemCount: count => `${count} ${count === 1 ? 'artikel' : 'artiklar'}`,
+    thanks: 'Tack för din beställning!',
+    questions: email => `Frågor om din order? Kontakta oss på ${email}.`,
+    page: (page, pages) => `Sida ${page} av ${pages}`,
+  },
+  en: {
+    title: 'Packing slip',
+    orderNumber: 'Order number',
+    orderDate: 'Order date',
+    delivery: 'Delivery',
+    box: 'Box',
+    shipTo: 'Ship to',
+    pickupPoint: 'Pickup point',
+    sku: 'SKU',
+    product: 'Product',
+    quantity: 'Qty',
+    packed: 'Packed',
+    itemCount: count => `${count} ${count === 1 ? 'item' : 'items'}`,
+    thanks: 'Thank you for your order!',
+    questions: email => `Questions about your order? Contact us at ${email}.`,
+    page: (page, pages) => `Page ${page} of ${pages}`,
+  },
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+@injectable()
+export class PackingSlipPdfService {
+  /**
+   * Generate one PDF with a packing slip per order, each starting on a new page
+   */
+  async generate(orders: Order[], products: Map<string, Product>): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle('Packing slips');
+    pdfDoc.setAuthor(config.company.legalName);
+
+    const fonts: Fonts = {
+      regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+      bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+    };
+
+    for (const order of orders) {
+      const locale = order.locale || 'sv';
+      const firstPage = pdfDoc.getPageCount();
+      this.drawSlip(pdfDoc, order, products, locale, fonts);
+
+      // Pages are numbered per slip, so each parcel gets a complete set
+      const pages = pdfDoc.getPages().slice(firstPage);
+      pages.forEach((page, index) => {
+        this.text(
+          page,
+          `${config.company.legalName} | ${config.app.url.replace(/^https?:\/\//, '')} | ${order.orderNumber}`,
+          MARGIN,
+          40,
+          fonts.regular,
+          8,
+          MUTED
+        );
+        this.textRight(page, COPY[locale].page(index + 1, pages.length), RIGHT, 40, fonts.regular, 8, MUTED);
+      });
+    }
+
+    return await pdfDoc.save();
+  }
+
+  private drawSlip(
+    pdfDoc: PDFDocument,
+    order: Order,
+    products: Map<string, Product>,
+    locale: Locale,
+    fonts: Fonts
+  ): void {
+    const copy = COPY[locale];
+    let page = pdfDoc.addPage(PAGE_SIZE);
+
+    // Header
+    this.text(page, copy.title, MARGIN, TOP, fonts.bold, 22);
+    this.textRight(page, config.company.legalName, RIGHT, TOP + 4, fonts.bold, 12);
+
+    // Order details
+    let y = TOP - 50;
+    const carrier = order.carrier ? getCarrierByCode(order.carrier) : undefined;
+    const details: Array<[string, string]> = [
+      [copy.orderNumber, order.orderNumber],
+      [copy.orderDate, this.formatDate(order.createdAt, locale)],
+      [copy.delivery, carrier?.name || ''],
+      [copy.box, order.packagingBox ? this.formatBox(order.packagingBox) : ''],
+    ].filter((detail): detail is [string, string] => Boolean(detail[1]));
+    for (const [label, value] of details) {
+      this.text(page, label, MARGIN, y, fonts.bold, 9);
+      this.text(page, value, MARGIN + 110, y, fonts.regular, 9);
+      y -= 14;
+    }
+
+    // Recipient, and the pickup point when the parcel is collected
+    let addressY = TOP - 50;
+    this.text(page, copy.shipTo, 340, addressY, fonts.bold, 9);
+    for (const line of this.formatAddress(order.shippingAddress)) {
+      addressY -= 13;
+      this.text(page, line, 340, addressY, fonts.regular, 9);
+    }
+
+    if (order.pickupPoint) {
+      addressY -= 22;
+      this.text(page, copy.pickupPoint, 340, addressY, fonts.bold, 9);
+      const point = order.pickupPoint;
+      for (const line of [point.name, point.street, `${point.postalCode} ${point.city}`]) {
+        addressY -= 13;
+        this.text(page, line, 340, addressY, fonts.regular, 9);
+      }
+    }
+
+    // Items
+    y = Math.min(y, addressY) - 35;
+    y = this.drawTableHeader(page, y, copy, fonts);
+
+    for (const item of order.items) {
+      if (y < BOTTOM) {
+        page = pdfDoc.addPage(PAGE_SIZE);
+        y = this.drawTableHeader(page, TOP, copy, fonts);
+      }
+
+      this.drawItem(page, item, products.get(item.productId), locale, y, fonts);
+      y -= 18;
+    }
+
+    page.drawLine({ start: { x: MARGIN, y: y + 8 }, end: { x: RIGHT, y: y + 8 }, thickness: 0.5, color: RULE });
+
+    if (y - 50 < BOTTOM) {
+      page = pdfDoc.addPage(PAGE_SIZE);
+      y = TOP;
+    }
+
+    const itemCount = order.items.reduce((sum, item) => sum + item.quantity, 0);
+    y -= 18;
+    this.textRight(page, copy.itemCount(itemCount), COLUMNS.quantity, y, fonts.bold, 10);
+
+    y -= 35;
+    this.text(page, copy.thanks, MARGIN, y, fonts.bold, 10);
+    y -= 14;
+    this.text(page, copy.questions(config.email.supportEmail), MARGIN, y, fonts.regular, 9, MUTED);
+  }
+
+  private drawTableHeader(page: PDFPage, y: number, copy: typeof COPY[Locale], fonts: Fonts): number {
+    this.text(page, copy.sku, COLUMNS.sku, y, fonts.bold, 8, MUTED);
+    this.text(page, copy.product, COLUMNS.product, y, fonts.bold, 8, MUTED);
+    this.textRight(page, copy.quantity, COLUMNS.quantity, y, fonts.bold, 8, MUTED);
+    this.textRight(page, copy.packed, RIGHT, y, fonts.bold, 8, MUTED);
+    page.drawLine({ start: { x: MARGIN, y: y - 6 }, end: { x: RIGHT, y: y - 6 }, thickness: 0.5, color: RULE });
+
+    return y - 22;
+  }
+
+  private drawItem(
+    page: PDFPage,
+    item: OrderItem,
+    product: Product | undefined,
+    locale: Locale,
+    y: number,
+    fonts: Fonts
+  ): void {
+    const sku = this.truncate(product?.sku || '', fonts.regular, 9, COLUMNS.product - COLUMNS.sku - 8);
+    const name = this.truncate(
+      product?.translations?.[locale]?.name || item.productName,
+      fonts.regular,
+      9,
+      COLUMNS.quantity - COLUMNS.product - 40
+    );
+    this.text(page, sku, COLUMNS.sku, y, fonts.regular, 9);
+    this.text(page, name, COLUMNS.product, y, fonts.regular, 9);
+    this.textRight(page, String(item.quantity), COLUMNS.quantity, y, fonts.regular, 9);
+
+    // A box for the packer to tick
+    page.drawRectangle({
+      x: COLUMNS.packed,
+      y: y - 2,
+      width: 9,
+      height: 9,
+      borderColor: MUTED,
+      borderWidth: 0.75,
+    });
+  }
+
+  private text(
+    page: PDFPage,
+    text: string,
+    x: number,
+    y: number,
+    font: PDFFont,
+    size: number,
+    color = TEXT
+  ): void {
+    page.drawText(this.sanitize(text), { x, y, size, font, color });
+  }
+
+  private textRight(
+    page: PDFPage,
+    text: string,
+    right: number,
+    y: number,
+    font: PDFFont,
+    size: number,
+    color = TEXT
+  ): void {
+    const safeText = this.sanitize(text);
+    this.text(page, safeText, right - font.widthOfTextAtSize(safeText, size), y, font, size, color);
+  }
+
+  private truncate(text: string, font: PDFFont, size: number, maxWidth: number): string {
+    let result = this.sanitize(text);
+    if (font.widthOfTextAtSize(result, size) <= maxWidth) {
+      return result;
+    }
+
+    while (result.length > 0 && font.widthOfTextAtSize(`${result}...`, size) > maxWidth) {
+      result = result.slice(0, -1);
+    }
+    return `${result}...`;
+  }
+
+  // The standard PDF fonts only cover Latin-1 (WinAnsi)
+  private sanitize(text: string): string {
+    return text
+      .replace(/\s+/g, ' ')
+      .replace(/[^\x20-\x7E\xA0-\xFF–—€‘’“”…]/g, '?');
+  }
+
+  private formatDate(date: Date, locale: Locale): string {
+    return date.toLocaleDateString(locale === 'sv' ? 'sv-SE' : 'en-GB', { timeZone: 'Europe/Stockholm' });
+  }
+
+  // The box the packer takes, with its measures in case the catalogue code is not on it
+  private formatBox(code: string): string {
+    const box = getBoxByCode(code);
+    if (!box) {
+      return code;
+    }
+
+    const { length, width, height } = box.dimensions;
+    return `${box.code} (${length} × ${width} × ${height} cm)`;
+  }
+
+  private formatAddress(address: Address): string[] {
+    return [
+      `${address.firstName || ''} ${address.lastName || ''}`.trim(),
+      address.street,
+      `${address.postalCode} ${address.city}`.trim(),
+      address.country,
+    ].filter(Boolean);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Pickup Point Service
+ *
+ * Finds the service points (ombud) and parcel lockers a customer can collect
+ * a parcel from, through one provider per carrier.
+ */
+
+import { injectable } from 'tsyringe';
+import type { IPickupPointService } from '@/interfaces';
+import type { ApiResponse, PickupPoint } from '@/types';
+import { getAllCarriers } from '@/config/carriers';
+import { IPickupPointProvider, PickupPointType } from './IPickupPointProvider';
+import { LocalPickupPointProvider } from './providers/LocalPickupPointProvider';
+
+@injectable()
+export class PickupPointService implements IPickupPointService {
+  private readonly providers = new Map<string, IPickupPointProvider>();
+
+  constructor() {
+    this.registerProviders();
+  }
+
+  private registerProviders(): void {
+    // Every carrier with a service point or locker service gets a provider
+    for (const carrier of getAllCarriers()) {
+      if (carrier.services.some(service => service.deliveryType !== 'home')) {
+        this.registerProvider(new LocalPickupPointProvider(carrier.code));
+      }
+    }
+  }
+
+  private registerProvider(provider: IPickupPointProvider): void {
+    this.providers.set(provider.carrierCode, provider);
+  }
+
+  async findPickupPoints(
+    carrierCode: string,
+    postalCode: string,
+    type?: PickupPointType
+  ): Promise<ApiResponse<PickupPoint[]>> {
+    const provider = this.providers.get(carrierCode);
+    if (!provider) {
+      return {
+        success: false,
+        error: `Carrier ${carrierCode} has no pickup points`,
+      };
+    }
+
+    try {
+      return await provider.findNearby(postalCode, type);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to find pickup points: ${error}`,
+      };
+    }
+  }
+
+  async getPickupPoint(carrierCode: string, pickupPointId: string): Promise<ApiResponse<PickupPoint>> {
+    const provider = this.providers.get(carrierCode);
+    if (!provider) {
+      return {
+        success: false,
+        error: `Carrier ${carrierCode} has no pickup points`,
+      };
+    }
+
+    try {
+      return await provider.findById(pickupPointId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get pickup point: ${error}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,363 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  IShipmentService,
+  IShipmentRepository,
+  IOrderService,
+  IShippingService,
+  IKlarnaOrderManagementService,
+  CreateShipmentData,
+  OrderStatusChangeSource
+} from '@/interfaces';
+import type { ApiResponse, Order, OrderShipment, OrderStatus, ShipmentStatus } from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { findTransitionPath } from '@/services/orders/OrderStateMachine';
+import {
+  canTransitionShipment,
+  deriveOrderStatus,
+  getUnallocatedItems,
+  hasLeftWarehouse
+} from './ShipmentStateMachine';
+
+// Orders can get another shipment until everything has gone out
+const SHIPPABLE_ORDER_STATUSES: OrderStatus[] = ['paid', 'picking', 'packed', 'shipped', 'in_transit'];
+
+@injectable()
+export class ShipmentService implements IShipmentService {
+  constructor(
+    @inject(TOKENS.IShipmentRepository) private readonly shipmentRepository: IShipmentRepository,
+    @inject(TOKENS.IOrderService) private readonly orderService: IOrderService,
+    @inject(TOKENS.IShippingService) private readonly shippingService: IShippingService,
+    @inject(TOKENS.IKlarnaOrderManagementService) private readonly klarnaOrderManagement: IKlarnaOrderManagementService
+  ) {}
+
+  async createShipment(
+    orderId: string,
+    data: CreateShipmentData,
+    change: OrderStatusChangeSource
+  ): Promise<ApiResponse<OrderShipment>> {
+    try {
+      if (data.items.length === 0) {
+        return {
+          success: false,
+          error: 'A shipment needs at least one item',
+        };
+      }
+
+      if (data.items.some(item => !Number.isInteger(item.quantity) || item.quantity < 1)) {
+        return {
+          success: false,
+          error: 'Item quantities must be whole numbers of at least 1',
+        };
+      }
+
+      const orderResult = await this.orderService.getOrder(orderId);
+      if (!orderResult.success) {
+        return {
+          success: false,
+          error: orderResult.error,
+        };
+      }
+
+      const order = orderResult.data!;
+
+      if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+        return {
+          success: false,
+          error: `Cannot create a shipment for an order that is ${order.status}`,
+        };
+      }
+
+      const shipmentsResult = await this.shipmentRepository.findByOrderId(order.id);
+      if (!shipmentsResult.success) {
+        return {
+          success: false,
+          error: shipmentsResult.error,
+        };
+      }
+
+      // Checked again by the database, which serialises concurrent shipments
+      const unallocated = getUnallocatedItems(order.items, shipmentsResult.data!);
+      for (const item of data.items) {
+        const requested = data.items
+          .filter(other => other.productId === item.productId)
+          .reduce((sum, other) => sum + other.quantity, 0);
+        const left = unallocated.find(candidate => candidate.productId === item.productId);
+
+        if (!left || requested > left.quantity) {
+          const name = order.items.find(orderItem => orderItem.productId === item.productId)?.productName;
+          return {
+            success: false,
+            error: name
+              ? `Only ${left?.quantity || 0} of ${name} left to send`
+              : `Product ${item.productId} is not in the order`,
+          };
+        }
+      }
+
+      const created = await this.shipmentRepository.create(order.id, data.items, data.carrier || order.carrier);
+      if (!created.success) {
+        return created;
+      }
+
+      await this.syncOrderStatus(order, [...shipmentsResult.data!, created.data!], {
+        actor: change.actor,
+        reason: change.reason || 'Shipment created',
+      });
+
+      return created;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create shipment: ${error}`,
+      };
+    }
+  }
+
+  async generateLabel(shipmentId: string): Promise<ApiResponse<OrderShipment>> {
+    try {
+      const shipmentResult = await this.shipmentRepository.findById(shipmentId);
+      if (!shipmentResult.success) {
+        return shipmentResult;
+      }
+
+      const shipment = shipmentResult.data!;
+
+      if (shipment.trackingNumber) {
+        return {
+          success: false,
+          error: 'Shipment already has a label',
+        };
+      }
+
+      if (shipment.status !== 'pending' && shipment.status !== 'packed') {
+        return {
+          success: false,
+          error: `Cannot print a label for a shipment that is ${shipment.status}`,
+        };
+      }
+
+      const orderResult = await this.orderService.getOrderById(shipment.orderId);
+      if (!orderResult.success) {
+        return {
+          success: false,
+          error: orderResult.error,
+        };
+      }
+
+      const labelResult = await this.shippingService.generateShippingLabel(orderResult.data!, shipment);
+      if (!labelResult.success) {
+        return {
+          success: false,
+          error: labelResult.error,
+        };
+      }
+
+      const label = labelResult.data!;
+      return await this.shipmentRepository.update(shipment.id, {
+        carrier: label.carrierCode,
+        trackingNumber: label.trackingNumber,
+        labelUrl: label.labelPdfUrl,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to generate shipment label: ${error}`,
+      };
+    }
+  }
+
+  async updateShipmentStatus(
+    shipmentId: string,
+    status: ShipmentStatus,
+    change: OrderStatusChangeSource
+  ): Promise<ApiResponse<OrderShipment>> {
+    try {
+      const shipmentResult = await this.shipmentRepository.findById(shipmentId);
+      if (!shipmentResult.success) {
+        return shipmentResult;
+      }
+
+      const shipment = shipmentResult.data!;
+
+      if (shipment.status === status) {
+        return {
+          success: false,
+          error: `Shipment is already ${status}`,
+        };
+      }
+
+      if (!canTransitionShipment(shipment.status, status)) {
+        return {
+          success: false,
+          error: `Shipment cannot change from ${shipment.status} to ${status}`,
+        };
+      }
+
+      if (status === 'shipped' && !shipment.trackingNumber) {
+        return {
+          success: false,
+          error: 'Print a label before the shipment is shipped',
+        };
+      }
+
+      // The carrier would otherwise still expect the parcel, and charge for it
+      if (status === 'cancelled' && shipment.trackingNumber && shipment.carrier) {
+        const cancelled = await this.shippingService.cancelShippingLabel(shipment.carrier, shipment.trackingNumber);
+        if (!cancelled.success) {
+          return {
+            success: false,
+            error: `Carrier booking could not be cancelled: ${cancelled.error}`,
+          };
+        }
+      }
+
+      const updated = await this.shipmentRepository.update(shipment.id, {
+        status,
+        shippedAt: status === 'shipped' ? new Date() : undefined,
+        deliveredAt: status === 'delivered' ? new Date() : undefined,
+      });
+      if (!updated.success) {
+        return updated;
+      }
+
+      const [orderResult, shipmentsResult] = await Promise.all([
+        this.orderService.getOrderById(shipment.orderId),
+        this.shipmentRepository.findByOrderId(shipment.orderId),
+      ]);
+
+      if (orderResult.success && shipmentsResult.success) {
+        const order = orderResult.data!;
+        const shipments = shipmentsResult.data!;
+
+        if (status === 'shipped') {
+          await this.captureKlarnaShipment(order, updated.data!, shipments);
+        }
+
+        await this.syncOrderStatus(order, shipments, {
+          actor: change.actor,
+          reason: change.reason || `Shipment ${status.replace('_', ' ')}`,
+        });
+      }
+
+      return updated;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update shipment status: ${error}`,
+      };
+    }
+  }
+
+  async getShipment(shipmentId: string): Promise<ApiResponse<OrderShipment>> {
+    try {
+      return await this.shipmentRepository.findById(shipmentId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get shipment: ${error}`,
+      };
+    }
+  }
+
+  async getOrderShipments(orderId: string): Promise<ApiResponse<OrderShipment[]>> {
+    try {
+      return await this.shipmentRepository.findByOrderId(orderId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get shipments: ${error}`,
+      };
+    }
+  }
+
+  async getShipmentByTrackingNumber(trackingNumber: string): Promise<ApiResponse<OrderShipment>> {
+    try {
+      return await this.shipmentRepository.findByTrackingNumber(trackingNumber);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get shipment: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Moves the order to the status its shipments add up to, one allowed step at
+   * a time so each step runs its usual side effects. An order an admin has
+   * already moved past that status is left where it is.
+   */
+  private async syncOrderStatus(
+    order: Order,
+    shipments: OrderShipment[],
+    change: OrderStatusChangeSource
+  ): Promise<void> {
+    const target = deriveOrderStatus(order.items, shipments);
+    if (!target || target === order.status) {
+      return;
+    }
+
+    const path = findTransitionPath(order.status, target);
+    if (!path) {
+      return;
+    }
+
+    for (const status of path) {
+      const result = await this.orderService.updateOrderStatus(order.id, status, change);
+      if (!result.success) {
+        console.error(`Failed to move order ${order.orderNumber} to ${status}:`, result.error);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Klarna may only charge for what has been sent, so each shipment captures
+   * its share of the order. The last one captures whatever is left, which
+   * takes care of shipping and rounding.
+   */
+  private async captureKlarnaShipment(
+    order: Order,
+    shipment: OrderShipment,
+    shipments: OrderShipment[]
+  ): Promise<void> {
+    if (order.paymentMethod !== 'klarna') {
+      return;
+    }
+    if (order.paymentStatus !== 'authorized' && order.paymentStatus !== 'partially_captured') {
+      return;
+    }
+
+    const isLast = getUnallocatedItems(order.items, shipments).length === 0
+      && shipments.filter(other => other.status !== 'cancelled').every(hasLeftWarehouse);
+
+    const capture = await this.klarnaOrderManagement.captureOrder(order, {
+      amount: isLast ? undefined : this.getShipmentValue(order, shipment),
+      reference: shipment.id,
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+    });
+
+    if (!capture.success) {
+      console.error(`Failed to capture Klarna payment for shipment ${shipment.id}:`, capture.error);
+    }
+  }
+
+  /**
+   * The shipment's items at what the customer paid for them, i.e. after any
+   * order discount, excluding shipping
+   */
+  private getShipmentValue(order: Order, shipment: OrderShipment): number {
+    const itemsValue = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const shipmentValue = shipment.items.reduce((sum, item) => {
+      const price = order.items.find(orderItem => orderItem.productId === item.productId)?.price || 0;
+      return sum + price * item.quantity;
+    }, 0);
+
+    if (itemsValue <= 0) {
+      return 0;
+    }
+
+    const goodsTotal = order.total - order.shipping;
+    return Math.round(goodsTotal * shipmentValue / itemsValue * 100) / 100;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Shipment State Machine
+ *
+ * The statuses a shipment moves through, and how the status of an order
+ * follows from the shipments it is sent in. An order counts as shipped as
+ * soon as its first parcel leaves, and as delivered once every item has been.
+ */
+
+import type { OrderItem, OrderShipment, OrderStatus, ShipmentItem, ShipmentStatus } from '@/types';
+
+export const SHIPMENT_STATUSES: ShipmentStatus[] = [
+  'pending',
+  'packed',
+  'shipped',
+  'in_transit',
+  'delivered',
+  'returned',
+  'cancelled',
+];
+
+// Only shipments still in the warehouse can be cancelled; their items go back
+// to the order to be sent in another shipment
+const TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  pending: ['packed', 'shipped', 'cancelled'],
+  packed: ['shipped', 'cancelled'],
+  shipped: ['in_transit', 'delivered', 'returned'],
+  in_transit: ['delivered', 'returned'],
+  delivered: ['returned'],
+  returned: [],
+  cancelled: [],
+};
+
+const LEFT_WAREHOUSE: ShipmentStatus[] = ['shipped', 'in_transit', 'delivered', 'returned'];
+
+export function isShipmentStatus(value: string): value is ShipmentStatus {
+  return (SHIPMENT_STATUSES as string[]).includes(value);
+}
+
+export function getAllowedShipmentTransitions(from: ShipmentStatus): ShipmentStatus[] {
+  return [...TRANSITIONS[from]];
+}
+
+export function canTransitionShipment(from: ShipmentStatus, to: ShipmentStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function hasLeftWarehouse(shipment: OrderShipment): boolean {
+  return LEFT_WAREHOUSE.includes(shipment.status);
+}
+
+/**
+ * Order items, or parts of them, not yet allocated to a shipment
+ */
+export function getUnallocatedItems(items: OrderItem[], shipments: OrderShipment[]): ShipmentItem[] {
+  const allocated = new Map<string, number>();
+  for (const shipment of shipments) {
+    if (shipment.status === 'cancelled') continue;
+    for (const item of shipment.items) {
+      allocated.set(item.productId, (allocated.get(item.productId) || 0) + item.quantity);
+    }
+  }
+
+  const unallocated: ShipmentItem[] = [];
+  for (const item of items) {
+    const taken = Math.min(allocated.get(item.productId) || 0, item.quantity);
+    allocated.set(item.productId, (allocated.get(item.productId) || 0) - taken);
+    if (item.quantity > taken) {
+      unallocated.push({ productId: item.productId, productName: item.productName, quantity: item.quantity - taken });
+    }
+  }
+
+  return unallocated;
+}
+
+/**
+ * The status an order should have given its shipments, or null while it has
+ * none. Items not yet in a shipment hold the order back the same way a parcel
+ * still in the warehouse does.
+ */
+export function deriveOrderStatus(items: OrderItem[], shipments: OrderShipment[]): OrderStatus | null {
+  const active = shipments.filter(shipment => shipment.status !== 'cancelled');
+  if (active.length === 0) {
+    return null;
+  }
+
+  const complete = getUnallocatedItems(items, shipments).length === 0;
+  const all = (...statuses: ShipmentStatus[]) => complete && active.every(shipment => statuses.includes(shipment.status));
+
+  if (all('returned')) return 'returned';
+  if (all('delivered', 'returned')) return 'delivered';
+  if (all('in_transit', 'delivered', 'returned')) return 'in_transit';
+  if (active.some(hasLeftWarehouse)) return 'shipped';
+  if (all('packed')) return 'packed';
+  return 'picking';
+}
+
+/**
+ * The statuses a shipment passes through to get from one status to another,
+ * excluding the first, or null if it can't get there. Used when a carrier
+ * reports a parcel further along than the shipment, e.g. in transit before
+ * it was marked as shipped.
+ */
+export function findShipmentTransitionPath(from: ShipmentStatus, to: ShipmentStatus): ShipmentStatus[] | null {
+  const previous = new Map<ShipmentStatus, ShipmentStatus>();
+  const queue: ShipmentStatus[] = [from];
+
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    if (status === to) {
+      const path: ShipmentStatus[] = [];
+      for (let step = to; step !== from; step = previous.get(step)!) {
+        path.unshift(step);
+      }
+      return path;
+    }
+
+    for (const next of TRANSITIONS[status]) {
+      if (next !== from && !previous.has(next)) {
+        previous.set(next, status);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
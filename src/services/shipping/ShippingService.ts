@@ -1,11 +1,45 @@
 import { injectable, inject } from 'tsyringe';
-import type { IShippingService, IShippingRepository, IProductRepository, Shipment, TrackingInfo } from '@/interfaces';
-import type { ShippingRate, CartItem, ApiResponse, CarrierInfo, ShippingLabel, ShippingLabelGenerationRequest, Order } from '@/types';
+import type {
+  IShippingService,
+  IShippingRepository,
+  IProductRepository,
+  IPickupPointService,
+  ITrackingEventRepository,
+  Shipment,
+  TrackingInfo
+} from '@/interfaces';
+import type {
+  ShippingRate,
+  CartItem,
+  ApiResponse,
+  CarrierInfo,
+  ShippingLabel,
+  ShippingLabelGenerationRequest,
+  Order,
+  OrderShipment,
+  PickupPoint,
+  DangerousGoodsCheck,
+  PackedParcel,
+  Parcel,
+  Product
+} from '@/types';
 import { PriceCalculator } from '@/utils/helpers';
 import { TOKENS } from '@/config/di-container';
 import { CarrierRulesEngine, FilterCriteria } from './CarrierRulesEngine';
 import { LabelGenerationService } from './LabelGenerationService';
-import { getAllCarriers, getTrackingPrefix, FREE_SHIPPING_THRESHOLD } from '@/config/carriers';
+import { SwedishHolidayCalendar, toStockholmTime } from './SwedishHolidayCalendar';
+import { BusinessDayCalculator } from './BusinessDayCalculator';
+import { CarrierAdapterRegistry } from './CarrierAdapterRegistry';
+import { PackingEngine } from './PackingEngine';
+import { carriesLimitedQuantity, checkDangerousGoods } from './DangerousGoodsRules';
+import {
+  getAllCarriers,
+  getCarrierByCode,
+  DEFAULT_CUTOFF_TIME,
+  FREE_SHIPPING_THRESHOLD
+} from '@/config/carriers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Shipping Service
@@ -20,7 +54,13 @@ export class ShippingService implements IShippingService {
     @inject(TOKENS.IShippingRepository) private readonly shippingRepository: IShippingRepository,
     @inject(TOKENS.IProductRepository) private readonly productRepository: IProductRepository,
     @inject(TOKENS.CarrierRulesEngine) private readonly carrierRulesEngine: CarrierRulesEngine,
-    @inject(TOKENS.LabelGenerationService) private readonly labelGenerationService: LabelGenerationService
+    @inject(TOKENS.LabelGenerationService) private readonly labelGenerationService: LabelGenerationService,
+    @inject(TOKENS.SwedishHolidayCalendar) private readonly holidayCalendar: SwedishHolidayCalendar,
+    @inject(TOKENS.BusinessDayCalculator) private readonly businessDayCalculator: BusinessDayCalculator,
+    @inject(TOKENS.IPickupPointService) private readonly pickupPointService: IPickupPointService,
+    @inject(TOKENS.ITrackingEventRepository) private readonly trackingEventRepository: ITrackingEventRepository,
+    @inject(TOKENS.CarrierAdapterRegistry) private readonly carrierAdapterRegistry: CarrierAdapterRegistry,
+    @inject(TOKENS.PackingEngine) private readonly packingEngine: PackingEngine
   ) {}
 
   async getShippingRates(country: string, weight: number): Promise<ApiResponse<ShippingRate[]>> {
@@ -48,10 +88,10 @@ export class ShippingService implements IShippingService {
 
   async calculateShipping(items: CartItem[], country: string): Promise<ApiResponse<ShippingRate>> {
     try {
-      // Calculate total weight
-      const totalWeight = await this.calculateTotalWeight(items);
+      // Rates are charged on the chargeable weight of the packed parcel
+      const chargeableWeight = await this.calculateChargeableWeight(items);
       
-      if (totalWeight === 0) {
+      if (chargeableWeight === 0) {
         return {
           success: false,
           error: 'Unable to calculate shipping weight',
@@ -59,7 +99,7 @@ export class ShippingService implements IShippingService {
       }
 
       // Get the most economical shipping option for this weight
-      const result = await this.shippingRepository.calculateShipping(totalWeight, country);
+      const result = await this.shippingRepository.calculateShipping(chargeableWeight, country);
       
       if (!result.success) {
         return result;
@@ -103,25 +143,39 @@ export class ShippingService implements IShippingService {
       }
 
       const rate = rateResult.data!;
+      const adapter = rate.carrierCode ? this.carrierAdapterRegistry.getAdapter(rate.carrierCode) : null;
+      if (!adapter) {
+        return {
+          success: false,
+          error: `No carrier adapter for shipping rate ${rate.name}`,
+        };
+      }
 
-      // Generate tracking number
-      const trackingNumber = this.generateTrackingNumber(rate.name);
-
-      // Calculate estimated delivery date
-      const estimatedDelivery = new Date();
-      estimatedDelivery.setDate(estimatedDelivery.getDate() + rate.estimatedDays);
+      // Only the rate is known here, so the parcel is booked without its weight
+      // or address; order shipments are booked with their label instead
+      const bookingResult = await adapter.bookShipment({
+        reference: orderId,
+        serviceType: rate.serviceType,
+        deliveryType: rate.deliveryType,
+        weight: 0,
+        recipient: { street: '', city: '', postalCode: '', country: rate.country },
+      });
+      if (!bookingResult.success) {
+        return {
+          success: false,
+          error: bookingResult.error,
+        };
+      }
 
       const shipment: Shipment = {
         id: `shipment_${Date.now()}_${Math.random().toString(36).substring(7)}`,
         orderId,
-        trackingNumber,
-        carrier: this.getCarrierFromRate(rate.name),
+        trackingNumber: bookingResult.data!.trackingNumber,
+        carrier: adapter.carrierCode,
         status: 'pending',
-        estimatedDelivery,
+        estimatedDelivery: this.estimateRateDelivery(rate),
       };
 
-      // In a real implementation, this would integrate with shipping carriers
-      // For now, we'll return the mock shipment
       return {
         success: true,
         data: shipment,
@@ -136,366 +190,116 @@ export class ShippingService implements IShippingService {
 
   async trackShipment(trackingNumber: string): Promise<ApiResponse<TrackingInfo>> {
     try {
-      // Determine carrier from tracking number format
-      const carrier = this.getCarrierFromTrackingNumber(trackingNumber);
-
-      // Try to get real tracking data from carrier APIs
-      let trackingInfo: TrackingInfo | null = null;
-
-      if (carrier === 'PostNord') {
-        const postNordResult = await this.trackWithPostNord(trackingNumber);
-        if (postNordResult.success && postNordResult.data) {
-          trackingInfo = postNordResult.data;
-        }
-      } else if (carrier === 'DHL') {
-        const dhlResult = await this.trackWithDHL(trackingNumber);
-        if (dhlResult.success && dhlResult.data) {
-          trackingInfo = dhlResult.data;
-        }
-      }
-
-      // If real tracking failed or carrier not supported, fall back to mock data
-      if (!trackingInfo) {
-        trackingInfo = this.generateMockTrackingInfo(trackingNumber, carrier);
-      }
-
-      return {
-        success: true,
-        data: trackingInfo,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `Failed to track shipment: ${error}`,
-      };
-    }
-  }
-
-  private async calculateTotalWeight(items: CartItem[]): Promise<number> {
-    try {
-      let totalWeight = 0;
-
-      for (const item of items) {
-        const productResult = await this.productRepository.findById(item.productId);
-        
-        if (productResult.success && productResult.data) {
-          totalWeight += productResult.data.weight * item.quantity;
-        }
-      }
-
-      return totalWeight;
-    } catch (error) {
-      console.error('Failed to calculate total weight:', error);
-      return 0;
-    }
-  }
-
-  private async getFreeShippingThreshold(country: string): Promise<ApiResponse<number | null>> {
-    try {
-      const result = await this.shippingRepository.getFreeShippingThreshold(country);
-      return result;
-    } catch (error) {
-      return {
-        success: false,
-        error: `Failed to get free shipping threshold: ${error}`,
-      };
-    }
-  }
-
-  private generateTrackingNumber(shippingMethod: string): string {
-    const prefix = this.getTrackingPrefix(shippingMethod);
-    const timestamp = Date.now().toString().slice(-6);
-    const random = Math.random().toString(36).substring(2, 8).toUpperCase();
-    
-    return `${prefix}${timestamp}${random}`;
-  }
-
-  private getTrackingPrefix(shippingMethod: string): string {
-    const method = shippingMethod.toLowerCase();
-    
-    if (method.includes('postnord')) {
-      return 'PN';
-    } else if (method.includes('dhl')) {
-      return 'DHL';
-    } else if (method.includes('express')) {
-      return 'EX';
-    } else {
-      return 'FE'; // Fortune Essence default
-    }
-  }
-
-  private getCarrierFromRate(rateName: string): string {
-    const name = rateName.toLowerCase();
-    
-    if (name.includes('postnord')) {
-      return 'PostNord';
-    } else if (name.includes('dhl')) {
-      return 'DHL';
-    } else {
-      return 'Standard';
-    }
-  }
-
-  private getCarrierFromTrackingNumber(trackingNumber: string): string {
-    const prefix = trackingNumber.substring(0, 2);
-
-    switch (prefix) {
-      case 'PN':
-        return 'PostNord';
-      case 'DHL':
-        return 'DHL';
-      case 'EX':
-        return 'Express';
-      default:
-        return 'Standard';
-    }
-  }
-
-  /**
-   * Track shipment with PostNord API
-   * Uses PostNord Tracking REST API
-   */
-  private async trackWithPostNord(trackingNumber: string): Promise<ApiResponse<TrackingInfo>> {
-    try {
-      const config = (await import('@/config')).config;
-      const apiKey = config?.shipping?.postnord?.apiKey;
-      const baseUrl = config?.shipping?.postnord?.baseUrl || 'https://api2.postnord.com/rest';
-
-      // Validate API key is configured and not empty
-      if (!apiKey || apiKey.trim() === '') {
-        console.warn('PostNord API key not configured, falling back to mock tracking');
-        return {
-          success: false,
-          error: 'PostNord API key not configured',
-        };
-      }
-
-      // Make request to PostNord Tracking API
-      const url = `${baseUrl}/businesslocation/v5/findByIdentifier.json?id=${trackingNumber}&apikey=${apiKey}&locale=sv`;
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
+      // Events are stored as carriers push them or as they are polled, newest first
+      const eventsResult = await this.trackingEventRepository.findByTrackingNumber(trackingNumber);
+      if (!eventsResult.success) {
         return {
           success: false,
-          error: `PostNord API error: ${response.status}`,
+          error: eventsResult.error,
         };
       }
 
-      const data = await response.json();
-
-      // Parse PostNord response
-      if (!data.TrackingInformationResponse?.shipments?.[0]) {
+      const events = eventsResult.data!;
+      if (events.length === 0) {
         return {
           success: false,
-          error: 'No tracking information found',
+          error: 'No tracking events found',
         };
       }
 
-      const shipment = data.TrackingInformationResponse.shipments[0];
-      const items = shipment.items || [];
-      const events = items[0]?.events || [];
-
-      // Map PostNord events to our TrackingEvent format
-      const history = events.map((event: any) => ({
-        date: new Date(event.eventTime),
-        status: this.mapPostNordStatus(event.eventCode),
-        location: event.location?.displayName || event.location?.city || 'Unknown',
-        description: event.eventDescription || event.status,
-      }));
-
-      // Get latest status
-      const latestEvent = events[0] || {};
-      const status = this.mapPostNordStatus(latestEvent.eventCode) || 'Under transport';
-      const location = latestEvent.location?.displayName || latestEvent.location?.city || 'Unknown';
-
-      // Parse estimated delivery
-      const estimatedDeliveryStr = shipment.estimatedTimeOfArrival || items[0]?.estimatedTimeOfArrival;
-      const estimatedDelivery = estimatedDeliveryStr
-        ? new Date(estimatedDeliveryStr)
-        : new Date(Date.now() + 2 * 24 * 60 * 60 * 1000); // Default to 2 days from now
-
       return {
         success: true,
         data: {
           trackingNumber,
-          status,
-          location,
-          estimatedDelivery,
-          history,
+          status: events[0].status,
+          location: events[0].location || '',
+          history: events.map(event => ({
+            date: event.occurredAt,
+            status: event.status,
+            location: event.location || '',
+            description: event.description,
+          })),
         },
       };
     } catch (error) {
       return {
         success: false,
-        error: `PostNord tracking failed: ${error}`,
+        error: `Failed to track shipment: ${error}`,
       };
     }
   }
 
   /**
-   * Track shipment with DHL API
-   * Uses DHL Tracking REST API
+   * Pack the items in the smallest box from the catalogue that holds them
    */
-  private async trackWithDHL(trackingNumber: string): Promise<ApiResponse<TrackingInfo>> {
+  async packItems(items: Array<Pick<CartItem, 'productId' | 'quantity'>>): Promise<ApiResponse<PackedParcel>> {
     try {
-      const config = (await import('@/config')).config;
-      const apiKey = config?.shipping?.dhl?.apiKey;
-      const baseUrl = config?.shipping?.dhl?.baseUrl || 'https://api-eu.dhl.com';
-
-      // Validate API key is configured and not empty
-      if (!apiKey || apiKey.trim() === '') {
-        console.warn('DHL API key not configured, falling back to mock tracking');
-        return {
-          success: false,
-          error: 'DHL API key not configured',
-        };
-      }
-
-      // Make request to DHL Tracking API
-      const url = `${baseUrl}/track/shipments?trackingNumber=${trackingNumber}`;
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'DHL-API-Key': apiKey,
-          'Accept': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        return {
-          success: false,
-          error: `DHL API error: ${response.status}`,
-        };
-      }
-
-      const data = await response.json();
-
-      // Parse DHL response
-      if (!data.shipments?.[0]) {
+      const productsResult = await this.productRepository.findByIds(items.map(item => item.productId));
+      if (!productsResult.success) {
         return {
           success: false,
-          error: 'No tracking information found',
+          error: productsResult.error,
         };
       }
 
-      const shipment = data.shipments[0];
-      const events = shipment.events || [];
-
-      // Map DHL events to our TrackingEvent format
-      const history = events.map((event: any) => ({
-        date: new Date(event.timestamp),
-        status: this.mapDHLStatus(event.statusCode),
-        location: event.location?.address?.addressLocality || 'Unknown',
-        description: event.description || event.status,
-      }));
-
-      // Get latest status
-      const latestStatus = shipment.status?.statusCode || 'transit';
-      const status = this.mapDHLStatus(latestStatus);
-      const location = shipment.status?.location?.address?.addressLocality || 'Under transport';
-
-      // Parse estimated delivery
-      const estimatedDeliveryStr = shipment.estimatedTimeOfDelivery;
-      const estimatedDelivery = estimatedDeliveryStr
-        ? new Date(estimatedDeliveryStr)
-        : new Date(Date.now() + 2 * 24 * 60 * 60 * 1000); // Default to 2 days from now
-
       return {
         success: true,
-        data: {
-          trackingNumber,
-          status,
-          location,
-          estimatedDelivery,
-          history,
-        },
+        data: this.packProducts(items, productsResult.data!),
       };
     } catch (error) {
       return {
         success: false,
-        error: `DHL tracking failed: ${error}`,
+        error: `Failed to pack items: ${error}`,
       };
     }
   }
 
   /**
-   * Map PostNord status codes to Swedish status descriptions
+   * Weight of the packed parcel in kg, box included; 0 when it cannot be worked out
    */
-  private mapPostNordStatus(eventCode: string): string {
-    const statusMap: Record<string, string> = {
-      'ED': 'Levererad',
-      'HD': 'Levererad',
-      'DELIVERED': 'Levererad',
-      'IT': 'Under transport',
-      'INFORMED': 'Aviserad',
-      'NOTIFICATION_SENT': 'Aviserad',
-      'COLLECTED': 'Upphämtad',
-      'RETURNED': 'Returnerad',
-      'DELAYED': 'Försenad',
-    };
+  private async calculateTotalWeight(items: CartItem[]): Promise<number> {
+    const packResult = await this.packItems(items);
+    if (!packResult.success) {
+      console.error('Failed to calculate total weight:', packResult.error);
+      return 0;
+    }
 
-    return statusMap[eventCode] || 'Under transport';
+    return packResult.data!.weight;
   }
 
   /**
-   * Map DHL status codes to Swedish status descriptions
+   * Weight carriers charge the packed parcel at, in kg; 0 when it cannot be worked out
    */
-  private mapDHLStatus(statusCode: string): string {
-    const statusMap: Record<string, string> = {
-      'delivered': 'Levererad',
-      'transit': 'Under transport',
-      'failure': 'Leveransfel',
-      'unknown': 'Okänd status',
-      'pre-transit': 'Förbereds för transport',
-    };
+  private async calculateChargeableWeight(items: CartItem[]): Promise<number> {
+    const packResult = await this.packItems(items);
+    if (!packResult.success) {
+      console.error('Failed to calculate chargeable weight:', packResult.error);
+      return 0;
+    }
 
-    return statusMap[statusCode.toLowerCase()] || 'Under transport';
+    return this.packingEngine.chargeableWeight(packResult.data!);
   }
 
-  private generateMockTrackingInfo(trackingNumber: string, carrier: string): TrackingInfo {
-    const now = new Date();
-    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    const twoDaysAgo = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
-    
-    // Generate realistic tracking events based on carrier
-    const history = [
-      {
-        date: twoDaysAgo,
-        status: 'Förbereds för transport',
-        location: 'Stockholm, Sweden',
-        description: 'Paketet har tagits emot och förbereds för transport',
-      },
-      {
-        date: yesterday,
-        status: 'Skickad',
-        location: 'Stockholm Terminal, Sweden',
-        description: 'Paketet har skickats från terminalen',
-      },
-      {
-        date: now,
-        status: 'Under transport',
-        location: 'På väg till destination',
-        description: 'Paketet är på väg till mottagaren',
-      },
-    ];
+  // Products no longer in the catalogue are left out of the parcel
+  private packProducts(items: Array<Pick<CartItem, 'productId' | 'quantity'>>, products: Product[]): PackedParcel {
+    const productsById = new Map(products.map(product => [product.id, product]));
 
-    // Estimate delivery (2-3 days from now)
-    const estimatedDelivery = new Date(now.getTime() + (2 + Math.random()) * 24 * 60 * 60 * 1000);
+    return this.packingEngine.pack(items.flatMap(item => {
+      const product = productsById.get(item.productId);
+      return product ? [{ product, quantity: item.quantity }] : [];
+    }));
+  }
 
-    return {
-      trackingNumber,
-      status: 'Under transport',
-      location: 'På väg till destination',
-      estimatedDelivery,
-      history,
-    };
+  private async getFreeShippingThreshold(country: string): Promise<ApiResponse<number | null>> {
+    try {
+      const result = await this.shippingRepository.getFreeShippingThreshold(country);
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get free shipping threshold: ${error}`,
+      };
+    }
   }
 
   // Additional utility methods
@@ -545,11 +349,11 @@ export class ShippingService implements IShippingService {
     freeShippingThreshold?: number;
   }>> {
     try {
-      const totalWeight = await this.calculateTotalWeight(items);
+      const chargeableWeight = await this.calculateChargeableWeight(items);
       const cartTotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
       
       // Get all available shipping options
-      const ratesResult = await this.getShippingRates(country, totalWeight);
+      const ratesResult = await this.getShippingRates(country, chargeableWeight);
       
       if (!ratesResult.success) {
         return ratesResult as any;
@@ -581,10 +385,20 @@ export class ShippingService implements IShippingService {
     }
   }
 
-  async estimateDeliveryDate(shippingRateId: string): Promise<ApiResponse<Date>> {
+  async estimateDeliveryDate(shippingRateId: string, postalCode?: string): Promise<ApiResponse<Date>> {
     try {
-      const result = await this.shippingRepository.getEstimatedDeliveryDate(shippingRateId);
-      return result;
+      const rateResult = await this.shippingRepository.findById(shippingRateId);
+      if (!rateResult.success) {
+        return {
+          success: false,
+          error: rateResult.error,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.estimateRateDelivery(rateResult.data!, postalCode),
+      };
     } catch (error) {
       return {
         success: false,
@@ -593,6 +407,51 @@ export class ShippingService implements IShippingService {
     }
   }
 
+  async getPickupPointForRate(shippingRateId: string, pickupPointId?: string): Promise<ApiResponse<PickupPoint | undefined>> {
+    try {
+      const rateResult = await this.shippingRepository.findById(shippingRateId);
+      if (!rateResult.success) {
+        return {
+          success: false,
+          error: rateResult.error,
+        };
+      }
+
+      const rate = rateResult.data!;
+      if (!rate.carrierCode || !rate.deliveryType || rate.deliveryType === 'home') {
+        return pickupPointId
+          ? { success: false, error: 'Shipping rate does not deliver to pickup points' }
+          : { success: true, data: undefined };
+      }
+
+      if (!pickupPointId) {
+        return {
+          success: false,
+          error: 'Shipping rate delivers to a pickup point; choose one',
+        };
+      }
+
+      const pointResult = await this.pickupPointService.getPickupPoint(rate.carrierCode, pickupPointId);
+      if (!pointResult.success) {
+        return pointResult;
+      }
+
+      if (pointResult.data!.type !== rate.deliveryType) {
+        return {
+          success: false,
+          error: 'Pickup point does not match the shipping rate',
+        };
+      }
+
+      return pointResult;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get pickup point: ${error}`,
+      };
+    }
+  }
+
   async getSupportedCountries(): Promise<ApiResponse<Array<{ code: string; name: string }>>> {
     try {
       // Return supported countries with names
@@ -677,44 +536,24 @@ export class ShippingService implements IShippingService {
 
   async getSwedishHolidayImpact(date: string): Promise<ApiResponse<{
     isHoliday: boolean;
+    holidayName?: string;
     estimatedDelay?: number;
   }>> {
     try {
       const deliveryDate = new Date(date);
-      const year = deliveryDate.getFullYear();
-      const month = deliveryDate.getMonth() + 1;
-      const day = deliveryDate.getDate();
-
-      // Swedish holidays that affect delivery
-      const holidays = [
-        { month: 1, day: 1, name: 'Nyårsdagen' },
-        { month: 1, day: 6, name: 'Trettondedag jul' },
-        { month: 5, day: 1, name: 'Första maj' },
-        { month: 6, day: 6, name: 'Sveriges nationaldag' },
-        { month: 12, day: 24, name: 'Julafton' },
-        { month: 12, day: 25, name: 'Juldagen' },
-        { month: 12, day: 26, name: 'Annandag jul' },
-      ];
-
-      const holiday = holidays.find(h => h.month === month && h.day === day);
-      let adjustedDate = new Date(deliveryDate);
+      const holiday = this.holidayCalendar.getHoliday(deliveryDate);
 
       if (holiday) {
-        // Move to next business day
-        adjustedDate.setDate(adjustedDate.getDate() + 1);
-        
-        // Skip weekends
-        while (adjustedDate.getDay() === 0 || adjustedDate.getDay() === 6) {
-          adjustedDate.setDate(adjustedDate.getDate() + 1);
-        }
-
-        // Calculate delay in days
-        const delayDays = Math.ceil((adjustedDate.getTime() - deliveryDate.getTime()) / (1000 * 60 * 60 * 24));
+        // Delivery moves to the next business day, past any weekend or holiday in between
+        const deliveryDay = toStockholmTime(deliveryDate).day;
+        const adjustedDate = this.businessDayCalculator.nextBusinessDay(deliveryDay);
+        const delayDays = Math.round((adjustedDate.getTime() - deliveryDay.getTime()) / DAY_MS);
 
         return {
           success: true,
           data: {
             isHoliday: true,
+            holidayName: holiday.name,
             estimatedDelay: delayDays,
           },
         };
@@ -775,6 +614,7 @@ export class ShippingService implements IShippingService {
       const adjustedRate: ShippingRate = {
         ...baseRate,
         estimatedDays: baseRate.estimatedDays + zoneInfo.additionalDays,
+        estimatedDeliveryDate: this.estimateRateDelivery(baseRate, postalCode),
         name: `${baseRate.name} (${zoneInfo.zone})`,
       };
 
@@ -950,8 +790,17 @@ export class ShippingService implements IShippingService {
     freeShippingThreshold: number;
   }>> {
     try {
+      const productsResult = await this.productRepository.findByIds(items.map(item => item.productId));
+      if (!productsResult.success) {
+        return {
+          success: false,
+          error: productsResult.error,
+        };
+      }
+
       // Calculate total weight and order value
-      const totalWeight = await this.calculateTotalWeight(items);
+      const parcel = this.packProducts(items, productsResult.data!);
+      const totalWeight = parcel.weight;
       const cartTotal = orderValue || items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
 
       // Get all rates from database
@@ -963,8 +812,11 @@ export class ShippingService implements IShippingService {
         };
       }
 
-      // Filter by weight
-      let availableRates = this.carrierRulesEngine.filterByWeightLimit(ratesResult.data!, totalWeight);
+      // Rates are banded by chargeable weight, so a light but bulky box lands in a heavier band
+      let availableRates = this.carrierRulesEngine.filterByWeightLimit(
+        ratesResult.data!,
+        this.packingEngine.chargeableWeight(parcel)
+      );
 
       // Apply smart filtering
       const criteria: FilterCriteria = {
@@ -972,7 +824,11 @@ export class ShippingService implements IShippingService {
         orderValue: cartTotal,
         destination: country,
         postalCode,
+        // Flammable oils can only go with services that carry limited quantities
+        dangerousGoods: productsResult.data!.some(product => product.dangerousGoods),
       };
+      const carriers = this.carrierRulesEngine.applySmartFilters(getAllCarriers(), criteria);
+      availableRates = this.carrierRulesEngine.filterRatesByCarriers(availableRates, carriers, criteria);
 
       // Apply zone-based pricing if postal code provided
       if (postalCode) {
@@ -993,6 +849,11 @@ export class ShippingService implements IShippingService {
         }));
       }
 
+      availableRates = availableRates.map(rate => ({
+        ...rate,
+        estimatedDeliveryDate: this.estimateRateDelivery(rate, postalCode),
+      }));
+
       // Sort by price (cheapest first)
       const sortedRates = this.carrierRulesEngine.sortByPrice([...availableRates]);
 
@@ -1023,7 +884,8 @@ export class ShippingService implements IShippingService {
     orderValue: number,
     country: string,
     postalCode?: string,
-    preferences?: FilterCriteria['preferences']
+    preferences?: FilterCriteria['preferences'],
+    dangerousGoods?: boolean
   ): Promise<ApiResponse<CarrierInfo[]>> {
     try {
       const allCarriers = getAllCarriers();
@@ -1033,6 +895,7 @@ export class ShippingService implements IShippingService {
         orderValue,
         destination: country,
         postalCode,
+        dangerousGoods,
         preferences,
       };
 
@@ -1051,18 +914,56 @@ export class ShippingService implements IShippingService {
   }
 
   /**
-   * Generate shipping label for an order
+   * Generate shipping label for an order, or for one shipment when it goes out in several
    */
   async generateShippingLabel(
-    order: Order
+    order: Order,
+    shipment?: OrderShipment
   ): Promise<ApiResponse<ShippingLabel>> {
     try {
-      // Generate tracking number
-      const carrierCode = order.carrier || 'POSTNORD';
-      const trackingNumber = this.generateCarrierTrackingNumber(carrierCode);
+      const carrierCode = shipment?.carrier || order.carrier || 'POSTNORD';
+      const adapter = this.carrierAdapterRegistry.getAdapter(carrierCode);
+      if (!adapter) {
+        return {
+          success: false,
+          error: `Unknown carrier: ${carrierCode}`,
+        };
+      }
 
-      // Generate label using LabelGenerationService
-      const labelResult = await this.labelGenerationService.generateLabel(order, trackingNumber);
+      const dangerousGoodsResult = await this.checkDangerousGoods(order, shipment);
+      if (!dangerousGoodsResult.success) {
+        return {
+          success: false,
+          error: dangerousGoodsResult.error,
+        };
+      }
+      const { limitedQuantity } = dangerousGoodsResult.data!;
+
+      const packing = await this.packItems(shipment ? shipment.items : order.items);
+      if (!packing.success) {
+        return {
+          success: false,
+          error: packing.error,
+        };
+      }
+
+      // Booking with the carrier gives the parcel its tracking number; the carrier
+      // charges, and picks the service, by the packed parcel's chargeable weight
+      const bookingResult = await adapter.bookShipment({
+        reference: shipment?.id || order.id,
+        weight: this.packingEngine.chargeableWeight(packing.data!),
+        recipient: order.shippingAddress,
+        pickupPoint: order.pickupPoint,
+        limitedQuantity,
+      });
+      if (!bookingResult.success) {
+        return {
+          success: false,
+          error: bookingResult.error,
+        };
+      }
+
+      const labelResult = await this.labelGenerationService.generateLabel(order, bookingResult.data!, shipment, limitedQuantity);
 
       if (!labelResult.success) {
         return labelResult;
@@ -1081,53 +982,115 @@ export class ShippingService implements IShippingService {
   }
 
   /**
-   * Get shipping label for an order
+   * Cancel the carrier booking behind a label, e.g. when its shipment is cancelled
    */
-  async getShippingLabel(orderId: string): Promise<ApiResponse<ShippingLabel>> {
+  async cancelShippingLabel(carrierCode: string, trackingNumber: string): Promise<ApiResponse<void>> {
     try {
-      return await this.shippingRepository.findLabelByOrderId(orderId);
+      const adapter = this.carrierAdapterRegistry.getAdapter(carrierCode);
+      if (!adapter) {
+        return {
+          success: false,
+          error: `Unknown carrier: ${carrierCode}`,
+        };
+      }
+
+      return await adapter.cancelShipment(trackingNumber);
     } catch (error) {
       return {
         success: false,
-        error: `Failed to get shipping label: ${error}`,
+        error: `Failed to cancel shipping label: ${error}`,
       };
     }
   }
 
   /**
-   * Generate carrier-specific tracking number
+   * Dangerous goods in the order, or in one shipment of it, checked against the
+   * limited-quantity limits and the carrier it is going with
    */
-  private generateCarrierTrackingNumber(carrierCode: string): string {
-    const prefix = getTrackingPrefix(carrierCode);
-    const timestamp = Date.now().toString(36).toUpperCase();
-    const random = Math.random().toString(36).substring(2, 8).toUpperCase();
-    const checksum = this.calculateChecksum(`${prefix}${timestamp}${random}`);
+  async checkDangerousGoods(order: Order, shipment?: OrderShipment): Promise<ApiResponse<DangerousGoodsCheck>> {
+    try {
+      const items = shipment ? shipment.items : order.items;
+
+      const productsResult = await this.productRepository.findByIds(items.map(item => item.productId));
+      if (!productsResult.success) {
+        return {
+          success: false,
+          error: productsResult.error,
+        };
+      }
+
+      // The limit is on the gross weight: the items as packed, box included
+      const check = checkDangerousGoods(
+        items,
+        new Map(productsResult.data!.map(product => [product.id, product])),
+        this.packProducts(items, productsResult.data!).weight
+      );
+
+      const carrierCode = shipment?.carrier || order.carrier;
+      const deliveryType = order.pickupPoint?.type || 'home';
+      if (check.limitedQuantity && carrierCode && !carriesLimitedQuantity(carrierCode, deliveryType)) {
+        const carrierName = getCarrierByCode(carrierCode)?.name || carrierCode;
+        check.warnings.push(`${carrierName} does not carry dangerous goods ${deliveryType === 'home' ? 'to the door' : `to a ${deliveryType.replace('_', ' ')}`}; choose another carrier`);
+      }
 
-    return `${prefix}${timestamp}${random}${checksum}`;
+      return {
+        success: true,
+        data: check,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to check dangerous goods: ${error}`,
+      };
+    }
   }
 
   /**
-   * Calculate checksum for tracking number validation
+   * Get shipping label for an order
    */
-  private calculateChecksum(input: string): string {
-    let sum = 0;
-    for (let i = 0; i < input.length; i++) {
-      sum += input.charCodeAt(i);
+  async getShippingLabel(orderId: string): Promise<ApiResponse<ShippingLabel>> {
+    try {
+      return await this.shippingRepository.findLabelByOrderId(orderId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get shipping label: ${error}`,
+      };
     }
-    return (sum % 97).toString().padStart(2, '0');
   }
 
   /**
-   * Calculate dynamic pricing based on weight and carrier rules
+   * Delivery day for a rate ordered now: dispatched the same business day when
+   * before the carrier's cut-off, then the transit days plus any extra days for
+   * the Swedish postal zone, skipping weekends and holidays
+   */
+  private estimateRateDelivery(rate: ShippingRate, postalCode?: string): Date {
+    const carrier = rate.carrierCode ? getCarrierByCode(rate.carrierCode) : undefined;
+    const cleanCode = postalCode?.replace(/\s/g, '');
+    const isSwedishPostalCode = ['Sweden', 'SE'].includes(rate.country) && !!cleanCode && /^\d{5}$/.test(cleanCode);
+
+    return this.businessDayCalculator.estimateDelivery({
+      transitDays: rate.estimatedDays,
+      cutoffTime: carrier?.cutoffTime || DEFAULT_CUTOFF_TIME,
+      additionalDays: isSwedishPostalCode ? this.getSwedishZoneDetails(cleanCode!).additionalDays : 0,
+    });
+  }
+
+  /**
+   * Calculate dynamic pricing based on weight and carrier rules. Parcels are
+   * priced on their chargeable weight: the actual weight, or the volumetric
+   * weight of the box when that is higher.
    */
   async calculateDynamicPrice(
     carrierCode: string,
     serviceType: string,
-    weight: number,
+    parcel: Parcel,
     country: string,
     postalCode?: string
   ): Promise<ApiResponse<number>> {
     try {
+      const weight = this.packingEngine.chargeableWeight(parcel);
+
       // Try to find pricing rule
       const ruleResult = await this.shippingRepository.findPricingRule(
         carrierCode,
@@ -1173,6 +1136,19 @@ export class ShippingService implements IShippingService {
         }
       }
 
+      // Last, the carrier's own quote
+      const adapter = this.carrierAdapterRegistry.getAdapter(carrierCode);
+      if (adapter) {
+        const quotesResult = await adapter.quoteRates({ weight, country, postalCode });
+        const quote = quotesResult.data?.find(candidate => candidate.serviceType === serviceType);
+        if (quote) {
+          return {
+            success: true,
+            data: quote.price,
+          };
+        }
+      }
+
       return {
         success: false,
         error: 'No pricing found for carrier and service type',
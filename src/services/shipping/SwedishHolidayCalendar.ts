@@ -0,0 +1,137 @@
+/**
+ * Swedish Holiday Calendar
+ *
+ * Public holidays, plus the eves that are days off in practice (julafton,
+ * midsommarafton, nyårsafton), computed for any year. Movable holidays are
+ * derived from Easter Sunday or fall on a weekday within a fixed window.
+ */
+
+import { injectable } from 'tsyringe';
+
+export interface SwedishHoliday {
+  // Calendar day in Sweden, YYYY-MM-DD
+  date: string;
+  name: string;
+}
+
+const STOCKHOLM_TIME_ZONE = 'Europe/Stockholm';
+
+const stockholmFormatter = new Intl.DateTimeFormat('en-GB', {
+  timeZone: STOCKHOLM_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+/**
+ * The calendar day and time of day an instant falls on in Sweden. The day is
+ * returned at noon UTC so it stays the same day wherever it is formatted.
+ */
+export function toStockholmTime(date: Date): { day: Date; minutes: number } {
+  const parts = Object.fromEntries(
+    stockholmFormatter.formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    day: calendarDay(Number(parts.year), Number(parts.month), Number(parts.day)),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+export function calendarDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day, 12));
+}
+
+export function formatCalendarDay(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+function addDays(day: Date, days: number): Date {
+  const result = new Date(day);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+// The weekday (0 = Sunday) on or after the first day of a window
+function weekdayFrom(year: number, month: number, firstDay: number, weekday: number): Date {
+  const start = calendarDay(year, month, firstDay);
+  return addDays(start, (weekday - start.getUTCDay() + 7) % 7);
+}
+
+@injectable()
+export class SwedishHolidayCalendar {
+  private readonly holidaysByYear = new Map<number, SwedishHoliday[]>();
+
+  getHolidays(year: number): SwedishHoliday[] {
+    let holidays = this.holidaysByYear.get(year);
+    if (!holidays) {
+      holidays = this.computeHolidays(year);
+      this.holidaysByYear.set(year, holidays);
+    }
+    return holidays;
+  }
+
+  /**
+   * The holiday on the Swedish calendar day of the given date, if any
+   */
+  getHoliday(date: Date): SwedishHoliday | undefined {
+    const day = formatCalendarDay(toStockholmTime(date).day);
+    return this.getHolidays(Number(day.slice(0, 4))).find(holiday => holiday.date === day);
+  }
+
+  isHoliday(date: Date): boolean {
+    return this.getHoliday(date) !== undefined;
+  }
+
+  private computeHolidays(year: number): SwedishHoliday[] {
+    const easter = this.getEasterSunday(year);
+
+    const holidays: Array<{ day: Date; name: string }> = [
+      { day: calendarDay(year, 1, 1), name: 'Nyårsdagen' },
+      { day: calendarDay(year, 1, 6), name: 'Trettondedag jul' },
+      { day: addDays(easter, -2), name: 'Långfredagen' },
+      { day: easter, name: 'Påskdagen' },
+      { day: addDays(easter, 1), name: 'Annandag påsk' },
+      { day: calendarDay(year, 5, 1), name: 'Första maj' },
+      { day: addDays(easter, 39), name: 'Kristi himmelsfärdsdag' },
+      { day: addDays(easter, 49), name: 'Pingstdagen' },
+      { day: calendarDay(year, 6, 6), name: 'Sveriges nationaldag' },
+      { day: weekdayFrom(year, 6, 19, 5), name: 'Midsommarafton' },
+      { day: weekdayFrom(year, 6, 20, 6), name: 'Midsommardagen' },
+      { day: weekdayFrom(year, 10, 31, 6), name: 'Alla helgons dag' },
+      { day: calendarDay(year, 12, 24), name: 'Julafton' },
+      { day: calendarDay(year, 12, 25), name: 'Juldagen' },
+      { day: calendarDay(year, 12, 26), name: 'Annandag jul' },
+      { day: calendarDay(year, 12, 31), name: 'Nyårsafton' },
+    ];
+
+    return holidays
+      .map(({ day, name }) => ({ date: formatCalendarDay(day), name }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm)
+   */
+  private getEasterSunday(year: number): Date {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+    return calendarDay(year, month, day);
+  }
+}
@@ -0,0 +1,245 @@
+import { injectable, inject } from 'tsyringe';
+import type {
+  ITrackingService,
+  ITrackingEventRepository,
+  IShipmentRepository,
+  IShipmentService,
+  IOrderService,
+  ICustomerRepository,
+  TrackingIngestResult,
+  TrackingPollResult
+} from '@/interfaces';
+import type { IEmailService } from '@/interfaces/email';
+import type { ApiResponse, CarrierTrackingEvent, OrderShipment, ShipmentStatus, ShipmentTrackingEvent } from '@/types';
+import { TOKENS } from '@/config/di-container';
+import { config } from '@/config';
+import { getCarrierByCode } from '@/config/carriers';
+import { CarrierAdapterRegistry } from './CarrierAdapterRegistry';
+import { findShipmentTransitionPath } from './ShipmentStateMachine';
+import { getLatestEvent, getShipmentStatusForTracking, shouldNotifyCustomer } from './TrackingStatuses';
+
+// Parcels the customer has already got don't need news about them
+const FINISHED_SHIPMENT_STATUSES: ShipmentStatus[] = ['delivered', 'returned', 'cancelled'];
+
+@injectable()
+export class TrackingService implements ITrackingService {
+  constructor(
+    @inject(TOKENS.ITrackingEventRepository) private readonly trackingEventRepository: ITrackingEventRepository,
+    @inject(TOKENS.IShipmentRepository) private readonly shipmentRepository: IShipmentRepository,
+    @inject(TOKENS.IShipmentService) private readonly shipmentService: IShipmentService,
+    @inject(TOKENS.IOrderService) private readonly orderService: IOrderService,
+    @inject(TOKENS.ICustomerRepository) private readonly customerRepository: ICustomerRepository,
+    @inject(TOKENS.IEmailService) private readonly emailService: IEmailService,
+    @inject(TOKENS.CarrierAdapterRegistry) private readonly adapterRegistry: CarrierAdapterRegistry
+  ) {}
+
+  async ingestWebhook(carrierCode: string, payload: unknown): Promise<ApiResponse<TrackingIngestResult>> {
+    try {
+      const adapter = this.adapterRegistry.getTrackingAdapter(carrierCode);
+      if (!adapter) {
+        return {
+          success: false,
+          error: `No tracking adapter for carrier ${carrierCode}`,
+        };
+      }
+
+      const parsed = adapter.parseTrackingWebhook(payload);
+      if (!parsed.success) {
+        return {
+          success: false,
+          error: parsed.error,
+        };
+      }
+
+      const byTrackingNumber = new Map<string, CarrierTrackingEvent[]>();
+      for (const event of parsed.data!) {
+        byTrackingNumber.set(event.trackingNumber, [...(byTrackingNumber.get(event.trackingNumber) || []), event]);
+      }
+
+      const result: TrackingIngestResult = { received: parsed.data!.length, recorded: 0, skipped: 0 };
+
+      for (const [trackingNumber, events] of byTrackingNumber) {
+        const shipmentResult = await this.shipmentRepository.findByTrackingNumber(trackingNumber);
+        if (!shipmentResult.success) {
+          if (shipmentResult.error === 'Shipment not found') {
+            result.skipped += events.length;
+            continue;
+          }
+          // Failing makes the carrier send the events again
+          return {
+            success: false,
+            error: shipmentResult.error,
+          };
+        }
+
+        const shipment = shipmentResult.data!;
+        if (shipment.carrier !== carrierCode) {
+          result.skipped += events.length;
+          continue;
+        }
+
+        const recorded = await this.recordEvents(shipment, events);
+        if (!recorded.success) {
+          return {
+            success: false,
+            error: recorded.error,
+          };
+        }
+        result.recorded += recorded.data!;
+      }
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to ingest tracking events: ${error}`,
+      };
+    }
+  }
+
+  async pollShipments(limit: number = config.shipping.tracking.pollBatchSize): Promise<ApiResponse<TrackingPollResult>> {
+    try {
+      const shipmentsResult = await this.shipmentRepository.findAwaitingTracking(limit);
+      if (!shipmentsResult.success) {
+        return {
+          success: false,
+          error: shipmentsResult.error,
+        };
+      }
+
+      const result: TrackingPollResult = { polled: 0, recorded: 0, failed: 0 };
+
+      for (const shipment of shipmentsResult.data!) {
+        // Shipments that can't be polled still go to the back of the queue
+        const adapter = this.adapterRegistry.getTrackingAdapter(shipment.carrier || '');
+        if (adapter) {
+          const eventsResult = await adapter.fetchTrackingEvents(shipment.trackingNumber!, shipment.shippedAt);
+          const recorded: ApiResponse<number> = eventsResult.success
+            ? await this.recordEvents(shipment, eventsResult.data!)
+            : { success: false, error: eventsResult.error };
+
+          if (recorded.success) {
+            result.polled++;
+            result.recorded += recorded.data!;
+          } else {
+            console.error(`Failed to poll tracking for shipment ${shipment.id}:`, recorded.error);
+            result.failed++;
+          }
+        }
+
+        await this.shipmentRepository.update(shipment.id, { trackedAt: new Date() });
+      }
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to poll tracking: ${error}`,
+      };
+    }
+  }
+
+  async getOrderTracking(orderId: string): Promise<ApiResponse<ShipmentTrackingEvent[]>> {
+    try {
+      return await this.trackingEventRepository.findByOrderId(orderId);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get tracking events: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Stores the events and acts on the latest new one. Returns how many were
+   * new, so a repeated push or poll changes nothing and emails nobody.
+   */
+  private async recordEvents(shipment: OrderShipment, events: CarrierTrackingEvent[]): Promise<ApiResponse<number>> {
+    const saved = await this.trackingEventRepository.saveEvents(shipment, events);
+    if (!saved.success) {
+      return {
+        success: false,
+        error: saved.error,
+      };
+    }
+
+    const latest = getLatestEvent(saved.data!);
+    if (latest) {
+      await this.advanceShipment(shipment, latest);
+
+      // A late event for a parcel already delivered is only kept for the history
+      if (shouldNotifyCustomer(latest.status) && !FINISHED_SHIPMENT_STATUSES.includes(shipment.status)) {
+        await this.notifyCustomer(shipment, latest);
+      }
+    }
+
+    return {
+      success: true,
+      data: saved.data!.length,
+    };
+  }
+
+  /**
+   * Moves the shipment to the status the event stands for, one allowed step
+   * at a time so the order follows. Nothing happens if it is already there
+   * or further along.
+   */
+  private async advanceShipment(shipment: OrderShipment, event: CarrierTrackingEvent): Promise<void> {
+    const target = getShipmentStatusForTracking(event.status);
+    if (!target) {
+      return;
+    }
+
+    const path = findShipmentTransitionPath(shipment.status, target);
+    if (!path) {
+      return;
+    }
+
+    for (const status of path) {
+      const result = await this.shipmentService.updateShipmentStatus(shipment.id, status, {
+        actor: `carrier:${event.carrierCode}`,
+        reason: event.description || `Carrier reported ${event.status.replace(/_/g, ' ')}`,
+      });
+
+      if (!result.success) {
+        console.error(`Failed to move shipment ${shipment.id} to ${status}:`, result.error);
+        return;
+      }
+    }
+  }
+
+  private async notifyCustomer(shipment: OrderShipment, event: CarrierTrackingEvent): Promise<void> {
+    const orderResult = await this.orderService.getOrderById(shipment.orderId);
+    if (!orderResult.success) {
+      console.error(`Failed to load order for tracking email on shipment ${shipment.id}:`, orderResult.error);
+      return;
+    }
+
+    const order = orderResult.data!;
+    const customerResult = await this.customerRepository.findById(order.customerId);
+    if (!customerResult.success) {
+      console.error(`No customer to email about shipment ${shipment.id}:`, customerResult.error);
+      return;
+    }
+
+    const emailResult = await this.emailService.sendTrackingUpdate(customerResult.data!.email, {
+      orderNumber: order.orderNumber,
+      status: event.status,
+      trackingNumber: event.trackingNumber,
+      carrierName: getCarrierByCode(event.carrierCode)?.name || event.carrierCode,
+      description: event.description || undefined,
+      pickupPoint: order.pickupPoint,
+      trackingUrl: `${config.app.url}/track-order?trackingNumber=${encodeURIComponent(event.trackingNumber)}`,
+    });
+
+    if (!emailResult.success) {
+      console.error(`Failed to send tracking email for shipment ${shipment.id}:`, emailResult.error);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Tracking Statuses
+ *
+ * The common vocabulary carrier events are normalised to, and what each one
+ * means for the shipment it belongs to. Events only ever move a shipment
+ * forward; a late in-transit scan for a delivered parcel is kept in its
+ * history but changes nothing.
+ */
+
+import type { CarrierTrackingEvent, ShipmentStatus, TrackingStatus } from '@/types';
+
+export const TRACKING_STATUSES: TrackingStatus[] = [
+  'info_received',
+  'in_transit',
+  'out_for_delivery',
+  'ready_for_pickup',
+  'delivered',
+  'exception',
+  'returned',
+];
+
+// Info received only means the label was booked, and an exception such as a
+// failed delivery attempt leaves the parcel where it was
+const SHIPMENT_STATUS: Record<TrackingStatus, ShipmentStatus | null> = {
+  info_received: null,
+  in_transit: 'in_transit',
+  out_for_delivery: 'in_transit',
+  ready_for_pickup: 'in_transit',
+  delivered: 'delivered',
+  exception: null,
+  returned: 'returned',
+};
+
+// Events the customer hears about; the rest are only shown on the tracking page
+const NOTIFIED: TrackingStatus[] = ['out_for_delivery', 'ready_for_pickup', 'delivered', 'exception'];
+
+export function isTrackingStatus(value: string): value is TrackingStatus {
+  return (TRACKING_STATUSES as string[]).includes(value);
+}
+
+export function getShipmentStatusForTracking(status: TrackingStatus): ShipmentStatus | null {
+  return SHIPMENT_STATUS[status];
+}
+
+export function shouldNotifyCustomer(status: TrackingStatus): boolean {
+  return NOTIFIED.includes(status);
+}
+
+/**
+ * The most recent event, or undefined for none. Carriers don't always send
+ * events in order, so this goes by when they happened.
+ */
+export function getLatestEvent<T extends CarrierTrackingEvent>(events: T[]): T | undefined {
+  return events.reduce<T | undefined>(
+    (latest, event) => (!latest || event.occurredAt > latest.occurredAt ? event : latest),
+    undefined
+  );
+}
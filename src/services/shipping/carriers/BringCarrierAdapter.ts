@@ -0,0 +1,16 @@
+// Bring Carrier Adapter
+// No Bring API is integrated yet, so every operation uses the local stub
+
+import { injectable } from 'tsyringe';
+import { BaseCarrierAdapter, StubPrice } from '../ICarrierAdapter';
+
+@injectable()
+export class BringCarrierAdapter extends BaseCarrierAdapter {
+  readonly carrierCode = 'BRING';
+
+  protected readonly stubPrices: Record<string, StubPrice> = {
+    HOME_DELIVERY: { basePrice: 79, pricePerKg: 5 },
+    SERVICEPOINT: { basePrice: 59, pricePerKg: 5 },
+    PICKUP: { basePrice: 49, pricePerKg: 5 },
+  };
+}
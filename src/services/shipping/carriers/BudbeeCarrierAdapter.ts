@@ -0,0 +1,16 @@
+// Budbee Carrier Adapter
+// No Budbee API is integrated yet, so every operation uses the local stub
+
+import { injectable } from 'tsyringe';
+import { BaseCarrierAdapter, StubPrice } from '../ICarrierAdapter';
+
+@injectable()
+export class BudbeeCarrierAdapter extends BaseCarrierAdapter {
+  readonly carrierCode = 'BUDBEE';
+
+  protected readonly stubPrices: Record<string, StubPrice> = {
+    HOME_DELIVERY: { basePrice: 69, pricePerKg: 5 },
+    BOX: { basePrice: 49, pricePerKg: 4 },
+    LOCKER: { basePrice: 39, pricePerKg: 4 },
+  };
+}
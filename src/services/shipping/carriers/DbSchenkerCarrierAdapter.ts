@@ -0,0 +1,16 @@
+// DB Schenker Carrier Adapter
+// No DB Schenker API is integrated yet, so every operation uses the local stub
+
+import { injectable } from 'tsyringe';
+import { BaseCarrierAdapter, StubPrice } from '../ICarrierAdapter';
+
+@injectable()
+export class DbSchenkerCarrierAdapter extends BaseCarrierAdapter {
+  readonly carrierCode = 'DB_SCHENKER';
+
+  protected readonly stubPrices: Record<string, StubPrice> = {
+    HOME_DELIVERY: { basePrice: 89, pricePerKg: 6 },
+    PARCEL_BOX: { basePrice: 59, pricePerKg: 5 },
+    SERVICEPOINT: { basePrice: 49, pricePerKg: 5 },
+  };
+}
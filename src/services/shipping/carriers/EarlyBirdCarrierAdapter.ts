@@ -0,0 +1,15 @@
+// Early Bird Carrier Adapter
+// No Early Bird API is integrated yet, so every operation uses the local stub
+
+import { injectable } from 'tsyringe';
+import { BaseCarrierAdapter, StubPrice } from '../ICarrierAdapter';
+
+@injectable()
+export class EarlyBirdCarrierAdapter extends BaseCarrierAdapter {
+  readonly carrierCode = 'EARLY_BIRD';
+
+  protected readonly stubPrices: Record<string, StubPrice> = {
+    ECO_STANDARD: { basePrice: 59, pricePerKg: 5 },
+    ECO_EXPRESS: { basePrice: 89, pricePerKg: 7 },
+  };
+}
@@ -0,0 +1,15 @@
+// Instabee Carrier Adapter
+// No Instabee API is integrated yet, so every operation uses the local stub
+
+import { injectable } from 'tsyringe';
+import { BaseCarrierAdapter, StubPrice } from '../ICarrierAdapter';
+
+@injectable()
+export class InstabeeCarrierAdapter extends BaseCarrierAdapter {
+  readonly carrierCode = 'INSTABEE';
+
+  protected readonly stubPrices: Record<string, StubPrice> = {
+    HOME_DELIVERY: { basePrice: 99, pricePerKg: 6 },
+    EVENING_DELIVERY: { basePrice: 109, pricePerKg: 6 },
+  };
+}
@@ -0,0 +1,15 @@
+// Instabox Carrier Adapter
+// No Instabox API is integrated yet, so every operation uses the local stub
+
+import { injectable } from 'tsyringe';
+import { BaseCarrierAdapter, StubPrice } from '../ICarrierAdapter';
+
+@injectable()
+export class InstaboxCarrierAdapter extends BaseCarrierAdapter {
+  readonly carrierCode = 'INSTABOX';
+
+  protected readonly stubPrices: Record<string, StubPrice> = {
+    LOCKER: { basePrice: 39, pricePerKg: 4 },
+    SERVICEPOINT: { basePrice: 49, pricePerKg: 4 },
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Label Layout
+ *
+ * What goes where on a 4x6 inch shipping label, independent of the output
+ * format. Positions are in points (1/72 inch) from the top left corner; the
+ * PDF and ZPL renderers turn the same layout into their own units.
+ */
+
+import { Address, PickupPoint } from '@/types';
+
+export const LABEL_WIDTH = 288;
+export const LABEL_HEIGHT = 432;
+
+export interface LabelData {
+  trackingNumber: string;
+  carrierCode: string;
+  carrierName: string;
+  carrierLogo?: string;
+  colorScheme: string;
+  senderAddress: Address;
+  recipientAddress: Address;
+  packageWeight: number;
+  serviceName: string;
+  orderNumber: string;
+  // Scanned from the QR code
+  trackingUrl: string;
+  // Set when the parcel goes to a service point or locker rather than the recipient's address
+  pickupPoint?: PickupPoint;
+  // The parcel holds flammable liquids shipped as limited quantities
+  limitedQuantity?: boolean;
+}
+
+export type LabelElement =
+  // y is the text's baseline
+  | { kind: 'text'; x: number; y: number; size: number; text: string; bold?: boolean; color?: string }
+  | { kind: 'box'; x: number; y: number; width: number; height: number; fill: string }
+  | { kind: 'line'; x: number; y: number; width: number; thickness: number; color?: string }
+  // Code 128
+  | { kind: 'barcode'; x: number; y: number; width: number; height: number; data: string }
+  | { kind: 'qrcode'; x: number; y: number; size: number; data: string }
+  // Limited-quantity mark: a square on its point, black at the top and bottom, white across the middle
+  | { kind: 'lq_mark'; x: number; y: number; size: number };
+
+// How far the black top and bottom of the limited-quantity mark reach in, as a share of its height
+export const LQ_MARK_BLACK_SHARE = 0.25;
+
+export interface LabelLayout {
+  width: number;
+  height: number;
+  elements: LabelElement[];
+}
+
+const MARGIN = 20;
+
+export function buildLabelLayout(labelData: LabelData): LabelLayout {
+  const elements: LabelElement[] = [];
+  const text = (y: number, size: number, value: string, options: { x?: number; bold?: boolean; color?: string } = {}) => {
+    elements.push({ kind: 'text', x: options.x ?? MARGIN, y, size, text: value, bold: options.bold, color: options.color });
+  };
+
+  // Header with the carrier's colour
+  elements.push({ kind: 'box', x: 0, y: 0, width: LABEL_WIDTH, height: 60, fill: labelData.colorScheme });
+  text(37, 20, labelData.carrierName, { bold: true });
+  text(54, 10, labelData.serviceName);
+
+  text(77, 8, 'TRACKING NUMBER', { color: '#4D4D4D' });
+  text(97, 18, labelData.trackingNumber, { bold: true });
+  elements.push({ kind: 'barcode', x: MARGIN, y: 107, width: LABEL_WIDTH - 2 * MARGIN, height: 60, data: labelData.trackingNumber });
+
+  // Beside the sender, clear of the addresses and the barcode
+  if (labelData.limitedQuantity) {
+    elements.push({ kind: 'lq_mark', x: LABEL_WIDTH - MARGIN - 52, y: 184, size: 52 });
+  }
+
+  text(187, 10, 'FRÅN:', { bold: true });
+  let y = 202;
+  for (const line of formatAddress(labelData.senderAddress)) {
+    text(y, 9, line);
+    y += 12;
+  }
+
+  elements.push({ kind: 'line', x: MARGIN, y: y + 5, width: LABEL_WIDTH - 2 * MARGIN, thickness: 1, color: '#CCCCCC' });
+
+  // Recipient, larger and more prominent
+  text(y + 20, 12, 'TILL:', { bold: true });
+  y += 38;
+  for (const line of formatAddress(labelData.recipientAddress)) {
+    text(y, 11, line, { bold: true });
+    y += 14;
+  }
+
+  // Pickup point the carrier delivers to, with its id for sorting
+  if (labelData.pickupPoint) {
+    const point = labelData.pickupPoint;
+    text(y + 4, 9, `${point.type === 'locker' ? 'PAKETSKÅP' : 'OMBUD'}: ${point.name} (${point.id})`, { bold: true });
+    text(y + 15, 8, `${point.street}, ${point.postalCode} ${point.city}`);
+  }
+
+  elements.push({ kind: 'qrcode', x: 200, y: 344, size: 68, data: labelData.trackingUrl });
+
+  text(352, 9, `Vikt: ${labelData.packageWeight.toFixed(2)} kg`);
+  text(367, 9, `Order: ${labelData.orderNumber}`, { color: '#808080' });
+  text(402, 8, 'Scan för spårning', { x: 130, color: '#808080' });
+  text(422, 7, 'Fortune Essence AB | www.fortuneessence.se', { color: '#999999' });
+
+  return {
+    width: LABEL_WIDTH,
+    height: LABEL_HEIGHT,
+    elements,
+  };
+}
+
+function formatAddress(address: Address): string[] {
+  const lines: string[] = [];
+
+  if (address.firstName || address.lastName) {
+    lines.push(`${address.firstName || ''} ${address.lastName || ''}`.trim());
+  }
+
+  lines.push(address.street);
+  lines.push(`${address.postalCode} ${address.city}`);
+
+  if (address.country && address.country !== 'Sweden') {
+    lines.push(address.country.toUpperCase());
+  }
+
+  return lines;
+}
@@ -0,0 +1,136 @@
+// PDF Label Renderer
+// A 4x6 inch page at 72 DPI, for office printers and the customer's own download
+
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { ILabelRenderer } from '../ILabelRenderer';
+import { LabelElement, LabelLayout, LQ_MARK_BLACK_SHARE } from './LabelLayout';
+import { generateCode128Png, generateQrCodePng } from './barcodeImages';
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+export class PdfLabelRenderer implements ILabelRenderer {
+  readonly format = 'pdf' as const;
+  readonly fileExtension = 'pdf';
+
+  async render(layout: LabelLayout): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([layout.width, layout.height]);
+
+    const fonts: Fonts = {
+      regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+      bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+    };
+
+    for (const element of layout.elements) {
+      await this.drawElement(pdfDoc, page, fonts, element);
+    }
+
+    return await pdfDoc.save();
+  }
+
+  // PDF measures from the bottom left, the layout from the top left
+  private async drawElement(pdfDoc: PDFDocument, page: PDFPage, fonts: Fonts, element: LabelElement): Promise<void> {
+    const pageHeight = page.getHeight();
+
+    switch (element.kind) {
+      case 'text':
+        page.drawText(element.text, {
+          x: element.x,
+          y: pageHeight - element.y,
+          size: element.size,
+          font: element.bold ? fonts.bold : fonts.regular,
+          color: this.toRgb(element.color || '#000000'),
+        });
+        break;
+
+      case 'box':
+        page.drawRectangle({
+          x: element.x,
+          y: pageHeight - element.y - element.height,
+          width: element.width,
+          height: element.height,
+          color: this.toRgb(element.fill),
+        });
+        break;
+
+      case 'line':
+        page.drawLine({
+          start: { x: element.x, y: pageHeight - element.y },
+          end: { x: element.x + element.width, y: pageHeight - element.y },
+          thickness: element.thickness,
+          color: this.toRgb(element.color || '#000000'),
+        });
+        break;
+
+      case 'barcode':
+        await this.drawImage(pdfDoc, page, await generateCode128Png(element.data), {
+          x: element.x,
+          y: pageHeight - element.y - element.height,
+          width: element.width,
+          height: element.height,
+        });
+        break;
+
+      case 'qrcode':
+        await this.drawImage(pdfDoc, page, await generateQrCodePng(element.data), {
+          x: element.x,
+          y: pageHeight - element.y - element.size,
+          width: element.size,
+          height: element.size,
+        });
+        break;
+
+      case 'lq_mark': {
+        // SVG paths run downwards from their origin, like the layout
+        const size = element.size;
+        const half = size / 2;
+        const black = size * LQ_MARK_BLACK_SHARE;
+        const origin = { x: element.x, y: pageHeight - element.y };
+
+        page.drawSvgPath(
+          `M ${half} 0 L ${half + black} ${black} L ${half - black} ${black} Z `
+          + `M ${half} ${size} L ${half - black} ${size - black} L ${half + black} ${size - black} Z`,
+          { ...origin, color: rgb(0, 0, 0) }
+        );
+        page.drawSvgPath(
+          `M ${half} 0 L ${size} ${half} L ${half} ${size} L 0 ${half} Z`,
+          { ...origin, borderColor: rgb(0, 0, 0), borderWidth: 1.5 }
+        );
+        break;
+      }
+    }
+  }
+
+  private async drawImage(
+    pdfDoc: PDFDocument,
+    page: PDFPage,
+    pngDataUrl: string,
+    position: { x: number; y: number; width: number; height: number }
+  ): Promise<void> {
+    try {
+      const image = await pdfDoc.embedPng(pngDataUrl);
+      page.drawImage(image, position);
+    } catch (error) {
+      console.error('Failed to embed label image:', error);
+    }
+  }
+
+  /**
+   * Convert hex color to RGB
+   */
+  private toRgb(hex: string) {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    if (!result) {
+      return rgb(1, 1, 0); // Default yellow
+    }
+
+    return rgb(
+      parseInt(result[1], 16) / 255,
+      parseInt(result[2], 16) / 255,
+      parseInt(result[3], 16) / 255
+    );
+  }
+}
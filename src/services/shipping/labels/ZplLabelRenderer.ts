@@ -0,0 +1,131 @@
+// ZPL Label Renderer
+// ZPL II for the warehouse's Zebra thermal printers at 203 DPI. Thermal labels are black
+// only, so dark fills print solid, light ones as an outline, and grey text as black;
+// text on a solid fill is printed reversed, white on black.
+
+import { ILabelRenderer } from '../ILabelRenderer';
+import { LabelElement, LabelLayout, LQ_MARK_BLACK_SHARE } from './LabelLayout';
+
+const DOTS_PER_INCH = 203;
+const POINTS_PER_INCH = 72;
+
+// Modules across a QR code holding a tracking URL, quiet zone included
+const QR_MODULES = 41;
+
+export class ZplLabelRenderer implements ILabelRenderer {
+  readonly format = 'zpl' as const;
+  readonly fileExtension = 'zpl';
+
+  async render(layout: LabelLayout): Promise<Uint8Array> {
+    const commands = [
+      '^XA',
+      // Field data is UTF-8, for å, ä and ö
+      '^CI28',
+      `^PW${this.toDots(layout.width)}`,
+      `^LL${this.toDots(layout.height)}`,
+      ...layout.elements.map(element => this.renderElement(element, layout.elements)),
+      '^XZ',
+    ];
+
+    return new TextEncoder().encode(commands.join('\n') + '\n');
+  }
+
+  private renderElement(element: LabelElement, elements: LabelElement[]): string {
+    switch (element.kind) {
+      case 'text': {
+        // Fields are placed by their top left corner, the layout places text by its baseline
+        const height = this.toDots(element.size);
+        const width = element.bold ? height : Math.round(height * 0.85);
+        const reverse = this.isOnSolidFill(element, elements) ? '^FR' : '';
+        return `^FO${this.toDots(element.x)},${this.toDots(element.y - element.size)}${reverse}^A0N,${height},${width}^FH${this.fieldData(element.text)}^FS`;
+      }
+
+      case 'box': {
+        const width = this.toDots(element.width);
+        const height = this.toDots(element.height);
+        const thickness = this.isDark(element.fill) ? Math.min(width, height) : 3;
+        return `^FO${this.toDots(element.x)},${this.toDots(element.y)}^GB${width},${height},${thickness}^FS`;
+      }
+
+      case 'line': {
+        const thickness = Math.max(1, this.toDots(element.thickness));
+        return `^FO${this.toDots(element.x)},${this.toDots(element.y)}^GB${this.toDots(element.width)},${thickness},${thickness}^FS`;
+      }
+
+      case 'barcode':
+        // Code 128 with 2-dot modules; the width follows from the data
+        return `^FO${this.toDots(element.x)},${this.toDots(element.y)}^BY2^BCN,${this.toDots(element.height)},N,N,N^FD${element.data}^FS`;
+
+      case 'qrcode': {
+        const magnification = Math.min(10, Math.max(1, Math.floor(this.toDots(element.size) / QR_MODULES)));
+        return `^FO${this.toDots(element.x)},${this.toDots(element.y)}^BQN,2,${magnification}^FDQA,${element.data}^FS`;
+      }
+
+      case 'lq_mark':
+        return this.renderLimitedQuantityMark(element.x, element.y, element.size);
+    }
+  }
+
+  /**
+   * ZPL has no filled triangles, so the black top and bottom are stacked from
+   * thin bars that narrow towards the points; the edges are diagonal lines
+   */
+  private renderLimitedQuantityMark(x: number, y: number, size: number): string {
+    const left = this.toDots(x);
+    const top = this.toDots(y);
+    const half = Math.round(this.toDots(size) / 2);
+    const black = Math.round(this.toDots(size) * LQ_MARK_BLACK_SHARE);
+    const bar = 2;
+    const commands: string[] = [];
+
+    for (let depth = 0; depth < black; depth += bar) {
+      const width = Math.max(bar, 2 * depth);
+      commands.push(`^FO${left + half - width / 2},${top + depth}^GB${width},${bar},${bar}^FS`);
+      commands.push(`^FO${left + half - width / 2},${top + 2 * half - depth - bar}^GB${width},${bar},${bar}^FS`);
+    }
+
+    // Top left and bottom right lean right, the other two edges lean left
+    commands.push(`^FO${left},${top}^GD${half},${half},3,B,R^FS`);
+    commands.push(`^FO${left + half},${top}^GD${half},${half},3,B,L^FS`);
+    commands.push(`^FO${left},${top + half}^GD${half},${half},3,B,L^FS`);
+    commands.push(`^FO${left + half},${top + half}^GD${half},${half},3,B,R^FS`);
+
+    return commands.join('\n');
+  }
+
+  /**
+   * Whether the text sits on a box printed solid black, where black text
+   * would vanish
+   */
+  private isOnSolidFill(text: Extract<LabelElement, { kind: 'text' }>, elements: LabelElement[]): boolean {
+    const middle = text.y - text.size / 2;
+    return elements.some(element =>
+      element.kind === 'box'
+      && this.isDark(element.fill)
+      && text.x >= element.x && text.x < element.x + element.width
+      && middle >= element.y && middle < element.y + element.height
+    );
+  }
+
+  private toDots(points: number): number {
+    return Math.round(points * DOTS_PER_INCH / POINTS_PER_INCH);
+  }
+
+  /**
+   * Text for a ^FH field: the characters ZPL reads as commands, and the
+   * escape character itself, are written as hex
+   */
+  private fieldData(text: string): string {
+    return text.replace(/[_^~]/g, char => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private isDark(hex: string): boolean {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    if (!result) {
+      return false;
+    }
+
+    const [r, g, b] = result.slice(1).map(channel => parseInt(channel, 16));
+    return (0.299 * r + 0.587 * g + 0.114 * b) / 255 < 0.5;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Barcode images for labels and label records, as PNG data URLs
+ */
+
+import bwipjs from 'bwip-js';
+import QRCode from 'qrcode';
+
+// 1x1 PNG used when an image can't be generated
+const PLACEHOLDER_PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+/**
+ * Generate Code 128 barcode
+ */
+export async function generateCode128Png(data: string): Promise<string> {
+  try {
+    const png = await bwipjs.toBuffer({
+      bcid: 'code128',
+      text: data,
+      scale: 3,
+      height: 10,
+      includetext: false,
+      textxalign: 'center',
+    });
+
+    return `data:image/png;base64,${png.toString('base64')}`;
+  } catch (error) {
+    console.error('Barcode generation error:', error);
+    return PLACEHOLDER_PNG;
+  }
+}
+
+/**
+ * Generate QR code
+ */
+export async function generateQrCodePng(data: string): Promise<string> {
+  try {
+    return await QRCode.toDataURL(data, {
+      width: 200,
+      margin: 1,
+      color: {
+        dark: '#000000',
+        light: '#FFFFFF',
+      },
+    });
+  } catch (error) {
+    console.error('QR code generation error:', error);
+    return PLACEHOLDER_PNG;
+  }
+}
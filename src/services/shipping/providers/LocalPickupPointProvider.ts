@@ -0,0 +1,68 @@
+// Local Pickup Point Provider
+// Looks pickup points up in the bundled dataset; nearness is approximated by postal code,
+// which in Sweden runs geographically within a postal region
+
+import { ApiResponse, PickupPoint } from '@/types';
+import { IPickupPointProvider, PickupPointType } from '../IPickupPointProvider';
+import { PICKUP_POINTS } from '@/config/pickupPoints';
+
+const DEFAULT_LIMIT = 5;
+
+export class LocalPickupPointProvider implements IPickupPointProvider {
+  private readonly points: PickupPoint[];
+
+  constructor(
+    readonly carrierCode: string,
+    points: PickupPoint[] = PICKUP_POINTS
+  ) {
+    this.points = points.filter(point => point.carrierCode === carrierCode);
+  }
+
+  async findNearby(
+    postalCode: string,
+    type?: PickupPointType,
+    limit: number = DEFAULT_LIMIT
+  ): Promise<ApiResponse<PickupPoint[]>> {
+    const code = this.normalisePostalCode(postalCode);
+    if (!code) {
+      return {
+        success: false,
+        error: 'Invalid Swedish postal code',
+      };
+    }
+
+    // The first two digits are the postal region; points outside it are too far to collect from
+    const nearby = this.points
+      .filter(point => !type || point.type === type)
+      .map(point => ({ point, code: this.normalisePostalCode(point.postalCode)! }))
+      .filter(candidate => candidate.code.slice(0, 2) === code.slice(0, 2))
+      .sort((a, b) => Math.abs(Number(a.code) - Number(code)) - Math.abs(Number(b.code) - Number(code)))
+      .slice(0, limit)
+      .map(candidate => candidate.point);
+
+    return {
+      success: true,
+      data: nearby,
+    };
+  }
+
+  async findById(pickupPointId: string): Promise<ApiResponse<PickupPoint>> {
+    const point = this.points.find(candidate => candidate.id === pickupPointId);
+    if (!point) {
+      return {
+        success: false,
+        error: 'Pickup point not found',
+      };
+    }
+
+    return {
+      success: true,
+      data: point,
+    };
+  }
+
+  private normalisePostalCode(postalCode: string): string | null {
+    const code = postalCode.replace(/\s/g, '');
+    return /^\d{5}$/.test(code) ? code : null;
+  }
+}
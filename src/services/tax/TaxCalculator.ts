@@ -0,0 +1,118 @@
+import { injectable } from 'tsyringe';
+import type { ITaxCalculator, VatCalculationInput } from '@/interfaces';
+import type { ProductCategory, VatCalculation, VatRateBreakdown, VatScheme } from '@/types';
+import { CATEGORY_TAX_RATES, COUNTRY_CODES, HOME_TAX_COUNTRY, TAX_RATES } from '@/config/payment.config';
+import { config } from '@/config';
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Tax Calculator
+ *
+ * Shelf prices include Swedish VAT. Customers in Sweden and the rest of the EU
+ * pay the shelf price, with the VAT inside it worked out at the rate that
+ * applies to the sale. Exports outside the EU are zero-rated and charged the
+ * shelf price less Swedish VAT.
+ *
+ * Shipping is taxed like the goods it delivers, so with several rates in one
+ * order it is split over them in proportion to the goods at each rate.
+ */
+@injectable()
+export class TaxCalculator implements ITaxCalculator {
+  normalizeCountry(country: string): string {
+    const trimmed = country.trim();
+    if (/^[a-z]{2}$/i.test(trimmed)) {
+      return trimmed.toUpperCase();
+    }
+    return COUNTRY_CODES[trimmed.toLowerCase()] || trimmed.toUpperCase();
+  }
+
+  getScheme(country: string): VatScheme {
+    const code = this.normalizeCountry(country);
+
+    if (code === HOME_TAX_COUNTRY) {
+      return 'domestic';
+    }
+    if (TAX_RATES[code] !== undefined) {
+      return config.tax.ossEnabled ? 'oss' : 'domestic';
+    }
+    return 'export';
+  }
+
+  getTaxRate(country: string, category?: ProductCategory): number {
+    switch (this.getScheme(country)) {
+      case 'export':
+        return 0;
+      case 'oss':
+        return this.getCountryRate(this.normalizeCountry(country), category);
+      default:
+        return this.getCountryRate(HOME_TAX_COUNTRY, category);
+    }
+  }
+
+  getChargedPrice(shelfPrice: number, country: string, category?: ProductCategory): number {
+    if (this.getScheme(country) !== 'export') {
+      return shelfPrice;
+    }
+    return round(shelfPrice / (1 + this.getCountryRate(HOME_TAX_COUNTRY, category)));
+  }
+
+  calculate({ country, lines, shipping, discount = 0 }: VatCalculationInput): VatCalculation {
+    const itemsTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    const grossByRate = new Map<number, number>();
+
+    for (const line of lines) {
+      const rate = this.getTaxRate(country, line.category);
+      const share = itemsTotal > 0 ? line.amount / itemsTotal : 0;
+      grossByRate.set(rate, (grossByRate.get(rate) || 0) + line.amount - discount * share);
+    }
+
+    if (shipping > 0) {
+      const goodsTotal = Array.from(grossByRate.values()).reduce((sum, gross) => sum + gross, 0);
+      if (goodsTotal > 0) {
+        for (const [rate, gross] of grossByRate) {
+          grossByRate.set(rate, gross + shipping * (gross / goodsTotal));
+        }
+      } else {
+        const rate = this.getTaxRate(country);
+        grossByRate.set(rate, (grossByRate.get(rate) || 0) + shipping);
+      }
+    }
+
+    const total = round(itemsTotal - discount + shipping);
+    const rates = Array.from(grossByRate.keys()).sort((a, b) => b - a);
+    const grossAmounts = rates.map(rate => round(grossByRate.get(rate)!));
+
+    // Keep the rounded rates adding up to the total charged
+    if (grossAmounts.length > 0) {
+      grossAmounts[0] = round(grossAmounts[0] + total - grossAmounts.reduce((sum, gross) => sum + gross, 0));
+    }
+
+    const breakdown: VatRateBreakdown[] = rates.map((rate, index) => {
+      const gross = grossAmounts[index];
+      const vat = round(gross * rate / (1 + rate));
+      return {
+        rate,
+        net: round(gross - vat),
+        vat,
+        gross,
+      };
+    });
+
+    const vat = round(breakdown.reduce((sum, line) => sum + line.vat, 0));
+
+    return {
+      country: this.normalizeCountry(country),
+      scheme: this.getScheme(country),
+      breakdown,
+      net: round(total - vat),
+      vat,
+      total,
+    };
+  }
+
+  private getCountryRate(countryCode: string, category?: ProductCategory): number {
+    const override = category ? CATEGORY_TAX_RATES[countryCode]?.[category] : undefined;
+    return override ?? TAX_RATES[countryCode];
+  }
+}
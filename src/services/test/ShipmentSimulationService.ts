@@ -3,18 +3,23 @@ import {
   ShipmentSimulationResult,
   IStatusProgressionStrategy,
 } from '@/interfaces/test';
-import { IShippingService } from '@/interfaces';
-import { ApiResponse } from '@/types';
+import { IOrderRepository, IShippingService } from '@/interfaces';
+import { ApiResponse, Order } from '@/types';
+import { canTransition, isOrderStatus } from '@/services/orders/OrderStateMachine';
 
 /**
  * Shipment Simulation Service
  *
  * Single Responsibility: Handle shipment status simulation
  * Uses Strategy Pattern for status progression (Open/Closed Principle)
+ *
+ * Status changes are written straight to the repository, so they skip the
+ * shipment, capture and inventory side effects, but they still have to be
+ * allowed by the order state machine and are recorded in the status history.
  */
 export class ShipmentSimulationService implements IShipmentSimulationService {
   constructor(
-    private orderRepository: any, // Should be IOrderRepository
+    private orderRepository: IOrderRepository,
     private shippingService: IShippingService,
     private statusProgressionStrategy: IStatusProgressionStrategy
   ) {}
@@ -50,7 +55,7 @@ export class ShipmentSimulationService implements IShipmentSimulationService {
       );
 
       // Update status
-      const updateResult = await this.orderRepository.updateStatus(orderId, nextStatus);
+      const updateResult = await this.transition(order, nextStatus);
 
       if (!updateResult.success) {
         return {
@@ -93,10 +98,18 @@ export class ShipmentSimulationService implements IShipmentSimulationService {
         };
       }
 
+      const orderResult = await this.orderRepository.findById(orderId);
+      if (!orderResult.success) {
+        return {
+          success: false,
+          error: `Order not found: ${orderResult.error}`,
+        };
+      }
+
       console.log(`🧪 TEST MODE: Setting order ${orderId} to status: ${status}`);
 
       // Update status
-      const updateResult = await this.orderRepository.updateStatus(orderId, status);
+      const updateResult = await this.transition(orderResult.data!, status);
 
       if (!updateResult.success) {
         return {
@@ -131,42 +144,50 @@ export class ShipmentSimulationService implements IShipmentSimulationService {
         `🧪 TEST MODE: Simulating complete delivery flow for order ${orderId}`
       );
 
-      const statusSequence = [
-        'processing',
-        'confirmed',
-        'shipped',
-        'in_transit',
-        'out_for_delivery',
-        'delivered',
-      ];
+      const orderResult = await this.orderRepository.findById(orderId);
+      if (!orderResult.success) {
+        return {
+          success: false,
+          error: `Order not found: ${orderResult.error}`,
+        };
+      }
+
+      let order = orderResult.data!;
       const results = [];
 
-      for (const status of statusSequence) {
-        const updateResult = await this.orderRepository.updateStatus(orderId, status);
-        if (updateResult.success) {
-          results.push({
-            status,
-            timestamp: new Date().toISOString(),
-            success: true,
-          });
-          console.log(`🧪 TEST MODE: → ${status}`);
-          // Small delay to simulate real-world progression
-          await this.delay(100);
-        } else {
+      // Walk the progression from wherever the order is until it is delivered
+      let status = this.statusProgressionStrategy.getNextStatus(order.status);
+      while (status) {
+        const updateResult = await this.transition(order, status);
+        if (!updateResult.success) {
           results.push({
             status,
             timestamp: new Date().toISOString(),
             success: false,
             error: updateResult.error,
           });
+          break;
         }
+
+        order = updateResult.data!;
+        results.push({
+          status,
+          timestamp: new Date().toISOString(),
+          success: true,
+        });
+        console.log(`🧪 TEST MODE: → ${status}`);
+        // Small delay to simulate real-world progression
+        await this.delay(100);
+
+        status = this.statusProgressionStrategy.getNextStatus(order.status);
       }
 
       return {
         success: true,
         data: {
           orderId,
-          currentStatus: 'delivered',
+          currentStatus: order.status,
+          order,
           progression: results,
           message: '✅ Complete delivery simulation completed',
         },
@@ -231,6 +252,22 @@ export class ShipmentSimulationService implements IShipmentSimulationService {
     }
   }
 
+  private async transition(order: Order, status: string): Promise<ApiResponse<Order>> {
+    if (!isOrderStatus(status) || !canTransition(order.status, status)) {
+      return {
+        success: false,
+        error: `Order cannot change from ${order.status} to ${status}`,
+      };
+    }
+
+    return this.orderRepository.transitionStatus(order.id, {
+      from: order.status,
+      to: status,
+      actor: 'test-mode',
+      reason: 'Shipment simulation',
+    });
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
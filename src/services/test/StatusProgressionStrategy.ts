@@ -19,12 +19,12 @@ export class LinearStatusProgressionStrategy implements IStatusProgressionStrate
 
   private getDefaultProgression(): Record<string, string> {
     return {
-      'pending': 'processing',
-      'processing': 'confirmed',
-      'confirmed': 'shipped',
+      'pending': 'paid',
+      'paid': 'picking',
+      'picking': 'packed',
+      'packed': 'shipped',
       'shipped': 'in_transit',
-      'in_transit': 'out_for_delivery',
-      'out_for_delivery': 'delivered',
+      'in_transit': 'delivered',
     };
   }
 
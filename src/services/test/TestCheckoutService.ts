@@ -9,6 +9,7 @@ import {
   IShippingService,
   IInventoryService,
   IProductService,
+  ITaxCalculator,
 } from '@/interfaces';
 import { IEmailService } from '@/interfaces/email';
 import { ApiResponse } from '@/types';
@@ -27,7 +28,8 @@ export class TestCheckoutService implements ITestCheckoutService {
     private productService: IProductService,
     private orderRepository: any, // Should be IOrderRepository
     private emailService: IEmailService,
-    private validationPipeline: IValidationPipeline<TestOrderDTO>
+    private validationPipeline: IValidationPipeline<TestOrderDTO>,
+    private taxCalculator: ITaxCalculator
   ) {}
 
   async processTestCheckout(orderData: TestOrderDTO): Promise<ApiResponse<TestOrderResult>> {
@@ -99,7 +101,7 @@ export class TestCheckoutService implements ITestCheckoutService {
       const order = orderResult.data!;
 
       // Step 8: Complete stock reservation
-      await this.inventoryService.completeReservation(stockReservation.data!);
+      await this.inventoryService.completeReservation(stockReservation.data!, order.id);
       console.log('🧪 TEST MODE: Order created successfully:', order.id);
 
       // Step 9: Generate shipping label
@@ -117,6 +119,7 @@ export class TestCheckoutService implements ITestCheckoutService {
         data: {
           order: {
             id: order.id,
+            orderNumber: order.orderNumber,
             customerId: order.customerId,
             items: order.items,
             subtotal,
@@ -160,8 +163,6 @@ export class TestCheckoutService implements ITestCheckoutService {
       (sum, item) => sum + item.price * item.quantity,
       0
     );
-    const tax = subtotal * 0.25; // 25% Swedish VAT
-
     const shippingResult = await this.shippingService.calculateShipping(
       orderData.items,
       orderData.shippingAddress.country
@@ -171,8 +172,15 @@ export class TestCheckoutService implements ITestCheckoutService {
       throw new Error(`Shipping calculation failed: ${shippingResult.error}`);
     }
 
+    // Prices include VAT; test orders are priced as Swedish sales
     const shippingCost = shippingResult.data!.price;
-    const totalAmount = subtotal + tax + shippingCost;
+    const vat = this.taxCalculator.calculate({
+      country: 'SE',
+      lines: orderData.items.map(item => ({ amount: item.price * item.quantity })),
+      shipping: shippingCost,
+    });
+    const tax = vat.vat;
+    const totalAmount = vat.total;
 
     return { subtotal, tax, shippingCost, totalAmount };
   }
@@ -254,7 +262,7 @@ export class TestCheckoutService implements ITestCheckoutService {
       total: totalAmount,
       tax,
       shipping: shippingCost,
-      status: 'confirmed' as const,
+      status: 'paid' as const,
       shippingAddress: orderData.shippingAddress,
       billingAddress: orderData.billingAddress,
       paymentMethod: `${orderData.paymentMethod}_test`,
@@ -305,6 +313,7 @@ export class TestCheckoutService implements ITestCheckoutService {
           customerEmail,
           {
             orderId: order.id,
+            orderNumber: order.orderNumber,
             customerName: customerName || 'Kund',
             items: order.items.map((item: any) => ({
               name: item.productName,
@@ -313,6 +322,7 @@ export class TestCheckoutService implements ITestCheckoutService {
             })),
             total: order.total,
             shippingAddress: this.formatAddress(orderData.shippingAddress),
+            estimatedDelivery: order.estimatedDelivery,
           },
           'sv'
         );
@@ -13,8 +13,32 @@ export interface Product {
   createdAt: Date;
   updatedAt: Date;
   translations: ProductTranslations;
+  // Approved reviews, cached on the product
+  averageRating?: number;
+  reviewCount?: number;
+  supplierId?: string;
+  // Weighted average purchase cost excluding VAT, kept up by goods receipts
+  costPrice?: number;
+  // Warehouse location such as A-03-2, for pick lists
+  shelfLocation?: string;
+  // Set for oils classed as flammable liquids
+  dangerousGoods?: ProductDangerousGoods;
 }
 
+// Flammable liquids: UN1993 for most essential oils, UN1197 for flavouring extracts
+export type DangerousGoodsUnNumber = 'UN1993' | 'UN1197';
+
+export type PackingGroup = 'II' | 'III';
+
+// Flammable oils only ship as limited quantities (ADR 3.4), in small bottles
+export interface ProductDangerousGoods {
+  unNumber: DangerousGoodsUnNumber;
+  packingGroup: PackingGroup;
+  // Liquid in one bottle
+  volumeMl: number;
+}
+
+// In cm
 export interface ProductDimensions {
   length: number;
   width: number;
@@ -106,6 +130,8 @@ export interface Address {
 
 export interface Order {
   id: string;
+  // Customer-facing number such as FE-2026-000123, assigned when the order is created
+  orderNumber: string;
   customerId: string;
   items: OrderItem[];
   total: number;
@@ -116,8 +142,22 @@ export interface Order {
   billingAddress: Address;
   paymentMethod: PaymentMethod;
   paymentId: string;
+  paymentStatus?: PaymentStatus;
   trackingNumber?: string;
   carrier?: string;
+  discount?: AppliedDiscount;
+  vatScheme?: VatScheme;
+  vatBreakdown?: VatRateBreakdown[];
+  // Stock reservation held until the payment settles
+  reservationId?: string;
+  // Delivery day estimated for the chosen shipping rate when the order was placed
+  estimatedDelivery?: Date;
+  // Service point or parcel locker the customer collects the parcel from
+  pickupPoint?: PickupPoint;
+  // Language the customer checked out in, for the packing slip
+  locale?: Locale;
+  // Code of the box from the catalogue the order is packed in
+  packagingBox?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -128,18 +168,78 @@ export interface OrderItem {
   quantity: number;
   price: number;
   total: number;
+  // VAT rate charged on the item, set when the order is priced
+  vatRate?: number;
+  // Product category when ordered, for sales reporting
+  category?: ProductCategory;
+  // Product cost price when ordered, for margins
+  costPrice?: number;
   weight?: number;
   bundleSelection?: BundleSelection;
+  // Lots the item was picked from, once it is in a shipment
+  lots?: OrderItemLot[];
 }
 
-export type OrderStatus = 
+export interface OrderItemLot {
+  lotCode: string;
+  bestBefore?: Date;
+  quantity: number;
+}
+
+// 'pending' is awaiting payment; see OrderStateMachine for the allowed transitions
+export type OrderStatus =
   | 'pending'
-  | 'confirmed' 
-  | 'processing'
+  | 'paid'
+  | 'picking'
+  | 'packed'
   | 'shipped'
+  | 'in_transit'
   | 'delivered'
+  | 'returned'
+  | 'refunded'
   | 'cancelled';
 
+export interface OrderStatusTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  // Who made the change, e.g. 'system', 'stripe', 'customer:<id>' or 'admin:<id>'
+  actor: string;
+  reason?: string;
+  trackingNumber?: string;
+}
+
+// One step of a batch status change; the steps are applied together or not at all
+export interface OrderStatusStep {
+  orderId: string;
+  from: OrderStatus;
+  to: OrderStatus;
+}
+
+export type OrderStatistics = Record<OrderStatus, number> & {
+  total: number;
+};
+
+export interface OrderStatusChange {
+  id: string;
+  orderId: string;
+  // Not set for the entry recorded when the order was placed
+  fromStatus?: OrderStatus;
+  toStatus: OrderStatus;
+  actor: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+export type PaymentStatus =
+  | 'pending'
+  | 'authorized'
+  | 'partially_captured'
+  | 'paid'
+  | 'failed'
+  | 'cancelled'
+  | 'refunded'
+  | 'partially_refunded';
+
 export type PaymentMethod =
   | 'stripe'
   | 'swish'
@@ -147,6 +247,270 @@ export type PaymentMethod =
   | 'card'
   | 'bank-transfer';
 
+export interface PaymentEvent {
+  id: string;
+  provider: string;
+  eventType: 'payment' | 'refund' | 'capture' | 'release';
+  externalId: string;
+  status: string;
+  orderId?: string;
+  amount?: number;
+  currency?: string;
+  payload?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export type DiscountType = 'percentage' | 'fixed_amount' | 'free_shipping';
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  type: DiscountType;
+  // Percent for 'percentage', SEK for 'fixed_amount', unused for 'free_shipping'
+  value: number;
+  description?: string;
+  minOrderValue?: number;
+  eligibleCategories?: ProductCategory[];
+  validFrom?: Date;
+  validUntil?: Date;
+  usageLimit?: number;
+  usageLimitPerCustomer?: number;
+  singleUse: boolean;
+  usageCount: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DiscountRedemption {
+  id: string;
+  discountCodeId: string;
+  orderId?: string;
+  customerId?: string;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface AppliedDiscount {
+  code: string;
+  type: DiscountType;
+  // Total reduction in SEK, including waived shipping for free-shipping codes
+  amount: number;
+  freeShipping: boolean;
+  description?: string;
+}
+
+// domestic: Swedish VAT, oss: destination-country VAT reported through the EU
+// One-Stop-Shop, export: zero-rated sale outside the EU
+export type VatScheme = 'domestic' | 'oss' | 'export';
+
+export interface VatRateBreakdown {
+  rate: number;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface VatCalculation {
+  country: string;
+  scheme: VatScheme;
+  breakdown: VatRateBreakdown[];
+  net: number;
+  vat: number;
+  total: number;
+}
+
+export type InvoiceType = 'invoice' | 'credit_note';
+
+export interface InvoiceParty {
+  name: string;
+  address: Address;
+  orgNumber?: string;
+  vatNumber?: string;
+  // Seller only
+  registeredOffice?: string;
+  fTaxApproved?: boolean;
+}
+
+export interface InvoiceLine {
+  description: string;
+  productId?: string;
+  quantity: number;
+  // VAT included, negative on credit notes
+  unitPrice: number;
+  // Left out for shipping and discounts split over several rates
+  vatRate?: number;
+  total: number;
+}
+
+// Invoices and credit notes share one number series and are never changed once
+// issued; seller and buyer are copied in so the document reads the same later
+export interface Invoice {
+  id: string;
+  invoiceNumber: number;
+  type: InvoiceType;
+  orderId: string;
+  // Not set on invoices issued before orders were numbered
+  orderNumber?: string;
+  customerId?: string;
+  creditedInvoiceNumber?: number;
+  reference?: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  vatScheme: VatScheme;
+  vatBreakdown: VatRateBreakdown[];
+  total: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  issuedAt: Date;
+}
+
+export type AnalyticsRange = 'week' | 'month' | 'year';
+
+export interface PeriodComparison {
+  current: number;
+  previous: number;
+  // Percent change from the previous period; null when it had nothing to compare with
+  change: number | null;
+}
+
+export interface SalesAnalytics {
+  range: AnalyticsRange;
+  // First and last day of the range, Swedish dates
+  from: string;
+  to: string;
+  revenue: PeriodComparison;
+  orders: PeriodComparison;
+  averageOrderValue: PeriodComparison;
+  customers: {
+    new: PeriodComparison;
+    returning: PeriodComparison;
+  };
+  topProducts: Array<{
+    productId: string;
+    name: string;
+    quantity: number;
+    revenue: number;
+    // Revenue excluding VAT less cost of goods, when cost prices are known
+    margin?: number;
+  }>;
+  revenueByCategory: Array<{
+    category: string;
+    revenue: number;
+    percentage: number;
+  }>;
+  dailySales: Array<{
+    date: string;
+    revenue: number;
+    orders: number;
+  }>;
+}
+
+// Boxes of the Swedish VAT return (momsdeklaration) the webshop's sales end up in:
+// 05 taxable sales in Sweden, 10-12 output VAT at 25, 12 and 6 %, 36 exports
+export type VatReturnBox = '05' | '10' | '11' | '12' | '36';
+
+export interface OssCountrySummary {
+  country: string;
+  rate: number;
+  net: number;
+  vat: number;
+}
+
+export interface VatReturn {
+  from: string;
+  to: string;
+  boxes: Record<VatReturnBox, number>;
+  // Sales taxed in other EU countries, declared in the OSS return instead
+  oss: OssCountrySummary[];
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Review {
+  id: string;
+  productId: string;
+  customerId: string;
+  authorName: string;
+  rating: number;
+  title: string;
+  comment: string;
+  // The author had a delivered order containing the product when writing it
+  verified: boolean;
+  status: ReviewStatus;
+  moderationNote?: string;
+  helpful: number;
+  createdAt: Date;
+  updatedAt: Date;
+  moderatedAt?: Date;
+}
+
+export interface ProductRatingSummary {
+  averageRating: number;
+  reviewCount: number;
+  // Approved reviews per star rating, 1 to 5
+  distribution: Record<number, number>;
+}
+
+export type ReturnStatus = 'pending' | 'approved' | 'rejected' | 'received' | 'refunded' | 'cancelled';
+
+export type ReturnItemCondition = 'unopened' | 'opened' | 'damaged' | 'defective';
+
+export interface ReturnItem {
+  id?: string;
+  productId: string;
+  quantity: number;
+  reason?: string;
+  condition?: ReturnItemCondition;
+}
+
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  customerId: string;
+  status: ReturnStatus;
+  reason: string;
+  refundAmount: number;
+  refundMethod?: string;
+  adminNotes?: string;
+  trackingNumber?: string;
+  items: ReturnItem[];
+  createdAt: Date;
+  updatedAt: Date;
+  approvedAt?: Date;
+  receivedAt?: Date;
+  refundedAt?: Date;
+}
+
+export interface ExpiringAuthorization {
+  orderId: string;
+  paymentId: string;
+  paymentStatus: PaymentStatus;
+  orderTotal: number;
+  remainingAmount: number;
+  expiresAt: Date;
+  daysLeft: number;
+  // True when Klarna could not be reached and the expiry is derived from the order date
+  estimated: boolean;
+}
+
+// Where the carrier leaves the parcel: at the door, with a service point
+// (ombud) or in a parcel locker
+export type DeliveryType = 'home' | 'service_point' | 'locker';
+
+export interface PickupPoint {
+  // The carrier's own id for the point
+  id: string;
+  carrierCode: string;
+  type: Exclude<DeliveryType, 'home'>;
+  name: string;
+  street: string;
+  postalCode: string;
+  city: string;
+  openingHours?: string;
+}
+
 export interface ShippingRate {
   id: string;
   name: string;
@@ -163,6 +527,9 @@ export interface ShippingRate {
   colorScheme?: string;
   isEcoFriendly?: boolean;
   zoneBased?: boolean;
+  deliveryType?: DeliveryType;
+  // Delivery day in business days from now, set when rates are offered at checkout
+  estimatedDeliveryDate?: Date;
 }
 
 export interface CarrierInfo {
@@ -171,6 +538,8 @@ export interface CarrierInfo {
   logoUrl: string;
   colorScheme: string;
   trackingPrefix: string;
+  // Orders placed before this time (HH:mm, Swedish time) on a business day leave the same day
+  cutoffTime: string;
   services: CarrierService[];
 }
 
@@ -183,19 +552,132 @@ export interface CarrierService {
   minWeight: number;
   features: string[];
   isEcoFriendly: boolean;
+  deliveryType: DeliveryType;
+  // Carries flammable liquids packed as limited quantities
+  acceptsLimitedQuantity: boolean;
+}
+
+// A box from the packing catalogue
+export interface ShippingBox {
+  code: string;
+  name: string;
+  // Outside measures
+  dimensions: ProductDimensions;
+  // The empty box with its padding, in kg
+  tareWeight: number;
+  // Most it holds, box included, in kg
+  maxWeight: number;
+}
+
+// A packed parcel as carriers weigh and measure it
+export interface Parcel {
+  // Actual weight in kg, box included
+  weight: number;
+  // Without measures only the actual weight is charged
+  dimensions?: ProductDimensions;
+}
+
+export interface PackedParcel extends Parcel {
+  // The smallest box the items fit in; unset when none in the catalogue is big enough
+  box?: ShippingBox;
 }
 
+// Dangerous goods in one parcel, checked against the limited-quantity limits
+export interface DangerousGoodsCheck {
+  // Empty when the parcel holds no dangerous goods
+  unNumbers: DangerousGoodsUnNumber[];
+  // The parcel needs the limited-quantity mark
+  limitedQuantity: boolean;
+  totalVolumeMl: number;
+  grossWeight: number;
+  // Per-package limits the parcel breaks; it has to be split or repacked before it ships
+  warnings: string[];
+}
+
+// PDF for office printers and downloads, ZPL II for the warehouse's thermal printers
+export type LabelFormat = 'pdf' | 'zpl';
+
 export interface ShippingLabel {
   id: string;
   orderId: string;
+  // Set for labels printed for one shipment of the order
+  shipmentId?: string;
   trackingNumber: string;
   carrierCode: string;
   labelPdfUrl: string;
+  // Not set for labels printed before ZPL output
+  labelZplUrl?: string;
   barcodeData: string;
   qrCodeData?: string;
   generatedAt: Date;
 }
 
+// A parcel sent for an order. An order can go out in several, e.g. when one
+// item is backordered; see ShipmentStateMachine for the allowed transitions
+export type ShipmentStatus =
+  | 'pending'
+  | 'packed'
+  | 'shipped'
+  | 'in_transit'
+  | 'delivered'
+  | 'returned'
+  | 'cancelled';
+
+export interface ShipmentItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+}
+
+export interface OrderShipment {
+  id: string;
+  orderId: string;
+  status: ShipmentStatus;
+  items: ShipmentItem[];
+  // Set when the label is printed
+  carrier?: string;
+  trackingNumber?: string;
+  labelUrl?: string;
+  shippedAt?: Date;
+  deliveredAt?: Date;
+  // When the carrier was last polled for tracking events
+  trackedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What a carrier event means for the parcel, whatever the carrier's own codes.
+// See TrackingStatuses for how they move a shipment along.
+export type TrackingStatus =
+  | 'info_received'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'ready_for_pickup'
+  | 'delivered'
+  | 'exception'
+  | 'returned';
+
+// A carrier event after it has been normalised by the carrier's tracking adapter
+export interface CarrierTrackingEvent {
+  carrierCode: string;
+  trackingNumber: string;
+  // The carrier's id for the event, so repeated pushes and polls are stored once
+  externalId: string;
+  status: TrackingStatus;
+  // The carrier's own event code, kept for support
+  carrierStatus: string;
+  description: string;
+  location?: string;
+  occurredAt: Date;
+}
+
+export interface ShipmentTrackingEvent extends CarrierTrackingEvent {
+  id: string;
+  shipmentId: string;
+  orderId: string;
+  createdAt: Date;
+}
+
 export interface ShippingLabelGenerationRequest {
   orderId: string;
   carrierCode: string;
@@ -233,6 +715,177 @@ export interface InventoryItem {
   lastUpdated: Date;
 }
 
+// A delivered batch of a product; quantity is what is left on the shelf
+export interface InventoryLot {
+  id: string;
+  productId: string;
+  lotCode: string;
+  supplier?: string;
+  receivedAt: Date;
+  bestBefore?: Date;
+  receivedQuantity: number;
+  quantity: number;
+  createdAt: Date;
+}
+
+export type ReceiveLotData = Pick<InventoryLot, 'productId' | 'lotCode' | 'supplier' | 'bestBefore'> & {
+  quantity: number;
+  receivedAt?: Date;
+};
+
+// A customer who was sent items from a lot, for recalls
+export interface LotRecipient {
+  orderId: string;
+  orderNumber: string;
+  customerId: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  productId: string;
+  productName?: string;
+  lotCode: string;
+  quantity: number;
+  shipmentStatus: ShipmentStatus;
+  shippedAt?: Date;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: Address;
+  leadTimeDays?: number;
+  notes?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SupplierData = Omit<Supplier, 'id' | 'isActive' | 'createdAt' | 'updatedAt'> & {
+  isActive?: boolean;
+};
+
+// 'draft' until sent to the supplier; received in one or more deliveries
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'sent'
+  | 'partially_received'
+  | 'received'
+  | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: string;
+  productId: string;
+  productName?: string;
+  sku?: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  // Purchase price per unit excluding VAT
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplier?: Supplier;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  notes?: string;
+  expectedAt?: Date;
+  sentAt?: Date;
+  receivedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePurchaseOrderData {
+  supplierId: string;
+  lines: Array<Pick<PurchaseOrderLine, 'productId' | 'quantityOrdered' | 'unitCost'>>;
+  notes?: string;
+  expectedAt?: Date;
+}
+
+// One line of a delivery; a lot code puts it into a lot
+export interface GoodsReceiptLine {
+  lineId: string;
+  quantity: number;
+  lotCode?: string;
+  bestBefore?: Date;
+}
+
+export interface ReorderCandidate {
+  productId: string;
+  productName: string;
+  sku: string;
+  supplierId: string;
+  stock: number;
+  reorderLevel: number;
+  reorderQuantity?: number;
+  // Still to arrive on open purchase orders
+  onOrder: number;
+  costPrice?: number;
+}
+
+// The warehouse steps a fulfilment batch moves through together
+export type FulfilmentStatus = Extract<OrderStatus, 'picking' | 'packed'>;
+
+// One product to take from the shelf for a fulfilment batch
+export interface PickListLine {
+  productId: string;
+  sku: string;
+  productName: string;
+  shelfLocation?: string;
+  quantity: number;
+  // How many of them go to each order, for sorting at the packing table
+  orders: Array<{ orderId: string; orderNumber: string; quantity: number }>;
+}
+
+// In walking order: by shelf location, products without one last
+export interface PickList {
+  orders: Array<Pick<Order, 'id' | 'orderNumber' | 'status'>>;
+  lines: PickListLine[];
+  totalQuantity: number;
+  generatedAt: Date;
+}
+
+export type StockNotificationStatus = 'pending' | 'notified' | 'unsubscribed';
+
+export type StockNotificationSource = 'product_page' | 'wishlist';
+
+export interface StockNotification {
+  id: string;
+  productId: string;
+  email: string;
+  customerId?: string;
+  locale: Locale;
+  source: StockNotificationSource;
+  status: StockNotificationStatus;
+  unsubscribeToken: string;
+  createdAt: Date;
+  notifiedAt?: Date;
+}
+
+export interface StockNotificationSubscription {
+  productId: string;
+  email: string;
+  customerId?: string;
+  locale?: Locale;
+  source?: StockNotificationSource;
+}
+
+export interface StockNotificationDemand {
+  productId: string;
+  productName: string;
+  sku: string;
+  stock: number;
+  pending: number;
+  notified: number;
+  lastSubscribedAt?: Date;
+}
+
 export interface AbandonedCart {
   id: string;
   cartId: string;
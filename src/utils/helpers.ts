@@ -59,6 +59,38 @@ export class DateHelper {
   static isValidDate(date: string): boolean {
     return !isNaN(Date.parse(date));
   }
+
+  /**
+   * Calendar date (YYYY-MM-DD) in Sweden at the given instant
+   */
+  static toSwedishDate(date: Date): string {
+    return date.toLocaleDateString('sv-SE', { timeZone: 'Europe/Stockholm' });
+  }
+
+  /**
+   * The instant a Swedish calendar date (YYYY-MM-DD) starts, i.e. midnight in Stockholm
+   */
+  static startOfSwedishDay(date: string): Date {
+    const utcMidnight = new Date(`${date}T00:00:00Z`);
+    const offset = new Intl.DateTimeFormat('en-US', { timeZone: 'Europe/Stockholm', timeZoneName: 'longOffset' })
+      .formatToParts(utcMidnight)
+      .find(part => part.type === 'timeZoneName')?.value || 'GMT';
+    const match = offset.match(/GMT([+-])(\d{2}):(\d{2})/);
+    const offsetMinutes = match
+      ? (match[1] === '-' ? -1 : 1) * (parseInt(match[2]) * 60 + parseInt(match[3]))
+      : 0;
+
+    return new Date(utcMidnight.getTime() - offsetMinutes * 60 * 1000);
+  }
+
+  /**
+   * Adds days to a calendar date (YYYY-MM-DD)
+   */
+  static addCalendarDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().slice(0, 10);
+  }
 }
 
 export class StringHelper {
@@ -40,6 +40,10 @@ export const orderSchema = z.object({
   billingAddress: addressSchema,
   paymentMethod: z.enum(['swish', 'klarna', 'card', 'bank-transfer']),
   shippingRateId: z.string().uuid('Invalid shipping rate ID'),
+  pickupPointId: z.string().max(100).optional(),
+  discountCode: z.string().max(50).optional(),
+  reservationId: z.string().max(100).optional(),
+  locale: z.enum(['sv', 'en']).optional(),
 });
 
 export const signUpSchema = z.object({